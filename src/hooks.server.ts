@@ -1,7 +1,9 @@
-import type { Handle, HandleServerError } from '@sveltejs/kit';
+import type { Handle, HandleServerError, ServerInit } from '@sveltejs/kit';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
+import { recoverInterruptedRuns } from '$lib/task-runner-manager';
+import { startStaleSweeper } from '$lib/stale-sweeper';
 
 // Debug logging for production
 const LOG_FILE = path.join(os.homedir(), '.beads-dashboard', 'hooks.log');
@@ -18,6 +20,23 @@ function logDebug(message: string): void {
 
 logDebug('hooks.server.ts module loaded');
 
+/**
+ * Server startup - recover task runs interrupted by a restart or crash,
+ * then start the stale bead sweeper
+ */
+export const init: ServerInit = () => {
+	try {
+		const recovered = recoverInterruptedRuns();
+		logDebug(`Recovered ${recovered} interrupted task run(s)`);
+	} catch (err) {
+		const errorMsg = err instanceof Error ? err.message : String(err);
+		logDebug(`Task run recovery failed: ${errorMsg}`);
+	}
+
+	startStaleSweeper();
+	logDebug('Stale bead sweeper started');
+};
+
 /**
  * Handle unexpected errors
  */
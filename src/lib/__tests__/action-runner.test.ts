@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+	ActionRunnerError,
+	cancelActionRun,
+	getActionRun,
+	parseCommand,
+	parseShellWords,
+	previewAction,
+	quoteShellWord,
+	resolveAllowedAction,
+	startActionRun,
+	subscribeToActionRun,
+	type ActionRunEvent
+} from '../action-runner';
+import { closeMemoryDb } from '../memory/db';
+import { getRecentActionReports } from '../memory/actions';
+import type { QuickAction } from '../profiles';
+
+const ALLOWED: QuickAction[] = [
+	{ id: 'test', label: 'Test', icon: 'check', command: 'bun test' },
+	{ id: 'log', label: 'Log', icon: 'list', command: 'git log --oneline -10' },
+	{ id: 'greet', label: 'Greet', icon: 'terminal', command: "GREETING='hello world' echo hi" }
+];
+
+function waitForExit(runId: string): Promise<Extract<ActionRunEvent, { type: 'exit' }>> {
+	return new Promise((resolve) => {
+		subscribeToActionRun(runId, (event) => {
+			if (event.type === 'exit') resolve(event);
+		});
+	});
+}
+
+describe('action-runner', () => {
+	describe('parseShellWords', () => {
+		it('splits on whitespace', () => {
+			expect(parseShellWords('  git   log --oneline ')).toEqual(['git', 'log', '--oneline']);
+		});
+
+		it('handles single quotes, double quotes and escapes', () => {
+			expect(parseShellWords(`git commit -m 'fix: it works' --author="A \\"B\\""`)).toEqual([
+				'git',
+				'commit',
+				'-m',
+				'fix: it works',
+				'--author=A "B"'
+			]);
+			expect(parseShellWords('echo a\\ b "" x')).toEqual(['echo', 'a b', '', 'x']);
+		});
+
+		it('keeps operators inside quotes', () => {
+			expect(parseShellWords(`node -e 'a && b; c | d'`)).toEqual(['node', '-e', 'a && b; c | d']);
+		});
+
+		it('rejects shell operators and substitutions', () => {
+			expect(() => parseShellWords('npm test && rm -rf /')).toThrow(ActionRunnerError);
+			expect(() => parseShellWords('echo hi > out.txt')).toThrow(/without a shell/);
+			expect(() => parseShellWords('echo $HOME')).toThrow(ActionRunnerError);
+			expect(() => parseShellWords('echo "$(whoami)"')).toThrow(/substitution/);
+		});
+
+		it('rejects unterminated quotes', () => {
+			expect(() => parseShellWords(`echo 'oops`)).toThrow(/single quote/);
+			expect(() => parseShellWords('echo "oops')).toThrow(/double quote/);
+		});
+	});
+
+	describe('parseCommand', () => {
+		it('separates leading environment assignments', () => {
+			expect(parseCommand('NODE_ENV=test DEBUG="a b" npm run test')).toEqual({
+				env: { NODE_ENV: 'test', DEBUG: 'a b' },
+				argv: ['npm', 'run', 'test']
+			});
+		});
+
+		it('requires a program', () => {
+			expect(() => parseCommand('FOO=bar')).toThrow(/empty/);
+		});
+	});
+
+	it('quotes words for display', () => {
+		expect(quoteShellWord('src/lib')).toBe('src/lib');
+		expect(quoteShellWord('hello world')).toBe(`'hello world'`);
+		expect(quoteShellWord("it's")).toBe(`'it'\\''s'`);
+	});
+
+	describe('resolveAllowedAction', () => {
+		it('finds actions by id', () => {
+			expect(resolveAllowedAction(ALLOWED, { actionId: 'log' }).command).toBe('git log --oneline -10');
+		});
+
+		it('accepts a command identical to an allowlisted one', () => {
+			expect(resolveAllowedAction(ALLOWED, { command: 'git  log "--oneline" -10' }).id).toBe('log');
+			expect(resolveAllowedAction(ALLOWED, { command: 'GREETING="hello world" echo hi' }).id).toBe(
+				'greet'
+			);
+		});
+
+		it('rejects commands that are not allowlisted', () => {
+			expect(() => resolveAllowedAction(ALLOWED, { command: 'rm -rf .' })).toThrow(/allowlist/);
+			expect(() => resolveAllowedAction(ALLOWED, { command: 'git log' })).toThrow(/allowlist/);
+			expect(() => resolveAllowedAction(ALLOWED, { actionId: 'test', command: 'rm -rf .' })).toThrow(
+				/does not match/
+			);
+			expect(() => resolveAllowedAction(ALLOWED, { actionId: 'deploy' })).toThrow(/not available/);
+		});
+	});
+
+	describe('running actions', () => {
+		let projectPath: string;
+
+		beforeEach(() => {
+			projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'action-runner-'));
+		});
+
+		afterEach(() => {
+			closeMemoryDb(projectPath);
+			fs.rmSync(projectPath, { recursive: true, force: true });
+		});
+
+		function options(command: string, timeoutMs?: number) {
+			return {
+				projectId: 'proj-1',
+				projectPath,
+				action: { id: 'run', label: 'Run', icon: 'terminal', command },
+				profileUsed: 'generic',
+				timeoutMs
+			};
+		}
+
+		it('streams output and records an action report', async () => {
+			const run = startActionRun(
+				options(`ACTION_GREETING=hi node -e 'console.log(process.env.ACTION_GREETING); console.error("warn")'`)
+			);
+			const chunks: string[] = [];
+			subscribeToActionRun(run.id, (event) => {
+				if (event.type === 'output') chunks.push(`${event.stream}:${event.data.trim()}`);
+			});
+
+			const exit = await waitForExit(run.id);
+
+			expect(exit.status).toBe('completed');
+			expect(exit.exitCode).toBe(0);
+			expect(chunks).toContain('stdout:hi');
+			expect(chunks).toContain('stderr:warn');
+			expect(getActionRun(run.id)?.stdout).toBe('hi\n');
+
+			const reports = getRecentActionReports(projectPath, 'proj-1');
+			expect(reports).toHaveLength(1);
+			expect(reports[0].id).toBe(exit.reportId);
+			expect(reports[0].data).toMatchObject({ actionId: 'run', exitCode: 0 });
+		});
+
+		it('reports failures', async () => {
+			const run = startActionRun(options(`node -e 'process.exit(3)'`));
+			const exit = await waitForExit(run.id);
+
+			expect(exit.status).toBe('failed');
+			expect(exit.exitCode).toBe(3);
+		});
+
+		it('can be cancelled', async () => {
+			const run = startActionRun(options(`node -e 'setTimeout(() => {}, 10000)'`));
+			const exitPromise = waitForExit(run.id);
+
+			expect(cancelActionRun(run.id)).toBe(true);
+			const exit = await exitPromise;
+
+			expect(exit.status).toBe('cancelled');
+			expect(cancelActionRun(run.id)).toBe(false);
+		});
+
+		it('times out', async () => {
+			const run = startActionRun(options(`node -e 'setTimeout(() => {}, 10000)'`, 1000));
+			const exit = await waitForExit(run.id);
+
+			expect(exit.status).toBe('timed_out');
+			expect(getActionRun(run.id)?.stderr).toContain('timed out');
+		});
+
+		it('records dry runs without executing', () => {
+			const result = previewAction(options(`node -e 'require("fs").writeFileSync("ran", "")'`));
+
+			expect(result.preview).toContain('Dry Run Preview');
+			expect(fs.existsSync(path.join(projectPath, 'ran'))).toBe(false);
+
+			const reports = getRecentActionReports(projectPath, 'proj-1');
+			expect(reports).toHaveLength(1);
+			expect(reports[0].title).toBe('Action: Run (dry run)');
+			expect(reports[0].data).toMatchObject({ dryRun: true });
+		});
+	});
+});
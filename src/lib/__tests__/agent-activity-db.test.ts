@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+	closeActivityDb,
+	expireOldActivity,
+	flushQueuedActivity,
+	getActivityDb,
+	getActivityDbPath,
+	getActivityExpiry,
+	insertActivityEvent,
+	purgeDeletedActivity,
+	queryActivityLog,
+	queueActivityEvent,
+	toFtsQuery
+} from '../agent-activity-db';
+import type { AgentActivityEvent } from '../agent-activity-types';
+
+let projectPath: string;
+let counter = 0;
+const baseTime = Date.now() - 60 * 60 * 1000;
+
+function event(overrides: Partial<AgentActivityEvent> = {}): AgentActivityEvent {
+	counter++;
+	return {
+		id: `evt_${counter}`,
+		timestamp: new Date(baseTime + counter * 1000),
+		type: 'message',
+		projectId: 'proj-1',
+		agentId: 'agent-1',
+		...overrides
+	};
+}
+
+describe('agent-activity-db', () => {
+	beforeEach(() => {
+		projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'activity-db-'));
+	});
+
+	afterEach(() => {
+		closeActivityDb(projectPath);
+		fs.rmSync(projectPath, { recursive: true, force: true });
+	});
+
+	it('returns an empty page when no log exists', () => {
+		const page = queryActivityLog(projectPath);
+		expect(page.events).toEqual([]);
+		expect(page.total).toBe(0);
+		expect(fs.existsSync(path.join(projectPath, '.beads', 'activity.db'))).toBe(false);
+	});
+
+	it('round-trips events newest first', () => {
+		insertActivityEvent(projectPath, event({ type: 'claimed', branchName: 'bd-1' }));
+		insertActivityEvent(
+			projectPath,
+			event({ type: 'completed', issueId: 'bd-1', success: true, toolInput: { a: 1 } })
+		);
+
+		const { events, total } = queryActivityLog(projectPath);
+		expect(total).toBe(2);
+		expect(events[0]).toMatchObject({
+			type: 'completed',
+			issueId: 'bd-1',
+			success: true,
+			toolInput: { a: 1 }
+		});
+		expect(events[0].timestamp).toBeInstanceOf(Date);
+		expect(events[1].branchName).toBe('bd-1');
+	});
+
+	it('filters by issue, run, agent, type and time range', () => {
+		insertActivityEvent(projectPath, event({ issueId: 'bd-1', runId: 'run-1' }));
+		insertActivityEvent(projectPath, event({ issueId: 'bd-2', runId: 'run-2', type: 'commit' }));
+		insertActivityEvent(projectPath, event({ issueId: 'bd-2', agentId: 'agent-2' }));
+
+		expect(queryActivityLog(projectPath, { issueId: 'bd-2' }).total).toBe(2);
+		expect(queryActivityLog(projectPath, { runId: 'run-1' }).total).toBe(1);
+		expect(queryActivityLog(projectPath, { agentId: 'agent-2' }).total).toBe(1);
+		expect(queryActivityLog(projectPath, { types: ['commit'] }).total).toBe(1);
+
+		const all = queryActivityLog(projectPath).events;
+		const middle = all[1].timestamp;
+		expect(queryActivityLog(projectPath, { since: middle }).total).toBe(2);
+		expect(queryActivityLog(projectPath, { until: middle }).total).toBe(2);
+		expect(queryActivityLog(projectPath, { since: middle, until: middle }).total).toBe(1);
+	});
+
+	it('pages through results', () => {
+		for (let i = 0; i < 5; i++) {
+			insertActivityEvent(projectPath, event());
+		}
+
+		const first = queryActivityLog(projectPath, { limit: 2 });
+		const last = queryActivityLog(projectPath, { limit: 2, offset: 4 });
+
+		expect(first.events).toHaveLength(2);
+		expect(first.hasMore).toBe(true);
+		expect(first.total).toBe(5);
+		expect(last.events).toHaveLength(1);
+		expect(last.hasMore).toBe(false);
+	});
+
+	it('searches content, command and file path', () => {
+		insertActivityEvent(projectPath, event({ content: 'Refactoring the payment gateway' }));
+		insertActivityEvent(
+			projectPath,
+			event({ type: 'tool_use', toolName: 'Bash', toolInput: { command: 'npm run test' } })
+		);
+		insertActivityEvent(
+			projectPath,
+			event({ type: 'tool_use', toolName: 'Edit', toolInput: { file_path: 'src/lib/payments.ts' } })
+		);
+
+		expect(queryActivityLog(projectPath, { search: 'gateway' }).total).toBe(1);
+		expect(queryActivityLog(projectPath, { search: 'npm test' }).events[0].command).toBe(
+			'npm run test'
+		);
+		expect(queryActivityLog(projectPath, { search: 'payment' }).total).toBe(2);
+		expect(queryActivityLog(projectPath, { search: 'nothing-here' }).total).toBe(0);
+	});
+
+	it('migrates logs keyed on the implicit rowid', () => {
+		fs.mkdirSync(path.join(projectPath, '.beads'));
+		const legacy = new Database(getActivityDbPath(projectPath));
+		legacy.exec(`
+			CREATE TABLE activity_events (
+				id TEXT PRIMARY KEY, project_id TEXT NOT NULL, type TEXT NOT NULL, timestamp TEXT NOT NULL,
+				issue_id TEXT, issue_title TEXT, agent_id TEXT NOT NULL, agent_name TEXT, run_id TEXT,
+				content TEXT, file_path TEXT, command TEXT, commit_hash TEXT, branch_name TEXT,
+				tool_name TEXT, tool_input TEXT, tool_result TEXT, exit_code INTEGER, success INTEGER,
+				expires_at TEXT, deleted_at TEXT
+			);
+			CREATE VIRTUAL TABLE activity_fts USING fts5(
+				content, command, file_path, content='activity_events', content_rowid='rowid'
+			);
+			INSERT INTO activity_events (id, project_id, type, timestamp, agent_id, content)
+			VALUES ('evt_old', 'proj-1', 'message', '2026-01-01T00:00:00.000Z', 'agent-1', 'legacy note');
+			INSERT INTO activity_fts(activity_fts) VALUES ('rebuild');
+		`);
+		legacy.close();
+
+		insertActivityEvent(projectPath, event({ content: 'new note' }));
+
+		const columns = getActivityDb(projectPath)
+			.prepare('PRAGMA table_info(activity_events)')
+			.all() as { name: string }[];
+		expect(columns[0].name).toBe('seq');
+		expect(queryActivityLog(projectPath, { search: 'note' }).total).toBe(2);
+		expect(queryActivityLog(projectPath, { search: 'legacy' }).events[0].id).toBe('evt_old');
+	});
+
+	it('writes queued events in batches and flushes them before queries', () => {
+		queueActivityEvent(projectPath, event({ content: 'first' }));
+		queueActivityEvent(projectPath, event({ content: 'second' }));
+		expect(fs.existsSync(getActivityDbPath(projectPath))).toBe(false);
+
+		expect(queryActivityLog(projectPath).total).toBe(2);
+
+		queueActivityEvent(projectPath, event({ content: 'third' }));
+		flushQueuedActivity(projectPath);
+		const stored = getActivityDb(projectPath)
+			.prepare('SELECT COUNT(*) as count FROM activity_events')
+			.get() as { count: number };
+		expect(stored.count).toBe(3);
+	});
+
+	it('builds safe FTS queries', () => {
+		expect(toFtsQuery('  ')).toBeNull();
+		expect(toFtsQuery('say "hi" AND')).toBe('"say"* """hi"""* "AND"*');
+	});
+
+	describe('retention', () => {
+		it('assigns expiry by event type', () => {
+			const now = new Date(Date.UTC(2026, 0, 1));
+			expect(getActivityExpiry('completed', now)).toBeNull();
+			expect(getActivityExpiry('file_read', now)).toBe('2026-01-08T00:00:00.000Z');
+		});
+
+		it('expires old events and later purges them', () => {
+			const old = new Date(Date.now() - 60 * 24 * 60 * 60 * 1000);
+			insertActivityEvent(projectPath, event({ type: 'tool_use', timestamp: old }));
+			insertActivityEvent(projectPath, event({ type: 'completed', timestamp: old }));
+			insertActivityEvent(projectPath, event({ type: 'tool_use' }));
+
+			// Inserting runs the daily prune, so the expired event is already hidden
+			expect(queryActivityLog(projectPath).total).toBe(2);
+			expect(expireOldActivity(projectPath)).toBe(0);
+
+			expect(purgeDeletedActivity(projectPath)).toBe(0);
+			expect(purgeDeletedActivity(projectPath, -1)).toBe(1);
+
+			const remaining = getActivityDb(projectPath)
+				.prepare('SELECT COUNT(*) as count FROM activity_events')
+				.get() as { count: number };
+			expect(remaining.count).toBe(2);
+		});
+	});
+});
@@ -0,0 +1,126 @@
+/**
+ * Tests for the commit-to-bead traceability index
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+	buildBeadCommitIndex,
+	findBeadIdsInText,
+	getBeadsForCommit,
+	getCommitsForBead,
+	matchBranchToBead,
+	type BeadCommitIndex,
+	type BeadRef
+} from '../bead-commit-index';
+import { getDiff } from '../git-utils';
+
+const GIT_ENV = {
+	...process.env,
+	GIT_AUTHOR_NAME: 'Test',
+	GIT_AUTHOR_EMAIL: 'test@example.com',
+	GIT_COMMITTER_NAME: 'Test',
+	GIT_COMMITTER_EMAIL: 'test@example.com'
+};
+
+function git(cwd: string, ...args: string[]): string {
+	const result = spawnSync('git', args, { cwd, encoding: 'utf-8', env: GIT_ENV });
+	if (result.status !== 0) {
+		throw new Error(`git ${args.join(' ')} failed: ${result.stderr}`);
+	}
+	return result.stdout.trim();
+}
+
+function commitFile(cwd: string, file: string, content: string, message: string): string {
+	fs.writeFileSync(path.join(cwd, file), content);
+	git(cwd, 'add', '-A');
+	git(cwd, 'commit', '-q', '-m', message);
+	return git(cwd, 'rev-parse', 'HEAD');
+}
+
+describe('bead commit index', () => {
+	it('finds known bead IDs in text', () => {
+		const known = new Set(['bd-1', 'bd-1.2', 'bd-10']);
+		expect(findBeadIdsInText('Fix bd-1. Also see (bd-1.2) and bd-100', known)).toEqual(['bd-1', 'bd-1.2']);
+	});
+
+	it('matches branches to beads', () => {
+		const beads: BeadRef[] = [{ id: 'bd-3' }, { id: 'bd-30' }, { id: 'bd-7', branch_name: 'custom/login' }];
+		expect(matchBranchToBead('feat/bd-30-search', beads)).toBe('bd-30');
+		expect(matchBranchToBead('origin/feat/bd-3', beads)).toBe('bd-3');
+		expect(matchBranchToBead('origin/custom/login', beads)).toBe('bd-7');
+		expect(matchBranchToBead('main', beads)).toBeNull();
+	});
+
+	describe('history scan', () => {
+		let tmpDir: string;
+		let repo: string;
+		let index: BeadCommitIndex;
+		const commits: Record<string, string> = {};
+
+		beforeAll(() => {
+			tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bead-commits-'));
+			repo = path.join(tmpDir, 'repo');
+			fs.mkdirSync(repo);
+			git(repo, 'init', '-q', '-b', 'main');
+
+			commits.init = commitFile(repo, 'app.txt', 'v1\n', 'Initial commit');
+			commits.mention = commitFile(repo, 'app.txt', 'v2\n', 'Fix typo reported in bd-1.');
+			commits.trailer = commitFile(repo, 'notes.txt', 'a\nb\n', 'Add notes\n\nBead: bd-2');
+
+			git(repo, 'checkout', '-q', '-b', 'feat/bd-3-add-search');
+			commits.search1 = commitFile(repo, 'search.txt', 'search\n', 'Add search box');
+			commits.search2 = commitFile(repo, 'search.txt', 'search v2\n', 'Wire up results');
+			git(repo, 'checkout', '-q', 'main');
+			git(repo, 'merge', '-q', '--no-ff', '--no-edit', 'feat/bd-3-add-search');
+			commits.merge = git(repo, 'rev-parse', 'HEAD');
+			git(repo, 'branch', '-q', '-D', 'feat/bd-3-add-search');
+
+			git(repo, 'checkout', '-q', '-b', 'feat/bd-4-wip');
+			commits.wip = commitFile(repo, 'wip.txt', 'wip\n', 'Work in progress');
+			git(repo, 'checkout', '-q', 'main');
+
+			index = buildBeadCommitIndex(repo, [
+				{ id: 'bd-1' },
+				{ id: 'bd-2' },
+				{ id: 'bd-3' },
+				{ id: 'bd-4' },
+				{ id: 'bd-5', commit_hash: commits.init.slice(0, 7) }
+			]);
+		});
+
+		afterAll(() => {
+			fs.rmSync(tmpDir, { recursive: true, force: true });
+		});
+
+		it('links commits by message, trailer and recorded commit', () => {
+			expect(getCommitsForBead(index, 'bd-1').map((c) => [c.hash, c.sources])).toEqual([[commits.mention, ['message']]]);
+			expect(getCommitsForBead(index, 'bd-2').map((c) => [c.hash, c.sources])).toEqual([[commits.trailer, ['trailer']]]);
+			expect(getCommitsForBead(index, 'bd-5').map((c) => [c.hash, c.sources])).toEqual([[commits.init, ['commit_hash']]]);
+		});
+
+		it('links the commits a merged bead branch brought in', () => {
+			const linked = getCommitsForBead(index, 'bd-3');
+			expect(linked.map((c) => c.hash).sort()).toEqual([commits.merge, commits.search1, commits.search2].sort());
+			expect(linked.every((c) => c.sources.includes('branch') && c.branch === 'feat/bd-3-add-search')).toBe(true);
+		});
+
+		it('links unmerged commits on a bead branch', () => {
+			expect(getCommitsForBead(index, 'bd-4').map((c) => [c.hash, c.branch])).toEqual([[commits.wip, 'feat/bd-4-wip']]);
+		});
+
+		it('looks up beads for a commit by abbreviated hash', () => {
+			expect(getBeadsForCommit(index, commits.search1.slice(0, 8)).map((l) => l.beadId)).toEqual(['bd-3']);
+			expect(getBeadsForCommit(index, commits.init).map((l) => l.beadId)).toEqual(['bd-5']);
+			expect(getBeadsForCommit(index, 'deadbeef')).toEqual([]);
+		});
+
+		it('reports the diff stats of a single commit', () => {
+			const diff = getDiff(repo, commits.trailer, { commitOnly: true });
+			expect(diff.files).toMatchObject([{ path: 'notes.txt', status: 'added', additions: 2, deletions: 0 }]);
+		});
+	});
+});
@@ -0,0 +1,177 @@
+/**
+ * Tests for bead branch, trailer and review automation
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+	DEFAULT_BEAD_GIT_SETTINGS,
+	addBeadTrailer,
+	buildPullRequestBody,
+	ensureBeadBranch,
+	findCommitsMissingBeadTrailer,
+	getBeadBranchName,
+	getBeadTrailers,
+	slugifyTitle,
+	submitBeadForReview,
+	validateBeadGitSettings
+} from '../bead-git-workflow';
+import type { Issue } from '../types';
+
+const GIT_ENV = {
+	...process.env,
+	GIT_AUTHOR_NAME: 'Test',
+	GIT_AUTHOR_EMAIL: 'test@example.com',
+	GIT_COMMITTER_NAME: 'Test',
+	GIT_COMMITTER_EMAIL: 'test@example.com'
+};
+
+function git(cwd: string, ...args: string[]): string {
+	const result = spawnSync('git', args, { cwd, encoding: 'utf-8', env: GIT_ENV });
+	if (result.status !== 0) {
+		throw new Error(`git ${args.join(' ')} failed: ${result.stderr}`);
+	}
+	return result.stdout.trim();
+}
+
+function bead(overrides: Partial<Issue> = {}): Issue {
+	return {
+		id: 'bd-42',
+		title: 'Add OAuth login',
+		description: 'Users sign in with GitHub.',
+		status: 'in_review',
+		priority: 2,
+		issue_type: 'feature',
+		assignee: null,
+		created_at: '2026-01-01',
+		created_by: 'test',
+		updated_at: '2026-01-01',
+		closed_at: null,
+		close_reason: '',
+		...overrides
+	};
+}
+
+describe('bead git workflow', () => {
+	describe('branch names', () => {
+		it('builds feat/{id}-{slug} from the title', () => {
+			expect(getBeadBranchName({ id: 'bd-42', title: 'Add OAuth login!' })).toBe('feat/bd-42-add-oauth-login');
+			expect(getBeadBranchName({ id: 'bd-7', title: '***' })).toBe('feat/bd-7');
+		});
+
+		it('keeps slugs short without a trailing dash', () => {
+			const slug = slugifyTitle('Refactor the parser so that error messages point at the right token');
+			expect(slug.length).toBeLessThanOrEqual(40);
+			expect(slug.endsWith('-')).toBe(false);
+		});
+	});
+
+	describe('trailers', () => {
+		it('adds a Bead trailer once', () => {
+			const message = addBeadTrailer('Fix login redirect', 'bd-42');
+			expect(message).toBe('Fix login redirect\n\nBead: bd-42');
+			expect(addBeadTrailer(message, 'bd-42')).toBe(message);
+			expect(getBeadTrailers(message)).toEqual(['bd-42']);
+		});
+
+		it('joins an existing trailer block', () => {
+			const message = addBeadTrailer('Fix login\n\nBody text.\n\nSigned-off-by: Dev <dev@example.com>', 'bd-9');
+			expect(message.endsWith('Signed-off-by: Dev <dev@example.com>\nBead: bd-9')).toBe(true);
+			expect(getBeadTrailers(message)).toEqual(['bd-9']);
+		});
+
+		it('ignores Bead lines outside the trailer block', () => {
+			expect(getBeadTrailers('Subject\n\nBead: bd-1\n\nMore text')).toEqual([]);
+		});
+	});
+
+	it('builds the PR body from the description and execution log', () => {
+		const body = buildPullRequestBody(bead({ execution_log: 'Added the callback route.', commit_hash: 'abc1234' }));
+		expect(body).toContain('Users sign in with GitHub.');
+		expect(body).toContain('## Execution log\n\nAdded the callback route.');
+		expect(body).toContain('Commit: abc1234\nBead: bd-42');
+	});
+
+	it('validates settings', () => {
+		expect(validateBeadGitSettings({ baseBranch: ' develop ', pushOnReview: true }).settings).toMatchObject({
+			baseBranch: 'develop',
+			pushOnReview: true,
+			createBranchOnClaim: true
+		});
+		expect(validateBeadGitSettings({ openPrOnReview: 'yes' }).errors).toEqual(['openPrOnReview must be true or false']);
+		expect(validateBeadGitSettings({ baseBranch: 'two words' }).settings).toBeNull();
+	});
+
+	describe('in a repository', () => {
+		let tmpDir: string;
+		let repo: string;
+
+		beforeEach(() => {
+			tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bead-git-'));
+			repo = path.join(tmpDir, 'repo');
+			fs.mkdirSync(repo);
+			git(repo, 'init', '-q', '-b', 'main');
+			fs.writeFileSync(path.join(repo, 'app.txt'), 'v1');
+			git(repo, 'add', '-A');
+			git(repo, 'commit', '-q', '-m', 'First');
+			git(repo, 'checkout', '-q', '-b', 'develop');
+			fs.writeFileSync(path.join(repo, 'app.txt'), 'v2');
+			git(repo, 'commit', '-q', '-am', 'Second');
+			git(repo, 'checkout', '-q', 'main');
+		});
+
+		afterEach(() => {
+			fs.rmSync(tmpDir, { recursive: true, force: true });
+		});
+
+		it('creates the bead branch from the configured base without checking it out', () => {
+			const settings = { ...DEFAULT_BEAD_GIT_SETTINGS, baseBranch: 'develop' };
+
+			const created = ensureBeadBranch(repo, 'feat/bd-42-add-oauth-login', settings);
+			expect(created).toEqual({ success: true, created: true, baseBranch: 'develop' });
+			expect(git(repo, 'rev-parse', 'feat/bd-42-add-oauth-login')).toBe(git(repo, 'rev-parse', 'develop'));
+			expect(git(repo, 'branch', '--show-current')).toBe('main');
+
+			expect(ensureBeadBranch(repo, 'feat/bd-42-add-oauth-login', settings)).toEqual({ success: true, created: false });
+		});
+
+		it('finds commits only on the bead branch that lack its trailer', () => {
+			const branch = 'feat/bd-42-add-oauth-login';
+			const commit = (file: string, message: string) => {
+				fs.writeFileSync(path.join(repo, file), file);
+				git(repo, 'add', file);
+				git(repo, 'commit', '-q', '-m', message);
+				return git(repo, 'rev-parse', 'HEAD');
+			};
+
+			git(repo, 'checkout', '-q', '-b', branch);
+			commit('shared.txt', 'Also on another branch');
+			git(repo, 'branch', 'other');
+			const login = commit('login.txt', 'Add login');
+			commit('logout.txt', 'Add logout\n\nBead: bd-42');
+			const before = git(repo, 'rev-parse', branch);
+
+			expect(findCommitsMissingBeadTrailer(repo, branch, 'bd-42')).toEqual([login]);
+			// Checking never rewrites the branch
+			expect(git(repo, 'rev-parse', branch)).toBe(before);
+			expect(findCommitsMissingBeadTrailer(repo, 'feat/missing', 'bd-42')).toEqual([]);
+		});
+
+		it('pushes the bead branch when submitted for review', () => {
+			const remote = path.join(tmpDir, 'remote.git');
+			git(tmpDir, 'init', '-q', '--bare', '-b', 'main', remote);
+			git(repo, 'remote', 'add', 'origin', remote);
+			git(repo, 'branch', 'feat/bd-42-add-oauth-login', 'develop');
+
+			const settings = { ...DEFAULT_BEAD_GIT_SETTINGS, pushOnReview: true };
+			const result = submitBeadForReview(repo, bead({ branch_name: 'feat/bd-42-add-oauth-login' }), settings);
+
+			expect(result).toEqual({ pushed: true, updates: {} });
+			expect(git(remote, 'rev-parse', 'feat/bd-42-add-oauth-login')).toBe(git(repo, 'rev-parse', 'develop'));
+			expect(submitBeadForReview(repo, bead(), settings).error).toBe('Bead has no branch');
+		});
+	});
+});
@@ -6,7 +6,10 @@ import {
 	getValidTargetStatuses,
 	transitionRequiresModal,
 	getTransitionDescription,
-	type BeadStatus
+	getTransitionModal,
+	DEFAULT_WORKFLOW,
+	type BeadStatus,
+	type WorkflowDefinition
 } from '../bead-lifecycle';
 
 describe('bead-lifecycle', () => {
@@ -315,4 +318,63 @@ describe('bead-lifecycle', () => {
 			expect(desc).toContain('ready');
 		});
 	});
+
+	describe('custom workflow', () => {
+		// Adds a qa stage between in_review and closed that requires a PR URL
+		const qaWorkflow: WorkflowDefinition = {
+			statuses: [
+				...DEFAULT_WORKFLOW.statuses,
+				{ id: 'qa', label: 'QA', color: '#ec4899' }
+			],
+			transitions: {
+				...DEFAULT_WORKFLOW.transitions,
+				in_review: ['qa', 'in_progress'],
+				qa: ['closed', 'in_progress']
+			},
+			requirements: {
+				...DEFAULT_WORKFLOW.requirements,
+				'in_review→qa': { pr_url: true }
+			},
+			columns: ['open', 'ready', 'in_progress', 'in_review', 'qa', 'blocked', 'closed']
+		};
+
+		it('follows the workflow transitions', () => {
+			expect(isValidTransition('in_review', 'qa', qaWorkflow)).toBe(true);
+			expect(isValidTransition('in_review', 'closed', qaWorkflow)).toBe(false);
+			expect(getValidTargetStatuses('qa', qaWorkflow)).toEqual(['closed', 'in_progress']);
+		});
+
+		it('leaves the default workflow unchanged', () => {
+			expect(isValidTransition('in_review', 'closed')).toBe(true);
+			expect(isValidTransition('in_review', 'qa')).toBe(false);
+		});
+
+		it('enforces custom required fields', () => {
+			const result = validateTransition('in_review', 'qa', {}, qaWorkflow);
+			expect(result.valid).toBe(false);
+			expect(result.missingFields).toEqual(['pr_url']);
+
+			const ok = validateTransition(
+				'in_review',
+				'qa',
+				{ pr_url: 'https://github.com/org/repo/pull/1' },
+				qaWorkflow
+			);
+			expect(ok.valid).toBe(true);
+		});
+
+		it('uses the generic fields modal for custom requirements', () => {
+			expect(transitionRequiresModal('in_review', 'qa', qaWorkflow)).toBe(true);
+			expect(getTransitionModal('in_review', 'qa', qaWorkflow)).toBe('fields');
+			expect(getTransitionModal('ready', 'in_progress', qaWorkflow)).toBe('claim');
+			expect(getTransitionModal('in_progress', 'in_review', qaWorkflow)).toBe('complete');
+			expect(getTransitionModal('qa', 'closed', qaWorkflow)).toBeNull();
+		});
+
+		it('describes custom transitions with their requirements', () => {
+			const desc = getTransitionDescription('in_review', 'qa', qaWorkflow);
+			expect(desc).toContain('qa');
+			expect(desc).toContain('pr url');
+		});
+	});
 });
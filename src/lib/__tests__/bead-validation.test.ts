@@ -9,6 +9,7 @@ import {
 	validateLifecycleFields,
 	validateBead
 } from '../bead-validation';
+import { DEFAULT_WORKFLOW, type WorkflowDefinition } from '../bead-lifecycle';
 
 describe('bead-validation', () => {
 	describe('validateTimestamp', () => {
@@ -369,4 +370,42 @@ describe('bead-validation', () => {
 			expect(result.warnings.some((w) => w.field === 'assignee')).toBe(true);
 		});
 	});
+
+	describe('with a custom workflow', () => {
+		const qaWorkflow: WorkflowDefinition = {
+			...DEFAULT_WORKFLOW,
+			statuses: [...DEFAULT_WORKFLOW.statuses, { id: 'qa', label: 'QA' }],
+			transitions: { ...DEFAULT_WORKFLOW.transitions, in_review: ['qa'], qa: ['closed'] },
+			requirements: { ...DEFAULT_WORKFLOW.requirements, 'in_review→qa': { pr_url: true } }
+		};
+
+		it('accepts statuses declared by the workflow', () => {
+			expect(isValidStatus('qa')).toBe(false);
+			expect(isValidStatus('qa', qaWorkflow)).toBe(true);
+			expect(normalizeStatus('QA', qaWorkflow)).toBe('qa');
+		});
+
+		it('requires workflow-declared lifecycle fields', () => {
+			const result = validateLifecycleFields('in_review', 'qa', {}, qaWorkflow);
+			expect(result.valid).toBe(false);
+			expect(result.errors).toEqual([
+				{ field: 'pr_url', message: 'PR URL is required for in_review→qa transition' }
+			]);
+		});
+
+		it('does not map legacy statuses onto undeclared targets', () => {
+			const minimal: WorkflowDefinition = {
+				statuses: [
+					{ id: 'todo', label: 'To Do' },
+					{ id: 'closed', label: 'Closed' }
+				],
+				transitions: { todo: ['closed'], closed: ['todo'] },
+				requirements: {},
+				columns: ['todo', 'closed']
+			};
+			expect(normalizeStatus('todo', minimal)).toBe('todo');
+			expect(normalizeStatus('wip', minimal)).toBe('todo');
+			expect(normalizeStatus('done', minimal)).toBe('closed');
+		});
+	});
 });
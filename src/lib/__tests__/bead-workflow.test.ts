@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { parseWorkflow } from '../bead-workflow';
+import { DEFAULT_WORKFLOW, isValidTransition, validateTransition } from '../bead-lifecycle';
+
+const QA_WORKFLOW = `
+statuses:
+  - open
+  - ready
+  - in_progress
+  - in_review
+  - id: qa
+    label: QA
+    color: "#ec4899"
+  - blocked
+  - closed
+  - deferred
+transitions:
+  open: [ready, blocked, deferred, closed]
+  ready: [in_progress, open, blocked, deferred]
+  in_progress: [in_review, blocked, ready, closed]
+  in_review: [qa, in_progress]
+  qa: [closed, in_progress]
+  closed: open
+  blocked: [open, ready, in_progress]
+  deferred: [open, ready]
+requirements:
+  ready -> in_progress: [branch_name, agent_id]
+  in_review -> qa: pr_url
+columns: [open, ready, in_progress, in_review, qa, blocked, closed]
+`;
+
+describe('bead-workflow', () => {
+	describe('parseWorkflow', () => {
+		it('parses a complete workflow file', () => {
+			const { workflow, source, errors } = parseWorkflow(QA_WORKFLOW);
+
+			expect(errors).toEqual([]);
+			expect(source).toBe('file');
+			expect(workflow.columns).toContain('qa');
+			expect(workflow.statuses.find((s) => s.id === 'qa')).toEqual({
+				id: 'qa',
+				label: 'QA',
+				color: '#ec4899',
+				description: undefined
+			});
+			expect(workflow.transitions.closed).toEqual(['open']);
+			expect(workflow.requirements['in_review→qa']).toEqual({ pr_url: true });
+		});
+
+		it('inherits labels and colors for built-in statuses', () => {
+			const { workflow } = parseWorkflow(QA_WORKFLOW);
+			const inProgress = workflow.statuses.find((s) => s.id === 'in_progress');
+			expect(inProgress?.label).toBe('In Progress');
+			expect(inProgress?.color).toBe('#f59e0b');
+		});
+
+		it('produces a workflow usable by the lifecycle functions', () => {
+			const { workflow } = parseWorkflow(QA_WORKFLOW);
+			expect(isValidTransition('in_review', 'qa', workflow)).toBe(true);
+			expect(validateTransition('in_review', 'qa', {}, workflow).missingFields).toEqual([
+				'pr_url'
+			]);
+		});
+
+		it('falls back to the default for omitted sections', () => {
+			const { workflow, errors } = parseWorkflow('columns: [open, in_progress, closed]');
+			expect(errors).toEqual([]);
+			expect(workflow.columns).toEqual(['open', 'in_progress', 'closed']);
+			expect(workflow.transitions).toBe(DEFAULT_WORKFLOW.transitions);
+			expect(workflow.requirements).toBe(DEFAULT_WORKFLOW.requirements);
+		});
+
+		it('defaults columns to declared statuses except deferred', () => {
+			const { workflow, errors } = parseWorkflow(
+				'statuses: [todo, done, deferred]\ntransitions:\n  todo: [done, deferred]\n  done: todo\n  deferred: todo\nrequirements: {}'
+			);
+			expect(errors).toEqual([]);
+			expect(workflow.columns).toEqual(['todo', 'done']);
+		});
+
+		it('treats an empty file as the default workflow', () => {
+			const result = parseWorkflow('');
+			expect(result.workflow).toBe(DEFAULT_WORKFLOW);
+			expect(result.source).toBe('default');
+			expect(result.errors).toEqual([]);
+		});
+
+		it('rejects undeclared statuses', () => {
+			const result = parseWorkflow('transitions:\n  in_review: [qa]');
+			expect(result.source).toBe('default');
+			expect(result.workflow).toBe(DEFAULT_WORKFLOW);
+			expect(result.errors).toContain("Undeclared status 'qa' in transitions.in_review");
+		});
+
+		it('rejects requirements on transitions that are not allowed', () => {
+			const result = parseWorkflow('requirements:\n  open -> in_review: [commit_hash]');
+			expect(result.errors).toContain(
+				"Requirement 'open -> in_review' is not an allowed transition"
+			);
+		});
+
+		it('rejects unknown required fields', () => {
+			const result = parseWorkflow('requirements:\n  in_review -> closed: [reviewer]');
+			expect(result.errors[0]).toContain('Unknown required field(s) reviewer');
+		});
+
+		it('reports invalid YAML', () => {
+			const result = parseWorkflow('statuses: [open');
+			expect(result.source).toBe('default');
+			expect(result.errors[0]).toMatch(/^Invalid YAML/);
+		});
+	});
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { bdErrorStatus, buildCreateArgs, buildEditArgs, parseBdError } from '../beads-cli';
+
+describe('beads-cli', () => {
+	describe('buildCreateArgs', () => {
+		it('passes only the title when nothing else is set', () => {
+			expect(buildCreateArgs({ title: 'Fix login' })).toEqual(['create', '--title', 'Fix login']);
+		});
+
+		it('keeps a title that starts with a dash out of the flags', () => {
+			expect(buildCreateArgs({ title: '-v flag broken' })).toEqual(['create', '--title', '-v flag broken']);
+		});
+
+		it('maps every field to a bd flag', () => {
+			expect(
+				buildCreateArgs({
+					title: 'Add search',
+					description: 'Full text; "quoted" & more',
+					issueType: 'feature',
+					priority: 0,
+					assignee: 'alice',
+					labels: ['ui', 'search'],
+					parentId: 'bd-12'
+				})
+			).toEqual([
+				'create',
+				'--title',
+				'Add search',
+				'--description',
+				'Full text; "quoted" & more',
+				'--type',
+				'feature',
+				'--priority',
+				'0',
+				'--assignee',
+				'alice',
+				'--labels',
+				'ui,search',
+				'--deps',
+				'parent-child:bd-12'
+			]);
+		});
+	});
+
+	describe('buildEditArgs', () => {
+		it('includes fields that are set, even when empty', () => {
+			expect(buildEditArgs('bd-3', { title: 'New', description: '' })).toEqual([
+				'update',
+				'bd-3',
+				'--title',
+				'New',
+				'--description',
+				''
+			]);
+		});
+
+		it('returns only the command when there is nothing to edit', () => {
+			expect(buildEditArgs('bd-3', {})).toEqual(['update', 'bd-3']);
+		});
+	});
+
+	describe('parseBdError', () => {
+		it('extracts the Error: line', () => {
+			const result = parseBdError('Usage: bd dep add ...\nError: issue bd-99 not found\n');
+			expect(result).toEqual({ message: 'issue bd-99 not found', code: 'ISSUE_NOT_FOUND' });
+		});
+
+		it('classifies cycles, duplicates and bad arguments', () => {
+			expect(parseBdError('Error: adding dependency would create a cycle').code).toBe('CYCLE');
+			expect(parseBdError('Error: dependency already exists').code).toBe('DUPLICATE');
+			expect(parseBdError('Error: unknown flag: --bogus').code).toBe('INVALID_ARGUMENT');
+			expect(parseBdError('Error: invalid priority "9"').code).toBe('INVALID_ARGUMENT');
+		});
+
+		it('falls back to the first output line', () => {
+			expect(parseBdError('', 'database is locked\n')).toEqual({
+				message: 'database is locked',
+				code: 'COMMAND_FAILED'
+			});
+			expect(parseBdError('').message).toBe('bd command failed');
+		});
+	});
+
+	it('maps error codes to HTTP statuses', () => {
+		expect(bdErrorStatus('ISSUE_NOT_FOUND')).toBe(404);
+		expect(bdErrorStatus('CYCLE')).toBe(409);
+		expect(bdErrorStatus('INVALID_ARGUMENT')).toBe(400);
+		expect(bdErrorStatus('BD_NOT_FOUND')).toBe(500);
+		expect(bdErrorStatus(undefined)).toBe(500);
+	});
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import {
+	buildExecutionLog,
+	parseCompletionEnvelope,
+	validateCompletionEnvelope,
+	validateEnvelopeTransition,
+	type CompletionEnvelope
+} from '../completion-envelope';
+import { detectCompletionSignal } from '../task-prompt-builder';
+
+function wrap(json: string): string {
+	return `Done with the work.\n<task-completion>\n${json}\n</task-completion>`;
+}
+
+const COMPLETED: CompletionEnvelope = {
+	status: 'completed',
+	summary: 'Added the endpoint',
+	commit_hash: 'abc1234',
+	files_changed: ['src/routes/api/+server.ts']
+};
+
+describe('completion-envelope', () => {
+	describe('parseCompletionEnvelope', () => {
+		it('parses a complete envelope', () => {
+			const result = parseCompletionEnvelope(wrap(JSON.stringify(COMPLETED)));
+			expect(result?.errors).toEqual([]);
+			expect(result?.envelope).toMatchObject(COMPLETED);
+		});
+
+		it('returns null without an envelope', () => {
+			expect(parseCompletionEnvelope('TASK_COMPLETED: done')).toBeNull();
+		});
+
+		it('ignores tags quoted inline', () => {
+			expect(parseCompletionEnvelope('Use `<task-completion>{}</task-completion>` when done')).toBeNull();
+		});
+
+		it('accepts a code fence inside the tags', () => {
+			const result = parseCompletionEnvelope(wrap('```json\n{"status": "blocked", "summary": "No access"}\n```'));
+			expect(result?.envelope?.status).toBe('blocked');
+		});
+
+		it('uses the last envelope in the text', () => {
+			const text = `${wrap('{"status": "blocked", "summary": "first"}')}\n${wrap('{"status": "completed", "summary": "second"}')}`;
+			expect(parseCompletionEnvelope(text)?.envelope?.summary).toBe('second');
+		});
+
+		it('reports invalid JSON', () => {
+			const result = parseCompletionEnvelope(wrap('{"status": "completed",'));
+			expect(result?.envelope).toBeNull();
+			expect(result?.errors[0]).toMatch(/not valid JSON/);
+		});
+	});
+
+	describe('validateCompletionEnvelope', () => {
+		it('lists every problem', () => {
+			const result = validateCompletionEnvelope({
+				status: 'done',
+				commit_hash: 'not-a-hash',
+				files_changed: 'src/a.ts',
+				follow_up_beads: [{ description: 'no title' }, { title: 'Ok', priority: 9 }]
+			});
+
+			expect(result.envelope).toBeNull();
+			expect(result.errors).toEqual([
+				'status must be one of: completed, blocked, awaiting_input',
+				'summary is required',
+				'commit_hash must be a 7-40 character hex git hash',
+				'files_changed must be an array of strings',
+				'follow_up_beads[0].title is required',
+				'follow_up_beads[1].priority must be an integer from 0 to 4'
+			]);
+		});
+
+		it('drops empty optional fields', () => {
+			const result = validateCompletionEnvelope({ status: 'completed', summary: ' ok ', questions: [' '] });
+			expect(result.envelope).toEqual({
+				status: 'completed',
+				summary: 'ok',
+				commit_hash: undefined,
+				files_changed: undefined,
+				execution_log: undefined,
+				follow_up_beads: undefined,
+				questions: undefined
+			});
+		});
+	});
+
+	describe('lifecycle', () => {
+		it('builds an execution log from the summary and files', () => {
+			expect(buildExecutionLog(COMPLETED)).toBe(
+				'Added the endpoint\n\nFiles changed:\n- src/routes/api/+server.ts'
+			);
+			expect(buildExecutionLog({ ...COMPLETED, execution_log: 'Ran the tests' })).toBe('Ran the tests');
+		});
+
+		it('allows in_progress → in_review with a commit', () => {
+			expect(validateEnvelopeTransition(COMPLETED, 'in_progress').valid).toBe(true);
+		});
+
+		it('requires a commit hash', () => {
+			const result = validateEnvelopeTransition({ ...COMPLETED, commit_hash: undefined }, 'in_progress');
+			expect(result.valid).toBe(false);
+			expect(result.missingFields).toEqual(['commit_hash']);
+		});
+
+		it('rejects transitions the workflow does not allow', () => {
+			expect(validateEnvelopeTransition(COMPLETED, 'closed').valid).toBe(false);
+			expect(validateEnvelopeTransition({ ...COMPLETED, status: 'blocked' }, 'in_progress').valid).toBe(false);
+		});
+	});
+
+	describe('detectCompletionSignal', () => {
+		it('prefers the envelope over legacy lines', () => {
+			const text = `TASK_BLOCKED: earlier attempt\n${wrap(JSON.stringify(COMPLETED))}`;
+			const signal = detectCompletionSignal(text);
+			expect(signal.type).toBe('completed');
+			expect(signal.message).toBe('Added the endpoint');
+			expect(signal.envelope?.commit_hash).toBe('abc1234');
+		});
+
+		it('reports questions for awaiting_input', () => {
+			const signal = detectCompletionSignal(
+				wrap('{"status": "awaiting_input", "summary": "Need a decision", "questions": ["Which table?"]}')
+			);
+			expect(signal).toMatchObject({ type: 'awaiting_input', message: 'Which table?' });
+		});
+
+		it('treats an invalid envelope as blocked', () => {
+			const signal = detectCompletionSignal(wrap('{"status": "completed"}'));
+			expect(signal.type).toBe('blocked');
+			expect(signal.envelopeErrors).toEqual(['summary is required']);
+		});
+
+		it('waits for an envelope that is still open', () => {
+			expect(detectCompletionSignal('<task-completion>\n{"status": "completed",').type).toBeNull();
+		});
+
+		it('only matches legacy signals at the start of a line', () => {
+			expect(detectCompletionSignal('I will reply "TASK_COMPLETED: summary" at the end').type).toBeNull();
+			expect(detectCompletionSignal('Work done.\nTASK_COMPLETED: added tests')).toEqual({
+				type: 'completed',
+				message: 'added tests'
+			});
+		});
+	});
+});
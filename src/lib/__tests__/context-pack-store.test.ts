@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+	attachContextPack,
+	checkContextPackStaleness,
+	deleteContextPack,
+	detachContextPack,
+	generateContextPack,
+	getContextPacksForBead,
+	listContextPacks,
+	loadContextPack,
+	regenerateContextPack
+} from '../context-pack-store';
+import { buildTaskPrompt } from '../task-prompt-builder';
+import type { IssueWithDetails } from '../types';
+import { stopSymbolIndexWatcher } from '../symbol-index/indexer';
+import { closeSymbolIndex } from '../symbol-index/db';
+
+describe('context pack store', () => {
+	let projectPath: string;
+
+	function writeSource(content: string) {
+		fs.mkdirSync(path.join(projectPath, 'src'), { recursive: true });
+		fs.writeFileSync(path.join(projectPath, 'src', 'auth.ts'), content);
+	}
+
+	function generate(name = 'Auth') {
+		return generateContextPack(projectPath, 'proj-1', {
+			name,
+			entryPoint: 'src/auth.ts',
+			entryPointType: 'file'
+		});
+	}
+
+	beforeEach(() => {
+		projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'context-packs-'));
+		writeSource('export function login() {}\n');
+	});
+
+	afterEach(() => {
+		stopSymbolIndexWatcher();
+		closeSymbolIndex();
+		fs.rmSync(projectPath, { recursive: true, force: true });
+	});
+
+	it('persists generated packs with content hashes and the original request', async () => {
+		const pack = await generate();
+
+		const loaded = loadContextPack(projectPath, pack.id);
+		expect(loaded?.request).toEqual({ name: 'Auth', entryPoint: 'src/auth.ts', entryPointType: 'file' });
+		expect(loaded?.files.map((f) => [f.path, f.contentHash])).toEqual([
+			['src/auth.ts', expect.stringMatching(/^[0-9a-f]{64}$/)]
+		]);
+		expect(listContextPacks(projectPath).map((p) => p.id)).toEqual([pack.id]);
+
+		expect(deleteContextPack(projectPath, pack.id)).toBe(true);
+		expect(loadContextPack(projectPath, pack.id)).toBeNull();
+		expect(loadContextPack(projectPath, '../../etc/passwd')).toBeNull();
+	});
+
+	it('detects changed and deleted files', async () => {
+		const pack = await generate();
+		expect(checkContextPackStaleness(projectPath, pack)).toMatchObject({ stale: false, changedFiles: [] });
+
+		writeSource('export function login(user: string) {}\n');
+		expect(checkContextPackStaleness(projectPath, pack)).toMatchObject({
+			stale: true,
+			changedFiles: ['src/auth.ts'],
+			missingFiles: []
+		});
+
+		fs.rmSync(path.join(projectPath, 'src', 'auth.ts'));
+		expect(checkContextPackStaleness(projectPath, pack)).toMatchObject({
+			stale: true,
+			changedFiles: [],
+			missingFiles: ['src/auth.ts']
+		});
+	});
+
+	it('regenerates from the original request, keeping id and attachments', async () => {
+		const pack = await generate();
+		attachContextPack(projectPath, pack.id, 'bd-1');
+		writeSource('export function logout() {}\n');
+
+		const regenerated = await regenerateContextPack(projectPath, 'proj-1', pack.id);
+
+		expect(regenerated).toMatchObject({ id: pack.id, createdAt: pack.createdAt, beadIds: ['bd-1'] });
+		expect(regenerated?.files[0].content).toContain('logout');
+		expect(checkContextPackStaleness(projectPath, regenerated!).stale).toBe(false);
+		expect(await regenerateContextPack(projectPath, 'proj-1', 'missing')).toBeNull();
+	});
+
+	it('attaches packs to beads and injects them into the task prompt', async () => {
+		const pack = await generate();
+		await generate('Other');
+
+		attachContextPack(projectPath, pack.id, 'bd-1');
+		attachContextPack(projectPath, pack.id, 'bd-1');
+		expect(loadContextPack(projectPath, pack.id)?.beadIds).toEqual(['bd-1']);
+
+		const attached = getContextPacksForBead(projectPath, 'bd-1');
+		expect(attached.map((p) => p.name)).toEqual(['Auth']);
+
+		writeSource('export function login(user: string) {}\n');
+		const prompt = buildTaskPrompt({
+			issue: {
+				id: 'bd-1',
+				title: 'Add login',
+				description: '',
+				status: 'open',
+				priority: 2,
+				issue_type: 'task'
+			} as IssueWithDetails,
+			mode: 'autonomous',
+			contextPacks: attached.map((p) => ({ pack: p, staleness: checkContextPackStaleness(projectPath, p) }))
+		});
+		expect(prompt).toContain('<context-packs>');
+		expect(prompt).toContain('# Context Pack: Auth');
+		expect(prompt).toContain('generated before changes to src/auth.ts');
+
+		detachContextPack(projectPath, pack.id, 'bd-1');
+		expect(getContextPacksForBead(projectPath, 'bd-1')).toEqual([]);
+	});
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeDependencies, describeCycle, getBlockingCycles } from '../dependency-analysis';
+import type { BlockingRelation } from '../types';
+
+function open(...ids: string[]) {
+	return ids.map(id => ({ id, status: 'open' }));
+}
+
+// a -> c, b -> c, c -> d, b -> e (source blocks target)
+const relations: BlockingRelation[] = [
+	{ source: 'a', target: 'c' },
+	{ source: 'b', target: 'c' },
+	{ source: 'c', target: 'd' },
+	{ source: 'b', target: 'e' }
+];
+
+describe('dependency-analysis', () => {
+	describe('analyzeDependencies', () => {
+		it('computes depth, fan-out and downstream counts', () => {
+			const { nodes, maxDepth, cycles } = analyzeDependencies(open('a', 'b', 'c', 'd', 'e'), relations);
+
+			expect(cycles).toEqual([]);
+			expect(maxDepth).toBe(2);
+			expect(nodes.a).toMatchObject({ depth: 0, fanOut: 1, fanIn: 0, downstream: 2 });
+			expect(nodes.b).toMatchObject({ depth: 0, fanOut: 2, downstream: 3 });
+			expect(nodes.c).toMatchObject({ depth: 1, fanOut: 1, fanIn: 2, downstream: 1 });
+			expect(nodes.d).toMatchObject({ depth: 2, fanOut: 0, downstream: 0 });
+		});
+
+		it('finds the longest open chain as the critical path', () => {
+			const analysis = analyzeDependencies(open('a', 'b', 'c', 'd', 'e'), relations);
+
+			// a and b tie; the lower id wins
+			expect(analysis.criticalPath).toEqual(['a', 'c', 'd']);
+			expect(analysis.criticalPathLength).toBe(3);
+			expect(analysis.nodes.c.onCriticalPath).toBe(true);
+			expect(analysis.nodes.e.onCriticalPath).toBe(false);
+		});
+
+		it('does not count closed beads as remaining work', () => {
+			const issues = [
+				{ id: 'a', status: 'closed' },
+				{ id: 'b', status: 'open' },
+				{ id: 'c', status: 'open' },
+				{ id: 'd', status: 'open' },
+				{ id: 'e', status: 'open' }
+			];
+			const analysis = analyzeDependencies(issues, [
+				...relations,
+				{ source: 'e', target: 'f' }
+			]);
+
+			expect(analysis.criticalPath).toEqual(['b', 'c', 'd']);
+			expect(analysis.nodes.a.depth).toBe(0);
+		});
+
+		it('is empty when everything is closed', () => {
+			const analysis = analyzeDependencies([{ id: 'a', status: 'closed' }], []);
+			expect(analysis.criticalPath).toEqual([]);
+			expect(analysis.criticalPathLength).toBe(0);
+		});
+
+		it('ignores relations to beads outside the set and duplicate relations', () => {
+			const analysis = analyzeDependencies(open('c', 'd'), [...relations, { source: 'c', target: 'd' }]);
+			expect(analysis.nodes.c).toMatchObject({ depth: 0, fanIn: 0, fanOut: 1 });
+			expect(analysis.criticalPath).toEqual(['c', 'd']);
+		});
+
+		it('reports cycles and keeps analysing the rest of the graph', () => {
+			const analysis = analyzeDependencies(open('x', 'y', 'z', 'w'), [
+				{ source: 'x', target: 'y' },
+				{ source: 'y', target: 'z' },
+				{ source: 'z', target: 'x' },
+				{ source: 'z', target: 'w' }
+			]);
+
+			expect(analysis.cycles).toEqual([['x', 'y', 'z']]);
+			expect(analysis.nodes.x.inCycle).toBe(true);
+			expect(analysis.nodes.w.inCycle).toBe(false);
+			expect(analysis.nodes.w.depth).toBe(1);
+			expect(analysis.criticalPath).toEqual(['z', 'w']);
+		});
+
+		it('reports a bead that blocks itself', () => {
+			const analysis = analyzeDependencies(open('a'), [{ source: 'a', target: 'a' }]);
+			expect(analysis.cycles).toEqual([['a']]);
+		});
+	});
+
+	it('describes cycles', () => {
+		expect(describeCycle(['a', 'b', 'c'])).toBe('a → b → c → a');
+	});
+
+	it('only treats cycles with open beads as blocking', () => {
+		const issues = [
+			{ id: 'a', status: 'closed' },
+			{ id: 'b', status: 'closed' },
+			{ id: 'c', status: 'open' },
+			{ id: 'd', status: 'closed' }
+		];
+		const analysis = analyzeDependencies(issues, [
+			{ source: 'a', target: 'b' },
+			{ source: 'b', target: 'a' },
+			{ source: 'c', target: 'd' },
+			{ source: 'd', target: 'c' }
+		]);
+
+		expect(analysis.cycles).toHaveLength(2);
+		expect(getBlockingCycles(analysis, issues)).toEqual([['c', 'd']]);
+	});
+});
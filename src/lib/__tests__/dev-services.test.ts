@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+	getServerOutput,
+	getServerStatus,
+	orderDevServices,
+	resolveDevServices,
+	startDevServer,
+	stopDevServer,
+	validateDevServices
+} from '../dev-server-manager';
+import { detectDevServices } from '../dev-server-detector';
+import type { DevServerConfig } from '../dashboard-db';
+
+const BASE_CONFIG: DevServerConfig = {
+	framework: 'vite',
+	devCommand: 'npm run dev',
+	defaultPort: 5173,
+	hotReloadSupported: true,
+	detectedAt: '2026-01-01T00:00:00.000Z'
+};
+
+/** A process that prints a line and exits by itself after a while */
+function nodeService(message: string): string {
+	return `node -e "console.log('${message}');setTimeout(()=>{},15000)"`;
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 10000) {
+	const start = Date.now();
+	while (!check()) {
+		if (Date.now() - start > timeoutMs) throw new Error('Timed out');
+		await new Promise((resolve) => setTimeout(resolve, 50));
+	}
+}
+
+describe('dev services', () => {
+	let projectPath: string;
+
+	beforeEach(() => {
+		projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'dev-services-'));
+	});
+
+	afterEach(async () => {
+		await stopDevServer('proj-1');
+		fs.rmSync(projectPath, { recursive: true, force: true });
+	});
+
+	it('treats a config without services as a single service', () => {
+		expect(resolveDevServices(BASE_CONFIG)).toEqual([
+			{ name: 'app', command: 'npm run dev', port: 5173, framework: 'vite' }
+		]);
+	});
+
+	it('orders services by dependency and rejects invalid services', () => {
+		const ordered = orderDevServices([
+			{ name: 'web', command: 'x', dependsOn: ['api'] },
+			{ name: 'api', command: 'x', dependsOn: ['db'] },
+			{ name: 'db', command: 'x' }
+		]);
+		expect(ordered.map((s) => s.name)).toEqual(['db', 'api', 'web']);
+
+		expect(validateDevServices([
+			{ name: 'a', command: 'x', dependsOn: ['b'] },
+			{ name: 'b', command: 'x', dependsOn: ['a'] }
+		]).error).toBe('Service dependency cycle: a -> b -> a');
+		expect(validateDevServices([{ name: 'a', command: 'x', dependsOn: ['z'] }]).error).toContain('unknown service "z"');
+		expect(validateDevServices([
+			{ name: 'a', command: 'x', port: 3000 },
+			{ name: 'b', command: 'x', port: 3000 }
+		]).error).toContain('both use port 3000');
+		expect(validateDevServices([{ name: 'a', command: 'x', cwd: '../other' }]).error).toContain('inside the project');
+		expect(validateDevServices([{ name: 'a', command: 'x', readyPatterns: ['('] }]).error).toContain('invalid ready pattern');
+		expect(validateDevServices([{ name: 'a b', command: 'x' }]).error).toBeDefined();
+	});
+
+	it('starts services after their dependencies are ready, with separate output', async () => {
+		const config: DevServerConfig = {
+			...BASE_CONFIG,
+			services: [
+				{ name: 'web', command: nodeService('web up'), dependsOn: ['api'], readyPatterns: ['web up'] },
+				{ name: 'api', command: nodeService('api up'), readyPatterns: ['^api up'], env: { API_MODE: 'test' } },
+				{ name: 'worker', command: nodeService('working') }
+			],
+			previewService: 'web'
+		};
+
+		const result = await startDevServer('proj-1', projectPath, config);
+		expect(result.success).toBe(true);
+
+		const started = getServerStatus('proj-1');
+		expect(started.services.map((s) => [s.name, s.state])).toEqual([
+			['api', 'starting'],
+			['web', 'waiting'],
+			['worker', 'ready']
+		]);
+
+		await waitFor(() => getServerStatus('proj-1').allReady);
+		const status = getServerStatus('proj-1');
+		expect(status).toMatchObject({ running: true, ready: true });
+		expect(getServerOutput('proj-1', 10, 'api').join('')).toContain('api up');
+		expect(getServerOutput('proj-1', 10).join('')).toContain('web up');
+		expect(getServerOutput('proj-1', 10).join('')).not.toContain('api up');
+
+		await stopDevServer('proj-1');
+		expect(getServerStatus('proj-1')).toMatchObject({ running: false, services: [] });
+	});
+
+	it('fails dependents when a dependency exits before becoming ready', async () => {
+		const config: DevServerConfig = {
+			...BASE_CONFIG,
+			services: [
+				{ name: 'api', command: 'node -e "process.exit(1)"', readyPatterns: ['never'] },
+				{ name: 'web', command: nodeService('web up'), dependsOn: ['api'] }
+			]
+		};
+
+		await startDevServer('proj-1', projectPath, config);
+		await waitFor(() => getServerStatus('proj-1').services.every((s) => !s.running));
+
+		const status = getServerStatus('proj-1');
+		expect(status.services.map((s) => [s.name, s.state])).toEqual([
+			['api', 'failed'],
+			['web', 'failed']
+		]);
+		expect(status.services[1].error).toBe('Dependency "api" is not running');
+		expect(status.running).toBe(false);
+	});
+
+	it('proposes services from docker-compose and workspace packages', () => {
+		fs.writeFileSync(path.join(projectPath, 'docker-compose.yml'), [
+			'services:',
+			'  db:',
+			'    image: postgres:16',
+			'    ports:',
+			'      - "5433:5432"',
+			'  cache:',
+			'    image: redis',
+			'    depends_on:',
+			'      db:',
+			'        condition: service_started',
+			''
+		].join('\n'));
+		fs.writeFileSync(path.join(projectPath, 'package.json'), JSON.stringify({ workspaces: ['apps/*'] }));
+		fs.writeFileSync(path.join(projectPath, 'pnpm-lock.yaml'), '');
+		for (const [dir, pkg] of Object.entries({
+			'apps/api': { name: '@acme/api', scripts: { dev: 'tsx watch src/index.ts --port 4000' } },
+			'apps/web': {
+				name: '@acme/web',
+				scripts: { dev: 'next dev' },
+				dependencies: { next: '15.0.0', '@acme/api': 'workspace:*' }
+			},
+			'apps/docs': { name: 'docs', scripts: { build: 'vitepress build' } }
+		})) {
+			fs.mkdirSync(path.join(projectPath, dir), { recursive: true });
+			fs.writeFileSync(path.join(projectPath, dir, 'package.json'), JSON.stringify(pkg));
+		}
+
+		expect(detectDevServices(projectPath)).toEqual([
+			{ name: 'db', command: 'docker compose up db', port: 5433, dependsOn: [], framework: 'other' },
+			{ name: 'cache', command: 'docker compose up cache', port: undefined, dependsOn: ['db'], framework: 'other' },
+			{ name: 'api', command: 'pnpm run dev', cwd: 'apps/api', port: 4000, dependsOn: [], framework: 'other' },
+			{ name: 'web', command: 'pnpm run dev', cwd: 'apps/web', port: 3000, dependsOn: ['api'], framework: 'nextjs' }
+		]);
+	});
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+	createLanes,
+	getReadyLanes,
+	getStrandedLanes,
+	getFreeSlots,
+	isParallelRunFinished,
+	normalizeConcurrency,
+	DEFAULT_EPIC_CONCURRENCY,
+	MAX_EPIC_CONCURRENCY
+} from '../epic-scheduler';
+import type { EpicLane, BlockingRelation } from '../types';
+
+function lanesWith(overrides: Record<string, Partial<EpicLane>>, ids: string[]): EpicLane[] {
+	return createLanes(ids).map(lane => ({ ...lane, ...overrides[lane.taskId] }));
+}
+
+// a -> c, b -> c, c -> d (a and b are independent)
+const relations: BlockingRelation[] = [
+	{ source: 'a', target: 'c' },
+	{ source: 'b', target: 'c' },
+	{ source: 'c', target: 'd' }
+];
+const ids = ['a', 'b', 'c', 'd'];
+
+describe('epic-scheduler', () => {
+	describe('getReadyLanes', () => {
+		it('returns every lane without blockers', () => {
+			const ready = getReadyLanes(createLanes(ids), relations);
+			expect(ready.map(l => l.taskId)).toEqual(['a', 'b']);
+		});
+
+		it('respects the slot limit', () => {
+			const ready = getReadyLanes(createLanes(ids), relations, 1);
+			expect(ready.map(l => l.taskId)).toEqual(['a']);
+		});
+
+		it('waits until blockers are completed and merged', () => {
+			const lanes = lanesWith(
+				{
+					a: { status: 'completed', mergeStatus: 'merged' },
+					b: { status: 'completed', mergeStatus: 'pending' }
+				},
+				ids
+			);
+			expect(getReadyLanes(lanes, relations)).toEqual([]);
+
+			lanes[1].mergeStatus = 'merged';
+			expect(getReadyLanes(lanes, relations).map(l => l.taskId)).toEqual(['c']);
+		});
+
+		it('ignores blockers outside the run', () => {
+			const lanes = createLanes(['c']);
+			expect(getReadyLanes(lanes, relations).map(l => l.taskId)).toEqual(['c']);
+		});
+	});
+
+	describe('getStrandedLanes', () => {
+		it('strands the whole chain behind a failed lane', () => {
+			const lanes = lanesWith({ a: { status: 'failed', mergeStatus: 'skipped' } }, ids);
+			expect(getStrandedLanes(lanes, relations).map(l => l.taskId)).toEqual(['c', 'd']);
+		});
+
+		it('strands dependents of a lane that could not be merged', () => {
+			const lanes = lanesWith({ b: { status: 'completed', mergeStatus: 'conflict' } }, ids);
+			expect(getStrandedLanes(lanes, relations).map(l => l.taskId)).toEqual(['c', 'd']);
+		});
+
+		it('returns nothing while blockers are still running', () => {
+			const lanes = lanesWith({ a: { status: 'running' } }, ids);
+			expect(getStrandedLanes(lanes, relations)).toEqual([]);
+		});
+	});
+
+	describe('getFreeSlots', () => {
+		it('subtracts running lanes from the concurrency limit', () => {
+			const lanes = lanesWith({ a: { status: 'running' } }, ids);
+			expect(getFreeSlots(lanes, 2)).toBe(1);
+			expect(getFreeSlots(lanes, 1)).toBe(0);
+		});
+	});
+
+	describe('isParallelRunFinished', () => {
+		it('is false while lanes are pending or running', () => {
+			expect(isParallelRunFinished(createLanes(ids))).toBe(false);
+		});
+
+		it('is true once every lane completed or failed', () => {
+			const lanes = lanesWith(
+				{
+					a: { status: 'completed' },
+					b: { status: 'failed' },
+					c: { status: 'failed' },
+					d: { status: 'failed' }
+				},
+				ids
+			);
+			expect(isParallelRunFinished(lanes)).toBe(true);
+		});
+	});
+
+	describe('normalizeConcurrency', () => {
+		it('defaults when not provided', () => {
+			expect(normalizeConcurrency()).toBe(DEFAULT_EPIC_CONCURRENCY);
+		});
+
+		it('clamps to the supported range', () => {
+			expect(normalizeConcurrency(0.5)).toBe(1);
+			expect(normalizeConcurrency(100)).toBe(MAX_EPIC_CONCURRENCY);
+			expect(normalizeConcurrency(3.7)).toBe(3);
+		});
+	});
+});
@@ -0,0 +1,307 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+	compileMarkers,
+	exitCodeSignal,
+	getAgentBackendId,
+	getExecutionBackend,
+	mapShellOutputLine,
+	registerExecutionBackend,
+	resolveExecutionBackend,
+	shellBackend,
+	unregisterExecutionBackend,
+	type ExecutionBackend,
+	type ExecutionOutputChunk,
+	type ExecutionSessionOptions
+} from '../execution-backends';
+import type { TaskRun } from '../types';
+
+function runShellSession(
+	options: Partial<ExecutionSessionOptions>,
+	message = 'prompt'
+): Promise<{ chunks: ExecutionOutputChunk[]; code: number }> {
+	return new Promise((resolve, reject) => {
+		const chunks: ExecutionOutputChunk[] = [];
+		const session = shellBackend.createSession({
+			projectPath: os.tmpdir(),
+			onData: (chunk) => chunks.push(chunk),
+			onError: reject,
+			onClose: (code) => resolve({ chunks, code }),
+			...options
+		});
+		if (!session) {
+			reject(new Error('no session'));
+			return;
+		}
+		session.send(message, { issueId: 'bd-1', runId: 'run-1' });
+	});
+}
+
+function nodeCommand(script: string): string {
+	return `${process.execPath} -e '${script}'`;
+}
+
+describe('execution-backends', () => {
+	describe('shell markers', () => {
+		it('maps marker matches to completion signals', () => {
+			const markers = compileMarkers({ completed: '^DONE(?::\\s*(.*))?$', blocked: '^STUCK' });
+
+			expect(mapShellOutputLine('DONE: all tests pass', markers)).toEqual({
+				text: 'TASK_COMPLETED: all tests pass',
+				signal: 'completed'
+			});
+			expect(mapShellOutputLine('STUCK on migration', markers)).toEqual({
+				text: 'TASK_BLOCKED: STUCK on migration',
+				signal: 'blocked'
+			});
+		});
+
+		it('passes through ordinary lines and native signals', () => {
+			const markers = compileMarkers({ completed: '^DONE' });
+
+			expect(mapShellOutputLine('building...', markers)).toEqual({ text: 'building...', signal: null });
+			expect(mapShellOutputLine('AWAITING_INPUT: which table?', markers).signal).toBe('awaiting_input');
+		});
+
+		it('rejects invalid patterns', () => {
+			expect(() => compileMarkers({ blocked: '(' })).toThrow(/blocked marker/);
+		});
+
+		it('derives a signal from the exit code', () => {
+			expect(exitCodeSignal(0)).toMatch(/^TASK_COMPLETED:/);
+			expect(exitCodeSignal(2)).toBe('TASK_BLOCKED: Command exited with code 2');
+		});
+	});
+
+	describe('shellBackend', () => {
+		it('streams stdout and completes on exit code 0', async () => {
+			const { chunks, code } = await runShellSession({
+				agent: {
+					name: 'Shell',
+					shell: {
+						command: nodeCommand(
+							'let input = ""; process.stdin.on("data", c => input += c);' +
+								'process.stdin.on("end", () => console.log(input + "\\n" + process.env.BEAD_ID))'
+						)
+					}
+				}
+			});
+
+			expect(code).toBe(0);
+			const texts = chunks.filter(c => c.type === 'text').map(c => c.content);
+			expect(texts).toEqual(['prompt', 'bd-1', 'TASK_COMPLETED: Command exited successfully']);
+			expect(chunks[chunks.length - 1].type).toBe('done');
+		});
+
+		it('does not add a signal when the command emitted one', async () => {
+			const { chunks, code } = await runShellSession({
+				agent: {
+					name: 'Shell',
+					shell: {
+						command: nodeCommand('console.log("FAIL: lint"); process.exit(1)'),
+						markers: { blocked: '^FAIL: (.*)' }
+					}
+				}
+			});
+
+			expect(code).toBe(1);
+			const texts = chunks.filter(c => c.type === 'text').map(c => c.content);
+			expect(texts).toEqual(['TASK_BLOCKED: lint']);
+		});
+
+		it('refuses agents without a command', () => {
+			const errors: Error[] = [];
+			const session = shellBackend.createSession({
+				projectPath: os.tmpdir(),
+				agent: { name: 'Shell' },
+				onData: () => {},
+				onError: (err) => errors.push(err),
+				onClose: () => {}
+			});
+
+			expect(session).toBeNull();
+			expect(errors[0].message).toMatch(/shell\.command/);
+		});
+	});
+
+	describe('registry', () => {
+		it('falls back to the Claude backend', () => {
+			expect(resolveExecutionBackend(undefined).id).toBe('claude');
+			expect(resolveExecutionBackend('missing').id).toBe('claude');
+			expect(getAgentBackendId({ name: 'A' })).toBe('claude');
+			expect(getAgentBackendId({ name: 'A', backend: 'shell' })).toBe('shell');
+		});
+
+		it('registers and removes backends but keeps the default', () => {
+			const backend: ExecutionBackend = { id: 'noop', label: 'Noop', createSession: () => null };
+			registerExecutionBackend(backend);
+			expect(getExecutionBackend('noop')).toBe(backend);
+			expect(unregisterExecutionBackend('noop')).toBe(true);
+			expect(unregisterExecutionBackend('claude')).toBe(false);
+		});
+	});
+
+	describe('task runner orchestration', () => {
+		let tmpDir: string;
+		let projectPath: string;
+		let projectId: string;
+		let manager: typeof import('../task-runner-manager');
+		let store: typeof import('../task-runner-store')['taskRunnerStore'];
+		const sent: { message: string; issueId?: string }[] = [];
+		let reply = (issueId?: string) => `TASK_COMPLETED: finished ${issueId}`;
+
+		// Answers every bead with reply(), like an agent that always succeeds
+		const fakeBackend: ExecutionBackend = {
+			id: 'fake',
+			label: 'Fake',
+			createSession(options) {
+				return {
+					id: 'fake-session',
+					backendId: 'fake',
+					send(message, context) {
+						sent.push({ message, issueId: context?.issueId });
+						setTimeout(() => {
+							options.onData({ type: 'text', content: reply(context?.issueId) });
+							options.onData({ type: 'done' });
+						}, 0);
+					},
+					cancel() {},
+					close() {}
+				};
+			}
+		};
+
+		function waitForRun(runId: string, timeoutMs = 8000): Promise<TaskRun> {
+			const deadline = Date.now() + timeoutMs;
+			return new Promise((resolve, reject) => {
+				const check = () => {
+					const run = store.get(runId);
+					if (run && run.status !== 'running' && run.status !== 'queued') return resolve(run);
+					if (Date.now() > deadline) return reject(new Error(`run still ${run?.status}`));
+					setTimeout(check, 50);
+				};
+				check();
+			});
+		}
+
+		function writeAgent(filename: string, frontmatter: string): void {
+			const dir = path.join(projectPath, '.claude', 'agents');
+			fs.mkdirSync(dir, { recursive: true });
+			fs.writeFileSync(path.join(dir, filename), `---\n${frontmatter}\n---\nYou are a test agent.\n`);
+		}
+
+		beforeAll(async () => {
+			tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'exec-backends-'));
+			projectPath = path.join(tmpDir, 'project');
+			fs.mkdirSync(path.join(projectPath, '.beads'), { recursive: true });
+			const beads = new Database(path.join(projectPath, '.beads', 'beads.db'));
+			// Read-only connections cannot switch the journal mode themselves
+			beads.pragma('journal_mode = WAL');
+			beads.exec(`
+				CREATE TABLE issues (
+					id TEXT PRIMARY KEY, title TEXT, description TEXT, status TEXT, priority INTEGER,
+					issue_type TEXT, assignee TEXT, created_at TEXT, created_by TEXT, updated_at TEXT,
+					closed_at TEXT, close_reason TEXT, deleted_at TEXT, branch_name TEXT, agent_id TEXT,
+					commit_hash TEXT, execution_log TEXT, pr_url TEXT, pr_status TEXT, ci_status TEXT
+				);
+				CREATE TABLE dependencies (issue_id TEXT, depends_on_id TEXT, type TEXT);
+				CREATE TABLE comments (id INTEGER PRIMARY KEY, issue_id TEXT, author TEXT, text TEXT, created_at TEXT);
+				CREATE TABLE events (
+					id INTEGER PRIMARY KEY, issue_id TEXT, event_type TEXT, actor TEXT,
+					old_value TEXT, new_value TEXT, comment TEXT, created_at TEXT
+				);
+				CREATE TABLE labels (issue_id TEXT, label TEXT);
+			`);
+			const insert = beads.prepare(
+				`INSERT INTO issues (id, title, status, priority, issue_type, created_at, updated_at)
+				 VALUES (?, ?, 'open', 2, ?, ?, ?)`
+			);
+			insert.run('bd-epic', 'Epic', 'epic', '2026-01-01', '2026-01-01');
+			insert.run('bd-a', 'First', 'task', '2026-01-02', '2026-01-02');
+			insert.run('bd-b', 'Second', 'task', '2026-01-03', '2026-01-03');
+			insert.run('bd-solo', 'Solo', 'task', '2026-01-04', '2026-01-04');
+			insert.run('bd-env', 'Envelope', 'task', '2026-01-05', '2026-01-05');
+			const dep = beads.prepare('INSERT INTO dependencies (issue_id, depends_on_id, type) VALUES (?, ?, ?)');
+			dep.run('bd-a', 'bd-epic', 'parent-child');
+			dep.run('bd-b', 'bd-epic', 'parent-child');
+			dep.run('bd-b', 'bd-a', 'blocks');
+			beads.close();
+
+			projectId = (await import('../dashboard-db')).addProject(projectPath, 'Test').id;
+			manager = await import('../task-runner-manager');
+			store = (await import('../task-runner-store')).taskRunnerStore;
+
+			registerExecutionBackend(fakeBackend);
+		});
+
+		afterAll(async () => {
+			manager?.cleanup();
+			unregisterExecutionBackend('fake');
+			(await import('../project-db')).closeProjectDb(projectPath);
+			// The dashboard database is in the throwaway home from setup.ts; drop the rows anyway
+			if (projectId) {
+				for (const run of store.getHistory(projectId, 1000)) {
+					store.delete(run.id);
+				}
+				(await import('../dashboard-db')).removeProject(projectId);
+			}
+			fs.rmSync(tmpDir, { recursive: true, force: true });
+		});
+
+		it('runs an epic on the backend chosen by the agent', async () => {
+			writeAgent('fake.md', 'name: Fake\nbackend: fake');
+
+			const run = manager.startTaskRun(projectId, 'bd-epic', 'autonomous', 'fake.md');
+			expect(run?.backendId).toBe('fake');
+
+			const finished = await waitForRun(run!.id);
+			expect(finished.status).toBe('completed');
+			expect(sent.map(s => s.issueId)).toEqual(['bd-a', 'bd-b']);
+			expect(sent[0].message).toContain('You are a test agent.');
+			expect(finished.epicSequence?.completedTaskIds).toEqual(['bd-a', 'bd-b']);
+		});
+
+		it('moves a bead to review from a completion envelope', async () => {
+			writeAgent('fake.md', 'name: Fake\nbackend: fake');
+			reply = () =>
+				[
+					'All done.',
+					'<task-completion>',
+					JSON.stringify({ status: 'completed', summary: 'Implemented it', commit_hash: 'deadbeef1' }),
+					'</task-completion>'
+				].join('\n');
+
+			const run = manager.startTaskRun(projectId, 'bd-env', 'autonomous', 'fake.md');
+			const finished = await waitForRun(run!.id);
+			expect(finished.status).toBe('completed');
+
+			const projectDb = await import('../project-db');
+			projectDb.refreshProjectDb(projectPath);
+			const bead = projectDb
+				.getProjectDb(projectPath)
+				.prepare('SELECT status, branch_name, commit_hash, execution_log FROM issues WHERE id = ?')
+				.get('bd-env');
+			// Claimed onto its bead branch like a claim through the issue route
+			expect(bead).toEqual({
+				status: 'in_review',
+				branch_name: 'feat/bd-env-envelope',
+				commit_hash: 'deadbeef1',
+				execution_log: 'Implemented it'
+			});
+		});
+
+		it('runs a bead with a shell script agent', async () => {
+			writeAgent('shell.md', `name: Shell\nbackend: shell\nshell:\n  command: ${nodeCommand('console.log("ok")')}`);
+
+			const run = manager.startTaskRun(projectId, 'bd-solo', 'autonomous', 'shell.md');
+			expect(run?.backendId).toBe('shell');
+
+			const finished = await waitForRun(run!.id);
+			expect(finished.status).toBe('completed');
+			expect(finished.events.some(e => e.content === 'ok')).toBe(true);
+		});
+	});
+});
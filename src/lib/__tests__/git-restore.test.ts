@@ -0,0 +1,162 @@
+/**
+ * Tests for the recoverable restore flow in git-utils
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { spawnSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getCurrentBranch, listRestoreBackups, restoreToCommit, undoRestore } from '../git-utils';
+
+const GIT_ENV = {
+	...process.env,
+	GIT_AUTHOR_NAME: 'Test',
+	GIT_AUTHOR_EMAIL: 'test@example.com',
+	GIT_COMMITTER_NAME: 'Test',
+	GIT_COMMITTER_EMAIL: 'test@example.com'
+};
+
+function git(cwd: string, ...args: string[]): string {
+	const result = spawnSync('git', args, { cwd, encoding: 'utf-8', env: GIT_ENV });
+	if (result.status !== 0) {
+		throw new Error(`git ${args.join(' ')} failed: ${result.stderr}`);
+	}
+	return result.stdout.trim();
+}
+
+function commitFile(cwd: string, file: string, content: string, message: string): string {
+	fs.writeFileSync(path.join(cwd, file), content);
+	git(cwd, 'add', '-A');
+	git(cwd, 'commit', '-m', message);
+	return git(cwd, 'rev-parse', 'HEAD');
+}
+
+function read(cwd: string, file: string): string | null {
+	const fullPath = path.join(cwd, file);
+	return fs.existsSync(fullPath) ? fs.readFileSync(fullPath, 'utf-8') : null;
+}
+
+describe('safe restore', () => {
+	let tmpDir: string;
+	let repo: string;
+	let first: string;
+	let second: string;
+	let third: string;
+	const savedEnv: Record<string, string | undefined> = {};
+
+	beforeEach(() => {
+		// createCommit and stash need an identity in the environment
+		for (const key of ['GIT_AUTHOR_NAME', 'GIT_AUTHOR_EMAIL', 'GIT_COMMITTER_NAME', 'GIT_COMMITTER_EMAIL'] as const) {
+			savedEnv[key] = process.env[key];
+			process.env[key] = GIT_ENV[key];
+		}
+
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-restore-'));
+		repo = path.join(tmpDir, 'repo');
+		fs.mkdirSync(repo);
+		git(repo, 'init', '-q', '-b', 'main');
+		first = commitFile(repo, 'app.txt', 'v1', 'First');
+		second = commitFile(repo, 'app.txt', 'v2', 'Second');
+		fs.writeFileSync(path.join(repo, 'extra.txt'), 'added later');
+		third = commitFile(repo, 'app.txt', 'v3', 'Third');
+	});
+
+	afterEach(() => {
+		for (const [key, value] of Object.entries(savedEnv)) {
+			if (value === undefined) delete process.env[key];
+			else process.env[key] = value;
+		}
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	it('restores with a new commit by default and keeps history', () => {
+		const result = restoreToCommit(repo, first);
+
+		expect(result.success).toBe(true);
+		expect(result.mode).toBe('revert');
+		expect(read(repo, 'app.txt')).toBe('v1');
+		expect(read(repo, 'extra.txt')).toBeNull();
+		expect(git(repo, 'rev-parse', 'HEAD~1')).toBe(third);
+		expect(git(repo, 'log', '-1', '--format=%s')).toBe(`Restore to ${first.slice(0, 7)}: First`);
+
+		expect(result.backup).toMatchObject({ commitHash: third, branch: 'main', mode: 'revert' });
+		expect(git(repo, 'rev-parse', result.backup!.ref)).toBe(third);
+	});
+
+	it('opens the commit in a new branch without touching the current one', () => {
+		const result = restoreToCommit(repo, second, { mode: 'branch' });
+
+		expect(result.success).toBe(true);
+		expect(result.branchName).toBe(`restore/${second.slice(0, 7)}`);
+		expect(getCurrentBranch(repo)).toBe(result.branchName);
+		expect(read(repo, 'app.txt')).toBe('v2');
+		expect(git(repo, 'rev-parse', 'main')).toBe(third);
+
+		const again = restoreToCommit(repo, second, { mode: 'branch' });
+		expect(again.success).toBe(false);
+		expect(again.error).toContain('already exists');
+	});
+
+	it('undoes a history reset, including discarded unsaved changes', () => {
+		fs.writeFileSync(path.join(repo, 'app.txt'), 'unsaved work');
+
+		const result = restoreToCommit(repo, first, { mode: 'reset' });
+		expect(result.success).toBe(true);
+		expect(result.pushed).toBe(false);
+		expect(git(repo, 'rev-parse', 'HEAD')).toBe(first);
+		expect(read(repo, 'app.txt')).toBe('v1');
+
+		const [backup] = listRestoreBackups(repo);
+		expect(backup).toMatchObject({ id: result.backup!.id, commitHash: third, hasUnsavedChanges: true });
+
+		const undo = undoRestore(repo, backup.id);
+		expect(undo.success).toBe(true);
+		expect(git(repo, 'rev-parse', 'HEAD')).toBe(third);
+		expect(read(repo, 'app.txt')).toBe('unsaved work');
+
+		// The used backup is gone; the undo left its own so it can be reversed too
+		const remaining = listRestoreBackups(repo);
+		expect(remaining.map((b) => b.id)).not.toContain(backup.id);
+		expect(remaining[0]).toMatchObject({ mode: 'undo', commitHash: first });
+	});
+
+	it('refuses to undo over unsaved changes', () => {
+		const result = restoreToCommit(repo, first, { mode: 'reset' });
+		fs.writeFileSync(path.join(repo, 'app.txt'), 'new edits');
+
+		const undo = undoRestore(repo, result.backup!.id);
+		expect(undo.success).toBe(false);
+		expect(undo.error).toContain('unsaved changes');
+		expect(read(repo, 'app.txt')).toBe('new edits');
+		expect(undoRestore(repo, 'missing').error).toBe('Backup not found');
+	});
+
+	it('only force-pushes when opted in and origin has nothing the backup lacks', () => {
+		const remote = path.join(tmpDir, 'remote.git');
+		git(tmpDir, 'init', '-q', '--bare', '-b', 'main', remote);
+		git(repo, 'remote', 'add', 'origin', remote);
+		git(repo, 'push', '-q', 'origin', 'main');
+
+		const withoutOptIn = restoreToCommit(repo, second, { mode: 'reset' });
+		expect(withoutOptIn.pushed).toBe(false);
+		expect(git(remote, 'rev-parse', 'main')).toBe(third);
+		git(repo, 'reset', '-q', '--hard', third);
+
+		const pushed = restoreToCommit(repo, second, { mode: 'reset', forcePush: true });
+		expect(pushed.pushed).toBe(true);
+		expect(git(remote, 'rev-parse', 'main')).toBe(second);
+
+		// A teammate pushes work this clone has never seen
+		const teammate = path.join(tmpDir, 'teammate');
+		git(tmpDir, 'clone', '-q', remote, teammate);
+		const theirs = commitFile(teammate, 'theirs.txt', 'teammate work', 'Teammate');
+		git(teammate, 'push', '-q', 'origin', 'main');
+
+		const diverged = restoreToCommit(repo, first, { mode: 'reset', forcePush: true });
+		expect(diverged.success).toBe(true);
+		expect(diverged.pushed).toBe(false);
+		expect(diverged.pushSkippedReason).toContain('not in your local history');
+		expect(git(remote, 'rev-parse', 'main')).toBe(theirs);
+	});
+});
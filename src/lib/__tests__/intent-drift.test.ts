@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeIntentDrift, type IntentDriftInput } from '../intent/drift';
+import { computeFileHash } from '../intent/cache';
+import type { IntentLink } from '../intent/types';
+
+const INTENT = `# Project Intent
+
+## Overview {#anchor:overview}
+
+A dashboard for beads.
+
+## Architecture Constraints {#anchor:constraints}
+
+### Tech Stack {#anchor:constraints.tech-stack}
+
+- Persistence goes through \`src/lib/db/\` only
+- Config files live in \`.beads/*.json\`
+
+## Anti-Goals {#anchor:anti-goals}
+
+- No client-side state libraries such as \`redux\`
+- No ORM (\`prisma\`)
+`;
+
+function link(beadId: string, anchor: string): IntentLink {
+	return { beadId, anchor, relevance: 'primary', addedAt: '2026-01-01T00:00:00Z', addedBy: 'user' };
+}
+
+function input(overrides: Partial<IntentDriftInput> = {}): IntentDriftInput {
+	return {
+		projectId: 'proj-1',
+		content: INTENT,
+		cached: null,
+		links: [],
+		beads: [],
+		closedWork: [],
+		...overrides
+	};
+}
+
+describe('analyzeIntentDrift', () => {
+	it('flags beads without links and anchors without beads', () => {
+		const report = analyzeIntentDrift(
+			input({
+				links: [link('bd-1', 'constraints.tech-stack')],
+				beads: [
+					{ id: 'bd-1', title: 'Linked', status: 'open' },
+					{ id: 'bd-2', title: 'Unlinked', status: 'in_progress' },
+					{ id: 'bd-3', title: 'Done', status: 'closed' }
+				]
+			})
+		);
+
+		expect(report.unlinkedBeads.map((b) => b.id)).toEqual(['bd-2']);
+		// A child link covers its parent anchor
+		expect(report.unusedAnchors).toEqual(['overview', 'anti-goals']);
+		expect(report.fileHash).toBe(computeFileHash(INTENT));
+	});
+
+	it('reports links to anchors removed since the last index', () => {
+		const previous = `${INTENT}\n## Roadmap {#anchor:roadmap}\n`;
+		const report = analyzeIntentDrift(
+			input({
+				cached: {
+					fileHash: computeFileHash(previous),
+					anchors: ['overview', 'constraints', 'constraints.tech-stack', 'anti-goals', 'roadmap']
+				},
+				links: [link('bd-1', 'roadmap'), link('bd-2', 'typo-anchor'), link('bd-3', 'overview')]
+			})
+		);
+
+		expect(report.removedAnchors).toEqual(['roadmap']);
+		expect(report.brokenLinks).toEqual([
+			{ beadId: 'bd-1', anchor: 'roadmap', removedSinceIndex: true },
+			{ beadId: 'bd-2', anchor: 'typo-anchor', removedSinceIndex: false }
+		]);
+	});
+
+	it('ignores the cached anchors when the file has not changed', () => {
+		const report = analyzeIntentDrift(
+			input({ cached: { fileHash: computeFileHash(INTENT), anchors: ['roadmap'] } })
+		);
+		expect(report.removedAnchors).toEqual([]);
+	});
+
+	it('finds closed work touching governed areas', () => {
+		const patch = [
+			'diff --git a/src/lib/db/users.ts b/src/lib/db/users.ts',
+			'+++ b/src/lib/db/users.ts',
+			'+export const users = [];',
+			'diff --git a/src/lib/store.ts b/src/lib/store.ts',
+			'+++ b/src/lib/store.ts',
+			"+import { createStore } from 'redux';"
+		].join('\n');
+
+		const report = analyzeIntentDrift(
+			input({
+				links: [link('bd-1', 'constraints.tech-stack')],
+				closedWork: [
+					{ id: 'bd-1', title: 'Add users store', executionLog: 'Added a store.', patch },
+					{ id: 'bd-2', title: 'Tweak config', executionLog: 'Edited .beads/workflow.json' },
+					{ id: 'bd-3', title: 'Unrelated', executionLog: 'Prismatic colors in the README' }
+				]
+			})
+		);
+
+		expect(report.governedAreaHits).toEqual([
+			{
+				beadId: 'bd-1',
+				title: 'Add users store',
+				anchor: 'constraints.tech-stack',
+				governedBy: 'constraints',
+				linked: true,
+				matches: [{ term: 'src/lib/db/', source: 'diff', detail: 'src/lib/db/users.ts' }]
+			},
+			{
+				beadId: 'bd-1',
+				title: 'Add users store',
+				anchor: 'anti-goals',
+				governedBy: 'anti-goals',
+				linked: false,
+				matches: [{ term: 'redux', source: 'diff', detail: "import { createStore } from 'redux';" }]
+			},
+			{
+				beadId: 'bd-2',
+				title: 'Tweak config',
+				anchor: 'constraints.tech-stack',
+				governedBy: 'constraints',
+				linked: false,
+				matches: [{ term: '.beads/*.json', source: 'execution_log', detail: 'Edited .beads/workflow.json' }]
+			}
+		]);
+	});
+});
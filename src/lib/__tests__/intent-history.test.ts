@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+	diffIntentAnchors,
+	getIntentVersionDiff,
+	listIntentVersions,
+	readIntentLinksAtCommit
+} from '../intent/history';
+import { buildIntentContext, buildIntentContextForBead } from '../intent/injection';
+import type { IntentLink } from '../intent/types';
+
+const V1 = `# Project Intent
+
+## Overview {#anchor:overview}
+
+A dashboard for beads.
+
+## Constraints {#anchor:constraints}
+
+Use SQLite.
+
+### Notes
+
+Keep it local.
+`;
+
+const V2 = `# Project Intent
+
+## Overview {#anchor:overview}
+
+A dashboard for beads.
+
+## Constraints {#anchor:constraints}
+
+Use SQLite.
+
+### Notes
+
+Keep it local and fast.
+
+## Anti-Goals {#anchor:anti-goals}
+
+No ORMs.
+`;
+
+const V3 = `# Project Intent
+
+## Constraints {#anchor:constraints}
+
+Use Postgres.
+
+## Anti-Goals {#anchor:anti-goals}
+
+No ORMs.
+`;
+
+function link(beadId: string, anchor: string): IntentLink {
+	return { beadId, anchor, relevance: 'primary', addedAt: '2026-01-01T00:00:00Z', addedBy: 'user' };
+}
+
+describe('intent history', () => {
+	let repo: string;
+
+	function git(...args: string[]): string {
+		return execFileSync('git', args, { cwd: repo, encoding: 'utf8' }).trim();
+	}
+
+	function commit(message: string, intent: string, links?: IntentLink[]): string {
+		fs.writeFileSync(path.join(repo, 'PROJECT_INTENT.md'), intent);
+		if (links) {
+			fs.mkdirSync(path.join(repo, '.beads'), { recursive: true });
+			fs.writeFileSync(
+				path.join(repo, '.beads', 'intent-links.json'),
+				JSON.stringify({ version: 1, links })
+			);
+		}
+		git('add', '-A');
+		git('commit', '-q', '-m', message);
+		return git('rev-parse', 'HEAD');
+	}
+
+	beforeEach(() => {
+		repo = fs.mkdtempSync(path.join(os.tmpdir(), 'intent-history-'));
+		git('init', '-q');
+		git('config', 'user.email', 'test@example.com');
+		git('config', 'user.name', 'Test');
+		git('config', 'commit.gpgsign', 'false');
+	});
+
+	afterEach(() => {
+		fs.rmSync(repo, { recursive: true, force: true });
+	});
+
+	describe('diffIntentAnchors', () => {
+		it('reports added, removed and changed anchors with their linked beads', () => {
+			const changes = diffIntentAnchors(V2, V3, [link('bd-1', 'constraints'), link('bd-2', 'overview')]);
+
+			expect(changes).toEqual([
+				{
+					anchor: 'constraints',
+					change: 'changed',
+					before: '## Constraints\n\nUse SQLite.\n\n### Notes\n\nKeep it local and fast.',
+					after: '## Constraints\n\nUse Postgres.',
+					linkedBeads: ['bd-1']
+				},
+				{
+					anchor: 'overview',
+					change: 'removed',
+					before: '## Overview\n\nA dashboard for beads.',
+					linkedBeads: ['bd-2']
+				}
+			]);
+		});
+
+		it('counts edits to unanchored sub-sections as changes to the parent anchor', () => {
+			const changes = diffIntentAnchors(V1, V2);
+			expect(changes.map((c) => [c.anchor, c.change])).toEqual([
+				['constraints', 'changed'],
+				['anti-goals', 'added']
+			]);
+		});
+	});
+
+	describe('versions', () => {
+		it('lists commits of the intent file with per-anchor counts', () => {
+			commit('Initial intent', V1);
+			commit('Add anti-goals', V2);
+			commit('Switch to Postgres', V3);
+
+			const versions = listIntentVersions(repo);
+
+			expect(versions.map((v) => [v.message, v.anchorChanges])).toEqual([
+				['Switch to Postgres', { added: 0, removed: 1, changed: 1 }],
+				['Add anti-goals', { added: 1, removed: 0, changed: 1 }],
+				['Initial intent', { added: 2, removed: 0, changed: 0 }]
+			]);
+			expect(listIntentVersions(repo, 1)[0].anchorChanges).toEqual(versions[0].anchorChanges);
+		});
+
+		it('diffs a version with the links tracked at that commit', () => {
+			const first = commit('Initial intent', V1);
+			const second = commit('Add anti-goals', V2, [link('bd-1', 'constraints')]);
+			commit('Relink', V2, [link('bd-2', 'constraints')]);
+
+			const diff = getIntentVersionDiff(repo, second.slice(0, 7))!;
+
+			expect(diff.previousHash).toBe(first);
+			expect(diff.linksAt).toBe('commit');
+			expect(diff.changes.find((c) => c.anchor === 'constraints')?.linkedBeads).toEqual(['bd-1']);
+
+			expect(getIntentVersionDiff(repo, first)?.linksAt).toBe('unavailable');
+			expect(readIntentLinksAtCommit(repo, first)).toBeNull();
+		});
+
+		it('returns null for a commit that did not change the intent file', () => {
+			commit('Initial intent', V1);
+			fs.writeFileSync(path.join(repo, 'README.md'), 'readme');
+			git('add', '-A');
+			git('commit', '-q', '-m', 'Readme');
+
+			expect(getIntentVersionDiff(repo, git('rev-parse', 'HEAD'))).toBeNull();
+		});
+	});
+
+	describe('buildIntentContext as of a commit', () => {
+		it('renders the intent and links as they were at the commit', async () => {
+			const first = commit('Initial intent', V1, [link('bd-1', 'constraints')]);
+			commit('Switch to Postgres', V3, [link('bd-1', 'anti-goals')]);
+
+			const past = await buildIntentContextForBead(repo, 'proj-1', 'bd-1', { asOfCommit: first });
+
+			expect(past?.formattedMarkdown).toContain('Use SQLite.');
+			expect(past?.formattedMarkdown).not.toContain('Use Postgres.');
+			expect(past?.linkedAnchors).toEqual(['constraints']);
+			expect(past?.anchors).toEqual(['overview', 'constraints']);
+		});
+
+		it('returns null when the file did not exist at the commit', async () => {
+			fs.writeFileSync(path.join(repo, 'README.md'), 'readme');
+			git('add', '-A');
+			git('commit', '-q', '-m', 'Readme');
+
+			expect(await buildIntentContext(repo, 'proj-1', { asOfCommit: git('rev-parse', 'HEAD') })).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+	closeMemoryDb,
+	createMemoryEntry,
+	getMemoryEntry,
+	getMemoryWriter,
+	listConsolidationLog,
+	MemoryDatabaseError
+} from '../memory/db';
+import { applyConsolidation, planConsolidation } from '../memory/consolidation';
+import { getScopedMemories, searchMemories } from '../memory/retrieval';
+import type { CreateMemoryEntry } from '../memory/types';
+
+const PROJECT = 'proj-1';
+
+describe('memory consolidation', () => {
+	let projectPath: string;
+
+	function add(title: string, content: string, extra: Partial<CreateMemoryEntry> = {}) {
+		return createMemoryEntry(projectPath, {
+			projectId: PROJECT,
+			beadId: 'bd-1',
+			kind: 'checkpoint',
+			title,
+			content,
+			...extra
+		});
+	}
+
+	// Entries created in one test share a timestamp; spread them out so "newest" is defined
+	function setCreatedAt(id: string, createdAt: string) {
+		getMemoryWriter(projectPath)
+			.prepare('UPDATE memory_entries SET created_at = ? WHERE id = ?')
+			.run(createdAt, id);
+	}
+
+	beforeEach(() => {
+		projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-consolidation-'));
+	});
+
+	afterEach(() => {
+		closeMemoryDb(projectPath);
+		fs.rmSync(projectPath, { recursive: true, force: true });
+	});
+
+	describe('planConsolidation', () => {
+		it('groups near-duplicates within a kind and scope, keeping the newest', () => {
+			const older = add('Session checkpoint', 'Worked on the login form. Tests pass.');
+			const newer = add('Session checkpoint', 'Worked on the login form.  Tests pass!');
+			add('Session checkpoint', 'Worked on the login form. Tests pass.', { beadId: 'bd-2' });
+			add('Session checkpoint', 'Worked on the login form. Tests pass.', { kind: 'next_step' });
+			add('Different work', 'Refactored the payment webhook retry queue.');
+			setCreatedAt(older, '2026-01-01T00:00:00.000Z');
+			setCreatedAt(newer, '2026-01-02T00:00:00.000Z');
+
+			const plan = planConsolidation(projectPath, { projectId: PROJECT });
+
+			expect(plan.entryCount).toBe(5);
+			expect(plan.actions).toHaveLength(1);
+			expect(plan.actions[0]).toMatchObject({
+				type: 'dedupe',
+				kind: 'checkpoint',
+				beadId: 'bd-1',
+				keepId: newer,
+				sources: [{ id: older }]
+			});
+			expect(plan.tokensSaved).toBeGreaterThan(0);
+		});
+
+		it('rolls up checkpoints of closed beads only', () => {
+			const first = add('Day one', 'Set up the schema.');
+			const second = add('Day two', 'Wrote the migration and the tests.');
+			add('Open bead work', 'Still going.', { beadId: 'bd-open' });
+			add('Open bead more work', 'Halfway through the API.', { beadId: 'bd-open' });
+			setCreatedAt(first, '2026-01-01T00:00:00.000Z');
+			setCreatedAt(second, '2026-01-02T00:00:00.000Z');
+
+			const plan = planConsolidation(projectPath, { projectId: PROJECT, closedBeadIds: ['bd-1'] });
+
+			expect(plan.actions).toHaveLength(1);
+			const [rollup] = plan.actions;
+			expect(rollup.type).toBe('rollup');
+			expect(rollup.sources.map((s) => s.id).sort()).toEqual([first, second].sort());
+			expect(rollup.summary?.title).toBe('Checkpoint summary for bd-1');
+			// Oldest first
+			expect(rollup.summary!.content.indexOf('Day one')).toBeLessThan(
+				rollup.summary!.content.indexOf('Day two')
+			);
+		});
+
+		it('returns an empty plan without a database', () => {
+			expect(planConsolidation(projectPath, { projectId: PROJECT }).actions).toEqual([]);
+		});
+	});
+
+	describe('applyConsolidation', () => {
+		it('soft-deletes merged entries, creates summaries and records an audit trail', () => {
+			const a = add('Day one', 'Set up the schema.');
+			const b = add('Day two', 'Wrote the migration.');
+			setCreatedAt(a, '2026-01-01T00:00:00.000Z');
+
+			const result = applyConsolidation(projectPath, {
+				projectId: PROJECT,
+				closedBeadIds: ['bd-1'],
+				actor: 'user'
+			});
+
+			expect(result.removedCount).toBe(2);
+			expect(result.createdIds).toHaveLength(1);
+			expect(getMemoryEntry(projectPath, a)?.deletedAt).toBeDefined();
+			expect(getMemoryEntry(projectPath, b)?.deletedAt).toBeDefined();
+
+			const summary = getMemoryEntry(projectPath, result.createdIds[0]);
+			expect(summary?.data).toEqual({ rollupOf: expect.arrayContaining([a, b]) });
+
+			const log = listConsolidationLog(projectPath, PROJECT);
+			expect(log).toHaveLength(1);
+			expect(log[0]).toMatchObject({
+				runId: result.runId,
+				action: 'rollup',
+				keptEntryId: result.createdIds[0],
+				actor: 'user'
+			});
+			expect(log[0].sourceEntryIds.sort()).toEqual([a, b].sort());
+
+			// Nothing left to do
+			expect(planConsolidation(projectPath, { projectId: PROJECT, closedBeadIds: ['bd-1'] }).actions).toEqual([]);
+		});
+
+		it('applies only the selected actions', () => {
+			add('Checkpoint', 'Same text here.');
+			add('Checkpoint', 'Same text here.');
+			add('Note', 'Another repeated note.', { beadId: 'bd-2', kind: 'next_step' });
+			add('Note', 'Another repeated note.', { beadId: 'bd-2', kind: 'next_step' });
+
+			const plan = planConsolidation(projectPath, { projectId: PROJECT });
+			expect(plan.actions).toHaveLength(2);
+
+			const result = applyConsolidation(projectPath, {
+				projectId: PROJECT,
+				actionIds: [plan.actions[0].id, 'dedupe-stale']
+			});
+			expect(result.applied.map((a) => a.id)).toEqual([plan.actions[0].id]);
+			expect(planConsolidation(projectPath, { projectId: PROJECT }).actions).toHaveLength(1);
+		});
+	});
+
+	describe('supersedes', () => {
+		it('hides superseded decisions from retrieval and logs the link', () => {
+			const old = add('Use REST', 'Expose a REST API.', { kind: 'decision' });
+			const replacement = add('Use GraphQL', 'Expose a GraphQL API instead of REST.', {
+				kind: 'decision',
+				supersedes: old
+			});
+
+			const scoped = getScopedMemories(projectPath, { projectId: PROJECT, beadId: 'bd-1' });
+			expect(scoped.beadMemories.map((m) => m.id)).toEqual([replacement]);
+			expect(searchMemories(projectPath, { projectId: PROJECT, query: 'rest' }).map((m) => m.id)).toEqual([
+				replacement
+			]);
+			expect(getMemoryEntry(projectPath, replacement)?.supersedes).toBe(old);
+
+			const [log] = listConsolidationLog(projectPath, PROJECT);
+			expect(log).toMatchObject({ action: 'supersede', keptEntryId: replacement, sourceEntryIds: [old] });
+		});
+
+		it('rejects invalid links', () => {
+			const decision = add('Use REST', 'Expose a REST API.', { kind: 'decision' });
+			const checkpoint = add('Checkpoint', 'Progress.');
+
+			expect(() => add('Note', 'x', { kind: 'checkpoint', supersedes: decision })).toThrow(
+				/Only decisions can supersede/
+			);
+			expect(() => add('Decision', 'x', { kind: 'decision', supersedes: checkpoint })).toThrow(
+				/Only decisions can be superseded/
+			);
+			expect(() => add('Decision', 'x', { kind: 'decision', supersedes: 'missing' })).toThrow(
+				MemoryDatabaseError
+			);
+
+			add('Use GraphQL', 'Replace REST.', { kind: 'decision', supersedes: decision });
+			expect(() => add('Use gRPC', 'Replace REST.', { kind: 'decision', supersedes: decision })).toThrow(
+				/already superseded/
+			);
+		});
+	});
+});
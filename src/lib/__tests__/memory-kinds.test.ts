@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+	closeMemoryDb,
+	createMemoryEntry,
+	getMemoryDbPath,
+	getMemoryEntry,
+	getMemoryWriter,
+	MemoryDatabaseError
+} from '../memory/db';
+import {
+	getKindBriefTemplates,
+	getKindRankingBoosts,
+	getMemoryKindRegistry,
+	saveMemoryKindsFile,
+	validateMemoryData,
+	validateMemoryKindConfigs
+} from '../memory/kinds';
+import { buildMemoryBrief, rankMemories, searchMemories } from '../memory/retrieval';
+import type { CreateMemoryEntry, MemoryKindConfig } from '../memory/types';
+import { MEMORY_SCHEMA_VERSION } from '../memory/types';
+
+const PROJECT = 'proj-1';
+
+const API_CONTRACT: MemoryKindConfig = {
+	name: 'api_contract',
+	label: 'API Contract',
+	description: 'Agreed request/response shapes',
+	dataSchema: {
+		type: 'object',
+		required: ['method', 'path'],
+		properties: {
+			method: { type: 'string', enum: ['GET', 'POST', 'PUT', 'DELETE'] },
+			path: { type: 'string', pattern: '^/' },
+			status: { type: 'integer', minimum: 100, maximum: 599 }
+		},
+		additionalProperties: false
+	},
+	rankingBoost: 0.25,
+	briefTemplate: '### {{data.method}} {{data.path}} {{scope}}\n{{content}}'
+};
+
+describe('memory kinds', () => {
+	let projectPath: string;
+
+	function add(extra: Partial<CreateMemoryEntry> = {}) {
+		return createMemoryEntry(projectPath, {
+			projectId: PROJECT,
+			beadId: 'bd-1',
+			kind: 'api_contract',
+			title: 'List users',
+			content: 'Returns a page of users.',
+			data: { method: 'GET', path: '/api/users' },
+			...extra
+		});
+	}
+
+	beforeEach(() => {
+		projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-kinds-'));
+		saveMemoryKindsFile(projectPath, [
+			API_CONTRACT,
+			{ name: 'risk', retentionDays: 14 }
+		]);
+	});
+
+	afterEach(() => {
+		closeMemoryDb(projectPath);
+		fs.rmSync(projectPath, { recursive: true, force: true });
+	});
+
+	describe('registry', () => {
+		it('combines built-in and project kinds with defaults filled in', () => {
+			const registry = getMemoryKindRegistry(projectPath);
+
+			expect(Object.keys(registry)).toEqual([
+				'decision',
+				'checkpoint',
+				'constraint',
+				'next_step',
+				'action_report',
+				'ci_note',
+				'api_contract',
+				'risk'
+			]);
+			expect(registry.constraint).toMatchObject({ builtin: true, retentionDays: null, rankingBoost: 0.3 });
+			expect(registry.risk).toEqual({
+				name: 'risk',
+				label: 'risk',
+				description: undefined,
+				dataSchema: undefined,
+				retentionDays: 14,
+				rankingBoost: 0,
+				briefTemplate: undefined,
+				builtin: false
+			});
+			expect(getKindRankingBoosts(projectPath)).toMatchObject({ api_contract: 0.25, decision: 0.2 });
+			expect(Object.keys(getKindBriefTemplates(projectPath))).toEqual(['api_contract']);
+		});
+
+		it('rejects invalid definitions', () => {
+			expect(
+				validateMemoryKindConfigs([
+					{ name: 'Risk' },
+					{ name: 'decision' },
+					{ name: 'risk', rankingBoost: 2, retentionDays: 0 },
+					{ name: 'risk' },
+					{ name: 'gap', dataSchema: { type: 'map' as never, pattern: '(' } }
+				])
+			).toEqual([
+				'"Risk" is not a valid kind name (lowercase letters, digits and _)',
+				'decision is a built-in kind',
+				'risk: retentionDays must be a positive whole number or null',
+				'risk: rankingBoost must be between 0 and 1',
+				'risk is defined more than once',
+				'gap.dataSchema: unknown type "map"',
+				'gap.dataSchema: invalid pattern'
+			]);
+			expect(() => saveMemoryKindsFile(projectPath, [{ name: 'decision' }])).toThrow(/built-in/);
+		});
+	});
+
+	describe('createMemoryEntry', () => {
+		it('accepts project kinds with valid data', () => {
+			const id = add();
+			expect(getMemoryEntry(projectPath, id)).toMatchObject({
+				kind: 'api_contract',
+				data: { method: 'GET', path: '/api/users' }
+			});
+		});
+
+		it('validates data against the kind schema', () => {
+			expect(() => add({ data: undefined })).toThrow('Invalid data for api_contract: data is required');
+			expect(() => add({ data: { method: 'PATCH', path: 'users', extra: 1 } })).toThrow(
+				MemoryDatabaseError
+			);
+
+			const errors = validateMemoryData(API_CONTRACT.dataSchema!, {
+				method: 'PATCH',
+				path: 'users',
+				status: 700,
+				extra: 1
+			});
+			expect(errors).toEqual([
+				'data.method must be one of: "GET", "POST", "PUT", "DELETE"',
+				'data.path must match ^/',
+				'data.status must be <= 599',
+				'data.extra is not allowed'
+			]);
+		});
+
+		it('rejects unknown kinds', () => {
+			expect(() => add({ kind: 'test_gap' })).toThrow(/Invalid memory kind: test_gap/);
+		});
+
+		it('applies the retention default of project kinds only', () => {
+			const risk = getMemoryEntry(projectPath, add({ kind: 'risk', data: undefined }))!;
+			const days = (Date.parse(risk.expiresAt!) - Date.parse(risk.createdAt)) / 86_400_000;
+			expect(Math.round(days)).toBe(14);
+
+			const explicit = add({ kind: 'risk', data: undefined, expiresAt: '2099-01-01T00:00:00.000Z' });
+			expect(getMemoryEntry(projectPath, explicit)?.expiresAt).toBe('2099-01-01T00:00:00.000Z');
+
+			const decision = add({ kind: 'decision', data: undefined });
+			expect(getMemoryEntry(projectPath, decision)?.expiresAt).toBeUndefined();
+		});
+	});
+
+	describe('ranking and briefs', () => {
+		it('uses the kind boost and brief template', () => {
+			const contract = getMemoryEntry(projectPath, add())!;
+			const note = getMemoryEntry(projectPath, add({ kind: 'next_step', data: undefined }))!;
+
+			const ranked = rankMemories([note, contract], {
+				beadId: 'bd-1',
+				kindBoosts: getKindRankingBoosts(projectPath)
+			});
+			expect(ranked.map((m) => m.kind)).toEqual(['api_contract', 'next_step']);
+			expect(ranked[0].scoreBreakdown.kindBoost).toBe(0.25);
+
+			const brief = buildMemoryBrief(ranked, { kindTemplates: getKindBriefTemplates(projectPath) });
+			expect(brief.text).toContain('### GET /api/users [bead:bd-1]\nReturns a page of users.\n');
+			expect(brief.text).toContain('**next_step**');
+		});
+	});
+
+	describe('schema migration', () => {
+		it('drops the kind CHECK from older databases and keeps their data searchable', () => {
+			const dbPath = getMemoryDbPath(projectPath);
+			fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+			const legacy = new Database(dbPath);
+			legacy.exec(`
+				CREATE TABLE memory_entries (
+					id TEXT PRIMARY KEY, project_id TEXT NOT NULL, bead_id TEXT, epic_id TEXT,
+					session_id TEXT, chat_id TEXT, agent_name TEXT,
+					kind TEXT NOT NULL CHECK(kind IN ('decision', 'checkpoint', 'constraint', 'next_step', 'action_report', 'ci_note')),
+					title TEXT NOT NULL, content TEXT NOT NULL, data TEXT, intent_anchors TEXT,
+					relevance_score REAL DEFAULT 1.0, expires_at TEXT, deleted_at TEXT,
+					created_at TEXT NOT NULL DEFAULT (datetime('now'))
+				);
+				INSERT INTO memory_entries (id, project_id, kind, title, content, created_at)
+				VALUES ('m1', '${PROJECT}', 'constraint', 'Legacy constraint', 'Never log secrets', '2026-01-01T00:00:00Z');
+			`);
+			legacy.close();
+
+			const id = add();
+			const db = getMemoryWriter(projectPath);
+
+			expect(db.pragma('user_version', { simple: true })).toBe(MEMORY_SCHEMA_VERSION);
+			expect(getMemoryEntry(projectPath, 'm1')).toMatchObject({ kind: 'constraint', title: 'Legacy constraint' });
+			expect(getMemoryEntry(projectPath, id)?.kind).toBe('api_contract');
+			expect(searchMemories(projectPath, { projectId: PROJECT, query: 'secrets' }).map((h) => h.id)).toEqual([
+				'm1'
+			]);
+			expect(searchMemories(projectPath, { projectId: PROJECT, query: 'users' }).map((h) => h.id)).toEqual([id]);
+
+			const indexes = db
+				.prepare("SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = 'memory_entries'")
+				.all()
+				.map((row) => (row as { name: string }).name);
+			expect(indexes).toContain('idx_memory_constraints');
+			expect(indexes).toContain('idx_memory_supersedes');
+		});
+	});
+});
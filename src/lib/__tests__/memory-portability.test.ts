@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+	closeMemoryDb,
+	createMemoryEntry,
+	getMemoryEntry,
+	getMemoryWriter,
+	softDeleteMemoryEntry,
+	syncConstraintsSnapshot
+} from '../memory/db';
+import { exportMemories, importConstraintsSnapshot, importMemories } from '../memory/portability';
+import {
+	getConstraintsSnapshotPath,
+	isConstraintsSnapshotEnabled,
+	readConstraintsSnapshot
+} from '../memory/snapshot';
+import type { CreateMemoryEntry } from '../memory/types';
+
+const PROJECT = 'proj-1';
+
+describe('memory export and import', () => {
+	let projectPath: string;
+	let otherPath: string;
+
+	function add(title: string, content: string, extra: Partial<CreateMemoryEntry> = {}, at = projectPath) {
+		return createMemoryEntry(at, {
+			projectId: PROJECT,
+			beadId: 'bd-1',
+			kind: 'decision',
+			title,
+			content,
+			...extra
+		});
+	}
+
+	function setCreatedAt(id: string, createdAt: string) {
+		getMemoryWriter(projectPath)
+			.prepare('UPDATE memory_entries SET created_at = ? WHERE id = ?')
+			.run(createdAt, id);
+	}
+
+	beforeEach(() => {
+		projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-export-'));
+		otherPath = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-import-'));
+	});
+
+	afterEach(() => {
+		closeMemoryDb(projectPath);
+		closeMemoryDb(otherPath);
+		fs.rmSync(projectPath, { recursive: true, force: true });
+		fs.rmSync(otherPath, { recursive: true, force: true });
+	});
+
+	describe('exportMemories', () => {
+		it('writes a header and one entry per line, oldest first', () => {
+			const newer = add('Use SQLite', 'Keeps deployment simple.', { data: { tags: ['db'] } });
+			const older = add('No ORMs', 'Write SQL by hand.', { kind: 'constraint' });
+			setCreatedAt(older, '2026-01-01T00:00:00.000Z');
+
+			const lines = exportMemories(projectPath, { projectId: PROJECT, format: 'jsonl' })
+				.trimEnd()
+				.split('\n')
+				.map((line) => JSON.parse(line));
+
+			expect(lines[0]).toMatchObject({ format: 'beads-memory', version: 1, count: 2 });
+			expect(lines.slice(1).map((e) => e.id)).toEqual([older, newer]);
+			expect(lines[2]).toMatchObject({ title: 'Use SQLite', data: { tags: ['db'] } });
+			expect(lines[2].projectId).toBeUndefined();
+		});
+
+		it('filters by scope, kind and date', () => {
+			const a = add('Bead one decision', 'A');
+			add('Bead two decision', 'B', { beadId: 'bd-2' });
+			const c = add('Bead one constraint', 'C', { kind: 'constraint' });
+			setCreatedAt(a, '2026-01-01T10:00:00.000Z');
+			setCreatedAt(c, '2026-02-01T10:00:00.000Z');
+
+			const ids = (options: Record<string, unknown>) =>
+				exportMemories(projectPath, { projectId: PROJECT, format: 'jsonl', ...options })
+					.trimEnd()
+					.split('\n')
+					.slice(1)
+					.map((line) => JSON.parse(line).id);
+
+			expect(ids({ beadId: 'bd-1' }).sort()).toEqual([a, c].sort());
+			expect(ids({ kinds: ['constraint'] })).toEqual([c]);
+			expect(ids({ since: '2026-01-01', until: '2026-01-01' })).toEqual([a]);
+			expect(() => ids({ since: 'yesterday' })).toThrow(/Invalid since date/);
+		});
+
+		it('leaves deleted entries out unless asked', () => {
+			const id = add('Gone', 'Removed later.');
+			softDeleteMemoryEntry(projectPath, id);
+
+			expect(exportMemories(projectPath, { projectId: PROJECT, format: 'jsonl' })).not.toContain(id);
+			expect(
+				exportMemories(projectPath, { projectId: PROJECT, format: 'jsonl', includeDeleted: true })
+			).toContain(id);
+		});
+	});
+
+	describe('round trip', () => {
+		it.each(['jsonl', 'markdown'] as const)('restores entries exactly from %s', (format) => {
+			const id = add('Tricky --> title', 'Line one\n\n### Not a heading\n\nLine --> three', {
+				intentAnchors: ['auth-flow'],
+				data: { note: '<!-- /memory -->' }
+			});
+			const text = exportMemories(projectPath, { projectId: PROJECT, format });
+
+			const result = importMemories(otherPath, 'proj-2', text);
+
+			expect(result).toMatchObject({ inserted: 1, updated: 0, errors: [] });
+			const original = getMemoryEntry(projectPath, id)!;
+			expect(getMemoryEntry(otherPath, id)).toEqual({ ...original, projectId: 'proj-2' });
+
+			// Importing the same file again changes nothing
+			expect(importMemories(otherPath, 'proj-2', text)).toMatchObject({ inserted: 0, unchanged: 1 });
+		});
+
+		it('renders markdown for people to read', () => {
+			add('Use SQLite', 'Keeps deployment simple.');
+			const text = exportMemories(projectPath, { projectId: PROJECT, format: 'markdown' });
+
+			expect(text).toMatch(/^# Memory export/);
+			expect(text).toContain('### Use SQLite\n\nKeeps deployment simple.\n\n<!-- /memory -->');
+		});
+	});
+
+	describe('importMemories', () => {
+		function exportOne(id: string) {
+			const text = exportMemories(projectPath, { projectId: PROJECT, format: 'jsonl', includeDeleted: true });
+			return text
+				.split('\n')
+				.filter((line) => line.includes(`"id":"${id}"`))
+				.join('\n');
+		}
+
+		it('reports conflicts and keeps the local version by default', () => {
+			const id = add('Use SQLite', 'Original rationale.');
+			importMemories(otherPath, PROJECT, exportOne(id));
+			const edited = exportOne(id).replace('Original rationale.', 'Edited rationale.');
+
+			const kept = importMemories(otherPath, PROJECT, edited);
+			expect(kept.conflicts).toEqual([
+				{ id, title: 'Use SQLite', fields: ['content'], resolution: 'keep-local' }
+			]);
+			expect(getMemoryEntry(otherPath, id)?.content).toBe('Original rationale.');
+
+			const taken = importMemories(otherPath, PROJECT, edited, { onConflict: 'take-incoming' });
+			expect(taken).toMatchObject({ updated: 1 });
+			expect(getMemoryEntry(otherPath, id)?.content).toBe('Edited rationale.');
+		});
+
+		it('carries deletions over but never revives a deleted entry', () => {
+			const id = add('Temporary', 'Short-lived note.');
+			importMemories(otherPath, PROJECT, exportOne(id));
+
+			softDeleteMemoryEntry(projectPath, id);
+			expect(importMemories(otherPath, PROJECT, exportOne(id))).toMatchObject({ updated: 1 });
+			expect(getMemoryEntry(otherPath, id)?.deletedAt).toBeDefined();
+
+			const revived = exportOne(id).replace(/,"deletedAt":"[^"]+"/, '');
+			expect(importMemories(otherPath, PROJECT, revived, { onConflict: 'take-incoming' })).toMatchObject({
+				updated: 0,
+				unchanged: 1
+			});
+			expect(getMemoryEntry(otherPath, id)?.deletedAt).toBeDefined();
+		});
+
+		it('writes nothing on a dry run', () => {
+			const id = add('Use SQLite', 'Keeps deployment simple.');
+			const result = importMemories(otherPath, PROJECT, exportOne(id), { dryRun: true });
+
+			expect(result).toMatchObject({ inserted: 1, dryRun: true });
+			expect(getMemoryEntry(otherPath, id)).toBeNull();
+		});
+
+		it('reports unreadable lines and keeps going', () => {
+			const id = add('Use SQLite', 'Keeps deployment simple.');
+			const text = ['not json', '{"id":"x","kind":"mystery","title":"t","content":"c"}', exportOne(id)].join('\n');
+
+			const result = importMemories(otherPath, PROJECT, text);
+			expect(result.inserted).toBe(1);
+			expect(result.errors).toEqual([
+				{ line: 1, message: 'Invalid JSON' },
+				{ line: 2, message: 'Invalid memory kind: mystery' }
+			]);
+		});
+	});
+
+	describe('constraints snapshot', () => {
+		it('is opt-in and regenerated when constraints change', () => {
+			add('A decision', 'Not a constraint.');
+			expect(isConstraintsSnapshotEnabled(projectPath)).toBe(false);
+
+			const first = add('No ORMs', 'Write SQL by hand.', { kind: 'constraint' });
+			expect(isConstraintsSnapshotEnabled(projectPath)).toBe(false);
+
+			expect(syncConstraintsSnapshot(projectPath, PROJECT, true)).toBe(true);
+			expect(readConstraintsSnapshot(projectPath)?.constraints.map((c) => c.id)).toEqual([first]);
+
+			const second = add('No secrets in logs', 'Redact tokens.', { kind: 'constraint', beadId: undefined });
+			expect(readConstraintsSnapshot(projectPath)?.constraints.map((c) => c.id)).toEqual([second, first]);
+
+			softDeleteMemoryEntry(projectPath, first);
+			expect(readConstraintsSnapshot(projectPath)?.constraints.map((c) => c.id)).toEqual([second]);
+		});
+
+		it('does not rewrite an unchanged snapshot', () => {
+			add('No ORMs', 'Write SQL by hand.', { kind: 'constraint' });
+			syncConstraintsSnapshot(projectPath, PROJECT, true);
+			const before = fs.readFileSync(getConstraintsSnapshotPath(projectPath), 'utf-8');
+
+			expect(syncConstraintsSnapshot(projectPath, PROJECT)).toBe(false);
+			add('Another decision', 'Unrelated.');
+			expect(fs.readFileSync(getConstraintsSnapshotPath(projectPath), 'utf-8')).toBe(before);
+		});
+
+		it('seeds a fresh clone from the snapshot', () => {
+			const id = add('No ORMs', 'Write SQL by hand.', { kind: 'constraint' });
+			syncConstraintsSnapshot(projectPath, PROJECT, true);
+			fs.mkdirSync(path.join(otherPath, '.beads'), { recursive: true });
+			fs.copyFileSync(getConstraintsSnapshotPath(projectPath), getConstraintsSnapshotPath(otherPath));
+
+			expect(importConstraintsSnapshot(otherPath, PROJECT)).toMatchObject({ inserted: 1 });
+			expect(getMemoryEntry(otherPath, id)).toMatchObject({
+				kind: 'constraint',
+				title: 'No ORMs',
+				beadId: 'bd-1'
+			});
+		});
+	});
+});
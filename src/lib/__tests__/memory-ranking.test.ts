@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+	closeMemoryDb,
+	createMemoryEntry,
+	getMemoryEntry,
+	getMemoryFeedbackSummary,
+	getMemoryWriter,
+	MemoryDatabaseError,
+	recordMemoryFeedback,
+	softDeleteMemoryEntry
+} from '../memory/db';
+import {
+	getMemoryRankingPath,
+	loadMemoryRankingConfig,
+	saveMemoryRankingConfig,
+	validateMemoryRankingConfig
+} from '../memory/ranking';
+import { buildBeadMemoryBrief, buildMemoryBrief, rankMemories } from '../memory/retrieval';
+import type { CreateMemoryEntry } from '../memory/types';
+import { DEFAULT_RANKING_CONFIG } from '../memory/types';
+
+const PROJECT = 'proj-1';
+
+describe('memory ranking and feedback', () => {
+	let projectPath: string;
+
+	function add(title: string, extra: Partial<CreateMemoryEntry> = {}) {
+		return createMemoryEntry(projectPath, {
+			projectId: PROJECT,
+			beadId: 'bd-1',
+			kind: 'decision',
+			title,
+			content: `${title} content`,
+			...extra
+		});
+	}
+
+	function setCreatedAt(id: string, createdAt: string) {
+		getMemoryWriter(projectPath)
+			.prepare('UPDATE memory_entries SET created_at = ? WHERE id = ?')
+			.run(createdAt, id);
+	}
+
+	beforeEach(() => {
+		projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-ranking-'));
+	});
+
+	afterEach(() => {
+		closeMemoryDb(projectPath);
+		fs.rmSync(projectPath, { recursive: true, force: true });
+	});
+
+	describe('ranking settings', () => {
+		it('uses the defaults without a settings file', () => {
+			expect(loadMemoryRankingConfig(projectPath)).toBe(DEFAULT_RANKING_CONFIG);
+		});
+
+		it('scales custom weights to sum to 1 and keeps other defaults', () => {
+			const saved = saveMemoryRankingConfig(projectPath, { weights: { recency: 0.6, kindBoost: 0 } });
+
+			expect(saved.weights).toEqual({
+				baseRelevance: 0.4 / 1.2,
+				recency: 0.5,
+				scopeProximity: 0.2 / 1.2,
+				kindBoost: 0
+			});
+			expect(saved.recencyDecayDays).toBe(DEFAULT_RANKING_CONFIG.recencyDecayDays);
+			expect(loadMemoryRankingConfig(projectPath)).toEqual(saved);
+		});
+
+		it('rejects invalid settings and ignores an invalid file', () => {
+			expect(
+				validateMemoryRankingConfig({
+					weights: { recency: 2, freshness: 0.5 } as never,
+					recencyDecayDays: 0,
+					textMatchWeight: -1
+				})
+			).toEqual([
+				'weights.recency must be between 0 and 1',
+				'Unknown weight: freshness',
+				'recencyDecayDays must be between 1 and 3650',
+				'textMatchWeight must be between 0 and 1'
+			]);
+			expect(() =>
+				saveMemoryRankingConfig(projectPath, {
+					weights: { baseRelevance: 0, recency: 0, scopeProximity: 0, kindBoost: 0 }
+				})
+			).toThrow(/At least one weight/);
+
+			fs.mkdirSync(path.dirname(getMemoryRankingPath(projectPath)), { recursive: true });
+			fs.writeFileSync(getMemoryRankingPath(projectPath), '{"version":1,"recencyDecayDays":-5}');
+			expect(loadMemoryRankingConfig(projectPath)).toBe(DEFAULT_RANKING_CONFIG);
+		});
+
+		it('changes the order memories are ranked in', () => {
+			const old = getMemoryEntry(projectPath, add('Old but trusted', { kind: 'constraint' }))!;
+			const fresh = getMemoryEntry(projectPath, add('Fresh note', { kind: 'next_step' }))!;
+			setCreatedAt(old.id, new Date(Date.now() - 25 * 86_400_000).toISOString());
+			const aged = getMemoryEntry(projectPath, old.id)!;
+
+			const byDefault = rankMemories([aged, fresh], { beadId: 'bd-1' });
+			expect(byDefault.map((m) => m.title)).toEqual(['Fresh note', 'Old but trusted']);
+
+			const ranking = saveMemoryRankingConfig(projectPath, {
+				weights: { recency: 0, kindBoost: 1 },
+				recencyDecayDays: 365
+			});
+			const tuned = rankMemories([aged, fresh], { beadId: 'bd-1', ranking });
+			expect(tuned.map((m) => m.title)).toEqual(['Old but trusted', 'Fresh note']);
+		});
+	});
+
+	describe('recordMemoryFeedback', () => {
+		it('moves relevance_score by a step and logs each vote', () => {
+			const id = add('Use SQLite');
+			getMemoryWriter(projectPath)
+				.prepare('UPDATE memory_entries SET relevance_score = 0.5 WHERE id = ?')
+				.run(id);
+
+			expect(recordMemoryFeedback(projectPath, { projectId: PROJECT, entryId: id, useful: true })).toMatchObject(
+				{ entryId: id, useful: true, previousScore: 0.5, relevanceScore: 0.6 }
+			);
+			recordMemoryFeedback(projectPath, { projectId: PROJECT, entryId: id, useful: false, beadId: 'bd-1' });
+			recordMemoryFeedback(projectPath, { projectId: PROJECT, entryId: id, useful: false });
+
+			expect(getMemoryEntry(projectPath, id)?.relevanceScore).toBe(0.4);
+			expect(getMemoryFeedbackSummary(projectPath, [id, 'other'])).toEqual({
+				[id]: { useful: 1, notUseful: 2 }
+			});
+		});
+
+		it('keeps the score within 0 and 1', () => {
+			const id = add('Already top');
+			const result = recordMemoryFeedback(projectPath, { projectId: PROJECT, entryId: id, useful: true });
+			expect(result.relevanceScore).toBe(1);
+		});
+
+		it('rejects deleted entries and entries of other projects', () => {
+			const id = add('Gone');
+			expect(() =>
+				recordMemoryFeedback(projectPath, { projectId: 'proj-2', entryId: id, useful: true })
+			).toThrow(MemoryDatabaseError);
+
+			softDeleteMemoryEntry(projectPath, id);
+			expect(() =>
+				recordMemoryFeedback(projectPath, { projectId: PROJECT, entryId: id, useful: true })
+			).toThrow(/not found/);
+		});
+	});
+
+	describe('brief explanations', () => {
+		it('says why each candidate was included or left out', () => {
+			const constraint = add('No ORMs', { kind: 'constraint' });
+			const decision = add('Use SQLite');
+			const long = add('Long checkpoint', { kind: 'checkpoint', content: 'x'.repeat(2000) });
+
+			const brief = buildBeadMemoryBrief(projectPath, { projectId: PROJECT, beadId: 'bd-1', maxTokens: 200 });
+
+			expect(brief.entries?.map((e) => [e.id, e.reason, e.included])).toEqual([
+				[constraint, 'constraint', true],
+				[decision, 'ranked', true],
+				[long, 'over_budget', false]
+			]);
+			expect(brief.entries?.[1]).toMatchObject({ scope: 'bead', tokens: expect.any(Number) });
+			expect(brief.entries?.[1].scoreBreakdown).toMatchObject({ scopeProximity: 1 });
+			expect(brief.truncatedCount).toBe(1);
+		});
+
+		it('omits scores when the memories were not ranked', () => {
+			const entry = getMemoryEntry(projectPath, add('Use SQLite'))!;
+			const brief = buildMemoryBrief([entry]);
+
+			expect(brief.entries).toEqual([
+				{
+					id: entry.id,
+					title: 'Use SQLite',
+					kind: 'decision',
+					scope: 'bead',
+					included: true,
+					reason: 'ranked',
+					tokens: expect.any(Number)
+				}
+			]);
+		});
+	});
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+	closeMemoryDb,
+	createMemoryEntry,
+	getMemoryDbPath,
+	getMemoryWriter
+} from '../memory/db';
+import { buildFtsQuery, rankSearchHits, searchMemories } from '../memory/retrieval';
+import { cosineSimilarity, hashingEmbeddingProvider } from '../memory/embeddings';
+import {
+	HIGHLIGHT_END,
+	HIGHLIGHT_START,
+	buildSnippet,
+	splitHighlights
+} from '../memory/highlight';
+import type { CreateMemoryEntry } from '../memory/types';
+
+const PROJECT = 'proj-1';
+
+function mark(text: string): string {
+	return `${HIGHLIGHT_START}${text}${HIGHLIGHT_END}`;
+}
+
+describe('memory search', () => {
+	let projectPath: string;
+
+	function add(title: string, content: string, extra: Partial<CreateMemoryEntry> = {}) {
+		return createMemoryEntry(projectPath, {
+			projectId: PROJECT,
+			beadId: 'bd-1',
+			kind: 'decision',
+			title,
+			content,
+			...extra
+		});
+	}
+
+	function search(query: string, options: { mode?: 'fulltext' | 'semantic'; beadId?: string } = {}) {
+		return searchMemories(projectPath, { projectId: PROJECT, query, ...options });
+	}
+
+	beforeEach(() => {
+		projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-search-'));
+	});
+
+	afterEach(() => {
+		closeMemoryDb(projectPath);
+		fs.rmSync(projectPath, { recursive: true, force: true });
+	});
+
+	describe('buildFtsQuery', () => {
+		it('quotes terms and matches them as prefixes', () => {
+			expect(buildFtsQuery('auth token')).toBe('"auth"* "token"*');
+		});
+
+		it('supports phrases, OR and exclusions', () => {
+			expect(buildFtsQuery('"rate limit" OR throttle -redis')).toBe(
+				'("rate limit" OR "throttle"*) NOT "redis"*'
+			);
+			expect(buildFtsQuery('cache NOT memcached')).toBe('("cache"*) NOT "memcached"*');
+		});
+
+		it('neutralizes FTS syntax in the input', () => {
+			expect(buildFtsQuery('col:value "unterminated')).toBe('"col:value"* "unterminated"');
+			expect(buildFtsQuery('* - OR')).toBeNull();
+		});
+
+		it('adds corrections as alternatives', () => {
+			expect(buildFtsQuery('sqlte', () => ['sqlite'])).toBe('("sqlte"* OR "sqlite")');
+		});
+	});
+
+	describe('full-text', () => {
+		it('indexes new entries and ranks title matches first', () => {
+			add('Use SQLite for the cache', 'Keeps deployment simple.');
+			add('Deployment notes', 'The cache lives in SQLite and is rebuilt nightly.');
+			add('Unrelated', 'Nothing to see here.');
+
+			const hits = search('sqlite');
+			expect(hits.map((h) => h.title)).toEqual(['Use SQLite for the cache', 'Deployment notes']);
+			expect(hits[0].matchScore).toBe(1);
+			expect(hits[1].matchScore).toBeLessThan(1);
+			expect(hits[0].titleHighlight).toBe(`Use ${mark('SQLite')} for the cache`);
+			expect(hits[1].snippet).toContain(mark('SQLite'));
+		});
+
+		it('honours phrases and exclusions', () => {
+			add('Retry policy', 'Use exponential backoff with jitter.');
+			add('Backoff for webhooks', 'Exponential growth of the queue is a risk.');
+
+			expect(search('"exponential backoff"').map((h) => h.title)).toEqual(['Retry policy']);
+			expect(search('exponential -webhooks').map((h) => h.title)).toEqual(['Retry policy']);
+		});
+
+		it('corrects misspelled terms', () => {
+			add('Authentication flow', 'Tokens are refreshed by the middleware.');
+
+			expect(search('midleware').map((h) => h.title)).toEqual(['Authentication flow']);
+		});
+
+		it('keeps the index in sync with updates and deletes', () => {
+			const id = add('Old title', 'Original text');
+			const db = getMemoryWriter(projectPath);
+
+			db.prepare('UPDATE memory_entries SET title = ? WHERE id = ?').run('Renamed entry', id);
+			expect(search('original').map((h) => h.title)).toEqual(['Renamed entry']);
+			expect(search('old')).toEqual([]);
+
+			db.prepare('DELETE FROM memory_entries WHERE id = ?').run(id);
+			expect(search('renamed')).toEqual([]);
+		});
+
+		it('excludes soft-deleted entries and applies filters', () => {
+			const deletedId = add('Queue design', 'Use a queue.');
+			add('Queue limits', 'Cap the queue at 1000.', { beadId: 'bd-2' });
+			getMemoryWriter(projectPath)
+				.prepare('UPDATE memory_entries SET deleted_at = ? WHERE id = ?')
+				.run(new Date().toISOString(), deletedId);
+
+			expect(search('queue').map((h) => h.title)).toEqual(['Queue limits']);
+			expect(search('queue', { beadId: 'bd-1' })).toEqual([]);
+		});
+
+		it('backfills the index for databases created before it existed', () => {
+			const dbPath = getMemoryDbPath(projectPath);
+			fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+			const legacy = new Database(dbPath);
+			legacy.exec(`
+				CREATE TABLE memory_entries (
+					id TEXT PRIMARY KEY, project_id TEXT NOT NULL, bead_id TEXT, epic_id TEXT,
+					session_id TEXT, chat_id TEXT, agent_name TEXT, kind TEXT NOT NULL,
+					title TEXT NOT NULL, content TEXT NOT NULL, data TEXT, intent_anchors TEXT,
+					relevance_score REAL DEFAULT 1.0, expires_at TEXT, deleted_at TEXT,
+					created_at TEXT NOT NULL
+				);
+				INSERT INTO memory_entries (id, project_id, kind, title, content, created_at)
+				VALUES ('m1', '${PROJECT}', 'constraint', 'Legacy constraint', 'Never log secrets', '2026-01-01T00:00:00Z');
+			`);
+			legacy.close();
+
+			expect(search('secrets').map((h) => h.id)).toEqual(['m1']);
+		});
+	});
+
+	describe('semantic', () => {
+		it('matches related wording without shared whole words', () => {
+			add('Database migrations', 'Run migrations before deploying.');
+			add('Styling', 'Buttons use the brand colour.');
+
+			const hits = search('migrating the database', { mode: 'semantic' });
+			expect(hits[0].title).toBe('Database migrations');
+			expect(hits.every((h) => h.title !== 'Styling')).toBe(true);
+			expect(hits[0].titleHighlight).toBe(`${mark('Database')} migrations`);
+		});
+
+		it('caches entry vectors', () => {
+			add('Database migrations', 'Run migrations before deploying.');
+			search('database', { mode: 'semantic' });
+
+			const row = getMemoryWriter(projectPath)
+				.prepare('SELECT model, length(vector) AS bytes FROM memory_embeddings')
+				.get();
+			expect(row).toEqual({ model: 'local-hash-v1', bytes: hashingEmbeddingProvider.dimensions * 4 });
+		});
+
+		it('embeds similar text close together', () => {
+			const embed = (text: string) => hashingEmbeddingProvider.embed(text);
+			const base = embed('configure the webhook retries');
+			expect(cosineSimilarity(base, embed('webhook retry configuration'))).toBeGreaterThan(
+				cosineSimilarity(base, embed('update the logo colours'))
+			);
+		});
+	});
+
+	describe('ranking and highlighting', () => {
+		it('blends the text match into the relevance score', () => {
+			add('Caching', 'Cache responses for five minutes.');
+			add('Cache invalidation', 'Invalidate the cache on deploy.', { kind: 'next_step' });
+
+			const ranked = rankSearchHits(search('cache'), { beadId: 'bd-1' });
+			for (const hit of ranked) {
+				expect(hit.scoreBreakdown.textMatch).toBe(hit.matchScore);
+			}
+			expect(ranked[0].computedScore).toBeGreaterThanOrEqual(ranked[1].computedScore);
+		});
+
+		it('splits marked text into segments', () => {
+			expect(splitHighlights(`a ${mark('b')} c`)).toEqual([
+				{ text: 'a ', match: false },
+				{ text: 'b', match: true },
+				{ text: ' c', match: false }
+			]);
+		});
+
+		it('centres snippets on the first match', () => {
+			const words = Array.from({ length: 40 }, (_, i) => `w${i}`);
+			words[30] = 'target';
+			const snippet = buildSnippet(words.join(' '), ['target'], 10);
+			expect(snippet).toBe(`…w25 w26 w27 w28 w29 ${mark('target')} w31 w32 w33 w34…`);
+		});
+	});
+});
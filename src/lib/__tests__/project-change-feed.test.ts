@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+	closeProjectFeed,
+	createIssueSnapshot,
+	diffIssueSnapshots,
+	formatFeedEventId,
+	getProjectFeedStats,
+	parseFeedEventId,
+	subscribeToProjectFeed,
+	type IssueDelta
+} from '../project-change-feed';
+import { closeProjectDb } from '../project-db';
+import type { PollerConfig } from '../db-poller';
+import type { Issue } from '../types';
+
+const FAST_POLLER: PollerConfig = { minInterval: 20, maxInterval: 40, idleThreshold: 5, backoffMultiplier: 1.5 };
+
+function issue(id: string, title: string, updatedAt = '2026-01-01'): Issue {
+	return {
+		id,
+		title,
+		description: '',
+		status: 'open',
+		priority: 2,
+		issue_type: 'task',
+		assignee: null,
+		created_at: '2026-01-01',
+		created_by: 'test',
+		updated_at: updatedAt,
+		closed_at: null,
+		close_reason: ''
+	};
+}
+
+async function waitFor(check: () => boolean, timeoutMs = 3000): Promise<void> {
+	const start = Date.now();
+	while (!check()) {
+		if (Date.now() - start > timeoutMs) {
+			throw new Error('Timed out waiting for condition');
+		}
+		await new Promise((resolve) => setTimeout(resolve, 20));
+	}
+}
+
+describe('Project change feed', () => {
+	describe('diffIssueSnapshots', () => {
+		it('reports added, changed and removed issues', () => {
+			const previous = createIssueSnapshot([issue('bd-1', 'One'), issue('bd-2', 'Two'), issue('bd-3', 'Three')]);
+			const next = createIssueSnapshot([
+				issue('bd-1', 'One'),
+				issue('bd-2', 'Two (edited)', '2026-01-02'),
+				issue('bd-4', 'Four')
+			]);
+
+			const diff = diffIssueSnapshots(previous, next);
+			expect(diff.added.map((i) => i.id)).toEqual(['bd-4']);
+			expect(diff.changed.map((i) => i.title)).toEqual(['Two (edited)']);
+			expect(diff.removed).toEqual(['bd-3']);
+		});
+
+		it('reports nothing for identical snapshots', () => {
+			const issues = [issue('bd-1', 'One'), issue('bd-2', 'Two')];
+			const diff = diffIssueSnapshots(createIssueSnapshot(issues), createIssueSnapshot(issues.map((i) => ({ ...i }))));
+			expect(diff).toEqual({ added: [], changed: [], removed: [] });
+		});
+	});
+
+	describe('event ids', () => {
+		it('round-trips epoch and sequence number', () => {
+			expect(parseFeedEventId(formatFeedEventId('a1b2c3d4', 17))).toEqual({ epoch: 'a1b2c3d4', seq: 17 });
+		});
+
+		it('rejects malformed ids', () => {
+			expect(parseFeedEventId(null)).toBeNull();
+			expect(parseFeedEventId('')).toBeNull();
+			expect(parseFeedEventId('17')).toBeNull();
+			expect(parseFeedEventId('abc:x')).toBeNull();
+			expect(parseFeedEventId('abc:-1')).toBeNull();
+		});
+	});
+
+	describe('shared feed', () => {
+		let tmpDir: string;
+		let projectPath: string;
+		let writer: Database.Database;
+
+		beforeAll(() => {
+			tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'change-feed-'));
+			projectPath = path.join(tmpDir, 'project');
+			fs.mkdirSync(path.join(projectPath, '.beads'), { recursive: true });
+
+			writer = new Database(path.join(projectPath, '.beads', 'beads.db'));
+			// Read-only connections cannot switch the journal mode themselves
+			writer.pragma('journal_mode = WAL');
+			writer.exec(`
+				CREATE TABLE issues (
+					id TEXT PRIMARY KEY, title TEXT, description TEXT, status TEXT, priority INTEGER,
+					issue_type TEXT, assignee TEXT, created_at TEXT, created_by TEXT, updated_at TEXT,
+					closed_at TEXT, close_reason TEXT, deleted_at TEXT
+				);
+				CREATE TABLE dependencies (issue_id TEXT, depends_on_id TEXT, type TEXT);
+				CREATE TABLE events (
+					id INTEGER PRIMARY KEY, issue_id TEXT, event_type TEXT, actor TEXT,
+					old_value TEXT, new_value TEXT, comment TEXT, created_at TEXT
+				);
+			`);
+			const insert = writer.prepare(
+				`INSERT INTO issues (id, title, status, priority, issue_type, created_at, updated_at)
+				 VALUES (?, ?, 'open', 2, 'task', '2026-01-01', '2026-01-01')`
+			);
+			insert.run('bd-a', 'First');
+			insert.run('bd-b', 'Second');
+		});
+
+		afterEach(() => {
+			closeProjectFeed();
+		});
+
+		afterAll(() => {
+			writer.close();
+			closeProjectDb(projectPath);
+			fs.rmSync(tmpDir, { recursive: true, force: true });
+		});
+
+		it('starts with a snapshot and shares one poller between subscribers', async () => {
+			const first: IssueDelta[] = [];
+			const second: IssueDelta[] = [];
+			const a = subscribeToProjectFeed(projectPath, (delta) => first.push(delta), null, FAST_POLLER);
+			const b = subscribeToProjectFeed(projectPath, (delta) => second.push(delta), null, FAST_POLLER);
+
+			expect(a.resume.kind).toBe('snapshot');
+			if (a.resume.kind === 'snapshot') {
+				expect(a.resume.issues.map((i) => i.id).sort()).toEqual(['bd-a', 'bd-b']);
+			}
+			expect(b.epoch).toBe(a.epoch);
+			expect(getProjectFeedStats(projectPath)).toMatchObject({ subscribers: 2, polling: true });
+
+			writer.prepare(`UPDATE issues SET title = 'First (edited)', updated_at = '2026-01-02' WHERE id = 'bd-a'`).run();
+			writer.prepare(
+				`INSERT INTO issues (id, title, status, priority, issue_type, created_at, updated_at)
+				 VALUES ('bd-c', 'Third', 'open', 1, 'task', '2026-01-02', '2026-01-02')`
+			).run();
+			writer.prepare(`UPDATE issues SET deleted_at = '2026-01-02' WHERE id = 'bd-b'`).run();
+
+			await waitFor(() => first.length > 0 && first.flatMap((d) => d.removed).length > 0);
+			expect(second).toEqual(first);
+			expect(first.flatMap((d) => d.added.map((i) => i.id))).toEqual(['bd-c']);
+			expect(first.flatMap((d) => d.changed.map((i) => i.title))).toContain('First (edited)');
+			expect(first.flatMap((d) => d.removed)).toEqual(['bd-b']);
+			expect(first.map((d) => d.seq)).toEqual(first.map((_, index) => index + 1));
+
+			a.unsubscribe();
+			expect(getProjectFeedStats(projectPath)).toMatchObject({ subscribers: 1, polling: true });
+			b.unsubscribe();
+			expect(getProjectFeedStats(projectPath)).toMatchObject({ subscribers: 0, polling: false });
+		});
+
+		it('replays only missed deltas to a reconnecting client', async () => {
+			const received: IssueDelta[] = [];
+			const initial = subscribeToProjectFeed(projectPath, (delta) => received.push(delta), null, FAST_POLLER);
+			expect(initial.resume.kind).toBe('snapshot');
+			const startSeq = initial.resume.kind === 'snapshot' ? initial.resume.seq : -1;
+
+			writer.prepare(`UPDATE issues SET title = 'Seen' WHERE id = 'bd-a'`).run();
+			await waitFor(() => received.length > 0);
+			const lastSeen = formatFeedEventId(initial.epoch, received[received.length - 1].seq);
+			initial.unsubscribe();
+
+			// Changes while the client is away are picked up when it resubscribes
+			writer.prepare(`UPDATE issues SET title = 'Missed' WHERE id = 'bd-a'`).run();
+
+			const resumed = subscribeToProjectFeed(projectPath, () => {}, lastSeen, FAST_POLLER);
+			expect(resumed.epoch).toBe(initial.epoch);
+			expect(resumed.resume.kind).toBe('replay');
+			if (resumed.resume.kind === 'replay') {
+				expect(resumed.resume.deltas.map((d) => d.changed[0]?.title)).toEqual(['Missed']);
+				expect(resumed.resume.deltas[0].seq).toBeGreaterThan(startSeq);
+			}
+
+			const stale = subscribeToProjectFeed(projectPath, () => {}, formatFeedEventId('old-epoch', 1), FAST_POLLER);
+			expect(stale.resume.kind).toBe('snapshot');
+
+			const current = subscribeToProjectFeed(
+				projectPath,
+				() => {},
+				formatFeedEventId(initial.epoch, getProjectFeedStats(projectPath)!.seq),
+				FAST_POLLER
+			);
+			expect(current.resume).toEqual({ kind: 'replay', deltas: [] });
+		});
+	});
+});
@@ -0,0 +1,21 @@
+/**
+ * Test setup - runs in each test file before its modules are imported
+ *
+ * The dashboard database, logs and settings live under ~/.beads-dashboard,
+ * with paths computed from the home directory when their modules load. Point
+ * HOME at a throwaway directory so tests never touch the developer's data.
+ */
+
+import { afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const originalHome = process.env.HOME;
+const testHome = fs.mkdtempSync(path.join(os.tmpdir(), 'beads-test-home-'));
+process.env.HOME = testHome;
+
+afterAll(() => {
+	process.env.HOME = originalHome;
+	fs.rmSync(testHome, { recursive: true, force: true });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import {
+	calculateIssueStaleness,
+	getStaleRemediation,
+	getStaleRemediationByAction,
+	getStaleIssues,
+	resolveThreshold,
+	validateStalenessSettings,
+	type StalenessSettings
+} from '../stale-detection';
+
+function hoursAgo(hours: number): string {
+	return new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+}
+
+const SETTINGS: StalenessSettings = {
+	thresholds: {
+		in_progress: { warningHours: 4, criticalHours: 12 },
+		open: null
+	},
+	overrides: [
+		{ status: 'in_progress', priority: 0, warningHours: 2, criticalHours: 6 },
+		{ status: 'in_progress', issueType: 'bug', warningHours: 1, criticalHours: 3 },
+		{ status: 'in_progress', issueType: 'bug', priority: 0, warningHours: 0.5, criticalHours: 1 }
+	],
+	notificationsEnabled: true
+};
+
+describe('stale-detection', () => {
+	describe('resolveThreshold', () => {
+		it('uses the built-in thresholds without settings', () => {
+			expect(resolveThreshold({ status: 'in_progress' })).toEqual({
+				warningHours: 2,
+				criticalHours: 8
+			});
+			expect(resolveThreshold({ status: 'closed' })).toBeNull();
+		});
+
+		it('uses the project threshold for a status', () => {
+			expect(resolveThreshold({ status: 'in_progress', issue_type: 'task' }, SETTINGS)).toEqual({
+				warningHours: 4,
+				criticalHours: 12
+			});
+		});
+
+		it('lets a project disable a status', () => {
+			expect(resolveThreshold({ status: 'open' }, SETTINGS)).toBeNull();
+		});
+
+		it('falls back to the built-in threshold for statuses the project does not set', () => {
+			expect(resolveThreshold({ status: 'ready' }, SETTINGS)).toEqual({
+				warningHours: 48,
+				criticalHours: 168
+			});
+		});
+
+		it('prefers the most specific override', () => {
+			expect(
+				resolveThreshold({ status: 'in_progress', issue_type: 'task', priority: 0 }, SETTINGS)
+			).toEqual({ warningHours: 2, criticalHours: 6 });
+			expect(
+				resolveThreshold({ status: 'in_progress', issue_type: 'bug', priority: 2 }, SETTINGS)
+			).toEqual({ warningHours: 1, criticalHours: 3 });
+			expect(
+				resolveThreshold({ status: 'in_progress', issue_type: 'bug', priority: 0 }, SETTINGS)
+			).toEqual({ warningHours: 0.5, criticalHours: 1 });
+		});
+	});
+
+	describe('calculateIssueStaleness', () => {
+		it('applies overrides when computing the level', () => {
+			const updated_at = hoursAgo(3.5);
+
+			expect(
+				calculateIssueStaleness({ status: 'in_progress', issue_type: 'task', updated_at }, SETTINGS)
+					.level
+			).toBe('none');
+			expect(
+				calculateIssueStaleness({ status: 'in_progress', issue_type: 'bug', updated_at }, SETTINGS)
+					.level
+			).toBe('critical');
+			expect(calculateIssueStaleness({ status: 'in_progress', updated_at }).level).toBe('warning');
+		});
+
+		it('never flags a disabled status', () => {
+			const info = calculateIssueStaleness({ status: 'open', updated_at: hoursAgo(1000) }, SETTINGS);
+			expect(info.level).toBe('none');
+			expect(info.threshold).toBeNull();
+		});
+
+		it('filters stale issues with project settings', () => {
+			const stale = getStaleIssues(
+				[
+					{ id: 'a', status: 'in_progress', issue_type: 'bug', updated_at: hoursAgo(2) },
+					{ id: 'b', status: 'in_progress', issue_type: 'task', updated_at: hoursAgo(2) },
+					{ id: 'c', status: 'open', updated_at: hoursAgo(1000) }
+				],
+				SETTINGS
+			);
+			expect(stale.map((s) => s.id)).toEqual(['a']);
+		});
+	});
+
+	describe('remediations', () => {
+		it('offers returning a stale in_progress bead to ready', () => {
+			expect(getStaleRemediation('in_progress')).toMatchObject({
+				action: 'return_to_ready',
+				fromStatus: 'in_progress',
+				toStatus: 'ready'
+			});
+			expect(getStaleRemediation('open')).toBeNull();
+		});
+
+		it('looks up remediations by action', () => {
+			expect(getStaleRemediationByAction('return_to_ready')?.toStatus).toBe('ready');
+			expect(getStaleRemediationByAction('delete_everything')).toBeNull();
+		});
+	});
+
+	describe('validateStalenessSettings', () => {
+		it('accepts valid settings', () => {
+			const { settings, errors } = validateStalenessSettings({
+				thresholds: { in_progress: { warningHours: 4, criticalHours: 12 }, open: null },
+				overrides: [{ status: 'in_progress', issueType: 'bug', warningHours: 1, criticalHours: 3 }],
+				notificationsEnabled: false
+			});
+
+			expect(errors).toEqual([]);
+			expect(settings?.thresholds.open).toBeNull();
+			expect(settings?.overrides).toHaveLength(1);
+			expect(settings?.notificationsEnabled).toBe(false);
+		});
+
+		it('rejects critical below warning', () => {
+			const { settings, errors } = validateStalenessSettings({
+				thresholds: { in_progress: { warningHours: 8, criticalHours: 2 } }
+			});
+
+			expect(settings).toBeNull();
+			expect(errors[0]).toContain('criticalHours must be at least warningHours');
+		});
+
+		it('rejects overrides that match every issue', () => {
+			const { settings, errors } = validateStalenessSettings({
+				overrides: [{ status: 'in_progress', warningHours: 1, criticalHours: 2 }]
+			});
+
+			expect(settings).toBeNull();
+			expect(errors[0]).toContain('issueType and/or priority');
+		});
+
+		it('rejects non-object input', () => {
+			expect(validateStalenessSettings('nope').settings).toBeNull();
+		});
+	});
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { extractFileSymbols } from '../symbol-index/extractor';
+import { updateSymbolIndex, stopSymbolIndexWatcher, getSymbolIndexStatus } from '../symbol-index/indexer';
+import {
+	closeSymbolIndex,
+	findSymbols,
+	getFileImports,
+	getIncomingEdges,
+	getOutgoingEdges
+} from '../symbol-index/db';
+import { createContextPackGenerator } from '../context-pack-generator';
+
+const FILES: Record<string, string> = {
+	'src/lib/db.ts': `
+/** Row storage */
+export class Store {
+	get(id: string) {
+		return this.load(id);
+	}
+
+	private load(id: string) {
+		return { id };
+	}
+}
+
+export function openDb(): Store {
+	return new Store();
+}
+`,
+	'src/lib/service.ts': `
+import { openDb } from './db';
+
+export function getUser(id: string) {
+	return openDb().get(id);
+}
+`,
+	'src/lib/index.ts': `export { getUser } from './service';\n`,
+	'src/routes/users/+server.ts': `
+import { getUser } from '$lib';
+
+export async function GET() {
+	return getUser('1');
+}
+`,
+	'src/components/Avatar.svelte': `<script lang="ts">\n\tlet { size = 16 } = $props();\n</script>\n<img width={size} alt="" />\n`,
+	'src/components/UserCard.svelte': `<script lang="ts">
+	import Avatar from './Avatar.svelte';
+	import { getUser } from '../lib/service';
+
+	const user = getUser('me');
+</script>
+
+<div>
+	<Avatar size={32} />
+	{user.id}
+</div>
+`,
+	'src/lib/service.test.ts': `import { getUser } from './service';\ngetUser('t');\n`
+};
+
+describe('symbol index', () => {
+	let projectPath: string;
+
+	function write(filePath: string, content: string) {
+		fs.mkdirSync(path.dirname(path.join(projectPath, filePath)), { recursive: true });
+		fs.writeFileSync(path.join(projectPath, filePath), content);
+	}
+
+	function symbol(name: string) {
+		const [found] = findSymbols(projectPath, name, { exact: true });
+		expect(found).toBeDefined();
+		return found;
+	}
+
+	beforeEach(() => {
+		projectPath = fs.mkdtempSync(path.join(os.tmpdir(), 'symbol-index-'));
+		for (const [filePath, content] of Object.entries(FILES)) {
+			write(filePath, content);
+		}
+	});
+
+	afterEach(() => {
+		stopSymbolIndexWatcher();
+		closeSymbolIndex();
+		fs.rmSync(projectPath, { recursive: true, force: true });
+	});
+
+	it('extracts declarations, imports and resolved references', () => {
+		const extracted = extractFileSymbols('src/lib/db.ts', FILES['src/lib/db.ts']);
+
+		expect(extracted.symbols.map((s) => [s.qualifiedName, s.kind, s.exported])).toEqual([
+			['Store', 'class', true],
+			['Store.get', 'method', false],
+			['Store.load', 'method', false],
+			['openDb', 'function', true]
+		]);
+		expect(extracted.symbols[0].documentation).toBe('Row storage');
+		expect(extracted.references).toEqual([
+			{ fromName: 'Store.get', targetPath: 'src/lib/db.ts', targetName: 'Store.load', kind: 'call', line: 5 },
+			{ fromName: 'openDb', targetPath: 'src/lib/db.ts', targetName: 'Store', kind: 'new', line: 14 }
+		]);
+
+		const card = extractFileSymbols('src/components/UserCard.svelte', FILES['src/components/UserCard.svelte'], (s) =>
+			s === './Avatar.svelte' ? 'src/components/Avatar.svelte' : undefined
+		);
+		expect(card.symbols[0]).toMatchObject({ name: 'UserCard', kind: 'component', isDefault: true });
+		expect(card.references).toContainEqual(
+			expect.objectContaining({ fromName: 'UserCard', targetPath: 'src/components/Avatar.svelte', targetName: 'default', kind: 'render' })
+		);
+	});
+
+	it('indexes a project and follows calls across files, aliases and re-exports', () => {
+		const result = updateSymbolIndex(projectPath);
+		expect(result).toMatchObject({ indexed: 7, removed: 0, errors: [] });
+
+		expect(getFileImports(projectPath, 'src/routes/users/+server.ts')).toEqual([
+			expect.objectContaining({ specifier: '$lib', resolvedPath: 'src/lib/index.ts', importedName: 'getUser' })
+		]);
+		expect(symbol('GET').kind).toBe('route');
+
+		const callees = getOutgoingEdges(projectPath, symbol('getUser')).map((e) => e.to.qualifiedName);
+		expect(callees).toEqual(['openDb']);
+
+		const callers = getIncomingEdges(projectPath, symbol('getUser')).map((e) => e.from?.qualifiedName);
+		expect(callers.sort()).toEqual(['GET', 'UserCard', undefined]);
+
+		const renderers = getIncomingEdges(projectPath, symbol('Avatar'));
+		expect(renderers.map((e) => [e.from?.name, e.kind])).toEqual([['UserCard', 'render']]);
+
+		expect(getSymbolIndexStatus(projectPath)).toMatchObject({ exists: true, fileCount: 7, watching: false });
+	});
+
+	it('re-indexes only changed files and drops deleted ones', () => {
+		updateSymbolIndex(projectPath);
+		expect(updateSymbolIndex(projectPath)).toMatchObject({ indexed: 0, removed: 0, unchanged: 7 });
+
+		write('src/lib/service.ts', `export function getUser(id: string) {\n\treturn { id };\n}\n\nexport function listUsers() {\n\treturn [getUser('a')];\n}\n`);
+		fs.rmSync(path.join(projectPath, 'src/lib/service.test.ts'));
+
+		expect(updateSymbolIndex(projectPath)).toMatchObject({ indexed: 1, removed: 1, unchanged: 5 });
+		expect(getOutgoingEdges(projectPath, symbol('getUser'))).toEqual([]);
+		expect(getOutgoingEdges(projectPath, symbol('listUsers')).map((e) => e.to.name)).toEqual(['getUser']);
+	});
+
+	it('backs context packs when CodeGraph is unavailable', async () => {
+		const generator = await createContextPackGenerator(projectPath, 'proj-1');
+		const pack = await generator.generate({ name: 'Users', entryPoint: 'getUser', entryPointType: 'symbol' });
+
+		expect(pack.generationMethod).toBe('index');
+		const names = pack.symbols.map((s) => s.name);
+		expect(names[0]).toBe('getUser');
+		expect(names).toEqual(expect.arrayContaining(['openDb', 'GET', 'UserCard', 'Store']));
+		expect(pack.symbols.every((s) => !s.filePath.endsWith('.test.ts'))).toBe(true);
+		expect(pack.dependencies).toContainEqual({
+			from: 'GET',
+			to: 'getUser',
+			type: 'calls',
+			fromFile: 'src/routes/users/+server.ts',
+			toFile: 'src/lib/service.ts'
+		});
+		expect(pack.files.map((f) => f.path)).toContain('src/lib/db.ts');
+		expect(getSymbolIndexStatus(projectPath).watching).toBe(true);
+	});
+});
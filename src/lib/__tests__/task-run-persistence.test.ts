@@ -0,0 +1,262 @@
+/**
+ * Tests for task run persistence and restart recovery
+ *
+ * The dashboard database lives in the throwaway home set up by setup.ts.
+ * A restart is simulated by resetting the module registry, so the store and
+ * runner start again with empty in-memory state on the same database.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ExecutionBackend, ExecutionSessionOptions } from '../execution-backends';
+import type { TaskRun } from '../types';
+
+async function loadModules() {
+	return {
+		dashboardDb: await import('../dashboard-db'),
+		projectDb: await import('../project-db'),
+		store: (await import('../task-runner-store')).taskRunnerStore,
+		manager: await import('../task-runner-manager'),
+		backends: await import('../execution-backends')
+	};
+}
+
+type Modules = Awaited<ReturnType<typeof loadModules>>;
+
+function createBeadsDb(projectPath: string): void {
+	fs.mkdirSync(path.join(projectPath, '.beads'), { recursive: true });
+	const beads = new Database(path.join(projectPath, '.beads', 'beads.db'));
+	// Read-only connections cannot switch the journal mode themselves
+	beads.pragma('journal_mode = WAL');
+	beads.exec(`
+		CREATE TABLE issues (
+			id TEXT PRIMARY KEY, title TEXT, description TEXT, status TEXT, priority INTEGER,
+			issue_type TEXT, assignee TEXT, created_at TEXT, created_by TEXT, updated_at TEXT,
+			closed_at TEXT, close_reason TEXT, deleted_at TEXT, branch_name TEXT, agent_id TEXT,
+			commit_hash TEXT, execution_log TEXT, pr_url TEXT, pr_status TEXT, ci_status TEXT
+		);
+		CREATE TABLE dependencies (issue_id TEXT, depends_on_id TEXT, type TEXT);
+		CREATE TABLE comments (id INTEGER PRIMARY KEY, issue_id TEXT, author TEXT, text TEXT, created_at TEXT);
+		CREATE TABLE events (
+			id INTEGER PRIMARY KEY, issue_id TEXT, event_type TEXT, actor TEXT,
+			old_value TEXT, new_value TEXT, comment TEXT, created_at TEXT
+		);
+		CREATE TABLE labels (issue_id TEXT, label TEXT);
+	`);
+	const insert = beads.prepare(
+		`INSERT INTO issues (id, title, status, priority, issue_type, created_at, updated_at)
+		 VALUES (?, ?, 'open', 2, ?, ?, ?)`
+	);
+	insert.run('bd-epic', 'Epic', 'epic', '2026-01-01', '2026-01-01');
+	insert.run('bd-a', 'First', 'task', '2026-01-02', '2026-01-02');
+	insert.run('bd-b', 'Second', 'task', '2026-01-03', '2026-01-03');
+	insert.run('bd-solo', 'Solo', 'task', '2026-01-04', '2026-01-04');
+	const dep = beads.prepare('INSERT INTO dependencies (issue_id, depends_on_id, type) VALUES (?, ?, ?)');
+	dep.run('bd-a', 'bd-epic', 'parent-child');
+	dep.run('bd-b', 'bd-epic', 'parent-child');
+	dep.run('bd-b', 'bd-a', 'blocks');
+	beads.close();
+}
+
+describe('task run persistence', () => {
+	let tmpDir: string;
+	let projectPath: string;
+	let projectId: string;
+	let mods: Modules;
+
+	// Reports a CLI-style session ID, then finishes every bead except those in hangOn
+	const hangOn = new Set<string>();
+	const created: ExecutionSessionOptions[] = [];
+	const sent: string[] = [];
+	const fakeBackend: ExecutionBackend = {
+		id: 'fake',
+		label: 'Fake',
+		createSession(options) {
+			created.push(options);
+			return {
+				id: `fake-${created.length}`,
+				backendId: 'fake',
+				send(message, context) {
+					sent.push(context?.issueId ?? '');
+					setTimeout(() => {
+						options.onData({ type: 'session', sessionId: options.resumeSessionId ?? 'cli-session-1' });
+						if (context?.issueId && hangOn.has(context.issueId)) return;
+						options.onData({ type: 'text', content: `TASK_COMPLETED: finished ${context?.issueId}` });
+						options.onData({ type: 'done' });
+					}, 0);
+				},
+				cancel() {},
+				close() {}
+			};
+		}
+	};
+
+	async function restart(): Promise<void> {
+		mods.manager.cleanup();
+		mods.backends.unregisterExecutionBackend('fake');
+		vi.resetModules();
+		mods = await loadModules();
+		mods.backends.registerExecutionBackend(fakeBackend);
+	}
+
+	function waitFor(check: () => boolean, timeoutMs = 8000): Promise<void> {
+		const deadline = Date.now() + timeoutMs;
+		return new Promise((resolve, reject) => {
+			const poll = () => {
+				if (check()) return resolve();
+				if (Date.now() > deadline) return reject(new Error('timed out'));
+				setTimeout(poll, 20);
+			};
+			poll();
+		});
+	}
+
+	function finished(runId: string): () => boolean {
+		return () => {
+			const status = mods.store.get(runId)?.status;
+			return status !== undefined && status !== 'running' && status !== 'queued';
+		};
+	}
+
+	beforeAll(async () => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-run-persistence-'));
+		projectPath = path.join(tmpDir, 'project');
+		createBeadsDb(projectPath);
+
+		const agentsDir = path.join(projectPath, '.claude', 'agents');
+		fs.mkdirSync(agentsDir, { recursive: true });
+		fs.writeFileSync(path.join(agentsDir, 'fake.md'), '---\nname: Fake\nbackend: fake\n---\nYou are a test agent.\n');
+
+		mods = await loadModules();
+		mods.backends.registerExecutionBackend(fakeBackend);
+		projectId = mods.dashboardDb.addProject(projectPath, 'Test').id;
+	});
+
+	afterAll(() => {
+		mods.manager.cleanup();
+		mods.backends.unregisterExecutionBackend('fake');
+		mods.projectDb.closeProjectDb(projectPath);
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	it('writes runs and events through to the database', () => {
+		const run = mods.store.create({
+			projectId,
+			issueId: 'bd-write',
+			issueTitle: 'Write-through',
+			issueType: 'task',
+			mode: 'autonomous'
+		});
+		mods.store.updateStatus(run.id, 'running');
+		mods.store.addEvent(run.id, { type: 'output', content: 'hello' });
+		mods.store.setClaudeSession(run.id, 'cli-write');
+
+		const persisted = mods.dashboardDb.getPersistedTaskRun(run.id);
+		expect(persisted).toMatchObject({ status: 'running', claudeSessionId: 'cli-write', issueId: 'bd-write' });
+		expect(persisted?.events.map((e) => [e.type, e.content])).toEqual([
+			['status_change', 'Status changed to running'],
+			['output', 'hello']
+		]);
+
+		mods.store.updateStatus(run.id, 'completed');
+		expect(mods.dashboardDb.getPersistedTaskRun(run.id)?.completedAt).toBeInstanceOf(Date);
+	});
+
+	it('evicts runs from memory only, and deletes them everywhere', () => {
+		const create = (issueId: string) =>
+			mods.store.create({ projectId, issueId, issueTitle: issueId, issueType: 'task', mode: 'autonomous' });
+
+		const evicted = create('bd-evict');
+		mods.store.updateStatus(evicted.id, 'completed');
+		expect(mods.store.evict(evicted.id)).toBe(true);
+		expect(mods.store.get(evicted.id)).toBeUndefined();
+		expect(mods.dashboardDb.getPersistedTaskRun(evicted.id)).not.toBeNull();
+		expect(mods.store.getHistory(projectId).some((r) => r.id === evicted.id)).toBe(true);
+
+		const deleted = create('bd-delete');
+		mods.store.addEvent(deleted.id, { type: 'output', content: 'bye' });
+		expect(mods.store.delete(deleted.id)).toBe(true);
+		expect(mods.dashboardDb.getPersistedTaskRun(deleted.id)).toBeNull();
+		expect(mods.dashboardDb.getPersistedTaskRunEvents(deleted.id)).toEqual([]);
+	});
+
+	describe('restart recovery', () => {
+		let epicRunId: string;
+		let soloRunId: string;
+		let doneRunId: string;
+
+		beforeAll(async () => {
+			hangOn.add('bd-b').add('bd-solo');
+
+			// Finished before the restart - stays out of recovery
+			const done = mods.store.create({
+				projectId,
+				issueId: 'bd-done',
+				issueTitle: 'Done',
+				issueType: 'task',
+				mode: 'autonomous'
+			});
+			mods.store.updateStatus(done.id, 'completed');
+			doneRunId = done.id;
+
+			// The epic finishes bd-a, then is cut off while working on bd-b
+			const epic = mods.manager.startTaskRun(projectId, 'bd-epic', 'autonomous', 'fake.md')!;
+			epicRunId = epic.id;
+			await waitFor(() => sent.includes('bd-b'));
+
+			const solo = mods.manager.startTaskRun(projectId, 'bd-solo', 'autonomous', 'fake.md')!;
+			soloRunId = solo.id;
+			await waitFor(() => mods.store.get(soloRunId)?.claudeSessionId === 'cli-session-1');
+
+			await restart();
+			hangOn.clear();
+		});
+
+		it('marks in-flight runs as paused and interrupted', () => {
+			expect(mods.store.get(epicRunId)).toBeUndefined();
+			expect(mods.manager.recoverInterruptedRuns()).toBe(2);
+
+			for (const runId of [epicRunId, soloRunId]) {
+				expect(mods.store.get(runId)).toMatchObject({ status: 'paused', interrupted: true });
+				expect(mods.dashboardDb.getPersistedTaskRun(runId)).toMatchObject({ status: 'paused', interrupted: true });
+			}
+			expect(mods.store.get(doneRunId)).toBeUndefined();
+		});
+
+		it('keeps epic progress and the reported session ID', () => {
+			const run = mods.store.get(epicRunId)!;
+			expect(run.epicSequence).toMatchObject({ taskIds: ['bd-a', 'bd-b'], currentIndex: 1, completedTaskIds: ['bd-a'] });
+			expect(run.claudeSessionId).toBe('cli-session-1');
+			expect(run.events.some((e) => e.content?.includes('Interrupted by dashboard restart'))).toBe(true);
+		});
+
+		it('resumes the stored session and finishes the epic', async () => {
+			created.length = 0;
+			expect(mods.manager.resumeRun(epicRunId)).toBe(true);
+			expect(created[0].resumeSessionId).toBe('cli-session-1');
+
+			await waitFor(finished(epicRunId));
+			const run: TaskRun = mods.store.get(epicRunId)!;
+			expect(run.status).toBe('completed');
+			expect(run.interrupted).toBe(false);
+			expect(run.epicSequence?.completedTaskIds).toEqual(['bd-a', 'bd-b']);
+			expect(mods.dashboardDb.getPersistedTaskRun(epicRunId)?.status).toBe('completed');
+		});
+
+		it('abandons a recovered run', () => {
+			expect(mods.manager.abandonRun(soloRunId)).toBe(true);
+			expect(mods.store.get(soloRunId)).toMatchObject({ status: 'cancelled', interrupted: false });
+			expect(mods.dashboardDb.getPersistedTaskRun(soloRunId)).toMatchObject({
+				status: 'cancelled',
+				interrupted: false,
+				completionReason: 'Abandoned by user'
+			});
+
+			// Only paused runs can be abandoned
+			expect(mods.manager.abandonRun(soloRunId)).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,221 @@
+/**
+ * Tests for the task runner's bead branches and worktrees
+ *
+ * Runs use a fake backend in a real git repository, so the branches,
+ * worktrees and the user's own checkout can be inspected afterwards.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { spawnSync } from 'child_process';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { ExecutionBackend, ExecutionSessionOptions } from '../execution-backends';
+import type { TaskRun } from '../types';
+
+const GIT_ENV = {
+	...process.env,
+	GIT_AUTHOR_NAME: 'Test',
+	GIT_AUTHOR_EMAIL: 'test@example.com',
+	GIT_COMMITTER_NAME: 'Test',
+	GIT_COMMITTER_EMAIL: 'test@example.com'
+};
+
+function git(cwd: string, ...args: string[]): string {
+	const result = spawnSync('git', args, { cwd, encoding: 'utf-8', env: GIT_ENV });
+	if (result.status !== 0) {
+		throw new Error(`git ${args.join(' ')} failed: ${result.stderr}`);
+	}
+	return result.stdout.trim();
+}
+
+function createBeadsDb(projectPath: string): void {
+	fs.mkdirSync(path.join(projectPath, '.beads'), { recursive: true });
+	const beads = new Database(path.join(projectPath, '.beads', 'beads.db'));
+	// Read-only connections cannot switch the journal mode themselves
+	beads.pragma('journal_mode = WAL');
+	beads.exec(`
+		CREATE TABLE issues (
+			id TEXT PRIMARY KEY, title TEXT, description TEXT, status TEXT, priority INTEGER,
+			issue_type TEXT, assignee TEXT, created_at TEXT, created_by TEXT, updated_at TEXT,
+			closed_at TEXT, close_reason TEXT, deleted_at TEXT, branch_name TEXT, agent_id TEXT,
+			commit_hash TEXT, execution_log TEXT, pr_url TEXT, pr_status TEXT, ci_status TEXT
+		);
+		CREATE TABLE dependencies (issue_id TEXT, depends_on_id TEXT, type TEXT);
+		CREATE TABLE comments (id INTEGER PRIMARY KEY, issue_id TEXT, author TEXT, text TEXT, created_at TEXT);
+		CREATE TABLE events (
+			id INTEGER PRIMARY KEY, issue_id TEXT, event_type TEXT, actor TEXT,
+			old_value TEXT, new_value TEXT, comment TEXT, created_at TEXT
+		);
+		CREATE TABLE labels (issue_id TEXT, label TEXT);
+	`);
+	const insert = beads.prepare(
+		`INSERT INTO issues (id, title, status, priority, issue_type, created_at, updated_at)
+		 VALUES (?, ?, 'open', 2, ?, ?, ?)`
+	);
+	insert.run('bd-epic', 'Epic', 'epic', '2026-01-01', '2026-01-01');
+	insert.run('bd-a', 'First', 'task', '2026-01-02', '2026-01-02');
+	insert.run('bd-b', 'Second', 'task', '2026-01-03', '2026-01-03');
+	insert.run('bd-solo', 'Solo', 'task', '2026-01-04', '2026-01-04');
+	insert.run('bd-par', 'Parallel epic', 'epic', '2026-01-05', '2026-01-05');
+	insert.run('bd-c', 'Third', 'task', '2026-01-06', '2026-01-06');
+	insert.run('bd-d', 'Fourth', 'task', '2026-01-07', '2026-01-07');
+	const dep = beads.prepare('INSERT INTO dependencies (issue_id, depends_on_id, type) VALUES (?, ?, ?)');
+	dep.run('bd-a', 'bd-epic', 'parent-child');
+	dep.run('bd-b', 'bd-epic', 'parent-child');
+	dep.run('bd-b', 'bd-a', 'blocks');
+	dep.run('bd-c', 'bd-par', 'parent-child');
+	dep.run('bd-d', 'bd-par', 'parent-child');
+	dep.run('bd-d', 'bd-c', 'blocks');
+	beads.close();
+}
+
+describe('task runner git workflow', () => {
+	let tmpDir: string;
+	let projectPath: string;
+	let projectId: string;
+	let manager: typeof import('../task-runner-manager');
+	let store: typeof import('../task-runner-store')['taskRunnerStore'];
+	let projectDb: typeof import('../project-db');
+
+	// Finishes every bead, noting where the agent worked; closeOnDone exits like the CLI does
+	let closeOnDone = false;
+	const sessions: { options: ExecutionSessionOptions; closed: boolean; branch?: string }[] = [];
+	const fakeBackend: ExecutionBackend = {
+		id: 'fake',
+		label: 'Fake',
+		createSession(options) {
+			const record: (typeof sessions)[number] = { options, closed: false };
+			sessions.push(record);
+			return {
+				id: `fake-${sessions.length}`,
+				backendId: 'fake',
+				send(message, context) {
+					record.branch = git(options.projectPath, 'branch', '--show-current');
+					setTimeout(() => {
+						options.onData({ type: 'text', content: `TASK_COMPLETED: finished ${context?.issueId}` });
+						options.onData({ type: 'done' });
+						if (closeOnDone) options.onClose(0);
+					}, 0);
+				},
+				cancel() {},
+				close() {
+					record.closed = true;
+				}
+			};
+		}
+	};
+
+	function waitForRun(runId: string, timeoutMs = 8000): Promise<TaskRun> {
+		const deadline = Date.now() + timeoutMs;
+		return new Promise((resolve, reject) => {
+			const check = () => {
+				const run = store.get(runId);
+				if (run && run.status !== 'running' && run.status !== 'queued') return resolve(run);
+				if (Date.now() > deadline) return reject(new Error(`run still ${run?.status}`));
+				setTimeout(check, 50);
+			};
+			check();
+		});
+	}
+
+	function worktreeOf(taskId: string): string {
+		return path.join(os.homedir(), '.beads-dashboard', 'worktrees', projectId, taskId);
+	}
+
+	function branchOf(issueId: string): string | undefined {
+		projectDb.refreshProjectDb(projectPath);
+		return projectDb.getIssueWithLifecycle(projectPath, issueId)?.branch_name;
+	}
+
+	beforeAll(async () => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-runner-git-'));
+		projectPath = path.join(tmpDir, 'project');
+		fs.mkdirSync(projectPath);
+		git(projectPath, 'init', '-q', '-b', 'main');
+		fs.writeFileSync(path.join(projectPath, '.gitignore'), '.beads/\n.claude/\n');
+		fs.writeFileSync(path.join(projectPath, 'app.txt'), 'v1');
+		git(projectPath, 'add', '-A');
+		git(projectPath, 'commit', '-q', '-m', 'First');
+
+		createBeadsDb(projectPath);
+		const agentsDir = path.join(projectPath, '.claude', 'agents');
+		fs.mkdirSync(agentsDir, { recursive: true });
+		fs.writeFileSync(path.join(agentsDir, 'fake.md'), '---\nname: Fake\nbackend: fake\n---\nYou are a test agent.\n');
+
+		projectId = (await import('../dashboard-db')).addProject(projectPath, 'Test').id;
+		manager = await import('../task-runner-manager');
+		store = (await import('../task-runner-store')).taskRunnerStore;
+		projectDb = await import('../project-db');
+		(await import('../execution-backends')).registerExecutionBackend(fakeBackend);
+	});
+
+	afterAll(async () => {
+		manager?.cleanup();
+		(await import('../execution-backends')).unregisterExecutionBackend('fake');
+		projectDb?.closeProjectDb(projectPath);
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	beforeEach(() => {
+		sessions.length = 0;
+		closeOnDone = false;
+	});
+
+	it('runs a bead in its own worktree and leaves the checkout alone', async () => {
+		// Uncommitted work in the user's checkout
+		fs.writeFileSync(path.join(projectPath, 'app.txt'), 'edited');
+		closeOnDone = true;
+
+		const run = manager.startTaskRun(projectId, 'bd-solo', 'autonomous', 'fake.md')!;
+		expect((await waitForRun(run.id)).status).toBe('completed');
+
+		expect(sessions).toHaveLength(1);
+		expect(sessions[0].options.projectPath).toBe(worktreeOf('bd-solo'));
+		expect(sessions[0].branch).toBe('feat/bd-solo-solo');
+		expect(branchOf('bd-solo')).toBe('feat/bd-solo-solo');
+
+		expect(git(projectPath, 'branch', '--show-current')).toBe('main');
+		expect(fs.readFileSync(path.join(projectPath, 'app.txt'), 'utf-8')).toBe('edited');
+
+		// The finished run drops its clean worktree; the branch stays for review
+		expect(fs.existsSync(worktreeOf('bd-solo'))).toBe(false);
+		expect(git(projectPath, 'rev-parse', 'feat/bd-solo-solo')).toBe(git(projectPath, 'rev-parse', 'main'));
+	});
+
+	it('gives each bead of an epic its own worktree off the same base', async () => {
+		const run = manager.startTaskRun(projectId, 'bd-epic', 'autonomous', 'fake.md')!;
+		expect((await waitForRun(run.id)).status).toBe('completed');
+
+		expect(sessions.map((s) => [s.options.projectPath, s.branch])).toEqual([
+			[worktreeOf('bd-a'), 'feat/bd-a-first'],
+			[worktreeOf('bd-b'), 'feat/bd-b-second']
+		]);
+		// The first bead's session and worktree are closed when the next bead starts
+		expect(sessions[0].closed).toBe(true);
+		expect(fs.existsSync(worktreeOf('bd-a'))).toBe(false);
+
+		expect(git(projectPath, 'branch', '--show-current')).toBe('main');
+		expect(git(projectPath, 'rev-parse', 'feat/bd-b-second')).toBe(git(projectPath, 'rev-parse', 'main'));
+	});
+
+	it('claims parallel lanes onto the same branches as sequential runs', async () => {
+		// Lanes merge back into the checkout, which has to be clean for that
+		git(projectPath, 'checkout', '--', 'app.txt');
+
+		const run = manager.startTaskRun(projectId, 'bd-par', 'autonomous', 'fake.md', { parallel: true })!;
+		const finished = await waitForRun(run.id);
+		expect(finished.status).toBe('completed');
+
+		expect(finished.epicSequence?.parallel?.lanes.map((l) => [l.taskId, l.branchName, l.mergeStatus])).toEqual([
+			['bd-c', 'feat/bd-c-third', 'merged'],
+			['bd-d', 'feat/bd-d-fourth', 'merged']
+		]);
+		expect(sessions.map((s) => [s.options.projectPath, s.branch])).toEqual([
+			[worktreeOf('bd-c'), 'feat/bd-c-third'],
+			[worktreeOf('bd-d'), 'feat/bd-d-fourth']
+		]);
+		expect([branchOf('bd-c'), branchOf('bd-d')]).toEqual(['feat/bd-c-third', 'feat/bd-d-fourth']);
+	});
+});
@@ -0,0 +1,590 @@
+/**
+ * Quick Action Runner
+ *
+ * Runs Quick Actions for a project without a shell:
+ * - Commands are split into words with POSIX-style quoting; shell operators are rejected
+ * - Only commands on the project's allowlist (profile actions, custom actions and
+ *   detected scripts) can run
+ * - Runs stream stdout/stderr to subscribers, time out, and can be cancelled
+ * - Every run and dry-run preview is recorded with persistActionReport()
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import { constants } from 'os';
+import {
+	getProfile,
+	detectAllProfilesFromPath,
+	detectAllScripts,
+	scriptsToQuickActions,
+	type QuickAction
+} from './profiles';
+import { getProjectProfileSettings } from './dashboard-db';
+import { persistActionReport, buildActionRecord, buildDryRunPreview } from './memory/actions';
+
+// Default and maximum run time before the process is killed
+export const DEFAULT_ACTION_TIMEOUT_MS = 5 * 60 * 1000;
+export const MAX_ACTION_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Grace period between SIGTERM and SIGKILL
+const KILL_GRACE_MS = 5000;
+
+// Output kept per stream for replay and the action report
+const MAX_OUTPUT_BYTES = 256 * 1024;
+
+// Finished runs stay available for late stream subscribers
+const FINISHED_RUN_TTL_MS = 10 * 60 * 1000;
+
+export type ActionRunStatus = 'running' | 'completed' | 'failed' | 'cancelled' | 'timed_out';
+
+export interface ParsedCommand {
+	/** Leading NAME=value assignments */
+	env: Record<string, string>;
+	/** Program followed by its arguments */
+	argv: string[];
+}
+
+export interface ActionRun {
+	id: string;
+	projectId: string;
+	action: QuickAction;
+	resolvedCommand: string;
+	workingDirectory: string;
+	status: ActionRunStatus;
+	startedAt: Date;
+	completedAt?: Date;
+	exitCode?: number;
+	stdout: string;
+	stderr: string;
+	reportId?: string;
+}
+
+export type ActionRunEvent =
+	| { type: 'output'; stream: 'stdout' | 'stderr'; data: string }
+	| {
+			type: 'exit';
+			status: ActionRunStatus;
+			exitCode: number;
+			durationMs: number;
+			reportId?: string;
+	  };
+
+type ActionRunListener = (event: ActionRunEvent) => void;
+
+interface RunState {
+	run: ActionRun;
+	process: ChildProcess;
+	listeners: Set<ActionRunListener>;
+	timeout: ReturnType<typeof setTimeout>;
+	killTimer?: ReturnType<typeof setTimeout>;
+	finalStatus?: ActionRunStatus;
+}
+
+const runs = new Map<string, RunState>();
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Error type for action runner operations
+ */
+export class ActionRunnerError extends Error {
+	constructor(
+		message: string,
+		public readonly code: 'PARSE_ERROR' | 'NOT_ALLOWED' | 'NOT_FOUND' | 'SPAWN_FAILED'
+	) {
+		super(message);
+		this.name = 'ActionRunnerError';
+	}
+}
+
+// ============================================================================
+// Command Parsing
+// ============================================================================
+
+const SHELL_OPERATORS = new Set(['|', '&', ';', '<', '>', '(', ')', '`']);
+const ENV_ASSIGNMENT = /^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/s;
+
+/**
+ * Split a command into words using POSIX shell quoting rules.
+ * Unquoted shell operators and substitutions are rejected since no shell is involved.
+ */
+export function parseShellWords(command: string): string[] {
+	const words: string[] = [];
+	let current = '';
+	let inWord = false;
+	let i = 0;
+
+	while (i < command.length) {
+		const ch = command[i];
+
+		if (ch === "'") {
+			const end = command.indexOf("'", i + 1);
+			if (end === -1) {
+				throw new ActionRunnerError('Unterminated single quote', 'PARSE_ERROR');
+			}
+			current += command.slice(i + 1, end);
+			inWord = true;
+			i = end + 1;
+		} else if (ch === '"') {
+			i++;
+			let closed = false;
+			while (i < command.length) {
+				const c = command[i];
+				if (c === '"') {
+					closed = true;
+					i++;
+					break;
+				}
+				if (c === '\\' && i + 1 < command.length && '"\\$`'.includes(command[i + 1])) {
+					current += command[i + 1];
+					i += 2;
+					continue;
+				}
+				if (c === '$' || c === '`') {
+					throw new ActionRunnerError(
+						'Variable expansion and command substitution are not supported',
+						'PARSE_ERROR'
+					);
+				}
+				current += c;
+				i++;
+			}
+			if (!closed) {
+				throw new ActionRunnerError('Unterminated double quote', 'PARSE_ERROR');
+			}
+			inWord = true;
+		} else if (ch === '\\') {
+			if (i + 1 >= command.length) {
+				throw new ActionRunnerError('Trailing backslash', 'PARSE_ERROR');
+			}
+			current += command[i + 1];
+			inWord = true;
+			i += 2;
+		} else if (/\s/.test(ch)) {
+			if (inWord) {
+				words.push(current);
+				current = '';
+				inWord = false;
+			}
+			i++;
+		} else if (SHELL_OPERATORS.has(ch) || ch === '$') {
+			throw new ActionRunnerError(
+				`Shell syntax '${ch}' is not supported; quick actions run without a shell`,
+				'PARSE_ERROR'
+			);
+		} else {
+			current += ch;
+			inWord = true;
+			i++;
+		}
+	}
+
+	if (inWord) {
+		words.push(current);
+	}
+	return words;
+}
+
+/**
+ * Parse a command into leading environment assignments and argv
+ */
+export function parseCommand(command: string): ParsedCommand {
+	const words = parseShellWords(command);
+	const env: Record<string, string> = {};
+
+	let index = 0;
+	while (index < words.length) {
+		const match = words[index].match(ENV_ASSIGNMENT);
+		if (!match) break;
+		env[match[1]] = match[2];
+		index++;
+	}
+
+	const argv = words.slice(index);
+	if (argv.length === 0) {
+		throw new ActionRunnerError('Command is empty', 'PARSE_ERROR');
+	}
+	return { env, argv };
+}
+
+/**
+ * Quote a word for display so the resolved command can be copied back into a shell
+ */
+export function quoteShellWord(word: string): string {
+	if (word !== '' && /^[A-Za-z0-9_@%+=:,./-]+$/.test(word)) return word;
+	return `'${word.replace(/'/g, `'\\''`)}'`;
+}
+
+function formatCommand(parsed: ParsedCommand): string {
+	return [
+		...Object.entries(parsed.env).map(([key, value]) => `${key}=${quoteShellWord(value)}`),
+		...parsed.argv.map(quoteShellWord)
+	].join(' ');
+}
+
+function sameCommand(a: ParsedCommand, b: ParsedCommand): boolean {
+	return (
+		JSON.stringify(a.argv) === JSON.stringify(b.argv) &&
+		JSON.stringify(Object.entries(a.env).sort()) === JSON.stringify(Object.entries(b.env).sort())
+	);
+}
+
+// ============================================================================
+// Allowlist
+// ============================================================================
+
+/**
+ * Get every action a project may run: actions from its selected (or detected)
+ * profiles, its custom actions, and scripts detected from project files
+ */
+export async function getAllowedActions(
+	projectId: string,
+	projectPath: string
+): Promise<{ actions: QuickAction[]; profileIds: string[] }> {
+	const settings = getProjectProfileSettings(projectId);
+
+	let profileIds: string[];
+	if (settings && !settings.isAutoDetected && settings.selectedProfiles.length > 0) {
+		profileIds = settings.selectedProfiles;
+	} else {
+		const detection = await detectAllProfilesFromPath(projectPath);
+		profileIds =
+			detection.detectedProfiles.length > 0
+				? detection.detectedProfiles.map((p) => p.profileId)
+				: ['generic'];
+	}
+
+	const actions = new Map<string, QuickAction>();
+	for (const profileId of profileIds) {
+		for (const action of getProfile(profileId).quickActions) {
+			if (!actions.has(action.id)) {
+				actions.set(action.id, action);
+			}
+		}
+	}
+
+	// Custom actions override profile actions with the same id
+	for (const action of settings?.customActions || []) {
+		actions.set(action.id, action as QuickAction);
+	}
+
+	for (const action of scriptsToQuickActions(detectAllScripts(projectPath).scripts)) {
+		if (!actions.has(action.id)) {
+			actions.set(action.id, action);
+		}
+	}
+
+	return { actions: Array.from(actions.values()), profileIds };
+}
+
+/**
+ * Find the allowlisted action for a request, by id or by an identical command
+ */
+export function resolveAllowedAction(
+	allowed: QuickAction[],
+	request: { actionId?: string; command?: string }
+): QuickAction {
+	if (request.actionId) {
+		const action = allowed.find((a) => a.id === request.actionId);
+		if (!action) {
+			throw new ActionRunnerError(`Action '${request.actionId}' is not available`, 'NOT_FOUND');
+		}
+		if (request.command && !sameCommand(parseCommand(request.command), parseCommand(action.command))) {
+			throw new ActionRunnerError(
+				`Command does not match action '${request.actionId}'`,
+				'NOT_ALLOWED'
+			);
+		}
+		return action;
+	}
+
+	if (request.command) {
+		const parsed = parseCommand(request.command);
+		const action = allowed.find((a) => {
+			try {
+				return sameCommand(parseCommand(a.command), parsed);
+			} catch {
+				return false;
+			}
+		});
+		if (!action) {
+			throw new ActionRunnerError(
+				'Command is not on the allowlist for this project',
+				'NOT_ALLOWED'
+			);
+		}
+		return action;
+	}
+
+	throw new ActionRunnerError('Either actionId or command is required', 'PARSE_ERROR');
+}
+
+// ============================================================================
+// Running
+// ============================================================================
+
+export interface ActionRunOptions {
+	projectId: string;
+	projectPath: string;
+	action: QuickAction;
+	profileUsed: string;
+	timeoutMs?: number;
+	beadId?: string;
+	sessionId?: string;
+	chatId?: string;
+}
+
+function generateRunId(): string {
+	return `act_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+}
+
+function buildEnvironment(parsed: ParsedCommand): Record<string, string> {
+	const env: Record<string, string> = {};
+	for (const [key, value] of Object.entries(process.env)) {
+		if (value !== undefined) env[key] = value;
+	}
+	// Ensure we can find common tools
+	env.PATH = `${process.env.PATH}:/usr/local/bin:/opt/homebrew/bin`;
+	return { ...env, ...parsed.env };
+}
+
+function appendOutput(existing: string, chunk: string): string {
+	if (existing.length >= MAX_OUTPUT_BYTES) return existing;
+	const combined = existing + chunk;
+	if (combined.length <= MAX_OUTPUT_BYTES) return combined;
+	return combined.slice(0, MAX_OUTPUT_BYTES) + '\n[output truncated]';
+}
+
+function emit(state: RunState, event: ActionRunEvent): void {
+	for (const listener of state.listeners) {
+		try {
+			listener(event);
+		} catch (e) {
+			console.error('[ActionRunner] Listener error:', e);
+		}
+	}
+}
+
+/**
+ * Build a dry-run preview and record it in the action history
+ */
+export function previewAction(options: ActionRunOptions): {
+	preview: string;
+	resolvedCommand: string;
+	reportId?: string;
+} {
+	const parsed = parseCommand(options.action.command);
+	const resolvedCommand = formatCommand(parsed);
+	const environment = buildEnvironment(parsed);
+	const preview = buildDryRunPreview(
+		options.action.command,
+		resolvedCommand,
+		options.projectPath,
+		environment
+	);
+
+	let reportId: string | undefined;
+	try {
+		const now = new Date();
+		reportId = persistActionReport(options.projectPath, options.projectId, {
+			...buildActionRecord({
+				actionId: options.action.id,
+				label: options.action.label,
+				command: options.action.command,
+				resolvedCommand,
+				workingDirectory: options.projectPath,
+				profileUsed: options.profileUsed,
+				environment,
+				startedAt: now,
+				completedAt: now,
+				exitCode: 0,
+				stdout: preview,
+				stderr: '',
+				sessionId: options.sessionId ?? '',
+				chatId: options.chatId ?? '',
+				beadId: options.beadId
+			}),
+			dryRun: true
+		});
+	} catch (e) {
+		console.error('[ActionRunner] Failed to record dry run:', e);
+	}
+
+	return { preview, resolvedCommand, reportId };
+}
+
+/**
+ * Start an action run. Output is delivered to subscribers as it arrives.
+ */
+export function startActionRun(options: ActionRunOptions): ActionRun {
+	const parsed = parseCommand(options.action.command);
+	const resolvedCommand = formatCommand(parsed);
+	const environment = buildEnvironment(parsed);
+	const timeoutMs = Math.min(
+		Math.max(options.timeoutMs ?? DEFAULT_ACTION_TIMEOUT_MS, 1000),
+		MAX_ACTION_TIMEOUT_MS
+	);
+
+	const run: ActionRun = {
+		id: generateRunId(),
+		projectId: options.projectId,
+		action: options.action,
+		resolvedCommand,
+		workingDirectory: options.projectPath,
+		status: 'running',
+		startedAt: new Date(),
+		stdout: '',
+		stderr: ''
+	};
+
+	let proc: ChildProcess;
+	try {
+		proc = spawn(parsed.argv[0], parsed.argv.slice(1), {
+			cwd: options.projectPath,
+			env: environment,
+			shell: false,
+			stdio: ['ignore', 'pipe', 'pipe']
+		});
+	} catch (e) {
+		throw new ActionRunnerError(
+			`Failed to start '${parsed.argv[0]}': ${e instanceof Error ? e.message : String(e)}`,
+			'SPAWN_FAILED'
+		);
+	}
+
+	const state: RunState = {
+		run,
+		process: proc,
+		listeners: new Set(),
+		timeout: setTimeout(() => terminate(state, 'timed_out'), timeoutMs)
+	};
+	runs.set(run.id, state);
+
+	proc.stdout?.on('data', (data: Buffer) => {
+		const text = data.toString('utf-8');
+		run.stdout = appendOutput(run.stdout, text);
+		emit(state, { type: 'output', stream: 'stdout', data: text });
+	});
+
+	proc.stderr?.on('data', (data: Buffer) => {
+		const text = data.toString('utf-8');
+		run.stderr = appendOutput(run.stderr, text);
+		emit(state, { type: 'output', stream: 'stderr', data: text });
+	});
+
+	let finished = false;
+	const finish = (exitCode: number, status: ActionRunStatus) => {
+		if (finished) return;
+		finished = true;
+		clearTimeout(state.timeout);
+		if (state.killTimer) clearTimeout(state.killTimer);
+
+		run.status = state.finalStatus ?? status;
+		run.exitCode = exitCode;
+		run.completedAt = new Date();
+
+		try {
+			run.reportId = persistActionReport(
+				options.projectPath,
+				options.projectId,
+				buildActionRecord({
+					actionId: options.action.id,
+					label: options.action.label,
+					command: options.action.command,
+					resolvedCommand,
+					workingDirectory: options.projectPath,
+					profileUsed: options.profileUsed,
+					environment,
+					startedAt: run.startedAt,
+					completedAt: run.completedAt,
+					exitCode,
+					stdout: run.stdout,
+					stderr: run.stderr,
+					sessionId: options.sessionId ?? '',
+					chatId: options.chatId ?? '',
+					beadId: options.beadId
+				})
+			);
+		} catch (e) {
+			console.error('[ActionRunner] Failed to record action report:', e);
+		}
+
+		emit(state, {
+			type: 'exit',
+			status: run.status,
+			exitCode,
+			durationMs: run.completedAt.getTime() - run.startedAt.getTime(),
+			reportId: run.reportId
+		});
+		state.listeners.clear();
+
+		const cleanup = setTimeout(() => runs.delete(run.id), FINISHED_RUN_TTL_MS);
+		cleanup.unref?.();
+	};
+
+	proc.on('close', (code, signal) => {
+		finish(
+			code ?? (signal ? 128 + (constants.signals[signal] ?? 15) : 1),
+			code === 0 ? 'completed' : 'failed'
+		);
+	});
+
+	proc.on('error', (err) => {
+		run.stderr = appendOutput(run.stderr, `${err.message}\n`);
+		emit(state, { type: 'output', stream: 'stderr', data: `${err.message}\n` });
+		finish(127, 'failed');
+	});
+
+	console.log(`[ActionRunner] Started ${run.id}: ${resolvedCommand}`);
+	return run;
+}
+
+/**
+ * Stop a process with SIGTERM, escalating to SIGKILL if it does not exit
+ */
+function terminate(state: RunState, status: 'cancelled' | 'timed_out'): void {
+	if (state.run.status !== 'running' || state.finalStatus) return;
+	state.finalStatus = status;
+
+	const message =
+		status === 'timed_out' ? '\n[action timed out]\n' : '\n[action cancelled]\n';
+	state.run.stderr = appendOutput(state.run.stderr, message);
+	emit(state, { type: 'output', stream: 'stderr', data: message });
+
+	state.process.kill('SIGTERM');
+	state.killTimer = setTimeout(() => {
+		if (state.process.exitCode === null && state.process.signalCode === null) {
+			state.process.kill('SIGKILL');
+		}
+	}, KILL_GRACE_MS);
+}
+
+/**
+ * Cancel a running action
+ */
+export function cancelActionRun(runId: string): boolean {
+	const state = runs.get(runId);
+	if (!state || state.run.status !== 'running') return false;
+	terminate(state, 'cancelled');
+	return true;
+}
+
+/**
+ * Get an action run by id (running or recently finished)
+ */
+export function getActionRun(runId: string): ActionRun | null {
+	return runs.get(runId)?.run ?? null;
+}
+
+/**
+ * Subscribe to output and exit events of a running action
+ */
+export function subscribeToActionRun(runId: string, listener: ActionRunListener): () => void {
+	const state = runs.get(runId);
+	if (!state || state.run.status !== 'running') {
+		return () => {};
+	}
+	state.listeners.add(listener);
+	return () => state.listeners.delete(listener);
+}
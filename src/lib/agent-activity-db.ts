@@ -0,0 +1,564 @@
+/**
+ * Agent Activity Log
+ *
+ * Persists agent activity events so past agent work can be audited after the
+ * in-memory feed has rolled over or the dashboard has restarted.
+ * Location: <project_root>/.beads/activity.db
+ *
+ * Retention follows the memory subsystem: each event gets an expires_at based
+ * on its type (ACTIVITY_RETENTION_DAYS), expired events are soft-deleted, and
+ * soft-deleted events are purged after SOFT_DELETE_RETENTION_DAYS.
+ */
+
+import Database from 'better-sqlite3';
+import { join, dirname } from 'path';
+import { existsSync, mkdirSync } from 'fs';
+import {
+	ACTIVITY_RETENTION_DAYS,
+	DEFAULT_ACTIVITY_LIMIT,
+	MAX_ACTIVITY_LIMIT,
+	type ActivityCleanupResult,
+	type AgentActivityEvent,
+	type AgentActivityFilter,
+	type AgentActivityPage,
+	type AgentActivityType
+} from './agent-activity-types';
+import { SOFT_DELETE_RETENTION_DAYS } from './memory/types';
+
+// Prune each activity database at most once a day
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+interface ActivityEventRow {
+	id: string;
+	project_id: string;
+	type: string;
+	timestamp: string;
+	issue_id: string | null;
+	issue_title: string | null;
+	agent_id: string;
+	agent_name: string | null;
+	run_id: string | null;
+	content: string | null;
+	file_path: string | null;
+	command: string | null;
+	commit_hash: string | null;
+	branch_name: string | null;
+	tool_name: string | null;
+	tool_input: string | null;
+	tool_result: string | null;
+	exit_code: number | null;
+	success: number | null;
+}
+
+/**
+ * Get the path to the activity database for a project
+ */
+export function getActivityDbPath(projectPath: string): string {
+	return join(projectPath, '.beads', 'activity.db');
+}
+
+// ============================================================================
+// Connection Management
+// ============================================================================
+
+const connections = new Map<string, Database.Database>();
+const lastPrunedAt = new Map<string, number>();
+
+/**
+ * Bumped when the schema changes; kept in PRAGMA user_version
+ */
+const ACTIVITY_SCHEMA_VERSION = 1;
+
+/**
+ * Columns of activity_events. seq aliases the rowid, so VACUUM keeps it
+ * and the full-text index can be keyed on it.
+ */
+const ACTIVITY_EVENTS_COLUMNS = `
+  seq INTEGER PRIMARY KEY,
+  id TEXT NOT NULL UNIQUE,
+  project_id TEXT NOT NULL,
+  type TEXT NOT NULL,
+  timestamp TEXT NOT NULL,
+  issue_id TEXT,
+  issue_title TEXT,
+  agent_id TEXT NOT NULL,
+  agent_name TEXT,
+  run_id TEXT,
+  content TEXT,
+  file_path TEXT,
+  command TEXT,
+  commit_hash TEXT,
+  branch_name TEXT,
+  tool_name TEXT,
+  tool_input TEXT,
+  tool_result TEXT,
+  exit_code INTEGER,
+  success INTEGER,
+  expires_at TEXT,
+  deleted_at TEXT
+`;
+
+/**
+ * Schema DDL for the activity_events table and its full-text index
+ */
+const SCHEMA_DDL = `
+PRAGMA journal_mode = WAL;
+PRAGMA busy_timeout = 10000;
+
+CREATE TABLE IF NOT EXISTS activity_events (${ACTIVITY_EVENTS_COLUMNS});
+
+CREATE INDEX IF NOT EXISTS idx_activity_issue ON activity_events(issue_id, timestamp DESC) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_activity_run ON activity_events(run_id, timestamp DESC) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_activity_agent ON activity_events(agent_id, timestamp DESC) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_activity_type ON activity_events(type, timestamp DESC) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_activity_timestamp ON activity_events(timestamp DESC) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_activity_expires ON activity_events(expires_at) WHERE expires_at IS NOT NULL AND deleted_at IS NULL;
+
+CREATE VIRTUAL TABLE IF NOT EXISTS activity_fts USING fts5(
+  content, command, file_path,
+  content='activity_events', content_rowid='seq'
+);
+
+CREATE TRIGGER IF NOT EXISTS activity_fts_insert AFTER INSERT ON activity_events BEGIN
+  INSERT INTO activity_fts(rowid, content, command, file_path)
+  VALUES (new.seq, new.content, new.command, new.file_path);
+END;
+
+CREATE TRIGGER IF NOT EXISTS activity_fts_delete AFTER DELETE ON activity_events BEGIN
+  INSERT INTO activity_fts(activity_fts, rowid, content, command, file_path)
+  VALUES ('delete', old.seq, old.content, old.command, old.file_path);
+END;
+`;
+
+/**
+ * Bring databases created by older versions up to the current schema
+ */
+function migrateActivityDb(db: Database.Database): void {
+	const version = db.pragma('user_version', { simple: true }) as number;
+	if (version >= ACTIVITY_SCHEMA_VERSION) return;
+
+	const columns = db.prepare('PRAGMA table_info(activity_events)').all() as { name: string }[];
+	if (!columns.some((c) => c.name === 'seq')) {
+		addSeqKey(db, columns.map((c) => c.name).join(', '));
+	}
+	db.pragma(`user_version = ${ACTIVITY_SCHEMA_VERSION}`);
+}
+
+/**
+ * Schema v1: rebuild activity_events with a seq key and re-key the
+ * full-text index on it, which was keyed on the implicit rowid before
+ */
+function addSeqKey(db: Database.Database, columns: string): void {
+	db.transaction(() => {
+		db.exec(`
+      DROP TRIGGER IF EXISTS activity_fts_insert;
+      DROP TRIGGER IF EXISTS activity_fts_delete;
+      DROP TABLE IF EXISTS activity_fts;
+      CREATE TABLE activity_events_v1 (${ACTIVITY_EVENTS_COLUMNS});
+      INSERT INTO activity_events_v1 (${columns}) SELECT ${columns} FROM activity_events ORDER BY rowid;
+      DROP TABLE activity_events;
+      ALTER TABLE activity_events_v1 RENAME TO activity_events;
+    `);
+		db.exec(SCHEMA_DDL.replace(/^PRAGMA .*$/gm, ''));
+		db.exec("INSERT INTO activity_fts(activity_fts) VALUES ('rebuild')");
+	})();
+}
+
+/**
+ * Get the connection to a project's activity database, creating it if needed
+ */
+export function getActivityDb(projectPath: string): Database.Database {
+	const dbPath = getActivityDbPath(projectPath);
+
+	const existing = connections.get(dbPath);
+	if (existing) {
+		try {
+			// Health check
+			existing.pragma('data_version', { simple: true });
+			return existing;
+		} catch {
+			try {
+				existing.close();
+			} catch {
+				// Ignore close errors
+			}
+			connections.delete(dbPath);
+		}
+	}
+
+	const dbDir = dirname(dbPath);
+	if (!existsSync(dbDir)) {
+		mkdirSync(dbDir, { recursive: true });
+	}
+
+	const db = new Database(dbPath, { timeout: 10000 });
+	db.exec(SCHEMA_DDL);
+	migrateActivityDb(db);
+	connections.set(dbPath, db);
+	return db;
+}
+
+/**
+ * Close activity database connections
+ */
+export function closeActivityDb(projectPath?: string): void {
+	try {
+		flushQueuedActivity(projectPath);
+	} catch (e) {
+		console.error('[ActivityLog] Failed to write queued events:', e);
+	}
+
+	const paths = projectPath ? [getActivityDbPath(projectPath)] : [...connections.keys()];
+	for (const dbPath of paths) {
+		try {
+			connections.get(dbPath)?.close();
+		} catch {
+			// Ignore
+		}
+		connections.delete(dbPath);
+		lastPrunedAt.delete(dbPath);
+	}
+}
+
+/**
+ * Check if the activity database exists for a project
+ */
+export function activityDbExists(projectPath: string): boolean {
+	return existsSync(getActivityDbPath(projectPath));
+}
+
+// ============================================================================
+// Writes
+// ============================================================================
+
+function stringInput(input: Record<string, unknown> | undefined, key: string): string | null {
+	const value = input?.[key];
+	return typeof value === 'string' ? value : null;
+}
+
+/**
+ * Calculate when an event of this type expires (null = never)
+ */
+export function getActivityExpiry(type: AgentActivityType, timestamp: Date): string | null {
+	const retentionDays = ACTIVITY_RETENTION_DAYS[type];
+	if (retentionDays === null || retentionDays === undefined) return null;
+	return new Date(timestamp.getTime() + retentionDays * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/**
+ * Persist activity events in one transaction.
+ * Tool calls are indexed by the command or file path in their input so they are searchable.
+ */
+export function insertActivityEvents(projectPath: string, events: AgentActivityEvent[]): void {
+	const db = getActivityDb(projectPath);
+	const insert = db.prepare(
+		`
+    INSERT OR IGNORE INTO activity_events (
+      id, project_id, type, timestamp, issue_id, issue_title, agent_id, agent_name, run_id,
+      content, file_path, command, commit_hash, branch_name, tool_name, tool_input, tool_result,
+      exit_code, success, expires_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `
+	);
+
+	db.transaction(() => {
+		for (const event of events) {
+			insert.run(
+				event.id,
+				event.projectId,
+				event.type,
+				event.timestamp.toISOString(),
+				event.issueId ?? null,
+				event.issueTitle ?? null,
+				event.agentId,
+				event.agentName ?? null,
+				event.runId ?? null,
+				event.content ?? null,
+				event.filePath ?? stringInput(event.toolInput, 'file_path'),
+				event.command ?? stringInput(event.toolInput, 'command'),
+				event.commitHash ?? null,
+				event.branchName ?? null,
+				event.toolName ?? null,
+				event.toolInput !== undefined ? JSON.stringify(event.toolInput) : null,
+				event.toolResult !== undefined ? JSON.stringify(event.toolResult) : null,
+				event.exitCode ?? null,
+				event.success === undefined ? null : event.success ? 1 : 0,
+				getActivityExpiry(event.type, event.timestamp)
+			);
+		}
+	})();
+
+	maybePrune(projectPath);
+}
+
+/**
+ * Persist a single activity event
+ */
+export function insertActivityEvent(projectPath: string, event: AgentActivityEvent): void {
+	insertActivityEvents(projectPath, [event]);
+}
+
+// ============================================================================
+// Write Batching
+// ============================================================================
+
+// Streamed events are written at most this often, or once this many are queued
+const FLUSH_INTERVAL_MS = 250;
+const MAX_BATCH_SIZE = 200;
+
+interface PendingWrites {
+	projectPath: string;
+	events: AgentActivityEvent[];
+	timer: ReturnType<typeof setTimeout> | null;
+}
+
+const pendingWrites = new Map<string, PendingWrites>();
+
+// Write what is still queued when the server exits
+process.on('exit', () => {
+	try {
+		flushQueuedActivity();
+	} catch (e) {
+		console.error('[ActivityLog] Failed to write queued events on exit:', e);
+	}
+});
+
+/**
+ * Queue an event for the next batched write, keeping disk writes off the
+ * streaming path. Queries and closing the database flush the queue first.
+ */
+export function queueActivityEvent(projectPath: string, event: AgentActivityEvent): void {
+	const dbPath = getActivityDbPath(projectPath);
+	let pending = pendingWrites.get(dbPath);
+	if (!pending) {
+		pending = { projectPath, events: [], timer: null };
+		pendingWrites.set(dbPath, pending);
+	}
+
+	pending.events.push(event);
+	if (pending.events.length >= MAX_BATCH_SIZE) {
+		flushQueuedActivity(projectPath);
+	} else if (!pending.timer) {
+		pending.timer = setTimeout(() => {
+			try {
+				flushQueuedActivity(projectPath);
+			} catch (e) {
+				console.error('[ActivityLog] Failed to write queued events:', e);
+			}
+		}, FLUSH_INTERVAL_MS);
+		// Pending writes must not keep the process alive
+		pending.timer.unref();
+	}
+}
+
+/**
+ * Write queued events now (for every project if none is given)
+ * Queued events are dropped if the write fails, so one bad batch cannot pile up.
+ */
+export function flushQueuedActivity(projectPath?: string): void {
+	const paths = projectPath ? [getActivityDbPath(projectPath)] : [...pendingWrites.keys()];
+	for (const dbPath of paths) {
+		const pending = pendingWrites.get(dbPath);
+		if (!pending) continue;
+
+		pendingWrites.delete(dbPath);
+		if (pending.timer) clearTimeout(pending.timer);
+		if (pending.events.length > 0) {
+			insertActivityEvents(pending.projectPath, pending.events);
+		}
+	}
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * Turn free text into an FTS5 query that matches every term as a prefix
+ */
+export function toFtsQuery(search: string): string | null {
+	const terms = search
+		.split(/\s+/)
+		.map((term) => term.replace(/"/g, '""'))
+		.filter((term) => term.length > 0);
+	if (terms.length === 0) return null;
+	return terms.map((term) => `"${term}"*`).join(' ');
+}
+
+/**
+ * Query the persisted activity log, newest first
+ */
+export function queryActivityLog(
+	projectPath: string,
+	filter: AgentActivityFilter = {}
+): AgentActivityPage {
+	const limit = Math.min(Math.max(filter.limit ?? DEFAULT_ACTIVITY_LIMIT, 1), MAX_ACTIVITY_LIMIT);
+	const offset = Math.max(filter.offset ?? 0, 0);
+
+	flushQueuedActivity(projectPath);
+	if (!activityDbExists(projectPath)) {
+		return { events: [], total: 0, limit, offset, hasMore: false };
+	}
+
+	const db = getActivityDb(projectPath);
+	const conditions: string[] = ['e.deleted_at IS NULL'];
+	const params: unknown[] = [];
+
+	if (filter.projectId) {
+		conditions.push('e.project_id = ?');
+		params.push(filter.projectId);
+	}
+	if (filter.issueId) {
+		conditions.push('e.issue_id = ?');
+		params.push(filter.issueId);
+	}
+	if (filter.agentId) {
+		conditions.push('e.agent_id = ?');
+		params.push(filter.agentId);
+	}
+	if (filter.runId) {
+		conditions.push('e.run_id = ?');
+		params.push(filter.runId);
+	}
+	if (filter.types && filter.types.length > 0) {
+		conditions.push(`e.type IN (${filter.types.map(() => '?').join(', ')})`);
+		params.push(...filter.types);
+	}
+	if (filter.since) {
+		conditions.push('e.timestamp >= ?');
+		params.push(filter.since.toISOString());
+	}
+	if (filter.until) {
+		conditions.push('e.timestamp <= ?');
+		params.push(filter.until.toISOString());
+	}
+
+	const ftsQuery = filter.search ? toFtsQuery(filter.search) : null;
+	if (ftsQuery) {
+		conditions.push('e.seq IN (SELECT rowid FROM activity_fts WHERE activity_fts MATCH ?)');
+		params.push(ftsQuery);
+	}
+
+	const where = conditions.join(' AND ');
+
+	const { count } = db
+		.prepare(`SELECT COUNT(*) as count FROM activity_events e WHERE ${where}`)
+		.get(...params) as { count: number };
+
+	const rows = db
+		.prepare(
+			`SELECT e.* FROM activity_events e WHERE ${where} ORDER BY e.timestamp DESC, e.seq DESC LIMIT ? OFFSET ?`
+		)
+		.all(...params, limit, offset) as ActivityEventRow[];
+
+	return {
+		events: rows.map(rowToEvent),
+		total: count,
+		limit,
+		offset,
+		hasMore: offset + rows.length < count
+	};
+}
+
+// ============================================================================
+// Retention
+// ============================================================================
+
+/**
+ * Soft delete expired events
+ */
+export function expireOldActivity(projectPath: string): number {
+	const db = getActivityDb(projectPath);
+	const now = new Date().toISOString();
+
+	const result = db
+		.prepare(
+			`
+      UPDATE activity_events
+      SET deleted_at = ?
+      WHERE expires_at IS NOT NULL
+        AND expires_at < ?
+        AND deleted_at IS NULL
+    `
+		)
+		.run(now, now);
+
+	return result.changes;
+}
+
+/**
+ * Permanently delete events that were soft-deleted more than N days ago
+ */
+export function purgeDeletedActivity(
+	projectPath: string,
+	olderThanDays: number = SOFT_DELETE_RETENTION_DAYS
+): number {
+	const db = getActivityDb(projectPath);
+	const cutoff = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000).toISOString();
+
+	const result = db
+		.prepare('DELETE FROM activity_events WHERE deleted_at IS NOT NULL AND deleted_at < ?')
+		.run(cutoff);
+
+	return result.changes;
+}
+
+/**
+ * Expire and purge old events for a project
+ */
+export function pruneActivityLog(projectPath: string): ActivityCleanupResult {
+	const softDeletedCount = expireOldActivity(projectPath);
+	const purgedCount = purgeDeletedActivity(projectPath);
+	lastPrunedAt.set(getActivityDbPath(projectPath), Date.now());
+
+	if (softDeletedCount > 0 || purgedCount > 0) {
+		console.log(
+			`[ActivityLog] Pruned ${projectPath}: ${softDeletedCount} expired, ${purgedCount} purged`
+		);
+	}
+	return { softDeletedCount, purgedCount };
+}
+
+function maybePrune(projectPath: string): void {
+	const last = lastPrunedAt.get(getActivityDbPath(projectPath)) ?? 0;
+	if (Date.now() - last >= PRUNE_INTERVAL_MS) {
+		pruneActivityLog(projectPath);
+	}
+}
+
+// ============================================================================
+// Row Conversion Helpers
+// ============================================================================
+
+function parseJson<T>(value: string | null): T | undefined {
+	if (value === null) return undefined;
+	try {
+		return JSON.parse(value) as T;
+	} catch {
+		return undefined;
+	}
+}
+
+function rowToEvent(row: ActivityEventRow): AgentActivityEvent {
+	return {
+		id: row.id,
+		timestamp: new Date(row.timestamp),
+		type: row.type as AgentActivityType,
+		projectId: row.project_id,
+		issueId: row.issue_id ?? undefined,
+		issueTitle: row.issue_title ?? undefined,
+		agentId: row.agent_id,
+		agentName: row.agent_name ?? undefined,
+		runId: row.run_id ?? undefined,
+		content: row.content ?? undefined,
+		filePath: row.file_path ?? undefined,
+		command: row.command ?? undefined,
+		commitHash: row.commit_hash ?? undefined,
+		branchName: row.branch_name ?? undefined,
+		toolName: row.tool_name ?? undefined,
+		toolInput: parseJson<Record<string, unknown>>(row.tool_input),
+		toolResult: parseJson<unknown>(row.tool_result),
+		exitCode: row.exit_code ?? undefined,
+		success: row.success === null ? undefined : row.success === 1
+	};
+}
@@ -1,6 +1,8 @@
 /**
  * Agent Activity Store
- * In-memory store for real-time agent activity events with query methods
+ * In-memory store for real-time agent activity events with query methods.
+ * Every event is also written to the project's persistent activity log
+ * (see agent-activity-db.ts) for auditing beyond the in-memory window.
  */
 
 import type {
@@ -9,6 +11,8 @@ import type {
 	AgentActivityType,
 	AgentStatus
 } from './agent-activity-types';
+import { queueActivityEvent } from './agent-activity-db';
+import { getProjectById } from './dashboard-db';
 
 // Maximum events to keep in memory
 const MAX_EVENTS = 1000;
@@ -52,6 +56,8 @@ export function addActivityEvent(
 	// Update agent status
 	updateAgentStatus(fullEvent);
 
+	persistEvent(fullEvent);
+
 	// Notify listeners
 	for (const listener of listeners) {
 		try {
@@ -64,6 +70,21 @@ export function addActivityEvent(
 	return fullEvent;
 }
 
+/**
+ * Queue an event for its project's activity log, which writes in batches
+ * Persistence failures are logged but never break the live feed
+ */
+function persistEvent(event: AgentActivityEvent): void {
+	try {
+		const project = getProjectById(event.projectId);
+		if (project) {
+			queueActivityEvent(project.path, event);
+		}
+	} catch (e) {
+		console.error('[ActivityStore] Failed to persist event:', e);
+	}
+}
+
 /**
  * Update agent status based on activity
  */
@@ -129,6 +150,21 @@ export function queryEvents(filter: AgentActivityFilter = {}): AgentActivityEven
 		result = result.filter((e) => e.timestamp >= filter.since!);
 	}
 
+	if (filter.until) {
+		result = result.filter((e) => e.timestamp <= filter.until!);
+	}
+
+	if (filter.search) {
+		const search = filter.search.toLowerCase();
+		result = result.filter((e) =>
+			[e.content, e.command, e.filePath].some((field) => field?.toLowerCase().includes(search))
+		);
+	}
+
+	if (filter.offset && filter.offset > 0) {
+		result = result.slice(filter.offset);
+	}
+
 	if (filter.limit && filter.limit > 0) {
 		result = result.slice(0, filter.limit);
 	}
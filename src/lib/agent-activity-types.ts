@@ -49,9 +49,64 @@ export interface AgentActivityFilter {
 	runId?: string;
 	types?: AgentActivityType[];
 	since?: Date;
+	until?: Date;
+	search?: string; // Full-text search over content, command and filePath
 	limit?: number;
+	offset?: number;
 }
 
+/**
+ * A page of persisted activity events
+ */
+export interface AgentActivityPage {
+	events: AgentActivityEvent[];
+	total: number;
+	limit: number;
+	offset: number;
+	hasMore: boolean;
+}
+
+/**
+ * Result of activity log cleanup
+ */
+export interface ActivityCleanupResult {
+	/** Number of events hard-deleted */
+	purgedCount: number;
+
+	/** Number of events soft-deleted (expired) */
+	softDeletedCount: number;
+}
+
+/**
+ * Retention periods by activity type (in days, null = never expires).
+ * Expired events are soft-deleted, then purged like memory entries.
+ */
+export const ACTIVITY_RETENTION_DAYS: Record<AgentActivityType, number | null> = {
+	claimed: null,
+	commit: null,
+	completed: null,
+	failed: null,
+	blocked: 90,
+	awaiting_input: 30,
+	command_run: 30,
+	file_edit: 30,
+	file_write: 30,
+	message: 14,
+	file_read: 7,
+	tool_use: 7,
+	tool_result: 7
+};
+
+/**
+ * Default page size for activity log queries
+ */
+export const DEFAULT_ACTIVITY_LIMIT = 50;
+
+/**
+ * Maximum page size for activity log queries
+ */
+export const MAX_ACTIVITY_LIMIT = 500;
+
 export interface AgentStatus {
 	agentId: string;
 	agentName: string;
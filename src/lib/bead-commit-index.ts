@@ -0,0 +1,276 @@
+/**
+ * Commit-to-Bead Traceability Index
+ *
+ * Answers "which commits implemented bead X" and "which bead does this commit
+ * belong to" by scanning branch history. A commit is linked to a bead by:
+ *
+ * - a `Bead: <id>` trailer (see bead-git-workflow)
+ * - the bead ID appearing in its message
+ * - its branch: commits only on a bead's branch, and the commits a merge of
+ *   that branch brought in
+ * - the bead's recorded commit_hash
+ *
+ * The index is kept in memory per project and rebuilt when a branch moves or
+ * the beads' IDs, branches or commits change.
+ */
+
+import { createHash } from 'crypto';
+import { getBeadTrailers } from './bead-git-workflow';
+import {
+	getBranchHistory,
+	getBranchRefNames,
+	getCommitsOnlyIn,
+	getRefsFingerprint,
+	type GitHistoryCommit
+} from './git-utils';
+import { getIssueGitRefs } from './project-db';
+import type { Issue } from './types';
+
+export type BeadCommitSource = 'trailer' | 'message' | 'branch' | 'commit_hash';
+
+export type BeadRef = Pick<Issue, 'id' | 'branch_name' | 'commit_hash'>;
+
+export interface BeadCommitLink {
+	beadId: string;
+	hash: string;
+	sources: BeadCommitSource[];
+	// Branch the link came from, for 'branch' links
+	branch?: string;
+}
+
+export interface BeadCommitIndex {
+	fingerprint: string;
+	builtAt: string;
+	scanned: number;
+	// History was longer than the scan limit; older commits are not indexed
+	truncated: boolean;
+	commits: Map<string, GitHistoryCommit>;
+	byBead: Map<string, BeadCommitLink[]>;
+	byCommit: Map<string, BeadCommitLink[]>;
+}
+
+/** A commit linked to a bead */
+export type BeadCommit = Omit<GitHistoryCommit, 'message'> & {
+	sources: BeadCommitSource[];
+	branch?: string;
+};
+
+const MAX_SCANNED_COMMITS = 2000;
+
+// Subjects git and GitHub write for merges: the merged branch is captured
+const MERGE_SUBJECTS = [
+	/^Merge (?:remote-tracking )?branch '([^']+)'/,
+	/^Merge pull request #\d+ from [^/\s]+\/(\S+)/
+];
+
+const indexCache = new Map<string, BeadCommitIndex>();
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Known bead IDs mentioned anywhere in a piece of text
+ */
+export function findBeadIdsInText(text: string, knownIds: Set<string>): string[] {
+	const found = new Set<string>();
+	for (const token of text.split(/[^A-Za-z0-9._-]+/)) {
+		// Sentence punctuation is not part of an ID
+		const candidate = token.replace(/[.-]+$/, '');
+		if (knownIds.has(candidate)) {
+			found.add(candidate);
+		}
+	}
+	return [...found];
+}
+
+/**
+ * The bead a branch belongs to, if any
+ * A bead's recorded branch_name wins; otherwise a path segment that is a bead
+ * ID, or starts with one followed by '-' (feat/{id}-{slug}), matches.
+ */
+export function matchBranchToBead(branch: string, beads: BeadRef[]): string | null {
+	// Remote branches are named origin/feat/..., so also try without the remote
+	const names = [branch, branch.slice(branch.indexOf('/') + 1)];
+	const recorded = beads.find((bead) => bead.branch_name && names.includes(bead.branch_name));
+	if (recorded) return recorded.id;
+
+	let best: string | null = null;
+	for (const segment of branch.split('/')) {
+		for (const bead of beads) {
+			if (segment !== bead.id && !segment.startsWith(`${bead.id}-`)) continue;
+			if (!best || bead.id.length > best.length) {
+				best = bead.id;
+			}
+		}
+	}
+	return best;
+}
+
+// ============================================================================
+// Index
+// ============================================================================
+
+/**
+ * Scan a repository's history and link commits to beads
+ */
+export function buildBeadCommitIndex(
+	projectPath: string,
+	beads: BeadRef[],
+	options: { maxCommits?: number; fingerprint?: string } = {}
+): BeadCommitIndex {
+	const maxCommits = options.maxCommits ?? MAX_SCANNED_COMMITS;
+	const history = getBranchHistory(projectPath, maxCommits);
+	const knownIds = new Set(beads.map((bead) => bead.id));
+
+	const index: BeadCommitIndex = {
+		fingerprint: options.fingerprint ?? '',
+		builtAt: new Date().toISOString(),
+		scanned: history.length,
+		truncated: history.length >= maxCommits,
+		commits: new Map(history.map((commit) => [commit.hash, commit])),
+		byBead: new Map(),
+		byCommit: new Map()
+	};
+
+	const link = (beadId: string, hash: string, source: BeadCommitSource, branch?: string) => {
+		if (!index.commits.has(hash)) return;
+
+		const links = index.byCommit.get(hash) ?? [];
+		let entry = links.find((l) => l.beadId === beadId);
+		if (!entry) {
+			entry = { beadId, hash, sources: [] };
+			links.push(entry);
+			index.byCommit.set(hash, links);
+			index.byBead.set(beadId, [...(index.byBead.get(beadId) ?? []), entry]);
+		}
+		if (!entry.sources.includes(source)) {
+			entry.sources.push(source);
+		}
+		if (branch && !entry.branch) {
+			entry.branch = branch;
+		}
+	};
+
+	// Messages: trailers first, so a mention of the same bead adds to that link
+	for (const commit of history) {
+		const trailers = getBeadTrailers(commit.message).filter((id) => knownIds.has(id));
+		for (const beadId of trailers) {
+			link(beadId, commit.hash, 'trailer');
+		}
+		const mentioned = findBeadIdsInText(commit.message, knownIds).filter((id) => !trailers.includes(id));
+		for (const beadId of mentioned) {
+			link(beadId, commit.hash, 'message');
+		}
+	}
+
+	// Merges of bead branches bring in that branch's commits
+	for (const commit of history) {
+		if (commit.parents.length < 2) continue;
+
+		const branch = MERGE_SUBJECTS.map((pattern) => pattern.exec(commit.subject)?.[1]).find(Boolean);
+		const beadId = branch ? matchBranchToBead(branch, beads) : null;
+		if (!branch || !beadId) continue;
+
+		link(beadId, commit.hash, 'branch', branch);
+		for (const hash of getCommitsOnlyIn(projectPath, commit.parents[1], [commit.parents[0]])) {
+			link(beadId, hash, 'branch', branch);
+		}
+	}
+
+	// Unmerged work: commits on a bead branch that no other branch has
+	const refs = getBranchRefNames(projectPath);
+	const beadBranches = refs
+		.map((ref) => ({ ref, beadId: matchBranchToBead(ref, beads) }))
+		.filter((entry): entry is { ref: string; beadId: string } => entry.beadId !== null);
+	const otherRefs = refs.filter((ref) => !beadBranches.some((entry) => entry.ref === ref));
+
+	if (otherRefs.length > 0) {
+		for (const { ref, beadId } of beadBranches) {
+			for (const hash of getCommitsOnlyIn(projectPath, ref, otherRefs)) {
+				link(beadId, hash, 'branch', ref);
+			}
+		}
+	}
+
+	// The commit recorded when the bead was submitted, which may be abbreviated
+	for (const bead of beads) {
+		if (!bead.commit_hash) continue;
+		const recorded = bead.commit_hash.trim().toLowerCase();
+		const match = recorded.length >= 7 ? history.find((commit) => commit.hash.startsWith(recorded)) : undefined;
+		if (match) {
+			link(bead.id, match.hash, 'commit_hash');
+		}
+	}
+
+	// Newest first
+	for (const links of index.byBead.values()) {
+		links.sort((a, b) => index.commits.get(b.hash)!.timestamp - index.commits.get(a.hash)!.timestamp);
+	}
+
+	return index;
+}
+
+/**
+ * Get a project's index, rebuilding it if branches or beads changed
+ */
+export function getBeadCommitIndex(projectPath: string): BeadCommitIndex {
+	const beads = getIssueGitRefs(projectPath);
+	const fingerprint = createHash('sha1')
+		.update(getRefsFingerprint(projectPath))
+		.update(JSON.stringify(beads))
+		.digest('hex');
+
+	const cached = indexCache.get(projectPath);
+	if (cached && cached.fingerprint === fingerprint) {
+		return cached;
+	}
+
+	const index = buildBeadCommitIndex(projectPath, beads, { fingerprint });
+	indexCache.set(projectPath, index);
+	return index;
+}
+
+/**
+ * Drop cached indexes, for one project or all of them
+ */
+export function clearBeadCommitIndex(projectPath?: string): void {
+	if (projectPath) {
+		indexCache.delete(projectPath);
+	} else {
+		indexCache.clear();
+	}
+}
+
+// ============================================================================
+// Lookups
+// ============================================================================
+
+/**
+ * Commits linked to a bead, newest first
+ */
+export function getCommitsForBead(index: BeadCommitIndex, beadId: string): BeadCommit[] {
+	return (index.byBead.get(beadId) ?? []).map((link) => {
+		const { hash, shortHash, author, authorEmail, date, timestamp, parents, subject } = index.commits.get(link.hash)!;
+		return { hash, shortHash, author, authorEmail, date, timestamp, parents, subject, sources: link.sources, branch: link.branch };
+	});
+}
+
+/**
+ * Beads a commit is linked to; accepts abbreviated hashes
+ */
+export function getBeadsForCommit(index: BeadCommitIndex, hash: string): BeadCommitLink[] {
+	const wanted = hash.trim().toLowerCase();
+	const exact = index.byCommit.get(wanted);
+	if (exact || wanted.length === 40) {
+		return exact ?? [];
+	}
+	if (wanted.length < 4) {
+		return [];
+	}
+
+	for (const [fullHash, links] of index.byCommit) {
+		if (fullHash.startsWith(wanted)) return links;
+	}
+	return [];
+}
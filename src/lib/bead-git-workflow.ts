@@ -0,0 +1,387 @@
+/**
+ * Bead Git Workflow
+ *
+ * Ties the bead lifecycle to git so the fields it requires are filled in by
+ * the work itself:
+ *
+ * - Claiming a bead (→ in_progress) creates `feat/{bead_id}-{slug}` from the
+ *   project's base branch. The main checkout is never switched; the task
+ *   runner has its agent work on the branch in a worktree.
+ * - Commits made for a bead carry a `Bead: <id>` trailer. The manual commit
+ *   route adds it; agents are asked to add it themselves, and the task runner
+ *   reports run commits without it before review. History is never rewritten.
+ * - Submitting for review (→ in_review) can push the branch and open a PR with
+ *   `gh pr create`, whose body comes from the bead description and
+ *   execution_log. The bead's pr_url, pr_status and ci_status are then set.
+ *
+ * Settings are stored per project in the dashboard database.
+ */
+
+import { getProjectByPath, getProjectGitWorkflowSettings } from './dashboard-db';
+import {
+	branchExists,
+	createBranchAt,
+	createPullRequest,
+	getBranchOnlyCommits,
+	getCIStatus,
+	getCurrentBranch,
+	getPRStatus,
+	isGitRepo,
+	pushBranch
+} from './git-utils';
+import { getIssueByBranch, getIssueWithLifecycle, notifyDbChange, refreshProjectDb, updateIssue } from './project-db';
+import type { Issue } from './types';
+
+export const BEAD_TRAILER_KEY = 'Bead';
+
+/** Status a bead is claimed into */
+export const CLAIMED_STATUS = 'in_progress';
+
+/** Status a bead is submitted for review into */
+export const REVIEW_STATUS = 'in_review';
+
+const MAX_SLUG_LENGTH = 40;
+
+export interface BeadGitSettings {
+	// Branch bead branches start from; empty means the main checkout's current branch
+	baseBranch: string;
+	createBranchOnClaim: boolean;
+	pushOnReview: boolean;
+	// Opening a PR implies pushing
+	openPrOnReview: boolean;
+	draftPullRequests: boolean;
+	updatedAt?: string;
+}
+
+export const DEFAULT_BEAD_GIT_SETTINGS: BeadGitSettings = {
+	baseBranch: '',
+	createBranchOnClaim: true,
+	pushOnReview: false,
+	openPrOnReview: false,
+	draftPullRequests: false
+};
+
+export interface BeadReviewResult {
+	pushed: boolean;
+	prUrl?: string;
+	prCreated?: boolean;
+	updates: Pick<Issue, 'pr_url' | 'pr_status' | 'ci_status'>;
+	error?: string;
+}
+
+export interface BeadGitWorkflowResult {
+	action: 'branch' | 'review';
+	branchName: string;
+	branchCreated?: boolean;
+	baseBranch?: string;
+	pushed?: boolean;
+	prUrl?: string;
+	prCreated?: boolean;
+	error?: string;
+}
+
+// ============================================================================
+// Settings
+// ============================================================================
+
+/**
+ * Validate settings from an API request
+ */
+export function validateBeadGitSettings(input: unknown): { settings: BeadGitSettings | null; errors: string[] } {
+	if (typeof input !== 'object' || input === null) {
+		return { settings: null, errors: ['Settings must be an object'] };
+	}
+
+	const raw = input as Record<string, unknown>;
+	const errors: string[] = [];
+	const settings: BeadGitSettings = { ...DEFAULT_BEAD_GIT_SETTINGS };
+
+	if (raw.baseBranch !== undefined) {
+		if (typeof raw.baseBranch !== 'string' || /\s/.test(raw.baseBranch.trim())) {
+			errors.push('baseBranch must be a branch name');
+		} else {
+			settings.baseBranch = raw.baseBranch.trim();
+		}
+	}
+
+	for (const key of ['createBranchOnClaim', 'pushOnReview', 'openPrOnReview', 'draftPullRequests'] as const) {
+		if (raw[key] === undefined) continue;
+		if (typeof raw[key] !== 'boolean') {
+			errors.push(`${key} must be true or false`);
+		} else {
+			settings[key] = raw[key];
+		}
+	}
+
+	return { settings: errors.length > 0 ? null : settings, errors };
+}
+
+/**
+ * Get a project's settings, falling back to the defaults
+ */
+export function getBeadGitSettings(projectPath: string): BeadGitSettings {
+	const project = getProjectByPath(projectPath);
+	const stored = project ? getProjectGitWorkflowSettings(project.id) : null;
+	return { ...DEFAULT_BEAD_GIT_SETTINGS, ...stored };
+}
+
+// ============================================================================
+// Branches and Trailers
+// ============================================================================
+
+/**
+ * Turn a bead title into a branch-name slug
+ */
+export function slugifyTitle(title: string): string {
+	return title
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-|-$/g, '')
+		.slice(0, MAX_SLUG_LENGTH)
+		.replace(/-$/, '');
+}
+
+/**
+ * Branch name for a bead: feat/{bead_id}-{slug}
+ */
+export function getBeadBranchName(issue: Pick<Issue, 'id' | 'title'>): string {
+	const slug = slugifyTitle(issue.title || '');
+	return slug ? `feat/${issue.id}-${slug}` : `feat/${issue.id}`;
+}
+
+/**
+ * Branch a bead is claimed onto: its recorded branch, or feat/{id}-{slug}
+ * Undefined when the project does not create branches on claim. Both the
+ * issue route and the task runner claim through this.
+ */
+export function getClaimBranchName(
+	projectPath: string,
+	issue: Pick<Issue, 'id' | 'title' | 'branch_name'>
+): string | undefined {
+	if (!getBeadGitSettings(projectPath).createBranchOnClaim) return undefined;
+	return issue.branch_name || getBeadBranchName(issue);
+}
+
+/**
+ * Bead IDs named in a commit message's `Bead:` trailers
+ */
+export function getBeadTrailers(message: string): string[] {
+	const paragraphs = message.trimEnd().split(/\n\s*\n/);
+	const last = paragraphs[paragraphs.length - 1] ?? '';
+	const pattern = new RegExp(`^${BEAD_TRAILER_KEY}:\\s*(\\S+)\\s*$`, 'i');
+
+	return last
+		.split('\n')
+		.map((line) => pattern.exec(line.trim())?.[1])
+		.filter((id): id is string => !!id);
+}
+
+/**
+ * Add a `Bead: <id>` trailer to a commit message, unless it is already there
+ */
+export function addBeadTrailer(message: string, beadId: string): string {
+	const trimmed = message.trimEnd();
+	if (getBeadTrailers(trimmed).includes(beadId)) {
+		return trimmed;
+	}
+
+	const paragraphs = trimmed.split(/\n\s*\n/);
+	const last = paragraphs[paragraphs.length - 1] ?? '';
+	const endsWithTrailers =
+		paragraphs.length > 1 && last.split('\n').every((line) => /^[A-Za-z0-9-]+:\s/.test(line.trim()));
+
+	return `${trimmed}${endsWithTrailers ? '\n' : '\n\n'}${BEAD_TRAILER_KEY}: ${beadId}`;
+}
+
+/**
+ * Commits on a bead's branch that lack its `Bead:` trailer
+ * Only commits no other branch contains yet are checked.
+ */
+export function findCommitsMissingBeadTrailer(projectPath: string, branchName: string, beadId: string): string[] {
+	if (!isGitRepo(projectPath)) return [];
+
+	return getBranchOnlyCommits(projectPath, branchName)
+		.filter((commit) => !getBeadTrailers(commit.message).includes(beadId))
+		.map((commit) => commit.hash);
+}
+
+/**
+ * The claimed bead whose branch is checked out, if any
+ */
+export function findClaimedBeadForBranch(projectPath: string, branchName: string): Issue | undefined {
+	if (!branchName) return undefined;
+	try {
+		return getIssueByBranch(projectPath, branchName, CLAIMED_STATUS);
+	} catch {
+		// No beads database in this repository
+		return undefined;
+	}
+}
+
+/**
+ * Resolve the branch bead branches start from
+ */
+export function resolveBaseBranch(projectPath: string, settings: BeadGitSettings): string {
+	return settings.baseBranch || getCurrentBranch(projectPath) || 'main';
+}
+
+/**
+ * Make sure a bead's branch exists, creating it from the base branch
+ */
+export function ensureBeadBranch(
+	projectPath: string,
+	branchName: string,
+	settings: BeadGitSettings,
+	baseBranch: string = resolveBaseBranch(projectPath, settings)
+): { success: boolean; created: boolean; baseBranch?: string; error?: string } {
+	if (branchExists(projectPath, branchName)) {
+		return { success: true, created: false };
+	}
+
+	// Fall back to the remote-tracking branch when the base only exists on origin
+	const startPoint = branchExists(projectPath, baseBranch) ? baseBranch : `origin/${baseBranch}`;
+	const result = createBranchAt(projectPath, branchName, startPoint);
+
+	return result.success
+		? { success: true, created: true, baseBranch }
+		: { success: false, created: false, baseBranch, error: result.error };
+}
+
+// ============================================================================
+// Review
+// ============================================================================
+
+/**
+ * Pull request body for a bead
+ */
+export function buildPullRequestBody(
+	issue: Pick<Issue, 'id' | 'description' | 'execution_log' | 'commit_hash'>
+): string {
+	const sections: string[] = [];
+
+	sections.push(issue.description?.trim() || '_No description._');
+
+	if (issue.execution_log?.trim()) {
+		sections.push(`## Execution log\n\n${issue.execution_log.trim()}`);
+	}
+
+	const footer = [`${BEAD_TRAILER_KEY}: ${issue.id}`];
+	if (issue.commit_hash) {
+		footer.unshift(`Commit: ${issue.commit_hash}`);
+	}
+	sections.push(`---\n${footer.join('\n')}`);
+
+	return sections.join('\n\n');
+}
+
+/**
+ * Push a bead's branch and open (or find) its pull request
+ */
+export function submitBeadForReview(projectPath: string, issue: Issue, settings: BeadGitSettings): BeadReviewResult {
+	const result: BeadReviewResult = { pushed: false, updates: {} };
+	const branchName = issue.branch_name;
+	if (!branchName) {
+		return { ...result, error: 'Bead has no branch' };
+	}
+
+	const push = pushBranch(projectPath, branchName);
+	if (!push.success) {
+		return { ...result, error: `Push failed: ${push.error}` };
+	}
+	result.pushed = true;
+
+	if (!settings.openPrOnReview) {
+		return result;
+	}
+
+	let prUrl = getPRStatus(projectPath, branchName)?.url;
+	if (!prUrl) {
+		const created = createPullRequest(projectPath, {
+			head: branchName,
+			base: resolveBaseBranch(projectPath, settings),
+			title: `${issue.title} (${issue.id})`,
+			body: buildPullRequestBody(issue),
+			draft: settings.draftPullRequests
+		});
+		if (!created.success || !created.url) {
+			return { ...result, error: `Could not open pull request: ${created.error}` };
+		}
+		prUrl = created.url;
+		result.prCreated = true;
+	}
+
+	result.prUrl = prUrl;
+	result.updates.pr_url = prUrl;
+	result.updates.pr_status = 'open';
+
+	const ci = getCIStatus(projectPath, branchName);
+	if (ci.status !== 'unknown') {
+		result.updates.ci_status = ci.status;
+	}
+
+	return result;
+}
+
+/**
+ * Run the git side of a bead status change
+ * Call after the new status has been saved. Returns null when there was
+ * nothing to do; git failures are reported, never thrown. A claim can name
+ * the branch to start from instead of the project's base, as a parallel
+ * epic's lanes do so they contain the lanes merged before them.
+ */
+export function runBeadGitWorkflow(
+	projectPath: string,
+	issueId: string,
+	toStatus: string,
+	options: { baseBranch?: string } = {}
+): BeadGitWorkflowResult | null {
+	if (toStatus !== CLAIMED_STATUS && toStatus !== REVIEW_STATUS) {
+		return null;
+	}
+
+	const issue = getIssueWithLifecycle(projectPath, issueId);
+	if (!issue?.branch_name || !isGitRepo(projectPath)) {
+		return null;
+	}
+
+	const settings = getBeadGitSettings(projectPath);
+
+	try {
+		if (toStatus === CLAIMED_STATUS) {
+			if (!settings.createBranchOnClaim) return null;
+
+			const branch = ensureBeadBranch(projectPath, issue.branch_name, settings, options.baseBranch);
+			return {
+				action: 'branch',
+				branchName: issue.branch_name,
+				branchCreated: branch.created,
+				baseBranch: branch.baseBranch,
+				error: branch.error
+			};
+		}
+
+		if (!settings.pushOnReview && !settings.openPrOnReview) return null;
+
+		const review = submitBeadForReview(projectPath, issue, settings);
+		if (Object.keys(review.updates).length > 0 && updateIssue(projectPath, issueId, review.updates)) {
+			notifyDbChange(projectPath);
+			refreshProjectDb(projectPath);
+		}
+
+		return {
+			action: 'review',
+			branchName: issue.branch_name,
+			pushed: review.pushed,
+			prUrl: review.prUrl,
+			prCreated: review.prCreated,
+			error: review.error
+		};
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		return {
+			action: toStatus === CLAIMED_STATUS ? 'branch' : 'review',
+			branchName: issue.branch_name,
+			error: message
+		};
+	}
+}
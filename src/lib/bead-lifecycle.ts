@@ -54,13 +54,30 @@
  * | ready → in_progress     | branch_name, agent_id              |
  * | in_progress → in_review | commit_hash, execution_log         |
  *
+ * ## Project Workflows
+ *
+ * The state machine above is the built-in default (`DEFAULT_WORKFLOW`). A project can
+ * replace it with `.beads/workflow.yaml` (see `bead-workflow.ts`), declaring its own
+ * statuses, transitions, required fields and column order. Every function below takes
+ * an optional `workflow` argument and falls back to the default when it is omitted.
+ *
  * ## API Integration
  *
  * The `/api/projects/[id]/issues/[issueId]` PATCH endpoint uses `validateTransition()`
  * to enforce these rules. Invalid transitions return HTTP 400 with error details.
  */
 
-export type BeadStatus = 'open' | 'ready' | 'in_progress' | 'in_review' | 'closed' | 'blocked' | 'deferred';
+export type BuiltInBeadStatus =
+	| 'open'
+	| 'ready'
+	| 'in_progress'
+	| 'in_review'
+	| 'closed'
+	| 'blocked'
+	| 'deferred';
+
+/** Built-in statuses plus any custom status declared by a project workflow */
+export type BeadStatus = BuiltInBeadStatus | (string & {});
 
 /**
  * Valid state transitions for each status.
@@ -73,7 +90,7 @@ export type BeadStatus = 'open' | 'ready' | 'in_progress' | 'in_review' | 'close
  * - closed can only go to open (full cycle restart)
  * - blocked/deferred are parking states that can return to the workflow
  */
-const VALID_TRANSITIONS: Record<BeadStatus, BeadStatus[]> = {
+const VALID_TRANSITIONS: Record<BuiltInBeadStatus, BeadStatus[]> = {
 	open: ['ready', 'blocked', 'deferred', 'closed'],
 	ready: ['in_progress', 'open', 'blocked', 'deferred'],
 	in_progress: ['in_review', 'blocked', 'ready', 'closed'],
@@ -103,6 +120,48 @@ const TRANSITION_REQUIREMENTS: Record<string, TransitionRequirements> = {
 	}
 };
 
+export type TransitionField = keyof TransitionRequirements;
+
+export const TRANSITION_FIELDS: TransitionField[] = [
+	'branch_name',
+	'agent_id',
+	'commit_hash',
+	'execution_log',
+	'pr_url'
+];
+
+export interface WorkflowStatus {
+	id: BeadStatus;
+	label: string;
+	color?: string;
+	description?: string;
+}
+
+/**
+ * A complete bead state machine. Requirement keys use the `from→to` format.
+ */
+export interface WorkflowDefinition {
+	statuses: WorkflowStatus[];
+	transitions: Record<string, BeadStatus[]>;
+	requirements: Record<string, TransitionRequirements>;
+	columns: BeadStatus[];
+}
+
+export const DEFAULT_WORKFLOW: WorkflowDefinition = {
+	statuses: [
+		{ id: 'open', label: 'Open', color: '#3b82f6' },
+		{ id: 'ready', label: 'Ready', color: '#8b5cf6' },
+		{ id: 'in_progress', label: 'In Progress', color: '#f59e0b' },
+		{ id: 'in_review', label: 'In Review', color: '#06b6d4' },
+		{ id: 'blocked', label: 'Blocked', color: '#ef4444' },
+		{ id: 'closed', label: 'Closed', color: '#22c55e' },
+		{ id: 'deferred', label: 'Deferred', color: '#6b7280' }
+	],
+	transitions: VALID_TRANSITIONS,
+	requirements: TRANSITION_REQUIREMENTS,
+	columns: ['open', 'ready', 'in_progress', 'in_review', 'blocked', 'closed']
+};
+
 export interface TransitionData {
 	branch_name?: string;
 	agent_id?: string;
@@ -117,11 +176,47 @@ export interface TransitionResult {
 	missingFields?: string[];
 }
 
+/**
+ * Build the requirements lookup key for a transition
+ */
+export function getTransitionKey(fromStatus: BeadStatus, toStatus: BeadStatus): string {
+	return `${fromStatus}→${toStatus}`;
+}
+
+/**
+ * Check if a status is declared by the workflow
+ */
+export function isWorkflowStatus(
+	status: BeadStatus,
+	workflow: WorkflowDefinition = DEFAULT_WORKFLOW
+): boolean {
+	return workflow.statuses.some((s) => s.id === status);
+}
+
+/**
+ * Get the display label for a status, falling back to a humanized id
+ */
+export function getStatusLabel(
+	status: BeadStatus,
+	workflow: WorkflowDefinition = DEFAULT_WORKFLOW
+): string {
+	const declared = workflow.statuses.find((s) => s.id === status);
+	if (declared) return declared.label;
+	return status
+		.split('_')
+		.map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+		.join(' ');
+}
+
 /**
  * Check if a status transition is valid
  */
-export function isValidTransition(fromStatus: BeadStatus, toStatus: BeadStatus): boolean {
-	const validTargets = VALID_TRANSITIONS[fromStatus];
+export function isValidTransition(
+	fromStatus: BeadStatus,
+	toStatus: BeadStatus,
+	workflow: WorkflowDefinition = DEFAULT_WORKFLOW
+): boolean {
+	const validTargets = workflow.transitions[fromStatus];
 	return validTargets?.includes(toStatus) ?? false;
 }
 
@@ -130,10 +225,23 @@ export function isValidTransition(fromStatus: BeadStatus, toStatus: BeadStatus):
  */
 export function getTransitionRequirements(
 	fromStatus: BeadStatus,
-	toStatus: BeadStatus
+	toStatus: BeadStatus,
+	workflow: WorkflowDefinition = DEFAULT_WORKFLOW
 ): TransitionRequirements | null {
-	const key = `${fromStatus}→${toStatus}`;
-	return TRANSITION_REQUIREMENTS[key] || null;
+	return workflow.requirements[getTransitionKey(fromStatus, toStatus)] || null;
+}
+
+/**
+ * Get the required fields for a specific transition, in canonical order
+ */
+export function getRequiredFields(
+	fromStatus: BeadStatus,
+	toStatus: BeadStatus,
+	workflow: WorkflowDefinition = DEFAULT_WORKFLOW
+): TransitionField[] {
+	const requirements = getTransitionRequirements(fromStatus, toStatus, workflow);
+	if (!requirements) return [];
+	return TRANSITION_FIELDS.filter((field) => requirements[field]);
 }
 
 /**
@@ -142,36 +250,21 @@ export function getTransitionRequirements(
 export function validateTransition(
 	fromStatus: BeadStatus,
 	toStatus: BeadStatus,
-	data: TransitionData = {}
+	data: TransitionData = {},
+	workflow: WorkflowDefinition = DEFAULT_WORKFLOW
 ): TransitionResult {
 	// Check if transition is valid
-	if (!isValidTransition(fromStatus, toStatus)) {
+	if (!isValidTransition(fromStatus, toStatus, workflow)) {
 		return {
 			valid: false,
-			error: `Invalid transition from '${fromStatus}' to '${toStatus}'. Valid targets: ${VALID_TRANSITIONS[fromStatus]?.join(', ') || 'none'}`
+			error: `Invalid transition from '${fromStatus}' to '${toStatus}'. Valid targets: ${workflow.transitions[fromStatus]?.join(', ') || 'none'}`
 		};
 	}
 
 	// Check required fields
-	const requirements = getTransitionRequirements(fromStatus, toStatus);
-	if (requirements) {
-		const missingFields: string[] = [];
-
-		if (requirements.branch_name && !data.branch_name?.trim()) {
-			missingFields.push('branch_name');
-		}
-		if (requirements.agent_id && !data.agent_id?.trim()) {
-			missingFields.push('agent_id');
-		}
-		if (requirements.commit_hash && !data.commit_hash?.trim()) {
-			missingFields.push('commit_hash');
-		}
-		if (requirements.execution_log && !data.execution_log?.trim()) {
-			missingFields.push('execution_log');
-		}
-		if (requirements.pr_url && !data.pr_url?.trim()) {
-			missingFields.push('pr_url');
-		}
+	const requiredFields = getRequiredFields(fromStatus, toStatus, workflow);
+	if (requiredFields.length > 0) {
+		const missingFields = requiredFields.filter((field) => !data[field]?.trim());
 
 		if (missingFields.length > 0) {
 			return {
@@ -188,7 +281,11 @@ export function validateTransition(
 /**
  * Get user-friendly description of a transition
  */
-export function getTransitionDescription(fromStatus: BeadStatus, toStatus: BeadStatus): string {
+export function getTransitionDescription(
+	fromStatus: BeadStatus,
+	toStatus: BeadStatus,
+	workflow: WorkflowDefinition = DEFAULT_WORKFLOW
+): string {
 	const descriptions: Record<string, string> = {
 		'open→ready': 'Mark bead as ready for execution',
 		'ready→in_progress': 'Claim bead for execution (requires branch name and agent)',
@@ -200,24 +297,63 @@ export function getTransitionDescription(fromStatus: BeadStatus, toStatus: BeadS
 		'*→deferred': 'Defer bead'
 	};
 
-	return (
-		descriptions[`${fromStatus}→${toStatus}`] ||
-		descriptions[`*→${toStatus}`] ||
-		`Change status from ${fromStatus} to ${toStatus}`
-	);
+	const known = descriptions[`${fromStatus}→${toStatus}`] || descriptions[`*→${toStatus}`];
+	if (known) return known;
+
+	const target = workflow.statuses.find((s) => s.id === toStatus);
+	if (target?.description) return target.description;
+
+	const requiredFields = getRequiredFields(fromStatus, toStatus, workflow);
+	const generic = `Change status from ${fromStatus} to ${toStatus}`;
+	return requiredFields.length > 0
+		? `${generic} (requires ${requiredFields.map((f) => f.replace('_', ' ')).join(', ')})`
+		: generic;
 }
 
 /**
  * Get all valid target statuses from current status
  */
-export function getValidTargetStatuses(fromStatus: BeadStatus): BeadStatus[] {
-	return VALID_TRANSITIONS[fromStatus] || [];
+export function getValidTargetStatuses(
+	fromStatus: BeadStatus,
+	workflow: WorkflowDefinition = DEFAULT_WORKFLOW
+): BeadStatus[] {
+	return workflow.transitions[fromStatus] || [];
 }
 
 /**
  * Check if transition requires a modal (has required fields)
  */
-export function transitionRequiresModal(fromStatus: BeadStatus, toStatus: BeadStatus): boolean {
-	const key = `${fromStatus}→${toStatus}`;
-	return key in TRANSITION_REQUIREMENTS;
+export function transitionRequiresModal(
+	fromStatus: BeadStatus,
+	toStatus: BeadStatus,
+	workflow: WorkflowDefinition = DEFAULT_WORKFLOW
+): boolean {
+	return getRequiredFields(fromStatus, toStatus, workflow).length > 0;
+}
+
+export type TransitionModal = 'claim' | 'complete' | 'fields';
+
+const CLAIM_FIELDS: TransitionField[] = ['branch_name', 'agent_id'];
+const COMPLETE_FIELDS: TransitionField[] = ['commit_hash', 'execution_log'];
+
+/**
+ * Pick the dialog that collects a transition's required fields.
+ * The claim/complete dialogs cover the built-in transitions; anything else
+ * declared by a project workflow uses the generic fields dialog.
+ */
+export function getTransitionModal(
+	fromStatus: BeadStatus,
+	toStatus: BeadStatus,
+	workflow: WorkflowDefinition = DEFAULT_WORKFLOW
+): TransitionModal | null {
+	const requiredFields = getRequiredFields(fromStatus, toStatus, workflow);
+	if (requiredFields.length === 0) return null;
+
+	if (toStatus === 'in_progress' && requiredFields.every((f) => CLAIM_FIELDS.includes(f))) {
+		return 'claim';
+	}
+	if (toStatus === 'in_review' && requiredFields.every((f) => COMPLETE_FIELDS.includes(f))) {
+		return 'complete';
+	}
+	return 'fields';
 }
@@ -1,8 +1,19 @@
 /**
  * Bead Data Validation
  * Validates timestamps, status values, and field formats
+ *
+ * Status and lifecycle checks follow the project's workflow definition when one
+ * is passed, and the built-in state machine otherwise.
  */
 
+import {
+	DEFAULT_WORKFLOW,
+	getRequiredFields,
+	getTransitionKey,
+	type TransitionField,
+	type WorkflowDefinition
+} from './bead-lifecycle';
+
 export interface ValidationResult {
 	valid: boolean;
 	errors: ValidationError[];
@@ -21,8 +32,8 @@ export interface ValidationWarning {
 	value?: unknown;
 }
 
-// Valid status values
-const VALID_STATUSES = ['open', 'ready', 'in_progress', 'in_review', 'closed', 'blocked', 'deferred', 'tombstone'];
+// Internal statuses used by the bd CLI that are valid in every workflow
+const SYSTEM_STATUSES = ['tombstone'];
 
 // Legacy status mappings
 const STATUS_MAPPINGS: Record<string, string> = {
@@ -33,32 +44,65 @@ const STATUS_MAPPINGS: Record<string, string> = {
 	review: 'in_review'
 };
 
+// Human-readable names for lifecycle fields
+const FIELD_LABELS: Record<TransitionField, string> = {
+	branch_name: 'Branch name',
+	agent_id: 'Agent ID',
+	commit_hash: 'Commit hash',
+	execution_log: 'Execution log',
+	pr_url: 'PR URL'
+};
+
+// Wording for the built-in transitions; others use a generic message
+const TRANSITION_CONTEXT: Record<string, string> = {
+	'ready→in_progress': 'when claiming a bead',
+	'in_progress→in_review': 'when submitting for review'
+};
+
+/**
+ * Get every status value accepted by a workflow, including system statuses
+ */
+export function getValidStatuses(workflow: WorkflowDefinition = DEFAULT_WORKFLOW): string[] {
+	return [...workflow.statuses.map((s) => s.id), ...SYSTEM_STATUSES];
+}
+
 /**
  * Validate and normalize a status value
  */
-export function normalizeStatus(status: string): string {
+export function normalizeStatus(
+	status: string,
+	workflow: WorkflowDefinition = DEFAULT_WORKFLOW
+): string {
 	const lower = status.toLowerCase().trim();
+	const validStatuses = getValidStatuses(workflow);
 
 	// Check for exact match
-	if (VALID_STATUSES.includes(lower)) {
+	if (validStatuses.includes(lower)) {
 		return lower;
 	}
 
-	// Check for legacy mapping
-	if (lower in STATUS_MAPPINGS) {
+	// Check for legacy mapping (only if the workflow still has the target status)
+	if (lower in STATUS_MAPPINGS && validStatuses.includes(STATUS_MAPPINGS[lower])) {
 		return STATUS_MAPPINGS[lower];
 	}
 
-	// Default to open if unknown
-	return 'open';
+	// Default to the workflow's first status if unknown
+	return workflow.statuses[0]?.id ?? 'open';
 }
 
 /**
  * Check if a status value is valid
  */
-export function isValidStatus(status: string): boolean {
+export function isValidStatus(
+	status: string,
+	workflow: WorkflowDefinition = DEFAULT_WORKFLOW
+): boolean {
 	const lower = status.toLowerCase().trim();
-	return VALID_STATUSES.includes(lower) || lower in STATUS_MAPPINGS;
+	const validStatuses = getValidStatuses(workflow);
+	return (
+		validStatuses.includes(lower) ||
+		(lower in STATUS_MAPPINGS && validStatuses.includes(STATUS_MAPPINGS[lower]))
+	);
 }
 
 /**
@@ -178,39 +222,21 @@ export function validateLifecycleFields(
 		commit_hash?: string;
 		execution_log?: string;
 		pr_url?: string;
-	}
+	},
+	workflow: WorkflowDefinition = DEFAULT_WORKFLOW
 ): ValidationResult {
 	const errors: ValidationError[] = [];
 	const warnings: ValidationWarning[] = [];
 
-	// Validate ready → in_progress transition
-	if (fromStatus === 'ready' && toStatus === 'in_progress') {
-		if (!data.branch_name?.trim()) {
+	// Validate fields required by the workflow for this transition
+	const context =
+		TRANSITION_CONTEXT[getTransitionKey(fromStatus, toStatus)] ??
+		`for ${fromStatus}→${toStatus} transition`;
+	for (const field of getRequiredFields(fromStatus, toStatus, workflow)) {
+		if (!data[field]?.trim()) {
 			errors.push({
-				field: 'branch_name',
-				message: 'Branch name is required when claiming a bead'
-			});
-		}
-		if (!data.agent_id?.trim()) {
-			errors.push({
-				field: 'agent_id',
-				message: 'Agent ID is required when claiming a bead'
-			});
-		}
-	}
-
-	// Validate in_progress → in_review transition
-	if (fromStatus === 'in_progress' && toStatus === 'in_review') {
-		if (!data.commit_hash?.trim()) {
-			errors.push({
-				field: 'commit_hash',
-				message: 'Commit hash is required when submitting for review'
-			});
-		}
-		if (!data.execution_log?.trim()) {
-			errors.push({
-				field: 'execution_log',
-				message: 'Execution log is required when submitting for review'
+				field,
+				message: `${FIELD_LABELS[field]} is required ${context}`
 			});
 		}
 	}
@@ -253,14 +279,17 @@ export function validateLifecycleFields(
 /**
  * Validate all fields of a bead/issue
  */
-export function validateBead(bead: {
-	id?: string;
-	title?: string;
-	status?: string;
-	created_at?: string;
-	updated_at?: string;
-	assignee?: string | null;
-}): ValidationResult {
+export function validateBead(
+	bead: {
+		id?: string;
+		title?: string;
+		status?: string;
+		created_at?: string;
+		updated_at?: string;
+		assignee?: string | null;
+	},
+	workflow: WorkflowDefinition = DEFAULT_WORKFLOW
+): ValidationResult {
 	const errors: ValidationError[] = [];
 	const warnings: ValidationWarning[] = [];
 
@@ -281,7 +310,7 @@ export function validateBead(bead: {
 	}
 
 	// Validate status
-	if (bead.status && !isValidStatus(bead.status)) {
+	if (bead.status && !isValidStatus(bead.status, workflow)) {
 		warnings.push({
 			field: 'status',
 			message: `Unknown status '${bead.status}', will be normalized`,
@@ -0,0 +1,315 @@
+/**
+ * Project Workflow Definitions
+ *
+ * Loads a project's bead state machine from `.beads/workflow.yaml`. Projects
+ * without the file (or with an invalid one) use the built-in `DEFAULT_WORKFLOW`
+ * from `bead-lifecycle.ts`.
+ *
+ * ## File Format
+ *
+ * ```yaml
+ * statuses:
+ *   - open
+ *   - ready
+ *   - in_progress
+ *   - in_review
+ *   - id: qa
+ *     label: QA
+ *     color: "#ec4899"
+ *   - closed
+ *   - blocked
+ *   - deferred
+ * transitions:
+ *   open: [ready, blocked, deferred, closed]
+ *   in_review: [qa, in_progress]
+ *   qa: [closed, in_progress]
+ *   # ...
+ * requirements:
+ *   ready -> in_progress: [branch_name, agent_id]
+ *   in_review -> qa: [pr_url]
+ * columns: [open, ready, in_progress, in_review, qa, blocked, closed]
+ * ```
+ *
+ * Every section is optional; an omitted section falls back to the default
+ * workflow's. Statuses listed by id only inherit the built-in label and color.
+ * Omitted columns default to every declared status except `deferred`.
+ */
+
+import { parse as parseYaml } from 'yaml';
+import fs from 'fs';
+import path from 'path';
+import {
+	DEFAULT_WORKFLOW,
+	TRANSITION_FIELDS,
+	getTransitionKey,
+	type BeadStatus,
+	type TransitionField,
+	type TransitionRequirements,
+	type WorkflowDefinition,
+	type WorkflowStatus
+} from './bead-lifecycle';
+
+export const WORKFLOW_FILE = 'workflow.yaml';
+
+export interface LoadedWorkflow {
+	workflow: WorkflowDefinition;
+	source: 'default' | 'file';
+	errors: string[];
+}
+
+interface WorkflowCacheEntry {
+	mtimeMs: number;
+	loaded: LoadedWorkflow;
+}
+
+const workflowCache = new Map<string, WorkflowCacheEntry>();
+
+/**
+ * Get the workflow file path for a project
+ */
+export function getWorkflowPath(projectPath: string): string {
+	return path.join(projectPath, '.beads', WORKFLOW_FILE);
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toStatusList(value: unknown): string[] | null {
+	if (typeof value === 'string') return [value];
+	if (Array.isArray(value) && value.every((v) => typeof v === 'string')) return value;
+	return null;
+}
+
+function parseStatuses(value: unknown, errors: string[]): WorkflowStatus[] {
+	if (!Array.isArray(value) || value.length === 0) {
+		errors.push('statuses must be a non-empty list');
+		return [];
+	}
+
+	const statuses: WorkflowStatus[] = [];
+	for (const entry of value) {
+		const raw = typeof entry === 'string' ? { id: entry } : entry;
+		if (!isRecord(raw) || typeof raw.id !== 'string' || !raw.id.trim()) {
+			errors.push(`Invalid status entry: ${JSON.stringify(entry)}`);
+			continue;
+		}
+
+		const id = raw.id.trim();
+		if (statuses.some((s) => s.id === id)) {
+			errors.push(`Duplicate status '${id}'`);
+			continue;
+		}
+
+		const builtIn = DEFAULT_WORKFLOW.statuses.find((s) => s.id === id);
+		statuses.push({
+			id,
+			label: typeof raw.label === 'string' ? raw.label : builtIn?.label || id,
+			color: typeof raw.color === 'string' ? raw.color : builtIn?.color,
+			description: typeof raw.description === 'string' ? raw.description : undefined
+		});
+	}
+	return statuses;
+}
+
+function parseTransitions(value: unknown, errors: string[]): Record<string, BeadStatus[]> {
+	if (!isRecord(value)) {
+		errors.push('transitions must be a map of status to target statuses');
+		return {};
+	}
+
+	const transitions: Record<string, BeadStatus[]> = {};
+	for (const [from, targets] of Object.entries(value)) {
+		const list = targets === null ? [] : toStatusList(targets);
+		if (!list) {
+			errors.push(`transitions.${from} must be a status or list of statuses`);
+			continue;
+		}
+		transitions[from] = list;
+	}
+	return transitions;
+}
+
+function parseRequirements(
+	value: unknown,
+	errors: string[]
+): Record<string, TransitionRequirements> {
+	if (!isRecord(value)) {
+		errors.push('requirements must be a map of "from -> to" to field lists');
+		return {};
+	}
+
+	const requirements: Record<string, TransitionRequirements> = {};
+	for (const [key, fields] of Object.entries(value)) {
+		const match = key.match(/^\s*(\S+?)\s*(?:->|→)\s*(\S+)\s*$/);
+		if (!match) {
+			errors.push(`Invalid requirement key '${key}' (expected "from -> to")`);
+			continue;
+		}
+
+		const list = toStatusList(fields);
+		if (!list) {
+			errors.push(`requirements['${key}'] must be a field or list of fields`);
+			continue;
+		}
+
+		const unknown = list.filter((f) => !TRANSITION_FIELDS.includes(f as TransitionField));
+		if (unknown.length > 0) {
+			errors.push(
+				`Unknown required field(s) ${unknown.join(', ')} for '${key}'. Allowed: ${TRANSITION_FIELDS.join(', ')}`
+			);
+			continue;
+		}
+
+		const entry: TransitionRequirements = {};
+		for (const field of list) {
+			entry[field as TransitionField] = true;
+		}
+		requirements[getTransitionKey(match[1], match[2])] = entry;
+	}
+	return requirements;
+}
+
+/**
+ * Check that every status referenced by the workflow is declared
+ */
+function validateReferences(workflow: WorkflowDefinition, errors: string[]): void {
+	const declared = new Set(workflow.statuses.map((s) => s.id));
+	const check = (status: string, where: string) => {
+		if (!declared.has(status)) {
+			errors.push(`Undeclared status '${status}' in ${where}`);
+		}
+	};
+
+	for (const [from, targets] of Object.entries(workflow.transitions)) {
+		check(from, 'transitions');
+		for (const to of targets) check(to, `transitions.${from}`);
+	}
+
+	for (const key of Object.keys(workflow.requirements)) {
+		const [from, to] = key.split('→');
+		if (!workflow.transitions[from]?.includes(to)) {
+			errors.push(`Requirement '${from} -> ${to}' is not an allowed transition`);
+		}
+	}
+
+	for (const column of workflow.columns) {
+		check(column, 'columns');
+	}
+}
+
+/**
+ * Parse workflow YAML content. Returns the default workflow with errors when invalid.
+ */
+export function parseWorkflow(content: string): LoadedWorkflow {
+	let raw: unknown;
+	try {
+		raw = parseYaml(content);
+	} catch (e) {
+		return {
+			workflow: DEFAULT_WORKFLOW,
+			source: 'default',
+			errors: [`Invalid YAML: ${e instanceof Error ? e.message : String(e)}`]
+		};
+	}
+
+	if (raw === null || raw === undefined) {
+		return { workflow: DEFAULT_WORKFLOW, source: 'default', errors: [] };
+	}
+	if (!isRecord(raw)) {
+		return {
+			workflow: DEFAULT_WORKFLOW,
+			source: 'default',
+			errors: ['Workflow file must contain a map']
+		};
+	}
+
+	const errors: string[] = [];
+	const statuses =
+		raw.statuses !== undefined ? parseStatuses(raw.statuses, errors) : DEFAULT_WORKFLOW.statuses;
+	const transitions =
+		raw.transitions !== undefined
+			? parseTransitions(raw.transitions, errors)
+			: DEFAULT_WORKFLOW.transitions;
+	const requirements =
+		raw.requirements !== undefined
+			? parseRequirements(raw.requirements, errors)
+			: DEFAULT_WORKFLOW.requirements;
+
+	let columns: BeadStatus[];
+	if (raw.columns !== undefined) {
+		columns = toStatusList(raw.columns) ?? [];
+		if (columns.length === 0) {
+			errors.push('columns must be a non-empty list of statuses');
+		}
+	} else if (raw.statuses !== undefined) {
+		columns = statuses.map((s) => s.id).filter((id) => id !== 'deferred');
+	} else {
+		columns = DEFAULT_WORKFLOW.columns;
+	}
+
+	const workflow: WorkflowDefinition = { statuses, transitions, requirements, columns };
+	if (errors.length === 0) {
+		validateReferences(workflow, errors);
+	}
+
+	if (errors.length > 0) {
+		return { workflow: DEFAULT_WORKFLOW, source: 'default', errors };
+	}
+	return { workflow, source: 'file', errors: [] };
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Load a project's workflow, cached until the file changes
+ */
+export function loadProjectWorkflow(projectPath: string): LoadedWorkflow {
+	const workflowPath = getWorkflowPath(projectPath);
+
+	let mtimeMs: number;
+	try {
+		mtimeMs = fs.statSync(workflowPath).mtimeMs;
+	} catch {
+		workflowCache.delete(workflowPath);
+		return { workflow: DEFAULT_WORKFLOW, source: 'default', errors: [] };
+	}
+
+	const cached = workflowCache.get(workflowPath);
+	if (cached && cached.mtimeMs === mtimeMs) {
+		return cached.loaded;
+	}
+
+	let loaded: LoadedWorkflow;
+	try {
+		loaded = parseWorkflow(fs.readFileSync(workflowPath, 'utf-8'));
+	} catch (e) {
+		loaded = {
+			workflow: DEFAULT_WORKFLOW,
+			source: 'default',
+			errors: [`Failed to read ${WORKFLOW_FILE}: ${e instanceof Error ? e.message : String(e)}`]
+		};
+	}
+
+	if (loaded.errors.length > 0) {
+		console.warn(
+			`[BeadWorkflow] Ignoring invalid ${workflowPath}, using default workflow:\n  ${loaded.errors.join('\n  ')}`
+		);
+	}
+
+	workflowCache.set(workflowPath, { mtimeMs, loaded });
+	return loaded;
+}
+
+/**
+ * Get the effective workflow definition for a project
+ */
+export function getProjectWorkflow(projectPath: string): WorkflowDefinition {
+	return loadProjectWorkflow(projectPath).workflow;
+}
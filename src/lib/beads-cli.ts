@@ -1,12 +1,64 @@
 /**
  * Server-side Beads CLI utilities
  * This file contains functions that use Node.js APIs and should only be used server-side
+ *
+ * All bead writes go through the bd CLI so the dashboard never writes beads.db
+ * directly for issue content, dependencies, comments or labels.
  */
 
-import { execSync } from 'child_process';
+import { execFileSync } from 'child_process';
 import path from 'path';
 import os from 'os';
 
+// Default timeout for bd write commands
+const BD_TIMEOUT_MS = 10000;
+
+export type BdErrorCode =
+	| 'BD_NOT_FOUND'
+	| 'TIMEOUT'
+	| 'ISSUE_NOT_FOUND'
+	| 'CYCLE'
+	| 'DUPLICATE'
+	| 'INVALID_ARGUMENT'
+	| 'COMMAND_FAILED';
+
+/**
+ * Result of a bd command. Failures carry the parsed error message and a code.
+ */
+export interface BdResult<T = undefined> {
+	success: boolean;
+	data?: T;
+	error?: string;
+	errorCode?: BdErrorCode;
+}
+
+export type BeadDependencyType = 'blocks' | 'parent-child' | 'related' | 'discovered-from';
+
+export const BEAD_DEPENDENCY_TYPES: BeadDependencyType[] = [
+	'blocks',
+	'parent-child',
+	'related',
+	'discovered-from'
+];
+
+export interface CreateBeadInput {
+	title: string;
+	description?: string;
+	issueType?: string;
+	priority?: number;
+	assignee?: string;
+	labels?: string[];
+	/** Epic to create the bead under (parent-child dependency) */
+	parentId?: string;
+}
+
+export interface EditBeadInput {
+	title?: string;
+	description?: string;
+	priority?: number;
+	assignee?: string;
+}
+
 /**
  * Get the path to the bd CLI
  */
@@ -14,29 +66,164 @@ function getBdPath(): string {
 	return path.join(os.homedir(), '.beads-dashboard', 'bin', 'bd');
 }
 
+// ============================================================================
+// Command Execution
+// ============================================================================
+
 /**
- * Get bd prime output for a project
- * This provides dynamic, up-to-date Beads workflow context
+ * Extract a readable message and error code from bd's output
  */
-export function getBdPrimeContext(projectPath: string): string | null {
-	try {
-		const bdPath = getBdPath();
+export function parseBdError(stderr: string, stdout = ''): { message: string; code: BdErrorCode } {
+	const output = `${stderr}\n${stdout}`;
+	const lines = output
+		.split('\n')
+		.map((line) => line.trim())
+		.filter(Boolean);
+	const errorLine = lines.find((line) => /^error:/i.test(line));
+	const message = (errorLine ?? lines[0] ?? 'bd command failed').replace(/^error:\s*/i, '');
+
+	let code: BdErrorCode = 'COMMAND_FAILED';
+	if (/not found|no issue|does not exist/i.test(message)) {
+		code = 'ISSUE_NOT_FOUND';
+	} else if (/cycle/i.test(message)) {
+		code = 'CYCLE';
+	} else if (/already exists|duplicate/i.test(message)) {
+		code = 'DUPLICATE';
+	} else if (/invalid|unknown (flag|command|shorthand)|required|must be|accepts \d+ arg/i.test(message)) {
+		code = 'INVALID_ARGUMENT';
+	}
+
+	return { message, code };
+}
+
+/**
+ * Map a bd error code to an HTTP status for API routes
+ */
+export function bdErrorStatus(code: BdErrorCode | undefined): number {
+	switch (code) {
+		case 'ISSUE_NOT_FOUND':
+			return 404;
+		case 'CYCLE':
+		case 'DUPLICATE':
+			return 409;
+		case 'INVALID_ARGUMENT':
+			return 400;
+		case 'TIMEOUT':
+			return 504;
+		default:
+			return 500;
+	}
+}
+
+/**
+ * Run bd with arguments (no shell) in a project directory
+ */
+function runBd(
+	projectPath: string,
+	args: string[],
+	options: { actor?: string; timeout?: number } = {}
+): BdResult<string> {
+	const fullArgs = options.actor ? ['--actor', options.actor, ...args] : args;
 
-		// Run bd prime in the project directory
-		const output = execSync(`"${bdPath}" prime`, {
+	try {
+		const output = execFileSync(getBdPath(), fullArgs, {
 			cwd: projectPath,
 			encoding: 'utf-8',
-			timeout: 5000, // 5 second timeout
+			timeout: options.timeout ?? BD_TIMEOUT_MS,
 			stdio: ['pipe', 'pipe', 'pipe']
 		});
-
-		return output.trim();
+		return { success: true, data: output };
 	} catch (error) {
-		console.error('[beads-cli] Failed to get bd prime context:', error);
-		return null;
+		const err = error as NodeJS.ErrnoException & {
+			stdout?: string;
+			stderr?: string;
+			signal?: string;
+		};
+
+		let result: { message: string; code: BdErrorCode };
+		if (err.code === 'ENOENT') {
+			result = { message: `bd CLI not found at ${getBdPath()}`, code: 'BD_NOT_FOUND' };
+		} else if (err.code === 'ETIMEDOUT' || err.signal === 'SIGTERM') {
+			result = { message: `bd ${args[0]} timed out`, code: 'TIMEOUT' };
+		} else {
+			result = parseBdError(err.stderr ?? '', err.stdout ?? '');
+		}
+
+		console.error(`[beads-cli] bd ${args.slice(0, 2).join(' ')} failed:`, result.message);
+		return { success: false, error: result.message, errorCode: result.code };
 	}
 }
 
+/**
+ * Run a bd command with --json and parse its output
+ */
+function runBdJson<T>(
+	projectPath: string,
+	args: string[],
+	options: { actor?: string } = {}
+): BdResult<T> {
+	const result = runBd(projectPath, [...args, '--json'], options);
+	if (!result.success) {
+		return { success: false, error: result.error, errorCode: result.errorCode };
+	}
+
+	try {
+		const parsed = JSON.parse(result.data || 'null');
+		// Some commands return a list even for a single issue
+		return { success: true, data: (Array.isArray(parsed) ? parsed[0] : parsed) as T };
+	} catch {
+		return { success: false, error: 'Unexpected output from bd', errorCode: 'COMMAND_FAILED' };
+	}
+}
+
+function withoutData(result: BdResult<string>): BdResult {
+	return { success: result.success, error: result.error, errorCode: result.errorCode };
+}
+
+// ============================================================================
+// Argument Builders
+// ============================================================================
+
+/**
+ * Build arguments for `bd create`
+ * The title is passed with --title so one starting with '-' is not read as a flag.
+ */
+export function buildCreateArgs(input: CreateBeadInput): string[] {
+	const args = ['create', '--title', input.title];
+	if (input.description) args.push('--description', input.description);
+	if (input.issueType) args.push('--type', input.issueType);
+	if (input.priority !== undefined) args.push('--priority', String(input.priority));
+	if (input.assignee) args.push('--assignee', input.assignee);
+	if (input.labels && input.labels.length > 0) args.push('--labels', input.labels.join(','));
+	if (input.parentId) args.push('--deps', `parent-child:${input.parentId}`);
+	return args;
+}
+
+/**
+ * Build arguments for `bd update` (content fields only)
+ */
+export function buildEditArgs(issueId: string, input: EditBeadInput): string[] {
+	const args = ['update', issueId];
+	if (input.title !== undefined) args.push('--title', input.title);
+	if (input.description !== undefined) args.push('--description', input.description);
+	if (input.priority !== undefined) args.push('--priority', String(input.priority));
+	if (input.assignee !== undefined) args.push('--assignee', input.assignee);
+	return args;
+}
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+/**
+ * Get bd prime output for a project
+ * This provides dynamic, up-to-date Beads workflow context
+ */
+export function getBdPrimeContext(projectPath: string): string | null {
+	const result = runBd(projectPath, ['prime'], { timeout: 5000 });
+	return result.success ? (result.data ?? '').trim() : null;
+}
+
 /**
  * Close a bead using the bd CLI
  *
@@ -45,35 +232,12 @@ export function getBdPrimeContext(projectPath: string): string | null {
  * @param reason - Optional reason for closing
  * @returns Object with success status and optional error message
  */
-export function closeBead(
-	projectPath: string,
-	issueId: string,
-	reason?: string
-): { success: boolean; error?: string } {
-	try {
-		const bdPath = getBdPath();
-
-		// Build the command
-		let cmd = `"${bdPath}" close "${issueId}"`;
-		if (reason) {
-			// Escape quotes in reason
-			const escapedReason = reason.replace(/"/g, '\\"');
-			cmd += ` --reason="${escapedReason}"`;
-		}
-
-		execSync(cmd, {
-			cwd: projectPath,
-			encoding: 'utf-8',
-			timeout: 10000, // 10 second timeout
-			stdio: ['pipe', 'pipe', 'pipe']
-		});
-
-		return { success: true };
-	} catch (error) {
-		const message = error instanceof Error ? error.message : 'Unknown error';
-		console.error('[beads-cli] Failed to close bead:', message);
-		return { success: false, error: message };
+export function closeBead(projectPath: string, issueId: string, reason?: string): BdResult {
+	const args = ['close', issueId];
+	if (reason) {
+		args.push('--reason', reason);
 	}
+	return withoutData(runBd(projectPath, args));
 }
 
 /**
@@ -84,27 +248,116 @@ export function closeBead(
  * @param status - The new status
  * @returns Object with success status and optional error message
  */
-export function updateBeadStatus(
+export function updateBeadStatus(projectPath: string, issueId: string, status: string): BdResult {
+	return withoutData(runBd(projectPath, ['update', issueId, '--status', status]));
+}
+
+/**
+ * Create a bead, optionally under an epic
+ * @returns The new bead's ID
+ */
+export function createBead(
+	projectPath: string,
+	input: CreateBeadInput,
+	actor?: string
+): BdResult<{ id: string }> {
+	if (!input.title.trim()) {
+		return { success: false, error: 'Title is required', errorCode: 'INVALID_ARGUMENT' };
+	}
+
+	const result = runBdJson<{ id?: string }>(projectPath, buildCreateArgs(input), { actor });
+	if (!result.success) {
+		return { success: false, error: result.error, errorCode: result.errorCode };
+	}
+	if (!result.data?.id) {
+		return { success: false, error: 'bd did not return the new bead ID', errorCode: 'COMMAND_FAILED' };
+	}
+	return { success: true, data: { id: result.data.id } };
+}
+
+/**
+ * Edit a bead's title, description, priority or assignee
+ */
+export function editBead(
 	projectPath: string,
 	issueId: string,
-	status: string
-): { success: boolean; error?: string } {
-	try {
-		const bdPath = getBdPath();
+	input: EditBeadInput,
+	actor?: string
+): BdResult {
+	const args = buildEditArgs(issueId, input);
+	if (args.length === 2) {
+		return { success: false, error: 'No fields to update', errorCode: 'INVALID_ARGUMENT' };
+	}
+	return withoutData(runBd(projectPath, args, { actor }));
+}
 
-		const cmd = `"${bdPath}" update "${issueId}" --status="${status}"`;
+/**
+ * Add a dependency: `issueId` depends on `dependsOnId`.
+ * For 'blocks', dependsOnId blocks issueId; for 'parent-child', dependsOnId is the parent.
+ */
+export function addDependency(
+	projectPath: string,
+	issueId: string,
+	dependsOnId: string,
+	type: BeadDependencyType = 'blocks',
+	actor?: string
+): BdResult {
+	if (issueId === dependsOnId) {
+		return { success: false, error: 'A bead cannot depend on itself', errorCode: 'CYCLE' };
+	}
+	return withoutData(
+		runBd(projectPath, ['dep', 'add', issueId, dependsOnId, '--type', type], { actor })
+	);
+}
 
-		execSync(cmd, {
-			cwd: projectPath,
-			encoding: 'utf-8',
-			timeout: 10000,
-			stdio: ['pipe', 'pipe', 'pipe']
-		});
+/**
+ * Remove a dependency between two beads
+ */
+export function removeDependency(
+	projectPath: string,
+	issueId: string,
+	dependsOnId: string,
+	actor?: string
+): BdResult {
+	return withoutData(runBd(projectPath, ['dep', 'remove', issueId, dependsOnId], { actor }));
+}
 
-		return { success: true };
-	} catch (error) {
-		const message = error instanceof Error ? error.message : 'Unknown error';
-		console.error('[beads-cli] Failed to update bead status:', message);
-		return { success: false, error: message };
+/**
+ * Add a comment to a bead
+ */
+export function addComment(
+	projectPath: string,
+	issueId: string,
+	text: string,
+	author?: string
+): BdResult {
+	if (!text.trim()) {
+		return { success: false, error: 'Comment text is required', errorCode: 'INVALID_ARGUMENT' };
 	}
+	// '--' so comment text starting with '-' is not read as a flag
+	return withoutData(runBd(projectPath, ['comments', 'add', issueId, '--', text], { actor: author }));
+}
+
+/**
+ * Add a label to a bead
+ */
+export function addLabel(
+	projectPath: string,
+	issueId: string,
+	label: string,
+	actor?: string
+): BdResult {
+	return withoutData(runBd(projectPath, ['label', 'add', issueId, label], { actor }));
+}
+
+/**
+ * Remove a label from a bead
+ */
+export function removeLabel(
+	projectPath: string,
+	issueId: string,
+	label: string,
+	actor?: string
+): BdResult {
+	return withoutData(runBd(projectPath, ['label', 'remove', issueId, label], { actor }));
 }
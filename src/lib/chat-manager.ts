@@ -211,6 +211,10 @@ function handleClaudeOutput(sessionId: string, chunk: ClaudeOutputChunk) {
 		case 'system':
 			// System messages are just for display
 			break;
+
+		case 'session':
+			// The CLI session ID is kept by claude-cli for --resume; nothing to show
+			return;
 	}
 
 	// Broadcast to all SSE clients for this session
@@ -29,8 +29,10 @@ function logDebug(message: string): void {
 logDebug('claude-cli.ts module loaded');
 
 export interface ClaudeOutputChunk {
-	type: 'text' | 'tool_use' | 'tool_result' | 'error' | 'done' | 'system' | 'status' | 'auth_expired';
+	type: 'text' | 'tool_use' | 'tool_result' | 'error' | 'done' | 'system' | 'status' | 'auth_expired' | 'session';
 	content?: string;
+	// The CLI's own session ID (for type: 'session' and 'done'), used with --resume
+	sessionId?: string;
 	toolName?: string;
 	toolInput?: Record<string, unknown>;
 	toolResult?: unknown;
@@ -55,6 +57,8 @@ export interface ClaudeSessionOptions {
 	agentPrompt?: string;
 	model?: ClaudeModel;
 	mode?: ChatMode;
+	// CLI session ID of an earlier conversation to continue with --resume (e.g. after a restart)
+	resumeSessionId?: string;
 	onData: (chunk: ClaudeOutputChunk) => void;
 	onError: (error: Error) => void;
 	onClose: (code: number) => void;
@@ -66,7 +70,8 @@ export interface ClaudeSession {
 	agentPrompt?: string;
 	model: ClaudeModel;
 	mode: ChatMode;
-	isFirstMessage: boolean;  // Track if we need -c flag
+	isFirstMessage: boolean;  // Track if we need to continue the conversation
+	cliSessionId?: string;  // Session ID reported by the CLI, for --resume
 	isStreaming: boolean;
 	currentProcess: ChildProcess | null;
 	onDataCallback?: (chunk: ClaudeOutputChunk) => void;
@@ -90,8 +95,8 @@ const sessions = new Map<string, ClaudeSession>();
  */
 export function createClaudeSession(options: ClaudeSessionOptions): ClaudeSession | null {
 	logDebug('createClaudeSession called');
-	const { projectPath, agentPrompt, model = 'opus', mode = 'agent', onData, onError } = options;
-	logDebug(`createClaudeSession options: projectPath=${projectPath}, model=${model}, mode=${mode}`);
+	const { projectPath, agentPrompt, model = 'opus', mode = 'agent', resumeSessionId, onData, onError } = options;
+	logDebug(`createClaudeSession options: projectPath=${projectPath}, model=${model}, mode=${mode}, resume=${!!resumeSessionId}`);
 	const sessionId = randomUUID();
 
 	const claudePath = getClaudePath();
@@ -111,7 +116,8 @@ export function createClaudeSession(options: ClaudeSessionOptions): ClaudeSessio
 		agentPrompt,
 		model,
 		mode,
-		isFirstMessage: true,
+		isFirstMessage: !resumeSessionId,
+		cliSessionId: resumeSessionId,
 		isStreaming: false,
 		currentProcess: null,
 		onDataCallback: onData
@@ -128,7 +134,7 @@ export function createClaudeSession(options: ClaudeSessionOptions): ClaudeSessio
  *
  * Key message types from --verbose --output-format stream-json:
  * - system/hook_response: Hook output (skip)
- * - system/init: Initialization info (skip)
+ * - system/init: Initialization info, carries the CLI's session_id
  * - assistant: The response with message.content[].text
  * - result: Final result with success/error status
  */
@@ -201,7 +207,8 @@ function parseStreamJsonLine(line: string): ClaudeOutputChunk | null {
 				outputTokens,
 				totalTokens: inputTokens + outputTokens,
 				costUsd: data.total_cost_usd,
-				durationMs: data.duration_ms
+				durationMs: data.duration_ms,
+				sessionId: data.session_id
 			};
 		} else if (data.type === 'user') {
 			// Tool result being passed back
@@ -221,8 +228,11 @@ function parseStreamJsonLine(line: string): ClaudeOutputChunk | null {
 				content: data.error?.message || JSON.stringify(data.error) || 'Unknown error'
 			};
 		} else if (data.type === 'system') {
-			// System messages - skip most of them (init, hooks, etc)
-			// Could extract useful info later if needed
+			// The init message names the CLI session, needed to resume it later
+			if (data.subtype === 'init' && data.session_id) {
+				return { type: 'session', sessionId: data.session_id };
+			}
+			// Skip the rest (hooks, etc)
 			console.log('[Claude] System message:', data.subtype);
 			return null;
 		} else if (data.type === 'message_start' || data.type === 'message_delta' || data.type === 'message_stop') {
@@ -345,8 +355,12 @@ ${sessionContextSection}${sessionStartPrompt}${message}`;
 		args.push('--permission-mode', 'plan');
 	}
 
-	// Add -c flag for continuation if not first message
-	if (!session.isFirstMessage) {
+	// Continue this session's own conversation. -c would pick up whichever
+	// conversation ran last in the directory, so it is only a fallback for
+	// CLIs that did not report a session ID.
+	if (session.cliSessionId) {
+		args.push('--resume', session.cliSessionId);
+	} else if (!session.isFirstMessage) {
 		args.push('-c');
 	}
 
@@ -436,6 +450,9 @@ ${sessionContextSection}${sessionStartPrompt}${message}`;
 				if (chunk.type === 'done') {
 					session.isStreaming = false;
 				}
+				if (chunk.sessionId) {
+					session.cliSessionId = chunk.sessionId;
+				}
 				onData?.(chunk);
 			}
 		}
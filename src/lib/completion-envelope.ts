@@ -0,0 +1,241 @@
+/**
+ * Completion Envelope - Structured end-of-task report from agents
+ *
+ * Agents finish a task by emitting a JSON object wrapped in
+ * <task-completion> tags on their own lines:
+ *
+ * ```
+ * <task-completion>
+ * {"status": "completed", "summary": "...", "commit_hash": "abc1234", ...}
+ * </task-completion>
+ * ```
+ *
+ * Unlike the legacy `TASK_COMPLETED:` lines, the envelope carries the data
+ * the bead lifecycle needs (commit hash, execution log) so the runner can
+ * move a finished bead to in_review without asking anyone.
+ */
+import {
+	DEFAULT_WORKFLOW,
+	validateTransition,
+	type BeadStatus,
+	type TransitionData,
+	type TransitionResult,
+	type WorkflowDefinition
+} from './bead-lifecycle';
+
+export type CompletionStatus = 'completed' | 'blocked' | 'awaiting_input';
+
+export const COMPLETION_STATUSES: CompletionStatus[] = ['completed', 'blocked', 'awaiting_input'];
+
+/** Status a completed bead moves to */
+export const COMPLETED_BEAD_STATUS: BeadStatus = 'in_review';
+
+export interface FollowUpBead {
+	title: string;
+	description?: string;
+	type?: string;
+	priority?: number;
+}
+
+export interface CompletionEnvelope {
+	status: CompletionStatus;
+	summary: string;
+	commit_hash?: string;
+	files_changed?: string[];
+	execution_log?: string;
+	follow_up_beads?: FollowUpBead[];
+	// Open questions for the user (awaiting_input), or notes for the reviewer
+	questions?: string[];
+}
+
+export interface EnvelopeParseResult {
+	envelope: CompletionEnvelope | null;
+	errors: string[];
+}
+
+// Tags must start a line so envelopes quoted inline in prose are ignored
+const ENVELOPE_PATTERN = /^[ \t]*<task-completion>\s*([\s\S]*?)\s*<\/task-completion>[ \t]*$/gm;
+const ENVELOPE_OPEN = /^[ \t]*<task-completion>/m;
+const COMMIT_HASH_PATTERN = /^[0-9a-f]{7,40}$/i;
+
+/**
+ * Whether the text starts an envelope, complete or not
+ */
+export function hasEnvelopeStart(text: string): boolean {
+	return ENVELOPE_OPEN.test(text);
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
+
+function optionalString(
+	raw: Record<string, unknown>,
+	field: string,
+	errors: string[]
+): string | undefined {
+	const value = raw[field];
+	if (value === undefined || value === null) return undefined;
+	if (typeof value !== 'string') {
+		errors.push(`${field} must be a string`);
+		return undefined;
+	}
+	return value.trim() || undefined;
+}
+
+function optionalStringArray(
+	raw: Record<string, unknown>,
+	field: string,
+	errors: string[]
+): string[] | undefined {
+	const value = raw[field];
+	if (value === undefined || value === null) return undefined;
+	if (!isStringArray(value)) {
+		errors.push(`${field} must be an array of strings`);
+		return undefined;
+	}
+	const items = value.map(v => v.trim()).filter(Boolean);
+	return items.length > 0 ? items : undefined;
+}
+
+function parseFollowUps(value: unknown, errors: string[]): FollowUpBead[] | undefined {
+	if (value === undefined || value === null) return undefined;
+	if (!Array.isArray(value)) {
+		errors.push('follow_up_beads must be an array');
+		return undefined;
+	}
+
+	const beads: FollowUpBead[] = [];
+	value.forEach((item, i) => {
+		const prefix = `follow_up_beads[${i}]`;
+		if (!item || typeof item !== 'object' || Array.isArray(item)) {
+			errors.push(`${prefix} must be an object`);
+			return;
+		}
+		const raw = item as Record<string, unknown>;
+		if (typeof raw.title !== 'string' || !raw.title.trim()) {
+			errors.push(`${prefix}.title is required`);
+			return;
+		}
+
+		const bead: FollowUpBead = { title: raw.title.trim() };
+		const description = optionalString(raw, 'description', errors);
+		if (description) bead.description = description;
+		const type = optionalString(raw, 'type', errors);
+		if (type) bead.type = type;
+		if (raw.priority !== undefined && raw.priority !== null) {
+			if (typeof raw.priority === 'number' && Number.isInteger(raw.priority) && raw.priority >= 0 && raw.priority <= 4) {
+				bead.priority = raw.priority;
+			} else {
+				errors.push(`${prefix}.priority must be an integer from 0 to 4`);
+			}
+		}
+		beads.push(bead);
+	});
+
+	return beads.length > 0 ? beads : undefined;
+}
+
+/**
+ * Validate a decoded envelope object
+ */
+export function validateCompletionEnvelope(value: unknown): EnvelopeParseResult {
+	if (!value || typeof value !== 'object' || Array.isArray(value)) {
+		return { envelope: null, errors: ['Envelope must be a JSON object'] };
+	}
+
+	const raw = value as Record<string, unknown>;
+	const errors: string[] = [];
+
+	const status = raw.status;
+	if (typeof status !== 'string' || !COMPLETION_STATUSES.includes(status as CompletionStatus)) {
+		errors.push(`status must be one of: ${COMPLETION_STATUSES.join(', ')}`);
+	}
+
+	const summary = optionalString(raw, 'summary', errors);
+	if (!summary) errors.push('summary is required');
+
+	const commitHash = optionalString(raw, 'commit_hash', errors);
+	if (commitHash && !COMMIT_HASH_PATTERN.test(commitHash)) {
+		errors.push('commit_hash must be a 7-40 character hex git hash');
+	}
+
+	const envelope: CompletionEnvelope = {
+		status: status as CompletionStatus,
+		summary: summary ?? '',
+		commit_hash: commitHash,
+		files_changed: optionalStringArray(raw, 'files_changed', errors),
+		execution_log: optionalString(raw, 'execution_log', errors),
+		follow_up_beads: parseFollowUps(raw.follow_up_beads, errors),
+		questions: optionalStringArray(raw, 'questions', errors)
+	};
+
+	return errors.length > 0 ? { envelope: null, errors } : { envelope, errors: [] };
+}
+
+/**
+ * Find and validate the last complete envelope in a response
+ *
+ * @returns null when the text contains no complete envelope
+ */
+export function parseCompletionEnvelope(text: string): EnvelopeParseResult | null {
+	let body: string | undefined;
+	for (const match of text.matchAll(ENVELOPE_PATTERN)) {
+		body = match[1];
+	}
+	if (body === undefined) return null;
+
+	// Tolerate a markdown code fence inside the tags
+	const json = body.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+	let decoded: unknown;
+	try {
+		decoded = JSON.parse(json);
+	} catch (err) {
+		return {
+			envelope: null,
+			errors: [`Envelope is not valid JSON: ${err instanceof Error ? err.message : String(err)}`]
+		};
+	}
+
+	return validateCompletionEnvelope(decoded);
+}
+
+/**
+ * Execution log for the bead: the agent's own log, or one built from the summary
+ */
+export function buildExecutionLog(envelope: CompletionEnvelope): string {
+	if (envelope.execution_log) return envelope.execution_log;
+
+	const lines = [envelope.summary];
+	if (envelope.files_changed?.length) {
+		lines.push('', 'Files changed:');
+		lines.push(...envelope.files_changed.map(file => `- ${file}`));
+	}
+	return lines.join('\n');
+}
+
+/**
+ * Lifecycle fields a completed envelope fills in on the bead
+ */
+export function getEnvelopeTransitionData(envelope: CompletionEnvelope): TransitionData {
+	return {
+		commit_hash: envelope.commit_hash,
+		execution_log: buildExecutionLog(envelope)
+	};
+}
+
+/**
+ * Check that a completed envelope can move the bead from its current status
+ * to in_review under the project's workflow
+ */
+export function validateEnvelopeTransition(
+	envelope: CompletionEnvelope,
+	currentStatus: BeadStatus,
+	workflow: WorkflowDefinition = DEFAULT_WORKFLOW
+): TransitionResult {
+	if (envelope.status !== 'completed') {
+		return { valid: false, error: `Envelope status is '${envelope.status}', not 'completed'` };
+	}
+	return validateTransition(currentStatus, COMPLETED_BEAD_STATUS, getEnvelopeTransitionData(envelope), workflow);
+}
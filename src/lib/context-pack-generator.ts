@@ -1,7 +1,8 @@
 /**
  * Context Pack Generator
  *
- * Generates context packs from CodeGraph queries or heuristic fallbacks.
+ * Generates context packs from CodeGraph queries, falling back to the built-in
+ * symbol index and then to heuristics.
  * Orchestrates the collection of symbols, files, and dependencies into
  * a structured ContextPack ready for injection into Claude sessions.
  */
@@ -31,6 +32,8 @@ import {
 	isCodeGraphAvailable,
 	heuristicSymbolSearch
 } from './codegraph-client';
+import { updateSymbolIndex, watchSymbolIndex } from './symbol-index/indexer';
+import { buildSymbolContext } from './symbol-index/context';
 
 // ============================================================================
 // Generator Class
@@ -95,7 +98,25 @@ export class ContextPackGenerator {
 			}
 		}
 
-		// Fallback to heuristic if CodeGraph didn't produce results
+		// Fall back to the built-in symbol index
+		if (symbols.length === 0) {
+			try {
+				const result = await this.generateWithSymbolIndex(request, config);
+				if (result.symbols.length > 0) {
+					symbols = result.symbols;
+					files = result.files;
+					dependencies = result.dependencies;
+					method = 'index';
+					if (this.codegraphAvailable) {
+						warnings.push('CodeGraph returned no results, used symbol index');
+					}
+				}
+			} catch (error) {
+				warnings.push(`Symbol index failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+			}
+		}
+
+		// Fallback to heuristic if neither produced results
 		if (symbols.length === 0) {
 			const result = await this.generateWithHeuristics(request, config);
 			symbols = result.symbols;
@@ -124,6 +145,7 @@ export class ContextPackGenerator {
 			createdAt: new Date().toISOString(),
 			updatedAt: new Date().toISOString(),
 			totalTokens: 0,
+			request,
 			metadata: {
 				generationTimeMs: Date.now() - startTime,
 				codegraphAvailable: this.codegraphAvailable,
@@ -239,6 +261,53 @@ export class ContextPackGenerator {
 		return { symbols, files, dependencies, queries };
 	}
 
+	/**
+	 * Generate from the built-in symbol index, updating it first
+	 */
+	private async generateWithSymbolIndex(
+		request: ContextPackRequest,
+		config: ContextPackConfig
+	): Promise<{
+		symbols: ContextSymbol[];
+		files: ContextFile[];
+		dependencies: ContextDependency[];
+	}> {
+		const update = updateSymbolIndex(this.projectPath);
+		if (update.errors.length > 0) {
+			console.warn(`Symbol index skipped ${update.errors.length} file(s):`, update.errors.slice(0, 5));
+		}
+		watchSymbolIndex(this.projectPath);
+
+		const { symbols, dependencies } = buildSymbolContext(this.projectPath, request, config);
+		const files: ContextFile[] = [];
+		const seenFiles = new Set<string>();
+
+		if (request.entryPointType === 'file') {
+			const file = await this.loadFile(request.entryPoint, config);
+			if (file) {
+				seenFiles.add(file.path);
+				files.push(file);
+			}
+		}
+
+		// Symbol excerpts for the other files
+		for (const symbol of symbols) {
+			if (!seenFiles.has(symbol.filePath) && symbol.code) {
+				seenFiles.add(symbol.filePath);
+				files.push({
+					path: symbol.filePath,
+					content: symbol.code,
+					language: this.getLanguage(symbol.filePath),
+					relevance: symbol.relevance,
+					reason: `Contains ${symbol.name}`,
+					tokenEstimate: symbol.tokenEstimate
+				});
+			}
+		}
+
+		return { symbols, files, dependencies };
+	}
+
 	/**
 	 * Generate using heuristics (grep, glob)
 	 */
@@ -508,6 +577,7 @@ export function packToSummary(pack: ContextPack): ContextPackSummary {
 		symbolCount: pack.symbols.length,
 		totalTokens: pack.totalTokens,
 		createdAt: pack.createdAt,
-		updatedAt: pack.updatedAt
+		updatedAt: pack.updatedAt,
+		beadIds: pack.beadIds ?? []
 	};
 }
@@ -0,0 +1,271 @@
+/**
+ * Context pack persistence - stores generated packs per project, detects when
+ * the files they were generated from change, and regenerates them.
+ * Data is stored as one JSON file per pack in .claude/context-packs/
+ */
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { ContextPack, ContextPackRequest, ContextPackStaleness } from './context-pack-types';
+import { createContextPackGenerator } from './context-pack-generator';
+
+const CLAUDE_DIR = '.claude';
+const PACKS_DIR = 'context-packs';
+
+/** Pack IDs become file names, so only allow what generated IDs contain */
+const PACK_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Get the context pack directory path for a project
+ */
+export function getContextPacksDir(projectPath: string): string {
+	return path.join(projectPath, CLAUDE_DIR, PACKS_DIR);
+}
+
+function getPackFilePath(projectPath: string, packId: string): string | null {
+	if (!PACK_ID_PATTERN.test(packId)) {
+		return null;
+	}
+	return path.join(getContextPacksDir(projectPath), `${packId}.json`);
+}
+
+// ============================================
+// Content Hashes
+// ============================================
+
+/**
+ * Hash a project file, or null if it cannot be read
+ */
+function hashProjectFile(projectPath: string, filePath: string): string | null {
+	try {
+		const content = fs.readFileSync(path.resolve(projectPath, filePath));
+		return createHash('sha256').update(content).digest('hex');
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Record the current content hash of every file a pack references
+ */
+export function hashPackSources(projectPath: string, pack: ContextPack): ContextPack {
+	const hashes = new Map<string, string | null>();
+	const hashOf = (filePath: string) => {
+		if (!hashes.has(filePath)) {
+			hashes.set(filePath, hashProjectFile(projectPath, filePath));
+		}
+		return hashes.get(filePath) ?? undefined;
+	};
+
+	return {
+		...pack,
+		files: pack.files.map((file) => ({ ...file, contentHash: hashOf(file.path) })),
+		symbols: pack.symbols.map((symbol) => ({ ...symbol, contentHash: hashOf(symbol.filePath) }))
+	};
+}
+
+/**
+ * Compare the files a pack references with the hashes recorded at generation
+ * Files without a recorded hash (packs saved before hashing) are skipped.
+ */
+export function checkContextPackStaleness(
+	projectPath: string,
+	pack: ContextPack
+): ContextPackStaleness {
+	const recorded = new Map<string, string>();
+	for (const file of pack.files) {
+		if (file.contentHash) recorded.set(file.path, file.contentHash);
+	}
+	for (const symbol of pack.symbols) {
+		if (symbol.contentHash) recorded.set(symbol.filePath, symbol.contentHash);
+	}
+
+	const changedFiles: string[] = [];
+	const missingFiles: string[] = [];
+	for (const [filePath, hash] of recorded) {
+		const current = hashProjectFile(projectPath, filePath);
+		if (current === null) {
+			missingFiles.push(filePath);
+		} else if (current !== hash) {
+			changedFiles.push(filePath);
+		}
+	}
+
+	return {
+		packId: pack.id,
+		stale: changedFiles.length > 0 || missingFiles.length > 0,
+		changedFiles,
+		missingFiles,
+		checkedAt: new Date().toISOString()
+	};
+}
+
+// ============================================
+// Pack Storage
+// ============================================
+
+/**
+ * Save a pack to disk, replacing any previous version
+ */
+export function saveContextPack(projectPath: string, pack: ContextPack): void {
+	const filePath = getPackFilePath(projectPath, pack.id);
+	if (!filePath) {
+		throw new Error(`Invalid context pack id: ${pack.id}`);
+	}
+
+	fs.mkdirSync(path.dirname(filePath), { recursive: true });
+	fs.writeFileSync(filePath, JSON.stringify(pack, null, 2), 'utf-8');
+}
+
+/**
+ * Load a pack from disk
+ */
+export function loadContextPack(projectPath: string, packId: string): ContextPack | null {
+	const filePath = getPackFilePath(projectPath, packId);
+	if (!filePath || !fs.existsSync(filePath)) {
+		return null;
+	}
+
+	try {
+		return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as ContextPack;
+	} catch (err) {
+		console.error('Error loading context pack:', err);
+		return null;
+	}
+}
+
+/**
+ * List all packs of a project, most recently updated first
+ */
+export function listContextPacks(projectPath: string): ContextPack[] {
+	const dir = getContextPacksDir(projectPath);
+	if (!fs.existsSync(dir)) {
+		return [];
+	}
+
+	return fs
+		.readdirSync(dir)
+		.filter((name) => name.endsWith('.json'))
+		.map((name) => loadContextPack(projectPath, name.slice(0, -'.json'.length)))
+		.filter((pack): pack is ContextPack => pack !== null)
+		.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Delete a pack
+ * @returns false if the pack did not exist
+ */
+export function deleteContextPack(projectPath: string, packId: string): boolean {
+	const filePath = getPackFilePath(projectPath, packId);
+	if (!filePath || !fs.existsSync(filePath)) {
+		return false;
+	}
+
+	fs.unlinkSync(filePath);
+	return true;
+}
+
+// ============================================
+// Generation
+// ============================================
+
+/**
+ * Generate a pack, record its content hashes and save it
+ */
+export async function generateContextPack(
+	projectPath: string,
+	projectId: string,
+	request: ContextPackRequest
+): Promise<ContextPack> {
+	const generator = await createContextPackGenerator(projectPath, projectId);
+	const pack = hashPackSources(projectPath, await generator.generate(request));
+	saveContextPack(projectPath, pack);
+	return pack;
+}
+
+/**
+ * Regenerate a pack from its original request, keeping its id, creation
+ * time and bead attachments
+ */
+export async function regenerateContextPack(
+	projectPath: string,
+	projectId: string,
+	packId: string
+): Promise<ContextPack | null> {
+	const existing = loadContextPack(projectPath, packId);
+	if (!existing) {
+		return null;
+	}
+
+	// Packs saved before the request was stored are rebuilt from their config
+	const request: ContextPackRequest = existing.request ?? {
+		name: existing.name,
+		entryPoint: existing.config.entryPoint,
+		entryPointType: 'query',
+		description: existing.description,
+		config: existing.config
+	};
+
+	const generator = await createContextPackGenerator(projectPath, projectId);
+	const generated = await generator.generate(request);
+	const pack = hashPackSources(projectPath, {
+		...generated,
+		id: existing.id,
+		createdAt: existing.createdAt,
+		beadIds: existing.beadIds
+	});
+	saveContextPack(projectPath, pack);
+	return pack;
+}
+
+// ============================================
+// Bead Attachments
+// ============================================
+
+/**
+ * Attach a pack to a bead so it is injected when the bead runs
+ */
+export function attachContextPack(
+	projectPath: string,
+	packId: string,
+	beadId: string
+): ContextPack | null {
+	const pack = loadContextPack(projectPath, packId);
+	if (!pack) {
+		return null;
+	}
+
+	const beadIds = pack.beadIds ?? [];
+	if (!beadIds.includes(beadId)) {
+		pack.beadIds = [...beadIds, beadId];
+		saveContextPack(projectPath, pack);
+	}
+	return pack;
+}
+
+/**
+ * Detach a pack from a bead
+ */
+export function detachContextPack(
+	projectPath: string,
+	packId: string,
+	beadId: string
+): ContextPack | null {
+	const pack = loadContextPack(projectPath, packId);
+	if (!pack) {
+		return null;
+	}
+
+	if (pack.beadIds?.includes(beadId)) {
+		pack.beadIds = pack.beadIds.filter((id) => id !== beadId);
+		saveContextPack(projectPath, pack);
+	}
+	return pack;
+}
+
+/**
+ * Get the packs attached to a bead
+ */
+export function getContextPacksForBead(projectPath: string, beadId: string): ContextPack[] {
+	return listContextPacks(projectPath).filter((pack) => pack.beadIds?.includes(beadId));
+}
@@ -7,6 +7,7 @@
  *
  * Generation methods:
  * - codegraph: Generated via CodeGraph MCP queries
+ * - index: Generated from the built-in TypeScript symbol index (CodeGraph fallback)
  * - heuristic: Generated via file pattern matching and grep
  * - manual: Hand-curated by the user
  */
@@ -18,7 +19,7 @@
 /**
  * How the context pack was generated
  */
-export type GenerationMethod = 'codegraph' | 'heuristic' | 'manual';
+export type GenerationMethod = 'codegraph' | 'index' | 'heuristic' | 'manual';
 
 /**
  * Relevance score for ranking context items
@@ -61,6 +62,9 @@ export interface ContextFile {
 
 	/** Estimated token count for this content */
 	tokenEstimate: number;
+
+	/** SHA-256 of the whole file on disk when the pack was generated */
+	contentHash?: string;
 }
 
 // ============================================================================
@@ -113,6 +117,9 @@ export interface ContextSymbol {
 
 	/** Estimated token count */
 	tokenEstimate: number;
+
+	/** SHA-256 of filePath on disk when the pack was generated */
+	contentHash?: string;
 }
 
 // ============================================================================
@@ -234,6 +241,12 @@ export interface ContextPack {
 	/** Total estimated tokens */
 	totalTokens: number;
 
+	/** Request the pack was generated from, reused when regenerating */
+	request?: ContextPackRequest;
+
+	/** Beads the pack is injected into when they run */
+	beadIds?: string[];
+
 	/** Generation metadata */
 	metadata: {
 		/** Time taken to generate (ms) */
@@ -267,6 +280,30 @@ export interface ContextPackSummary {
 	totalTokens: number;
 	createdAt: string;
 	updatedAt: string;
+	beadIds: string[];
+
+	/** Set when listing persisted packs: a referenced file changed since generation */
+	stale?: boolean;
+}
+
+// ============================================================================
+// Staleness
+// ============================================================================
+
+/**
+ * Whether the files a pack was generated from still match its content hashes
+ */
+export interface ContextPackStaleness {
+	packId: string;
+	stale: boolean;
+
+	/** Files whose content hash differs from the one recorded at generation */
+	changedFiles: string[];
+
+	/** Files that no longer exist */
+	missingFiles: string[];
+
+	checkedAt: string;
 }
 
 // ============================================================================
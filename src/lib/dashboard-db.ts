@@ -3,6 +3,9 @@ import path from 'path';
 import os from 'os';
 import fs from 'fs';
 import type { CachedIntent } from './intent/types';
+import type { TaskRun, TaskRunEvent, TaskRunStatus, TaskRunMode, EpicSequence } from './types';
+import type { StalenessSettings, StalenessLevel } from './stale-detection';
+import type { BeadGitSettings } from './bead-git-workflow';
 
 const DASHBOARD_DIR = path.join(os.homedir(), '.beads-dashboard');
 const DASHBOARD_DB_PATH = path.join(DASHBOARD_DIR, 'dashboard.db');
@@ -50,6 +53,18 @@ function initSchema(): void {
 		database.exec('ALTER TABLE projects ADD COLUMN profile_settings TEXT');
 	}
 
+	// Migration: Add staleness_settings column if it doesn't exist
+	const hasStalenessSettings = columns.some(col => col.name === 'staleness_settings');
+	if (!hasStalenessSettings) {
+		database.exec('ALTER TABLE projects ADD COLUMN staleness_settings TEXT');
+	}
+
+	// Migration: Add git_workflow_settings column if it doesn't exist
+	const hasGitWorkflowSettings = columns.some(col => col.name === 'git_workflow_settings');
+	if (!hasGitWorkflowSettings) {
+		database.exec('ALTER TABLE projects ADD COLUMN git_workflow_settings TEXT');
+	}
+
 	// Migration: Add project_intents table for caching parsed PROJECT_INTENT.md files
 	// This is a CACHE table - the source of truth is always the PROJECT_INTENT.md file
 	const intentTableExists = database.prepare(
@@ -69,6 +84,61 @@ function initSchema(): void {
 			CREATE INDEX IF NOT EXISTS idx_project_intents_hash ON project_intents(file_hash);
 		`);
 	}
+
+	// Migration: Add task_runs/task_run_events tables for durable task run history
+	// Runs are written through from task-runner-store so they survive a restart or crash
+	database.exec(`
+		CREATE TABLE IF NOT EXISTS task_runs (
+			id TEXT PRIMARY KEY,
+			project_id TEXT NOT NULL,
+			issue_id TEXT NOT NULL,
+			issue_title TEXT NOT NULL,
+			issue_type TEXT NOT NULL,
+			mode TEXT NOT NULL,
+			status TEXT NOT NULL,
+			epic_sequence TEXT,
+			claude_session_id TEXT,
+			awaiting_user_input INTEGER NOT NULL DEFAULT 0,
+			completion_reason TEXT,
+			interrupted INTEGER NOT NULL DEFAULT 0,
+			started_at TEXT NOT NULL,
+			completed_at TEXT,
+			last_activity_at TEXT NOT NULL
+		);
+		CREATE INDEX IF NOT EXISTS idx_task_runs_project ON task_runs(project_id, started_at DESC);
+		CREATE INDEX IF NOT EXISTS idx_task_runs_status ON task_runs(status);
+
+		CREATE TABLE IF NOT EXISTS task_run_events (
+			id TEXT PRIMARY KEY,
+			run_id TEXT NOT NULL,
+			seq INTEGER NOT NULL,
+			timestamp TEXT NOT NULL,
+			type TEXT NOT NULL,
+			payload TEXT NOT NULL
+		);
+		CREATE INDEX IF NOT EXISTS idx_task_run_events_run ON task_run_events(run_id, seq);
+	`);
+
+	// Migration: Add backend_id/agent_filename so interrupted runs resume on the same backend
+	const taskRunColumns = database.prepare("PRAGMA table_info(task_runs)").all() as { name: string }[];
+	if (!taskRunColumns.some(col => col.name === 'backend_id')) {
+		database.exec('ALTER TABLE task_runs ADD COLUMN backend_id TEXT');
+	}
+	if (!taskRunColumns.some(col => col.name === 'agent_filename')) {
+		database.exec('ALTER TABLE task_runs ADD COLUMN agent_filename TEXT');
+	}
+
+	// Migration: Add stale_alerts table so the stale sweeper only notifies when a bead
+	// crosses into a new level, even across restarts
+	database.exec(`
+		CREATE TABLE IF NOT EXISTS stale_alerts (
+			project_id TEXT NOT NULL,
+			issue_id TEXT NOT NULL,
+			level TEXT NOT NULL,
+			notified_at TEXT NOT NULL,
+			PRIMARY KEY (project_id, issue_id)
+		);
+	`);
 }
 
 export interface DevServerConfig {
@@ -78,6 +148,19 @@ export interface DevServerConfig {
 	hotReloadSupported: boolean;
 	detectedAt: string;          // ISO timestamp
 	previewUrl?: string;         // For Shopify themes - the myshopify.com preview URL
+	services?: DevServiceConfig[]; // Multi-service environments; replaces devCommand/defaultPort when set
+	previewService?: string;     // Service shown in the preview (default: first service with a port)
+}
+
+export interface DevServiceConfig {
+	name: string;                // Unique within the project, e.g. 'api', 'web'
+	command: string;             // 'npm run dev', 'docker compose up db'
+	cwd?: string;                // Relative to the project root
+	port?: number;
+	env?: Record<string, string>;
+	readyPatterns?: string[];    // Regex sources; framework defaults when omitted
+	dependsOn?: string[];        // Services that must be ready before this one starts
+	framework?: string;
 }
 
 export interface CustomAction {
@@ -104,6 +187,8 @@ export interface Project {
 	last_accessed: string | null;
 	dev_config?: string | null;      // JSON string of DevServerConfig
 	profile_settings?: string | null; // JSON string of ProfileSettings
+	staleness_settings?: string | null; // JSON string of StalenessSettings
+	git_workflow_settings?: string | null; // JSON string of BeadGitSettings
 }
 
 export interface ProjectWithStats extends Project {
@@ -187,6 +272,44 @@ export function setProjectProfileSettings(id: string, settings: ProfileSettings)
 	);
 }
 
+export function getProjectStalenessSettings(id: string): StalenessSettings | null {
+	const database = getDb();
+	const row = database.prepare('SELECT staleness_settings FROM projects WHERE id = ?').get(id) as { staleness_settings: string | null } | undefined;
+	if (!row?.staleness_settings) return null;
+	try {
+		return JSON.parse(row.staleness_settings) as StalenessSettings;
+	} catch {
+		return null;
+	}
+}
+
+export function setProjectStalenessSettings(id: string, settings: StalenessSettings | null): void {
+	const database = getDb();
+	database.prepare('UPDATE projects SET staleness_settings = ? WHERE id = ?').run(
+		settings ? JSON.stringify(settings) : null,
+		id
+	);
+}
+
+export function getProjectGitWorkflowSettings(id: string): BeadGitSettings | null {
+	const database = getDb();
+	const row = database.prepare('SELECT git_workflow_settings FROM projects WHERE id = ?').get(id) as { git_workflow_settings: string | null } | undefined;
+	if (!row?.git_workflow_settings) return null;
+	try {
+		return JSON.parse(row.git_workflow_settings) as BeadGitSettings;
+	} catch {
+		return null;
+	}
+}
+
+export function setProjectGitWorkflowSettings(id: string, settings: BeadGitSettings | null): void {
+	const database = getDb();
+	database.prepare('UPDATE projects SET git_workflow_settings = ? WHERE id = ?').run(
+		settings ? JSON.stringify(settings) : null,
+		id
+	);
+}
+
 export function removeProject(id: string): void {
 	const database = getDb();
 	database.prepare('DELETE FROM projects WHERE id = ?').run(id);
@@ -356,3 +479,241 @@ export function isIntentCacheValid(projectId: string, currentHash: string): bool
 	if (!row) return false;
 	return row.file_hash === currentHash;
 }
+
+// ============================================================================
+// Task Run Persistence
+// ============================================================================
+
+/**
+ * Database row type for task_runs table
+ */
+interface TaskRunRow {
+	id: string;
+	project_id: string;
+	issue_id: string;
+	issue_title: string;
+	issue_type: string;
+	mode: string;
+	status: string;
+	epic_sequence: string | null;
+	claude_session_id: string | null;
+	backend_id: string | null;
+	agent_filename: string | null;
+	awaiting_user_input: number;
+	completion_reason: string | null;
+	interrupted: number;
+	started_at: string;
+	completed_at: string | null;
+	last_activity_at: string;
+}
+
+/**
+ * Database row type for task_run_events table
+ */
+interface TaskRunEventRow {
+	id: string;
+	run_id: string;
+	seq: number;
+	timestamp: string;
+	type: string;
+	payload: string;
+}
+
+function rowToTaskRun(row: TaskRunRow, events: TaskRunEvent[]): TaskRun {
+	return {
+		id: row.id,
+		projectId: row.project_id,
+		issueId: row.issue_id,
+		issueTitle: row.issue_title,
+		issueType: row.issue_type,
+		mode: row.mode as TaskRunMode,
+		status: row.status as TaskRunStatus,
+		epicSequence: row.epic_sequence ? (JSON.parse(row.epic_sequence) as EpicSequence) : undefined,
+		startedAt: new Date(row.started_at),
+		completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+		lastActivityAt: new Date(row.last_activity_at),
+		events,
+		claudeSessionId: row.claude_session_id ?? undefined,
+		backendId: row.backend_id ?? undefined,
+		agentFilename: row.agent_filename ?? undefined,
+		awaitingUserInput: row.awaiting_user_input === 1,
+		completionReason: row.completion_reason ?? undefined,
+		interrupted: row.interrupted === 1
+	};
+}
+
+function rowToTaskRunEvent(row: TaskRunEventRow): TaskRunEvent {
+	const payload = JSON.parse(row.payload) as Partial<TaskRunEvent>;
+	return {
+		...payload,
+		id: row.id,
+		timestamp: new Date(row.timestamp),
+		type: row.type as TaskRunEvent['type']
+	};
+}
+
+/**
+ * Insert or update the persisted state of a task run (events excluded)
+ *
+ * @param run - The run to persist
+ */
+export function saveTaskRun(run: TaskRun): void {
+	const database = getDb();
+	database
+		.prepare(
+			`INSERT OR REPLACE INTO task_runs
+			(id, project_id, issue_id, issue_title, issue_type, mode, status, epic_sequence,
+			 claude_session_id, backend_id, agent_filename, awaiting_user_input, completion_reason,
+			 interrupted, started_at, completed_at, last_activity_at)
+			VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+		)
+		.run(
+			run.id,
+			run.projectId,
+			run.issueId,
+			run.issueTitle,
+			run.issueType,
+			run.mode,
+			run.status,
+			run.epicSequence ? JSON.stringify(run.epicSequence) : null,
+			run.claudeSessionId ?? null,
+			run.backendId ?? null,
+			run.agentFilename ?? null,
+			run.awaitingUserInput ? 1 : 0,
+			run.completionReason ?? null,
+			run.interrupted ? 1 : 0,
+			run.startedAt.toISOString(),
+			run.completedAt?.toISOString() ?? null,
+			run.lastActivityAt.toISOString()
+		);
+}
+
+/**
+ * Append an event to a persisted task run
+ *
+ * @param runId - The run the event belongs to
+ * @param seq - Position of the event in the run's event list
+ * @param event - The event to persist
+ */
+export function appendTaskRunEvent(runId: string, seq: number, event: TaskRunEvent): void {
+	const database = getDb();
+	const { id, timestamp, type, ...payload } = event;
+	database
+		.prepare(
+			`INSERT OR IGNORE INTO task_run_events (id, run_id, seq, timestamp, type, payload)
+			VALUES (?, ?, ?, ?, ?, ?)`
+		)
+		.run(id, runId, seq, timestamp.toISOString(), type, JSON.stringify(payload));
+}
+
+/**
+ * Get a persisted task run with its events
+ *
+ * @param runId - The run ID to look up
+ * @returns The run or null if it was never persisted
+ */
+export function getPersistedTaskRun(runId: string): TaskRun | null {
+	const database = getDb();
+	const row = database.prepare('SELECT * FROM task_runs WHERE id = ?').get(runId) as
+		| TaskRunRow
+		| undefined;
+	if (!row) return null;
+	return rowToTaskRun(row, getPersistedTaskRunEvents(runId));
+}
+
+/**
+ * Get the persisted events for a task run in their original order
+ */
+export function getPersistedTaskRunEvents(runId: string): TaskRunEvent[] {
+	const database = getDb();
+	const rows = database
+		.prepare('SELECT * FROM task_run_events WHERE run_id = ? ORDER BY seq ASC')
+		.all(runId) as TaskRunEventRow[];
+	return rows.map(rowToTaskRunEvent);
+}
+
+/**
+ * Get persisted runs that had not finished when the dashboard last stopped
+ *
+ * @returns Runs in queued, running or paused state, with their events
+ */
+export function getUnfinishedTaskRuns(): TaskRun[] {
+	const database = getDb();
+	const rows = database
+		.prepare(
+			`SELECT * FROM task_runs
+			WHERE status IN ('queued', 'running', 'paused')
+			ORDER BY started_at ASC`
+		)
+		.all() as TaskRunRow[];
+	return rows.map(row => rowToTaskRun(row, getPersistedTaskRunEvents(row.id)));
+}
+
+/**
+ * Get the run history for a project, most recent first (events excluded)
+ *
+ * @param projectId - The project to list runs for
+ * @param limit - Maximum number of runs to return
+ */
+export function getTaskRunHistory(projectId: string, limit: number = 50): TaskRun[] {
+	const database = getDb();
+	const rows = database
+		.prepare('SELECT * FROM task_runs WHERE project_id = ? ORDER BY started_at DESC LIMIT ?')
+		.all(projectId, limit) as TaskRunRow[];
+	return rows.map(row => rowToTaskRun(row, []));
+}
+
+/**
+ * Delete a persisted task run and its events
+ *
+ * @returns true if a run was deleted
+ */
+export function deletePersistedTaskRun(runId: string): boolean {
+	const database = getDb();
+	const remove = database.transaction((id: string) => {
+		database.prepare('DELETE FROM task_run_events WHERE run_id = ?').run(id);
+		return database.prepare('DELETE FROM task_runs WHERE id = ?').run(id).changes > 0;
+	});
+	return remove(runId);
+}
+
+// ============================================================================
+// Stale Bead Alerts
+// ============================================================================
+
+/**
+ * Get the last alerted staleness level for each bead in a project
+ */
+export function getStaleAlertLevels(projectId: string): Map<string, StalenessLevel> {
+	const database = getDb();
+	const rows = database
+		.prepare('SELECT issue_id, level FROM stale_alerts WHERE project_id = ?')
+		.all(projectId) as { issue_id: string; level: StalenessLevel }[];
+	return new Map(rows.map((row) => [row.issue_id, row.level]));
+}
+
+/**
+ * Record that a bead was alerted at the given staleness level
+ */
+export function setStaleAlertLevel(projectId: string, issueId: string, level: StalenessLevel): void {
+	const database = getDb();
+	database
+		.prepare(
+			`INSERT INTO stale_alerts (project_id, issue_id, level, notified_at)
+			VALUES (?, ?, ?, ?)
+			ON CONFLICT(project_id, issue_id) DO UPDATE SET
+				level = excluded.level,
+				notified_at = excluded.notified_at`
+		)
+		.run(projectId, issueId, level, new Date().toISOString());
+}
+
+/**
+ * Clear the alert state for a bead (it is no longer stale)
+ */
+export function clearStaleAlert(projectId: string, issueId: string): void {
+	const database = getDb();
+	database
+		.prepare('DELETE FROM stale_alerts WHERE project_id = ? AND issue_id = ?')
+		.run(projectId, issueId);
+}
@@ -4,7 +4,13 @@
  */
 
 import { getWritableProjectDb, getProjectDb, notifyDbChange, refreshProjectDb } from './project-db';
-import { normalizeStatus, normalizeTimestamp, normalizeAssignee } from './bead-validation';
+import {
+	normalizeStatus,
+	normalizeTimestamp,
+	normalizeAssignee,
+	getValidStatuses
+} from './bead-validation';
+import { getProjectWorkflow } from './bead-workflow';
 
 export interface RepairResult {
 	field: string;
@@ -107,10 +113,13 @@ function hasTimezone(timestamp: string): boolean {
 /**
  * Convert legacy status values to current schema
  * Maps: done → closed, wip → in_progress, todo → open, etc.
+ * Statuses declared by the project's workflow are left untouched.
  */
 export function repairStatuses(projectPath: string): RepairResult[] {
 	const db = getWritableProjectDb(projectPath);
 	const repairs: RepairResult[] = [];
+	const workflow = getProjectWorkflow(projectPath);
+	const validStatuses = getValidStatuses(workflow);
 
 	// Get all issues with legacy status values
 	const issues = db
@@ -119,13 +128,13 @@ export function repairStatuses(projectPath: string): RepairResult[] {
 		SELECT id, status
 		FROM issues
 		WHERE deleted_at IS NULL
-		  AND status NOT IN ('open', 'ready', 'in_progress', 'in_review', 'closed', 'blocked', 'deferred', 'tombstone')
+		  AND status NOT IN (${validStatuses.map(() => '?').join(', ')})
 	`
 		)
-		.all() as { id: string; status: string }[];
+		.all(...validStatuses) as { id: string; status: string }[];
 
 	for (const issue of issues) {
-		const normalized = normalizeStatus(issue.status);
+		const normalized = normalizeStatus(issue.status, workflow);
 
 		if (normalized !== issue.status) {
 			db.prepare('UPDATE issues SET status = ?, updated_at = datetime(\'now\') WHERE id = ?').run(
@@ -340,19 +349,21 @@ export function previewRepairs(projectPath: string): RepairSummary {
 	}
 
 	// Preview status repairs
+	const workflow = getProjectWorkflow(projectPath);
+	const validStatuses = getValidStatuses(workflow);
 	const statusIssues = db
 		.prepare(
 			`
 		SELECT id, status
 		FROM issues
 		WHERE deleted_at IS NULL
-		  AND status NOT IN ('open', 'ready', 'in_progress', 'in_review', 'closed', 'blocked', 'deferred', 'tombstone')
+		  AND status NOT IN (${validStatuses.map(() => '?').join(', ')})
 	`
 		)
-		.all() as { id: string; status: string }[];
+		.all(...validStatuses) as { id: string; status: string }[];
 
 	for (const issue of statusIssues) {
-		const normalized = normalizeStatus(issue.status);
+		const normalized = normalizeStatus(issue.status, workflow);
 		if (normalized !== issue.status) {
 			repairs.push({
 				field: 'status',
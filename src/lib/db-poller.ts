@@ -6,10 +6,18 @@
  * - Adaptive polling (slower when idle, faster during activity)
  * - Configurable poll intervals
  * - Last sync timestamp tracking
+ *
+ * The version source defaults to the dashboard database; pass a getter such as
+ * `() => getDataVersion(projectPath)` from project-db to poll a project.
  */
 
 import { getDataVersion } from './db';
 
+/**
+ * Reads the current data version of the database being polled
+ */
+export type VersionSource = () => number;
+
 /**
  * Polling configuration
  */
@@ -49,9 +57,9 @@ export interface PollerState {
 /**
  * Create initial poller state
  */
-export function createPollerState(): PollerState {
+export function createPollerState(getVersion: VersionSource = getDataVersion): PollerState {
 	return {
-		lastDataVersion: getDataVersion(),
+		lastDataVersion: getVersion(),
 		lastSyncTimestamp: new Date().toISOString(),
 		currentInterval: DEFAULT_POLLER_CONFIG.minInterval,
 		idleCount: 0,
@@ -67,9 +75,10 @@ export function createPollerState(): PollerState {
  */
 export function checkForChanges(
 	state: PollerState,
-	config: PollerConfig = DEFAULT_POLLER_CONFIG
+	config: PollerConfig = DEFAULT_POLLER_CONFIG,
+	getVersion: VersionSource = getDataVersion
 ): boolean {
-	const currentVersion = getDataVersion();
+	const currentVersion = getVersion();
 	state.pollCount++;
 
 	if (currentVersion !== state.lastDataVersion) {
@@ -143,20 +152,22 @@ export function getPollerStats(state: PollerState): {
  *
  * @param callback Function to call when changes are detected
  * @param config Optional polling configuration
+ * @param getVersion Optional version source (defaults to the dashboard database)
  * @returns Object with start, stop, and getStats methods
  */
 export function createAdaptivePoller(
 	callback: (state: PollerState) => void,
-	config: PollerConfig = DEFAULT_POLLER_CONFIG
+	config: PollerConfig = DEFAULT_POLLER_CONFIG,
+	getVersion: VersionSource = getDataVersion
 ) {
-	const state = createPollerState();
+	const state = createPollerState(getVersion);
 	let timeoutId: ReturnType<typeof setTimeout> | null = null;
 	let running = false;
 
 	function poll(): void {
 		if (!running) return;
 
-		const hasChanges = checkForChanges(state, config);
+		const hasChanges = checkForChanges(state, config, getVersion);
 
 		if (hasChanges) {
 			callback(state);
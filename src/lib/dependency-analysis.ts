@@ -0,0 +1,282 @@
+/**
+ * Dependency Analysis - Cycles, critical path and per-bead metrics
+ *
+ * Pure helpers over a set of beads and the 'blocks' relations between them
+ * (an epic's children, or a whole project). Relations point from blocker
+ * (source) to blocked bead (target), matching BlockingRelation.
+ */
+import type { BlockingRelation, Issue } from './types';
+
+export interface DependencyNodeMetrics {
+	id: string;
+	// Longest chain of blockers in front of this bead (0 = nothing blocks it)
+	depth: number;
+	// Beads this one directly blocks
+	fanOut: number;
+	// Beads directly blocking this one
+	fanIn: number;
+	// Beads transitively waiting on this one
+	downstream: number;
+	inCycle: boolean;
+	onCriticalPath: boolean;
+}
+
+export interface DependencyAnalysis {
+	nodes: Record<string, DependencyNodeMetrics>;
+	// Each cycle as an ordered path; the last bead blocks the first
+	cycles: string[][];
+	// Chain of open beads that gates completion, blocker first
+	criticalPath: string[];
+	// Open beads on the critical path
+	criticalPathLength: number;
+	maxDepth: number;
+}
+
+type AnalyzableIssue = Pick<Issue, 'id' | 'status'>;
+
+/**
+ * Render a cycle as "a → b → c → a"
+ */
+export function describeCycle(cycle: string[]): string {
+	return cycle.length > 0 ? [...cycle, cycle[0]].join(' → ') : '';
+}
+
+/**
+ * Strongly connected components (Tarjan), in reverse topological order
+ */
+function findStronglyConnected(ids: string[], blocks: Map<string, string[]>): string[][] {
+	const index = new Map<string, number>();
+	const lowLink = new Map<string, number>();
+	const onStack = new Set<string>();
+	const stack: string[] = [];
+	const components: string[][] = [];
+	let counter = 0;
+
+	function visit(id: string) {
+		index.set(id, counter);
+		lowLink.set(id, counter);
+		counter++;
+		stack.push(id);
+		onStack.add(id);
+
+		for (const next of blocks.get(id) || []) {
+			if (!index.has(next)) {
+				visit(next);
+				lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+			} else if (onStack.has(next)) {
+				lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+			}
+		}
+
+		if (lowLink.get(id) === index.get(id)) {
+			const component: string[] = [];
+			let member: string;
+			do {
+				member = stack.pop()!;
+				onStack.delete(member);
+				component.push(member);
+			} while (member !== id);
+			components.push(component);
+		}
+	}
+
+	for (const id of ids) {
+		if (!index.has(id)) visit(id);
+	}
+
+	return components;
+}
+
+/**
+ * Find one concrete cycle through the members of a strongly connected component
+ */
+function traceCycle(component: string[], blocks: Map<string, string[]>): string[] {
+	const members = new Set(component);
+	const start = [...component].sort()[0];
+	const previous = new Map<string, string>();
+	const queue = [start];
+	const seen = new Set([start]);
+
+	// Shortest path from start back to itself, staying inside the component
+	while (queue.length > 0) {
+		const current = queue.shift()!;
+		for (const next of blocks.get(current) || []) {
+			if (!members.has(next)) continue;
+			if (next === start) {
+				const path = [current];
+				while (path[0] !== start) {
+					path.unshift(previous.get(path[0])!);
+				}
+				return path;
+			}
+			if (!seen.has(next)) {
+				seen.add(next);
+				previous.set(next, current);
+				queue.push(next);
+			}
+		}
+	}
+
+	return [start];
+}
+
+/**
+ * Analyze the blocking graph between a set of beads
+ *
+ * Relations to beads outside the set are ignored. Cycles are reported and
+ * their internal edges skipped so depth and critical path stay well-defined.
+ */
+export function analyzeDependencies(
+	issues: AnalyzableIssue[],
+	relations: BlockingRelation[]
+): DependencyAnalysis {
+	const ids = issues.map(i => i.id);
+	const idSet = new Set(ids);
+	const isOpen = new Map(issues.map(i => [i.id, i.status !== 'closed']));
+
+	const blocks = new Map<string, string[]>(ids.map(id => [id, []]));
+	const blockedBy = new Map<string, string[]>(ids.map(id => [id, []]));
+	const seenEdges = new Set<string>();
+
+	for (const rel of relations) {
+		if (!idSet.has(rel.source) || !idSet.has(rel.target)) continue;
+		const key = `${rel.source}\u0000${rel.target}`;
+		if (seenEdges.has(key)) continue;
+		seenEdges.add(key);
+		blocks.get(rel.source)!.push(rel.target);
+		blockedBy.get(rel.target)!.push(rel.source);
+	}
+
+	// Cycles: multi-bead components, or a bead that blocks itself
+	const componentOf = new Map<string, number>();
+	const cycles: string[][] = [];
+	const components = findStronglyConnected(ids, blocks);
+	components.forEach((component, i) => {
+		for (const id of component) componentOf.set(id, i);
+		const selfLoop = component.length === 1 && blocks.get(component[0])!.includes(component[0]);
+		if (component.length > 1 || selfLoop) {
+			cycles.push(traceCycle(component, blocks));
+		}
+	});
+	cycles.sort((a, b) => a[0].localeCompare(b[0]));
+
+	const inCycle = new Set<string>();
+	for (const component of components) {
+		if (component.length > 1) component.forEach(id => inCycle.add(id));
+	}
+	for (const cycle of cycles) cycle.forEach(id => inCycle.add(id));
+
+	// Edges between different components form a DAG; walk it in topological order
+	const crossesComponents = (from: string, to: string) => componentOf.get(from) !== componentOf.get(to);
+	const remainingBlockers = new Map(
+		ids.map(id => [id, blockedBy.get(id)!.filter(b => crossesComponents(b, id)).length])
+	);
+	const queue = ids.filter(id => remainingBlockers.get(id) === 0);
+	const order: string[] = [];
+
+	while (queue.length > 0) {
+		const current = queue.shift()!;
+		order.push(current);
+		for (const next of blocks.get(current)!) {
+			if (!crossesComponents(current, next)) continue;
+			const remaining = remainingBlockers.get(next)! - 1;
+			remainingBlockers.set(next, remaining);
+			if (remaining === 0) queue.push(next);
+		}
+	}
+
+	// Depth and remaining-work distance (open beads on the longest chain ending here)
+	const depth = new Map<string, number>();
+	const distance = new Map<string, number>();
+	const criticalPredecessor = new Map<string, string>();
+
+	for (const id of order) {
+		let bestDepth = 0;
+		let bestDistance = 0;
+		let bestPredecessor: string | undefined;
+
+		for (const blocker of blockedBy.get(id)!) {
+			if (!crossesComponents(blocker, id)) continue;
+			bestDepth = Math.max(bestDepth, depth.get(blocker)! + 1);
+			const blockerDistance = distance.get(blocker)!;
+			if (
+				bestPredecessor === undefined ||
+				blockerDistance > bestDistance ||
+				(blockerDistance === bestDistance && blocker < bestPredecessor)
+			) {
+				bestDistance = blockerDistance;
+				bestPredecessor = blocker;
+			}
+		}
+
+		depth.set(id, bestDepth);
+		distance.set(id, bestDistance + (isOpen.get(id) ? 1 : 0));
+		if (bestPredecessor !== undefined) criticalPredecessor.set(id, bestPredecessor);
+	}
+
+	// Critical path ends at the bead with the most open work in front of it
+	let end: string | undefined;
+	for (const id of order) {
+		const d = distance.get(id)!;
+		if (d === 0) continue;
+		const endDistance = end === undefined ? -1 : distance.get(end)!;
+		if (d > endDistance || (d === endDistance && id < end!)) {
+			end = id;
+		}
+	}
+
+	const criticalPath: string[] = [];
+	for (let id = end; id !== undefined; id = criticalPredecessor.get(id)) {
+		criticalPath.unshift(id);
+	}
+	// Closed beads at the start no longer gate anything
+	while (criticalPath.length > 0 && !isOpen.get(criticalPath[0])) {
+		criticalPath.shift();
+	}
+	const onCriticalPath = new Set(criticalPath);
+
+	// Transitive downstream counts
+	function countDownstream(id: string): number {
+		const seen = new Set<string>([id]);
+		const stack = [...blocks.get(id)!];
+		while (stack.length > 0) {
+			const next = stack.pop()!;
+			if (seen.has(next)) continue;
+			seen.add(next);
+			stack.push(...blocks.get(next)!);
+		}
+		return seen.size - 1;
+	}
+
+	const nodes: Record<string, DependencyNodeMetrics> = {};
+	let maxDepth = 0;
+	for (const id of ids) {
+		const nodeDepth = depth.get(id) ?? 0;
+		maxDepth = Math.max(maxDepth, nodeDepth);
+		nodes[id] = {
+			id,
+			depth: nodeDepth,
+			fanOut: blocks.get(id)!.length,
+			fanIn: blockedBy.get(id)!.length,
+			downstream: countDownstream(id),
+			inCycle: inCycle.has(id),
+			onCriticalPath: onCriticalPath.has(id)
+		};
+	}
+
+	return {
+		nodes,
+		cycles,
+		criticalPath,
+		criticalPathLength: criticalPath.filter(id => isOpen.get(id)).length,
+		maxDepth
+	};
+}
+
+/**
+ * Cycles that still involve open beads (fully closed cycles cannot block a run)
+ */
+export function getBlockingCycles(analysis: DependencyAnalysis, issues: AnalyzableIssue[]): string[][] {
+	const open = new Set(issues.filter(i => i.status !== 'closed').map(i => i.id));
+	return analysis.cycles.filter(cycle => cycle.some(id => open.has(id)));
+}
@@ -1,8 +1,9 @@
 import fs from 'fs';
 import path from 'path';
 import { spawnSync } from 'child_process';
+import { parse as parseYaml } from 'yaml';
 import { getClaudePath } from './settings';
-import type { DevServerConfig } from './dashboard-db';
+import type { DevServerConfig, DevServiceConfig } from './dashboard-db';
 
 export interface DetectionResult {
 	detected: boolean;
@@ -53,9 +54,15 @@ function normalizeFrameworkName(name: string): string {
  * Use Claude Code CLI to intelligently detect the dev server configuration
  */
 export async function detectDevServerConfig(projectPath: string): Promise<DetectionResult> {
+	// docker-compose and workspace services are proposed alongside the main server
+	const services = detectDevServices(projectPath);
+
 	// Check for Claude CLI
 	const claudePathResult = getClaudePath();
 	if (!claudePathResult.path) {
+		if (services.length > 0) {
+			return configFromServices(services);
+		}
 		return {
 			detected: false,
 			error: 'Claude Code CLI not installed'
@@ -162,7 +169,9 @@ Respond with ONLY this JSON, no other text:
 				hotReloadSupported: parsed.hotReloadSupported ?? true,
 				detectedAt: new Date().toISOString(),
 				// For Shopify, previewUrl will be extracted at runtime from stdout
-				previewUrl: parsed.previewUrl === 'shopify-preview' ? undefined : parsed.previewUrl
+				previewUrl: parsed.previewUrl === 'shopify-preview' ? undefined : parsed.previewUrl,
+				services: services.length > 1 ? services : undefined,
+				previewService: services.length > 1 ? pickPreviewService(services, parsed.port).name : undefined
 			};
 
 			return {
@@ -286,3 +295,278 @@ function gatherProjectContext(projectPath: string): string {
 export function getFrameworkDisplayName(config: DevServerConfig): string {
 	return config.framework || 'Unknown Framework';
 }
+
+// ============================================================================
+// Service Detection
+// ============================================================================
+
+const COMPOSE_FILES = ['compose.yaml', 'compose.yml', 'docker-compose.yaml', 'docker-compose.yml'];
+
+/** Scripts that start a workspace package, in order of preference */
+const DEV_SCRIPTS = ['dev', 'start', 'develop', 'serve'];
+
+/** Dependency that identifies a framework, checked in order */
+const FRAMEWORK_DEPENDENCIES: [string, string][] = [
+	['next', 'nextjs'],
+	['@sveltejs/kit', 'sveltekit'],
+	['@remix-run/dev', 'remix'],
+	['astro', 'astro'],
+	['nuxt', 'nuxt'],
+	['gatsby', 'gatsby'],
+	['expo', 'expo'],
+	['@angular/core', 'angular'],
+	['react-scripts', 'cra'],
+	['vite', 'vite'],
+	['vue', 'vue']
+];
+
+const FRAMEWORK_PORTS: Record<string, number> = {
+	nextjs: 3000,
+	sveltekit: 5173,
+	vite: 5173,
+	remix: 3000,
+	astro: 4321,
+	nuxt: 3000,
+	gatsby: 8000,
+	expo: 8081,
+	cra: 3000,
+	angular: 4200,
+	vue: 5173
+};
+
+interface PackageJson {
+	name?: string;
+	scripts?: Record<string, string>;
+	dependencies?: Record<string, string>;
+	devDependencies?: Record<string, string>;
+	workspaces?: string[] | { packages?: string[] };
+}
+
+function readPackageJson(dir: string): PackageJson | null {
+	try {
+		return JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf-8')) as PackageJson;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Make a name usable as a service name
+ */
+function toServiceName(name: string): string {
+	return name.replace(/^@[^/]+\//, '').replace(/[^A-Za-z0-9_-]/g, '-');
+}
+
+/**
+ * Propose dev services from docker-compose and workspace package.json files
+ * Compose services run through `docker compose up`; workspace packages with a
+ * dev script run with the project's package manager.
+ */
+export function detectDevServices(projectPath: string): DevServiceConfig[] {
+	const services = detectComposeServices(projectPath);
+	const usedPorts = new Set(services.map(s => s.port).filter(Boolean));
+
+	for (const service of detectWorkspaceServices(projectPath)) {
+		if (services.some(s => s.name === service.name)) continue;
+		if (service.port && usedPorts.has(service.port)) {
+			service.port = undefined;
+		}
+		if (service.port) usedPorts.add(service.port);
+		services.push(service);
+	}
+
+	return services;
+}
+
+/**
+ * Host port of the first published compose port
+ */
+function composeHostPort(ports: unknown): number | undefined {
+	if (!Array.isArray(ports)) return undefined;
+
+	for (const entry of ports) {
+		let published: number | undefined;
+		if (entry && typeof entry === 'object' && 'published' in entry) {
+			published = parseInt(String((entry as { published: unknown }).published), 10);
+		} else if (typeof entry === 'string' || typeof entry === 'number') {
+			// "8080:80", "127.0.0.1:8080:80/tcp"; a bare container port publishes a random host port
+			const parts = String(entry).split('/')[0].split(':');
+			if (parts.length >= 2) {
+				published = parseInt(parts[parts.length - 2], 10);
+			}
+		}
+		if (published && published > 0 && published < 65536) {
+			return published;
+		}
+	}
+	return undefined;
+}
+
+function detectComposeServices(projectPath: string): DevServiceConfig[] {
+	const composeFile = COMPOSE_FILES.find(f => fs.existsSync(path.join(projectPath, f)));
+	if (!composeFile) return [];
+
+	let definitions: Record<string, unknown>;
+	try {
+		const doc = parseYaml(fs.readFileSync(path.join(projectPath, composeFile), 'utf-8')) as { services?: unknown };
+		if (!doc?.services || typeof doc.services !== 'object') return [];
+		definitions = doc.services as Record<string, unknown>;
+	} catch (error) {
+		console.error(`[dev-server-detector] Could not parse ${composeFile}:`, error);
+		return [];
+	}
+
+	const names = new Set(Object.keys(definitions));
+	return Object.entries(definitions).map(([name, raw]) => {
+		const definition = (raw ?? {}) as { ports?: unknown; depends_on?: unknown };
+		const dependsOn = Array.isArray(definition.depends_on)
+			? definition.depends_on.map(String)
+			: definition.depends_on && typeof definition.depends_on === 'object'
+				? Object.keys(definition.depends_on)
+				: [];
+
+		return {
+			name: toServiceName(name),
+			command: `docker compose up ${name}`,
+			port: composeHostPort(definition.ports),
+			dependsOn: dependsOn.filter(d => names.has(d)).map(toServiceName),
+			framework: 'other'
+		};
+	});
+}
+
+function getWorkspacePatterns(projectPath: string): string[] {
+	const patterns: string[] = [];
+
+	const workspaces = readPackageJson(projectPath)?.workspaces;
+	if (Array.isArray(workspaces)) {
+		patterns.push(...workspaces);
+	} else if (workspaces?.packages) {
+		patterns.push(...workspaces.packages);
+	}
+
+	const pnpmWorkspacePath = path.join(projectPath, 'pnpm-workspace.yaml');
+	if (fs.existsSync(pnpmWorkspacePath)) {
+		try {
+			const doc = parseYaml(fs.readFileSync(pnpmWorkspacePath, 'utf-8')) as { packages?: unknown };
+			if (Array.isArray(doc?.packages)) {
+				patterns.push(...doc.packages.map(String));
+			}
+		} catch {
+			// Ignore errors
+		}
+	}
+
+	return patterns.filter(p => !p.startsWith('!'));
+}
+
+/**
+ * Expand a workspace pattern: literal directories and `dir/*` (or `dir/**`)
+ */
+function expandWorkspacePattern(projectPath: string, pattern: string): string[] {
+	const normalized = pattern.replace(/^\.\//, '').replace(/\/+$/, '');
+	const wildcard = normalized.match(/^(.*?)\/\*\*?$/);
+	if (!wildcard) {
+		return normalized.includes('*') ? [] : [normalized];
+	}
+
+	try {
+		return fs.readdirSync(path.join(projectPath, wildcard[1]), { withFileTypes: true })
+			.filter(entry => entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules')
+			.map(entry => `${wildcard[1]}/${entry.name}`);
+	} catch {
+		return [];
+	}
+}
+
+function detectPackageManager(projectPath: string): string {
+	if (fs.existsSync(path.join(projectPath, 'bun.lockb')) || fs.existsSync(path.join(projectPath, 'bun.lock'))) {
+		return 'bun';
+	}
+	if (fs.existsSync(path.join(projectPath, 'pnpm-lock.yaml'))) return 'pnpm';
+	if (fs.existsSync(path.join(projectPath, 'yarn.lock'))) return 'yarn';
+	return 'npm';
+}
+
+function detectWorkspaceServices(projectPath: string): DevServiceConfig[] {
+	const dirs = [...new Set(getWorkspacePatterns(projectPath).flatMap(p => expandWorkspacePattern(projectPath, p)))].sort();
+	const packageManager = detectPackageManager(projectPath);
+
+	const packages = dirs
+		.map(dir => ({ dir, pkg: readPackageJson(path.join(projectPath, dir)) }))
+		.filter((entry): entry is { dir: string; pkg: PackageJson } => entry.pkg !== null);
+
+	// Workspace package name -> service name, for packages that can be started
+	const serviceNames = new Map<string, string>();
+	for (const { dir, pkg } of packages) {
+		if (DEV_SCRIPTS.some(script => pkg.scripts?.[script])) {
+			serviceNames.set(pkg.name ?? dir, toServiceName(pkg.name ?? path.basename(dir)));
+		}
+	}
+
+	const services: DevServiceConfig[] = [];
+	for (const { dir, pkg } of packages) {
+		const script = DEV_SCRIPTS.find(name => pkg.scripts?.[name]);
+		if (!script) continue;
+
+		const dependencies = { ...pkg.dependencies, ...pkg.devDependencies };
+		const framework = FRAMEWORK_DEPENDENCIES.find(([dep]) => dep in dependencies)?.[1] ?? 'other';
+		const portMatch = pkg.scripts![script].match(/(?:--port[=\s]+|\s-p\s+|PORT=)(\d+)/);
+		const port = portMatch ? parseInt(portMatch[1], 10) : FRAMEWORK_PORTS[framework];
+
+		services.push({
+			name: serviceNames.get(pkg.name ?? dir)!,
+			command: `${packageManager} run ${script}`,
+			cwd: dir,
+			port,
+			// Start workspace packages this one depends on first
+			dependsOn: Object.keys(dependencies)
+				.filter(dep => dep !== pkg.name && serviceNames.has(dep))
+				.map(dep => serviceNames.get(dep)!),
+			framework
+		});
+	}
+
+	// Two apps on the same framework default port: keep it for the first only
+	const seenPorts = new Set<number>();
+	for (const service of services) {
+		if (service.port && seenPorts.has(service.port)) {
+			service.port = undefined;
+		}
+		if (service.port) seenPorts.add(service.port);
+	}
+
+	return services;
+}
+
+/**
+ * Pick the service to preview: the one on the given port, else the first web
+ * framework with a port (compose services such as databases come first)
+ */
+function pickPreviewService(services: DevServiceConfig[], port?: number): DevServiceConfig {
+	return services.find(s => port && s.port === port)
+		?? services.find(s => s.port && s.framework !== 'other')
+		?? services.find(s => s.port)
+		?? services[0];
+}
+
+/**
+ * Build a config from detected services when Claude is unavailable
+ */
+function configFromServices(services: DevServiceConfig[]): DetectionResult {
+	const preview = pickPreviewService(services);
+
+	return {
+		detected: true,
+		config: {
+			framework: preview.framework ?? 'other',
+			devCommand: preview.command,
+			defaultPort: preview.port ?? 3000,
+			hotReloadSupported: true,
+			detectedAt: new Date().toISOString(),
+			services,
+			previewService: preview.name
+		},
+		frameworkDisplayName: preview.framework ?? 'Unknown'
+	};
+}
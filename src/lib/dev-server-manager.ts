@@ -1,7 +1,8 @@
 import { spawn, execSync, type ChildProcess } from 'child_process';
-import type { DevServerConfig } from './dashboard-db';
+import type { DevServerConfig, DevServiceConfig } from './dashboard-db';
 import { EventEmitter } from 'events';
 import net from 'net';
+import path from 'path';
 
 export interface PortConflictInfo {
 	port: number;
@@ -20,19 +21,65 @@ export interface ServerStatus {
 	error?: string;
 }
 
+/**
+ * Lifecycle of one service in a dev environment
+ * - waiting: queued until the services it depends on are ready
+ * - exited / failed: the process ended by itself (failed = non-zero exit,
+ *   spawn error, or a dependency that stopped before becoming ready)
+ */
+export type ServiceState = 'waiting' | 'starting' | 'ready' | 'stopped' | 'exited' | 'failed';
+
+export interface ServiceStatus extends ServerStatus {
+	name: string;
+	state: ServiceState;
+	command: string;
+	dependsOn: string[];
+	exitCode?: number | null;
+}
+
+/**
+ * Aggregate status of a project's dev environment
+ * The ServerStatus fields describe the preview service, so callers that only
+ * know about a single dev server keep working.
+ */
+export interface DevServerStatus extends ServerStatus {
+	/** Every started service is ready */
+	allReady: boolean;
+	services: ServiceStatus[];
+}
+
+/** Name of the implicit service of a config without `services` */
+export const DEFAULT_SERVICE_NAME = 'app';
+
+const SERVICE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
 interface RunningServer {
-	process: ChildProcess;
-	projectId: string;
-	config: DevServerConfig;
-	startedAt: string;
+	name: string;
+	service: DevServiceConfig;
+	process: ChildProcess | null;
+	state: ServiceState;
+	stopping: boolean;
+	startedAt?: string;
 	ready: boolean;
 	previewUrl?: string;
+	error?: string;
+	exitCode?: number | null;
 	outputBuffer: string[];
 	emitter: EventEmitter;
 }
 
-// Map of projectId -> running server
-const runningServers = new Map<string, RunningServer>();
+interface DevEnvironment {
+	projectId: string;
+	projectPath: string;
+	previewService: string;
+	/** Services in start order */
+	services: Map<string, RunningServer>;
+	/** Emits 'status' with the aggregate DevServerStatus */
+	emitter: EventEmitter;
+}
+
+// Map of projectId -> dev environment
+const runningServers = new Map<string, DevEnvironment>();
 
 // Framework-specific ready detection patterns
 const READY_PATTERNS: Record<string, RegExp[]> = {
@@ -257,107 +304,392 @@ export interface StartServerResult {
 	error?: string;
 	port?: number;
 	portConflict?: PortConflictInfo;
+	/** Service whose port is taken */
+	service?: string;
+}
+
+// ============================================================================
+// Service Configuration
+// ============================================================================
+
+/**
+ * Get the services of a config; a config without `services` is a single
+ * service built from devCommand and defaultPort
+ */
+export function resolveDevServices(config: DevServerConfig): DevServiceConfig[] {
+	if (config.services && config.services.length > 0) {
+		return config.services;
+	}
+
+	return [{
+		name: DEFAULT_SERVICE_NAME,
+		command: config.devCommand,
+		port: config.defaultPort,
+		framework: config.framework
+	}];
+}
+
+/**
+ * Get the name of the service shown in the preview
+ */
+export function getPreviewServiceName(config: DevServerConfig): string {
+	const services = resolveDevServices(config);
+	const preview = services.find(s => s.name === config.previewService)
+		?? services.find(s => s.port)
+		?? services[0];
+	return preview.name;
+}
+
+/**
+ * Order services so every service comes after the services it depends on
+ * @throws Error on an unknown dependency or a dependency cycle
+ */
+export function orderDevServices(services: DevServiceConfig[]): DevServiceConfig[] {
+	const byName = new Map(services.map(s => [s.name, s]));
+	const ordered: DevServiceConfig[] = [];
+	const visiting = new Set<string>();
+	const done = new Set<string>();
+
+	const visit = (service: DevServiceConfig, chain: string[]) => {
+		if (done.has(service.name)) return;
+		if (visiting.has(service.name)) {
+			throw new Error(`Service dependency cycle: ${[...chain, service.name].join(' -> ')}`);
+		}
+
+		visiting.add(service.name);
+		for (const dependency of service.dependsOn ?? []) {
+			const target = byName.get(dependency);
+			if (!target) {
+				throw new Error(`Service "${service.name}" depends on unknown service "${dependency}"`);
+			}
+			visit(target, [...chain, service.name]);
+		}
+		visiting.delete(service.name);
+		done.add(service.name);
+		ordered.push(service);
+	};
+
+	for (const service of services) {
+		visit(service, []);
+	}
+	return ordered;
+}
+
+/**
+ * Validate a services list from an API request
+ */
+export function validateDevServices(input: unknown): { services?: DevServiceConfig[]; error?: string } {
+	if (!Array.isArray(input)) {
+		return { error: 'services must be an array' };
+	}
+
+	const services: DevServiceConfig[] = [];
+	const ports = new Map<number, string>();
+	for (const raw of input) {
+		if (!raw || typeof raw !== 'object') {
+			return { error: 'Each service must be an object' };
+		}
+		const s = raw as Record<string, unknown>;
+
+		if (typeof s.name !== 'string' || !SERVICE_NAME_PATTERN.test(s.name)) {
+			return { error: 'Service names may only contain letters, digits, "-" and "_"' };
+		}
+		if (services.some(existing => existing.name === s.name)) {
+			return { error: `Duplicate service name "${s.name}"` };
+		}
+		if (typeof s.command !== 'string' || !s.command.trim()) {
+			return { error: `Service "${s.name}" needs a command` };
+		}
+		if (s.cwd !== undefined && (typeof s.cwd !== 'string' || path.isAbsolute(s.cwd) || path.normalize(s.cwd).startsWith('..'))) {
+			return { error: `Service "${s.name}" cwd must be a path inside the project` };
+		}
+		if (s.port !== undefined && (!Number.isInteger(s.port) || (s.port as number) < 1 || (s.port as number) > 65535)) {
+			return { error: `Service "${s.name}" port must be between 1 and 65535` };
+		}
+		if (typeof s.port === 'number') {
+			const other = ports.get(s.port);
+			if (other) {
+				return { error: `Services "${other}" and "${s.name}" both use port ${s.port}` };
+			}
+			ports.set(s.port, s.name);
+		}
+		if (s.env !== undefined && (typeof s.env !== 'object' || s.env === null ||
+			Object.values(s.env).some(v => typeof v !== 'string'))) {
+			return { error: `Service "${s.name}" env must map names to strings` };
+		}
+		if (s.readyPatterns !== undefined) {
+			if (!Array.isArray(s.readyPatterns) || s.readyPatterns.some(p => typeof p !== 'string')) {
+				return { error: `Service "${s.name}" readyPatterns must be a list of strings` };
+			}
+			for (const pattern of s.readyPatterns as string[]) {
+				try {
+					new RegExp(pattern, 'i');
+				} catch {
+					return { error: `Service "${s.name}" has an invalid ready pattern: ${pattern}` };
+				}
+			}
+		}
+		if (s.dependsOn !== undefined && (!Array.isArray(s.dependsOn) || s.dependsOn.some(d => typeof d !== 'string'))) {
+			return { error: `Service "${s.name}" dependsOn must be a list of service names` };
+		}
+		if (s.framework !== undefined && typeof s.framework !== 'string') {
+			return { error: `Service "${s.name}" framework must be a string` };
+		}
+
+		services.push({
+			name: s.name,
+			command: s.command.trim(),
+			cwd: s.cwd as string | undefined,
+			port: s.port as number | undefined,
+			env: s.env as Record<string, string> | undefined,
+			readyPatterns: s.readyPatterns as string[] | undefined,
+			dependsOn: s.dependsOn as string[] | undefined,
+			framework: s.framework as string | undefined
+		});
+	}
+
+	try {
+		orderDevServices(services);
+	} catch (error) {
+		return { error: error instanceof Error ? error.message : 'Invalid service dependencies' };
+	}
+
+	return { services };
+}
+
+// ============================================================================
+// Starting and Stopping
+// ============================================================================
+
+function isActive(server: RunningServer): boolean {
+	return server.state === 'waiting' || server.state === 'starting' || server.state === 'ready';
 }
 
 /**
- * Start a dev server for a project
+ * Start a project's dev environment
+ * Services start in dependency order: a service waits until every service
+ * it depends on is ready. Already running services are left alone.
  */
 export async function startDevServer(
 	projectId: string,
 	projectPath: string,
 	config: DevServerConfig,
-	options?: { overridePort?: number }
+	options?: { overridePort?: number; service?: string }
 ): Promise<StartServerResult> {
-	// Check if already running
-	const existing = runningServers.get(projectId);
-	if (existing && existing.process && !existing.process.killed) {
-		return { success: true, port: config.defaultPort };
+	let services: DevServiceConfig[];
+	try {
+		services = orderDevServices(resolveDevServices(config));
+	} catch (error) {
+		return { success: false, error: error instanceof Error ? error.message : 'Invalid service configuration' };
 	}
 
-	// Use override port if provided
-	const targetPort = options?.overridePort ?? config.defaultPort;
+	const previewName = getPreviewServiceName(config);
+
+	// Use override port if provided (applies to the preview service)
 	if (options?.overridePort) {
-		config = {
-			...config,
-			defaultPort: targetPort,
-			devCommand: appendPortToCommand(config.devCommand, targetPort)
+		const targetPort = options.overridePort;
+		services = services.map(s => s.name === previewName
+			? { ...s, port: targetPort, command: appendPortToCommand(s.command, targetPort) }
+			: s);
+	}
+
+	// Starting one service also starts what it depends on
+	let selected = services;
+	if (options?.service) {
+		if (!services.some(s => s.name === options.service)) {
+			return { success: false, error: `Unknown service "${options.service}"` };
+		}
+		const needed = new Set<string>();
+		const collect = (name: string) => {
+			if (needed.has(name)) return;
+			needed.add(name);
+			services.find(s => s.name === name)?.dependsOn?.forEach(collect);
 		};
+		collect(options.service);
+		selected = services.filter(s => needed.has(s.name));
 	}
 
-	// Check if port is available
-	const portAvailable = await isPortAvailable(targetPort);
-	if (!portAvailable) {
-		// Return port conflict info so the UI can ask the user what to do
-		const conflictInfo = getPortConflictInfo(targetPort);
-		return {
-			success: false,
-			error: `Port ${targetPort} is already in use`,
-			portConflict: conflictInfo
+	// Reuse the environment while any of its services is active
+	let env = runningServers.get(projectId);
+	if (!env || ![...env.services.values()].some(isActive)) {
+		env = {
+			projectId,
+			projectPath,
+			previewService: previewName,
+			services: new Map(),
+			emitter: new EventEmitter()
 		};
+		env.emitter.setMaxListeners(50); // Prevent memory leak warnings
 	}
 
-	try {
-		// Parse command and args
-		const [cmd, ...args] = parseCommand(config.devCommand);
-
-		const childProcess = spawn(cmd, args, {
-			cwd: projectPath,
-			shell: true,
-			env: {
-				...process.env,
-				PORT: String(config.defaultPort),
-				NODE_ENV: 'development',
-				FORCE_COLOR: '1'
-			},
-			stdio: ['pipe', 'pipe', 'pipe']
-		});
+	const toStart = selected.filter(s => {
+		const current = env!.services.get(s.name);
+		return !current || !isActive(current);
+	});
+
+	const previewPort = services.find(s => s.name === previewName)?.port ?? config.defaultPort;
+	if (toStart.length === 0) {
+		return { success: true, port: previewPort };
+	}
 
+	// Check that every port is available before starting anything
+	for (const service of toStart) {
+		if (service.port && !(await isPortAvailable(service.port))) {
+			// Return port conflict info so the UI can ask the user what to do
+			return {
+				success: false,
+				error: `Port ${service.port} is already in use`,
+				portConflict: getPortConflictInfo(service.port),
+				service: service.name
+			};
+		}
+	}
+
+	runningServers.set(projectId, env);
+	for (const service of toStart) {
 		const emitter = new EventEmitter();
 		emitter.setMaxListeners(50); // Prevent memory leak warnings
-		const server: RunningServer = {
-			process: childProcess,
-			projectId,
-			config,
-			startedAt: new Date().toISOString(),
+		env.services.set(service.name, {
+			name: service.name,
+			service,
+			process: null,
+			state: 'waiting',
+			stopping: false,
 			ready: false,
 			outputBuffer: [],
 			emitter
+		});
+	}
+
+	try {
+		scheduleServices(env);
+	} catch (error) {
+		return {
+			success: false,
+			error: error instanceof Error ? error.message : 'Failed to start server'
 		};
+	}
+	emitStatus(env);
 
-		runningServers.set(projectId, server);
+	const failed = toStart
+		.map(s => env!.services.get(s.name)!)
+		.find(s => s.state === 'failed');
+	if (failed) {
+		return { success: false, error: failed.error ?? `Service "${failed.name}" failed to start` };
+	}
 
-		// Handle stdout
-		childProcess.stdout?.on('data', (data: Buffer) => {
-			const output = data.toString();
-			handleOutput(server, output);
-		});
+	return { success: true, port: previewPort };
+}
 
-		// Handle stderr
-		childProcess.stderr?.on('data', (data: Buffer) => {
-			const output = data.toString();
-			handleOutput(server, output);
+/**
+ * Start waiting services whose dependencies are ready, and fail those whose
+ * dependencies stopped
+ */
+function scheduleServices(env: DevEnvironment) {
+	for (const server of env.services.values()) {
+		if (server.state !== 'waiting') continue;
+
+		const dependsOn = server.service.dependsOn ?? [];
+		const blocked = dependsOn.find(name => {
+			const dependency = env.services.get(name);
+			return !dependency || !isActive(dependency);
 		});
+		if (blocked) {
+			server.state = 'failed';
+			server.error = `Dependency "${blocked}" is not running`;
+			emitServiceError(server, server.error);
+			continue;
+		}
 
-		// Handle process exit
-		childProcess.on('exit', (code) => {
-			server.emitter.emit('exit', code);
-			runningServers.delete(projectId);
-		});
+		if (dependsOn.every(name => env.services.get(name)?.ready)) {
+			spawnService(env, server);
+		}
+	}
+}
 
-		childProcess.on('error', (error) => {
-			server.emitter.emit('error', error.message);
-			runningServers.delete(projectId);
-		});
+function spawnService(env: DevEnvironment, server: RunningServer) {
+	const { service } = server;
+
+	// Parse command and args
+	const [cmd, ...args] = parseCommand(service.command);
+
+	const childProcess = spawn(cmd, args, {
+		cwd: path.resolve(env.projectPath, service.cwd ?? '.'),
+		shell: true,
+		env: {
+			...process.env,
+			...(service.port ? { PORT: String(service.port) } : {}),
+			NODE_ENV: 'development',
+			FORCE_COLOR: '1',
+			...service.env
+		},
+		stdio: ['pipe', 'pipe', 'pipe'],
+		// Own process group, so stopping also stops what the shell started
+		detached: process.platform !== 'win32'
+	});
+
+	server.process = childProcess;
+	server.state = 'starting';
+	server.startedAt = new Date().toISOString();
+
+	// Handle stdout
+	childProcess.stdout?.on('data', (data: Buffer) => {
+		handleOutput(env, server, data.toString());
+	});
+
+	// Handle stderr
+	childProcess.stderr?.on('data', (data: Buffer) => {
+		handleOutput(env, server, data.toString());
+	});
+
+	// Handle process exit
+	childProcess.on('exit', (code) => {
+		server.exitCode = code;
+		server.ready = false;
+		server.state = server.stopping ? 'stopped' : code === 0 ? 'exited' : 'failed';
+		server.emitter.emit('exit', code);
+		scheduleServices(env);
+		emitStatus(env);
+	});
+
+	childProcess.on('error', (error) => {
+		server.error = error.message;
+		server.ready = false;
+		server.state = 'failed';
+		emitServiceError(server, error.message);
+		scheduleServices(env);
+		emitStatus(env);
+	});
 
+	if (service.port) {
 		// Start port polling as backup ready detection
-		startPortPolling(projectId, config.defaultPort);
+		startPortPolling(env, server, service.port);
+	} else if (!service.readyPatterns?.length) {
+		// Nothing to wait for (e.g. a worker): ready once started
+		markReady(env, server);
+	}
+}
 
-		return { success: true, port: config.defaultPort };
-	} catch (error) {
-		return {
-			success: false,
-			error: error instanceof Error ? error.message : 'Failed to start server'
-		};
+function emitServiceError(server: RunningServer, message: string) {
+	// 'error' events without a listener would throw
+	if (server.emitter.listenerCount('error') > 0) {
+		server.emitter.emit('error', message);
+	}
+}
+
+function markReady(env: DevEnvironment, server: RunningServer) {
+	if (server.ready || !isActive(server)) return;
+
+	server.ready = true;
+	server.state = 'ready';
+	server.emitter.emit('ready');
+	scheduleServices(env);
+	emitStatus(env);
+}
+
+function emitStatus(env: DevEnvironment) {
+	if (runningServers.get(env.projectId) === env) {
+		env.emitter.emit('status', getServerStatus(env.projectId));
 	}
 }
 
@@ -377,7 +709,7 @@ function appendPortToCommand(command: string, port: number): string {
 	return `${command} --port ${port}`;
 }
 
-function handleOutput(server: RunningServer, output: string) {
+function handleOutput(env: DevEnvironment, server: RunningServer, output: string) {
 	// Add to buffer (keep last 100 lines)
 	server.outputBuffer.push(output);
 	if (server.outputBuffer.length > 100) {
@@ -390,32 +722,39 @@ function handleOutput(server: RunningServer, output: string) {
 	// Check for error patterns first - don't mark as ready if there's an error
 	const hasError = ERROR_PATTERNS.some(pattern => pattern.test(output));
 	if (hasError) {
-		console.log(`[dev-server-manager] Error detected in output: ${output.slice(0, 150)}`);
+		console.log(`[dev-server-manager] Error detected in ${server.name} output: ${output.slice(0, 150)}`);
 		// Don't emit error here - let the process exit handler deal with it
 		return;
 	}
 
+	const framework = server.service.framework ?? 'other';
+
 	// Check for ready signal
 	if (!server.ready) {
-		// Normalize framework name for lookup (handle cases like "Next.js" -> "nextjs")
-		const normalizedFramework = server.config.framework.toLowerCase().replace(/[^a-z0-9]/g, '');
-		// First try framework-specific patterns
-		const frameworkPatterns = READY_PATTERNS[normalizedFramework] || READY_PATTERNS[server.config.framework] || [];
-		// Then try generic patterns as fallback
-		const allPatterns = [...frameworkPatterns, ...GENERIC_READY_PATTERNS];
+		let allPatterns: RegExp[];
+		if (server.service.readyPatterns?.length) {
+			// Configured patterns replace the framework defaults
+			allPatterns = server.service.readyPatterns.map(p => new RegExp(p, 'i'));
+		} else {
+			// Normalize framework name for lookup (handle cases like "Next.js" -> "nextjs")
+			const normalizedFramework = framework.toLowerCase().replace(/[^a-z0-9]/g, '');
+			// First try framework-specific patterns
+			const frameworkPatterns = READY_PATTERNS[normalizedFramework] || READY_PATTERNS[framework] || [];
+			// Then try generic patterns as fallback
+			allPatterns = [...frameworkPatterns, ...GENERIC_READY_PATTERNS];
+		}
 
 		for (const pattern of allPatterns) {
 			if (pattern.test(output)) {
-				console.log(`[dev-server-manager] Ready detected via pattern: ${pattern} in output: ${output.slice(0, 100)}`);
-				server.ready = true;
-				server.emitter.emit('ready');
+				console.log(`[dev-server-manager] ${server.name} ready detected via pattern: ${pattern} in output: ${output.slice(0, 100)}`);
+				markReady(env, server);
 				break;
 			}
 		}
 	}
 
 	// Check for Shopify preview URL
-	if (server.config.framework === 'shopify' && !server.previewUrl) {
+	if (framework === 'shopify' && !server.previewUrl) {
 		const match = output.match(SHOPIFY_PREVIEW_PATTERN);
 		if (match) {
 			server.previewUrl = match[0];
@@ -428,31 +767,31 @@ function handleOutput(server: RunningServer, output: string) {
  * Poll the port to detect when the server is ready to accept connections
  * This serves as a backup to stdout pattern matching
  */
-function startPortPolling(projectId: string, port: number) {
+function startPortPolling(env: DevEnvironment, server: RunningServer, port: number) {
 	const maxAttempts = 30; // Try for up to 30 seconds
 	let attempts = 0;
 	let stopped = false;
+	const childProcess = server.process;
 
 	const poll = () => {
 		if (stopped) return;
 
-		const server = runningServers.get(projectId);
-		if (!server || server.ready || server.process.killed) {
-			console.log(`[dev-server-manager] Stopping port poll - no server or already ready/killed`);
+		if (server.ready || server.process !== childProcess || !isActive(server)) {
+			console.log(`[dev-server-manager] Stopping port poll - ${server.name} already ready or stopped`);
 			stopped = true;
 			return;
 		}
 
 		// Check if the process is actually still running
-		if (server.process.exitCode !== null) {
-			console.log(`[dev-server-manager] Stopping port poll - process exited with code ${server.process.exitCode}`);
+		if (childProcess?.exitCode !== null) {
+			console.log(`[dev-server-manager] Stopping port poll - ${server.name} exited with code ${childProcess?.exitCode}`);
 			stopped = true;
 			return;
 		}
 
 		attempts++;
 		if (attempts > maxAttempts) {
-			console.log(`[dev-server-manager] Port polling timeout for project ${projectId}`);
+			console.log(`[dev-server-manager] Port polling timeout for ${env.projectId}/${server.name}`);
 			stopped = true;
 			return;
 		}
@@ -464,11 +803,9 @@ function startPortPolling(projectId: string, port: number) {
 		socket.on('connect', () => {
 			socket.destroy();
 			// Double-check server is still valid and process is running
-			const currentServer = runningServers.get(projectId);
-			if (currentServer && !currentServer.ready && currentServer.process.exitCode === null) {
-				console.log(`[dev-server-manager] Ready detected via port polling on port ${port}`);
-				currentServer.ready = true;
-				currentServer.emitter.emit('ready');
+			if (server.process === childProcess && childProcess.exitCode === null) {
+				console.log(`[dev-server-manager] ${server.name} ready detected via port polling on port ${port}`);
+				markReady(env, server);
 			}
 			stopped = true;
 		});
@@ -494,35 +831,78 @@ function startPortPolling(projectId: string, port: number) {
 	setTimeout(poll, 3000);
 }
 
+function killProcessGroup(childProcess: ChildProcess, signal: NodeJS.Signals) {
+	try {
+		if (childProcess.pid && process.platform !== 'win32') {
+			process.kill(-childProcess.pid, signal);
+			return;
+		}
+	} catch {
+		// Group already gone; fall back to the shell process
+	}
+	childProcess.kill(signal);
+}
+
+async function stopService(server: RunningServer): Promise<void> {
+	if (server.state === 'waiting') {
+		server.state = 'stopped';
+		return;
+	}
+
+	const childProcess = server.process;
+	if (!childProcess || childProcess.exitCode !== null || childProcess.signalCode !== null) {
+		return;
+	}
+
+	server.stopping = true;
+
+	// Try graceful shutdown first
+	killProcessGroup(childProcess, 'SIGTERM');
+
+	// Wait for process to exit
+	await new Promise<void>((resolve) => {
+		const timeout = setTimeout(() => {
+			// Force kill if not exited after 5 seconds
+			if (childProcess.exitCode === null) {
+				killProcessGroup(childProcess, 'SIGKILL');
+			}
+			resolve();
+		}, 5000);
+
+		childProcess.once('exit', () => {
+			clearTimeout(timeout);
+			resolve();
+		});
+	});
+}
+
 /**
- * Stop a dev server
+ * Stop a project's dev environment, or one of its services
+ * Services stop in reverse start order, so dependents stop first.
  */
-export async function stopDevServer(projectId: string): Promise<{ success: boolean; error?: string }> {
-	const server = runningServers.get(projectId);
-	if (!server) {
+export async function stopDevServer(projectId: string, serviceName?: string): Promise<{ success: boolean; error?: string }> {
+	const env = runningServers.get(projectId);
+	if (!env) {
 		return { success: true }; // Already stopped
 	}
 
 	try {
-		// Try graceful shutdown first
-		server.process.kill('SIGTERM');
-
-		// Wait for process to exit
-		await new Promise<void>((resolve) => {
-			const timeout = setTimeout(() => {
-				// Force kill if not exited after 5 seconds
-				if (!server.process.killed) {
-					server.process.kill('SIGKILL');
-				}
-				resolve();
-			}, 5000);
+		if (serviceName) {
+			const server = env.services.get(serviceName);
+			if (!server) {
+				return { success: false, error: `Unknown service "${serviceName}"` };
+			}
+			await stopService(server);
+			scheduleServices(env);
+			emitStatus(env);
+			return { success: true };
+		}
 
-			server.process.once('exit', () => {
-				clearTimeout(timeout);
-				resolve();
-			});
-		});
+		for (const server of [...env.services.values()].reverse()) {
+			await stopService(server);
+		}
 
+		emitStatus(env);
 		runningServers.delete(projectId);
 		return { success: true };
 	} catch (error) {
@@ -533,38 +913,74 @@ export async function stopDevServer(projectId: string): Promise<{ success: boole
 	}
 }
 
+// ============================================================================
+// Status and Output
+// ============================================================================
+
+function toServiceStatus(server: RunningServer): ServiceStatus {
+	return {
+		name: server.name,
+		state: server.state,
+		command: server.service.command,
+		dependsOn: server.service.dependsOn ?? [],
+		running: isActive(server),
+		pid: server.process?.pid,
+		port: server.service.port,
+		startedAt: server.startedAt,
+		ready: server.ready,
+		previewUrl: server.previewUrl,
+		error: server.error,
+		exitCode: server.exitCode
+	};
+}
+
 /**
- * Get the status of a dev server
+ * Get the aggregate status of a project's dev environment
  */
-export function getServerStatus(projectId: string): ServerStatus {
-	const server = runningServers.get(projectId);
-	if (!server) {
-		return { running: false, ready: false };
+export function getServerStatus(projectId: string): DevServerStatus {
+	const env = runningServers.get(projectId);
+	if (!env) {
+		return { running: false, ready: false, allReady: false, services: [] };
 	}
 
+	const services = [...env.services.values()].map(toServiceStatus);
+	const preview = services.find(s => s.name === env.previewService);
+	const failed = services.find(s => s.state === 'failed');
+
 	return {
-		running: !server.process.killed,
-		pid: server.process.pid,
-		port: server.config.defaultPort,
-		startedAt: server.startedAt,
-		ready: server.ready,
-		previewUrl: server.previewUrl
+		running: services.some(s => s.running),
+		pid: preview?.pid,
+		port: preview?.port,
+		startedAt: preview?.startedAt,
+		ready: preview?.ready ?? false,
+		previewUrl: preview?.previewUrl,
+		error: preview?.error ?? (failed ? `${failed.name}: ${failed.error ?? `exited with code ${failed.exitCode}`}` : undefined),
+		allReady: services.length > 0 && services.every(s => s.ready),
+		services
 	};
 }
 
 /**
- * Get the event emitter for a server to subscribe to events
+ * Get the event emitter of a service (the preview service by default)
+ */
+export function getServerEmitter(projectId: string, serviceName?: string): EventEmitter | null {
+	const env = runningServers.get(projectId);
+	return env?.services.get(serviceName ?? env.previewService)?.emitter || null;
+}
+
+/**
+ * Get the emitter for aggregate 'status' events of a project's environment
  */
-export function getServerEmitter(projectId: string): EventEmitter | null {
-	const server = runningServers.get(projectId);
-	return server?.emitter || null;
+export function getEnvironmentEmitter(projectId: string): EventEmitter | null {
+	return runningServers.get(projectId)?.emitter || null;
 }
 
 /**
- * Get recent output from a server
+ * Get recent output from a service (the preview service by default)
  */
-export function getServerOutput(projectId: string, lines = 50): string[] {
-	const server = runningServers.get(projectId);
+export function getServerOutput(projectId: string, lines = 50, serviceName?: string): string[] {
+	const env = runningServers.get(projectId);
+	const server = env?.services.get(serviceName ?? env.previewService);
 	if (!server) return [];
 	return server.outputBuffer.slice(-lines);
 }
@@ -573,15 +989,18 @@ export function getServerOutput(projectId: string, lines = 50): string[] {
  * Get the preview URL for a project
  */
 export function getPreviewUrl(projectId: string, config: DevServerConfig): string {
-	const server = runningServers.get(projectId);
+	const env = runningServers.get(projectId);
+	const previewName = env?.previewService ?? getPreviewServiceName(config);
+	const server = env?.services.get(previewName);
+	const service = server?.service ?? resolveDevServices(config).find(s => s.name === previewName);
 
 	// For Shopify, use the extracted preview URL
-	if (config.framework === 'shopify' && server?.previewUrl) {
+	if (service?.framework === 'shopify' && server?.previewUrl) {
 		return server.previewUrl;
 	}
 
 	// For other frameworks, use localhost
-	return `http://localhost:${config.defaultPort}`;
+	return `http://localhost:${service?.port ?? config.defaultPort}`;
 }
 
 /**
@@ -596,7 +1015,7 @@ export async function stopAllServers(): Promise<void> {
  * Check if any server is running
  */
 export function hasRunningServers(): boolean {
-	return runningServers.size > 0;
+	return [...runningServers.values()].some(env => [...env.services.values()].some(isActive));
 }
 
 // Cleanup on process exit
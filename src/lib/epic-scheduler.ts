@@ -0,0 +1,154 @@
+/**
+ * Epic Scheduler - Lane planning for parallel epic execution
+ *
+ * Pure helpers that decide which child tasks of an epic can run next.
+ * A child is ready once every blocker inside the epic has completed and
+ * been merged back, so its worktree branches off a base that already
+ * contains the work it depends on.
+ */
+import path from 'path';
+import os from 'os';
+import type { EpicLane, BlockingRelation } from './types';
+
+export const DEFAULT_EPIC_CONCURRENCY = 2;
+export const MAX_EPIC_CONCURRENCY = 8;
+
+// Worktrees live outside the project so they never show up in its git status
+const WORKTREES_DIR = path.join(os.homedir(), '.beads-dashboard', 'worktrees');
+
+/**
+ * Clamp a requested concurrency to the supported range
+ */
+export function normalizeConcurrency(requested?: number): number {
+	if (!requested || !Number.isFinite(requested)) return DEFAULT_EPIC_CONCURRENCY;
+	return Math.min(MAX_EPIC_CONCURRENCY, Math.max(1, Math.floor(requested)));
+}
+
+/**
+ * Directory of the git worktree a bead runs in, as a lane or a sequential run
+ */
+export function getLaneWorktreePath(projectId: string, taskId: string): string {
+	return path.join(WORKTREES_DIR, projectId, taskId);
+}
+
+/**
+ * Create the initial lane list for an epic's open children
+ */
+export function createLanes(taskIds: string[]): EpicLane[] {
+	return taskIds.map(taskId => ({
+		taskId,
+		status: 'pending',
+		mergeStatus: 'pending'
+	}));
+}
+
+/**
+ * Build a map of task -> blockers, limited to tasks that are lanes of this run
+ */
+function getBlockersByTask(lanes: EpicLane[], relations: BlockingRelation[]): Map<string, string[]> {
+	const laneIds = new Set(lanes.map(l => l.taskId));
+	const blockers = new Map<string, string[]>();
+
+	for (const rel of relations) {
+		if (!laneIds.has(rel.source) || !laneIds.has(rel.target)) continue;
+		const existing = blockers.get(rel.target) || [];
+		existing.push(rel.source);
+		blockers.set(rel.target, existing);
+	}
+
+	return blockers;
+}
+
+/**
+ * A blocker lane is satisfied once its work has landed on the base branch
+ */
+function isLaneSatisfied(lane: EpicLane): boolean {
+	return lane.status === 'completed' && lane.mergeStatus === 'merged';
+}
+
+/**
+ * A blocker lane that can never be satisfied during this run
+ */
+function isLaneDeadEnd(lane: EpicLane): boolean {
+	return lane.status === 'failed' || (lane.status === 'completed' && lane.mergeStatus === 'conflict');
+}
+
+/**
+ * Get pending lanes whose blockers have all been completed and merged
+ *
+ * @param lanes - Lanes of the run
+ * @param relations - Blocking relations between the epic's children
+ * @param limit - Maximum number of lanes to return (free concurrency slots)
+ */
+export function getReadyLanes(
+	lanes: EpicLane[],
+	relations: BlockingRelation[],
+	limit: number = Infinity
+): EpicLane[] {
+	const blockersByTask = getBlockersByTask(lanes, relations);
+	const laneById = new Map(lanes.map(l => [l.taskId, l]));
+	const ready: EpicLane[] = [];
+
+	for (const lane of lanes) {
+		if (ready.length >= limit) break;
+		if (lane.status !== 'pending') continue;
+
+		const blockers = blockersByTask.get(lane.taskId) || [];
+		const allSatisfied = blockers.every(id => {
+			const blocker = laneById.get(id);
+			return blocker ? isLaneSatisfied(blocker) : true;
+		});
+
+		if (allSatisfied) {
+			ready.push(lane);
+		}
+	}
+
+	return ready;
+}
+
+/**
+ * Get pending lanes that can never start because a blocker failed or did not merge
+ */
+export function getStrandedLanes(lanes: EpicLane[], relations: BlockingRelation[]): EpicLane[] {
+	const blockersByTask = getBlockersByTask(lanes, relations);
+	const laneById = new Map(lanes.map(l => [l.taskId, l]));
+	const stranded = new Set<string>();
+
+	// Propagate through chains: a lane behind a stranded lane is stranded too
+	let changed = true;
+	while (changed) {
+		changed = false;
+		for (const lane of lanes) {
+			if (lane.status !== 'pending' || stranded.has(lane.taskId)) continue;
+
+			const blockers = blockersByTask.get(lane.taskId) || [];
+			const deadEnd = blockers.some(id => {
+				const blocker = laneById.get(id);
+				return !!blocker && (isLaneDeadEnd(blocker) || stranded.has(id));
+			});
+
+			if (deadEnd) {
+				stranded.add(lane.taskId);
+				changed = true;
+			}
+		}
+	}
+
+	return lanes.filter(l => stranded.has(l.taskId));
+}
+
+/**
+ * Number of lanes that may be started right now
+ */
+export function getFreeSlots(lanes: EpicLane[], concurrency: number): number {
+	const running = lanes.filter(l => l.status === 'running').length;
+	return Math.max(0, concurrency - running);
+}
+
+/**
+ * A parallel run is finished when no lane is pending or running
+ */
+export function isParallelRunFinished(lanes: EpicLane[]): boolean {
+	return lanes.every(l => l.status === 'completed' || l.status === 'failed');
+}
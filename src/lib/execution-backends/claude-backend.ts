@@ -0,0 +1,44 @@
+/**
+ * Claude CLI execution backend - the default for task runs
+ */
+import {
+	createClaudeSession,
+	sendMessage,
+	cancelResponse,
+	closeSession
+} from '../claude-cli';
+import type { ExecutionBackend, ExecutionSession, ExecutionSessionOptions } from './types';
+
+export const claudeBackend: ExecutionBackend = {
+	id: 'claude',
+	label: 'Claude CLI',
+
+	createSession(options: ExecutionSessionOptions): ExecutionSession | null {
+		const { onData, onError, onClose } = options;
+
+		const session = createClaudeSession({
+			projectPath: options.projectPath,
+			agentPrompt: options.agentPrompt,
+			resumeSessionId: options.resumeSessionId,
+			onData,
+			onError,
+			onClose
+		});
+
+		if (!session) return null;
+
+		return {
+			id: session.id,
+			backendId: 'claude',
+			send(message) {
+				sendMessage(session, message, onData, onError, onClose);
+			},
+			cancel() {
+				cancelResponse(session);
+			},
+			close() {
+				closeSession(session);
+			}
+		};
+	}
+};
@@ -0,0 +1,81 @@
+/**
+ * Execution Backends Module
+ *
+ * Registry of the backends the task runner can execute beads with.
+ * Agents choose one with `backend:` in their frontmatter; runs without an
+ * agent, or with an unknown backend, use the Claude CLI.
+ */
+import { claudeBackend } from './claude-backend';
+import { shellBackend } from './shell-backend';
+import type { ExecutionBackend } from './types';
+import type { AgentFrontmatter } from '../types';
+
+// Types
+export type {
+	ExecutionBackend,
+	ExecutionSession,
+	ExecutionSessionOptions,
+	ExecutionSessionHandlers,
+	ExecutionMessageContext,
+	ExecutionOutputChunk
+} from './types';
+
+// Built-in backends
+export { claudeBackend } from './claude-backend';
+export { shellBackend, compileMarkers, mapShellOutputLine, exitCodeSignal } from './shell-backend';
+
+export const DEFAULT_BACKEND_ID = 'claude';
+
+const backends = new Map<string, ExecutionBackend>([
+	[claudeBackend.id, claudeBackend],
+	[shellBackend.id, shellBackend]
+]);
+
+/**
+ * Register a backend (replaces any backend with the same id)
+ * Used for additional integrations and for fake backends in tests.
+ */
+export function registerExecutionBackend(backend: ExecutionBackend): void {
+	backends.set(backend.id, backend);
+}
+
+/**
+ * Remove a registered backend; the built-in Claude backend cannot be removed
+ */
+export function unregisterExecutionBackend(id: string): boolean {
+	if (id === DEFAULT_BACKEND_ID) return false;
+	return backends.delete(id);
+}
+
+/**
+ * Get a backend by id
+ */
+export function getExecutionBackend(id: string): ExecutionBackend | undefined {
+	return backends.get(id);
+}
+
+/**
+ * List registered backends
+ */
+export function listExecutionBackends(): ExecutionBackend[] {
+	return Array.from(backends.values());
+}
+
+/**
+ * Pick the backend an agent asks for, falling back to the Claude CLI
+ */
+export function resolveExecutionBackend(backendId?: string | null): ExecutionBackend {
+	if (backendId) {
+		const backend = backends.get(backendId);
+		if (backend) return backend;
+		console.warn(`[ExecutionBackends] Unknown backend "${backendId}", using ${DEFAULT_BACKEND_ID}`);
+	}
+	return backends.get(DEFAULT_BACKEND_ID)!;
+}
+
+/**
+ * Backend id declared in agent frontmatter
+ */
+export function getAgentBackendId(agent?: AgentFrontmatter): string {
+	return typeof agent?.backend === 'string' && agent.backend ? agent.backend : DEFAULT_BACKEND_ID;
+}
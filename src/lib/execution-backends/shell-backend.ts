@@ -0,0 +1,223 @@
+/**
+ * Shell script agent backend
+ *
+ * Runs the agent's configured command once per message, with the prompt on
+ * stdin and the bead in the environment. Stdout lines stream back as text;
+ * lines matching the agent's markers are rewritten to the task runner's
+ * COMPLETION_SIGNALS. Commands can also print a <task-completion> envelope.
+ * If the command exits without a signal, the exit code decides: 0 completes
+ * the bead, anything else blocks it.
+ */
+import { randomUUID } from 'crypto';
+import { spawn, type ChildProcess } from 'child_process';
+import { parseCommand, ActionRunnerError, type ParsedCommand } from '../action-runner';
+import { detectCompletionSignal } from '../task-prompt-builder';
+import type { ShellAgentConfig } from '../types';
+import type {
+	ExecutionBackend,
+	ExecutionSession,
+	ExecutionSessionOptions,
+	ExecutionOutputChunk
+} from './types';
+
+const DEFAULT_TIMEOUT_MS = 30 * 60 * 1000;
+const KILL_GRACE_MS = 5000;
+// Output kept for spotting a multi-line completion envelope at exit
+const MAX_SIGNAL_OUTPUT = 64 * 1024;
+
+type SignalType = 'completed' | 'blocked' | 'awaiting_input';
+
+const SIGNAL_PREFIXES: Record<SignalType, string> = {
+	completed: 'TASK_COMPLETED',
+	blocked: 'TASK_BLOCKED',
+	awaiting_input: 'AWAITING_INPUT'
+};
+
+export type ShellMarkers = Partial<Record<SignalType, RegExp>>;
+
+/**
+ * Compile the agent's marker patterns
+ * @throws Error naming the marker if a pattern is not a valid regex
+ */
+export function compileMarkers(markers: ShellAgentConfig['markers'] = {}): ShellMarkers {
+	const compiled: ShellMarkers = {};
+	for (const type of Object.keys(SIGNAL_PREFIXES) as SignalType[]) {
+		const pattern = markers[type];
+		if (!pattern) continue;
+		try {
+			compiled[type] = new RegExp(pattern);
+		} catch (err) {
+			throw new Error(`Invalid ${type} marker /${pattern}/: ${err instanceof Error ? err.message : err}`);
+		}
+	}
+	return compiled;
+}
+
+/**
+ * Map one stdout line to the text the task runner sees.
+ * A marker match becomes e.g. "TASK_COMPLETED: <group 1 or the whole line>".
+ */
+export function mapShellOutputLine(
+	line: string,
+	markers: ShellMarkers
+): { text: string; signal: SignalType | null } {
+	for (const type of Object.keys(SIGNAL_PREFIXES) as SignalType[]) {
+		const match = markers[type]?.exec(line);
+		if (match) {
+			const message = (match[1] ?? line).trim() || line.trim();
+			return { text: `${SIGNAL_PREFIXES[type]}: ${message}`, signal: type };
+		}
+	}
+
+	return { text: line, signal: detectCompletionSignal(line).type };
+}
+
+/**
+ * Signal text for a command that exited without emitting one
+ */
+export function exitCodeSignal(code: number): string {
+	return code === 0
+		? `${SIGNAL_PREFIXES.completed}: Command exited successfully`
+		: `${SIGNAL_PREFIXES.blocked}: Command exited with code ${code}`;
+}
+
+export const shellBackend: ExecutionBackend = {
+	id: 'shell',
+	label: 'Shell script agent',
+
+	createSession(options: ExecutionSessionOptions): ExecutionSession | null {
+		const { projectPath, onData, onError, onClose } = options;
+		const config = options.agent?.shell;
+
+		let parsed: ParsedCommand;
+		let markers: ShellMarkers;
+		try {
+			if (!config?.command) {
+				throw new Error('Shell backend requires `shell.command` in the agent frontmatter');
+			}
+			parsed = parseCommand(config.command);
+			markers = compileMarkers(config.markers);
+		} catch (err) {
+			const message = err instanceof ActionRunnerError || err instanceof Error ? err.message : String(err);
+			console.error('[ShellBackend] Invalid agent config:', message);
+			onError(new Error(message));
+			return null;
+		}
+
+		const sessionId = options.resumeSessionId || randomUUID();
+		const timeoutMs = config.timeoutMs && config.timeoutMs > 0 ? config.timeoutMs : DEFAULT_TIMEOUT_MS;
+		let child: ChildProcess | null = null;
+		let stopped = false;
+
+		function emit(chunk: ExecutionOutputChunk) {
+			onData(chunk);
+		}
+
+		function terminate() {
+			const proc = child;
+			if (!proc || proc.exitCode !== null) return;
+			proc.kill('SIGTERM');
+			setTimeout(() => {
+				if (proc.exitCode === null && proc.signalCode === null) proc.kill('SIGKILL');
+			}, KILL_GRACE_MS).unref();
+		}
+
+		return {
+			id: sessionId,
+			backendId: 'shell',
+
+			send(message, context = {}) {
+				if (child) {
+					onError(new Error('Shell agent is still running the previous message'));
+					return;
+				}
+
+				const [program, ...args] = parsed.argv;
+				const startedAt = Date.now();
+				let signalSeen = false;
+				let timedOut = false;
+				let buffer = '';
+				let output = '';
+				stopped = false;
+
+				const proc = spawn(program, args, {
+					cwd: projectPath,
+					env: {
+						...process.env,
+						...parsed.env,
+						BEAD_ID: context.issueId ?? '',
+						BEAD_RUN_ID: context.runId ?? '',
+						BEAD_SESSION_ID: sessionId,
+						BEAD_PROJECT_PATH: projectPath,
+						CI: 'true'
+					},
+					stdio: ['pipe', 'pipe', 'pipe']
+				});
+				child = proc;
+
+				const timer = setTimeout(() => {
+					timedOut = true;
+					emit({ type: 'error', content: `Shell agent timed out after ${Math.round(timeoutMs / 1000)}s` });
+					terminate();
+				}, timeoutMs);
+
+				function handleLine(line: string) {
+					if (!line.trim()) return;
+					const mapped = mapShellOutputLine(line, markers);
+					if (mapped.signal) signalSeen = true;
+					output = `${output}${mapped.text}\n`.slice(-MAX_SIGNAL_OUTPUT);
+					emit({ type: 'text', content: mapped.text });
+				}
+
+				proc.stdout?.on('data', (data: Buffer) => {
+					buffer += data.toString();
+					const lines = buffer.split('\n');
+					buffer = lines.pop() || '';
+					lines.forEach(handleLine);
+				});
+
+				proc.stderr?.on('data', (data: Buffer) => {
+					const text = data.toString().trim();
+					if (text) emit({ type: 'error', content: text });
+				});
+
+				// EPIPE if the command exits without reading its prompt
+				proc.stdin?.on('error', () => {});
+				proc.stdin?.end(message);
+
+				proc.on('error', (err) => {
+					clearTimeout(timer);
+					child = null;
+					console.error('[ShellBackend] Failed to start command:', err);
+					onError(err);
+					onClose(1);
+				});
+
+				proc.on('close', (code, signal) => {
+					clearTimeout(timer);
+					child = null;
+					handleLine(buffer);
+
+					const exitCode = code ?? (signal ? 1 : 0);
+					// A completion envelope can span several lines
+					if (!signalSeen && detectCompletionSignal(output).type) signalSeen = true;
+					if (!signalSeen && !stopped) {
+						emit({ type: 'text', content: timedOut ? exitCodeSignal(124) : exitCodeSignal(exitCode) });
+					}
+					emit({ type: 'done', durationMs: Date.now() - startedAt });
+					onClose(exitCode);
+				});
+			},
+
+			cancel() {
+				stopped = true;
+				terminate();
+			},
+
+			close() {
+				stopped = true;
+				terminate();
+			}
+		};
+	}
+};
@@ -0,0 +1,64 @@
+/**
+ * Type definitions for task runner execution backends
+ *
+ * A backend runs an agent conversation for the task runner: it starts a
+ * session, accepts messages, can be cancelled, and streams output chunks
+ * (text, tool use, errors, and a final 'done' chunk carrying usage). A backend
+ * that can continue a conversation reports its session ID in a 'session' chunk.
+ * The Claude CLI is the default backend; agents can pick another one with
+ * `backend:` in their frontmatter.
+ */
+import type { ClaudeOutputChunk } from '../claude-cli';
+import type { AgentFrontmatter } from '../types';
+
+/**
+ * Output chunk streamed from a backend session.
+ * Same shape as the Claude CLI's chunks so the task runner handles every backend alike.
+ */
+export type ExecutionOutputChunk = ClaudeOutputChunk;
+
+export interface ExecutionSessionHandlers {
+	onData: (chunk: ExecutionOutputChunk) => void;
+	onError: (error: Error) => void;
+	onClose: (code: number) => void;
+}
+
+export interface ExecutionSessionOptions extends ExecutionSessionHandlers {
+	projectPath: string;
+	// Agent profile (full markdown) to prepend to the first message
+	agentPrompt?: string;
+	// Parsed agent frontmatter, for backend-specific settings
+	agent?: AgentFrontmatter;
+	// Session ID reported by an earlier session of the same backend, to continue
+	// its conversation (e.g. after a restart)
+	resumeSessionId?: string;
+}
+
+/**
+ * What a message is about, for backends that work per bead
+ */
+export interface ExecutionMessageContext {
+	issueId?: string;
+	runId?: string;
+}
+
+export interface ExecutionSession {
+	id: string;
+	backendId: string;
+	// Send a message; output arrives through the session's handlers
+	send(message: string, context?: ExecutionMessageContext): void;
+	// Stop the response in progress, keeping the session open
+	cancel(): void;
+	// Stop everything and release the session
+	close(): void;
+}
+
+export interface ExecutionBackend {
+	id: string;
+	label: string;
+	/**
+	 * Create a session, or return null (after calling onError) if the backend
+	 * cannot run, e.g. the CLI is not installed or the agent config is invalid
+	 */
+	createSession(options: ExecutionSessionOptions): ExecutionSession | null;
+}
@@ -57,12 +57,13 @@ export interface GitDiffFile {
  * Execute a git command and return the output
  * Uses spawnSync to avoid shell interpretation of special characters
  */
-function execGit(projectPath: string, args: string[], options?: { timeout?: number }): string {
+function execGit(projectPath: string, args: string[], options?: { timeout?: number; maxBuffer?: number }): string {
 	try {
 		const result = spawnSync('git', args, {
 			cwd: projectPath,
 			encoding: 'utf-8',
 			timeout: options?.timeout || 30000,
+			maxBuffer: options?.maxBuffer,
 			stdio: ['pipe', 'pipe', 'pipe']
 		});
 
@@ -290,31 +291,79 @@ export function getCurrentBranch(projectPath: string): string {
 
 /**
  * Get diff for uncommitted changes or between commits
+ * With commitOnly, the diff is the change the commit itself introduced.
  */
-export function getDiff(projectPath: string, commitHash?: string): GitDiff {
+export function getDiff(projectPath: string, commitHash?: string, options?: { commitOnly?: boolean }): GitDiff {
 	let diffOutput: string;
 	let statOutput: string;
-
-	if (commitHash) {
+	let numstatOutput: string;
+
+	if (commitHash && options?.commitOnly) {
+		// Change introduced by the commit (also works for the root commit)
+		diffOutput = execGit(projectPath, ['show', '--format=', '--no-color', commitHash]);
+		statOutput = execGit(projectPath, ['show', '--format=', '--stat', commitHash]);
+		numstatOutput = execGit(projectPath, ['show', '--format=', '--numstat', commitHash]);
+	} else if (commitHash) {
 		// Diff between commit and current HEAD
 		diffOutput = execGit(projectPath, ['diff', commitHash, 'HEAD']);
 		statOutput = execGit(projectPath, ['diff', commitHash, 'HEAD', '--stat']);
+		numstatOutput = execGit(projectPath, ['diff', commitHash, 'HEAD', '--numstat']);
 	} else {
 		// Diff of uncommitted changes (staged + unstaged)
 		diffOutput = execGit(projectPath, ['diff', 'HEAD']);
 		statOutput = execGit(projectPath, ['diff', 'HEAD', '--stat']);
+		numstatOutput = execGit(projectPath, ['diff', 'HEAD', '--numstat']);
 	}
 
-	// Parse the stat output for summary
-	const files: GitDiffFile[] = [];
-	// For now, return the raw diff - can parse further if needed
-
 	return {
-		files,
+		files: parseDiffFiles(diffOutput, numstatOutput),
 		summary: statOutput || 'No changes'
 	};
 }
 
+/**
+ * Split a diff into files, taking line counts from --numstat
+ * Both list files in the same order; binary files count as 0 lines.
+ */
+function parseDiffFiles(diffOutput: string, numstatOutput: string): GitDiffFile[] {
+	const counts = numstatOutput
+		.split('\n')
+		.filter(Boolean)
+		.map((line) => {
+			const [additions, deletions] = line.split('\t');
+			return { additions: parseInt(additions) || 0, deletions: parseInt(deletions) || 0 };
+		});
+
+	return diffOutput
+		.split(/^(?=diff --git )/m)
+		.filter((chunk) => chunk.startsWith('diff --git '))
+		.map((chunk, index) => {
+			const header = chunk.slice(0, chunk.indexOf('\n@@') === -1 ? undefined : chunk.indexOf('\n@@'));
+			const renamedTo = header.match(/^rename to (.+)$/m)?.[1];
+			const path = renamedTo ?? chunk.match(/^diff --git a\/.+ b\/(.+)$/m)?.[1] ?? '';
+
+			let status: GitDiffFile['status'] = 'modified';
+			if (/^new file mode/m.test(header)) status = 'added';
+			else if (/^deleted file mode/m.test(header)) status = 'deleted';
+			else if (renamedTo) status = 'renamed';
+
+			return {
+				path,
+				status,
+				additions: counts[index]?.additions ?? 0,
+				deletions: counts[index]?.deletions ?? 0,
+				diff: chunk.trimEnd()
+			};
+		});
+}
+
+/**
+ * Get the patch a commit introduced, without context lines
+ */
+export function getCommitPatch(projectPath: string, commitHash: string): string {
+	return execGit(projectPath, ['show', '--format=', '--unified=0', '--no-color', commitHash]);
+}
+
 /**
  * Stage all changes
  */
@@ -356,46 +405,6 @@ export function discardAllChanges(projectPath: string): void {
 	execGit(projectPath, ['clean', '-fd']);
 }
 
-/**
- * Restore to a specific commit (destructive - force pushes)
- * Returns the commits that were undone
- */
-export function restoreToCommit(
-	projectPath: string,
-	commitHash: string,
-	options: { saveFirst?: boolean; commitMessage?: string } = {}
-): { success: boolean; savedCommitHash?: string; error?: string } {
-	try {
-		let savedCommitHash: string | undefined;
-
-		// If saveFirst is true, create a checkpoint of current state
-		if (options.saveFirst) {
-			const status = getStatus(projectPath);
-			if (status.hasChanges) {
-				const message = options.commitMessage || `Checkpoint before restore to ${commitHash.slice(0, 7)}`;
-				savedCommitHash = createCommit(projectPath, message);
-			}
-		}
-
-		// Hard reset to the target commit
-		execGit(projectPath, ['reset', '--hard', commitHash]);
-
-		// Force push to remote (if remote exists)
-		try {
-			const currentBranch = getCurrentBranch(projectPath);
-			execGit(projectPath, ['push', '--force', 'origin', currentBranch]);
-		} catch {
-			// Remote might not exist or push might fail - that's okay for local-only repos
-			console.log('[git-utils] Force push skipped (no remote or push failed)');
-		}
-
-		return { success: true, savedCommitHash };
-	} catch (error: unknown) {
-		const err = error as Error;
-		return { success: false, error: err.message };
-	}
-}
-
 /**
  * Switch to a different branch
  */
@@ -431,6 +440,23 @@ export function createBranch(projectPath: string, branchName: string): { success
 	}
 }
 
+/**
+ * Create a branch at a start point without checking it out
+ */
+export function createBranchAt(
+	projectPath: string,
+	branchName: string,
+	startPoint: string
+): { success: boolean; error?: string } {
+	try {
+		execGit(projectPath, ['branch', branchName, startPoint]);
+		return { success: true };
+	} catch (error: unknown) {
+		const err = error as Error;
+		return { success: false, error: err.message };
+	}
+}
+
 /**
  * Push current branch to remote
  */
@@ -448,6 +474,431 @@ export function push(projectPath: string, force: boolean = false): { success: bo
 	}
 }
 
+/**
+ * Push a specific branch to origin and set it as the upstream
+ */
+export function pushBranch(projectPath: string, branchName: string): { success: boolean; error?: string } {
+	try {
+		execGit(projectPath, ['push', '-u', 'origin', branchName], { timeout: 60000 });
+		return { success: true };
+	} catch (error: unknown) {
+		const err = error as Error;
+		return { success: false, error: err.message };
+	}
+}
+
+// ============== WORKTREES ==============
+
+/**
+ * Check whether a local branch exists
+ */
+export function branchExists(projectPath: string, branchName: string): boolean {
+	try {
+		execGit(projectPath, ['rev-parse', '--verify', '--quiet', `refs/heads/${branchName}`]);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Get the paths of all worktrees registered for the repository
+ */
+export function listWorktrees(projectPath: string): string[] {
+	const output = execGit(projectPath, ['worktree', 'list', '--porcelain']);
+	return output
+		.split('\n')
+		.filter(line => line.startsWith('worktree '))
+		.map(line => line.slice('worktree '.length));
+}
+
+/**
+ * Add a worktree for a branch, creating the branch from baseRef if needed
+ * An existing worktree at the same path is reused.
+ */
+export function addWorktree(
+	projectPath: string,
+	worktreePath: string,
+	branchName: string,
+	baseRef: string
+): { success: boolean; reused?: boolean; error?: string } {
+	try {
+		if (listWorktrees(projectPath).includes(worktreePath)) {
+			return { success: true, reused: true };
+		}
+
+		if (branchExists(projectPath, branchName)) {
+			execGit(projectPath, ['worktree', 'add', worktreePath, branchName]);
+		} else {
+			execGit(projectPath, ['worktree', 'add', '-b', branchName, worktreePath, baseRef]);
+		}
+		return { success: true };
+	} catch (error: unknown) {
+		const err = error as Error;
+		return { success: false, error: err.message };
+	}
+}
+
+/**
+ * Remove a worktree (the branch is kept)
+ */
+export function removeWorktree(
+	projectPath: string,
+	worktreePath: string,
+	force: boolean = false
+): { success: boolean; error?: string } {
+	try {
+		const args = ['worktree', 'remove', worktreePath];
+		if (force) args.push('--force');
+
+		execGit(projectPath, args);
+		return { success: true };
+	} catch (error: unknown) {
+		const err = error as Error;
+		return { success: false, error: err.message };
+	}
+}
+
+/**
+ * Merge a branch into the currently checked out branch with a merge commit
+ * On conflict the merge is aborted so the checkout is left untouched.
+ */
+export function mergeBranch(
+	projectPath: string,
+	branchName: string,
+	message?: string
+): { success: boolean; conflict?: boolean; commitHash?: string; error?: string } {
+	try {
+		execGit(projectPath, ['merge', '--no-ff', '-m', message || `Merge branch '${branchName}'`, branchName]);
+		return { success: true, commitHash: execGit(projectPath, ['rev-parse', 'HEAD']) };
+	} catch (error: unknown) {
+		const err = error as Error;
+		const conflict = /conflict/i.test(err.message);
+		if (conflict) {
+			try {
+				execGit(projectPath, ['merge', '--abort']);
+			} catch {
+				// Nothing to abort
+			}
+		}
+		return { success: false, conflict, error: err.message };
+	}
+}
+
+// ============== SAFE RESTORE ==============
+
+/**
+ * How a restore brings back an older version:
+ * - revert: commit the old files on top of the current history (default)
+ * - branch: start a new branch at the old commit, leaving the current one alone
+ * - reset: move the current branch back (rewrites history)
+ */
+export type RestoreMode = 'revert' | 'branch' | 'reset';
+
+/** Backups are refs so the commits they point to survive gc */
+const BACKUP_REF_PREFIX = 'refs/beads-dashboard/backup/';
+
+/** Unsaved tracked changes at backup time, as a stash commit */
+const WIP_REF_PREFIX = 'refs/beads-dashboard/wip/';
+
+/** Backups kept per repository; older ones are pruned when a new one is recorded */
+const MAX_RESTORE_BACKUPS = 30;
+
+export interface RestoreOptions {
+	mode?: RestoreMode;
+	saveFirst?: boolean;
+	commitMessage?: string;
+	/** Branch to create in 'branch' mode (default restore/<short hash>) */
+	branchName?: string;
+	/** 'reset' mode only: force-push the rewound branch if the remote has nothing we lack */
+	forcePush?: boolean;
+}
+
+/**
+ * A recovery point recorded before a restore (or an undo)
+ */
+export interface RestoreBackup {
+	id: string;
+	ref: string;
+	commitHash: string;
+	shortHash: string;
+	subject: string;
+	branch: string | null; // null when HEAD was detached
+	mode: RestoreMode | 'undo';
+	createdAt: string;
+	hasUnsavedChanges: boolean;
+}
+
+export interface RestoreResult {
+	success: boolean;
+	mode?: RestoreMode;
+	savedCommitHash?: string;
+	backup?: RestoreBackup;
+	restoreCommitHash?: string; // 'revert' mode, unless the files already matched
+	branchName?: string; // 'branch' mode
+	pushed?: boolean;
+	pushSkippedReason?: string;
+	error?: string;
+}
+
+const BACKUP_ID_PATTERN = /^(\d+)-(revert|branch|reset|undo)$/;
+
+function tryRevParse(projectPath: string, ref: string): string | null {
+	try {
+		return execGit(projectPath, ['rev-parse', '--verify', '--quiet', ref]);
+	} catch {
+		return null;
+	}
+}
+
+function isAncestor(projectPath: string, ancestor: string, descendant: string): boolean {
+	try {
+		execGit(projectPath, ['merge-base', '--is-ancestor', ancestor, descendant]);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * List recorded restore backups, newest first
+ */
+export function listRestoreBackups(projectPath: string, limit: number = 10): RestoreBackup[] {
+	const output = execGit(projectPath, [
+		'for-each-ref',
+		'--format=%(refname)%00%(objectname)%00%(subject)',
+		BACKUP_REF_PREFIX
+	]);
+	if (!output) return [];
+
+	const wipIds = new Set(
+		execGit(projectPath, ['for-each-ref', '--format=%(refname)', WIP_REF_PREFIX])
+			.split('\n')
+			.filter(Boolean)
+			.map((ref) => ref.slice(WIP_REF_PREFIX.length))
+	);
+
+	const backups: RestoreBackup[] = [];
+	for (const line of output.split('\n')) {
+		const [ref, commitHash, subject] = line.split('\0');
+		const rest = ref.slice(BACKUP_REF_PREFIX.length);
+		const slash = rest.indexOf('/');
+		const id = slash > 0 ? rest.slice(0, slash) : '';
+		const match = BACKUP_ID_PATTERN.exec(id);
+		if (!match) continue;
+
+		const branch = rest.slice(slash + 1);
+		backups.push({
+			id,
+			ref,
+			commitHash,
+			shortHash: commitHash.slice(0, 7),
+			subject: subject || '',
+			branch: branch === 'HEAD' ? null : branch,
+			mode: match[2] as RestoreBackup['mode'],
+			createdAt: new Date(Number(match[1])).toISOString(),
+			hasUnsavedChanges: wipIds.has(id)
+		});
+	}
+
+	return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id)).slice(0, limit);
+}
+
+function deleteRestoreBackup(projectPath: string, backup: RestoreBackup): void {
+	execGit(projectPath, ['update-ref', '-d', backup.ref]);
+	if (backup.hasUnsavedChanges) {
+		execGit(projectPath, ['update-ref', '-d', `${WIP_REF_PREFIX}${backup.id}`]);
+	}
+}
+
+/**
+ * Record HEAD (and any unsaved tracked changes) under a backup ref
+ */
+export function recordRestoreBackup(projectPath: string, mode: RestoreBackup['mode']): RestoreBackup {
+	const head = execGit(projectPath, ['rev-parse', 'HEAD']);
+	const branch = getCurrentBranch(projectPath) || 'HEAD';
+
+	const existing = listRestoreBackups(projectPath, Infinity);
+	const takenStamps = new Set(existing.map((backup) => backup.id.split('-')[0]));
+	let stamp = Date.now();
+	while (takenStamps.has(String(stamp))) stamp++;
+	const id = `${stamp}-${mode}`;
+
+	execGit(projectPath, ['update-ref', '-m', `beads-dashboard: backup before ${mode}`, `${BACKUP_REF_PREFIX}${id}/${branch}`, head]);
+
+	// `stash create` snapshots tracked changes without touching the working tree
+	const wip = getStatus(projectPath).hasChanges ? execGit(projectPath, ['stash', 'create']) : '';
+	if (wip) {
+		execGit(projectPath, ['update-ref', `${WIP_REF_PREFIX}${id}`, wip]);
+	}
+
+	for (const stale of existing.slice(MAX_RESTORE_BACKUPS - 1)) {
+		deleteRestoreBackup(projectPath, stale);
+	}
+
+	return listRestoreBackups(projectPath, Infinity).find((backup) => backup.id === id)!;
+}
+
+/**
+ * Force-push a rewound branch, unless origin has commits the backup does not
+ */
+function forcePushRestoredBranch(
+	projectPath: string,
+	backup: RestoreBackup
+): { pushed: boolean; pushSkippedReason?: string } {
+	const branch = backup.branch;
+	if (!branch) {
+		return { pushed: false, pushSkippedReason: 'Not on a branch' };
+	}
+
+	try {
+		execGit(projectPath, ['remote', 'get-url', 'origin']);
+	} catch {
+		return { pushed: false, pushSkippedReason: 'No origin remote' };
+	}
+
+	try {
+		execGit(projectPath, ['fetch', 'origin', branch], { timeout: 60000 });
+	} catch (error: unknown) {
+		const remoteMissing = /couldn't find remote ref/i.test((error as Error).message);
+		if (!remoteMissing) {
+			return { pushed: false, pushSkippedReason: `Could not check origin/${branch}: ${(error as Error).message}` };
+		}
+	}
+
+	const remoteHash = tryRevParse(projectPath, `refs/remotes/origin/${branch}`);
+	if (remoteHash && !isAncestor(projectPath, remoteHash, backup.commitHash)) {
+		return {
+			pushed: false,
+			pushSkippedReason: `origin/${branch} has commits that are not in your local history, so it was not overwritten`
+		};
+	}
+
+	try {
+		// The lease makes the push fail if origin moved after the check above
+		execGit(projectPath, ['push', `--force-with-lease=${branch}:${remoteHash ?? ''}`, 'origin', branch], {
+			timeout: 60000
+		});
+		return { pushed: true };
+	} catch (error: unknown) {
+		return { pushed: false, pushSkippedReason: (error as Error).message };
+	}
+}
+
+/**
+ * Restore the project to a specific commit
+ * A backup ref of the current state is recorded before anything is changed, so
+ * the restore can be undone with undoRestore(). Only 'reset' mode rewrites
+ * history, and it only force-pushes when asked to.
+ */
+export function restoreToCommit(
+	projectPath: string,
+	commitHash: string,
+	options: RestoreOptions = {}
+): RestoreResult {
+	const mode = options.mode ?? 'revert';
+
+	try {
+		const target = tryRevParse(projectPath, `${commitHash}^{commit}`);
+		if (!target) {
+			return { success: false, mode, error: `Unknown commit ${commitHash}` };
+		}
+		const shortTarget = target.slice(0, 7);
+
+		const branchName = mode === 'branch' ? options.branchName?.trim() || `restore/${shortTarget}` : undefined;
+		if (branchName && branchExists(projectPath, branchName)) {
+			return { success: false, mode, error: `A workspace named "${branchName}" already exists` };
+		}
+
+		let savedCommitHash: string | undefined;
+
+		// If saveFirst is true, create a checkpoint of current state
+		if (options.saveFirst) {
+			const status = getStatus(projectPath);
+			if (status.hasChanges) {
+				const message = options.commitMessage || `Checkpoint before restore to ${shortTarget}`;
+				savedCommitHash = createCommit(projectPath, message);
+			}
+		}
+
+		const backup = recordRestoreBackup(projectPath, mode);
+
+		// Unsaved tracked changes are in the backup; untracked files are left alone
+		execGit(projectPath, ['reset', '--hard', 'HEAD']);
+
+		if (mode === 'branch') {
+			execGit(projectPath, ['checkout', '-b', branchName!, target]);
+			return { success: true, mode, savedCommitHash, backup, branchName };
+		}
+
+		if (mode === 'reset') {
+			execGit(projectPath, ['reset', '--hard', target]);
+			const push = options.forcePush ? forcePushRestoredBranch(projectPath, backup) : { pushed: false };
+			return { success: true, mode, savedCommitHash, backup, ...push };
+		}
+
+		// Revert-style: make the files match the target and commit that on top
+		execGit(projectPath, ['read-tree', '-u', '--reset', target]);
+		let restoreCommitHash: string | undefined;
+		try {
+			execGit(projectPath, ['diff', '--cached', '--quiet']);
+		} catch {
+			const subject = execGit(projectPath, ['log', '-1', '--format=%s', target]);
+			execGit(projectPath, ['commit', '-m', `Restore to ${shortTarget}: ${subject}`]);
+			restoreCommitHash = execGit(projectPath, ['rev-parse', 'HEAD']);
+		}
+
+		return { success: true, mode, savedCommitHash, backup, restoreCommitHash };
+	} catch (error: unknown) {
+		const err = error as Error;
+		return { success: false, mode, error: err.message };
+	}
+}
+
+/**
+ * Go back to the state recorded in a restore backup
+ * The current state is backed up first, so an undo can itself be undone.
+ */
+export function undoRestore(
+	projectPath: string,
+	backupId: string
+): { success: boolean; backup?: RestoreBackup; error?: string } {
+	try {
+		const target = listRestoreBackups(projectPath, Infinity).find((backup) => backup.id === backupId);
+		if (!target) {
+			return { success: false, error: 'Backup not found' };
+		}
+
+		if (getStatus(projectPath).hasChanges) {
+			return {
+				success: false,
+				error: 'You have unsaved changes. Please save or discard them before undoing a restore.'
+			};
+		}
+
+		const backup = recordRestoreBackup(projectPath, 'undo');
+
+		if (target.branch && target.branch !== getCurrentBranch(projectPath)) {
+			if (branchExists(projectPath, target.branch)) {
+				execGit(projectPath, ['checkout', target.branch]);
+			} else {
+				execGit(projectPath, ['checkout', '-b', target.branch, target.commitHash]);
+			}
+		}
+		execGit(projectPath, ['reset', '--hard', target.commitHash]);
+
+		if (target.hasUnsavedChanges) {
+			execGit(projectPath, ['stash', 'apply', `${WIP_REF_PREFIX}${target.id}`]);
+		}
+
+		deleteRestoreBackup(projectPath, target);
+		return { success: true, backup };
+	} catch (error: unknown) {
+		const err = error as Error;
+		return { success: false, error: err.message };
+	}
+}
+
 /**
  * Get commits that would be undone if restoring to a specific commit
  */
@@ -463,6 +914,222 @@ export function getCommitsToUndo(projectPath: string, targetCommitHash: string):
 	return commitsToUndo;
 }
 
+// ============== FILE HISTORY ==============
+
+export interface GitFileCommit {
+	hash: string;
+	shortHash: string;
+	author: string;
+	date: string; // ISO 8601
+	message: string;
+}
+
+/**
+ * Get the commits that changed a file, newest first
+ * Starts from HEAD, or from fromRef to walk the history behind a given commit.
+ */
+export function getFileLog(
+	projectPath: string,
+	filePath: string,
+	limit: number = 50,
+	fromRef: string = 'HEAD'
+): GitFileCommit[] {
+	try {
+		// Message last: it is the only field that can contain the separator
+		const output = execGit(projectPath, [
+			'log',
+			'--format=%H|%h|%an|%aI|%s',
+			`-n${limit}`,
+			fromRef,
+			'--',
+			filePath
+		]);
+		if (!output) return [];
+
+		return output.split('\n').map((line) => {
+			const [hash, shortHash, author, date, ...message] = line.split('|');
+			return { hash, shortHash, author, date, message: message.join('|') };
+		});
+	} catch (error) {
+		console.error('[git-utils] Failed to get file log:', error);
+		return [];
+	}
+}
+
+/**
+ * Read a file as it was at a commit
+ * Returns null if the file did not exist at that commit.
+ */
+export function getFileAtCommit(projectPath: string, commitHash: string, filePath: string): string | null {
+	try {
+		return execGit(projectPath, ['show', `${commitHash}:${filePath}`]);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Check that a commit exists in this repository
+ */
+export function commitExists(projectPath: string, commitHash: string): boolean {
+	try {
+		execGit(projectPath, ['cat-file', '-e', `${commitHash}^{commit}`]);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Get the last commit on HEAD made at or before a date
+ */
+export function getLastCommitBefore(projectPath: string, date: string): string | null {
+	try {
+		return execGit(projectPath, ['rev-list', '-1', `--before=${date}`, 'HEAD']) || null;
+	} catch {
+		return null;
+	}
+}
+
+// ============== HISTORY SCAN ==============
+
+export interface GitHistoryCommit {
+	hash: string;
+	shortHash: string;
+	author: string;
+	authorEmail: string;
+	date: string; // ISO 8601
+	timestamp: number;
+	parents: string[];
+	subject: string;
+	message: string; // Full message, including body and trailers
+}
+
+// Local and remote branches; dashboard backup refs and stashes are left out
+const HISTORY_REFS = ['refs/heads', 'refs/remotes'];
+
+/**
+ * Get commits reachable from any branch, with full messages, newest first
+ */
+export function getBranchHistory(projectPath: string, limit: number = 2000): GitHistoryCommit[] {
+	// Fields are separated by \x1f and commits by \x1e, since messages span lines
+	const format = '%H%x1f%h%x1f%an%x1f%ae%x1f%aI%x1f%at%x1f%P%x1f%s%x1f%B%x1e';
+
+	try {
+		const output = execGit(
+			projectPath,
+			['log', '--branches', '--remotes', 'HEAD', `--format=${format}`, `-n${limit}`],
+			{ timeout: 60000, maxBuffer: 64 * 1024 * 1024 }
+		);
+		if (!output) return [];
+
+		return output
+			.split('\x1e')
+			.map((record) => record.replace(/^\n/, ''))
+			.filter(Boolean)
+			.map((record) => {
+				const [hash, shortHash, author, authorEmail, date, timestamp, parents, subject, message] =
+					record.split('\x1f');
+				return {
+					hash,
+					shortHash,
+					author,
+					authorEmail,
+					date,
+					timestamp: parseInt(timestamp) * 1000,
+					parents: parents ? parents.split(' ') : [],
+					subject,
+					message: (message ?? '').trim()
+				};
+			});
+	} catch (error) {
+		console.error('[git-utils] Failed to scan history:', error);
+		return [];
+	}
+}
+
+/**
+ * Short names of all local and remote branches, e.g. main, origin/feat/x
+ */
+export function getBranchRefNames(projectPath: string): string[] {
+	try {
+		// Symbolic refs such as origin/HEAD only point at another branch
+		const output = execGit(projectPath, ['for-each-ref', '--format=%(refname:short)%09%(symref)', ...HISTORY_REFS]);
+		return output
+			.split('\n')
+			.map((line) => line.split('\t'))
+			.filter(([name, symref]) => name && !symref)
+			.map(([name]) => name);
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * A string that changes whenever a branch or HEAD moves
+ */
+export function getRefsFingerprint(projectPath: string): string {
+	try {
+		const refs = execGit(projectPath, ['for-each-ref', '--format=%(objectname) %(refname)', ...HISTORY_REFS]);
+		const head = execGit(projectPath, ['rev-parse', 'HEAD']);
+		return `${head}\n${refs}`;
+	} catch {
+		return '';
+	}
+}
+
+/**
+ * Commits reachable from a ref but not from any of the excluded refs, newest first
+ */
+export function getCommitsOnlyIn(
+	projectPath: string,
+	ref: string,
+	excludeRefs: string[],
+	limit: number = 500
+): string[] {
+	try {
+		const output = execGit(projectPath, ['rev-list', `-n${limit}`, ref, '--not', ...excludeRefs]);
+		return output ? output.split('\n') : [];
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Commits on a branch that no other local or remote branch contains, newest first
+ * The branch's own remote-tracking branch does not count as another branch.
+ */
+export function getBranchOnlyCommits(
+	projectPath: string,
+	branchName: string,
+	limit: number = 500
+): Array<{ hash: string; message: string }> {
+	try {
+		// Patterns for --branches and --remotes are matched without the refs/heads/ or refs/remotes/ prefix
+		const output = execGit(projectPath, [
+			'log',
+			`-n${limit}`,
+			'--format=%H%x1f%B%x1e',
+			`refs/heads/${branchName}`,
+			'--not',
+			`--exclude=${branchName}`,
+			'--branches',
+			`--exclude=origin/${branchName}`,
+			'--remotes'
+		]);
+		return output
+			.split('\x1e')
+			.map((record) => record.replace(/^\n/, ''))
+			.filter(Boolean)
+			.map((record) => {
+				const [hash, message] = record.split('\x1f');
+				return { hash, message: (message ?? '').trim() };
+			});
+	} catch {
+		return [];
+	}
+}
+
 // ============== PR/CI STATUS INTEGRATION ==============
 
 export type PRStatus = 'open' | 'merged' | 'closed' | 'draft' | 'unknown';
@@ -538,6 +1205,47 @@ export function getPRStatus(projectPath: string, branchName: string): PRInfo | n
 	}
 }
 
+/**
+ * Open a pull request using GitHub CLI
+ * The head branch must already be pushed.
+ */
+export function createPullRequest(
+	projectPath: string,
+	options: { head: string; base: string; title: string; body: string; draft?: boolean }
+): { success: boolean; url?: string; error?: string } {
+	const args = [
+		'pr',
+		'create',
+		'--head',
+		options.head,
+		'--base',
+		options.base,
+		'--title',
+		options.title,
+		'--body',
+		options.body
+	];
+	if (options.draft) args.push('--draft');
+
+	const result = spawnSync('gh', args, {
+		cwd: projectPath,
+		encoding: 'utf-8',
+		timeout: 60000,
+		stdio: ['pipe', 'pipe', 'pipe']
+	});
+
+	if (result.error) {
+		return { success: false, error: `GitHub CLI unavailable: ${result.error.message}` };
+	}
+	if (result.status !== 0) {
+		return { success: false, error: (result.stderr || `gh pr create failed with status ${result.status}`).trim() };
+	}
+
+	// gh prints the new PR's URL as the last line
+	const url = result.stdout.trim().split('\n').pop();
+	return { success: true, url };
+}
+
 /**
  * Get CI/check status for a branch using GitHub CLI
  */
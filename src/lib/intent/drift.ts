@@ -0,0 +1,321 @@
+/**
+ * Intent Drift Analysis
+ *
+ * Checks whether bead work still lines up with PROJECT_INTENT.md:
+ * - beads that are not closed and have no intent links
+ * - anchors that no bead links to
+ * - links to anchors that are gone from the document (compared with the
+ *   cached anchors to tell which ones an edit removed since the last index)
+ * - closed beads whose execution_log or commit diff touches an area governed
+ *   by a `constraints` or `anti-goals` anchor
+ *
+ * Governed areas are the inline-code spans in those sections, e.g.
+ * "- No client-side state libraries (`redux`, `src/lib/stores/**`)".
+ * Terms that look like paths are matched against the files a commit changed;
+ * other terms are matched as words in the execution log and the added lines.
+ */
+
+import { readFile } from 'fs/promises';
+import { parseIntentDocument } from './parser';
+import { computeFileHash, getIntentFilePath, hasIntentFile } from './cache';
+import { loadIntentLinks } from './links';
+import { getCachedIntent } from '../dashboard-db';
+import { getAllIssues, getClosedIssuesWithLifecycle } from '../project-db';
+import { getCommitPatch, isGitRepo } from '../git-utils';
+import type {
+	CachedIntent,
+	IntentAreaMatch,
+	IntentBrokenLink,
+	IntentDriftBead,
+	IntentDriftReport,
+	IntentGovernedAreaHit,
+	IntentGovernedAreaKind,
+	IntentLink,
+	IntentSection
+} from './types';
+
+/** Closed beads examined for governed-area hits, most recently closed first */
+const MAX_CLOSED_BEADS = 100;
+
+/** Matches kept per bead and anchor */
+const MAX_MATCHES_PER_HIT = 5;
+
+const GOVERNED_KINDS: readonly IntentGovernedAreaKind[] = ['anti-goals', 'constraints'];
+
+/**
+ * The completed work of a closed bead
+ */
+export interface ClosedBeadWork {
+	id: string;
+	title: string;
+	executionLog?: string;
+
+	/** Output of `git show --unified=0` for the bead's commit */
+	patch?: string;
+}
+
+/**
+ * Everything the analyzer looks at, gathered by buildIntentDriftReport()
+ */
+export interface IntentDriftInput {
+	projectId: string;
+
+	/** Current PROJECT_INTENT.md content */
+	content: string;
+
+	/** Last indexed intent from the cache, if any */
+	cached: Pick<CachedIntent, 'fileHash' | 'anchors'> | null;
+
+	links: IntentLink[];
+	beads: IntentDriftBead[];
+	closedWork: ClosedBeadWork[];
+}
+
+// ============================================================================
+// Governed Areas
+// ============================================================================
+
+interface GovernedArea {
+	anchor: string;
+	kind: IntentGovernedAreaKind;
+	terms: string[];
+}
+
+/**
+ * Collect the inline-code terms of every constraints / anti-goals section
+ */
+function collectGovernedAreas(sections: IntentSection[]): GovernedArea[] {
+	const areas: GovernedArea[] = [];
+
+	const visit = (section: IntentSection) => {
+		const anchor = section.anchor ?? section.id;
+		const kind = GOVERNED_KINDS.find((k) => anchor === k || anchor.startsWith(`${k}.`));
+		if (kind) {
+			const terms = new Set<string>();
+			for (const match of section.content.matchAll(/`([^`\n]+)`/g)) {
+				const term = match[1].trim();
+				if (term) terms.add(term);
+			}
+			if (terms.size > 0) {
+				areas.push({ anchor, kind, terms: [...terms] });
+			}
+		}
+		section.children.forEach(visit);
+	};
+	sections.forEach(visit);
+
+	return areas;
+}
+
+function isPathTerm(term: string): boolean {
+	return term.includes('/') || term.includes('*') || /\.[a-z0-9]+$/i.test(term);
+}
+
+function escapeRegex(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Match a changed file against a path term: a directory prefix, a file, or a glob
+ */
+function pathMatches(term: string, file: string): boolean {
+	if (term.includes('*')) {
+		const pattern = term
+			.split('**')
+			.map((part) => part.split('*').map(escapeRegex).join('[^/]*'))
+			.join('.*');
+		return new RegExp(`^${pattern}$`).test(file);
+	}
+	const prefix = term.replace(/^\.\//, '');
+	const directory = prefix.endsWith('/') ? prefix : `${prefix}/`;
+	return file === prefix || file.startsWith(directory) || file.endsWith(`/${prefix}`);
+}
+
+/**
+ * Check whether a line of prose mentions a path covered by a path term
+ */
+function logMentionsPath(term: string, line: string): boolean {
+	if (!term.includes('*') && line.toLowerCase().includes(term.toLowerCase())) {
+		return true;
+	}
+	return line
+		.split(/\s+/)
+		.map((token) => token.replace(/^[`'"(]+|[`'"),.:;]+$/g, ''))
+		.some((token) => token && pathMatches(term, token));
+}
+
+function wordPattern(term: string): RegExp {
+	return new RegExp(`(?<![\\w-])${escapeRegex(term)}(?![\\w-])`, 'i');
+}
+
+function excerpt(line: string): string {
+	const trimmed = line.trim();
+	return trimmed.length > 120 ? `${trimmed.slice(0, 117)}...` : trimmed;
+}
+
+/**
+ * Split a unified diff into the changed files and the added lines
+ */
+function parsePatch(patch: string): { files: string[]; added: string[] } {
+	const files: string[] = [];
+	const added: string[] = [];
+
+	for (const line of patch.split('\n')) {
+		const header = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+		if (header) {
+			files.push(header[2]);
+		} else if (line.startsWith('+') && !line.startsWith('+++')) {
+			added.push(line.slice(1));
+		}
+	}
+
+	return { files, added };
+}
+
+/**
+ * Find where a bead's work touches the terms of a governed area
+ */
+function matchArea(area: GovernedArea, work: ClosedBeadWork): IntentAreaMatch[] {
+	const matches: IntentAreaMatch[] = [];
+	const { files, added } = parsePatch(work.patch ?? '');
+	const logLines = (work.executionLog ?? '').split('\n');
+
+	for (const term of area.terms) {
+		if (isPathTerm(term)) {
+			for (const file of files) {
+				if (pathMatches(term, file)) {
+					matches.push({ term, source: 'diff', detail: file });
+				}
+			}
+			const line = logLines.find((l) => logMentionsPath(term, l));
+			if (line) {
+				matches.push({ term, source: 'execution_log', detail: excerpt(line) });
+			}
+		} else {
+			const pattern = wordPattern(term);
+			const line = logLines.find((l) => pattern.test(l));
+			if (line) {
+				matches.push({ term, source: 'execution_log', detail: excerpt(line) });
+			}
+			const addedLine = added.find((l) => pattern.test(l));
+			if (addedLine) {
+				matches.push({ term, source: 'diff', detail: excerpt(addedLine) });
+			}
+		}
+	}
+
+	return matches.slice(0, MAX_MATCHES_PER_HIT);
+}
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+/**
+ * Analyze intent drift from already-gathered inputs
+ */
+export function analyzeIntentDrift(input: IntentDriftInput): IntentDriftReport {
+	const fileHash = computeFileHash(input.content);
+	const parsed = parseIntentDocument(input.content);
+	const anchors = new Set(parsed.anchors.map((a) => a.path));
+
+	const changedSinceIndex = input.cached !== null && input.cached.fileHash !== fileHash;
+	const removedAnchors = changedSinceIndex
+		? input.cached!.anchors.filter((a) => !anchors.has(a))
+		: [];
+
+	const linkedBeads = new Set(input.links.map((l) => l.beadId));
+	const unlinkedBeads = input.beads.filter((b) => b.status !== 'closed' && !linkedBeads.has(b.id));
+
+	const unusedAnchors = [...anchors].filter(
+		(anchor) => !input.links.some((l) => l.anchor === anchor || l.anchor.startsWith(`${anchor}.`))
+	);
+
+	const brokenLinks: IntentBrokenLink[] = input.links
+		.filter((l) => !anchors.has(l.anchor))
+		.map((l) => ({
+			beadId: l.beadId,
+			anchor: l.anchor,
+			removedSinceIndex: removedAnchors.includes(l.anchor)
+		}));
+
+	const areas = collectGovernedAreas(parsed.intent.sections);
+	const governedAreaHits: IntentGovernedAreaHit[] = [];
+	for (const work of input.closedWork) {
+		for (const area of areas) {
+			const matches = matchArea(area, work);
+			if (matches.length > 0) {
+				governedAreaHits.push({
+					beadId: work.id,
+					title: work.title,
+					anchor: area.anchor,
+					governedBy: area.kind,
+					linked: input.links.some((l) => l.beadId === work.id && l.anchor === area.anchor),
+					matches
+				});
+			}
+		}
+	}
+
+	return {
+		projectId: input.projectId,
+		generatedAt: new Date().toISOString(),
+		fileHash,
+		indexedHash: input.cached?.fileHash,
+		removedAnchors,
+		unlinkedBeads,
+		unusedAnchors,
+		brokenLinks,
+		governedAreaHits
+	};
+}
+
+/**
+ * Build the drift report for a project
+ * Reads the cache without updating it, so anchors removed since the last
+ * index are still reported as such.
+ *
+ * @returns The report, or null if the project has no PROJECT_INTENT.md
+ */
+export async function buildIntentDriftReport(
+	projectPath: string,
+	projectId: string
+): Promise<IntentDriftReport | null> {
+	if (!hasIntentFile(projectPath)) {
+		return null;
+	}
+
+	const content = await readFile(getIntentFilePath(projectPath), 'utf8');
+	const { links } = await loadIntentLinks(projectPath);
+
+	let beads: IntentDriftBead[] = [];
+	let closedWork: ClosedBeadWork[] = [];
+	try {
+		beads = getAllIssues(projectPath).map((i) => ({ id: i.id, title: i.title, status: i.status }));
+
+		const hasGit = isGitRepo(projectPath);
+		closedWork = getClosedIssuesWithLifecycle(projectPath, MAX_CLOSED_BEADS).map((issue) => {
+			let patch: string | undefined;
+			if (hasGit && issue.commit_hash) {
+				try {
+					patch = getCommitPatch(projectPath, issue.commit_hash);
+				} catch {
+					// Commit not in this clone (or too large to read); the execution log still counts
+				}
+			}
+			return { id: issue.id, title: issue.title, executionLog: issue.execution_log, patch };
+		});
+	} catch (e) {
+		// No beads database yet - report on the document and links alone
+		console.error('Failed to load beads for intent drift:', e);
+	}
+
+	return analyzeIntentDrift({
+		projectId,
+		content,
+		cached: getCachedIntent(projectId),
+		links,
+		beads,
+		closedWork
+	});
+}
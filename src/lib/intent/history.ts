@@ -0,0 +1,230 @@
+/**
+ * Intent History
+ *
+ * Reads past versions of PROJECT_INTENT.md from the git history of the file:
+ * - the commits that changed it, with per-anchor added / removed / changed counts
+ * - the anchor-level diff of a version against the one before it, with the
+ *   beads linked to each changed anchor in intent-links.json at that commit
+ * - the commit to read the intent at for a bead ("what did the intent say
+ *   when this bead was executed?"), used by buildIntentContext({ asOfCommit })
+ *
+ * An anchor's section text is its heading and content plus any descendant
+ * sections without an anchor of their own, so an edit to an unanchored
+ * sub-heading counts as a change to the nearest anchored ancestor.
+ */
+
+import { parseIntentDocument } from './parser';
+import { commitExists, getFileAtCommit, getFileLog, getLastCommitBefore } from '../git-utils';
+import { getIssueWithLifecycle } from '../project-db';
+import type {
+	IntentAnchorChange,
+	IntentAnchorChangeType,
+	IntentAsOfResponse,
+	IntentLink,
+	IntentLinksFile,
+	IntentSection,
+	IntentVersion,
+	IntentVersionDiff
+} from './types';
+import { INTENT_FILENAME } from './types';
+
+/**
+ * Path of intent-links.json relative to the repository root
+ */
+const INTENT_LINKS_GIT_PATH = '.beads/intent-links.json';
+
+// ============================================================================
+// Reading Past Versions
+// ============================================================================
+
+/**
+ * Read PROJECT_INTENT.md as it was at a commit
+ *
+ * @returns File content, or null if the file did not exist at that commit
+ */
+export function readIntentAtCommit(projectPath: string, commit: string): string | null {
+	return getFileAtCommit(projectPath, commit, INTENT_FILENAME);
+}
+
+/**
+ * Read the intent links as they were at a commit
+ *
+ * @returns The links, or null if intent-links.json was not tracked at that commit
+ */
+export function readIntentLinksAtCommit(projectPath: string, commit: string): IntentLink[] | null {
+	const content = getFileAtCommit(projectPath, commit, INTENT_LINKS_GIT_PATH);
+	if (content === null) {
+		return null;
+	}
+
+	try {
+		const parsed = JSON.parse(content) as IntentLinksFile;
+		return Array.isArray(parsed.links) ? parsed.links : null;
+	} catch {
+		return null;
+	}
+}
+
+// ============================================================================
+// Anchor Diff
+// ============================================================================
+
+function sectionText(section: IntentSection): string {
+	const heading = '#'.repeat(section.level) + ' ' + section.heading;
+	const parts = [heading];
+	if (section.content.trim()) {
+		parts.push(section.content.trim());
+	}
+	for (const child of section.children) {
+		if (!child.anchor) {
+			parts.push(sectionText(child));
+		}
+	}
+	return parts.join('\n\n');
+}
+
+/**
+ * Map each anchor path to its section text, in document order
+ */
+export function getAnchorSections(content: string): Map<string, string> {
+	const sections = new Map<string, string>();
+
+	const visit = (section: IntentSection) => {
+		if (section.anchor && !sections.has(section.anchor)) {
+			sections.set(section.anchor, sectionText(section));
+		}
+		section.children.forEach(visit);
+	};
+	parseIntentDocument(content).intent.sections.forEach(visit);
+
+	return sections;
+}
+
+/**
+ * Diff two versions of PROJECT_INTENT.md anchor by anchor
+ *
+ * @param before - Older content, or null if the file did not exist
+ * @param after - Newer content, or null if the file was deleted
+ * @param links - Links used to fill in linkedBeads for each change
+ * @returns Changes in the order of the newer document, then removed anchors
+ */
+export function diffIntentAnchors(
+	before: string | null,
+	after: string | null,
+	links: IntentLink[] = []
+): IntentAnchorChange[] {
+	const oldSections = before !== null ? getAnchorSections(before) : new Map<string, string>();
+	const newSections = after !== null ? getAnchorSections(after) : new Map<string, string>();
+
+	const linkedBeads = (anchor: string) => [
+		...new Set(links.filter((l) => l.anchor === anchor).map((l) => l.beadId))
+	];
+
+	const changes: IntentAnchorChange[] = [];
+	for (const [anchor, text] of newSections) {
+		const previous = oldSections.get(anchor);
+		if (previous === undefined) {
+			changes.push({ anchor, change: 'added', after: text, linkedBeads: linkedBeads(anchor) });
+		} else if (previous !== text) {
+			changes.push({
+				anchor,
+				change: 'changed',
+				before: previous,
+				after: text,
+				linkedBeads: linkedBeads(anchor)
+			});
+		}
+	}
+	for (const [anchor, text] of oldSections) {
+		if (!newSections.has(anchor)) {
+			changes.push({ anchor, change: 'removed', before: text, linkedBeads: linkedBeads(anchor) });
+		}
+	}
+
+	return changes;
+}
+
+function countChanges(changes: IntentAnchorChange[]): Record<IntentAnchorChangeType, number> {
+	const counts: Record<IntentAnchorChangeType, number> = { added: 0, removed: 0, changed: 0 };
+	for (const change of changes) {
+		counts[change.change]++;
+	}
+	return counts;
+}
+
+// ============================================================================
+// Versions
+// ============================================================================
+
+/**
+ * List the commits that changed PROJECT_INTENT.md, newest first
+ *
+ * @param projectPath - Absolute path to the repository root
+ * @param limit - Maximum number of versions
+ */
+export function listIntentVersions(projectPath: string, limit: number = 20): IntentVersion[] {
+	// One extra commit so the oldest listed version has something to diff against
+	const log = getFileLog(projectPath, INTENT_FILENAME, limit + 1);
+	const contents = log.map((commit) => readIntentAtCommit(projectPath, commit.hash));
+
+	return log.slice(0, limit).map((commit, i) => {
+		const previous = i + 1 < log.length ? contents[i + 1] : null;
+		return {
+			...commit,
+			anchorChanges: countChanges(diffIntentAnchors(previous, contents[i]))
+		};
+	});
+}
+
+/**
+ * Get the anchor-level diff of a version against the version before it
+ *
+ * @param projectPath - Absolute path to the repository root
+ * @param commit - A commit that changed PROJECT_INTENT.md
+ * @returns The diff, or null if the commit did not change the file
+ */
+export function getIntentVersionDiff(projectPath: string, commit: string): IntentVersionDiff | null {
+	const [current, previous] = getFileLog(projectPath, INTENT_FILENAME, 2, commit);
+	if (!current || !current.hash.startsWith(commit.toLowerCase())) {
+		return null;
+	}
+
+	const links = readIntentLinksAtCommit(projectPath, current.hash);
+	const changes = diffIntentAnchors(
+		previous ? readIntentAtCommit(projectPath, previous.hash) : null,
+		readIntentAtCommit(projectPath, current.hash),
+		links ?? []
+	);
+
+	return {
+		version: { ...current, anchorChanges: countChanges(changes) },
+		previousHash: previous?.hash,
+		changes,
+		linksAt: links ? 'commit' : 'unavailable'
+	};
+}
+
+/**
+ * Pick the commit to read the intent at for a bead
+ * Uses the commit recorded when the bead was completed if this clone has it,
+ * otherwise the last commit before the bead was closed (or last updated).
+ *
+ * @returns The commit and how it was chosen, or null if the bead is unknown
+ */
+export function resolveIntentCommitForBead(
+	projectPath: string,
+	beadId: string
+): Pick<IntentAsOfResponse, 'commit' | 'resolvedFrom'> | null {
+	const issue = getIssueWithLifecycle(projectPath, beadId);
+	if (!issue) {
+		return null;
+	}
+
+	if (issue.commit_hash && commitExists(projectPath, issue.commit_hash)) {
+		return { commit: issue.commit_hash, resolvedFrom: 'bead_commit' };
+	}
+
+	const date = issue.closed_at ?? issue.updated_at;
+	const commit = date ? getLastCommitBefore(projectPath, date) : null;
+	return commit ? { commit, resolvedFrom: 'bead_date' } : null;
+}
@@ -17,11 +17,13 @@ import type {
 	ProjectIntent,
 	IntentSection,
 	IntentLinksFile,
-	IntentLink
+	IntentLink,
+	IntentAnchorInfo
 } from './types';
 import { DEFAULT_INTENT_LINKS_FILE } from './types';
 import { loadProjectIntent } from './cache';
-import { getSectionByAnchor, buildInjectionMarkdown } from './parser';
+import { getSectionByAnchor, buildInjectionMarkdown, parseIntentDocument } from './parser';
+import { readIntentAtCommit, readIntentLinksAtCommit } from './history';
 
 // ============================================================================
 // Constants
@@ -272,6 +274,9 @@ function formatLinkedSectionsOnly(intent: ProjectIntent, linkedAnchors: string[]
  * If the full document exceeds the token budget, linked sections
  * are prioritized and others are truncated.
  *
+ * With asOfCommit, the document is read from git as it was at that commit
+ * instead of from the working tree, bypassing the cache.
+ *
  * @param projectPath - Absolute path to project root
  * @param projectId - The project ID for cache lookup
  * @param options - Optional configuration
@@ -284,14 +289,21 @@ export async function buildIntentContext(
 		linkedAnchors?: string[];
 		maxTokens?: number;
 		includeFullDocument?: boolean;
+		asOfCommit?: string;
 	}
 ): Promise<IntentInjection | null> {
 	const maxTokens = options?.maxTokens ?? DEFAULT_MAX_TOKENS;
 	const includeFullDocument = options?.includeFullDocument ?? true;
 	const linkedAnchors = options?.linkedAnchors ?? [];
 
-	// Load the intent from cache or file
-	const intentResult = await loadProjectIntent(projectPath, projectId);
+	// Load the intent from git at the given commit, or from cache or file
+	let intentResult: { intent: ProjectIntent; anchors: IntentAnchorInfo[] } | null;
+	if (options?.asOfCommit) {
+		const content = readIntentAtCommit(projectPath, options.asOfCommit);
+		intentResult = content !== null ? parseIntentDocument(content) : null;
+	} else {
+		intentResult = await loadProjectIntent(projectPath, projectId);
+	}
 
 	if (!intentResult) {
 		return null;
@@ -352,6 +364,8 @@ export async function buildIntentContext(
  * Build intent context with automatic anchor discovery for a bead
  *
  * Convenience function that loads linked anchors for the bead automatically.
+ * With asOfCommit, the links are read as they were at that commit when
+ * intent-links.json was tracked then, and from the working tree otherwise.
  *
  * @param projectPath - Absolute path to project root
  * @param projectId - The project ID
@@ -366,14 +380,21 @@ export async function buildIntentContextForBead(
 	options?: {
 		maxTokens?: number;
 		includeFullDocument?: boolean;
+		asOfCommit?: string;
 	}
 ): Promise<IntentInjection | null> {
 	// Get linked anchors for this bead
-	const linkedAnchors = getLinkedAnchors(projectPath, beadId);
+	const linksAtCommit = options?.asOfCommit
+		? readIntentLinksAtCommit(projectPath, options.asOfCommit)
+		: null;
+	const linkedAnchors = linksAtCommit
+		? linksAtCommit.filter((link) => link.beadId === beadId).map((link) => link.anchor)
+		: getLinkedAnchors(projectPath, beadId);
 
 	return buildIntentContext(projectPath, projectId, {
 		linkedAnchors,
 		maxTokens: options?.maxTokens,
-		includeFullDocument: options?.includeFullDocument
+		includeFullDocument: options?.includeFullDocument,
+		asOfCommit: options?.asOfCommit
 	});
 }
@@ -304,6 +304,171 @@ export interface IntentParseWarning {
 	line: number;
 }
 
+// ============================================================================
+// Drift Types
+// ============================================================================
+
+/**
+ * A bead as seen by the drift analyzer
+ */
+export interface IntentDriftBead {
+	id: string;
+	title: string;
+	status: string;
+}
+
+/**
+ * A link to an anchor that no longer exists in PROJECT_INTENT.md
+ */
+export interface IntentBrokenLink {
+	beadId: string;
+	anchor: string;
+
+	/** The anchor was in the cached index and removed by an edit since */
+	removedSinceIndex: boolean;
+}
+
+/**
+ * Where a closed bead touched a governed area
+ */
+export interface IntentAreaMatch {
+	/** The governed term (an inline-code span in the anchor's section) */
+	term: string;
+
+	/** Found in the bead's execution_log or in its commit's diff */
+	source: 'execution_log' | 'diff';
+
+	/** The changed file or the matching line */
+	detail: string;
+}
+
+/**
+ * A closed bead whose work touched an area governed by a constraints or anti-goals anchor
+ */
+export interface IntentGovernedAreaHit {
+	beadId: string;
+	title: string;
+	anchor: string;
+	governedBy: IntentGovernedAreaKind;
+
+	/** The bead is linked to the anchor (expected for constraints, still worth a look for anti-goals) */
+	linked: boolean;
+
+	matches: IntentAreaMatch[];
+}
+
+/**
+ * Top-level intent sections whose areas are checked against closed work
+ */
+export type IntentGovernedAreaKind = 'anti-goals' | 'constraints';
+
+/**
+ * Response from GET /api/projects/[id]/intent/drift
+ */
+export interface IntentDriftReport {
+	projectId: string;
+	generatedAt: string;
+
+	/** Hash of PROJECT_INTENT.md as analyzed */
+	fileHash: string;
+
+	/** Hash of the cached (last indexed) intent, if any */
+	indexedHash?: string;
+
+	/** Anchors in the cached index that the current file no longer has */
+	removedAnchors: string[];
+
+	/** Beads that are not closed and have no intent link */
+	unlinkedBeads: IntentDriftBead[];
+
+	/** Anchors no bead links to (directly or through a child anchor) */
+	unusedAnchors: string[];
+
+	/** Links to anchors missing from the current file */
+	brokenLinks: IntentBrokenLink[];
+
+	/** Closed beads whose execution log or diff touches a governed area */
+	governedAreaHits: IntentGovernedAreaHit[];
+}
+
+// ============================================================================
+// History Types
+// ============================================================================
+
+/**
+ * How an anchor's section differs between two versions of the document
+ */
+export type IntentAnchorChangeType = 'added' | 'removed' | 'changed';
+
+/**
+ * A change to one anchor's section between two versions
+ */
+export interface IntentAnchorChange {
+	anchor: string;
+	change: IntentAnchorChangeType;
+
+	/** Section text (heading and content) in the older version */
+	before?: string;
+
+	/** Section text in the newer version */
+	after?: string;
+
+	/** Beads linked to the anchor in intent-links.json as of the newer version */
+	linkedBeads: string[];
+}
+
+/**
+ * A commit that changed PROJECT_INTENT.md
+ */
+export interface IntentVersion {
+	hash: string;
+	shortHash: string;
+	author: string;
+	date: string;
+	message: string;
+
+	/** Number of anchors added, removed and changed by this commit */
+	anchorChanges: Record<IntentAnchorChangeType, number>;
+}
+
+/**
+ * Anchor-level diff between a version and the one before it
+ */
+export interface IntentVersionDiff {
+	version: IntentVersion;
+
+	/** The version compared against (undefined if the file was created by this commit) */
+	previousHash?: string;
+
+	changes: IntentAnchorChange[];
+
+	/**
+	 * Where linkedBeads came from: intent-links.json at the commit, or
+	 * unavailable if it was not tracked then
+	 */
+	linksAt: 'commit' | 'unavailable';
+}
+
+/**
+ * Response from GET /api/projects/[id]/intent/history
+ */
+export interface IntentHistoryResponse {
+	versions: IntentVersion[];
+}
+
+/**
+ * Response from GET /api/projects/[id]/intent/as-of
+ */
+export interface IntentAsOfResponse {
+	/** Commit the intent was read at */
+	commit: string;
+
+	/** How the commit was chosen */
+	resolvedFrom: 'commit' | 'bead_commit' | 'bead_date';
+
+	injection: IntentInjection;
+}
+
 // ============================================================================
 // Constants
 // ============================================================================
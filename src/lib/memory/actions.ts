@@ -37,7 +37,7 @@ export function persistActionReport(
 		sessionId: record.sessionId,
 		chatId: record.chatId,
 		kind: 'action_report',
-		title: `Action: ${record.label}`,
+		title: record.dryRun ? `Action: ${record.label} (dry run)` : `Action: ${record.label}`,
 		content,
 		data: {
 			actionId: record.actionId,
@@ -49,6 +49,7 @@ export function persistActionReport(
 			profileUsed: record.profileUsed,
 			startedAt: record.startedAt,
 			completedAt: record.completedAt,
+			dryRun: record.dryRun,
 			sentToChat: record.sentToChat
 		}
 	});
@@ -58,6 +59,10 @@ export function persistActionReport(
  * Format action report for storage/display
  */
 function formatActionReportContent(record: ActionExecutionRecord): string {
+	if (record.dryRun) {
+		return record.stdout;
+	}
+
 	const status = record.exitCode === 0 ? 'SUCCESS' : 'FAILED';
 
 	let content = `## Action Report: ${record.label}
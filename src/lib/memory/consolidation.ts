@@ -0,0 +1,315 @@
+/**
+ * Memory consolidation for cmem (Persistent Memory) system
+ *
+ * Session checkpoints and handoff notes accumulate quickly and crowd the
+ * memory brief's token budget. Consolidation proposes two kinds of cleanup:
+ *
+ * 1. Dedupe: near-identical entries of the same kind in the same bead or
+ *    epic scope are merged into the newest one
+ * 2. Roll-up: the checkpoints of a closed bead are replaced by a single
+ *    summary checkpoint
+ *
+ * Plans are computed without side effects so the UI can preview them.
+ * Applying a plan recomputes it, soft-deletes the merged entries and writes
+ * every step to the consolidation audit trail (memory_consolidation_log).
+ * Nothing is hard-deleted; purgeDeletedEntries() handles that later.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import type {
+	MemoryEntry,
+	MemoryEntryRow,
+	ConsolidationAction,
+	ConsolidationPlan,
+	ConsolidationResult
+} from './types';
+import { TOKENS_PER_CHAR } from './types';
+import {
+	createMemoryEntry,
+	getMemoryReader,
+	getMemoryWriter,
+	memoryDbExists,
+	recordConsolidation,
+	rowToEntry
+} from './db';
+import { cosineSimilarity, hashingEmbeddingProvider } from './embeddings';
+import { foldText } from './highlight';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Cosine similarity at which two entries count as near-duplicates */
+export const DUPLICATE_SIMILARITY = 0.9;
+
+/** Fewest checkpoints a closed bead needs before they are rolled up */
+export const MIN_ROLLUP_ENTRIES = 2;
+
+/** Characters of each checkpoint kept in a roll-up summary */
+const ROLLUP_EXCERPT_CHARS = 400;
+
+/**
+ * Options for planning a consolidation run
+ */
+export interface ConsolidationOptions {
+	projectId: string;
+
+	/** Beads whose checkpoints may be rolled up */
+	closedBeadIds?: string[];
+
+	/** Override DUPLICATE_SIMILARITY (0-1) */
+	similarityThreshold?: number;
+}
+
+// ============================================================================
+// Planning
+// ============================================================================
+
+function estimateTokens(entry: Pick<MemoryEntry, 'title' | 'content'>): number {
+	return Math.ceil((entry.title.length + entry.content.length) * TOKENS_PER_CHAR);
+}
+
+/**
+ * Stable action ID, so a previewed action can be selected for applying
+ */
+function actionId(type: ConsolidationAction['type'], ids: string[]): string {
+	const hash = createHash('sha1').update([...ids].sort().join(',')).digest('hex');
+	return `${type}-${hash.slice(0, 12)}`;
+}
+
+function toSource(entry: MemoryEntry): ConsolidationAction['sources'][number] {
+	return { id: entry.id, title: entry.title, createdAt: entry.createdAt };
+}
+
+/**
+ * Active entries that can take part in consolidation, newest first
+ * Superseded decisions are history and are left alone.
+ */
+function loadCandidates(projectPath: string, projectId: string): MemoryEntry[] {
+	const db = getMemoryReader(projectPath);
+	const rows = db
+		.prepare(
+			`
+      SELECT * FROM memory_entries
+      WHERE project_id = ?
+        AND deleted_at IS NULL
+        AND (expires_at IS NULL OR expires_at > ?)
+        AND (bead_id IS NOT NULL OR epic_id IS NOT NULL)
+        AND id NOT IN (
+          SELECT supersedes FROM memory_entries WHERE supersedes IS NOT NULL AND deleted_at IS NULL
+        )
+      ORDER BY created_at DESC
+    `
+		)
+		.all(projectId, new Date().toISOString()) as MemoryEntryRow[];
+
+	return rows.map(rowToEntry);
+}
+
+/**
+ * Group near-identical entries, comparing each entry with the newest of each group
+ * (entries arrive newest first, so members[0] is the one to keep)
+ */
+function findDuplicateGroups(entries: MemoryEntry[], threshold: number): MemoryEntry[][] {
+	const groups: { text: string; vector: Float32Array; members: MemoryEntry[] }[] = [];
+
+	for (const entry of entries) {
+		const text = foldText(`${entry.title}\n${entry.content}`).replace(/\s+/g, ' ').trim();
+		const vector = hashingEmbeddingProvider.embed(text);
+		const group = groups.find(
+			(g) => g.text === text || cosineSimilarity(g.vector, vector) >= threshold
+		);
+		if (group) {
+			group.members.push(entry);
+		} else {
+			groups.push({ text, vector, members: [entry] });
+		}
+	}
+
+	return groups.filter((g) => g.members.length > 1).map((g) => g.members);
+}
+
+/**
+ * Summary checkpoint for a closed bead, oldest checkpoint first
+ */
+function buildRollupSummary(
+	beadId: string,
+	checkpoints: MemoryEntry[]
+): { title: string; content: string } {
+	const ordered = [...checkpoints].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+	const first = new Date(ordered[0].createdAt).toLocaleDateString();
+	const last = new Date(ordered[ordered.length - 1].createdAt).toLocaleDateString();
+
+	const sections = ordered.map((entry) => {
+		const excerpt =
+			entry.content.length > ROLLUP_EXCERPT_CHARS
+				? `${entry.content.slice(0, ROLLUP_EXCERPT_CHARS).trimEnd()}…`
+				: entry.content;
+		return `### ${entry.title} (${new Date(entry.createdAt).toLocaleDateString()})\n${excerpt}`;
+	});
+
+	return {
+		title: `Checkpoint summary for ${beadId}`,
+		content: [
+			`Rolled up ${ordered.length} checkpoints from ${first} to ${last} after the bead was closed.`,
+			...sections
+		].join('\n\n')
+	};
+}
+
+/**
+ * Compute the consolidation actions for a project without changing anything
+ */
+export function planConsolidation(
+	projectPath: string,
+	options: ConsolidationOptions
+): ConsolidationPlan {
+	const plan: ConsolidationPlan = {
+		projectId: options.projectId,
+		generatedAt: new Date().toISOString(),
+		entryCount: 0,
+		actions: [],
+		tokensSaved: 0
+	};
+	if (!memoryDbExists(projectPath)) {
+		return plan;
+	}
+
+	// Opening the writer migrates older databases
+	getMemoryWriter(projectPath);
+
+	const entries = loadCandidates(projectPath, options.projectId);
+	plan.entryCount = entries.length;
+	const threshold = options.similarityThreshold ?? DUPLICATE_SIMILARITY;
+
+	// 1. Dedupe within each kind and scope
+	const scopes = new Map<string, MemoryEntry[]>();
+	for (const entry of entries) {
+		const key = `${entry.kind}|${entry.beadId ?? ''}|${entry.epicId ?? ''}`;
+		const scoped = scopes.get(key) ?? [];
+		scoped.push(entry);
+		scopes.set(key, scoped);
+	}
+
+	const removed = new Set<string>();
+	for (const scoped of scopes.values()) {
+		for (const [keep, ...duplicates] of findDuplicateGroups(scoped, threshold)) {
+			duplicates.forEach((d) => removed.add(d.id));
+			plan.actions.push({
+				id: actionId('dedupe', [keep.id, ...duplicates.map((d) => d.id)]),
+				type: 'dedupe',
+				kind: keep.kind,
+				beadId: keep.beadId,
+				epicId: keep.epicId,
+				keepId: keep.id,
+				keepTitle: keep.title,
+				sources: duplicates.map(toSource),
+				reason: `${duplicates.length + 1} near-identical ${keep.kind} entries; keeping the newest`,
+				tokensSaved: duplicates.reduce((sum, d) => sum + estimateTokens(d), 0)
+			});
+		}
+	}
+
+	// 2. Roll up checkpoints of closed beads
+	for (const beadId of new Set(options.closedBeadIds ?? [])) {
+		const checkpoints = entries.filter(
+			(e) => e.kind === 'checkpoint' && e.beadId === beadId && !removed.has(e.id)
+		);
+		if (checkpoints.length < MIN_ROLLUP_ENTRIES) continue;
+
+		const summary = buildRollupSummary(beadId, checkpoints);
+		plan.actions.push({
+			id: actionId('rollup', checkpoints.map((c) => c.id)),
+			type: 'rollup',
+			kind: 'checkpoint',
+			beadId,
+			epicId: checkpoints[0].epicId,
+			keepTitle: summary.title,
+			sources: checkpoints.map(toSource),
+			summary,
+			reason: `Bead ${beadId} is closed; ${checkpoints.length} checkpoints become one summary`,
+			tokensSaved: Math.max(
+				0,
+				checkpoints.reduce((sum, c) => sum + estimateTokens(c), 0) - estimateTokens(summary)
+			)
+		});
+	}
+
+	plan.tokensSaved = plan.actions.reduce((sum, a) => sum + a.tokensSaved, 0);
+	return plan;
+}
+
+// ============================================================================
+// Applying
+// ============================================================================
+
+/**
+ * Recompute the plan and apply it (or the selected actions of it)
+ *
+ * Actions are matched by ID, so an action whose entries changed since the
+ * preview is skipped rather than applied to different entries.
+ */
+export function applyConsolidation(
+	projectPath: string,
+	options: ConsolidationOptions & {
+		/** Apply only these actions (default: all) */
+		actionIds?: string[];
+
+		/** Recorded in the audit trail */
+		actor?: string;
+	}
+): ConsolidationResult {
+	const plan = planConsolidation(projectPath, options);
+	const selected = options.actionIds
+		? plan.actions.filter((a) => options.actionIds!.includes(a.id))
+		: plan.actions;
+
+	const runId = randomUUID();
+	const result: ConsolidationResult = { runId, applied: [], removedCount: 0, createdIds: [] };
+	if (selected.length === 0) {
+		return result;
+	}
+
+	const db = getMemoryWriter(projectPath);
+	const softDelete = db.prepare(
+		'UPDATE memory_entries SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL'
+	);
+
+	db.transaction(() => {
+		const now = new Date().toISOString();
+		for (const action of selected) {
+			let keptEntryId = action.keepId;
+
+			if (action.type === 'rollup' && action.summary) {
+				keptEntryId = createMemoryEntry(projectPath, {
+					projectId: options.projectId,
+					beadId: action.beadId,
+					epicId: action.epicId,
+					agentName: 'consolidation',
+					kind: 'checkpoint',
+					title: action.summary.title,
+					content: action.summary.content,
+					data: { rollupOf: action.sources.map((s) => s.id) }
+				});
+				result.createdIds.push(keptEntryId);
+			}
+
+			for (const source of action.sources) {
+				result.removedCount += softDelete.run(now, source.id).changes;
+			}
+
+			recordConsolidation(projectPath, {
+				runId,
+				projectId: options.projectId,
+				action: action.type,
+				keptEntryId,
+				sourceEntryIds: action.sources.map((s) => s.id),
+				reason: action.reason,
+				actor: options.actor
+			});
+			result.applied.push(action);
+		}
+	})();
+
+	return result;
+}
@@ -19,9 +19,17 @@ import type {
 	MemoryEntry,
 	CreateMemoryEntry,
 	MemoryEntryRow,
-	MemoryKind
+	MemoryKind,
+	ConsolidationLogEntry,
+	ConsolidationLogRow,
+	MemoryFeedbackInput,
+	MemoryFeedbackResult,
+	MemoryFeedbackSummary
 } from './types';
-import { MEMORY_KINDS, DEFAULT_RELEVANCE_SCORE } from './types';
+import { DEFAULT_RELEVANCE_SCORE, FEEDBACK_SCORE_STEP, MEMORY_SCHEMA_VERSION } from './types';
+import { encodeVector, decodeVector } from './embeddings';
+import { isConstraintsSnapshotEnabled, writeConstraintsSnapshot } from './snapshot';
+import { getMemoryKindRegistry, validateMemoryData } from './kinds';
 
 // ============================================================================
 // Database Path Helpers
@@ -48,14 +56,12 @@ const MAX_READERS = 3;
 /**
  * Schema DDL for memory_entries table
  */
-const SCHEMA_DDL = `
--- Enable WAL mode for better concurrency
-PRAGMA journal_mode = WAL;
-PRAGMA busy_timeout = 10000;
-PRAGMA foreign_keys = OFF;
-
--- Main memory entries table
-CREATE TABLE IF NOT EXISTS memory_entries (
+/**
+ * Columns of memory_entries
+ * kind is validated against the kind registry (memory/kinds.ts) rather than a
+ * CHECK constraint, so projects can define their own kinds.
+ */
+const MEMORY_ENTRIES_COLUMNS = `
   id TEXT PRIMARY KEY,
   project_id TEXT NOT NULL,
   bead_id TEXT,
@@ -63,7 +69,7 @@ CREATE TABLE IF NOT EXISTS memory_entries (
   session_id TEXT,
   chat_id TEXT,
   agent_name TEXT,
-  kind TEXT NOT NULL CHECK(kind IN ('decision', 'checkpoint', 'constraint', 'next_step', 'action_report', 'ci_note')),
+  kind TEXT NOT NULL,
   title TEXT NOT NULL,
   content TEXT NOT NULL,
   data TEXT,
@@ -71,8 +77,18 @@ CREATE TABLE IF NOT EXISTS memory_entries (
   relevance_score REAL DEFAULT 1.0,
   expires_at TEXT,
   deleted_at TEXT,
-  created_at TEXT NOT NULL DEFAULT (datetime('now'))
-);
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  supersedes TEXT
+`;
+
+const SCHEMA_DDL = `
+-- Enable WAL mode for better concurrency
+PRAGMA journal_mode = WAL;
+PRAGMA busy_timeout = 10000;
+PRAGMA foreign_keys = OFF;
+
+-- Main memory entries table
+CREATE TABLE IF NOT EXISTS memory_entries (${MEMORY_ENTRIES_COLUMNS});
 
 -- Primary retrieval indexes
 CREATE INDEX IF NOT EXISTS idx_memory_project ON memory_entries(project_id) WHERE deleted_at IS NULL;
@@ -91,6 +107,163 @@ CREATE INDEX IF NOT EXISTS idx_memory_constraints ON memory_entries(project_id,
 CREATE INDEX IF NOT EXISTS idx_memory_session ON memory_entries(session_id, chat_id) WHERE deleted_at IS NULL;
 `;
 
+/**
+ * Full-text index over title/content, kept in sync by triggers.
+ * Keyed by entry id rather than rowid, which VACUUM may renumber.
+ */
+const SEARCH_INDEX_DDL = `
+CREATE VIRTUAL TABLE IF NOT EXISTS memory_entries_fts USING fts5(
+  entry_id UNINDEXED,
+  title,
+  content,
+  tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- Term list of the index, used to correct misspelled search terms
+CREATE VIRTUAL TABLE IF NOT EXISTS memory_entries_vocab USING fts5vocab(memory_entries_fts, 'row');
+
+-- Cached vectors for semantic search (derived data, rebuilt when the model changes)
+CREATE TABLE IF NOT EXISTS memory_embeddings (
+  entry_id TEXT PRIMARY KEY,
+  model TEXT NOT NULL,
+  vector BLOB NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TRIGGER IF NOT EXISTS memory_entries_fts_insert AFTER INSERT ON memory_entries BEGIN
+  INSERT INTO memory_entries_fts(entry_id, title, content) VALUES (new.id, new.title, new.content);
+END;
+
+CREATE TRIGGER IF NOT EXISTS memory_entries_fts_delete AFTER DELETE ON memory_entries BEGIN
+  DELETE FROM memory_entries_fts WHERE entry_id = old.id;
+  DELETE FROM memory_embeddings WHERE entry_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS memory_entries_fts_update AFTER UPDATE OF title, content ON memory_entries BEGIN
+  DELETE FROM memory_entries_fts WHERE entry_id = old.id;
+  INSERT INTO memory_entries_fts(entry_id, title, content) VALUES (new.id, new.title, new.content);
+  DELETE FROM memory_embeddings WHERE entry_id = old.id;
+END;
+`;
+
+/**
+ * Consolidation audit trail: one row per merge, roll-up or supersede
+ */
+const CONSOLIDATION_DDL = `
+CREATE INDEX IF NOT EXISTS idx_memory_supersedes ON memory_entries(supersedes) WHERE supersedes IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS memory_consolidation_log (
+  id TEXT PRIMARY KEY,
+  run_id TEXT NOT NULL,
+  project_id TEXT NOT NULL,
+  action TEXT NOT NULL CHECK(action IN ('dedupe', 'rollup', 'supersede')),
+  kept_entry_id TEXT,
+  source_entry_ids TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  actor TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_consolidation_project ON memory_consolidation_log(project_id, created_at DESC);
+`;
+
+/**
+ * Brief feedback: one row per "useful / not useful" vote, with the score change it made
+ */
+const FEEDBACK_DDL = `
+CREATE TABLE IF NOT EXISTS memory_feedback (
+  id TEXT PRIMARY KEY,
+  entry_id TEXT NOT NULL,
+  project_id TEXT NOT NULL,
+  useful INTEGER NOT NULL,
+  bead_id TEXT,
+  session_id TEXT,
+  actor TEXT,
+  previous_score REAL NOT NULL,
+  new_score REAL NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_feedback_entry ON memory_feedback(entry_id);
+`;
+
+/**
+ * Bring databases created by older versions up to the current schema
+ * The schema version is kept in PRAGMA user_version.
+ */
+function migrateMemoryDb(db: Database.Database): void {
+	const columns = db.prepare('PRAGMA table_info(memory_entries)').all() as { name: string }[];
+	if (!columns.some((c) => c.name === 'supersedes')) {
+		db.exec('ALTER TABLE memory_entries ADD COLUMN supersedes TEXT');
+	}
+
+	const version = db.pragma('user_version', { simple: true }) as number;
+	if (version < 2) {
+		dropKindCheck(db);
+	}
+
+	db.exec(CONSOLIDATION_DDL);
+	db.exec(FEEDBACK_DDL);
+	ensureSearchIndex(db);
+
+	if (version < MEMORY_SCHEMA_VERSION) {
+		db.pragma(`user_version = ${MEMORY_SCHEMA_VERSION}`);
+	}
+}
+
+/**
+ * Schema v2: rebuild memory_entries without the CHECK on kind
+ * SQLite cannot drop a constraint in place, so the table is copied.
+ */
+function dropKindCheck(db: Database.Database): void {
+	const table = db
+		.prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'memory_entries'")
+		.get() as { sql: string } | undefined;
+	if (!table || !/CHECK\s*\(\s*kind\s+IN/i.test(table.sql)) return;
+
+	const columns = (db.prepare('PRAGMA table_info(memory_entries)').all() as { name: string }[])
+		.map((c) => c.name)
+		.join(', ');
+	const hasSearchIndex = db
+		.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'memory_entries_fts'")
+		.get();
+
+	db.transaction(() => {
+		// Triggers go with the table; the search index itself is keyed by id and survives
+		db.exec(`
+      DROP TRIGGER IF EXISTS memory_entries_fts_insert;
+      DROP TRIGGER IF EXISTS memory_entries_fts_delete;
+      DROP TRIGGER IF EXISTS memory_entries_fts_update;
+      CREATE TABLE memory_entries_v2 (${MEMORY_ENTRIES_COLUMNS});
+      INSERT INTO memory_entries_v2 (${columns}) SELECT ${columns} FROM memory_entries;
+      DROP TABLE memory_entries;
+      ALTER TABLE memory_entries_v2 RENAME TO memory_entries;
+    `);
+		db.exec(SCHEMA_DDL.replace(/^PRAGMA .*$/gm, ''));
+		if (hasSearchIndex) {
+			db.exec(SEARCH_INDEX_DDL);
+		}
+	})();
+}
+
+/**
+ * Create the search index on databases that predate it and backfill
+ * it from existing entries
+ */
+function ensureSearchIndex(db: Database.Database): void {
+	const hasIndex = db
+		.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'memory_entries_fts'")
+		.get();
+	if (hasIndex) return;
+
+	db.transaction(() => {
+		db.exec(SEARCH_INDEX_DDL);
+		db.exec(
+			'INSERT INTO memory_entries_fts(entry_id, title, content) SELECT id, title, content FROM memory_entries'
+		);
+	})();
+}
+
 /**
  * Initialize the memory database with schema
  * Creates the database file and tables if they don't exist
@@ -109,6 +282,7 @@ export function initMemoryDb(projectPath: string): Database.Database {
 
 	// Run schema DDL
 	db.exec(SCHEMA_DDL);
+	migrateMemoryDb(db);
 
 	return db;
 }
@@ -214,6 +388,7 @@ export function getMemoryWriter(projectPath: string): Database.Database {
 		const db = new Database(dbPath, { timeout: 10000 });
 		db.pragma('journal_mode = WAL');
 		db.pragma('busy_timeout = 10000');
+		migrateMemoryDb(db);
 		writerConnections.set(dbPath, db);
 		return db;
 	} catch (error) {
@@ -295,14 +470,27 @@ export function createMemoryEntry(
 	const id = randomUUID();
 	const now = new Date().toISOString();
 
-	// Validate kind
-	if (!MEMORY_KINDS.includes(entry.kind)) {
+	// Validate kind (built-in or defined in .beads/memory-kinds.json)
+	const kinds = getMemoryKindRegistry(projectPath);
+	const kind = kinds[entry.kind];
+	if (!kind) {
 		throw new MemoryDatabaseError(
-			`Invalid memory kind: ${entry.kind}. Must be one of: ${MEMORY_KINDS.join(', ')}`,
+			`Invalid memory kind: ${entry.kind}. Must be one of: ${Object.keys(kinds).join(', ')}`,
 			'INVALID_ENTRY'
 		);
 	}
 
+	// Validate structured data against the kind's schema
+	if (kind.dataSchema) {
+		const errors = validateMemoryData(kind.dataSchema, entry.data);
+		if (errors.length > 0) {
+			throw new MemoryDatabaseError(
+				`Invalid data for ${entry.kind}: ${errors.join('; ')}`,
+				'INVALID_ENTRY'
+			);
+		}
+	}
+
 	// Validate required fields
 	if (!entry.title?.trim()) {
 		throw new MemoryDatabaseError('Title is required', 'INVALID_ENTRY');
@@ -314,34 +502,99 @@ export function createMemoryEntry(
 		throw new MemoryDatabaseError('Project ID is required', 'INVALID_ENTRY');
 	}
 
+	if (entry.supersedes) {
+		validateSupersedes(db, entry);
+	}
+
+	// Project-defined kinds expire by their retention default unless told otherwise
+	let expiresAt = entry.expiresAt;
+	if (!expiresAt && !kind.builtin && kind.retentionDays !== null) {
+		expiresAt = new Date(Date.now() + kind.retentionDays * 24 * 60 * 60 * 1000).toISOString();
+	}
+
 	const stmt = db.prepare(`
     INSERT INTO memory_entries (
       id, project_id, bead_id, epic_id, session_id, chat_id, agent_name,
-      kind, title, content, data, intent_anchors, relevance_score, expires_at, created_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      kind, title, content, data, intent_anchors, relevance_score, expires_at, created_at,
+      supersedes
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `);
 
-	stmt.run(
-		id,
-		entry.projectId,
-		entry.beadId ?? null,
-		entry.epicId ?? null,
-		entry.sessionId ?? null,
-		entry.chatId ?? null,
-		entry.agentName ?? null,
-		entry.kind,
-		entry.title,
-		entry.content,
-		entry.data ? JSON.stringify(entry.data) : null,
-		entry.intentAnchors ? JSON.stringify(entry.intentAnchors) : null,
-		entry.relevanceScore ?? DEFAULT_RELEVANCE_SCORE,
-		entry.expiresAt ?? null,
-		now
-	);
+	db.transaction(() => {
+		stmt.run(
+			id,
+			entry.projectId,
+			entry.beadId ?? null,
+			entry.epicId ?? null,
+			entry.sessionId ?? null,
+			entry.chatId ?? null,
+			entry.agentName ?? null,
+			entry.kind,
+			entry.title,
+			entry.content,
+			entry.data ? JSON.stringify(entry.data) : null,
+			entry.intentAnchors ? JSON.stringify(entry.intentAnchors) : null,
+			entry.relevanceScore ?? DEFAULT_RELEVANCE_SCORE,
+			expiresAt ?? null,
+			now,
+			entry.supersedes ?? null
+		);
+
+		if (entry.supersedes) {
+			recordConsolidation(projectPath, {
+				runId: id,
+				projectId: entry.projectId,
+				action: 'supersede',
+				keptEntryId: id,
+				sourceEntryIds: [entry.supersedes],
+				reason: `"${entry.title}" supersedes an earlier decision`,
+				actor: entry.agentName
+			});
+		}
+	})();
+
+	if (entry.kind === 'constraint') {
+		syncConstraintsSnapshot(projectPath, entry.projectId);
+	}
 
 	return id;
 }
 
+/**
+ * Check that a new entry may supersede the one it names
+ * Only decisions supersede decisions, and each decision is superseded once.
+ */
+function validateSupersedes(db: Database.Database, entry: CreateMemoryEntry): void {
+	if (entry.kind !== 'decision') {
+		throw new MemoryDatabaseError('Only decisions can supersede other entries', 'INVALID_ENTRY');
+	}
+
+	const target = db
+		.prepare('SELECT project_id, kind, deleted_at FROM memory_entries WHERE id = ?')
+		.get(entry.supersedes) as
+		| Pick<MemoryEntryRow, 'project_id' | 'kind' | 'deleted_at'>
+		| undefined;
+	if (!target || target.project_id !== entry.projectId || target.deleted_at) {
+		throw new MemoryDatabaseError(
+			`Superseded entry not found: ${entry.supersedes}`,
+			'ENTRY_NOT_FOUND'
+		);
+	}
+	if (target.kind !== 'decision') {
+		throw new MemoryDatabaseError('Only decisions can be superseded', 'INVALID_ENTRY');
+	}
+
+	const existing = db
+		.prepare('SELECT id FROM memory_entries WHERE supersedes = ? AND deleted_at IS NULL')
+		.get(entry.supersedes) as { id: string } | undefined;
+	if (existing) {
+		throw new MemoryDatabaseError(
+			`Entry ${entry.supersedes} is already superseded by ${existing.id}`,
+			'INVALID_ENTRY'
+		);
+	}
+}
+
 /**
  * Get a memory entry by ID
  */
@@ -457,6 +710,15 @@ export function softDeleteMemoryEntry(
 		)
 		.run(now, entryId);
 
+	if (result.changes > 0) {
+		const row = db
+			.prepare('SELECT project_id, kind FROM memory_entries WHERE id = ?')
+			.get(entryId) as Pick<MemoryEntryRow, 'project_id' | 'kind'>;
+		if (row.kind === 'constraint') {
+			syncConstraintsSnapshot(projectPath, row.project_id);
+		}
+	}
+
 	return result.changes > 0;
 }
 
@@ -491,6 +753,307 @@ export function updateRelevanceScore(
 	return result.changes > 0;
 }
 
+// ============================================================================
+// Import Support
+// ============================================================================
+
+/**
+ * Insert an entry exactly as given, keeping its ID and timestamps
+ * Used by import; createMemoryEntry() is the path for new entries.
+ */
+export function insertMemoryEntry(projectPath: string, entry: MemoryEntry): void {
+	const db = getMemoryWriter(projectPath);
+
+	db.prepare(
+		`
+    INSERT INTO memory_entries (
+      id, project_id, bead_id, epic_id, session_id, chat_id, agent_name,
+      kind, title, content, data, intent_anchors, relevance_score, expires_at,
+      deleted_at, created_at, supersedes
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `
+	).run(
+		entry.id,
+		entry.projectId,
+		entry.beadId ?? null,
+		entry.epicId ?? null,
+		entry.sessionId ?? null,
+		entry.chatId ?? null,
+		entry.agentName ?? null,
+		entry.kind,
+		entry.title,
+		entry.content,
+		entry.data ? JSON.stringify(entry.data) : null,
+		entry.intentAnchors ? JSON.stringify(entry.intentAnchors) : null,
+		entry.relevanceScore ?? DEFAULT_RELEVANCE_SCORE,
+		entry.expiresAt ?? null,
+		entry.deletedAt ?? null,
+		entry.createdAt,
+		entry.supersedes ?? null
+	);
+}
+
+/**
+ * Overwrite the content fields of an existing entry with an imported version
+ * Identity, provenance and timestamps are left as they are locally.
+ */
+export function replaceMemoryEntryContent(projectPath: string, entry: MemoryEntry): boolean {
+	const db = getMemoryWriter(projectPath);
+
+	const result = db
+		.prepare(
+			`
+      UPDATE memory_entries
+      SET kind = ?, title = ?, content = ?, bead_id = ?, epic_id = ?, data = ?,
+          intent_anchors = ?, expires_at = ?, supersedes = ?
+      WHERE id = ? AND project_id = ?
+    `
+		)
+		.run(
+			entry.kind,
+			entry.title,
+			entry.content,
+			entry.beadId ?? null,
+			entry.epicId ?? null,
+			entry.data ? JSON.stringify(entry.data) : null,
+			entry.intentAnchors ? JSON.stringify(entry.intentAnchors) : null,
+			entry.expiresAt ?? null,
+			entry.supersedes ?? null,
+			entry.id,
+			entry.projectId
+		);
+
+	return result.changes > 0;
+}
+
+// ============================================================================
+// Constraints Snapshot
+// ============================================================================
+
+/**
+ * Regenerate .beads/memory-constraints.json from the active constraints
+ * Does nothing unless the snapshot is enabled or `create` is set.
+ * @returns true if the file was written
+ */
+export function syncConstraintsSnapshot(
+	projectPath: string,
+	projectId: string,
+	create = false
+): boolean {
+	if (!create && !isConstraintsSnapshotEnabled(projectPath)) {
+		return false;
+	}
+
+	const constraints = memoryDbExists(projectPath)
+		? listMemoryEntries(projectPath, { projectId, kinds: ['constraint'], limit: -1 })
+		: [];
+	return writeConstraintsSnapshot(projectPath, constraints);
+}
+
+// ============================================================================
+// Consolidation Audit Trail
+// ============================================================================
+
+/**
+ * Record a consolidation step in the audit trail
+ * Call inside the transaction that makes the change.
+ */
+export function recordConsolidation(
+	projectPath: string,
+	entry: Omit<ConsolidationLogEntry, 'id' | 'createdAt'>
+): string {
+	const db = getMemoryWriter(projectPath);
+	const id = randomUUID();
+
+	db.prepare(
+		`
+    INSERT INTO memory_consolidation_log (
+      id, run_id, project_id, action, kept_entry_id, source_entry_ids, reason, actor, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `
+	).run(
+		id,
+		entry.runId,
+		entry.projectId,
+		entry.action,
+		entry.keptEntryId ?? null,
+		JSON.stringify(entry.sourceEntryIds),
+		entry.reason,
+		entry.actor ?? null,
+		new Date().toISOString()
+	);
+
+	return id;
+}
+
+/**
+ * List the most recent consolidation steps, newest first
+ */
+export function listConsolidationLog(
+	projectPath: string,
+	projectId: string,
+	limit: number = 50
+): ConsolidationLogEntry[] {
+	const db = getMemoryReader(projectPath);
+
+	const rows = db
+		.prepare(
+			`
+      SELECT * FROM memory_consolidation_log
+      WHERE project_id = ?
+      ORDER BY created_at DESC
+      LIMIT ?
+    `
+		)
+		.all(projectId, limit) as ConsolidationLogRow[];
+
+	return rows.map((row) => ({
+		id: row.id,
+		runId: row.run_id,
+		projectId: row.project_id,
+		action: row.action as ConsolidationLogEntry['action'],
+		keptEntryId: row.kept_entry_id ?? undefined,
+		sourceEntryIds: JSON.parse(row.source_entry_ids),
+		reason: row.reason,
+		actor: row.actor ?? undefined,
+		createdAt: row.created_at
+	}));
+}
+
+// ============================================================================
+// Brief Feedback
+// ============================================================================
+
+/**
+ * Record "useful / not useful" feedback on a memory shown in a brief
+ * Moves relevance_score by FEEDBACK_SCORE_STEP (kept within 0-1) and logs the vote.
+ */
+export function recordMemoryFeedback(
+	projectPath: string,
+	input: MemoryFeedbackInput
+): MemoryFeedbackResult {
+	const db = getMemoryWriter(projectPath);
+
+	return db.transaction(() => {
+		const row = db
+			.prepare(
+				`
+        SELECT relevance_score FROM memory_entries
+        WHERE id = ? AND project_id = ? AND deleted_at IS NULL
+      `
+			)
+			.get(input.entryId, input.projectId) as { relevance_score: number } | undefined;
+
+		if (!row) {
+			throw new MemoryDatabaseError(`Memory entry not found: ${input.entryId}`, 'ENTRY_NOT_FOUND');
+		}
+
+		const previousScore = row.relevance_score;
+		const step = input.useful ? FEEDBACK_SCORE_STEP : -FEEDBACK_SCORE_STEP;
+		const relevanceScore = Math.round(Math.min(1, Math.max(0, previousScore + step)) * 1000) / 1000;
+		updateRelevanceScore(projectPath, input.entryId, relevanceScore);
+
+		const id = randomUUID();
+		db.prepare(
+			`
+      INSERT INTO memory_feedback (
+        id, entry_id, project_id, useful, bead_id, session_id, actor, previous_score, new_score, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `
+		).run(
+			id,
+			input.entryId,
+			input.projectId,
+			input.useful ? 1 : 0,
+			input.beadId ?? null,
+			input.sessionId ?? null,
+			input.actor ?? null,
+			previousScore,
+			relevanceScore,
+			new Date().toISOString()
+		);
+
+		return { id, entryId: input.entryId, useful: input.useful, previousScore, relevanceScore };
+	})();
+}
+
+/**
+ * Count the feedback received by each of the given entries
+ * Entries without feedback are left out.
+ */
+export function getMemoryFeedbackSummary(
+	projectPath: string,
+	entryIds: string[]
+): Record<string, MemoryFeedbackSummary> {
+	if (entryIds.length === 0) {
+		return {};
+	}
+
+	const db = getMemoryReader(projectPath);
+	const rows = db
+		.prepare(
+			`
+      SELECT entry_id, SUM(useful) AS useful, SUM(1 - useful) AS not_useful
+      FROM memory_feedback
+      WHERE entry_id IN (${entryIds.map(() => '?').join(', ')})
+      GROUP BY entry_id
+    `
+		)
+		.all(...entryIds) as { entry_id: string; useful: number; not_useful: number }[];
+
+	return Object.fromEntries(
+		rows.map((row) => [row.entry_id, { useful: row.useful, notUseful: row.not_useful }])
+	);
+}
+
+// ============================================================================
+// Embedding Cache
+// ============================================================================
+
+/**
+ * Load cached embedding vectors computed by the given model
+ * Vectors are dropped by trigger whenever an entry's title or content changes.
+ */
+export function getCachedEmbeddings(
+	projectPath: string,
+	model: string,
+	entryIds: string[]
+): Map<string, Float32Array> {
+	const vectors = new Map<string, Float32Array>();
+	if (entryIds.length === 0) return vectors;
+
+	const db = getMemoryReader(projectPath);
+	const stmt = db.prepare('SELECT vector FROM memory_embeddings WHERE entry_id = ? AND model = ?');
+	for (const id of entryIds) {
+		const row = stmt.get(id, model) as { vector: Buffer } | undefined;
+		if (row) vectors.set(id, decodeVector(row.vector));
+	}
+	return vectors;
+}
+
+/**
+ * Store embedding vectors (replaces vectors from any previous model)
+ */
+export function saveEmbeddings(
+	projectPath: string,
+	model: string,
+	vectors: Map<string, Float32Array>
+): void {
+	if (vectors.size === 0) return;
+
+	const db = getMemoryWriter(projectPath);
+	const stmt = db.prepare(
+		`INSERT OR REPLACE INTO memory_embeddings (entry_id, model, vector, created_at)
+		 VALUES (?, ?, ?, ?)`
+	);
+	const now = new Date().toISOString();
+	db.transaction(() => {
+		for (const [id, vector] of vectors) {
+			stmt.run(id, model, encodeVector(vector), now);
+		}
+	})();
+}
+
 // ============================================================================
 // Cleanup Operations (Admin Only)
 // ============================================================================
@@ -547,7 +1110,7 @@ export function expireOldEntries(projectPath: string): number {
 /**
  * Convert a database row to a MemoryEntry object
  */
-function rowToEntry(row: MemoryEntryRow): MemoryEntry {
+export function rowToEntry(row: MemoryEntryRow): MemoryEntry {
 	return {
 		id: row.id,
 		projectId: row.project_id,
@@ -564,7 +1127,8 @@ function rowToEntry(row: MemoryEntryRow): MemoryEntry {
 		relevanceScore: row.relevance_score,
 		expiresAt: row.expires_at ?? undefined,
 		deletedAt: row.deleted_at ?? undefined,
-		createdAt: row.created_at
+		createdAt: row.created_at,
+		supersedes: row.supersedes ?? undefined
 	};
 }
 
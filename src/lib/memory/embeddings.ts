@@ -0,0 +1,147 @@
+/**
+ * Local embeddings for semantic memory search
+ *
+ * The built-in provider hashes word and character-trigram features into a
+ * fixed-size vector (the "hashing trick"). It needs no model download and
+ * no network, and is good enough to match entries that share vocabulary in
+ * different forms ("migrate" / "migrations" / "migrating").
+ *
+ * Other providers can be plugged in with setEmbeddingProvider(); cached
+ * vectors are keyed by provider id, so switching providers recomputes them.
+ */
+
+import { foldText } from './highlight';
+
+/**
+ * Computes embedding vectors for text
+ */
+export interface EmbeddingProvider {
+	/** Stable identifier, stored with cached vectors */
+	id: string;
+
+	/** Length of the vectors returned by embed() */
+	dimensions: number;
+
+	/** Embed text as an L2-normalized vector */
+	embed(text: string): Float32Array;
+}
+
+const HASH_DIMENSIONS = 256;
+const TRIGRAM_WEIGHT = 0.5;
+
+// Words too common to say anything about an entry
+const STOPWORDS = new Set([
+	'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have',
+	'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'we',
+	'were', 'will', 'with'
+]);
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+/**
+ * Split text into folded words, dropping stopwords
+ */
+export function tokenizeForEmbedding(text: string): string[] {
+	return (foldText(text).match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+		(word) => word.length > 1 && !STOPWORDS.has(word)
+	);
+}
+
+function addFeature(vector: Float32Array, feature: string, weight: number): void {
+	const hash = fnv1a(feature);
+	// Low bit picks the sign so unrelated features tend to cancel out
+	const sign = hash & 1 ? 1 : -1;
+	vector[(hash >>> 1) % vector.length] += sign * weight;
+}
+
+/**
+ * Scale a vector to unit length in place
+ */
+function normalize(vector: Float32Array): Float32Array {
+	let norm = 0;
+	for (const value of vector) norm += value * value;
+	norm = Math.sqrt(norm);
+	if (norm > 0) {
+		for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+	}
+	return vector;
+}
+
+/**
+ * Built-in provider: feature hashing of words and character trigrams
+ */
+export const hashingEmbeddingProvider: EmbeddingProvider = {
+	id: 'local-hash-v1',
+	dimensions: HASH_DIMENSIONS,
+	embed(text: string): Float32Array {
+		const vector = new Float32Array(HASH_DIMENSIONS);
+		for (const word of tokenizeForEmbedding(text)) {
+			addFeature(vector, `w:${word}`, 1);
+			const padded = `#${word}#`;
+			for (let i = 0; i + 3 <= padded.length; i++) {
+				addFeature(vector, `t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+			}
+		}
+		return normalize(vector);
+	}
+};
+
+let activeProvider: EmbeddingProvider = hashingEmbeddingProvider;
+
+/**
+ * Get the provider used for semantic search
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+	return activeProvider;
+}
+
+/**
+ * Replace the provider used for semantic search (pass null to restore the default)
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+	activeProvider = provider ?? hashingEmbeddingProvider;
+}
+
+/**
+ * Cosine similarity of two vectors (-1 to 1)
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+	if (a.length !== b.length) return 0;
+
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	if (normA === 0 || normB === 0) return 0;
+	return dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Serialize a vector for storage in a BLOB column
+ */
+export function encodeVector(vector: Float32Array): Buffer {
+	return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+}
+
+/**
+ * Read a vector stored by encodeVector()
+ */
+export function decodeVector(blob: Buffer): Float32Array {
+	// Copy so the vector does not alias a buffer that may be unaligned
+	const bytes = new Uint8Array(blob);
+	return new Float32Array(bytes.buffer, 0, bytes.byteLength / Float32Array.BYTES_PER_ELEMENT);
+}
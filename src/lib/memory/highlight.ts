@@ -0,0 +1,113 @@
+/**
+ * Match highlighting for cmem search results
+ *
+ * Search results carry matched terms wrapped in control-character markers
+ * rather than HTML, so titles and snippets stay plain text until the UI
+ * (or the MCP server) decides how to render them.
+ *
+ * Safe to import from client code.
+ */
+
+/** Marks the start of a matched term */
+export const HIGHLIGHT_START = '\u0002';
+
+/** Marks the end of a matched term */
+export const HIGHLIGHT_END = '\u0003';
+
+/** Ellipsis used where a snippet cuts the text */
+export const SNIPPET_ELLIPSIS = '…';
+
+/** Default number of words in a snippet */
+export const SNIPPET_WORDS = 24;
+
+/**
+ * A run of text that is either a match or plain
+ */
+export interface HighlightSegment {
+	text: string;
+	match: boolean;
+}
+
+/**
+ * Split marked text into plain and matched segments for rendering
+ */
+export function splitHighlights(text: string): HighlightSegment[] {
+	const segments: HighlightSegment[] = [];
+	let match = false;
+	let current = '';
+
+	for (const char of text) {
+		if (char === HIGHLIGHT_START || char === HIGHLIGHT_END) {
+			if (current) segments.push({ text: current, match });
+			current = '';
+			match = char === HIGHLIGHT_START;
+		} else {
+			current += char;
+		}
+	}
+	if (current) segments.push({ text: current, match });
+
+	return segments;
+}
+
+/**
+ * Remove highlight markers
+ */
+export function stripHighlights(text: string): string {
+	return text.replaceAll(HIGHLIGHT_START, '').replaceAll(HIGHLIGHT_END, '');
+}
+
+/**
+ * Render highlight markers as markdown bold, for text-only consumers
+ */
+export function highlightsToMarkdown(text: string): string {
+	return text.replaceAll(HIGHLIGHT_START, '**').replaceAll(HIGHLIGHT_END, '**');
+}
+
+/**
+ * Lowercase and strip diacritics, matching the FTS tokenizer's folding
+ */
+export function foldText(text: string): string {
+	return text
+		.normalize('NFD')
+		.replace(/\p{M}/gu, '')
+		.toLowerCase();
+}
+
+/**
+ * Mark words that start with any of the given terms
+ */
+export function highlightTerms(text: string, terms: string[]): string {
+	const folded = terms.map(foldText).filter(Boolean);
+	if (folded.length === 0) return text;
+
+	return text.replace(/[\p{L}\p{N}]+/gu, (word) => {
+		const key = foldText(word);
+		return folded.some((term) => key.startsWith(term))
+			? `${HIGHLIGHT_START}${word}${HIGHLIGHT_END}`
+			: word;
+	});
+}
+
+/**
+ * Build a snippet of about `maxWords` words centred on the first matched term
+ *
+ * Used where FTS5's snippet() is not available (semantic search).
+ */
+export function buildSnippet(text: string, terms: string[], maxWords: number = SNIPPET_WORDS): string {
+	const words = text.split(/\s+/).filter(Boolean);
+	const marked = words.map((word) => highlightTerms(word, terms));
+
+	const firstMatch = marked.findIndex((word) => word.includes(HIGHLIGHT_START));
+	const start =
+		firstMatch <= maxWords / 2
+			? 0
+			: Math.min(firstMatch - Math.floor(maxWords / 2), Math.max(0, words.length - maxWords));
+	const end = Math.min(words.length, start + maxWords);
+
+	return (
+		(start > 0 ? SNIPPET_ELLIPSIS : '') +
+		marked.slice(start, end).join(' ') +
+		(end < words.length ? SNIPPET_ELLIPSIS : '')
+	);
+}
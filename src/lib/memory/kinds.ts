@@ -0,0 +1,358 @@
+/**
+ * Memory Kind Registry
+ *
+ * The six built-in kinds are fixed. Projects can add their own (for example
+ * api_contract, test_gap or risk) in .beads/memory-kinds.json, which is
+ * git-tracked like intent-links.json. Each project-defined kind can declare:
+ *
+ * - a JSON schema for the entry's `data`, checked by createMemoryEntry()
+ * - a retention default, applied when an entry has no expiresAt
+ * - a ranking boost, used in place of the built-in kind boosts
+ * - a brief template, used when the entry is rendered into a memory brief
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import type {
+	BuiltinMemoryKind,
+	MemoryDataSchema,
+	MemoryDataSchemaType,
+	MemoryKind,
+	MemoryKindConfig,
+	MemoryKindDefinition,
+	MemoryKindsFile
+} from './types';
+import {
+	BUILTIN_KIND_BOOSTS,
+	DEFAULT_RETENTION_DAYS,
+	MEMORY_KINDS,
+	MEMORY_KIND_NAME_PATTERN,
+	MEMORY_KINDS_FILE_VERSION
+} from './types';
+
+const BUILTIN_LABELS: Record<BuiltinMemoryKind, string> = {
+	decision: 'Decision',
+	checkpoint: 'Checkpoint',
+	constraint: 'Constraint',
+	next_step: 'Next Step',
+	action_report: 'Action Report',
+	ci_note: 'CI Note'
+};
+
+/**
+ * Definitions of the built-in kinds
+ */
+export const BUILTIN_MEMORY_KIND_DEFINITIONS: readonly MemoryKindDefinition[] = MEMORY_KINDS.map(
+	(name) => ({
+		name,
+		label: BUILTIN_LABELS[name],
+		retentionDays: DEFAULT_RETENTION_DAYS[name],
+		rankingBoost: BUILTIN_KIND_BOOSTS[name],
+		builtin: true
+	})
+);
+
+// ============================================================================
+// memory-kinds.json
+// ============================================================================
+
+/**
+ * Get the path to memory-kinds.json for a project
+ */
+export function getMemoryKindsPath(projectPath: string): string {
+	return join(projectPath, '.beads', 'memory-kinds.json');
+}
+
+/**
+ * Load the project's kind definitions file
+ * Returns an empty file if it doesn't exist or is malformed.
+ */
+export function loadMemoryKindsFile(projectPath: string): MemoryKindsFile {
+	const kindsPath = getMemoryKindsPath(projectPath);
+	if (!existsSync(kindsPath)) {
+		return { version: MEMORY_KINDS_FILE_VERSION, kinds: [] };
+	}
+
+	try {
+		const data = JSON.parse(readFileSync(kindsPath, 'utf-8')) as MemoryKindsFile;
+		if (typeof data.version !== 'number' || !Array.isArray(data.kinds)) {
+			console.error('Invalid memory-kinds.json structure, ignoring');
+			return { version: MEMORY_KINDS_FILE_VERSION, kinds: [] };
+		}
+		return data;
+	} catch (e) {
+		console.error('Failed to load memory kinds:', e);
+		return { version: MEMORY_KINDS_FILE_VERSION, kinds: [] };
+	}
+}
+
+/**
+ * Validate and save the project's kind definitions
+ * @throws Error listing every problem if any definition is invalid
+ */
+export function saveMemoryKindsFile(projectPath: string, kinds: MemoryKindConfig[]): MemoryKindsFile {
+	const problems = validateMemoryKindConfigs(kinds);
+	if (problems.length > 0) {
+		throw new Error(`Invalid memory kinds: ${problems.join('; ')}`);
+	}
+
+	const file: MemoryKindsFile = { version: MEMORY_KINDS_FILE_VERSION, kinds };
+	const kindsPath = getMemoryKindsPath(projectPath);
+	const dir = dirname(kindsPath);
+	if (!existsSync(dir)) {
+		mkdirSync(dir, { recursive: true });
+	}
+	writeFileSync(kindsPath, `${JSON.stringify(file, null, 2)}\n`, 'utf-8');
+	return file;
+}
+
+/**
+ * Check project kind definitions
+ * @returns A message per problem (empty if valid)
+ */
+export function validateMemoryKindConfigs(kinds: MemoryKindConfig[]): string[] {
+	const problems: string[] = [];
+	const seen = new Set<string>();
+
+	for (const kind of kinds) {
+		const name = kind?.name;
+		if (typeof name !== 'string' || !MEMORY_KIND_NAME_PATTERN.test(name)) {
+			problems.push(`"${name}" is not a valid kind name (lowercase letters, digits and _)`);
+			continue;
+		}
+		if ((MEMORY_KINDS as readonly string[]).includes(name)) {
+			problems.push(`${name} is a built-in kind`);
+		}
+		if (seen.has(name)) {
+			problems.push(`${name} is defined more than once`);
+		}
+		seen.add(name);
+
+		if (
+			kind.retentionDays !== undefined &&
+			kind.retentionDays !== null &&
+			!(Number.isInteger(kind.retentionDays) && kind.retentionDays > 0)
+		) {
+			problems.push(`${name}: retentionDays must be a positive whole number or null`);
+		}
+		if (
+			kind.rankingBoost !== undefined &&
+			!(typeof kind.rankingBoost === 'number' && kind.rankingBoost >= 0 && kind.rankingBoost <= 1)
+		) {
+			problems.push(`${name}: rankingBoost must be between 0 and 1`);
+		}
+		if (kind.briefTemplate !== undefined && typeof kind.briefTemplate !== 'string') {
+			problems.push(`${name}: briefTemplate must be a string`);
+		}
+		if (kind.dataSchema !== undefined) {
+			problems.push(...validateSchemaShape(kind.dataSchema, `${name}.dataSchema`));
+		}
+	}
+
+	return problems;
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+/**
+ * All kinds available to a project, by name: built-ins plus project-defined
+ * Invalid project definitions are skipped.
+ */
+export function getMemoryKindRegistry(projectPath: string): Record<string, MemoryKindDefinition> {
+	const registry: Record<string, MemoryKindDefinition> = {};
+	for (const definition of BUILTIN_MEMORY_KIND_DEFINITIONS) {
+		registry[definition.name] = definition;
+	}
+
+	for (const config of loadMemoryKindsFile(projectPath).kinds) {
+		if (validateMemoryKindConfigs([config]).length > 0) {
+			console.error(`Ignoring invalid memory kind definition: ${JSON.stringify(config?.name)}`);
+			continue;
+		}
+		registry[config.name] = {
+			name: config.name,
+			label: config.label?.trim() || config.name,
+			description: config.description,
+			dataSchema: config.dataSchema,
+			retentionDays: config.retentionDays ?? null,
+			rankingBoost: config.rankingBoost ?? 0,
+			briefTemplate: config.briefTemplate,
+			builtin: false
+		};
+	}
+
+	return registry;
+}
+
+/**
+ * Names of all kinds available to a project
+ */
+export function getMemoryKindNames(projectPath: string): MemoryKind[] {
+	return Object.keys(getMemoryKindRegistry(projectPath));
+}
+
+/**
+ * Ranking boosts by kind, for MemoryRankingContext.kindBoosts
+ */
+export function getKindRankingBoosts(projectPath: string): Record<string, number> {
+	return Object.fromEntries(
+		Object.values(getMemoryKindRegistry(projectPath)).map((d) => [d.name, d.rankingBoost])
+	);
+}
+
+/**
+ * Brief templates by kind, for MemoryBriefOptions.kindTemplates
+ */
+export function getKindBriefTemplates(projectPath: string): Record<string, string> {
+	return Object.fromEntries(
+		Object.values(getMemoryKindRegistry(projectPath))
+			.filter((d) => d.briefTemplate)
+			.map((d) => [d.name, d.briefTemplate!])
+	);
+}
+
+// ============================================================================
+// Data Validation
+// ============================================================================
+
+const SCHEMA_TYPES: readonly MemoryDataSchemaType[] = [
+	'object',
+	'array',
+	'string',
+	'number',
+	'integer',
+	'boolean',
+	'null'
+];
+
+/**
+ * Check that a schema only uses keywords validateMemoryData() understands
+ */
+function validateSchemaShape(schema: MemoryDataSchema, path: string): string[] {
+	if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+		return [`${path} must be an object`];
+	}
+
+	const problems: string[] = [];
+	const types = schema.type === undefined ? [] : [schema.type].flat();
+	for (const type of types) {
+		if (!SCHEMA_TYPES.includes(type)) {
+			problems.push(`${path}: unknown type "${type}"`);
+		}
+	}
+	if (schema.pattern !== undefined) {
+		try {
+			new RegExp(schema.pattern, 'u');
+		} catch {
+			problems.push(`${path}: invalid pattern`);
+		}
+	}
+	if (schema.required !== undefined && !Array.isArray(schema.required)) {
+		problems.push(`${path}: required must be an array`);
+	}
+	for (const [key, property] of Object.entries(schema.properties ?? {})) {
+		problems.push(...validateSchemaShape(property, `${path}.${key}`));
+	}
+	if (schema.items !== undefined) {
+		problems.push(...validateSchemaShape(schema.items, `${path}[]`));
+	}
+	if (typeof schema.additionalProperties === 'object') {
+		problems.push(...validateSchemaShape(schema.additionalProperties, `${path}.*`));
+	}
+
+	return problems;
+}
+
+function typeOf(value: unknown): MemoryDataSchemaType {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+	return typeof value as MemoryDataSchemaType;
+}
+
+/**
+ * Validate an entry's data against a kind's schema
+ * @returns A message per violation, prefixed with the JSON path (empty if valid)
+ */
+export function validateMemoryData(
+	schema: MemoryDataSchema,
+	value: unknown,
+	path = 'data'
+): string[] {
+	if (value === undefined) {
+		return [`${path} is required`];
+	}
+
+	const errors: string[] = [];
+	const actual = typeOf(value);
+
+	if (schema.type !== undefined) {
+		const allowed = [schema.type].flat();
+		const matches = allowed.some(
+			(type) => type === actual || (type === 'number' && actual === 'integer')
+		);
+		if (!matches) {
+			return [`${path} must be ${allowed.join(' or ')}`];
+		}
+	}
+
+	if (schema.enum && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+		errors.push(`${path} must be one of: ${schema.enum.map((o) => JSON.stringify(o)).join(', ')}`);
+	}
+
+	if (typeof value === 'string') {
+		if (schema.minLength !== undefined && value.length < schema.minLength) {
+			errors.push(`${path} must be at least ${schema.minLength} characters`);
+		}
+		if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+			errors.push(`${path} must be at most ${schema.maxLength} characters`);
+		}
+		if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+			errors.push(`${path} must match ${schema.pattern}`);
+		}
+	}
+
+	if (typeof value === 'number') {
+		if (schema.minimum !== undefined && value < schema.minimum) {
+			errors.push(`${path} must be >= ${schema.minimum}`);
+		}
+		if (schema.maximum !== undefined && value > schema.maximum) {
+			errors.push(`${path} must be <= ${schema.maximum}`);
+		}
+	}
+
+	if (Array.isArray(value)) {
+		if (schema.minItems !== undefined && value.length < schema.minItems) {
+			errors.push(`${path} must have at least ${schema.minItems} items`);
+		}
+		if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+			errors.push(`${path} must have at most ${schema.maxItems} items`);
+		}
+		if (schema.items) {
+			value.forEach((item, i) => errors.push(...validateMemoryData(schema.items!, item, `${path}[${i}]`)));
+		}
+	}
+
+	if (actual === 'object') {
+		const record = value as Record<string, unknown>;
+		for (const key of schema.required ?? []) {
+			if (record[key] === undefined) {
+				errors.push(`${path}.${key} is required`);
+			}
+		}
+		for (const [key, item] of Object.entries(record)) {
+			const property = schema.properties?.[key];
+			if (property) {
+				errors.push(...validateMemoryData(property, item, `${path}.${key}`));
+			} else if (schema.additionalProperties === false) {
+				errors.push(`${path}.${key} is not allowed`);
+			} else if (typeof schema.additionalProperties === 'object') {
+				errors.push(...validateMemoryData(schema.additionalProperties, item, `${path}.${key}`));
+			}
+		}
+	}
+
+	return errors;
+}
@@ -26,9 +26,12 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { createMemoryEntry, listMemoryEntries } from './db';
-import { getScopedMemories, searchMemories, rankMemories } from './retrieval';
-import type { MemoryKind } from './types';
-import { MEMORY_KINDS } from './types';
+import { getScopedMemories, searchMemories, rankSearchHits } from './retrieval';
+import { highlightsToMarkdown } from './highlight';
+import { getKindRankingBoosts, getMemoryKindRegistry } from './kinds';
+import { loadMemoryRankingConfig } from './ranking';
+import type { MemoryKind, MemoryKindDefinition, MemorySearchMode } from './types';
+import { MEMORY_SEARCH_MODES } from './types';
 
 // ============================================================================
 // Environment Configuration
@@ -66,103 +69,146 @@ const server = new Server(
 // Tool Definitions
 // ============================================================================
 
-const TOOLS = [
-	{
-		name: 'read_memory',
-		description:
-			'Read memories scoped to bead/epic/project. Returns relevant context from previous sessions. ' +
-			'Memories are retrieved hierarchically: bead-specific first, then epic-level, then project constraints.',
-		inputSchema: {
-			type: 'object' as const,
-			properties: {
-				beadId: {
-					type: 'string',
-					description: 'Bead ID for bead-scoped retrieval (recommended for task context)'
-				},
-				epicId: {
-					type: 'string',
-					description: 'Epic ID for broader scope (if bead is not specified)'
-				},
-				kinds: {
-					type: 'array',
-					items: { type: 'string', enum: MEMORY_KINDS as unknown as string[] },
-					description: `Filter by memory kind. Options: ${MEMORY_KINDS.join(', ')}`
-				},
-				limit: {
-					type: 'number',
-					description: 'Maximum entries to return (default: 20, max: 100)'
+/**
+ * Describe project-defined kinds and their data schemas for the kind parameter
+ */
+function describeProjectKinds(registry: Record<string, MemoryKindDefinition>): string {
+	const custom = Object.values(registry).filter((d) => !d.builtin);
+	if (custom.length === 0) return '';
+
+	const lines = custom.map((d) => {
+		const schema = d.dataSchema ? ` data schema: ${JSON.stringify(d.dataSchema)}` : '';
+		return `${d.name}${d.description ? ` (${d.description})` : ''}${schema}`;
+	});
+	return `. Project kinds: ${lines.join('; ')}`;
+}
+
+/**
+ * Tool definitions, including the project's own memory kinds
+ * Rebuilt on every listing so edits to memory-kinds.json are picked up.
+ */
+function getTools() {
+	const registry = getMemoryKindRegistry(projectPath);
+	const kinds = Object.keys(registry);
+
+	return [
+		{
+			name: 'read_memory',
+			description:
+				'Read memories scoped to bead/epic/project. Returns relevant context from previous sessions. ' +
+				'Memories are retrieved hierarchically: bead-specific first, then epic-level, then project constraints.',
+			inputSchema: {
+				type: 'object' as const,
+				properties: {
+					beadId: {
+						type: 'string',
+						description: 'Bead ID for bead-scoped retrieval (recommended for task context)'
+					},
+					epicId: {
+						type: 'string',
+						description: 'Epic ID for broader scope (if bead is not specified)'
+					},
+					kinds: {
+						type: 'array',
+						items: { type: 'string', enum: kinds },
+						description: `Filter by memory kind. Options: ${kinds.join(', ')}`
+					},
+					limit: {
+						type: 'number',
+						description: 'Maximum entries to return (default: 20, max: 100)'
+					}
 				}
 			}
-		}
-	},
-	{
-		name: 'write_memory',
-		description:
-			'Write a memory entry to persist context across sessions. ' +
-			'Use for decisions, checkpoints, constraints, handoff notes, action reports, or CI notes.',
-		inputSchema: {
-			type: 'object' as const,
-			properties: {
-				beadId: {
-					type: 'string',
-					description: 'Bead ID for bead-scoped entry (preferred for task-specific context)'
-				},
-				epicId: {
-					type: 'string',
-					description: 'Epic ID for epic-scoped entry (fallback if no bead)'
-				},
-				kind: {
-					type: 'string',
-					enum: MEMORY_KINDS as unknown as string[],
-					description: `Memory type. Options: ${MEMORY_KINDS.join(', ')}`
-				},
-				title: {
-					type: 'string',
-					description: 'Brief title describing the memory (required)'
-				},
-				content: {
-					type: 'string',
-					description: 'Full content of the memory entry (markdown supported, required)'
-				},
-				intentAnchors: {
-					type: 'array',
-					items: { type: 'string' },
-					description: 'Links to intent anchor paths (e.g., ["lifecycle.execute", "ux.chat"])'
-				}
-			},
-			required: ['kind', 'title', 'content']
-		}
-	},
-	{
-		name: 'search_memory',
-		description:
-			'Search memories by text with relevance ranking. ' +
-			'Useful for finding past decisions, notes, or context related to specific topics.',
-		inputSchema: {
-			type: 'object' as const,
-			properties: {
-				query: {
-					type: 'string',
-					description: 'Search text to match against titles and content (required)'
-				},
-				beadId: {
-					type: 'string',
-					description: 'Limit search to memories scoped to this bead'
+		},
+		{
+			name: 'write_memory',
+			description:
+				'Write a memory entry to persist context across sessions. ' +
+				'Use for decisions, checkpoints, constraints, handoff notes, action reports, or CI notes.',
+			inputSchema: {
+				type: 'object' as const,
+				properties: {
+					beadId: {
+						type: 'string',
+						description: 'Bead ID for bead-scoped entry (preferred for task-specific context)'
+					},
+					epicId: {
+						type: 'string',
+						description: 'Epic ID for epic-scoped entry (fallback if no bead)'
+					},
+					kind: {
+						type: 'string',
+						enum: kinds,
+						description: `Memory type. Options: ${kinds.join(', ')}${describeProjectKinds(registry)}`
+					},
+					title: {
+						type: 'string',
+						description: 'Brief title describing the memory (required)'
+					},
+					content: {
+						type: 'string',
+						description: 'Full content of the memory entry (markdown supported, required)'
+					},
+					intentAnchors: {
+						type: 'array',
+						items: { type: 'string' },
+						description: 'Links to intent anchor paths (e.g., ["lifecycle.execute", "ux.chat"])'
+					},
+					data: {
+						type: 'object',
+						description:
+							'Structured data for the entry. Required for project-defined kinds that declare a data schema'
+					},
+					supersedes: {
+						type: 'string',
+						description:
+							'ID of an earlier decision this decision replaces (kind must be decision). ' +
+							'The earlier decision is kept as history but no longer returned by read_memory or search_memory'
+					}
 				},
-				kinds: {
-					type: 'array',
-					items: { type: 'string', enum: MEMORY_KINDS as unknown as string[] },
-					description: `Filter by memory kind. Options: ${MEMORY_KINDS.join(', ')}`
+				required: ['kind', 'title', 'content']
+			}
+		},
+		{
+			name: 'search_memory',
+			description:
+				'Search memories by text with relevance ranking. ' +
+				'Useful for finding past decisions, notes, or context related to specific topics. ' +
+				'Supports "exact phrases", OR, -excluded terms and tolerates typos. ' +
+				'Snippets mark matched terms in **bold**.',
+			inputSchema: {
+				type: 'object' as const,
+				properties: {
+					query: {
+						type: 'string',
+						description: 'Search text to match against titles and content (required)'
+					},
+					mode: {
+						type: 'string',
+						enum: MEMORY_SEARCH_MODES as unknown as string[],
+						description:
+							'fulltext (default): keyword search ranked by BM25. ' +
+							'semantic: similarity search for related wording'
+					},
+					beadId: {
+						type: 'string',
+						description: 'Limit search to memories scoped to this bead'
+					},
+					kinds: {
+						type: 'array',
+						items: { type: 'string', enum: kinds },
+						description: `Filter by memory kind. Options: ${kinds.join(', ')}`
+					},
+					limit: {
+						type: 'number',
+						description: 'Maximum results (default: 20, max: 100)'
+					}
 				},
-				limit: {
-					type: 'number',
-					description: 'Maximum results (default: 20, max: 100)'
-				}
-			},
-			required: ['query']
+				required: ['query']
+			}
 		}
-	}
-];
+	];
+}
 
 // ============================================================================
 // Request Handlers
@@ -170,7 +216,7 @@ const TOOLS = [
 
 // List available tools
 server.setRequestHandler(ListToolsRequestSchema, async () => ({
-	tools: TOOLS
+	tools: getTools()
 }));
 
 // Handle tool calls
@@ -262,7 +308,7 @@ function handleReadMemory(args: Record<string, unknown>) {
  * Creates a new memory entry with proper scoping
  */
 function handleWriteMemory(args: Record<string, unknown>) {
-	const { beadId, epicId, kind, title, content, intentAnchors } = args;
+	const { beadId, epicId, kind, title, content, data, intentAnchors, supersedes } = args;
 
 	// Validate required fields
 	if (!kind || typeof kind !== 'string') {
@@ -284,18 +330,27 @@ function handleWriteMemory(args: Record<string, unknown>) {
 		};
 	}
 
-	// Validate kind is valid
-	if (!MEMORY_KINDS.includes(kind as MemoryKind)) {
+	// Validate kind is valid (built-in or project-defined)
+	const kinds = Object.keys(getMemoryKindRegistry(projectPath));
+	if (!kinds.includes(kind)) {
 		return {
 			content: [
 				{
 					type: 'text',
-					text: `Invalid kind: ${kind}. Must be one of: ${MEMORY_KINDS.join(', ')}`
+					text: `Invalid kind: ${kind}. Must be one of: ${kinds.join(', ')}`
 				}
 			],
 			isError: true
 		};
 	}
+	if (data !== undefined && (typeof data !== 'object' || data === null || Array.isArray(data))) {
+		return {
+			content: [{ type: 'text', text: 'Invalid data: must be an object' }],
+			isError: true
+		};
+	}
+
+	// Data is checked against the kind's schema by createMemoryEntry
 
 	// Create the memory entry
 	const id = createMemoryEntry(projectPath, {
@@ -305,7 +360,9 @@ function handleWriteMemory(args: Record<string, unknown>) {
 		kind: kind as MemoryKind,
 		title: title as string,
 		content: content as string,
-		intentAnchors: intentAnchors as string[] | undefined
+		data: data as Record<string, unknown> | undefined,
+		intentAnchors: intentAnchors as string[] | undefined,
+		supersedes: supersedes as string | undefined
 	});
 
 	const response = {
@@ -330,7 +387,7 @@ function handleWriteMemory(args: Record<string, unknown>) {
  * Searches memories by text and returns ranked results
  */
 function handleSearchMemory(args: Record<string, unknown>) {
-	const { query, beadId, kinds, limit = 20 } = args;
+	const { query, mode, beadId, kinds, limit = 20 } = args;
 	const effectiveLimit = Math.min(Number(limit) || 20, 100);
 
 	// Validate query
@@ -341,31 +398,46 @@ function handleSearchMemory(args: Record<string, unknown>) {
 		};
 	}
 
+	if (mode !== undefined && !MEMORY_SEARCH_MODES.includes(mode as MemorySearchMode)) {
+		return {
+			content: [
+				{ type: 'text', text: `Invalid mode: ${mode}. Must be one of: ${MEMORY_SEARCH_MODES.join(', ')}` }
+			],
+			isError: true
+		};
+	}
+
 	// Search memories
 	const results = searchMemories(projectPath, {
 		projectId: PROJECT_ID!,
-		searchText: query as string,
+		query,
+		mode: mode as MemorySearchMode | undefined,
 		beadId: beadId as string | undefined,
 		kinds: kinds as MemoryKind[] | undefined,
 		limit: effectiveLimit
 	});
 
-	// Rank by relevance
-	const ranked = rankMemories(results, {
-		beadId: beadId as string | undefined
+	// Rank by relevance, blended with the text match
+	const ranked = rankSearchHits(results, {
+		beadId: beadId as string | undefined,
+		kindBoosts: getKindRankingBoosts(projectPath),
+		ranking: loadMemoryRankingConfig(projectPath)
 	});
 
 	const response = {
 		query,
+		mode: mode ?? 'fulltext',
 		count: ranked.length,
 		results: ranked.slice(0, effectiveLimit).map((m) => ({
 			id: m.id,
 			kind: m.kind,
 			title: m.title,
+			snippet: highlightsToMarkdown(m.snippet),
 			content: m.content,
 			beadId: m.beadId,
 			epicId: m.epicId,
 			relevanceScore: m.computedScore,
+			matchScore: m.matchScore,
 			createdAt: m.createdAt
 		}))
 	};
@@ -0,0 +1,448 @@
+/**
+ * Memory export and import for cmem (Persistent Memory) system
+ *
+ * memory.db is a binary file, so decisions and constraints cannot be reviewed
+ * in a PR or carried to a fresh clone. Entries can be exported to, and merged
+ * back from, two text formats:
+ *
+ * - jsonl: a header line, then one entry per line
+ * - markdown: one readable section per entry, with its metadata in an HTML
+ *   comment so the file can be imported again
+ *
+ * Entries are written oldest first with a fixed key order, so re-exporting an
+ * unchanged store produces an unchanged file.
+ *
+ * Imports merge by entry ID. New IDs are inserted as they are (ID, timestamps
+ * and provenance preserved); an ID that exists locally with different content
+ * is a conflict, resolved by keeping the local version (default) or taking the
+ * incoming one. Deletions carry over in one direction: an entry deleted on
+ * either side stays deleted.
+ */
+
+import type {
+	MemoryEntry,
+	MemoryEntryRow,
+	MemoryExportFormat,
+	MemoryExportOptions,
+	MemoryImportConflict,
+	MemoryImportOptions,
+	MemoryImportResult
+} from './types';
+import { MEMORY_EXPORT_VERSION } from './types';
+import {
+	getMemoryReader,
+	getMemoryWriter,
+	insertMemoryEntry,
+	memoryDbExists,
+	MemoryDatabaseError,
+	replaceMemoryEntryContent,
+	rowToEntry,
+	syncConstraintsSnapshot
+} from './db';
+import { readConstraintsSnapshot } from './snapshot';
+import { getMemoryKindNames } from './kinds';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Identifies export files in their header */
+const EXPORT_FORMAT_NAME = 'beads-memory';
+
+const MARKDOWN_SECTION_START = '<!-- memory ';
+const MARKDOWN_SECTION_END = '<!-- /memory -->';
+
+const MARKDOWN_SECTION_PATTERN = /^<!-- memory (\{.*\}) -->\n#{3} [^\n]*\n\n([\s\S]*?)\n\n<!-- \/memory -->$/gm;
+
+/** Fields an import compares and, for take-incoming, overwrites */
+const MERGE_FIELDS = [
+	'kind',
+	'title',
+	'content',
+	'beadId',
+	'epicId',
+	'data',
+	'intentAnchors',
+	'expiresAt',
+	'supersedes'
+] as const satisfies readonly (keyof MemoryEntry)[];
+
+/**
+ * An entry as written to an export file
+ * projectId is left out; imports assign the target project.
+ */
+type ExportedEntry = Omit<MemoryEntry, 'projectId'>;
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Expand a bare YYYY-MM-DD `until` date to the end of that day
+ */
+function normalizeUntil(until: string): string {
+	return /^\d{4}-\d{2}-\d{2}$/.test(until) ? `${until}T23:59:59.999Z` : until;
+}
+
+function assertDate(value: string, name: string): void {
+	if (Number.isNaN(Date.parse(value))) {
+		throw new MemoryDatabaseError(`Invalid ${name} date: ${value}`, 'INVALID_ENTRY');
+	}
+}
+
+/**
+ * Load the entries matching the export filters, oldest first
+ */
+function loadExportEntries(projectPath: string, options: MemoryExportOptions): MemoryEntry[] {
+	if (!memoryDbExists(projectPath)) {
+		return [];
+	}
+
+	const conditions: string[] = ['project_id = ?'];
+	const params: string[] = [options.projectId];
+
+	if (options.beadId) {
+		conditions.push('bead_id = ?');
+		params.push(options.beadId);
+	}
+	if (options.epicId) {
+		conditions.push('epic_id = ?');
+		params.push(options.epicId);
+	}
+	if (options.kinds && options.kinds.length > 0) {
+		conditions.push(`kind IN (${options.kinds.map(() => '?').join(', ')})`);
+		params.push(...options.kinds);
+	}
+	if (options.since) {
+		assertDate(options.since, 'since');
+		conditions.push('created_at >= ?');
+		params.push(options.since);
+	}
+	if (options.until) {
+		assertDate(options.until, 'until');
+		conditions.push('created_at <= ?');
+		params.push(normalizeUntil(options.until));
+	}
+	if (!options.includeDeleted) {
+		conditions.push('deleted_at IS NULL');
+	}
+	if (!options.includeExpired) {
+		conditions.push('(expires_at IS NULL OR expires_at > ?)');
+		params.push(new Date().toISOString());
+	}
+
+	// Opening the writer migrates older databases
+	getMemoryWriter(projectPath);
+
+	const rows = getMemoryReader(projectPath)
+		.prepare(
+			`
+      SELECT * FROM memory_entries
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY created_at ASC, id ASC
+    `
+		)
+		.all(...params) as MemoryEntryRow[];
+
+	return rows.map(rowToEntry);
+}
+
+/**
+ * Entry fields in a fixed order, without projectId
+ */
+function toExported(entry: MemoryEntry): ExportedEntry {
+	return {
+		id: entry.id,
+		kind: entry.kind,
+		title: entry.title,
+		content: entry.content,
+		beadId: entry.beadId,
+		epicId: entry.epicId,
+		sessionId: entry.sessionId,
+		chatId: entry.chatId,
+		agentName: entry.agentName,
+		data: entry.data,
+		intentAnchors: entry.intentAnchors,
+		relevanceScore: entry.relevanceScore,
+		expiresAt: entry.expiresAt,
+		deletedAt: entry.deletedAt,
+		supersedes: entry.supersedes,
+		createdAt: entry.createdAt
+	};
+}
+
+/**
+ * JSON that can sit inside an HTML comment
+ */
+function commentSafeJson(value: unknown): string {
+	return JSON.stringify(value).replace(/-->/g, '--\\u003e');
+}
+
+function toMarkdownSection(entry: MemoryEntry): string {
+	// The heading is for readers; the exact title travels in the metadata
+	const { content, ...meta } = toExported(entry);
+	const heading = entry.title.replace(/\s+/g, ' ').trim();
+	return `${MARKDOWN_SECTION_START}${commentSafeJson(meta)} -->\n### ${heading}\n\n${content}\n\n${MARKDOWN_SECTION_END}`;
+}
+
+/**
+ * Export a project's memory entries as JSONL or Markdown text
+ */
+export function exportMemories(projectPath: string, options: MemoryExportOptions): string {
+	const entries = loadExportEntries(projectPath, options);
+	const header = {
+		format: EXPORT_FORMAT_NAME,
+		version: MEMORY_EXPORT_VERSION,
+		exportedAt: new Date().toISOString(),
+		count: entries.length
+	};
+
+	if (options.format === 'markdown') {
+		return [
+			'# Memory export',
+			`<!-- ${commentSafeJson(header)} -->`,
+			...entries.map(toMarkdownSection)
+		].join('\n\n') + '\n';
+	}
+
+	return [header, ...entries.map(toExported)].map((line) => JSON.stringify(line)).join('\n') + '\n';
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * A record read from an export file, with the line it started on
+ */
+interface ParsedRecord {
+	line: number;
+	value: unknown;
+}
+
+/**
+ * Guess the format of exported text: Markdown exports open with a heading or
+ * a memory comment, anything else is read line by line as JSONL
+ */
+export function detectExportFormat(text: string): MemoryExportFormat {
+	return /^\s*(#|<!--)/.test(text) ? 'markdown' : 'jsonl';
+}
+
+function parseJsonl(text: string, errors: MemoryImportResult['errors']): ParsedRecord[] {
+	const records: ParsedRecord[] = [];
+
+	text.split('\n').forEach((raw, index) => {
+		const line = raw.trim();
+		if (!line) return;
+
+		try {
+			const value = JSON.parse(line);
+			if (value?.format === EXPORT_FORMAT_NAME) return;
+			records.push({ line: index + 1, value });
+		} catch {
+			errors.push({ line: index + 1, message: 'Invalid JSON' });
+		}
+	});
+
+	return records;
+}
+
+function parseMarkdown(text: string, errors: MemoryImportResult['errors']): ParsedRecord[] {
+	const records: ParsedRecord[] = [];
+	const normalized = text.replace(/\r\n/g, '\n');
+	const lineAt = (index: number) => normalized.slice(0, index).split('\n').length;
+	const matched = new Set<number>();
+
+	for (const match of normalized.matchAll(MARKDOWN_SECTION_PATTERN)) {
+		const line = lineAt(match.index);
+		matched.add(match.index);
+		try {
+			records.push({ line, value: { ...JSON.parse(match[1]), content: match[2] } });
+		} catch {
+			errors.push({ line, message: 'Invalid metadata comment' });
+		}
+	}
+
+	// Report sections the pattern could not read instead of dropping them silently
+	let index = normalized.indexOf(MARKDOWN_SECTION_START);
+	while (index !== -1) {
+		if (!matched.has(index)) {
+			errors.push({ line: lineAt(index), message: 'Malformed memory section' });
+		}
+		index = normalized.indexOf(MARKDOWN_SECTION_START, index + 1);
+	}
+
+	return records.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Check a parsed record and turn it into an entry of the target project
+ */
+function toImportedEntry(value: unknown, projectId: string, kinds: string[]): MemoryEntry {
+	if (!value || typeof value !== 'object' || Array.isArray(value)) {
+		throw new Error('Expected an object');
+	}
+	const record = value as Partial<MemoryEntry>;
+
+	if (typeof record.id !== 'string' || !record.id.trim()) {
+		throw new Error('Missing id');
+	}
+	if (!record.kind || !kinds.includes(record.kind)) {
+		throw new Error(`Invalid memory kind: ${record.kind}`);
+	}
+	if (typeof record.title !== 'string' || !record.title.trim()) {
+		throw new Error('Title is required');
+	}
+	if (typeof record.content !== 'string' || !record.content.trim()) {
+		throw new Error('Content is required');
+	}
+	if (typeof record.createdAt !== 'string' || Number.isNaN(Date.parse(record.createdAt))) {
+		throw new Error('Missing or invalid createdAt');
+	}
+
+	return { ...record, projectId } as MemoryEntry;
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Fields whose values differ between two versions of an entry
+ */
+function diffEntries(local: MemoryEntry, incoming: MemoryEntry): string[] {
+	const normalize = (value: unknown) => JSON.stringify(value ?? null);
+	return MERGE_FIELDS.filter((field) => normalize(local[field]) !== normalize(incoming[field]));
+}
+
+/**
+ * Merge parsed records into a project's memory
+ */
+function mergeRecords(
+	projectPath: string,
+	projectId: string,
+	records: ParsedRecord[],
+	options: MemoryImportOptions,
+	result: MemoryImportResult
+): MemoryImportResult {
+	const onConflict = options.onConflict ?? 'keep-local';
+	const kinds = getMemoryKindNames(projectPath);
+	const db = getMemoryWriter(projectPath);
+	const selectLocal = db.prepare('SELECT * FROM memory_entries WHERE id = ?');
+	const markDeleted = db.prepare(
+		'UPDATE memory_entries SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL'
+	);
+
+	db.transaction(() => {
+		for (const { line, value } of records) {
+			let incoming: MemoryEntry;
+			try {
+				incoming = toImportedEntry(value, projectId, kinds);
+			} catch (err) {
+				result.errors.push({ line, message: err instanceof Error ? err.message : String(err) });
+				continue;
+			}
+
+			const row = selectLocal.get(incoming.id) as MemoryEntryRow | undefined;
+			if (!row) {
+				if (!options.dryRun) insertMemoryEntry(projectPath, incoming);
+				result.inserted++;
+				continue;
+			}
+
+			const local = rowToEntry(row);
+			if (local.projectId !== projectId) {
+				result.errors.push({ line, message: `Entry ${incoming.id} belongs to another project` });
+				continue;
+			}
+
+			// A local deletion wins; the entry is history either way
+			if (local.deletedAt) {
+				result.unchanged++;
+				continue;
+			}
+
+			let changed = false;
+			const fields = diffEntries(local, incoming);
+			if (fields.length > 0) {
+				result.conflicts.push({
+					id: incoming.id,
+					title: local.title,
+					fields,
+					resolution: onConflict
+				} satisfies MemoryImportConflict);
+				if (onConflict === 'take-incoming') {
+					if (!options.dryRun) replaceMemoryEntryContent(projectPath, incoming);
+					changed = true;
+				}
+			}
+
+			if (incoming.deletedAt) {
+				if (!options.dryRun) markDeleted.run(incoming.deletedAt, incoming.id);
+				changed = true;
+			}
+
+			if (changed) {
+				result.updated++;
+			} else {
+				result.unchanged++;
+			}
+		}
+	})();
+
+	if (!options.dryRun && result.inserted + result.updated > 0) {
+		syncConstraintsSnapshot(projectPath, projectId);
+	}
+
+	return result;
+}
+
+function emptyResult(options: MemoryImportOptions): MemoryImportResult {
+	return {
+		inserted: 0,
+		updated: 0,
+		unchanged: 0,
+		conflicts: [],
+		errors: [],
+		dryRun: options.dryRun ?? false
+	};
+}
+
+/**
+ * Import exported JSONL or Markdown text into a project
+ */
+export function importMemories(
+	projectPath: string,
+	projectId: string,
+	text: string,
+	options: MemoryImportOptions = {}
+): MemoryImportResult {
+	const result = emptyResult(options);
+	const format = options.format ?? detectExportFormat(text);
+	const records =
+		format === 'markdown' ? parseMarkdown(text, result.errors) : parseJsonl(text, result.errors);
+
+	return mergeRecords(projectPath, projectId, records, options, result);
+}
+
+/**
+ * Import the constraints recorded in .beads/memory-constraints.json
+ * Brings a fresh clone's memory up to date with the tracked constraints.
+ */
+export function importConstraintsSnapshot(
+	projectPath: string,
+	projectId: string,
+	options: MemoryImportOptions = {}
+): MemoryImportResult {
+	const snapshot = readConstraintsSnapshot(projectPath);
+	if (!snapshot) {
+		throw new MemoryDatabaseError('No constraints snapshot found', 'ENTRY_NOT_FOUND');
+	}
+
+	const records = snapshot.constraints.map((constraint, index) => ({
+		line: index + 1,
+		value: { ...constraint, kind: 'constraint' }
+	}));
+
+	return mergeRecords(projectPath, projectId, records, options, emptyResult(options));
+}
@@ -0,0 +1,140 @@
+/**
+ * Memory Ranking Settings
+ *
+ * Per-project overrides for the ranking weights and recency decay, stored in
+ * .beads/memory-ranking.json (git-tracked). Missing fields fall back to
+ * DEFAULT_RANKING_CONFIG, so an absent file ranks exactly as before.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import type { MemoryRankingConfig, MemoryRankingFile, MemoryRankingWeights } from './types';
+import { DEFAULT_RANKING_CONFIG } from './types';
+
+const MEMORY_RANKING_FILE_VERSION = 1;
+
+const WEIGHT_KEYS: (keyof MemoryRankingWeights)[] = [
+	'baseRelevance',
+	'recency',
+	'scopeProximity',
+	'kindBoost'
+];
+
+/**
+ * Get the path to memory-ranking.json for a project
+ */
+export function getMemoryRankingPath(projectPath: string): string {
+	return join(projectPath, '.beads', 'memory-ranking.json');
+}
+
+/**
+ * Check ranking overrides
+ * @returns A message per problem (empty if valid)
+ */
+export function validateMemoryRankingConfig(config: Partial<MemoryRankingFile>): string[] {
+	const problems: string[] = [];
+	const isBetween = (value: unknown, min: number, max: number) =>
+		typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+	if (config.weights !== undefined) {
+		if (typeof config.weights !== 'object' || config.weights === null) {
+			problems.push('weights must be an object');
+		} else {
+			for (const [key, value] of Object.entries(config.weights)) {
+				if (!WEIGHT_KEYS.includes(key as keyof MemoryRankingWeights)) {
+					problems.push(`Unknown weight: ${key}`);
+				} else if (!isBetween(value, 0, 1)) {
+					problems.push(`weights.${key} must be between 0 and 1`);
+				}
+			}
+			const merged = { ...DEFAULT_RANKING_CONFIG.weights, ...config.weights };
+			if (WEIGHT_KEYS.every((key) => merged[key] === 0)) {
+				problems.push('At least one weight must be above 0');
+			}
+		}
+	}
+	if (config.recencyDecayDays !== undefined && !isBetween(config.recencyDecayDays, 1, 3650)) {
+		problems.push('recencyDecayDays must be between 1 and 3650');
+	}
+	if (config.textMatchWeight !== undefined && !isBetween(config.textMatchWeight, 0, 1)) {
+		problems.push('textMatchWeight must be between 0 and 1');
+	}
+
+	return problems;
+}
+
+/**
+ * Merge overrides into the defaults, scaling the weights to sum to 1
+ */
+function resolveConfig(file: Partial<MemoryRankingFile>): MemoryRankingConfig {
+	if (!file.weights && file.recencyDecayDays === undefined && file.textMatchWeight === undefined) {
+		return DEFAULT_RANKING_CONFIG;
+	}
+
+	const weights = { ...DEFAULT_RANKING_CONFIG.weights, ...file.weights };
+	if (file.weights) {
+		const total = WEIGHT_KEYS.reduce((sum, key) => sum + weights[key], 0);
+		for (const key of WEIGHT_KEYS) {
+			weights[key] = weights[key] / total;
+		}
+	}
+
+	return {
+		weights,
+		recencyDecayDays: file.recencyDecayDays ?? DEFAULT_RANKING_CONFIG.recencyDecayDays,
+		textMatchWeight: file.textMatchWeight ?? DEFAULT_RANKING_CONFIG.textMatchWeight
+	};
+}
+
+/**
+ * Load the project's ranking settings
+ * Falls back to the defaults if the file is missing or invalid.
+ */
+export function loadMemoryRankingConfig(projectPath: string): MemoryRankingConfig {
+	const rankingPath = getMemoryRankingPath(projectPath);
+	if (!existsSync(rankingPath)) {
+		return DEFAULT_RANKING_CONFIG;
+	}
+
+	try {
+		const data = JSON.parse(readFileSync(rankingPath, 'utf-8')) as MemoryRankingFile;
+		const problems = validateMemoryRankingConfig(data);
+		if (typeof data.version !== 'number' || problems.length > 0) {
+			console.error('Invalid memory-ranking.json, using default ranking:', problems.join('; '));
+			return DEFAULT_RANKING_CONFIG;
+		}
+		return resolveConfig(data);
+	} catch (e) {
+		console.error('Failed to load memory ranking settings:', e);
+		return DEFAULT_RANKING_CONFIG;
+	}
+}
+
+/**
+ * Validate and save ranking overrides (pass {} to restore the defaults)
+ * @throws Error listing every problem if the overrides are invalid
+ * @returns The resolved settings
+ */
+export function saveMemoryRankingConfig(
+	projectPath: string,
+	overrides: Omit<MemoryRankingFile, 'version'>
+): MemoryRankingConfig {
+	const problems = validateMemoryRankingConfig(overrides);
+	if (problems.length > 0) {
+		throw new Error(`Invalid ranking settings: ${problems.join('; ')}`);
+	}
+
+	const file: MemoryRankingFile = {
+		version: MEMORY_RANKING_FILE_VERSION,
+		weights: overrides.weights,
+		recencyDecayDays: overrides.recencyDecayDays,
+		textMatchWeight: overrides.textMatchWeight
+	};
+	const rankingPath = getMemoryRankingPath(projectPath);
+	const dir = dirname(rankingPath);
+	if (!existsSync(dir)) {
+		mkdirSync(dir, { recursive: true });
+	}
+	writeFileSync(rankingPath, `${JSON.stringify(file, null, 2)}\n`, 'utf-8');
+	return resolveConfig(file);
+}
@@ -7,7 +7,8 @@
  * 3. Project-scoped: Only constraint entries where bead_id IS NULL AND epic_id IS NULL
  * 4. Active constraints: Non-expired constraint entries from any scope
  *
- * Also provides relevance ranking and token-budgeted brief generation.
+ * Also provides relevance ranking, token-budgeted brief generation and
+ * full-text / semantic search.
  */
 
 import type {
@@ -16,18 +17,45 @@ import type {
 	ScopedMemoryQuery,
 	ScopedMemoryResult,
 	MemoryBrief,
+	MemoryBriefEntry,
 	MemoryBriefOptions,
 	RankedMemory,
 	MemoryRankingContext,
-	MemoryEntryRow
+	MemoryEntryRow,
+	MemorySearchQuery,
+	MemorySearchHit
 } from './types';
 import {
 	TOKENS_PER_CHAR,
 	DEFAULT_MEMORY_BRIEF_TOKENS,
-	RECENCY_DECAY_DAYS,
-	DEFAULT_MEMORY_LIMIT
+	BUILTIN_KIND_BOOSTS,
+	DEFAULT_RANKING_CONFIG,
+	DEFAULT_MEMORY_LIMIT,
+	MAX_MEMORY_LIMIT
 } from './types';
-import { getMemoryReader, memoryDbExists } from './db';
+import type Database from 'better-sqlite3';
+import {
+	getMemoryReader,
+	getMemoryWriter,
+	memoryDbExists,
+	getCachedEmbeddings,
+	saveEmbeddings
+} from './db';
+import {
+	getEmbeddingProvider,
+	cosineSimilarity,
+	tokenizeForEmbedding
+} from './embeddings';
+import {
+	HIGHLIGHT_START,
+	HIGHLIGHT_END,
+	SNIPPET_ELLIPSIS,
+	foldText,
+	highlightTerms,
+	buildSnippet
+} from './highlight';
+import { getKindBriefTemplates, getKindRankingBoosts } from './kinds';
+import { loadMemoryRankingConfig } from './ranking';
 
 // ============================================================================
 // Scoped Retrieval
@@ -61,8 +89,8 @@ export function getScopedMemories(
 	const now = new Date().toISOString();
 	const limit = query.limit ?? DEFAULT_MEMORY_LIMIT;
 
-	// Build base conditions for active entries
-	const baseConditions: string[] = ['project_id = ?', 'deleted_at IS NULL'];
+	// Build base conditions for active entries (superseded decisions are history)
+	const baseConditions: string[] = ['project_id = ?', 'deleted_at IS NULL', notSuperseded('id')];
 	if (!query.includeExpired) {
 		baseConditions.push('(expires_at IS NULL OR expires_at > ?)');
 	}
@@ -241,11 +269,14 @@ function getDaysSince(dateStr: string): number {
 /**
  * Calculate relevance score for a memory entry
  *
- * Scoring factors:
+ * Scoring factors (default weights; projects can tune them, see ranking.ts):
  * - Base relevance (stored relevanceScore): weight 0.4
  * - Recency boost (decays over RECENCY_DECAY_DAYS): weight 0.3
  * - Scope proximity (bead > epic > project): weight 0.2
- * - Kind boost (constraints > decisions > others): weight 0.1
+ * - Kind boost (constraints > decisions > others, or the kind's rankingBoost): weight 0.1
+ *
+ * When the context carries search match scores, the result is blended:
+ * 60% the score above, 40% the entry's text match (textMatchWeight).
  */
 function calculateRelevanceScore(
 	entry: MemoryEntry,
@@ -257,14 +288,17 @@ function calculateRelevanceScore(
 		recencyBoost: number;
 		scopeProximity: number;
 		kindBoost: number;
+		textMatch?: number;
 	};
 } {
 	// 1. Base relevance from stored score
 	const baseRelevance = entry.relevanceScore;
 
-	// 2. Recency boost (1.0 for today, decays over RECENCY_DECAY_DAYS)
+	const ranking = context.ranking ?? DEFAULT_RANKING_CONFIG;
+
+	// 2. Recency boost (1.0 for today, decays over the project's recency window)
 	const daysSinceCreation = getDaysSince(entry.createdAt);
-	const recencyBoost = Math.max(0, 1 - daysSinceCreation / RECENCY_DECAY_DAYS);
+	const recencyBoost = Math.max(0, 1 - daysSinceCreation / ranking.recencyDecayDays);
 
 	// 3. Scope proximity (closer = higher)
 	let scopeProximity = 0.3; // Project level default
@@ -274,22 +308,36 @@ function calculateRelevanceScore(
 		scopeProximity = 0.7; // Epic match
 	}
 
-	// 4. Kind boost (constraints always high)
-	let kindBoost = 0;
-	if (entry.kind === 'constraint') {
-		kindBoost = 0.3;
-	} else if (entry.kind === 'decision') {
-		kindBoost = 0.2;
-	} else if (entry.kind === 'checkpoint') {
-		kindBoost = 0.1;
-	}
+	// 4. Kind boost (constraints always high; project-defined kinds set their own)
+	const kindBoosts: Record<string, number> = context.kindBoosts ?? BUILTIN_KIND_BOOSTS;
+	const kindBoost = kindBoosts[entry.kind] ?? 0;
 
 	// Weighted combination
-	const computedScore =
-		baseRelevance * 0.4 + recencyBoost * 0.3 + scopeProximity * 0.2 + kindBoost * 0.1;
+	const { weights } = ranking;
+	const contextScore =
+		baseRelevance * weights.baseRelevance +
+		recencyBoost * weights.recency +
+		scopeProximity * weights.scopeProximity +
+		kindBoost * weights.kindBoost;
+
+	// 5. Text match from a search (entries the search did not return score 0)
+	if (context.matchScores) {
+		const textMatch = context.matchScores[entry.id] ?? 0;
+		return {
+			computedScore:
+				contextScore * (1 - ranking.textMatchWeight) + textMatch * ranking.textMatchWeight,
+			scoreBreakdown: {
+				baseRelevance,
+				recencyBoost,
+				scopeProximity,
+				kindBoost,
+				textMatch
+			}
+		};
+	}
 
 	return {
-		computedScore,
+		computedScore: contextScore,
 		scoreBreakdown: {
 			baseRelevance,
 			recencyBoost,
@@ -301,12 +349,12 @@ function calculateRelevanceScore(
 
 /**
  * Rank memories by relevance
- * Factors: recency, scope proximity, kind priority
+ * Factors: recency, scope proximity, kind priority (and text match for search hits)
  */
-export function rankMemories(
-	memories: MemoryEntry[],
+export function rankMemories<T extends MemoryEntry>(
+	memories: T[],
 	context: MemoryRankingContext
-): RankedMemory[] {
+): (T & RankedMemory)[] {
 	return memories
 		.map((memory) => {
 			const { computedScore, scoreBreakdown } = calculateRelevanceScore(memory, context);
@@ -331,10 +379,47 @@ function estimateTokens(text: string): number {
 	return Math.ceil(text.length * TOKENS_PER_CHAR);
 }
 
+/**
+ * Fill a kind's brief template
+ * Unknown placeholders render empty; objects in data render as JSON.
+ */
+function renderBriefTemplate(
+	template: string,
+	memory: MemoryEntry,
+	scope: string,
+	date: string
+): string {
+	const fields: Record<string, string> = {
+		title: memory.title,
+		scope,
+		kind: memory.kind,
+		date,
+		content: memory.content
+	};
+
+	const rendered = template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, key: string) => {
+		if (!key.startsWith('data.')) {
+			return fields[key] ?? '';
+		}
+		let value: unknown = memory.data;
+		for (const part of key.slice('data.'.length).split('.')) {
+			value = value && typeof value === 'object' ? (value as Record<string, unknown>)[part] : undefined;
+		}
+		if (value === undefined || value === null) return '';
+		return typeof value === 'object' ? JSON.stringify(value) : String(value);
+	});
+
+	return rendered.endsWith('\n') ? rendered : `${rendered}\n`;
+}
+
 /**
  * Format a memory entry for inclusion in a brief
  */
-function formatMemoryEntry(memory: MemoryEntry, includeScore: boolean = false): string {
+function formatMemoryEntry(
+	memory: MemoryEntry,
+	includeScore: boolean = false,
+	template?: string
+): string {
 	const scope = memory.beadId
 		? `[bead:${memory.beadId}]`
 		: memory.epicId
@@ -343,7 +428,9 @@ function formatMemoryEntry(memory: MemoryEntry, includeScore: boolean = false):
 
 	const date = new Date(memory.createdAt).toLocaleDateString();
 
-	let entry = `### ${memory.title} ${scope}
+	let entry = template
+		? renderBriefTemplate(template, memory, scope, date)
+		: `### ${memory.title} ${scope}
 **${memory.kind}** - ${date}
 ${memory.content}
 `;
@@ -372,6 +459,7 @@ export function buildMemoryBrief(
 	const maxTokens = options?.maxTokens ?? DEFAULT_MEMORY_BRIEF_TOKENS;
 	const prioritizeConstraints = options?.prioritizeConstraints ?? true;
 	const includeScoreBreakdown = options?.includeScoreBreakdown ?? false;
+	const kindTemplates = options?.kindTemplates ?? {};
 
 	const lines: string[] = [];
 	let tokenCount = 0;
@@ -394,32 +482,41 @@ export function buildMemoryBrief(
 		others = memories;
 	}
 
-	// Add constraints first (always included if they fit)
-	for (const constraint of constraints) {
-		const entry = formatMemoryEntry(constraint, includeScoreBreakdown);
-		const entryTokens = estimateTokens(entry);
-
-		if (tokenCount + entryTokens <= maxTokens) {
-			lines.push(entry);
-			tokenCount += entryTokens;
-			includedCount++;
-		} else {
-			truncatedCount++;
-		}
-	}
+	// Constraints first (always included if they fit), then other memories by score
+	const candidates: [MemoryEntry, MemoryBriefEntry['reason']][] = [
+		...constraints.map((m) => [m, 'constraint'] as [MemoryEntry, MemoryBriefEntry['reason']]),
+		...others.map((m) => [m, 'ranked'] as [MemoryEntry, MemoryBriefEntry['reason']])
+	];
+	const entries: MemoryBriefEntry[] = [];
 
-	// Add other memories by score
-	for (const memory of others) {
-		const entry = formatMemoryEntry(memory, includeScoreBreakdown);
+	for (const [memory, reason] of candidates) {
+		const entry = formatMemoryEntry(memory, includeScoreBreakdown, kindTemplates[memory.kind]);
 		const entryTokens = estimateTokens(entry);
+		const fits = tokenCount + entryTokens <= maxTokens;
 
-		if (tokenCount + entryTokens <= maxTokens) {
+		if (fits) {
 			lines.push(entry);
 			tokenCount += entryTokens;
 			includedCount++;
 		} else {
 			truncatedCount++;
 		}
+
+		entries.push({
+			id: memory.id,
+			title: memory.title,
+			kind: memory.kind,
+			scope: memory.beadId ? 'bead' : memory.epicId ? 'epic' : 'project',
+			included: fits,
+			reason: fits ? reason : 'over_budget',
+			tokens: entryTokens,
+			...('computedScore' in memory
+				? {
+						computedScore: (memory as RankedMemory).computedScore,
+						scoreBreakdown: (memory as RankedMemory).scoreBreakdown
+					}
+				: {})
+		});
 	}
 
 	// Footer if truncated
@@ -433,81 +530,382 @@ export function buildMemoryBrief(
 		text: lines.join('\n'),
 		tokenEstimate: Math.ceil(tokenCount),
 		includedCount,
-		truncatedCount
+		truncatedCount,
+		entries
 	};
 }
 
+/**
+ * Build the brief a session for a bead is given: scoped memories ranked with
+ * the project's kinds and ranking settings
+ * Used for injection and for the dry-run preview, so both show the same thing.
+ */
+export function buildBeadMemoryBrief(
+	projectPath: string,
+	options: { projectId: string; beadId: string; epicId?: string; maxTokens?: number }
+): MemoryBrief {
+	const scoped = getScopedMemories(projectPath, {
+		projectId: options.projectId,
+		beadId: options.beadId,
+		epicId: options.epicId
+	});
+
+	// A bead or epic constraint is also an active constraint; include it once
+	const candidates = new Map<string, MemoryEntry>();
+	for (const memory of [...scoped.beadMemories, ...scoped.epicMemories, ...scoped.activeConstraints]) {
+		candidates.set(memory.id, memory);
+	}
+
+	const ranked = rankMemories(
+		[...candidates.values()],
+		{
+			beadId: options.beadId,
+			epicId: options.epicId,
+			kindBoosts: getKindRankingBoosts(projectPath),
+			ranking: loadMemoryRankingConfig(projectPath)
+		}
+	);
+
+	return buildMemoryBrief(ranked, {
+		maxTokens: options.maxTokens,
+		kindTemplates: getKindBriefTemplates(projectPath)
+	});
+}
+
 // ============================================================================
 // Search
 // ============================================================================
 
+/** bm25() column weights: entry_id (unindexed), title, content */
+const BM25_WEIGHTS = '0, 5, 1';
+
+/** Tokens per snippet in full-text results */
+const SNIPPET_TOKENS = 16;
+
+/** Most alternatives a misspelled term is expanded to */
+const MAX_TERM_CORRECTIONS = 3;
+
+/** Minimum cosine similarity for a semantic hit */
+const MIN_SEMANTIC_SIMILARITY = 0.15;
+
+/** Most recent entries compared against the query in semantic mode */
+const MAX_SEMANTIC_CANDIDATES = 2000;
+
+/**
+ * Quote text as an FTS5 string so operators and punctuation lose their meaning
+ */
+function quoteFtsString(text: string): string {
+	return `"${text.replaceAll('"', '""')}"`;
+}
+
 /**
- * Search memories by text query (simple LIKE search)
+ * Translate search box input into an FTS5 MATCH expression
+ *
+ * Supports "exact phrases", OR, AND, NOT / -term and trailing *.
+ * Bare terms match as prefixes so results update while typing. Every term is
+ * quoted before it reaches FTS5, so no input can cause a syntax error.
  *
- * Searches in title and content fields.
+ * @param correct - alternatives for a bare term (typo correction)
+ * @returns null when the input has no terms to match
  */
-export function searchMemories(
-	projectPath: string,
-	query: {
-		projectId: string;
-		searchText: string;
-		beadId?: string;
-		kinds?: MemoryKind[];
-		limit?: number;
-	}
-): MemoryEntry[] {
-	if (!memoryDbExists(projectPath)) {
-		return [];
+export function buildFtsQuery(
+	input: string,
+	correct?: (term: string) => string[]
+): string | null {
+	const parts: string[] = [];
+	const excluded: string[] = [];
+	let pendingOr = false;
+	let negateNext = false;
+
+	for (const raw of input.match(/-?"[^"]*"?|\S+/g) ?? []) {
+		if (raw === 'OR' || raw === '|') {
+			pendingOr = parts.length > 0;
+			continue;
+		}
+		if (raw === 'AND') continue;
+		if (raw === 'NOT') {
+			negateNext = true;
+			continue;
+		}
+
+		let token = raw;
+		let negate = negateNext;
+		negateNext = false;
+		if (token.length > 1 && token.startsWith('-')) {
+			negate = true;
+			token = token.slice(1);
+		}
+
+		let expression: string;
+		if (token.startsWith('"')) {
+			const phrase = token.replace(/^"|"$/g, '').trim();
+			if (!/[\p{L}\p{N}]/u.test(phrase)) continue;
+			expression = quoteFtsString(phrase);
+		} else {
+			const term = token.replace(/\*+$/, '');
+			if (!/[\p{L}\p{N}]/u.test(term)) continue;
+			expression = `${quoteFtsString(term)}*`;
+			const corrections = negate || !correct ? [] : correct(term);
+			if (corrections.length > 0) {
+				expression = `(${[expression, ...corrections.map(quoteFtsString)].join(' OR ')})`;
+			}
+		}
+
+		if (negate) {
+			excluded.push(expression);
+			continue;
+		}
+		if (pendingOr) parts.push('OR');
+		pendingOr = false;
+		parts.push(expression);
 	}
 
-	const db = getMemoryReader(projectPath);
-	const now = new Date().toISOString();
-	const limit = query.limit ?? DEFAULT_MEMORY_LIMIT;
+	if (parts.length === 0) return null;
+	const included = parts.join(' ');
+	return excluded.length > 0 ? `(${included}) NOT ${excluded.join(' NOT ')}` : included;
+}
+
+/**
+ * Levenshtein distance, giving up once it exceeds maxDistance
+ */
+function editDistance(a: string, b: string, maxDistance: number): number {
+	if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+	let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		let rowMin = i;
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+			rowMin = Math.min(rowMin, current[j]);
+		}
+		if (rowMin > maxDistance) return maxDistance + 1;
+		previous = current;
+	}
+	return previous[b.length];
+}
 
-	// Build search pattern
-	const searchPattern = `%${query.searchText}%`;
+/**
+ * Indexed terms close to a term that matches nothing (likely a typo)
+ */
+function findTermCorrections(db: Database.Database, term: string): string[] {
+	const folded = foldText(term);
+	if (folded.length < 3 || !/^[\p{L}\p{N}]+$/u.test(folded)) return [];
+
+	const known = db
+		.prepare('SELECT 1 FROM memory_entries_vocab WHERE term >= ? AND term < ? LIMIT 1')
+		.get(folded, `${folded}\uffff`);
+	if (known) return [];
+
+	// Typos rarely change the first letter; short words get one edit, longer ones two
+	const maxDistance = folded.length <= 4 ? 1 : 2;
+	const candidates = db
+		.prepare(
+			`
+      SELECT term, doc FROM memory_entries_vocab
+      WHERE term >= ? AND term < ?
+        AND length(term) BETWEEN ? AND ?
+    `
+		)
+		.all(
+			folded[0],
+			`${folded[0]}\uffff`,
+			folded.length - maxDistance,
+			folded.length + maxDistance
+		) as { term: string; doc: number }[];
+
+	return candidates
+		.map((c) => ({ ...c, distance: editDistance(folded, c.term, maxDistance) }))
+		.filter((c) => c.distance <= maxDistance)
+		.sort((a, b) => a.distance - b.distance || b.doc - a.doc)
+		.slice(0, MAX_TERM_CORRECTIONS)
+		.map((c) => c.term);
+}
 
-	const conditions: string[] = [
-		'project_id = ?',
-		'deleted_at IS NULL',
-		'(expires_at IS NULL OR expires_at > ?)',
-		'(title LIKE ? OR content LIKE ?)'
+/**
+ * WHERE conditions shared by both search modes
+ */
+function buildSearchFilter(
+	query: MemorySearchQuery,
+	column: (name: string) => string
+): { conditions: string[]; params: (string | number)[] } {
+	const conditions = [
+		`${column('project_id')} = ?`,
+		`${column('deleted_at')} IS NULL`,
+		notSuperseded(column('id'))
 	];
-	const params: (string | number)[] = [query.projectId, now, searchPattern, searchPattern];
+	const params: (string | number)[] = [query.projectId];
 
-	// Bead filter
+	if (!query.includeExpired) {
+		conditions.push(`(${column('expires_at')} IS NULL OR ${column('expires_at')} > ?)`);
+		params.push(new Date().toISOString());
+	}
 	if (query.beadId) {
-		conditions.push('bead_id = ?');
+		conditions.push(`${column('bead_id')} = ?`);
 		params.push(query.beadId);
 	}
-
-	// Kind filter
+	if (query.epicId) {
+		conditions.push(`${column('epic_id')} = ?`);
+		params.push(query.epicId);
+	}
 	if (query.kinds && query.kinds.length > 0) {
-		const placeholders = query.kinds.map(() => '?').join(', ');
-		conditions.push(`kind IN (${placeholders})`);
+		conditions.push(`${column('kind')} IN (${query.kinds.map(() => '?').join(', ')})`);
 		params.push(...query.kinds);
 	}
 
-	params.push(limit);
+	return { conditions, params };
+}
+
+/**
+ * Full-text search over the FTS5 index, ranked by BM25
+ */
+function searchFulltext(
+	projectPath: string,
+	query: MemorySearchQuery,
+	limit: number
+): MemorySearchHit[] {
+	const db = getMemoryReader(projectPath);
+	const match = buildFtsQuery(query.query, (term) => findTermCorrections(db, term));
+	if (!match) return [];
+
+	const { conditions, params } = buildSearchFilter(query, (name) => `e.${name}`);
+	const rows = db
+		.prepare(
+			`
+      SELECT e.*,
+        bm25(memory_entries_fts, ${BM25_WEIGHTS}) AS match_rank,
+        highlight(memory_entries_fts, 1, ?, ?) AS title_highlight,
+        snippet(memory_entries_fts, 2, ?, ?, ?, ${SNIPPET_TOKENS}) AS snippet
+      FROM memory_entries_fts
+      JOIN memory_entries e ON e.id = memory_entries_fts.entry_id
+      WHERE memory_entries_fts MATCH ?
+        AND ${conditions.join(' AND ')}
+      ORDER BY match_rank
+      LIMIT ?
+    `
+		)
+		.all(
+			HIGHLIGHT_START,
+			HIGHLIGHT_END,
+			HIGHLIGHT_START,
+			HIGHLIGHT_END,
+			SNIPPET_ELLIPSIS,
+			match,
+			...params,
+			limit
+		) as (MemoryEntryRow & { match_rank: number; title_highlight: string; snippet: string })[];
+
+	// bm25() is negative (lower is better); scale so the best hit scores 1
+	const best = rows.length > 0 ? -rows[0].match_rank : 0;
+	return rows.map((row) => ({
+		...rowToEntry(row),
+		matchScore: best > 0 ? -row.match_rank / best : 1,
+		titleHighlight: row.title_highlight,
+		snippet: row.snippet
+	}));
+}
+
+/**
+ * Semantic search by cosine similarity of local embeddings
+ * Entry vectors are computed on first use and cached in memory_embeddings.
+ */
+function searchSemantic(
+	projectPath: string,
+	query: MemorySearchQuery,
+	limit: number
+): MemorySearchHit[] {
+	const provider = getEmbeddingProvider();
+	const queryVector = provider.embed(query.query);
+	if (queryVector.every((value) => value === 0)) return [];
 
+	const db = getMemoryReader(projectPath);
+	const { conditions, params } = buildSearchFilter(query, (name) => name);
 	const rows = db
 		.prepare(
 			`
       SELECT * FROM memory_entries
       WHERE ${conditions.join(' AND ')}
-      ORDER BY relevance_score DESC, created_at DESC
+      ORDER BY created_at DESC
       LIMIT ?
     `
 		)
-		.all(...params) as MemoryEntryRow[];
+		.all(...params, MAX_SEMANTIC_CANDIDATES) as MemoryEntryRow[];
+
+	const vectors = getCachedEmbeddings(
+		projectPath,
+		provider.id,
+		rows.map((row) => row.id)
+	);
+	const computed = new Map<string, Float32Array>();
+	for (const row of rows) {
+		if (!vectors.has(row.id)) {
+			const vector = provider.embed(`${row.title}\n${row.content}`);
+			computed.set(row.id, vector);
+			vectors.set(row.id, vector);
+		}
+	}
+	saveEmbeddings(projectPath, provider.id, computed);
+
+	const terms = tokenizeForEmbedding(query.query);
+	return rows
+		.map((row) => ({ row, similarity: cosineSimilarity(queryVector, vectors.get(row.id)!) }))
+		.filter(({ similarity }) => similarity >= MIN_SEMANTIC_SIMILARITY)
+		.sort((a, b) => b.similarity - a.similarity)
+		.slice(0, limit)
+		.map(({ row, similarity }) => ({
+			...rowToEntry(row),
+			matchScore: similarity,
+			titleHighlight: highlightTerms(row.title, terms),
+			snippet: buildSnippet(row.content, terms)
+		}));
+}
 
-	return rows.map(rowToEntry);
+/**
+ * Search memories by text
+ *
+ * Full-text mode (default) ranks by BM25 over titles and content and corrects
+ * misspelled terms; semantic mode compares local embeddings. Results carry a
+ * normalized matchScore, a highlighted title and a snippet.
+ */
+export function searchMemories(projectPath: string, query: MemorySearchQuery): MemorySearchHit[] {
+	if (!memoryDbExists(projectPath) || !query.query.trim()) {
+		return [];
+	}
+
+	// Opening the writer creates the search index on databases that predate it
+	getMemoryWriter(projectPath);
+
+	const limit = Math.min(query.limit ?? DEFAULT_MEMORY_LIMIT, MAX_MEMORY_LIMIT);
+	return query.mode === 'semantic'
+		? searchSemantic(projectPath, query, limit)
+		: searchFulltext(projectPath, query, limit);
+}
+
+/**
+ * Rank search hits, blending their text match into the relevance score
+ */
+export function rankSearchHits(
+	hits: MemorySearchHit[],
+	context: MemoryRankingContext = {}
+): (MemorySearchHit & RankedMemory)[] {
+	const matchScores = Object.fromEntries(hits.map((hit) => [hit.id, hit.matchScore]));
+	return rankMemories(hits, { ...context, matchScores });
 }
 
 // ============================================================================
 // Helpers
 // ============================================================================
 
+/**
+ * SQL condition excluding entries replaced by an active newer decision
+ */
+function notSuperseded(idColumn: string): string {
+	return `${idColumn} NOT IN (
+    SELECT supersedes FROM memory_entries WHERE supersedes IS NOT NULL AND deleted_at IS NULL
+  )`;
+}
+
 /**
  * Convert a database row to a MemoryEntry object
  * (Duplicated from db.ts to avoid circular dependency)
@@ -529,6 +927,7 @@ function rowToEntry(row: MemoryEntryRow): MemoryEntry {
 		relevanceScore: row.relevance_score,
 		expiresAt: row.expires_at ?? undefined,
 		deletedAt: row.deleted_at ?? undefined,
-		createdAt: row.created_at
+		createdAt: row.created_at,
+		supersedes: row.supersedes ?? undefined
 	};
 }
@@ -0,0 +1,112 @@
+/**
+ * Constraints Snapshot
+ *
+ * Mirrors a project's active constraints into .beads/memory-constraints.json
+ * so they can be reviewed in PRs and travel with the repository, like
+ * intent-links.json. memory.db itself is binary and stays out of git.
+ *
+ * The snapshot is opt-in: it exists only once enabled, and is then rewritten
+ * whenever constraints change. Entries are sorted and carry no generation
+ * timestamp, so rewriting an unchanged set produces no diff.
+ */
+
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import type { ConstraintsSnapshot, MemoryEntry } from './types';
+import { MEMORY_EXPORT_VERSION } from './types';
+
+/**
+ * Get the path to the constraints snapshot for a project
+ */
+export function getConstraintsSnapshotPath(projectPath: string): string {
+	return join(projectPath, '.beads', 'memory-constraints.json');
+}
+
+/**
+ * Whether the project keeps a constraints snapshot
+ */
+export function isConstraintsSnapshotEnabled(projectPath: string): boolean {
+	return existsSync(getConstraintsSnapshotPath(projectPath));
+}
+
+/**
+ * Build the snapshot document, ordered by scope then creation time
+ */
+export function buildConstraintsSnapshot(constraints: MemoryEntry[]): ConstraintsSnapshot {
+	const scopeKey = (e: MemoryEntry) => `${e.beadId ?? ''}|${e.epicId ?? ''}`;
+	const sorted = [...constraints].sort(
+		(a, b) =>
+			scopeKey(a).localeCompare(scopeKey(b)) ||
+			a.createdAt.localeCompare(b.createdAt) ||
+			a.id.localeCompare(b.id)
+	);
+
+	return {
+		version: MEMORY_EXPORT_VERSION,
+		constraints: sorted.map((e) => ({
+			id: e.id,
+			title: e.title,
+			content: e.content,
+			beadId: e.beadId,
+			epicId: e.epicId,
+			intentAnchors: e.intentAnchors,
+			expiresAt: e.expiresAt,
+			createdAt: e.createdAt
+		}))
+	};
+}
+
+/**
+ * Write the snapshot if its content changed
+ * @returns true if the file was written
+ */
+export function writeConstraintsSnapshot(projectPath: string, constraints: MemoryEntry[]): boolean {
+	const snapshotPath = getConstraintsSnapshotPath(projectPath);
+	const content = `${JSON.stringify(buildConstraintsSnapshot(constraints), null, 2)}\n`;
+
+	if (existsSync(snapshotPath) && readFileSync(snapshotPath, 'utf-8') === content) {
+		return false;
+	}
+
+	const dir = dirname(snapshotPath);
+	if (!existsSync(dir)) {
+		mkdirSync(dir, { recursive: true });
+	}
+	writeFileSync(snapshotPath, content, 'utf-8');
+	return true;
+}
+
+/**
+ * Read the snapshot; null if missing or malformed
+ */
+export function readConstraintsSnapshot(projectPath: string): ConstraintsSnapshot | null {
+	const snapshotPath = getConstraintsSnapshotPath(projectPath);
+	if (!existsSync(snapshotPath)) {
+		return null;
+	}
+
+	try {
+		const data = JSON.parse(readFileSync(snapshotPath, 'utf-8')) as ConstraintsSnapshot;
+		if (typeof data.version !== 'number' || !Array.isArray(data.constraints)) {
+			console.error('Invalid memory-constraints.json structure, ignoring');
+			return null;
+		}
+		return data;
+	} catch (e) {
+		console.error('Failed to read constraints snapshot:', e);
+		return null;
+	}
+}
+
+/**
+ * Stop keeping a snapshot by removing the file
+ * @returns true if a snapshot was removed
+ */
+export function disableConstraintsSnapshot(projectPath: string): boolean {
+	const snapshotPath = getConstraintsSnapshotPath(projectPath);
+	if (!existsSync(snapshotPath)) {
+		return false;
+	}
+	unlinkSync(snapshotPath);
+	return true;
+}
@@ -21,7 +21,7 @@
 // ============================================================================
 
 /**
- * Types of memory entries
+ * Built-in types of memory entries
  *
  * Each kind has specific semantics for retrieval and display:
  * - decision: Architectural or implementation decisions with rationale
@@ -31,7 +31,7 @@
  * - action_report: Quick action execution results
  * - ci_note: CI/CD related notes and observations
  */
-export type MemoryKind =
+export type BuiltinMemoryKind =
 	| 'decision'
 	| 'checkpoint'
 	| 'constraint'
@@ -40,9 +40,16 @@ export type MemoryKind =
 	| 'ci_note';
 
 /**
- * Array of all valid memory kinds for validation
+ * Type of a memory entry: a built-in kind or one defined by the project in
+ * .beads/memory-kinds.json (see MemoryKindDefinition)
  */
-export const MEMORY_KINDS: readonly MemoryKind[] = [
+export type MemoryKind = BuiltinMemoryKind | (string & {});
+
+/**
+ * Array of all built-in memory kinds
+ * Project-defined kinds come from getMemoryKindRegistry() in memory/kinds.ts.
+ */
+export const MEMORY_KINDS: readonly BuiltinMemoryKind[] = [
 	'decision',
 	'checkpoint',
 	'constraint',
@@ -51,6 +58,103 @@ export const MEMORY_KINDS: readonly MemoryKind[] = [
 	'ci_note'
 ] as const;
 
+// ============================================================================
+// Memory Kind Definitions (project-defined kinds)
+// ============================================================================
+
+/**
+ * The subset of JSON Schema used to validate an entry's `data`
+ */
+export interface MemoryDataSchema {
+	type?: MemoryDataSchemaType | MemoryDataSchemaType[];
+	description?: string;
+
+	/** Object keywords */
+	properties?: Record<string, MemoryDataSchema>;
+	required?: string[];
+	additionalProperties?: boolean | MemoryDataSchema;
+
+	/** Array keywords */
+	items?: MemoryDataSchema;
+	minItems?: number;
+	maxItems?: number;
+
+	/** Value keywords */
+	enum?: unknown[];
+	minLength?: number;
+	maxLength?: number;
+	pattern?: string;
+	minimum?: number;
+	maximum?: number;
+}
+
+export type MemoryDataSchemaType =
+	| 'object'
+	| 'array'
+	| 'string'
+	| 'number'
+	| 'integer'
+	| 'boolean'
+	| 'null';
+
+/**
+ * How a memory kind is validated, retained, ranked and rendered
+ */
+export interface MemoryKindDefinition {
+	/** Kind name stored in memory_entries.kind (lowercase, e.g. "api_contract") */
+	name: MemoryKind;
+
+	/** Display label */
+	label: string;
+
+	/** What entries of this kind record (shown to agents) */
+	description?: string;
+
+	/** Schema for the entry's `data`; when set, data is required */
+	dataSchema?: MemoryDataSchema;
+
+	/** Days until new entries expire (null = never), like DEFAULT_RETENTION_DAYS */
+	retentionDays: number | null;
+
+	/** Kind boost used in ranking (0-1) */
+	rankingBoost: number;
+
+	/**
+	 * Markdown for the entry in memory briefs
+	 * Placeholders: {{title}}, {{scope}}, {{kind}}, {{date}}, {{content}}
+	 * and {{data.path.to.field}}
+	 */
+	briefTemplate?: string;
+
+	/** Built-in kinds cannot be redefined */
+	builtin: boolean;
+}
+
+/**
+ * Contents of .beads/memory-kinds.json (git-tracked)
+ */
+export interface MemoryKindsFile {
+	version: number;
+	kinds: MemoryKindConfig[];
+}
+
+/**
+ * A project-defined kind as written in memory-kinds.json
+ * label, retentionDays and rankingBoost fall back to defaults when omitted.
+ */
+export type MemoryKindConfig = Pick<MemoryKindDefinition, 'name'> &
+	Partial<Omit<MemoryKindDefinition, 'name' | 'builtin'>>;
+
+/**
+ * Valid names for project-defined kinds
+ */
+export const MEMORY_KIND_NAME_PATTERN = /^[a-z][a-z0-9_]{1,39}$/;
+
+/**
+ * Schema version for memory-kinds.json
+ */
+export const MEMORY_KINDS_FILE_VERSION = 1;
+
 // ============================================================================
 // Core Memory Entry Types
 // ============================================================================
@@ -110,6 +214,9 @@ export interface MemoryEntry {
 
 	/** ISO 8601 timestamp when this entry was created */
 	createdAt: string;
+
+	/** ID of an earlier decision this decision replaces (hidden from retrieval) */
+	supersedes?: string;
 }
 
 /**
@@ -156,6 +263,9 @@ export interface CreateMemoryEntry {
 
 	/** Expiration timestamp (ISO 8601) */
 	expiresAt?: string;
+
+	/** ID of an earlier decision this one replaces (decisions only) */
+	supersedes?: string;
 }
 
 // ============================================================================
@@ -230,6 +340,38 @@ export interface MemorySearchQuery {
 
 	/** Maximum results (default: 20, max: 100) */
 	limit?: number;
+
+	/** Matching strategy (default: 'fulltext') */
+	mode?: MemorySearchMode;
+}
+
+/**
+ * How a search matches entries
+ * - fulltext: FTS5 index with BM25 ranking, typo-tolerant
+ * - semantic: similarity of locally computed embeddings (no network)
+ */
+export type MemorySearchMode = 'fulltext' | 'semantic';
+
+/**
+ * Array of all valid search modes for validation
+ */
+export const MEMORY_SEARCH_MODES: readonly MemorySearchMode[] = ['fulltext', 'semantic'] as const;
+
+/**
+ * A memory entry returned by a search, with match details
+ *
+ * titleHighlight and snippet wrap matched terms in HIGHLIGHT_START /
+ * HIGHLIGHT_END markers (see highlight.ts).
+ */
+export interface MemorySearchHit extends MemoryEntry {
+	/** Strength of the text match, 0-1 (higher is a closer match) */
+	matchScore: number;
+
+	/** Title with matched terms marked */
+	titleHighlight: string;
+
+	/** Excerpt of the content around the best match, with matched terms marked */
+	snippet: string;
 }
 
 // ============================================================================
@@ -245,7 +387,10 @@ export interface RankedMemory extends MemoryEntry {
 	/** Final computed score for ranking */
 	computedScore: number;
 
-	/** Breakdown of scoring factors for debugging/display */
+	/**
+	 * Breakdown of scoring factors for debugging/display
+	 * Weights shown are the defaults; see MemoryRankingConfig.
+	 */
 	scoreBreakdown: {
 		/** Score from stored relevanceScore (weight: 0.4) */
 		baseRelevance: number;
@@ -258,9 +403,46 @@ export interface RankedMemory extends MemoryEntry {
 
 		/** Score boost for kind (constraints +0.3, decisions +0.2, weight: 0.1) */
 		kindBoost: number;
+
+		/** Text match score when ranking search results (weight: 0.4 of the final score) */
+		textMatch?: number;
 	};
 }
 
+/**
+ * Relative weights of the ranking factors
+ */
+export interface MemoryRankingWeights {
+	baseRelevance: number;
+	recency: number;
+	scopeProximity: number;
+	kindBoost: number;
+}
+
+/**
+ * Contents of .beads/memory-ranking.json: overrides of DEFAULT_RANKING_CONFIG
+ */
+export interface MemoryRankingFile {
+	version: number;
+	weights?: Partial<MemoryRankingWeights>;
+	recencyDecayDays?: number;
+	textMatchWeight?: number;
+}
+
+/**
+ * Resolved ranking settings for a project
+ */
+export interface MemoryRankingConfig {
+	/** Factor weights; custom weights are normalized to sum to 1 */
+	weights: MemoryRankingWeights;
+
+	/** Days over which the recency boost decays to 0 */
+	recencyDecayDays: number;
+
+	/** Share of a search hit's score that comes from the text match (0-1) */
+	textMatchWeight: number;
+}
+
 /**
  * Context for ranking memories
  */
@@ -273,6 +455,15 @@ export interface MemoryRankingContext {
 
 	/** Kinds to prioritize in ranking */
 	kinds?: MemoryKind[];
+
+	/** Text match scores (0-1) by entry ID, from a search */
+	matchScores?: Record<string, number>;
+
+	/** Kind boosts including project-defined kinds (default: BUILTIN_KIND_BOOSTS) */
+	kindBoosts?: Record<string, number>;
+
+	/** Project ranking settings (default: DEFAULT_RANKING_CONFIG) */
+	ranking?: MemoryRankingConfig;
 }
 
 // ============================================================================
@@ -296,8 +487,94 @@ export interface MemoryBrief {
 
 	/** Number of entries truncated due to token budget */
 	truncatedCount: number;
+
+	/** Why each candidate was included or left out, in brief order */
+	entries?: MemoryBriefEntry[];
+}
+
+/**
+ * A candidate memory's outcome in a brief ("why was this included")
+ */
+export interface MemoryBriefEntry {
+	id: string;
+	title: string;
+	kind: MemoryKind;
+	scope: 'bead' | 'epic' | 'project';
+	included: boolean;
+
+	/**
+	 * - constraint: included first because constraints are prioritized
+	 * - ranked: included in score order
+	 * - over_budget: left out because it did not fit the token budget
+	 */
+	reason: 'constraint' | 'ranked' | 'over_budget';
+
+	/** Estimated tokens the entry takes in the brief */
+	tokens: number;
+
+	/** Present when the brief was built from ranked memories */
+	computedScore?: number;
+	scoreBreakdown?: RankedMemory['scoreBreakdown'];
+}
+
+/**
+ * What a session for a bead would be given (dry run of brief injection)
+ */
+export interface MemoryBriefPreview {
+	beadId: string;
+	epicId?: string;
+	maxTokens: number;
+	brief: MemoryBrief;
+
+	/** Ranking settings the brief was built with */
+	ranking: MemoryRankingConfig;
+
+	/** Feedback received so far, by entry ID */
+	feedback: Record<string, MemoryFeedbackSummary>;
+}
+
+// ============================================================================
+// Feedback Types
+// ============================================================================
+
+/**
+ * "Useful / not useful" feedback on a memory shown in a brief
+ */
+export interface MemoryFeedbackInput {
+	projectId: string;
+	entryId: string;
+	useful: boolean;
+
+	/** Bead whose brief showed the memory */
+	beadId?: string;
+	sessionId?: string;
+	actor?: string;
+}
+
+/**
+ * Outcome of recording feedback
+ */
+export interface MemoryFeedbackResult {
+	id: string;
+	entryId: string;
+	useful: boolean;
+	previousScore: number;
+	relevanceScore: number;
+}
+
+/**
+ * Feedback counts for an entry
+ */
+export interface MemoryFeedbackSummary {
+	useful: number;
+	notUseful: number;
 }
 
+/**
+ * How far one piece of feedback moves relevance_score toward 1 (useful) or 0
+ */
+export const FEEDBACK_SCORE_STEP = 0.1;
+
 /**
  * Options for building a memory brief
  */
@@ -310,6 +587,9 @@ export interface MemoryBriefOptions {
 
 	/** Include score breakdown in output (default: false) */
 	includeScoreBreakdown?: boolean;
+
+	/** Brief templates of project-defined kinds, by kind name */
+	kindTemplates?: Record<string, string>;
 }
 
 // ============================================================================
@@ -370,6 +650,9 @@ export interface ActionExecutionRecord {
 	/** Claude chat ID (required) */
 	chatId: string;
 
+	/** True when this records a dry-run preview (nothing was executed) */
+	dryRun?: boolean;
+
 	/** Tracking for "Send to Claude" feature */
 	sentToChat?: {
 		/** How the result was sent */
@@ -423,6 +706,20 @@ export interface ScopedMemoryResponse extends ScopedMemoryResult {
 	brief: MemoryBrief;
 }
 
+/**
+ * Response from GET /api/projects/[id]/memory/search
+ */
+export interface MemorySearchResponse {
+	/** Query as given */
+	query: string;
+
+	/** Mode the search ran in */
+	mode: MemorySearchMode;
+
+	/** Hits ordered by blended relevance */
+	results: (MemorySearchHit & RankedMemory)[];
+}
+
 /**
  * Response from DELETE /api/projects/[id]/memory/[memId]
  */
@@ -620,8 +917,250 @@ export interface MemoryEntryRow {
 	expires_at: string | null;
 	deleted_at: string | null;
 	created_at: string;
+	supersedes: string | null;
 }
 
+// ============================================================================
+// Consolidation Types
+// ============================================================================
+
+/**
+ * Kinds of consolidation step recorded in the audit trail
+ * - dedupe: near-identical entries in one scope merged into the newest
+ * - rollup: a closed bead's checkpoints replaced by one summary entry
+ * - supersede: a decision explicitly replaced by a newer one
+ */
+export type ConsolidationActionType = 'dedupe' | 'rollup' | 'supersede';
+
+/**
+ * A proposed consolidation step (dedupe or rollup)
+ */
+export interface ConsolidationAction {
+	/** Stable ID derived from the entries involved, used to pick actions to apply */
+	id: string;
+
+	type: Exclude<ConsolidationActionType, 'supersede'>;
+
+	/** Kind of the entries involved */
+	kind: MemoryKind;
+
+	/** Scope of the entries involved */
+	beadId?: string;
+	epicId?: string;
+
+	/** Entry that stays (dedupe only) */
+	keepId?: string;
+
+	/** Title of the entry that stays, or of the summary to create */
+	keepTitle: string;
+
+	/** Entries to soft-delete */
+	sources: Pick<MemoryEntry, 'id' | 'title' | 'createdAt'>[];
+
+	/** Summary entry to create (rollup only) */
+	summary?: {
+		title: string;
+		content: string;
+	};
+
+	/** Human-readable explanation */
+	reason: string;
+
+	/** Estimated tokens no longer competing for the memory brief budget */
+	tokensSaved: number;
+}
+
+/**
+ * Preview of a consolidation run
+ */
+export interface ConsolidationPlan {
+	projectId: string;
+
+	/** ISO 8601 timestamp when the plan was computed */
+	generatedAt: string;
+
+	/** Active entries considered */
+	entryCount: number;
+
+	actions: ConsolidationAction[];
+
+	/** Sum of tokensSaved over all actions */
+	tokensSaved: number;
+}
+
+/**
+ * Outcome of applying a consolidation plan
+ */
+export interface ConsolidationResult {
+	/** Groups the audit trail rows written by this run */
+	runId: string;
+
+	/** Actions applied */
+	applied: ConsolidationAction[];
+
+	/** Entries soft-deleted */
+	removedCount: number;
+
+	/** Summary entries created */
+	createdIds: string[];
+}
+
+/**
+ * A row of the consolidation audit trail
+ */
+export interface ConsolidationLogEntry {
+	id: string;
+	runId: string;
+	projectId: string;
+	action: ConsolidationActionType;
+
+	/** Entry kept, created (rollup) or superseding */
+	keptEntryId?: string;
+
+	/** Entries merged, rolled up or superseded */
+	sourceEntryIds: string[];
+
+	reason: string;
+
+	/** Who applied the change (agent name or 'user') */
+	actor?: string;
+
+	createdAt: string;
+}
+
+/**
+ * Raw database row for the consolidation audit trail
+ */
+export interface ConsolidationLogRow {
+	id: string;
+	run_id: string;
+	project_id: string;
+	action: string;
+	kept_entry_id: string | null;
+	source_entry_ids: string;
+	reason: string;
+	actor: string | null;
+	created_at: string;
+}
+
+/**
+ * Response from GET /api/projects/[id]/memory/consolidate
+ */
+export interface ConsolidationPreviewResponse {
+	plan: ConsolidationPlan;
+
+	/** Recent audit trail entries */
+	history: ConsolidationLogEntry[];
+}
+
+// ============================================================================
+// Export / Import Types
+// ============================================================================
+
+/**
+ * File formats for memory export and import
+ * - jsonl: a header line, then one entry per line (stable order, diff-friendly)
+ * - markdown: readable sections with the entry metadata in HTML comments
+ */
+export type MemoryExportFormat = 'jsonl' | 'markdown';
+
+/**
+ * Array of all valid export formats for validation
+ */
+export const MEMORY_EXPORT_FORMATS: readonly MemoryExportFormat[] = ['jsonl', 'markdown'] as const;
+
+/**
+ * Scope filters for an export
+ */
+export interface MemoryExportOptions {
+	projectId: string;
+	format: MemoryExportFormat;
+	beadId?: string;
+	epicId?: string;
+	kinds?: MemoryKind[];
+
+	/** Only entries created at or after this ISO 8601 date/time */
+	since?: string;
+
+	/** Only entries created at or before this ISO 8601 date/time (a bare date includes the whole day) */
+	until?: string;
+
+	/** Include soft-deleted entries, so deletions carry over (default: false) */
+	includeDeleted?: boolean;
+
+	/** Include expired entries (default: false) */
+	includeExpired?: boolean;
+}
+
+/**
+ * How an import resolves an entry whose ID exists locally with different content
+ */
+export type MemoryConflictStrategy = 'keep-local' | 'take-incoming';
+
+/**
+ * Options for importing memory entries
+ */
+export interface MemoryImportOptions {
+	/** Detected from the content when omitted */
+	format?: MemoryExportFormat;
+
+	/** Default: keep-local */
+	onConflict?: MemoryConflictStrategy;
+
+	/** Report what would change without writing */
+	dryRun?: boolean;
+}
+
+/**
+ * An entry whose incoming version differs from the local one
+ */
+export interface MemoryImportConflict {
+	id: string;
+	title: string;
+
+	/** Fields that differ */
+	fields: string[];
+
+	resolution: MemoryConflictStrategy;
+}
+
+/**
+ * Outcome of an import
+ */
+export interface MemoryImportResult {
+	/** New entries added */
+	inserted: number;
+
+	/** Existing entries changed (incoming deletions or take-incoming conflicts) */
+	updated: number;
+
+	/** Entries already identical locally */
+	unchanged: number;
+
+	conflicts: MemoryImportConflict[];
+
+	/** Lines or sections that could not be read */
+	errors: { line: number; message: string }[];
+
+	dryRun: boolean;
+}
+
+/**
+ * Git-trackable snapshot of active constraints (.beads/memory-constraints.json)
+ */
+export interface ConstraintsSnapshot {
+	version: number;
+	constraints: Pick<
+		MemoryEntry,
+		'id' | 'title' | 'content' | 'beadId' | 'epicId' | 'intentAnchors' | 'expiresAt' | 'createdAt'
+	>[];
+}
+
+/**
+ * Schema version for export files and the constraints snapshot
+ */
+export const MEMORY_EXPORT_VERSION = 1;
+
 // ============================================================================
 // Cleanup Types
 // ============================================================================
@@ -640,7 +1179,7 @@ export interface MemoryCleanupResult {
 /**
  * Default retention periods by memory kind (in days)
  */
-export const DEFAULT_RETENTION_DAYS: Record<MemoryKind, number | null> = {
+export const DEFAULT_RETENTION_DAYS: Record<BuiltinMemoryKind, number | null> = {
 	constraint: null, // Never expires
 	decision: 90,
 	checkpoint: 30,
@@ -649,6 +1188,19 @@ export const DEFAULT_RETENTION_DAYS: Record<MemoryKind, number | null> = {
 	ci_note: 30
 } as const;
 
+/**
+ * Ranking boosts of the built-in kinds (constraints > decisions > checkpoints)
+ * Project-defined kinds set their own with rankingBoost.
+ */
+export const BUILTIN_KIND_BOOSTS: Record<BuiltinMemoryKind, number> = {
+	constraint: 0.3,
+	decision: 0.2,
+	checkpoint: 0.1,
+	next_step: 0,
+	action_report: 0,
+	ci_note: 0
+} as const;
+
 // ============================================================================
 // Constants
 // ============================================================================
@@ -689,10 +1241,19 @@ export const DEFAULT_MEMORY_LIMIT = 50;
 export const MAX_MEMORY_LIMIT = 100;
 
 /**
- * Number of days for recency decay in ranking
+ * Number of days for recency decay in ranking (default; see MemoryRankingConfig)
  */
 export const RECENCY_DECAY_DAYS = 30;
 
+/**
+ * Default ranking settings
+ */
+export const DEFAULT_RANKING_CONFIG: MemoryRankingConfig = {
+	weights: { baseRelevance: 0.4, recency: 0.3, scopeProximity: 0.2, kindBoost: 0.1 },
+	recencyDecayDays: RECENCY_DECAY_DAYS,
+	textMatchWeight: 0.4
+};
+
 /**
  * Days to keep soft-deleted entries before hard delete
  */
@@ -701,4 +1262,4 @@ export const SOFT_DELETE_RETENTION_DAYS = 30;
 /**
  * Schema version for memory database
  */
-export const MEMORY_SCHEMA_VERSION = 1;
+export const MEMORY_SCHEMA_VERSION = 2;
@@ -7,12 +7,17 @@
  */
 
 export interface NotificationRequest {
-	type: 'awaiting_input' | 'completed' | 'failed';
+	type: 'awaiting_input' | 'completed' | 'failed' | 'stale_warning' | 'stale_critical';
 	title: string;
 	body: string;
-	taskRunId: string;
+	taskRunId?: string;
 	projectId: string;
 	issueId: string;
+	// One-click fix offered with the notification (stale beads only)
+	remediation?: {
+		action: string;
+		label: string;
+	};
 }
 
 // Notification queue - clients poll this to know when to show notifications
@@ -97,3 +102,25 @@ export function notifyTaskCompleted(params: {
 		issueId: params.issueId
 	});
 }
+
+/**
+ * Helper to create stale bead notification
+ */
+export function notifyStaleBead(params: {
+	projectId: string;
+	projectName: string;
+	issueId: string;
+	issueTitle: string;
+	level: 'warning' | 'critical';
+	message: string;
+	remediation?: { action: string; label: string };
+}): void {
+	queueNotification({
+		type: params.level === 'critical' ? 'stale_critical' : 'stale_warning',
+		title: params.level === 'critical' ? 'Bead is critically stale' : 'Bead is going stale',
+		body: `${params.projectName}: ${params.issueTitle} - ${params.message}`,
+		projectId: params.projectId,
+		issueId: params.issueId,
+		remediation: params.remediation
+	});
+}
@@ -0,0 +1,308 @@
+/**
+ * Project Change Feed
+ *
+ * One shared feed per project replaces per-connection polling of the project
+ * stream. Each feed runs a single adaptive poller on the project's beads.db,
+ * diffs the issue list against its last snapshot, and publishes added, changed
+ * and removed issues as numbered deltas.
+ *
+ * Recent deltas are kept so a reconnecting client can resume from the last
+ * sequence number it saw. Sequence numbers are scoped to a feed epoch, which
+ * changes when the feed is recreated (e.g. after a server restart), so a stale
+ * cursor always falls back to a full snapshot.
+ */
+
+import { randomUUID } from 'crypto';
+import { createAdaptivePoller, DEFAULT_POLLER_CONFIG, type PollerConfig } from './db-poller';
+import { getAllIssues, getDataVersion, getRecentEvents, refreshProjectDb } from './project-db';
+import type { Event, Issue } from './types';
+
+/** Deltas kept per project for reconnect replay */
+const MAX_HISTORY = 200;
+
+/** How long a feed without subscribers keeps its snapshot for reconnects */
+const IDLE_RETENTION_MS = 5 * 60 * 1000;
+
+/** Events fetched per change */
+const EVENTS_PER_DELTA = 50;
+
+export interface IssueDelta {
+	seq: number;
+	added: Issue[];
+	changed: Issue[];
+	removed: string[];
+	events: Event[];
+	dataVersion: number;
+}
+
+export interface IssueSnapshotDiff {
+	added: Issue[];
+	changed: Issue[];
+	removed: string[];
+}
+
+/**
+ * What a new subscriber starts from: either the full issue list or the deltas
+ * it missed since its cursor
+ */
+export type FeedResume =
+	| { kind: 'snapshot'; issues: Issue[]; seq: number; dataVersion: number }
+	| { kind: 'replay'; deltas: IssueDelta[] };
+
+export type FeedListener = (delta: IssueDelta) => void;
+
+export interface FeedSubscription {
+	epoch: string;
+	resume: FeedResume;
+	unsubscribe: () => void;
+}
+
+interface SnapshotEntry {
+	issue: Issue;
+	serialized: string;
+}
+
+/** Issues by id, with their serialized form for comparison */
+export type IssueSnapshot = Map<string, SnapshotEntry>;
+
+interface ProjectFeed {
+	projectPath: string;
+	epoch: string;
+	seq: number;
+	dataVersion: number;
+	snapshot: IssueSnapshot;
+	history: IssueDelta[];
+	listeners: Set<FeedListener>;
+	lastEventTime: string;
+	poller: ReturnType<typeof createAdaptivePoller>;
+	idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+const feeds = new Map<string, ProjectFeed>();
+
+// ============================================================================
+// Snapshot Diffing
+// ============================================================================
+
+/**
+ * Snapshot an issue list for diffing
+ */
+export function createIssueSnapshot(issues: Issue[]): IssueSnapshot {
+	return new Map(issues.map((issue) => [issue.id, { issue, serialized: JSON.stringify(issue) }]));
+}
+
+/**
+ * Diff two issue snapshots into added, changed and removed issues
+ */
+export function diffIssueSnapshots(
+	previous: IssueSnapshot,
+	next: IssueSnapshot
+): IssueSnapshotDiff {
+	const added: Issue[] = [];
+	const changed: Issue[] = [];
+
+	for (const [id, entry] of next) {
+		const before = previous.get(id);
+		if (!before) {
+			added.push(entry.issue);
+		} else if (before.serialized !== entry.serialized) {
+			changed.push(entry.issue);
+		}
+	}
+
+	const removed = [...previous.keys()].filter((id) => !next.has(id));
+	return { added, changed, removed };
+}
+
+// ============================================================================
+// Event IDs
+// ============================================================================
+
+/**
+ * Format an SSE event id for a feed position
+ */
+export function formatFeedEventId(epoch: string, seq: number): string {
+	return `${epoch}:${seq}`;
+}
+
+/**
+ * Parse an SSE event id (as sent back in Last-Event-ID)
+ */
+export function parseFeedEventId(eventId: string | null | undefined): { epoch: string; seq: number } | null {
+	if (!eventId) return null;
+	const separator = eventId.lastIndexOf(':');
+	if (separator <= 0) return null;
+
+	const seq = Number(eventId.slice(separator + 1));
+	if (!Number.isInteger(seq) || seq < 0) return null;
+	return { epoch: eventId.slice(0, separator), seq };
+}
+
+// ============================================================================
+// Feed Lifecycle
+// ============================================================================
+
+/**
+ * Re-read the project's issues and publish a delta if anything changed
+ */
+function syncFeed(feed: ProjectFeed): void {
+	// SQLite WAL mode can keep serving an old snapshot on a cached connection
+	refreshProjectDb(feed.projectPath);
+
+	const next = createIssueSnapshot(getAllIssues(feed.projectPath));
+	const diff = diffIssueSnapshots(feed.snapshot, next);
+	feed.snapshot = next;
+	feed.dataVersion = getDataVersion(feed.projectPath);
+
+	if (diff.added.length === 0 && diff.changed.length === 0 && diff.removed.length === 0) {
+		return;
+	}
+
+	const events = getRecentEvents(feed.projectPath, feed.lastEventTime, EVENTS_PER_DELTA);
+	if (events.length > 0) {
+		feed.lastEventTime = events[0].created_at;
+	}
+
+	const delta: IssueDelta = { seq: ++feed.seq, ...diff, events, dataVersion: feed.dataVersion };
+	feed.history.push(delta);
+	if (feed.history.length > MAX_HISTORY) {
+		feed.history.splice(0, feed.history.length - MAX_HISTORY);
+	}
+
+	for (const listener of feed.listeners) {
+		try {
+			listener(delta);
+		} catch (error) {
+			console.error('[ChangeFeed] Listener error:', error);
+		}
+	}
+}
+
+function createFeed(projectPath: string, config: PollerConfig): ProjectFeed {
+	const issues = getAllIssues(projectPath);
+	const feed: ProjectFeed = {
+		projectPath,
+		epoch: randomUUID().slice(0, 8),
+		seq: 0,
+		dataVersion: getDataVersion(projectPath),
+		snapshot: createIssueSnapshot(issues),
+		history: [],
+		listeners: new Set(),
+		lastEventTime: new Date().toISOString(),
+		poller: createAdaptivePoller(
+			() => {
+				try {
+					syncFeed(feed);
+				} catch (error) {
+					console.error('[ChangeFeed] Poll error:', error);
+				}
+			},
+			config,
+			() => getDataVersion(projectPath)
+		),
+		idleTimer: null
+	};
+	return feed;
+}
+
+/**
+ * Work out what a subscriber resuming from an event id needs
+ */
+function resumeFrom(feed: ProjectFeed, lastEventId: string | null | undefined): FeedResume {
+	const cursor = parseFeedEventId(lastEventId);
+	const oldestReplayable = feed.history.length > 0 ? feed.history[0].seq - 1 : feed.seq;
+
+	if (cursor && cursor.epoch === feed.epoch && cursor.seq <= feed.seq && cursor.seq >= oldestReplayable) {
+		return { kind: 'replay', deltas: feed.history.filter((delta) => delta.seq > cursor.seq) };
+	}
+
+	return {
+		kind: 'snapshot',
+		issues: [...feed.snapshot.values()].map((entry) => entry.issue),
+		seq: feed.seq,
+		dataVersion: feed.dataVersion
+	};
+}
+
+/**
+ * Subscribe to a project's change feed, starting its poller if needed
+ *
+ * @param lastEventId Event id the client last saw, to replay only missed deltas
+ */
+export function subscribeToProjectFeed(
+	projectPath: string,
+	listener: FeedListener,
+	lastEventId?: string | null,
+	config: PollerConfig = DEFAULT_POLLER_CONFIG
+): FeedSubscription {
+	let feed = feeds.get(projectPath);
+	if (!feed) {
+		feed = createFeed(projectPath, config);
+		feeds.set(projectPath, feed);
+	} else if (!feed.poller.isRunning()) {
+		// Catch up on changes made while nobody was listening
+		syncFeed(feed);
+	}
+
+	if (feed.idleTimer) {
+		clearTimeout(feed.idleTimer);
+		feed.idleTimer = null;
+	}
+
+	const resume = resumeFrom(feed, lastEventId);
+	feed.listeners.add(listener);
+	feed.poller.start();
+
+	const subscribed = feed;
+	return {
+		epoch: subscribed.epoch,
+		resume,
+		unsubscribe: () => {
+			subscribed.listeners.delete(listener);
+			if (subscribed.listeners.size > 0) return;
+
+			subscribed.poller.stop();
+			subscribed.idleTimer = setTimeout(() => {
+				if (feeds.get(projectPath) === subscribed && subscribed.listeners.size === 0) {
+					feeds.delete(projectPath);
+				}
+			}, IDLE_RETENTION_MS);
+			subscribed.idleTimer.unref?.();
+		}
+	};
+}
+
+/**
+ * Get feed statistics for a project
+ */
+export function getProjectFeedStats(projectPath: string): {
+	subscribers: number;
+	seq: number;
+	historySize: number;
+	polling: boolean;
+} | null {
+	const feed = feeds.get(projectPath);
+	if (!feed) return null;
+	return {
+		subscribers: feed.listeners.size,
+		seq: feed.seq,
+		historySize: feed.history.length,
+		polling: feed.poller.isRunning()
+	};
+}
+
+/**
+ * Stop and drop a project's feed (all feeds if none is given)
+ */
+export function closeProjectFeed(projectPath?: string): void {
+	const paths = projectPath ? [projectPath] : [...feeds.keys()];
+	for (const feedPath of paths) {
+		const feed = feeds.get(feedPath);
+		if (!feed) continue;
+
+		feed.poller.stop();
+		if (feed.idleTimer) clearTimeout(feed.idleTimer);
+		feed.listeners.clear();
+		feeds.delete(feedPath);
+	}
+}
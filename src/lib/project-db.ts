@@ -128,6 +128,85 @@ export function getIssuesByStatus(projectPath: string, status: string): Issue[]
 		.all(status) as Issue[];
 }
 
+// Select list for the lifecycle fields: branch, commit and execution log, PR and CI status.
+// Databases without the lifecycle columns return them as undefined.
+function lifecycleColumns(db: Database.Database): string {
+	const columns = new Set(
+		(db.prepare('PRAGMA table_info(issues)').all() as { name: string }[]).map((c) => c.name)
+	);
+	return ['branch_name', 'agent_id', 'commit_hash', 'execution_log', 'pr_url', 'pr_status', 'ci_status']
+		.filter((c) => columns.has(c))
+		.map((c) => `, ${c}`)
+		.join('');
+}
+
+// Closed issues with their lifecycle fields, most recently closed first
+export function getClosedIssuesWithLifecycle(projectPath: string, limit = 100): Issue[] {
+	const db = getProjectDb(projectPath);
+
+	return db
+		.prepare(
+			`
+		SELECT id, title, description, status, priority, issue_type,
+		       assignee, created_at, created_by, updated_at, closed_at, close_reason${lifecycleColumns(db)}
+		FROM issues
+		WHERE status = 'closed' AND deleted_at IS NULL
+		ORDER BY closed_at DESC
+		LIMIT ?
+	`
+		)
+		.all(limit) as Issue[];
+}
+
+// A single issue with its lifecycle fields
+export function getIssueWithLifecycle(projectPath: string, id: string): Issue | undefined {
+	const db = getProjectDb(projectPath);
+	return db
+		.prepare(
+			`
+		SELECT id, title, description, status, priority, issue_type,
+		       assignee, created_at, created_by, updated_at, closed_at, close_reason${lifecycleColumns(db)}
+		FROM issues
+		WHERE id = ?
+	`
+		)
+		.get(id) as Issue | undefined;
+}
+
+// Every issue's ID with its branch and recorded commit, for matching git history to beads
+export function getIssueGitRefs(projectPath: string): Pick<Issue, 'id' | 'branch_name' | 'commit_hash'>[] {
+	const db = getProjectDb(projectPath);
+	return db
+		.prepare(
+			`
+		SELECT id${lifecycleColumns(db)}
+		FROM issues
+		WHERE deleted_at IS NULL
+	`
+		)
+		.all() as Pick<Issue, 'id' | 'branch_name' | 'commit_hash'>[];
+}
+
+// The issue in a given status working on a branch, with its lifecycle fields
+export function getIssueByBranch(projectPath: string, branchName: string, status: string): Issue | undefined {
+	const db = getProjectDb(projectPath);
+	const lifecycle = lifecycleColumns(db);
+	if (!lifecycle.includes('branch_name')) return undefined;
+
+	return db
+		.prepare(
+			`
+		SELECT id, title, description, status, priority, issue_type,
+		       assignee, created_at, created_by, updated_at, closed_at, close_reason${lifecycle}
+		FROM issues
+		WHERE branch_name = ? AND status = ? AND deleted_at IS NULL
+		ORDER BY updated_at DESC
+		LIMIT 1
+	`
+		)
+		.get(branchName, status) as Issue | undefined;
+}
+
 export function getIssueById(projectPath: string, id: string): Issue | undefined {
 	const db = getProjectDb(projectPath);
 	return db
@@ -156,6 +235,19 @@ export function getCommentsForIssue(projectPath: string, issueId: string): Comme
 		.all(issueId) as Comment[];
 }
 
+export function getLabelsForIssue(projectPath: string, issueId: string): string[] {
+	const db = getProjectDb(projectPath);
+	try {
+		const rows = db
+			.prepare('SELECT label FROM labels WHERE issue_id = ? ORDER BY label')
+			.all(issueId) as { label: string }[];
+		return rows.map((r) => r.label);
+	} catch {
+		// Older beads databases have no labels table
+		return [];
+	}
+}
+
 export function getEventsForIssue(projectPath: string, issueId: string, limit = 50): Event[] {
 	const db = getProjectDb(projectPath);
 	return db
@@ -483,6 +575,22 @@ export function getChildBlockingRelations(projectPath: string, epicId: string):
 	return relations;
 }
 
+// Get all blocking relations between non-deleted issues in the project
+export function getAllBlockingRelations(projectPath: string): BlockingRelation[] {
+	const db = getProjectDb(projectPath);
+	return db
+		.prepare(
+			`
+		SELECT d.depends_on_id as source, d.issue_id as target
+		FROM dependencies d
+		JOIN issues blocked ON blocked.id = d.issue_id AND blocked.deleted_at IS NULL
+		JOIN issues blocker ON blocker.id = d.depends_on_id AND blocker.deleted_at IS NULL
+		WHERE d.type = 'blocks'
+	`
+		)
+		.all() as BlockingRelation[];
+}
+
 // Get full issue details with all relationships
 export interface IssueWithDetails extends Issue {
 	blockers: Issue[];
@@ -491,6 +599,7 @@ export interface IssueWithDetails extends Issue {
 	parent: Issue | null;
 	comments: Comment[];
 	events: Event[];
+	labels: string[];
 	childBlockingRelations?: BlockingRelation[]; // For graph visualization
 }
 
@@ -508,6 +617,7 @@ export function getIssueWithDetails(projectPath: string, issueId: string): Issue
 		parent: getParentIssue(projectPath, issueId),
 		comments: getCommentsForIssue(projectPath, issueId),
 		events: getEventsForIssue(projectPath, issueId),
+		labels: getLabelsForIssue(projectPath, issueId),
 		// Include blocking relations if this is an epic with children
 		childBlockingRelations:
 			issue.issue_type === 'epic' && children.length > 0
@@ -312,6 +312,11 @@ function handleClaudeOutput(sessionId: string, chunk: ClaudeOutputChunk): void {
 		return;
 	}
 
+	// The CLI session ID is only needed by claude-cli itself
+	if (chunk.type === 'session') {
+		return;
+	}
+
 	// Transform chunk for scaffold UI
 	const message: Record<string, unknown> = { type: chunk.type };
 
@@ -151,6 +151,71 @@ export interface SessionSummary {
 	messageCount: number;
 }
 
+// ============================================================================
+// Search and Export Types
+// ============================================================================
+
+/**
+ * Filters for searching persisted sessions
+ * All given filters must match. Dates are ISO 8601; a session matches a date
+ * range when its activity overlaps it.
+ */
+export interface SessionSearchFilters {
+	query?: string;          // Words and "quoted phrases" in messages, tool calls, title, summary
+	beadId?: string;
+	agent?: string;          // Agent filename or name
+	tag?: string;
+	status?: SessionStatus[];
+	from?: string;
+	to?: string;
+	minCostUsd?: number;
+	maxCostUsd?: number;
+	limit?: number;
+}
+
+/**
+ * Where a query matched inside a session
+ */
+export interface SessionSearchMatch {
+	messageId: string;
+	role: MessageRole;
+	kind: 'message' | 'tool_call';
+	toolName?: string;
+	snippet: string;
+	timestamp: string;
+}
+
+/**
+ * A session found by search
+ */
+export interface SessionSearchHit extends SessionSummary {
+	agentId?: string;
+	tags: string[];
+	totalCostUsd: number;
+	toolCallCount: number;
+	matches: SessionSearchMatch[];
+}
+
+export interface SessionSearchResult {
+	results: SessionSearchHit[];
+	total: number;
+}
+
+export type SessionExportFormat = 'markdown' | 'json';
+
+export const SESSION_EXPORT_FORMATS: SessionExportFormat[] = ['markdown', 'json'];
+
+/**
+ * What to export: the listed sessions, or every session matching the filters
+ */
+export interface SessionExportOptions {
+	format: SessionExportFormat;
+	sessionIds?: string[];
+	filters?: SessionSearchFilters;
+	// Replace secrets in messages and tool calls with [REDACTED]
+	redact?: boolean;
+}
+
 // ============================================================================
 // Known Issues Types (existing)
 // ============================================================================
@@ -0,0 +1,275 @@
+/**
+ * Session Export
+ *
+ * Writes persisted sessions as transcripts:
+ *
+ * - markdown: one section per session with its metadata, then each message
+ *   and its tool calls in order
+ * - json: the session objects with their messages, for tools and archives
+ *
+ * With redaction on, secrets in messages, tool calls and session text are
+ * replaced with [REDACTED]. Values are redacted by the name they are stored
+ * under, using the same rules as isSensitiveEnvKey(), plus a few well-known
+ * token shapes that carry no name.
+ */
+
+import type {
+	Session,
+	SessionExportOptions,
+	SessionMessage,
+	SessionToolCall
+} from './session-context-types';
+import { isSensitiveEnvKey } from './memory/actions';
+import { loadMessages, loadSession } from './session-persistence';
+import { searchSessions } from './session-search';
+
+export const REDACTED = '[REDACTED]';
+
+/** Identifies export files in their header */
+const EXPORT_FORMAT_NAME = 'beads-sessions';
+const EXPORT_VERSION = 1;
+
+// Sessions a filter-based export can include
+const MAX_EXPORTED_SESSIONS = 500;
+
+/**
+ * Secrets recognisable without a name: API keys, GitHub and Slack tokens,
+ * AWS access keys, bearer credentials and private key blocks
+ */
+const TOKEN_PATTERNS: RegExp[] = [
+	/\bsk-(?:ant-)?[A-Za-z0-9_-]{20,}/g,
+	/\bgh[pousr]_[A-Za-z0-9]{20,}/g,
+	/\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+	/\bAKIA[0-9A-Z]{16}\b/g,
+	/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]{8,}/g,
+	/-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g
+];
+
+export interface SessionTranscript {
+	session: Session;
+	messages: SessionMessage[];
+}
+
+// ============================================================================
+// Redaction
+// ============================================================================
+
+/**
+ * Redact secrets in free text
+ * Named values are caught as NAME=value, "name": "value" and header-style
+ * "Name: value" lines when the name looks sensitive.
+ */
+export function redactText(text: string): string {
+	let redacted = text;
+
+	for (const pattern of TOKEN_PATTERNS) {
+		redacted = redacted.replace(pattern, (match, scheme?: string) =>
+			typeof scheme === 'string' && /^(Bearer|Basic)$/.test(scheme) ? `${scheme} ${REDACTED}` : REDACTED
+		);
+	}
+
+	// export API_KEY=value, API_KEY="value"
+	redacted = redacted.replace(
+		/\b([A-Za-z_][A-Za-z0-9_]*)=("[^"\n]*"|'[^'\n]*'|[^\s"'&;]+)/g,
+		(match, key: string) => (isSensitiveEnvKey(key) ? `${key}=${REDACTED}` : match)
+	);
+
+	// "apiKey": "value"
+	redacted = redacted.replace(
+		/"([A-Za-z0-9_.-]+)"(\s*:\s*)"(?:[^"\\\n]|\\.)*"/g,
+		(match, key: string, separator: string) => (isSensitiveEnvKey(key) ? `"${key}"${separator}"${REDACTED}"` : match)
+	);
+
+	// Authorization: value (whole line)
+	redacted = redacted.replace(/^(\s*)([A-Za-z][A-Za-z0-9_-]*)(:[ \t]+)(?!\[REDACTED\])(\S.*)$/gm, (match, indent: string, key: string, separator: string) =>
+		isSensitiveEnvKey(key) ? `${indent}${key}${separator}${REDACTED}` : match
+	);
+
+	return redacted;
+}
+
+/**
+ * Redact secrets in structured data, such as tool call inputs and results
+ * Values stored under a sensitive key are replaced outright.
+ */
+export function redactValue(value: unknown): unknown {
+	if (typeof value === 'string') {
+		return redactText(value);
+	}
+	if (Array.isArray(value)) {
+		return value.map(redactValue);
+	}
+	if (value && typeof value === 'object') {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, child]) => [
+				key,
+				isSensitiveEnvKey(key) && child !== null && typeof child !== 'object' ? REDACTED : redactValue(child)
+			])
+		);
+	}
+	return value;
+}
+
+function redactToolCall(call: SessionToolCall): SessionToolCall {
+	return {
+		...call,
+		input: redactValue(call.input) as Record<string, unknown>,
+		result: call.result === undefined ? undefined : redactValue(call.result),
+		error: call.error === undefined ? undefined : redactText(call.error)
+	};
+}
+
+/**
+ * A copy of a transcript with secrets redacted
+ * IDs, timestamps, metrics and other metadata are kept as they are.
+ */
+export function redactTranscript(transcript: SessionTranscript): SessionTranscript {
+	const { session } = transcript;
+	return {
+		session: {
+			...session,
+			title: session.title === undefined ? undefined : redactText(session.title),
+			summary: session.summary === undefined ? undefined : redactText(session.summary),
+			memoryBrief: session.memoryBrief === undefined ? undefined : redactText(session.memoryBrief)
+		},
+		messages: transcript.messages.map((message) => ({
+			...message,
+			content: redactText(message.content),
+			toolCalls: message.toolCalls?.map(redactToolCall)
+		}))
+	};
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * A fence longer than any backtick run in the text
+ */
+function fence(text: string): string {
+	const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+	return '`'.repeat(longest + 1);
+}
+
+function codeBlock(text: string, language = ''): string {
+	const marker = fence(text);
+	return `${marker}${language}\n${text}\n${marker}`;
+}
+
+function formatToolCall(call: SessionToolCall): string {
+	const parts = [`**Tool call: ${call.name}**`, codeBlock(JSON.stringify(call.input ?? {}, null, 2), 'json')];
+	if (call.error) {
+		parts.push(`Error: ${call.error}`);
+	} else if (call.result !== undefined) {
+		const result = typeof call.result === 'string' ? call.result : JSON.stringify(call.result, null, 2);
+		parts.push(`Result:\n\n${codeBlock(result)}`);
+	}
+	return parts.join('\n\n');
+}
+
+function formatMessage(message: SessionMessage): string {
+	const role = message.role.charAt(0).toUpperCase() + message.role.slice(1);
+	const parts = [`#### ${role} · ${message.timestamp}`];
+	if (message.content) {
+		parts.push(message.content);
+	}
+	for (const call of message.toolCalls ?? []) {
+		parts.push(formatToolCall(call));
+	}
+	return parts.join('\n\n');
+}
+
+function formatSessionSection({ session, messages }: SessionTranscript): string {
+	const details = [
+		['Session', session.id],
+		['Status', session.status],
+		['Bead', session.beadId],
+		['Agent', session.agentName ?? session.agentId],
+		['Tags', session.tags?.length ? session.tags.join(', ') : undefined],
+		['Created', session.createdAt],
+		['Last activity', session.lastActivityAt],
+		['Messages', String(session.metrics?.messageCount ?? messages.length)],
+		['Cost', `$${(session.metrics?.totalCostUsd ?? 0).toFixed(4)}`]
+	]
+		.filter(([, value]) => value)
+		.map(([label, value]) => `- **${label}:** ${value}`);
+
+	const parts = [`## ${(session.title || `Session ${session.id}`).replace(/\s+/g, ' ').trim()}`, details.join('\n')];
+	if (session.summary) {
+		parts.push(`> ${session.summary.replace(/\n/g, '\n> ')}`);
+	}
+	parts.push('### Transcript');
+	parts.push(messages.length > 0 ? messages.map(formatMessage).join('\n\n') : '_No messages._');
+	return parts.join('\n\n');
+}
+
+/**
+ * Transcripts as Markdown
+ */
+export function formatTranscriptsAsMarkdown(transcripts: SessionTranscript[], redacted = false): string {
+	const header = [
+		'# Session export',
+		`Exported ${new Date().toISOString()} · ${transcripts.length} session${transcripts.length === 1 ? '' : 's'}${redacted ? ' · secrets redacted' : ''}`
+	];
+	return [...header, ...transcripts.map(formatSessionSection)].join('\n\n') + '\n';
+}
+
+/**
+ * Transcripts as JSON
+ */
+export function formatTranscriptsAsJson(transcripts: SessionTranscript[], redacted = false): string {
+	return (
+		JSON.stringify(
+			{
+				format: EXPORT_FORMAT_NAME,
+				version: EXPORT_VERSION,
+				exportedAt: new Date().toISOString(),
+				redacted,
+				count: transcripts.length,
+				sessions: transcripts.map(({ session, messages }) => ({ ...session, messages }))
+			},
+			null,
+			2
+		) + '\n'
+	);
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Load sessions with their messages, skipping any that no longer exist
+ */
+export async function loadSessionTranscripts(projectPath: string, sessionIds: string[]): Promise<SessionTranscript[]> {
+	const transcripts: SessionTranscript[] = [];
+	for (const sessionId of sessionIds) {
+		const session = await loadSession(projectPath, sessionId);
+		if (session) {
+			transcripts.push({ session, messages: await loadMessages(projectPath, sessionId) });
+		}
+	}
+	return transcripts;
+}
+
+/**
+ * Export sessions as Markdown or JSON text
+ */
+export async function exportSessions(projectPath: string, options: SessionExportOptions): Promise<string> {
+	const sessionIds =
+		options.sessionIds && options.sessionIds.length > 0
+			? options.sessionIds
+			: (
+					await searchSessions(projectPath, { ...options.filters, limit: MAX_EXPORTED_SESSIONS })
+				).results.map((hit) => hit.id);
+
+	let transcripts = await loadSessionTranscripts(projectPath, sessionIds);
+	if (options.redact) {
+		transcripts = transcripts.map(redactTranscript);
+	}
+
+	return options.format === 'json'
+		? formatTranscriptsAsJson(transcripts, !!options.redact)
+		: formatTranscriptsAsMarkdown(transcripts, !!options.redact);
+}
@@ -21,7 +21,7 @@ import { DEFAULT_SESSION_METRICS } from './session-context-types';
 import { createMemoryEntry } from './memory/db';
 import type { CreateMemoryEntry } from './memory/types';
 import { DEFAULT_RETENTION_DAYS } from './memory/types';
-import { getScopedMemories, rankMemories, buildMemoryBrief } from './memory/retrieval';
+import { buildBeadMemoryBrief } from './memory/retrieval';
 import { getParentIssue } from './project-db';
 
 // ============================================================================
@@ -68,7 +68,7 @@ export function getSessionMessagesPath(projectPath: string, sessionId: string):
  * @param beadId - ID of the bead to find the epic for
  * @returns The epic ID if the bead has an epic parent, undefined otherwise
  */
-function getEpicIdForBead(projectPath: string, beadId: string): string | undefined {
+export function getEpicIdForBead(projectPath: string, beadId: string): string | undefined {
 	try {
 		const parent = getParentIssue(projectPath, beadId);
 		// Return the parent ID only if the parent is an epic
@@ -86,6 +86,7 @@ function getEpicIdForBead(projectPath: string, beadId: string): string | undefin
 /**
  * Generate a memory brief for a bead-scoped session
  * Retrieves and ranks relevant memories, then builds a token-budgeted brief
+ * (the memory brief endpoint previews exactly this)
  *
  * @param projectPath - Path to the project root
  * @param projectId - Project ID
@@ -102,32 +103,7 @@ function generateMemoryBrief(
 	try {
 		const epicId = getEpicIdForBead(projectPath, beadId);
 
-		const scoped = getScopedMemories(projectPath, {
-			projectId,
-			beadId,
-			epicId
-		});
-
-		// Combine all memories for ranking
-		const allMemories = [
-			...scoped.beadMemories,
-			...scoped.epicMemories,
-			...scoped.activeConstraints
-		];
-
-		// Skip if no memories found
-		if (allMemories.length === 0) {
-			return undefined;
-		}
-
-		// Rank memories by relevance to current context
-		const ranked = rankMemories(allMemories, {
-			beadId,
-			epicId
-		});
-
-		// Build token-budgeted brief
-		const brief = buildMemoryBrief(ranked, { maxTokens });
+		const brief = buildBeadMemoryBrief(projectPath, { projectId, beadId, epicId, maxTokens });
 
 		// Only return if we have actual content
 		if (brief.includedCount === 0) {
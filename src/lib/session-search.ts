@@ -0,0 +1,349 @@
+/**
+ * Session Search
+ *
+ * Searches persisted sessions (.beads/sessions/{id}/meta.json + messages.jsonl)
+ * by their messages and tool calls, with filters on the session metadata.
+ *
+ * The index is kept in memory per project. Each session is re-read only when
+ * its meta.json or messages.jsonl has changed since it was indexed.
+ */
+
+import { readdir, stat } from 'fs/promises';
+import { existsSync } from 'fs';
+import type {
+	MessageRole,
+	Session,
+	SessionSearchFilters,
+	SessionSearchHit,
+	SessionSearchMatch,
+	SessionSearchResult,
+	SessionStatus
+} from './session-context-types';
+import {
+	getSessionMessagesPath,
+	getSessionMetaPath,
+	getSessionsDir,
+	loadMessages,
+	loadSession
+} from './session-persistence';
+
+/** Searchable text from one message or tool call */
+interface IndexedEntry {
+	messageId: string;
+	role: MessageRole;
+	kind: 'message' | 'tool_call';
+	toolName?: string;
+	text: string;
+	lowerText: string;
+	timestamp: string;
+}
+
+interface IndexedSession {
+	metaMtimeMs: number;
+	messagesMtimeMs: number;
+	session: Session;
+	entries: IndexedEntry[];
+}
+
+const DEFAULT_LIMIT = 50;
+const MAX_MATCHES_PER_SESSION = 5;
+const SNIPPET_CONTEXT = 60;
+
+const sessionIndexes = new Map<string, Map<string, IndexedSession>>();
+
+// ============================================================================
+// Index
+// ============================================================================
+
+async function mtimeMs(filePath: string): Promise<number> {
+	try {
+		return (await stat(filePath)).mtimeMs;
+	} catch {
+		return 0;
+	}
+}
+
+/**
+ * Searchable entries for a session's messages and tool calls
+ */
+async function indexEntries(projectPath: string, sessionId: string): Promise<IndexedEntry[]> {
+	const entries: IndexedEntry[] = [];
+
+	for (const message of await loadMessages(projectPath, sessionId)) {
+		if (message.content) {
+			entries.push({
+				messageId: message.id,
+				role: message.role,
+				kind: 'message',
+				text: message.content,
+				lowerText: message.content.toLowerCase(),
+				timestamp: message.timestamp
+			});
+		}
+
+		for (const call of message.toolCalls ?? []) {
+			const text = `${call.name} ${JSON.stringify(call.input ?? {})}`;
+			entries.push({
+				messageId: message.id,
+				role: message.role,
+				kind: 'tool_call',
+				toolName: call.name,
+				text,
+				lowerText: text.toLowerCase(),
+				timestamp: call.startedAt || message.timestamp
+			});
+		}
+	}
+
+	return entries;
+}
+
+/**
+ * Bring a project's index up to date with the sessions on disk
+ */
+async function refreshSessionIndex(projectPath: string): Promise<Map<string, IndexedSession>> {
+	const index = sessionIndexes.get(projectPath) ?? new Map<string, IndexedSession>();
+	sessionIndexes.set(projectPath, index);
+
+	const sessionsDir = getSessionsDir(projectPath);
+	if (!existsSync(sessionsDir)) {
+		index.clear();
+		return index;
+	}
+
+	const dirEntries = await readdir(sessionsDir, { withFileTypes: true });
+	const seen = new Set<string>();
+
+	for (const entry of dirEntries) {
+		if (!entry.isDirectory()) continue;
+		const sessionId = entry.name;
+
+		const metaMtimeMs = await mtimeMs(getSessionMetaPath(projectPath, sessionId));
+		if (metaMtimeMs === 0) continue;
+		const messagesMtimeMs = await mtimeMs(getSessionMessagesPath(projectPath, sessionId));
+		seen.add(sessionId);
+
+		const cached = index.get(sessionId);
+		if (cached && cached.metaMtimeMs === metaMtimeMs && cached.messagesMtimeMs === messagesMtimeMs) {
+			continue;
+		}
+
+		const session = await loadSession(projectPath, sessionId);
+		if (!session) {
+			index.delete(sessionId);
+			continue;
+		}
+
+		index.set(sessionId, {
+			metaMtimeMs,
+			messagesMtimeMs,
+			session,
+			entries: await indexEntries(projectPath, sessionId)
+		});
+	}
+
+	for (const sessionId of index.keys()) {
+		if (!seen.has(sessionId)) index.delete(sessionId);
+	}
+
+	return index;
+}
+
+/**
+ * Drop cached indexes, for one project or all of them
+ */
+export function clearSessionIndex(projectPath?: string): void {
+	if (projectPath) {
+		sessionIndexes.delete(projectPath);
+	} else {
+		sessionIndexes.clear();
+	}
+}
+
+// ============================================================================
+// Search
+// ============================================================================
+
+/**
+ * Split a query into lowercase words and "quoted phrases"
+ */
+export function parseSearchQuery(query: string): string[] {
+	const terms: string[] = [];
+	for (const match of query.matchAll(/"([^"]+)"|(\S+)/g)) {
+		const term = (match[1] ?? match[2]).trim().toLowerCase();
+		if (term) terms.push(term);
+	}
+	return terms;
+}
+
+const SESSION_STATUSES: SessionStatus[] = ['draft', 'active', 'paused', 'closed'];
+
+/**
+ * Read search filters from URL query parameters
+ * q, beadId, agent, tag, status (comma-separated), from, to, minCost, maxCost, limit
+ */
+export function parseSessionSearchParams(params: URLSearchParams): {
+	filters: SessionSearchFilters;
+	errors: string[];
+} {
+	const errors: string[] = [];
+	const filters: SessionSearchFilters = {};
+
+	const text = (name: string) => params.get(name)?.trim() || undefined;
+	filters.query = text('q');
+	filters.beadId = text('beadId');
+	filters.agent = text('agent');
+	filters.tag = text('tag');
+
+	const status = text('status');
+	if (status) {
+		const statuses = status.split(',').map((s) => s.trim());
+		const invalid = statuses.filter((s) => !SESSION_STATUSES.includes(s as SessionStatus));
+		if (invalid.length > 0) {
+			errors.push(`Invalid status: ${invalid.join(', ')}. Must be one of: ${SESSION_STATUSES.join(', ')}`);
+		} else {
+			filters.status = statuses as SessionStatus[];
+		}
+	}
+
+	for (const key of ['from', 'to'] as const) {
+		const value = text(key);
+		if (!value) continue;
+		if (Number.isNaN(Date.parse(value))) {
+			errors.push(`Invalid ${key} date: ${value}`);
+		} else {
+			// A bare YYYY-MM-DD end date includes that whole day
+			filters[key] = key === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999Z` : value;
+		}
+	}
+
+	for (const [param, key] of [['minCost', 'minCostUsd'], ['maxCost', 'maxCostUsd'], ['limit', 'limit']] as const) {
+		const value = text(param);
+		if (!value) continue;
+		const number = Number(value);
+		if (!Number.isFinite(number) || number < 0 || (key === 'limit' && !Number.isInteger(number))) {
+			errors.push(`Invalid ${param}: ${value}`);
+		} else {
+			filters[key] = number;
+		}
+	}
+
+	return { filters, errors };
+}
+
+/**
+ * Check a session's metadata against the filters (everything but the query)
+ */
+export function sessionMatchesFilters(session: Session, filters: SessionSearchFilters): boolean {
+	if (filters.beadId && session.beadId !== filters.beadId) return false;
+
+	if (filters.agent) {
+		const agent = filters.agent.toLowerCase();
+		if (session.agentId?.toLowerCase() !== agent && session.agentName?.toLowerCase() !== agent) {
+			return false;
+		}
+	}
+
+	if (filters.tag) {
+		const tag = filters.tag.toLowerCase();
+		if (!(session.tags ?? []).some((t) => t.toLowerCase() === tag)) return false;
+	}
+
+	if (filters.status && filters.status.length > 0 && !filters.status.includes(session.status)) {
+		return false;
+	}
+
+	// Activity from createdAt to lastActivityAt must overlap the range
+	if (filters.from && Date.parse(session.lastActivityAt) < Date.parse(filters.from)) return false;
+	if (filters.to && Date.parse(session.createdAt) > Date.parse(filters.to)) return false;
+
+	const cost = session.metrics?.totalCostUsd ?? 0;
+	if (filters.minCostUsd !== undefined && cost < filters.minCostUsd) return false;
+	if (filters.maxCostUsd !== undefined && cost > filters.maxCostUsd) return false;
+
+	return true;
+}
+
+/**
+ * Text around the first term found in an entry
+ */
+function buildSnippet(entry: IndexedEntry, terms: string[]): string {
+	const positions = terms.map((term) => entry.lowerText.indexOf(term)).filter((pos) => pos >= 0);
+	const position = positions.length > 0 ? Math.min(...positions) : 0;
+
+	const start = Math.max(0, position - SNIPPET_CONTEXT);
+	const end = Math.min(entry.text.length, position + SNIPPET_CONTEXT * 2);
+	const text = entry.text.slice(start, end).replace(/\s+/g, ' ').trim();
+	return `${start > 0 ? '…' : ''}${text}${end < entry.text.length ? '…' : ''}`;
+}
+
+function toHit(indexed: IndexedSession, matches: SessionSearchMatch[]): SessionSearchHit {
+	const { session } = indexed;
+	return {
+		id: session.id,
+		projectId: session.projectId,
+		status: session.status,
+		title: session.title,
+		agentId: session.agentId,
+		agentName: session.agentName,
+		beadId: session.beadId,
+		createdAt: session.createdAt,
+		lastActivityAt: session.lastActivityAt,
+		messageCount: session.metrics?.messageCount ?? 0,
+		tags: session.tags ?? [],
+		totalCostUsd: session.metrics?.totalCostUsd ?? 0,
+		toolCallCount: session.metrics?.toolCallCount ?? 0,
+		matches
+	};
+}
+
+/**
+ * Search a project's sessions
+ * With a query, every term must appear somewhere in the session; results are
+ * ranked by how many messages and tool calls matched, then by recent activity.
+ */
+export async function searchSessions(
+	projectPath: string,
+	filters: SessionSearchFilters = {}
+): Promise<SessionSearchResult> {
+	const index = await refreshSessionIndex(projectPath);
+	const terms = parseSearchQuery(filters.query ?? '');
+	const scored: { hit: SessionSearchHit; score: number }[] = [];
+
+	for (const indexed of index.values()) {
+		if (!sessionMatchesFilters(indexed.session, filters)) continue;
+
+		if (terms.length === 0) {
+			scored.push({ hit: toHit(indexed, []), score: 0 });
+			continue;
+		}
+
+		const { session } = indexed;
+		const metaText = [session.title, session.summary, ...(session.tags ?? [])].join('\n').toLowerCase();
+		const matchingEntries = indexed.entries.filter((entry) => terms.some((term) => entry.lowerText.includes(term)));
+		const covered = terms.every(
+			(term) => metaText.includes(term) || matchingEntries.some((entry) => entry.lowerText.includes(term))
+		);
+		if (!covered) continue;
+
+		const matches = matchingEntries.slice(0, MAX_MATCHES_PER_SESSION).map((entry) => ({
+			messageId: entry.messageId,
+			role: entry.role,
+			kind: entry.kind,
+			toolName: entry.toolName,
+			snippet: buildSnippet(entry, terms),
+			timestamp: entry.timestamp
+		}));
+		scored.push({ hit: toHit(indexed, matches), score: matchingEntries.length });
+	}
+
+	scored.sort(
+		(a, b) =>
+			b.score - a.score || Date.parse(b.hit.lastActivityAt) - Date.parse(a.hit.lastActivityAt)
+	);
+
+	return {
+		results: scored.slice(0, filters.limit ?? DEFAULT_LIMIT).map((s) => s.hit),
+		total: scored.length
+	};
+}
@@ -1,6 +1,9 @@
 /**
  * Stale Bead Detection
  * Automatically flag beads that have been stuck in a status for too long
+ *
+ * Thresholds default to STALENESS_THRESHOLDS and can be tuned per project
+ * (see StalenessSettings), with overrides per issue_type and priority.
  */
 
 export type StalenessLevel = 'none' | 'warning' | 'critical';
@@ -20,6 +23,65 @@ const STALENESS_THRESHOLDS: Record<string, StalenessThreshold> = {
 	blocked: { warningHours: 24, criticalHours: 72 }
 };
 
+/**
+ * Threshold override for a status, narrowed by issue type and/or priority.
+ * When several overrides match, the most specific one wins (type + priority,
+ * then type, then priority).
+ */
+export interface StalenessOverride {
+	status: string;
+	issueType?: string;
+	priority?: number;
+	warningHours: number;
+	criticalHours: number;
+}
+
+/**
+ * Per-project staleness configuration (stored in dashboard.db)
+ */
+export interface StalenessSettings {
+	// Per-status thresholds replacing the defaults; null disables alerts for that status
+	thresholds: Record<string, StalenessThreshold | null>;
+	overrides: StalenessOverride[];
+	// Whether the background sweeper sends desktop notifications
+	notificationsEnabled: boolean;
+	updatedAt?: string;
+}
+
+export const DEFAULT_STALENESS_SETTINGS: StalenessSettings = {
+	thresholds: {},
+	overrides: [],
+	notificationsEnabled: true
+};
+
+/**
+ * Minimal issue shape needed to resolve a threshold
+ */
+export interface StalenessSubject {
+	status: string;
+	issue_type?: string;
+	priority?: number;
+}
+
+export type StaleRemediationAction = 'return_to_ready';
+
+export interface StaleRemediation {
+	action: StaleRemediationAction;
+	label: string;
+	fromStatus: string;
+	toStatus: string;
+}
+
+// One-click fixes offered for stale beads, keyed by status
+const STALE_REMEDIATIONS: Record<string, StaleRemediation> = {
+	in_progress: {
+		action: 'return_to_ready',
+		label: 'Return to ready',
+		fromStatus: 'in_progress',
+		toStatus: 'ready'
+	}
+};
+
 export interface StalenessInfo {
 	level: StalenessLevel;
 	hoursStale: number;
@@ -28,13 +90,51 @@ export interface StalenessInfo {
 }
 
 /**
- * Calculate staleness for an issue based on its status and updated_at time
+ * Resolve the threshold that applies to an issue under the given settings
+ */
+export function resolveThreshold(
+	issue: StalenessSubject,
+	settings?: StalenessSettings | null
+): StalenessThreshold | null {
+	if (!settings) {
+		return STALENESS_THRESHOLDS[issue.status] ?? null;
+	}
+
+	let best: StalenessOverride | null = null;
+	let bestScore = -1;
+	for (const override of settings.overrides) {
+		if (override.status !== issue.status) continue;
+		if (override.issueType !== undefined && override.issueType !== issue.issue_type) continue;
+		if (override.priority !== undefined && override.priority !== issue.priority) continue;
+
+		const score = (override.issueType !== undefined ? 2 : 0) + (override.priority !== undefined ? 1 : 0);
+		if (score > bestScore) {
+			best = override;
+			bestScore = score;
+		}
+	}
+
+	if (best) {
+		return { warningHours: best.warningHours, criticalHours: best.criticalHours };
+	}
+
+	if (issue.status in settings.thresholds) {
+		return settings.thresholds[issue.status];
+	}
+	return STALENESS_THRESHOLDS[issue.status] ?? null;
+}
+
+/**
+ * Calculate staleness for an issue based on its status and updated_at time.
+ * Pass a resolved threshold to apply project settings; omit it for the defaults.
  */
 export function calculateStaleness(
 	status: string,
-	updatedAt: string | Date
+	updatedAt: string | Date,
+	resolvedThreshold?: StalenessThreshold | null
 ): StalenessInfo {
-	const threshold = STALENESS_THRESHOLDS[status];
+	const threshold =
+		resolvedThreshold !== undefined ? resolvedThreshold : STALENESS_THRESHOLDS[status];
 
 	if (!threshold) {
 		return {
@@ -68,16 +168,27 @@ export function calculateStaleness(
 	};
 }
 
+/**
+ * Calculate staleness for an issue, applying project settings when given
+ */
+export function calculateIssueStaleness(
+	issue: StalenessSubject & { updated_at: string },
+	settings?: StalenessSettings | null
+): StalenessInfo {
+	return calculateStaleness(issue.status, issue.updated_at, resolveThreshold(issue, settings));
+}
+
 /**
  * Get staleness for multiple issues
  */
 export function getStaleIssues(
-	issues: Array<{ id: string; status: string; updated_at: string }>
+	issues: Array<StalenessSubject & { id: string; updated_at: string }>,
+	settings?: StalenessSettings | null
 ): Array<{ id: string; staleness: StalenessInfo }> {
 	return issues
 		.map((issue) => ({
 			id: issue.id,
-			staleness: calculateStaleness(issue.status, issue.updated_at)
+			staleness: calculateIssueStaleness(issue, settings)
 		}))
 		.filter((item) => item.staleness.level !== 'none');
 }
@@ -86,12 +197,13 @@ export function getStaleIssues(
  * Count stale issues by level
  */
 export function countStaleIssues(
-	issues: Array<{ id: string; status: string; updated_at: string }>
+	issues: Array<StalenessSubject & { id: string; updated_at: string }>,
+	settings?: StalenessSettings | null
 ): { warning: number; critical: number } {
 	const counts = { warning: 0, critical: 0 };
 
 	for (const issue of issues) {
-		const staleness = calculateStaleness(issue.status, issue.updated_at);
+		const staleness = calculateIssueStaleness(issue, settings);
 		if (staleness.level === 'warning') {
 			counts.warning++;
 		} else if (staleness.level === 'critical') {
@@ -106,13 +218,15 @@ export function countStaleIssues(
  * Get issues that need attention (critical first, then warning)
  */
 export function getIssuesNeedingAttention(
-	issues: Array<{ id: string; status: string; updated_at: string; title: string }>
-): Array<{ id: string; title: string; staleness: StalenessInfo }> {
+	issues: Array<StalenessSubject & { id: string; updated_at: string; title: string }>,
+	settings?: StalenessSettings | null
+): Array<{ id: string; title: string; status: string; staleness: StalenessInfo }> {
 	const staleIssues = issues
 		.map((issue) => ({
 			id: issue.id,
 			title: issue.title,
-			staleness: calculateStaleness(issue.status, issue.updated_at)
+			status: issue.status,
+			staleness: calculateIssueStaleness(issue, settings)
 		}))
 		.filter((item) => item.staleness.level !== 'none');
 
@@ -206,9 +320,12 @@ export function isStale(status: string, updatedAt: string | Date): boolean {
 
 /**
  * Get custom thresholds (for configuration)
+ * With settings, returns the per-status thresholds in effect for that project.
  */
-export function getThresholds(): Record<string, StalenessThreshold> {
-	return { ...STALENESS_THRESHOLDS };
+export function getThresholds(
+	settings?: StalenessSettings | null
+): Record<string, StalenessThreshold | null> {
+	return { ...STALENESS_THRESHOLDS, ...(settings?.thresholds ?? {}) };
 }
 
 /**
@@ -216,9 +333,11 @@ export function getThresholds(): Record<string, StalenessThreshold> {
  */
 export function getTimeUntilStale(
 	status: string,
-	updatedAt: string | Date
+	updatedAt: string | Date,
+	resolvedThreshold?: StalenessThreshold | null
 ): { untilWarning: number; untilCritical: number } | null {
-	const threshold = STALENESS_THRESHOLDS[status];
+	const threshold =
+		resolvedThreshold !== undefined ? resolvedThreshold : STALENESS_THRESHOLDS[status];
 	if (!threshold) return null;
 
 	const updatedDate = typeof updatedAt === 'string' ? new Date(updatedAt) : updatedAt;
@@ -230,3 +349,117 @@ export function getTimeUntilStale(
 		untilCritical: Math.max(0, threshold.criticalHours - hoursElapsed)
 	};
 }
+
+/**
+ * Get the one-click remediation offered for a stale bead in this status
+ */
+export function getStaleRemediation(status: string): StaleRemediation | null {
+	return STALE_REMEDIATIONS[status] ?? null;
+}
+
+/**
+ * Find a remediation by action name
+ */
+export function getStaleRemediationByAction(action: string): StaleRemediation | null {
+	return Object.values(STALE_REMEDIATIONS).find((r) => r.action === action) ?? null;
+}
+
+function validateThreshold(value: unknown, where: string, errors: string[]): StalenessThreshold | null {
+	if (typeof value !== 'object' || value === null) {
+		errors.push(`${where} must be an object with warningHours and criticalHours`);
+		return null;
+	}
+	const { warningHours, criticalHours } = value as Record<string, unknown>;
+	if (typeof warningHours !== 'number' || typeof criticalHours !== 'number') {
+		errors.push(`${where} must have numeric warningHours and criticalHours`);
+		return null;
+	}
+	if (warningHours <= 0 || criticalHours <= 0) {
+		errors.push(`${where} hours must be positive`);
+		return null;
+	}
+	if (criticalHours < warningHours) {
+		errors.push(`${where} criticalHours must be at least warningHours`);
+		return null;
+	}
+	return { warningHours, criticalHours };
+}
+
+/**
+ * Validate staleness settings submitted by a client
+ */
+export function validateStalenessSettings(input: unknown): {
+	settings: StalenessSettings | null;
+	errors: string[];
+} {
+	const errors: string[] = [];
+	if (typeof input !== 'object' || input === null) {
+		return { settings: null, errors: ['Settings must be an object'] };
+	}
+
+	const raw = input as Record<string, unknown>;
+	const thresholds: Record<string, StalenessThreshold | null> = {};
+	if (raw.thresholds !== undefined) {
+		if (typeof raw.thresholds !== 'object' || raw.thresholds === null) {
+			errors.push('thresholds must be a map of status to threshold');
+		} else {
+			for (const [status, value] of Object.entries(raw.thresholds)) {
+				if (value === null) {
+					thresholds[status] = null;
+					continue;
+				}
+				const threshold = validateThreshold(value, `thresholds.${status}`, errors);
+				if (threshold) thresholds[status] = threshold;
+			}
+		}
+	}
+
+	const overrides: StalenessOverride[] = [];
+	if (raw.overrides !== undefined) {
+		if (!Array.isArray(raw.overrides)) {
+			errors.push('overrides must be a list');
+		} else {
+			raw.overrides.forEach((value, index) => {
+				const where = `overrides[${index}]`;
+				const entry = value as Record<string, unknown>;
+				if (typeof entry?.status !== 'string' || !entry.status) {
+					errors.push(`${where} must have a status`);
+					return;
+				}
+				if (entry.issueType !== undefined && typeof entry.issueType !== 'string') {
+					errors.push(`${where}.issueType must be a string`);
+					return;
+				}
+				if (entry.priority !== undefined && !Number.isInteger(entry.priority)) {
+					errors.push(`${where}.priority must be an integer`);
+					return;
+				}
+				if (entry.issueType === undefined && entry.priority === undefined) {
+					errors.push(`${where} must set issueType and/or priority`);
+					return;
+				}
+				const threshold = validateThreshold(entry, where, errors);
+				if (!threshold) return;
+				overrides.push({
+					status: entry.status,
+					issueType: entry.issueType as string | undefined,
+					priority: entry.priority as number | undefined,
+					...threshold
+				});
+			});
+		}
+	}
+
+	if (errors.length > 0) {
+		return { settings: null, errors };
+	}
+
+	return {
+		settings: {
+			thresholds,
+			overrides,
+			notificationsEnabled: raw.notificationsEnabled !== false
+		},
+		errors
+	};
+}
@@ -0,0 +1,250 @@
+/**
+ * Stale Bead Sweeper
+ *
+ * Periodically checks every project's beads against its staleness settings and
+ * raises a desktop notification when a bead crosses into warning or critical.
+ * The last alerted level per bead is kept in dashboard.db so a bead is only
+ * announced once per level, even across restarts.
+ *
+ * Also implements the one-click remediations offered for stale beads.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import {
+	getAllProjects,
+	getProjectById,
+	getProjectStalenessSettings,
+	getStaleAlertLevels,
+	setStaleAlertLevel,
+	clearStaleAlert,
+	type Project
+} from './dashboard-db';
+import {
+	getAllIssues,
+	getIssueById,
+	updateIssue,
+	notifyDbChange,
+	refreshProjectDb
+} from './project-db';
+import {
+	calculateIssueStaleness,
+	getStaleRemediation,
+	getStaleRemediationByAction,
+	type StalenessLevel
+} from './stale-detection';
+import { notifyStaleBead } from './notification-helper';
+import { validateTransition } from './bead-lifecycle';
+import { getProjectWorkflow } from './bead-workflow';
+import { taskRunnerStore } from './task-runner-store';
+
+// Sweep every 5 minutes; the first sweep waits for startup to settle
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+const INITIAL_DELAY_MS = 30 * 1000;
+
+const LEVEL_RANK: Record<StalenessLevel, number> = {
+	none: 0,
+	warning: 1,
+	critical: 2
+};
+
+export interface StaleEscalation {
+	projectId: string;
+	issueId: string;
+	issueTitle: string;
+	from: StalenessLevel;
+	to: StalenessLevel;
+	message: string;
+}
+
+let sweepInterval: ReturnType<typeof setInterval> | null = null;
+let initialSweepTimeout: ReturnType<typeof setTimeout> | null = null;
+
+// ============================================================================
+// Sweeping
+// ============================================================================
+
+/**
+ * Check one project's beads and notify about any that became more stale
+ */
+export function sweepProject(project: Project): StaleEscalation[] {
+	if (!fs.existsSync(path.join(project.path, '.beads', 'beads.db'))) {
+		return [];
+	}
+
+	const settings = getProjectStalenessSettings(project.id);
+	const previous = getStaleAlertLevels(project.id);
+	const escalations: StaleEscalation[] = [];
+	const seen = new Set<string>();
+
+	for (const issue of getAllIssues(project.path)) {
+		const staleness = calculateIssueStaleness(issue, settings);
+		const prevLevel = previous.get(issue.id) ?? 'none';
+
+		if (staleness.level === 'none') {
+			continue;
+		}
+		seen.add(issue.id);
+
+		if (LEVEL_RANK[staleness.level] === LEVEL_RANK[prevLevel]) {
+			continue;
+		}
+
+		// Record de-escalations (e.g. thresholds loosened) without notifying
+		setStaleAlertLevel(project.id, issue.id, staleness.level);
+		if (LEVEL_RANK[staleness.level] < LEVEL_RANK[prevLevel]) {
+			continue;
+		}
+
+		escalations.push({
+			projectId: project.id,
+			issueId: issue.id,
+			issueTitle: issue.title,
+			from: prevLevel,
+			to: staleness.level,
+			message: staleness.message
+		});
+
+		if (settings?.notificationsEnabled !== false) {
+			const remediation = getStaleRemediation(issue.status);
+			notifyStaleBead({
+				projectId: project.id,
+				projectName: project.name,
+				issueId: issue.id,
+				issueTitle: issue.title,
+				level: staleness.level,
+				message: staleness.message,
+				remediation: remediation
+					? { action: remediation.action, label: remediation.label }
+					: undefined
+			});
+		}
+	}
+
+	// Beads that are no longer stale (updated, closed or deleted) can alert again later
+	for (const issueId of previous.keys()) {
+		if (!seen.has(issueId)) {
+			clearStaleAlert(project.id, issueId);
+		}
+	}
+
+	return escalations;
+}
+
+/**
+ * Sweep all registered projects
+ */
+export function sweepAllProjects(): StaleEscalation[] {
+	const escalations: StaleEscalation[] = [];
+
+	for (const project of getAllProjects()) {
+		try {
+			escalations.push(...sweepProject(project));
+		} catch (err) {
+			console.error(`[StaleSweeper] Failed to sweep project ${project.name}:`, err);
+		}
+	}
+
+	if (escalations.length > 0) {
+		console.log(`[StaleSweeper] ${escalations.length} bead(s) escalated`);
+	}
+	return escalations;
+}
+
+/**
+ * Start the background sweeper (no-op if already running)
+ */
+export function startStaleSweeper(intervalMs: number = SWEEP_INTERVAL_MS): void {
+	if (sweepInterval) return;
+
+	initialSweepTimeout = setTimeout(() => {
+		initialSweepTimeout = null;
+		sweepAllProjects();
+	}, INITIAL_DELAY_MS);
+	sweepInterval = setInterval(sweepAllProjects, intervalMs);
+
+	// Don't keep the process alive just for the sweeper
+	initialSweepTimeout.unref?.();
+	sweepInterval.unref?.();
+}
+
+/**
+ * Stop the background sweeper
+ */
+export function stopStaleSweeper(): void {
+	if (initialSweepTimeout) {
+		clearTimeout(initialSweepTimeout);
+		initialSweepTimeout = null;
+	}
+	if (sweepInterval) {
+		clearInterval(sweepInterval);
+		sweepInterval = null;
+	}
+}
+
+// ============================================================================
+// Remediation
+// ============================================================================
+
+/**
+ * Apply a one-click remediation to a stale bead, e.g. return a stale
+ * in_progress bead to ready and clear its agent
+ */
+export function remediateStaleBead(
+	projectId: string,
+	issueId: string,
+	action: string
+): { success: boolean; error?: string } {
+	const project = getProjectById(projectId);
+	if (!project) {
+		return { success: false, error: 'Project not found' };
+	}
+
+	const remediation = getStaleRemediationByAction(action);
+	if (!remediation) {
+		return { success: false, error: `Unknown remediation '${action}'` };
+	}
+
+	const issue = getIssueById(project.path, issueId);
+	if (!issue) {
+		return { success: false, error: 'Issue not found' };
+	}
+
+	if (issue.status !== remediation.fromStatus) {
+		return {
+			success: false,
+			error: `Bead is ${issue.status}, expected ${remediation.fromStatus}`
+		};
+	}
+
+	const run = taskRunnerStore.getForIssue(issueId);
+	if (run && (run.status === 'running' || run.status === 'queued' || run.status === 'paused')) {
+		return { success: false, error: 'Bead has an active task run; stop it first' };
+	}
+
+	const validation = validateTransition(
+		remediation.fromStatus,
+		remediation.toStatus,
+		{},
+		getProjectWorkflow(project.path)
+	);
+	if (!validation.valid) {
+		return { success: false, error: validation.error };
+	}
+
+	const updated = updateIssue(project.path, issueId, {
+		status: remediation.toStatus,
+		assignee: null,
+		agent_id: ''
+	});
+	if (!updated) {
+		return { success: false, error: 'Failed to update bead' };
+	}
+
+	notifyDbChange(project.path);
+	refreshProjectDb(project.path);
+	clearStaleAlert(projectId, issueId);
+
+	console.log(`[StaleSweeper] ${remediation.label}: ${issueId}`);
+	return { success: true };
+}
@@ -0,0 +1,12 @@
+/**
+ * Staleness Settings Store
+ *
+ * Holds the open project's staleness settings so every issue card and the
+ * stale beads panel apply the same per-project thresholds.
+ * Null means the built-in defaults.
+ */
+
+import { writable } from 'svelte/store';
+import type { StalenessSettings } from '$lib/stale-detection';
+
+export const stalenessSettings = writable<StalenessSettings | null>(null);
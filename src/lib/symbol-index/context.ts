@@ -0,0 +1,208 @@
+/**
+ * Context pack data from the symbol index
+ *
+ * Turns an entry point into ContextSymbols and ContextDependencies by seeding
+ * from the index (symbol name, file, or query keywords) and walking callers
+ * and callees breadth-first up to the configured depth.
+ */
+
+import path from 'path';
+import type {
+	ContextDependency,
+	ContextPackConfig,
+	ContextPackRequest,
+	ContextSymbol
+} from '../context-pack-types';
+import { estimateTokens } from '../context-pack-types';
+import type { SymbolEdge, SymbolRecord, SymbolReferenceKind } from './types';
+import { findSymbols, getFileImports, getIncomingEdges, getOutgoingEdges, getSymbolsInFile } from './db';
+
+/** Relevance kept per hop away from the entry point */
+const HOP_DECAY = 0.7;
+
+const TEST_FILE_PATTERN = /(^|\/)__tests__\/|\.(test|spec)\.[cm]?[jt]sx?$/;
+
+const DEPENDENCY_TYPES: Record<SymbolReferenceKind, ContextDependency['type']> = {
+	call: 'calls',
+	new: 'calls',
+	extends: 'extends',
+	implements: 'implements',
+	render: 'uses'
+};
+
+/** Reason given to the target of an edge reached from its source */
+const OUTGOING_REASONS: Record<SymbolReferenceKind, string> = {
+	call: 'Called by',
+	new: 'Instantiated by',
+	extends: 'Extended by',
+	implements: 'Implemented by',
+	render: 'Rendered by'
+};
+
+/** Reason given to the source of an edge reached from its target */
+const INCOMING_REASONS: Record<SymbolReferenceKind, string> = {
+	call: 'Calls',
+	new: 'Instantiates',
+	extends: 'Extends',
+	implements: 'Implements',
+	render: 'Renders'
+};
+
+export interface SymbolContext {
+	symbols: ContextSymbol[];
+	dependencies: ContextDependency[];
+}
+
+interface Seed {
+	symbol: SymbolRecord;
+	relevance: number;
+	reason: string;
+}
+
+function symbolKey(symbol: SymbolRecord): string {
+	return `${symbol.filePath}:${symbol.qualifiedName}`;
+}
+
+/**
+ * Find the symbols a request starts from
+ */
+function findSeeds(projectPath: string, request: ContextPackRequest, config: ContextPackConfig): Seed[] {
+	if (request.entryPointType === 'symbol') {
+		const exact = findSymbols(projectPath, request.entryPoint, { exact: true, limit: 5 });
+		if (exact.length > 0) {
+			return exact.map((symbol) => ({ symbol, relevance: 1.0, reason: 'Entry point' }));
+		}
+		return findSymbols(projectPath, request.entryPoint, { limit: 5 }).map((symbol) => ({
+			symbol,
+			relevance: 0.8,
+			reason: 'Matches entry point'
+		}));
+	}
+
+	if (request.entryPointType === 'file') {
+		const filePath = path.isAbsolute(request.entryPoint)
+			? path.relative(projectPath, request.entryPoint)
+			: path.normalize(request.entryPoint);
+		return getSymbolsInFile(projectPath, filePath.split(path.sep).join('/')).map((symbol) => ({
+			symbol,
+			relevance: symbol.exported ? 1.0 : 0.9,
+			reason: `Declared in ${request.entryPoint}`
+		}));
+	}
+
+	const keywords = [
+		...request.entryPoint.split(/\s+/).filter((k) => k.length > 2),
+		...(config.keywords ?? [])
+	].slice(0, 5);
+	const perKeyword = Math.max(1, Math.floor(config.maxSymbols / Math.max(keywords.length, 1) / 2));
+	return keywords.flatMap((keyword) =>
+		findSymbols(projectPath, keyword, { limit: perKeyword }).map((symbol) => ({
+			symbol,
+			relevance: 0.8,
+			reason: `Matches keyword: ${keyword}`
+		}))
+	);
+}
+
+function toContextSymbol(
+	symbol: SymbolRecord,
+	relevance: number,
+	reason: string,
+	config: ContextPackConfig
+): ContextSymbol {
+	return {
+		name: symbol.qualifiedName,
+		kind: symbol.kind,
+		filePath: symbol.filePath,
+		line: symbol.line,
+		signature: symbol.signature,
+		code: symbol.code,
+		documentation: config.includeDocumentation ? symbol.documentation : undefined,
+		relevance: Math.round(relevance * 100) / 100,
+		reason,
+		tokenEstimate: estimateTokens(symbol.code || symbol.signature || symbol.name)
+	};
+}
+
+/**
+ * Build context pack symbols and dependencies for a request from the index
+ */
+export function buildSymbolContext(
+	projectPath: string,
+	request: ContextPackRequest,
+	config: ContextPackConfig
+): SymbolContext {
+	const isExcluded = (symbol: SymbolRecord) => !config.includeTests && TEST_FILE_PATTERN.test(symbol.filePath);
+
+	const included = new Map<string, ContextSymbol>();
+	const dependencies: ContextDependency[] = [];
+	const seenDependencies = new Set<string>();
+	const queue: { symbol: SymbolRecord; depth: number; relevance: number }[] = [];
+
+	const addDependency = (dependency: ContextDependency) => {
+		const key = `${dependency.fromFile}:${dependency.from}>${dependency.toFile}:${dependency.to}:${dependency.type}`;
+		if (!seenDependencies.has(key)) {
+			seenDependencies.add(key);
+			dependencies.push(dependency);
+		}
+	};
+
+	const visit = (symbol: SymbolRecord, depth: number, relevance: number, reason: string) => {
+		const key = symbolKey(symbol);
+		if (included.has(key) || included.size >= config.maxSymbols || isExcluded(symbol)) {
+			return;
+		}
+		included.set(key, toContextSymbol(symbol, relevance, reason, config));
+		queue.push({ symbol, depth, relevance });
+	};
+
+	const seeds = findSeeds(projectPath, request, config);
+	for (const seed of seeds) {
+		visit(seed.symbol, 0, seed.relevance, seed.reason);
+	}
+
+	while (queue.length > 0) {
+		const { symbol, depth, relevance } = queue.shift()!;
+		if (depth >= config.maxDepth) continue;
+
+		const nextRelevance = relevance * HOP_DECAY;
+		const record = (edge: SymbolEdge, from: SymbolRecord) =>
+			addDependency({
+				from: from.qualifiedName,
+				to: edge.to.qualifiedName,
+				type: DEPENDENCY_TYPES[edge.kind],
+				fromFile: from.filePath,
+				toFile: edge.to.filePath
+			});
+
+		for (const edge of getOutgoingEdges(projectPath, symbol)) {
+			if (isExcluded(edge.to)) continue;
+			record(edge, symbol);
+			visit(edge.to, depth + 1, nextRelevance, `${OUTGOING_REASONS[edge.kind]} ${symbol.qualifiedName}`);
+		}
+
+		for (const edge of getIncomingEdges(projectPath, symbol)) {
+			if (!edge.from || isExcluded(edge.from)) continue;
+			record(edge, edge.from);
+			visit(edge.from, depth + 1, nextRelevance, `${INCOMING_REASONS[edge.kind]} ${symbol.qualifiedName}`);
+		}
+	}
+
+	// Module-level import edges of the files the entry point lives in
+	const seedFiles = new Set(seeds.map((seed) => seed.symbol.filePath));
+	for (const filePath of seedFiles) {
+		for (const imported of getFileImports(projectPath, filePath)) {
+			if (!imported.resolvedPath) continue;
+			addDependency({
+				from: filePath,
+				to: imported.importedName === '*' ? imported.resolvedPath : imported.importedName,
+				type: 'imports',
+				fromFile: filePath,
+				toFile: imported.resolvedPath
+			});
+		}
+	}
+
+	const symbols = [...included.values()].sort((a, b) => b.relevance - a.relevance);
+	return { symbols, dependencies };
+}
@@ -0,0 +1,532 @@
+/**
+ * Database operations for the built-in symbol index
+ *
+ * Location: <project_root>/.beads/symbol-index.db
+ *
+ * The index is a cache of the source tree: every table is keyed by file path
+ * and a file's rows are replaced as a whole when it is re-indexed, so it can be
+ * deleted at any time and rebuilt by updateSymbolIndex().
+ */
+
+import Database from 'better-sqlite3';
+import { join, dirname } from 'path';
+import { existsSync, mkdirSync } from 'fs';
+import type {
+	ExtractedFile,
+	SymbolEdge,
+	SymbolImport,
+	SymbolRecord,
+	SymbolReferenceKind
+} from './types';
+import { SYMBOL_INDEX_SCHEMA_VERSION } from './types';
+import type { SymbolKind } from '../context-pack-types';
+
+// ============================================================================
+// Database Path Helpers
+// ============================================================================
+
+/**
+ * Get the path to the symbol index database for a project
+ */
+export function getSymbolIndexPath(projectPath: string): string {
+	return join(projectPath, '.beads', 'symbol-index.db');
+}
+
+/**
+ * Check whether a project has a symbol index
+ */
+export function symbolIndexExists(projectPath: string): boolean {
+	return existsSync(getSymbolIndexPath(projectPath));
+}
+
+// ============================================================================
+// Connection Management
+// ============================================================================
+
+// One connection per database path; the index is only written by this process
+const connections = new Map<string, Database.Database>();
+
+const SCHEMA_DDL = `
+CREATE TABLE IF NOT EXISTS index_meta (
+	key TEXT PRIMARY KEY,
+	value TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS indexed_files (
+	path TEXT PRIMARY KEY,
+	hash TEXT NOT NULL,
+	mtime_ms REAL NOT NULL,
+	size INTEGER NOT NULL,
+	indexed_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS symbols (
+	id INTEGER PRIMARY KEY AUTOINCREMENT,
+	file_path TEXT NOT NULL,
+	name TEXT NOT NULL,
+	container TEXT,
+	qualified_name TEXT NOT NULL,
+	kind TEXT NOT NULL,
+	exported INTEGER NOT NULL DEFAULT 0,
+	is_default INTEGER NOT NULL DEFAULT 0,
+	line INTEGER NOT NULL,
+	end_line INTEGER NOT NULL,
+	signature TEXT,
+	documentation TEXT,
+	code TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_symbols_file ON symbols(file_path);
+CREATE INDEX IF NOT EXISTS idx_symbols_name ON symbols(name);
+CREATE INDEX IF NOT EXISTS idx_symbols_qualified ON symbols(file_path, qualified_name);
+
+CREATE TABLE IF NOT EXISTS symbol_imports (
+	file_path TEXT NOT NULL,
+	specifier TEXT NOT NULL,
+	resolved_path TEXT,
+	imported_name TEXT NOT NULL,
+	local_name TEXT NOT NULL,
+	reexport INTEGER NOT NULL DEFAULT 0,
+	line INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_symbol_imports_file ON symbol_imports(file_path);
+CREATE INDEX IF NOT EXISTS idx_symbol_imports_resolved ON symbol_imports(resolved_path);
+
+CREATE TABLE IF NOT EXISTS symbol_references (
+	file_path TEXT NOT NULL,
+	from_name TEXT,
+	target_path TEXT NOT NULL,
+	target_name TEXT NOT NULL,
+	kind TEXT NOT NULL,
+	line INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_symbol_references_from ON symbol_references(file_path, from_name);
+CREATE INDEX IF NOT EXISTS idx_symbol_references_target ON symbol_references(target_path, target_name);
+`;
+
+/** Tables holding per-file rows */
+const FILE_TABLES = ['symbols', 'symbol_imports', 'symbol_references'] as const;
+
+/**
+ * Get the connection to a project's symbol index, creating it if needed
+ * An index written by an older schema version is dropped and rebuilt.
+ */
+export function getSymbolIndexDb(projectPath: string): Database.Database {
+	const dbPath = getSymbolIndexPath(projectPath);
+	const existing = connections.get(dbPath);
+	if (existing?.open) {
+		return existing;
+	}
+
+	const dbDir = dirname(dbPath);
+	if (!existsSync(dbDir)) {
+		mkdirSync(dbDir, { recursive: true });
+	}
+
+	const db = new Database(dbPath, { timeout: 10000 });
+	db.pragma('journal_mode = WAL');
+
+	const version = (() => {
+		try {
+			const row = db.prepare("SELECT value FROM index_meta WHERE key = 'schema_version'").get() as
+				| { value: string }
+				| undefined;
+			return row ? Number(row.value) : null;
+		} catch {
+			return null;
+		}
+	})();
+	if (version !== null && version !== SYMBOL_INDEX_SCHEMA_VERSION) {
+		db.exec(`DROP TABLE IF EXISTS indexed_files; ${FILE_TABLES.map((t) => `DROP TABLE IF EXISTS ${t};`).join(' ')}`);
+	}
+
+	db.exec(SCHEMA_DDL);
+	db.prepare("INSERT OR REPLACE INTO index_meta (key, value) VALUES ('schema_version', ?)").run(
+		String(SYMBOL_INDEX_SCHEMA_VERSION)
+	);
+
+	connections.set(dbPath, db);
+	return db;
+}
+
+/**
+ * Close symbol index connections (all projects if none is given)
+ */
+export function closeSymbolIndex(projectPath?: string): void {
+	const paths = projectPath ? [getSymbolIndexPath(projectPath)] : [...connections.keys()];
+	for (const dbPath of paths) {
+		try {
+			connections.get(dbPath)?.close();
+		} catch {
+			// Ignore
+		}
+		connections.delete(dbPath);
+	}
+}
+
+// ============================================================================
+// Writes
+// ============================================================================
+
+export interface IndexedFileInfo {
+	hash: string;
+	mtimeMs: number;
+	size: number;
+}
+
+/**
+ * Get the recorded hash, mtime and size of every indexed file
+ */
+export function getIndexedFiles(projectPath: string): Map<string, IndexedFileInfo> {
+	const rows = getSymbolIndexDb(projectPath)
+		.prepare('SELECT path, hash, mtime_ms, size FROM indexed_files')
+		.all() as { path: string; hash: string; mtime_ms: number; size: number }[];
+	return new Map(rows.map((r) => [r.path, { hash: r.hash, mtimeMs: r.mtime_ms, size: r.size }]));
+}
+
+/**
+ * Replace everything indexed for a file
+ */
+export function writeFileSymbols(
+	projectPath: string,
+	filePath: string,
+	info: IndexedFileInfo,
+	extracted: ExtractedFile
+): void {
+	const db = getSymbolIndexDb(projectPath);
+	const insertSymbol = db.prepare(`
+		INSERT INTO symbols (file_path, name, container, qualified_name, kind, exported, is_default,
+			line, end_line, signature, documentation, code)
+		VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+	`);
+	const insertImport = db.prepare(`
+		INSERT INTO symbol_imports (file_path, specifier, resolved_path, imported_name, local_name, reexport, line)
+		VALUES (?, ?, ?, ?, ?, ?, ?)
+	`);
+	const insertReference = db.prepare(`
+		INSERT INTO symbol_references (file_path, from_name, target_path, target_name, kind, line)
+		VALUES (?, ?, ?, ?, ?, ?)
+	`);
+
+	db.transaction(() => {
+		for (const table of FILE_TABLES) {
+			db.prepare(`DELETE FROM ${table} WHERE file_path = ?`).run(filePath);
+		}
+		for (const s of extracted.symbols) {
+			insertSymbol.run(
+				filePath,
+				s.name,
+				s.container ?? null,
+				s.qualifiedName,
+				s.kind,
+				s.exported ? 1 : 0,
+				s.isDefault ? 1 : 0,
+				s.line,
+				s.endLine,
+				s.signature ?? null,
+				s.documentation ?? null,
+				s.code ?? null
+			);
+		}
+		for (const i of extracted.imports) {
+			insertImport.run(
+				filePath,
+				i.specifier,
+				i.resolvedPath ?? null,
+				i.importedName,
+				i.localName,
+				i.reexport ? 1 : 0,
+				i.line
+			);
+		}
+		for (const r of extracted.references) {
+			insertReference.run(filePath, r.fromName ?? null, r.targetPath, r.targetName, r.kind, r.line);
+		}
+		db.prepare(`
+			INSERT OR REPLACE INTO indexed_files (path, hash, mtime_ms, size, indexed_at)
+			VALUES (?, ?, ?, ?, ?)
+		`).run(filePath, info.hash, info.mtimeMs, info.size, new Date().toISOString());
+	})();
+}
+
+/**
+ * Record a new mtime for a file whose content did not change
+ */
+export function touchIndexedFile(projectPath: string, filePath: string, info: IndexedFileInfo): void {
+	getSymbolIndexDb(projectPath)
+		.prepare('UPDATE indexed_files SET mtime_ms = ?, size = ? WHERE path = ?')
+		.run(info.mtimeMs, info.size, filePath);
+}
+
+/**
+ * Drop files from the index
+ */
+export function removeIndexedFiles(projectPath: string, filePaths: string[]): void {
+	if (filePaths.length === 0) return;
+
+	const db = getSymbolIndexDb(projectPath);
+	db.transaction(() => {
+		for (const filePath of filePaths) {
+			for (const table of FILE_TABLES) {
+				db.prepare(`DELETE FROM ${table} WHERE file_path = ?`).run(filePath);
+			}
+			db.prepare('DELETE FROM indexed_files WHERE path = ?').run(filePath);
+		}
+	})();
+}
+
+/**
+ * Record when the index was last brought up to date
+ */
+export function setLastUpdatedAt(projectPath: string, date: string): void {
+	getSymbolIndexDb(projectPath)
+		.prepare("INSERT OR REPLACE INTO index_meta (key, value) VALUES ('last_updated_at', ?)")
+		.run(date);
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+interface SymbolRow {
+	file_path: string;
+	name: string;
+	container: string | null;
+	qualified_name: string;
+	kind: string;
+	exported: number;
+	is_default: number;
+	line: number;
+	end_line: number;
+	signature: string | null;
+	documentation: string | null;
+	code: string | null;
+}
+
+function rowToSymbol(row: SymbolRow): SymbolRecord {
+	return {
+		filePath: row.file_path,
+		name: row.name,
+		container: row.container ?? undefined,
+		qualifiedName: row.qualified_name,
+		kind: row.kind as SymbolKind,
+		exported: row.exported === 1,
+		isDefault: row.is_default === 1,
+		line: row.line,
+		endLine: row.end_line,
+		signature: row.signature ?? undefined,
+		documentation: row.documentation ?? undefined,
+		code: row.code ?? undefined
+	};
+}
+
+const SYMBOL_COLUMNS = `file_path, name, container, qualified_name, kind, exported, is_default,
+	line, end_line, signature, documentation, code`;
+
+/**
+ * Find symbols by name
+ * Exact matches compare the name or qualified name; otherwise a
+ * case-insensitive substring match is used. Exported symbols come first.
+ */
+export function findSymbols(
+	projectPath: string,
+	query: string,
+	options: { exact?: boolean; kind?: SymbolKind; limit?: number } = {}
+): SymbolRecord[] {
+	const db = getSymbolIndexDb(projectPath);
+	const conditions = options.exact
+		? ['(name = ? OR qualified_name = ?)']
+		: ["qualified_name LIKE ? ESCAPE '\\' COLLATE NOCASE"];
+	const params: (string | number)[] = options.exact
+		? [query, query]
+		: [`%${query.replace(/[\\%_]/g, (c) => `\\${c}`)}%`];
+
+	if (options.kind) {
+		conditions.push('kind = ?');
+		params.push(options.kind);
+	}
+
+	const rows = db
+		.prepare(
+			`SELECT ${SYMBOL_COLUMNS} FROM symbols
+			WHERE ${conditions.join(' AND ')}
+			ORDER BY name = ? COLLATE NOCASE DESC, exported DESC, length(qualified_name), file_path
+			LIMIT ?`
+		)
+		.all(...params, query, options.limit ?? 20) as SymbolRow[];
+	return rows.map(rowToSymbol);
+}
+
+/**
+ * Get the symbols declared in a file, in source order
+ */
+export function getSymbolsInFile(projectPath: string, filePath: string): SymbolRecord[] {
+	const rows = getSymbolIndexDb(projectPath)
+		.prepare(`SELECT ${SYMBOL_COLUMNS} FROM symbols WHERE file_path = ? ORDER BY line`)
+		.all(filePath) as SymbolRow[];
+	return rows.map(rowToSymbol);
+}
+
+/**
+ * Look up the declaration a reference points at, following up to three
+ * re-exports (`export { x } from './y'`, `export * from './y'`)
+ */
+export function resolveSymbol(
+	projectPath: string,
+	filePath: string,
+	name: string,
+	depth = 0
+): SymbolRecord | null {
+	const db = getSymbolIndexDb(projectPath);
+	const row = (
+		name === 'default'
+			? db.prepare(`SELECT ${SYMBOL_COLUMNS} FROM symbols WHERE file_path = ? AND is_default = 1 LIMIT 1`).get(filePath)
+			: db
+					.prepare(`SELECT ${SYMBOL_COLUMNS} FROM symbols WHERE file_path = ? AND qualified_name = ? LIMIT 1`)
+					.get(filePath, name)
+	) as SymbolRow | undefined;
+	if (row) return rowToSymbol(row);
+	if (depth >= 3) return null;
+
+	const reexports = db
+		.prepare(
+			`SELECT resolved_path, imported_name, local_name FROM symbol_imports
+			WHERE file_path = ? AND reexport = 1 AND resolved_path IS NOT NULL AND (local_name = ? OR local_name = '*')`
+		)
+		.all(filePath, name) as { resolved_path: string; imported_name: string; local_name: string }[];
+	for (const reexport of reexports) {
+		const target = resolveSymbol(
+			projectPath,
+			reexport.resolved_path,
+			reexport.local_name === '*' ? name : reexport.imported_name,
+			depth + 1
+		);
+		if (target) return target;
+	}
+	return null;
+}
+
+interface ReferenceRow {
+	file_path: string;
+	from_name: string | null;
+	target_path: string;
+	target_name: string;
+	kind: string;
+	line: number;
+}
+
+function findFromSymbol(projectPath: string, row: ReferenceRow): SymbolRecord | null {
+	return row.from_name ? resolveSymbol(projectPath, row.file_path, row.from_name, 3) : null;
+}
+
+/**
+ * Get what a symbol refers to (calls, instantiations, base types, rendered components)
+ */
+export function getOutgoingEdges(projectPath: string, symbol: SymbolRecord): SymbolEdge[] {
+	const rows = getSymbolIndexDb(projectPath)
+		.prepare('SELECT * FROM symbol_references WHERE file_path = ? AND from_name = ? ORDER BY line')
+		.all(symbol.filePath, symbol.qualifiedName) as ReferenceRow[];
+
+	const edges: SymbolEdge[] = [];
+	for (const row of rows) {
+		const to = resolveSymbol(projectPath, row.target_path, row.target_name);
+		if (to) {
+			edges.push({ from: symbol, fromFile: row.file_path, to, kind: row.kind as SymbolReferenceKind, line: row.line });
+		}
+	}
+	return edges;
+}
+
+/**
+ * Get the references to a symbol, including through files that re-export it
+ */
+export function getIncomingEdges(projectPath: string, symbol: SymbolRecord): SymbolEdge[] {
+	const db = getSymbolIndexDb(projectPath);
+
+	// Names the symbol is reachable as: its own file, plus one level of re-exports
+	const targets: { path: string; name: string }[] = [{ path: symbol.filePath, name: symbol.qualifiedName }];
+	if (symbol.isDefault) {
+		targets.push({ path: symbol.filePath, name: 'default' });
+	}
+	if (!symbol.container) {
+		const reexports = db
+			.prepare(
+				`SELECT file_path, local_name FROM symbol_imports
+				WHERE resolved_path = ? AND reexport = 1 AND (imported_name = ? OR imported_name = '*')`
+			)
+			.all(symbol.filePath, symbol.name) as { file_path: string; local_name: string }[];
+		for (const reexport of reexports) {
+			targets.push({
+				path: reexport.file_path,
+				name: reexport.local_name === '*' ? symbol.name : reexport.local_name
+			});
+		}
+	}
+
+	const select = db.prepare(
+		'SELECT * FROM symbol_references WHERE target_path = ? AND target_name = ? ORDER BY file_path, line'
+	);
+	const edges: SymbolEdge[] = [];
+	for (const target of targets) {
+		for (const row of select.all(target.path, target.name) as ReferenceRow[]) {
+			edges.push({
+				from: findFromSymbol(projectPath, row),
+				fromFile: row.file_path,
+				to: symbol,
+				kind: row.kind as SymbolReferenceKind,
+				line: row.line
+			});
+		}
+	}
+	return edges;
+}
+
+interface ImportRow {
+	specifier: string;
+	resolved_path: string | null;
+	imported_name: string;
+	local_name: string;
+	reexport: number;
+	line: number;
+}
+
+/**
+ * Get a file's imports and re-exports
+ */
+export function getFileImports(projectPath: string, filePath: string): SymbolImport[] {
+	const rows = getSymbolIndexDb(projectPath)
+		.prepare('SELECT * FROM symbol_imports WHERE file_path = ? ORDER BY line')
+		.all(filePath) as ImportRow[];
+	return rows.map((r) => ({
+		specifier: r.specifier,
+		resolvedPath: r.resolved_path ?? undefined,
+		importedName: r.imported_name,
+		localName: r.local_name,
+		reexport: r.reexport === 1,
+		line: r.line
+	}));
+}
+
+/**
+ * Count what the index holds
+ */
+export function getSymbolIndexCounts(projectPath: string): {
+	fileCount: number;
+	symbolCount: number;
+	importCount: number;
+	referenceCount: number;
+	lastUpdatedAt?: string;
+} {
+	const db = getSymbolIndexDb(projectPath);
+	const count = (table: string) => (db.prepare(`SELECT COUNT(*) AS n FROM ${table}`).get() as { n: number }).n;
+	const lastUpdated = db.prepare("SELECT value FROM index_meta WHERE key = 'last_updated_at'").get() as
+		| { value: string }
+		| undefined;
+
+	return {
+		fileCount: count('indexed_files'),
+		symbolCount: count('symbols'),
+		importCount: count('symbol_imports'),
+		referenceCount: count('symbol_references'),
+		lastUpdatedAt: lastUpdated?.value
+	};
+}
@@ -0,0 +1,430 @@
+/**
+ * Symbol extraction for the built-in symbol index
+ *
+ * Parses one TS/JS/Svelte file with the TypeScript compiler API and returns its
+ * declarations, imports and the references that resolve to a declaration in
+ * the project. Svelte files are indexed as a component symbol plus the
+ * contents of their <script> blocks; components used in the markup count as
+ * references from the component.
+ *
+ * Only syntax is used (no type checker), so a reference is resolved when its
+ * target is a top-level declaration of the same file, an imported binding,
+ * a member of a namespace import, or a method called through `this`.
+ */
+
+import ts from 'typescript';
+import { basename, extname } from 'path';
+import type { SymbolKind } from '../context-pack-types';
+import type {
+	ExtractedFile,
+	IndexedSymbol,
+	SymbolImport,
+	SymbolReference,
+	SymbolReferenceKind
+} from './types';
+import { MAX_SYMBOL_CODE_LENGTH } from './types';
+
+/**
+ * Resolve a module specifier to a project-relative path
+ */
+export type ImportResolver = (specifier: string) => string | undefined;
+
+const HTTP_METHODS = new Set(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS', 'HEAD']);
+
+const MAX_SIGNATURE_LENGTH = 240;
+
+interface ScriptBlock {
+	content: string;
+	lineOffset: number;
+	scriptKind: ts.ScriptKind;
+}
+
+interface ParsedBlock {
+	sourceFile: ts.SourceFile;
+	lineOffset: number;
+}
+
+/** Where a declaration node sits, used to attribute references to it */
+interface Enclosing {
+	name?: string;
+	container?: string;
+}
+
+// ============================================================================
+// Source Blocks
+// ============================================================================
+
+function scriptKindForPath(filePath: string): ts.ScriptKind {
+	switch (extname(filePath).toLowerCase()) {
+		case '.tsx':
+			return ts.ScriptKind.TSX;
+		case '.jsx':
+			return ts.ScriptKind.JSX;
+		case '.js':
+		case '.mjs':
+		case '.cjs':
+			return ts.ScriptKind.JS;
+		default:
+			return ts.ScriptKind.TS;
+	}
+}
+
+function countLines(text: string): number {
+	return text.split('\n').length - 1;
+}
+
+/**
+ * Split a file into the parts parsed as script
+ */
+function getScriptBlocks(filePath: string, content: string): ScriptBlock[] {
+	if (!filePath.endsWith('.svelte')) {
+		return [{ content, lineOffset: 0, scriptKind: scriptKindForPath(filePath) }];
+	}
+
+	const blocks: ScriptBlock[] = [];
+	for (const match of content.matchAll(/<script\b([^>]*)>([\s\S]*?)<\/script>/g)) {
+		const start = match.index! + match[0].indexOf('>') + 1;
+		blocks.push({
+			content: match[2],
+			lineOffset: countLines(content.slice(0, start)),
+			scriptKind: /lang=["'](ts|typescript)["']/.test(match[1]) ? ts.ScriptKind.TS : ts.ScriptKind.JS
+		});
+	}
+	return blocks;
+}
+
+/**
+ * Replace script and style blocks with blank lines, keeping line numbers
+ */
+function getSvelteMarkup(content: string): string {
+	return content.replace(/<(script|style)\b[\s\S]*?<\/\1>/g, (block) =>
+		block.replace(/[^\n]/g, ' ')
+	);
+}
+
+function componentName(filePath: string): string {
+	return basename(filePath, extname(filePath))
+		.split(/[^A-Za-z0-9]+/)
+		.filter(Boolean)
+		.map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+		.join('');
+}
+
+// ============================================================================
+// Node Helpers
+// ============================================================================
+
+function hasModifier(node: ts.Node, flag: ts.ModifierFlags): boolean {
+	return ts.canHaveModifiers(node) && (ts.getCombinedModifierFlags(node as ts.Declaration) & flag) !== 0;
+}
+
+function isFunctionInitializer(node: ts.Expression | undefined): boolean {
+	return !!node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node));
+}
+
+function getDocumentation(node: ts.Node): string | undefined {
+	for (const doc of ts.getJSDocCommentsAndTags(node)) {
+		if (ts.isJSDoc(doc)) {
+			const text = ts.getTextOfJSDocComment(doc.comment)?.trim();
+			if (text) return text;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Declaration text up to its body, with whitespace collapsed
+ */
+function getSignature(node: ts.Node, sourceFile: ts.SourceFile): string {
+	let body: ts.Node | undefined;
+	if (ts.isFunctionLike(node) && 'body' in node) {
+		body = (node as ts.FunctionLikeDeclaration).body;
+	} else if (ts.isVariableStatement(node)) {
+		const init = node.declarationList.declarations[0]?.initializer;
+		if (init && isFunctionInitializer(init)) {
+			body = (init as ts.ArrowFunction | ts.FunctionExpression).body;
+		}
+	}
+
+	const start = node.getStart(sourceFile);
+	let text: string;
+	if (body) {
+		text = sourceFile.text.slice(start, body.getStart(sourceFile));
+	} else if (ts.isClassDeclaration(node) || ts.isInterfaceDeclaration(node) || ts.isEnumDeclaration(node)) {
+		text = node.getText(sourceFile).split('{')[0];
+	} else {
+		text = node.getText(sourceFile).split('\n')[0];
+	}
+
+	const signature = text.replace(/\s+/g, ' ').replace(/\s*(=>)?\s*$/, '').trim();
+	return signature.length > MAX_SIGNATURE_LENGTH
+		? `${signature.slice(0, MAX_SIGNATURE_LENGTH - 3)}...`
+		: signature;
+}
+
+function getCode(node: ts.Node, sourceFile: ts.SourceFile): string {
+	const code = node.getText(sourceFile);
+	return code.length > MAX_SYMBOL_CODE_LENGTH
+		? `${code.slice(0, MAX_SYMBOL_CODE_LENGTH)}\n// ... truncated`
+		: code;
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/**
+ * Extract declarations, imports and resolved references from a source file
+ *
+ * @param filePath - Project-relative path (used for resolution and kinds)
+ * @param content - File content
+ * @param resolveImport - Maps a specifier to a project file; packages return undefined
+ */
+export function extractFileSymbols(
+	filePath: string,
+	content: string,
+	resolveImport: ImportResolver = () => undefined
+): ExtractedFile {
+	const isSvelte = filePath.endsWith('.svelte');
+	const isServerRoute = basename(filePath).startsWith('+server.');
+
+	const blocks: ParsedBlock[] = getScriptBlocks(filePath, content).map((block) => ({
+		sourceFile: ts.createSourceFile(filePath, block.content, ts.ScriptTarget.Latest, true, block.scriptKind),
+		lineOffset: block.lineOffset
+	}));
+
+	const symbols: IndexedSymbol[] = [];
+	const imports: SymbolImport[] = [];
+	const exportedLocals = new Set<string>();
+	let defaultLocal: string | undefined;
+	const enclosingByNode = new Map<ts.Node, Enclosing>();
+
+	const component = isSvelte ? componentName(filePath) : undefined;
+	if (component) {
+		symbols.push({
+			name: component,
+			qualifiedName: component,
+			kind: 'component',
+			exported: true,
+			isDefault: true,
+			line: 1,
+			endLine: countLines(content) + 1,
+			signature: `<${component}>`
+		});
+	}
+
+	// Imports, re-exports and export lists
+	for (const { sourceFile, lineOffset } of blocks) {
+		const lineOf = (node: ts.Node) =>
+			sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1 + lineOffset;
+
+		for (const statement of sourceFile.statements) {
+			if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+				const specifier = statement.moduleSpecifier.text;
+				const resolvedPath = resolveImport(specifier);
+				const clause = statement.importClause;
+				const add = (importedName: string, localName: string) =>
+					imports.push({ specifier, resolvedPath, importedName, localName, reexport: false, line: lineOf(statement) });
+
+				if (clause?.name) {
+					add('default', clause.name.text);
+				}
+				if (clause?.namedBindings && ts.isNamespaceImport(clause.namedBindings)) {
+					add('*', clause.namedBindings.name.text);
+				} else if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+					for (const element of clause.namedBindings.elements) {
+						add((element.propertyName ?? element.name).text, element.name.text);
+					}
+				}
+			} else if (ts.isExportDeclaration(statement)) {
+				const clause = statement.exportClause;
+				if (statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)) {
+					const specifier = statement.moduleSpecifier.text;
+					const resolvedPath = resolveImport(specifier);
+					const add = (importedName: string, localName: string) =>
+						imports.push({ specifier, resolvedPath, importedName, localName, reexport: true, line: lineOf(statement) });
+
+					if (!clause) {
+						add('*', '*');
+					} else if (ts.isNamespaceExport(clause)) {
+						add('*', clause.name.text);
+					} else {
+						for (const element of clause.elements) {
+							add((element.propertyName ?? element.name).text, element.name.text);
+						}
+					}
+				} else if (clause && ts.isNamedExports(clause)) {
+					for (const element of clause.elements) {
+						const local = (element.propertyName ?? element.name).text;
+						exportedLocals.add(local);
+						if (element.name.text === 'default') defaultLocal = local;
+					}
+				}
+			} else if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+				defaultLocal = statement.expression.text;
+			}
+		}
+	}
+
+	// Declarations
+	for (const { sourceFile, lineOffset } of blocks) {
+		const lineAt = (pos: number) => sourceFile.getLineAndCharacterOfPosition(pos).line + 1 + lineOffset;
+
+		const add = (
+			declaration: ts.Node,
+			docNode: ts.Node,
+			name: string,
+			kind: SymbolKind,
+			container?: string
+		) => {
+			const exported = hasModifier(docNode, ts.ModifierFlags.Export);
+			const qualifiedName = container ? `${container}.${name}` : name;
+			symbols.push({
+				name,
+				container,
+				qualifiedName,
+				kind: !container && isServerRoute && exported && HTTP_METHODS.has(name) ? 'route' : kind,
+				exported: container ? false : exported || exportedLocals.has(name),
+				isDefault: !container && (hasModifier(docNode, ts.ModifierFlags.Default) || defaultLocal === name),
+				line: lineAt(docNode.getStart(sourceFile)),
+				endLine: lineAt(docNode.getEnd()),
+				signature: getSignature(docNode, sourceFile),
+				documentation: getDocumentation(docNode),
+				code: getCode(docNode, sourceFile)
+			});
+			enclosingByNode.set(declaration, { name: qualifiedName, container: container ?? (kind === 'class' ? name : undefined) });
+		};
+
+		for (const statement of sourceFile.statements) {
+			if (ts.isFunctionDeclaration(statement)) {
+				add(statement, statement, statement.name?.text ?? 'default', 'function');
+			} else if (ts.isClassDeclaration(statement)) {
+				const className = statement.name?.text ?? 'default';
+				add(statement, statement, className, 'class');
+				for (const member of statement.members) {
+					const memberName = member.name && ts.isIdentifier(member.name) ? member.name.text : undefined;
+					if (!memberName) continue;
+					if (
+						ts.isMethodDeclaration(member) ||
+						ts.isGetAccessorDeclaration(member) ||
+						ts.isSetAccessorDeclaration(member) ||
+						(ts.isPropertyDeclaration(member) && isFunctionInitializer(member.initializer))
+					) {
+						add(member, member, memberName, 'method', className);
+					}
+				}
+			} else if (ts.isInterfaceDeclaration(statement)) {
+				add(statement, statement, statement.name.text, 'interface');
+			} else if (ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement)) {
+				add(statement, statement, statement.name.text, 'type');
+			} else if (ts.isVariableStatement(statement)) {
+				for (const declaration of statement.declarationList.declarations) {
+					if (!ts.isIdentifier(declaration.name)) continue;
+					const kind = isFunctionInitializer(declaration.initializer) ? 'function' : 'variable';
+					// Doc comments and modifiers live on the statement
+					add(declaration, statement, declaration.name.text, kind);
+					// Component state: what its initializer uses is used by the component
+					if (isSvelte && kind === 'variable') enclosingByNode.delete(declaration);
+				}
+			}
+		}
+	}
+
+	// References
+	const topLevel = new Set(symbols.filter((s) => !s.container && s.kind !== 'component').map((s) => s.name));
+	const classes = new Set(symbols.filter((s) => s.kind === 'class').map((s) => s.name));
+	const importsByLocal = new Map(imports.filter((i) => !i.reexport).map((i) => [i.localName, i]));
+	const references: SymbolReference[] = [];
+	const seen = new Set<string>();
+
+	const resolveTarget = (
+		name: string,
+		qualifier: string | undefined,
+		enclosing: Enclosing
+	): Pick<SymbolReference, 'targetPath' | 'targetName'> | null => {
+		if (qualifier === 'this') {
+			return enclosing.container ? { targetPath: filePath, targetName: `${enclosing.container}.${name}` } : null;
+		}
+		if (qualifier) {
+			if (classes.has(qualifier)) {
+				return { targetPath: filePath, targetName: `${qualifier}.${name}` };
+			}
+			const namespace = importsByLocal.get(qualifier);
+			return namespace?.resolvedPath && namespace.importedName === '*'
+				? { targetPath: namespace.resolvedPath, targetName: name }
+				: null;
+		}
+		if (topLevel.has(name)) {
+			return { targetPath: filePath, targetName: name };
+		}
+		const imported = importsByLocal.get(name);
+		return imported?.resolvedPath && imported.importedName !== '*'
+			? { targetPath: imported.resolvedPath, targetName: imported.importedName }
+			: null;
+	};
+
+	const addReference = (
+		name: string,
+		qualifier: string | undefined,
+		kind: SymbolReferenceKind,
+		enclosing: Enclosing,
+		line: number
+	) => {
+		const target = resolveTarget(name, qualifier, enclosing);
+		const fromName = enclosing.name ?? component;
+		if (!target || target.targetName === fromName) return;
+
+		const key = `${fromName}|${target.targetPath}|${target.targetName}|${kind}`;
+		if (seen.has(key)) return;
+		seen.add(key);
+		references.push({ fromName, ...target, kind, line });
+	};
+
+	const calleeParts = (expression: ts.Expression): [string, string | undefined] | null => {
+		if (ts.isIdentifier(expression)) {
+			return [expression.text, undefined];
+		}
+		if (ts.isPropertyAccessExpression(expression) && ts.isIdentifier(expression.name)) {
+			const object = expression.expression;
+			if (object.kind === ts.SyntaxKind.ThisKeyword) return [expression.name.text, 'this'];
+			if (ts.isIdentifier(object)) return [expression.name.text, object.text];
+		}
+		return null;
+	};
+
+	for (const { sourceFile, lineOffset } of blocks) {
+		const lineOf = (node: ts.Node) =>
+			sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line + 1 + lineOffset;
+
+		const visit = (node: ts.Node, enclosing: Enclosing) => {
+			const current = enclosingByNode.get(node) ?? enclosing;
+
+			if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+				const parts = calleeParts(node.expression);
+				if (parts) {
+					addReference(parts[0], parts[1], ts.isNewExpression(node) ? 'new' : 'call', current, lineOf(node));
+				}
+			} else if (ts.isHeritageClause(node)) {
+				const kind = node.token === ts.SyntaxKind.ExtendsKeyword ? 'extends' : 'implements';
+				for (const type of node.types) {
+					const parts = calleeParts(type.expression);
+					if (parts) addReference(parts[0], parts[1], kind, current, lineOf(type));
+				}
+			}
+
+			ts.forEachChild(node, (child) => visit(child, current));
+		};
+
+		visit(sourceFile, {});
+	}
+
+	// Components used in Svelte markup
+	if (component) {
+		const markup = getSvelteMarkup(content);
+		for (const match of markup.matchAll(/<([A-Z][A-Za-z0-9_]*)[\s/>]/g)) {
+			addReference(match[1], undefined, 'render', {}, countLines(markup.slice(0, match.index!)) + 1);
+		}
+	}
+
+	return { symbols, imports, references };
+}
@@ -0,0 +1,325 @@
+/**
+ * Symbol index maintenance
+ *
+ * Walks a project's TS/JS/Svelte sources and keeps the symbol index in sync:
+ * updateSymbolIndex() re-indexes files whose size, mtime and content hash
+ * changed and drops deleted ones, and watchSymbolIndex() applies the same
+ * update to files as they change on disk.
+ *
+ * Imports are resolved when the importing file is indexed. Relative
+ * specifiers and the SvelteKit `$lib` alias are followed; package imports are
+ * recorded unresolved.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { ImportResolver } from './extractor';
+import { extractFileSymbols } from './extractor';
+import type { SymbolIndexStatus, SymbolIndexUpdateResult } from './types';
+import { IGNORED_DIRECTORIES, MAX_INDEXED_FILE_SIZE, SOURCE_EXTENSIONS } from './types';
+import type { IndexedFileInfo } from './db';
+import {
+	getIndexedFiles,
+	getSymbolIndexCounts,
+	removeIndexedFiles,
+	setLastUpdatedAt,
+	symbolIndexExists,
+	touchIndexedFile,
+	writeFileSymbols
+} from './db';
+
+/** Delay before indexing a burst of file changes */
+const WATCH_DEBOUNCE_MS = 500;
+
+// ============================================================================
+// Source Files
+// ============================================================================
+
+function toPosix(filePath: string): string {
+	return filePath.split(path.sep).join('/');
+}
+
+/**
+ * Whether a project-relative path is a source file the index covers
+ */
+export function isIndexablePath(filePath: string): boolean {
+	const segments = toPosix(filePath).split('/');
+	const dirs = segments.slice(0, -1);
+	if (dirs.some((dir) => dir.startsWith('.') || IGNORED_DIRECTORIES.includes(dir))) {
+		return false;
+	}
+	return SOURCE_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * List the project's indexable source files (project-relative, '/'-separated)
+ */
+export function listSourceFiles(projectPath: string): string[] {
+	const files: string[] = [];
+
+	const walk = (dir: string) => {
+		let entries: fs.Dirent[];
+		try {
+			entries = fs.readdirSync(path.join(projectPath, dir), { withFileTypes: true });
+		} catch {
+			return;
+		}
+
+		for (const entry of entries) {
+			const relPath = dir ? `${dir}/${entry.name}` : entry.name;
+			if (entry.isDirectory()) {
+				if (!entry.name.startsWith('.') && !IGNORED_DIRECTORIES.includes(entry.name)) {
+					walk(relPath);
+				}
+			} else if (entry.isFile() && SOURCE_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+				files.push(relPath);
+			}
+		}
+	};
+
+	walk('');
+	return files.sort();
+}
+
+// ============================================================================
+// Import Resolution
+// ============================================================================
+
+function isFile(fullPath: string): boolean {
+	return fs.statSync(fullPath, { throwIfNoEntry: false })?.isFile() ?? false;
+}
+
+/**
+ * Resolve an extensionless or `.js` module path to a source file
+ */
+function resolveModulePath(projectPath: string, base: string): string | undefined {
+	const candidates = [base];
+
+	// TypeScript ESM imports name the compiled file: './db.js' means './db.ts'
+	const ext = path.posix.extname(base);
+	if (ext === '.js' || ext === '.jsx') {
+		const stem = base.slice(0, -ext.length);
+		candidates.push(`${stem}.ts`, `${stem}.tsx`);
+	}
+
+	for (const sourceExt of SOURCE_EXTENSIONS) {
+		candidates.push(`${base}${sourceExt}`);
+	}
+	for (const sourceExt of SOURCE_EXTENSIONS) {
+		candidates.push(`${base}/index${sourceExt}`);
+	}
+
+	return candidates.find(
+		(candidate) =>
+			SOURCE_EXTENSIONS.includes(path.posix.extname(candidate)) && isFile(path.join(projectPath, candidate))
+	);
+}
+
+/**
+ * Create the import resolver for one file
+ */
+export function createImportResolver(projectPath: string, importerPath: string): ImportResolver {
+	return (specifier) => {
+		let base: string;
+		if (specifier.startsWith('./') || specifier.startsWith('../')) {
+			base = path.posix.normalize(path.posix.join(path.posix.dirname(toPosix(importerPath)), specifier));
+		} else if (specifier === '$lib' || specifier.startsWith('$lib/')) {
+			base = `src/lib${specifier.slice('$lib'.length)}`;
+		} else {
+			return undefined;
+		}
+
+		if (base.startsWith('../')) {
+			return undefined;
+		}
+		return resolveModulePath(projectPath, base);
+	};
+}
+
+// ============================================================================
+// Indexing
+// ============================================================================
+
+function emptyResult(): SymbolIndexUpdateResult {
+	return { indexed: 0, removed: 0, unchanged: 0, durationMs: 0, errors: [] };
+}
+
+/**
+ * Bring one file's index entry up to date
+ */
+function indexFile(
+	projectPath: string,
+	filePath: string,
+	previous: IndexedFileInfo | undefined,
+	result: SymbolIndexUpdateResult
+): void {
+	const stat = fs.statSync(path.join(projectPath, filePath), { throwIfNoEntry: false });
+	if (!stat?.isFile() || stat.size > MAX_INDEXED_FILE_SIZE) {
+		if (previous) {
+			removeIndexedFiles(projectPath, [filePath]);
+			result.removed++;
+		}
+		return;
+	}
+
+	if (previous && previous.mtimeMs === stat.mtimeMs && previous.size === stat.size) {
+		result.unchanged++;
+		return;
+	}
+
+	try {
+		const content = fs.readFileSync(path.join(projectPath, filePath), 'utf-8');
+		const info: IndexedFileInfo = {
+			hash: createHash('sha256').update(content).digest('hex'),
+			mtimeMs: stat.mtimeMs,
+			size: stat.size
+		};
+
+		if (previous?.hash === info.hash) {
+			touchIndexedFile(projectPath, filePath, info);
+			result.unchanged++;
+			return;
+		}
+
+		const extracted = extractFileSymbols(filePath, content, createImportResolver(projectPath, filePath));
+		writeFileSymbols(projectPath, filePath, info, extracted);
+		result.indexed++;
+	} catch (err) {
+		result.errors.push(`${filePath}: ${err instanceof Error ? err.message : String(err)}`);
+	}
+}
+
+/**
+ * Incrementally update a project's symbol index, creating it if needed
+ */
+export function updateSymbolIndex(projectPath: string): SymbolIndexUpdateResult {
+	const startTime = Date.now();
+	const result = emptyResult();
+	const known = getIndexedFiles(projectPath);
+	const files = listSourceFiles(projectPath);
+
+	for (const filePath of files) {
+		indexFile(projectPath, filePath, known.get(filePath), result);
+	}
+
+	const present = new Set(files);
+	const deleted = [...known.keys()].filter((filePath) => !present.has(filePath));
+	removeIndexedFiles(projectPath, deleted);
+	result.removed += deleted.length;
+
+	setLastUpdatedAt(projectPath, new Date().toISOString());
+	result.durationMs = Date.now() - startTime;
+	return result;
+}
+
+/**
+ * Re-index specific files (project-relative); missing files are removed
+ */
+export function indexFiles(projectPath: string, filePaths: string[]): SymbolIndexUpdateResult {
+	const startTime = Date.now();
+	const result = emptyResult();
+	const known = getIndexedFiles(projectPath);
+
+	for (const filePath of new Set(filePaths.map(toPosix))) {
+		if (isIndexablePath(filePath)) {
+			indexFile(projectPath, filePath, known.get(filePath), result);
+		}
+	}
+
+	setLastUpdatedAt(projectPath, new Date().toISOString());
+	result.durationMs = Date.now() - startTime;
+	return result;
+}
+
+// ============================================================================
+// Watching
+// ============================================================================
+
+interface IndexWatcher {
+	watcher: fs.FSWatcher;
+	pending: Set<string>;
+	timer: ReturnType<typeof setTimeout> | null;
+}
+
+const watchers = new Map<string, IndexWatcher>();
+
+/**
+ * Keep a project's index updated as files change
+ * @returns false if the platform cannot watch the project recursively
+ */
+export function watchSymbolIndex(projectPath: string): boolean {
+	if (watchers.has(projectPath)) {
+		return true;
+	}
+
+	const flush = () => {
+		const state = watchers.get(projectPath);
+		if (!state) return;
+
+		const paths = [...state.pending];
+		state.pending.clear();
+		state.timer = null;
+		try {
+			indexFiles(projectPath, paths);
+		} catch (err) {
+			console.error('Symbol index update failed:', err);
+		}
+	};
+
+	let watcher: fs.FSWatcher;
+	try {
+		watcher = fs.watch(projectPath, { recursive: true }, (_event, filename) => {
+			const state = watchers.get(projectPath);
+			if (!state || !filename || !isIndexablePath(filename.toString())) return;
+
+			state.pending.add(toPosix(filename.toString()));
+			if (!state.timer) {
+				state.timer = setTimeout(flush, WATCH_DEBOUNCE_MS);
+			}
+		});
+	} catch (err) {
+		console.error('Cannot watch project for symbol index updates:', err);
+		return false;
+	}
+
+	// Watching must not keep the process alive
+	watcher.unref();
+	watcher.on('error', () => stopSymbolIndexWatcher(projectPath));
+	watchers.set(projectPath, { watcher, pending: new Set(), timer: null });
+	return true;
+}
+
+/**
+ * Stop watching a project (all projects if none is given)
+ */
+export function stopSymbolIndexWatcher(projectPath?: string): void {
+	const paths = projectPath ? [projectPath] : [...watchers.keys()];
+	for (const watchedPath of paths) {
+		const state = watchers.get(watchedPath);
+		if (!state) continue;
+
+		if (state.timer) clearTimeout(state.timer);
+		state.watcher.close();
+		watchers.delete(watchedPath);
+	}
+}
+
+/**
+ * Get index statistics for a project
+ */
+export function getSymbolIndexStatus(projectPath: string): SymbolIndexStatus {
+	const watching = watchers.has(projectPath);
+	if (!symbolIndexExists(projectPath)) {
+		return {
+			exists: false,
+			fileCount: 0,
+			symbolCount: 0,
+			importCount: 0,
+			referenceCount: 0,
+			watching
+		};
+	}
+
+	return { exists: true, ...getSymbolIndexCounts(projectPath), watching };
+}
@@ -0,0 +1,167 @@
+/**
+ * Type definitions for the built-in symbol index
+ *
+ * The symbol index is an in-process fallback for CodeGraph: it parses
+ * TS/JS/Svelte sources with the TypeScript compiler API and keeps declarations,
+ * import edges and resolved call references in a per-project SQLite database.
+ */
+
+import type { SymbolKind } from '../context-pack-types';
+
+// ============================================================================
+// Extracted Data
+// ============================================================================
+
+/**
+ * A declaration found in a source file
+ */
+export interface IndexedSymbol {
+	/** Declared name (method name without its class) */
+	name: string;
+
+	/** Enclosing class for methods */
+	container?: string;
+
+	/** container.name for methods, name otherwise */
+	qualifiedName: string;
+
+	kind: SymbolKind;
+
+	/** Exported from its module (directly, via an export list, or as default) */
+	exported: boolean;
+
+	/** The module's default export */
+	isDefault: boolean;
+
+	/** 1-based line range of the declaration */
+	line: number;
+	endLine: number;
+
+	/** First line of the declaration, e.g. "export function foo(a: string): void" */
+	signature?: string;
+
+	/** JSDoc text, if any */
+	documentation?: string;
+
+	/** Declaration source, capped at MAX_SYMBOL_CODE_LENGTH */
+	code?: string;
+}
+
+/**
+ * An import (or re-export) binding
+ */
+export interface SymbolImport {
+	/** Module specifier as written, e.g. "./db" or "$lib/types" */
+	specifier: string;
+
+	/** Project-relative path the specifier resolves to (undefined for packages) */
+	resolvedPath?: string;
+
+	/** Exported name in the source module: a name, "default", or "*" */
+	importedName: string;
+
+	/** Name bound in this module (the re-exported name for re-exports) */
+	localName: string;
+
+	/** True for `export ... from` */
+	reexport: boolean;
+
+	line: number;
+}
+
+/**
+ * How one symbol refers to another ("render" is a component used in Svelte markup)
+ */
+export type SymbolReferenceKind = 'call' | 'new' | 'extends' | 'implements' | 'render';
+
+/**
+ * A reference resolved to its target declaration
+ * Unresolvable references (globals, package APIs, dynamic calls) are not stored.
+ */
+export interface SymbolReference {
+	/** Qualified name of the enclosing symbol (undefined at module level) */
+	fromName?: string;
+
+	/** File declaring the target */
+	targetPath: string;
+
+	/** Qualified name of the target, or "default" for a default import */
+	targetName: string;
+
+	kind: SymbolReferenceKind;
+	line: number;
+}
+
+/**
+ * Everything extracted from one file
+ */
+export interface ExtractedFile {
+	symbols: IndexedSymbol[];
+	imports: SymbolImport[];
+	references: SymbolReference[];
+}
+
+// ============================================================================
+// Queries
+// ============================================================================
+
+/**
+ * A symbol as stored in the index
+ */
+export interface SymbolRecord extends IndexedSymbol {
+	filePath: string;
+}
+
+/**
+ * An edge between two indexed symbols
+ */
+export interface SymbolEdge {
+	from: SymbolRecord | null;
+	fromFile: string;
+	to: SymbolRecord;
+	kind: SymbolReferenceKind;
+	line: number;
+}
+
+/**
+ * Result of an incremental index update
+ */
+export interface SymbolIndexUpdateResult {
+	indexed: number;
+	removed: number;
+	unchanged: number;
+	durationMs: number;
+
+	/** Files that failed to read or parse, with the reason */
+	errors: string[];
+}
+
+/**
+ * Index statistics, returned by GET /api/projects/[id]/symbol-index
+ */
+export interface SymbolIndexStatus {
+	exists: boolean;
+	fileCount: number;
+	symbolCount: number;
+	importCount: number;
+	referenceCount: number;
+	lastUpdatedAt?: string;
+	watching: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SYMBOL_INDEX_SCHEMA_VERSION = 1;
+
+/** Extensions indexed */
+export const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.svelte'];
+
+/** Directories never indexed (in addition to dot-directories) */
+export const IGNORED_DIRECTORIES = ['node_modules', 'build', 'dist', 'coverage'];
+
+/** Files larger than this are skipped (generated bundles, fixtures) */
+export const MAX_INDEXED_FILE_SIZE = 512 * 1024;
+
+export const MAX_SYMBOL_CODE_LENGTH = 4000;
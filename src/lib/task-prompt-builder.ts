@@ -2,6 +2,14 @@
  * Task Prompt Builder - Constructs context-aware prompts for Claude to work on tasks
  */
 import type { Issue, IssueWithDetails, TaskRunMode } from './types';
+import {
+	parseCompletionEnvelope,
+	hasEnvelopeStart,
+	type CompletionEnvelope,
+	type CompletionStatus
+} from './completion-envelope';
+import type { ContextPack, ContextPackStaleness } from './context-pack-types';
+import { packToMarkdown } from './context-pack-types';
 
 interface TaskPromptParams {
 	issue: IssueWithDetails;
@@ -15,6 +23,8 @@ interface TaskPromptParams {
 		currentTaskIndex: number;
 		totalTasks: number;
 	};
+	// Context packs attached to the bead, with their staleness when checked
+	contextPacks?: Array<{ pack: ContextPack; staleness?: ContextPackStaleness }>;
 }
 
 /**
@@ -137,6 +147,27 @@ function buildEpicContext(epicContext: TaskPromptParams['epicContext']): string
 	return lines.join('\n');
 }
 
+/**
+ * Build the context packs section (code context attached to the bead)
+ */
+function buildContextPacks(contextPacks: NonNullable<TaskPromptParams['contextPacks']>): string {
+	const lines: string[] = [];
+
+	lines.push('<context-packs>');
+	lines.push('Code context attached to this task. Prefer the current files where they differ.');
+	for (const { pack, staleness } of contextPacks) {
+		lines.push('');
+		if (staleness?.stale) {
+			const files = [...staleness.changedFiles, ...staleness.missingFiles];
+			lines.push(`_Note: this pack was generated before changes to ${files.join(', ')}._`);
+		}
+		lines.push(packToMarkdown(pack));
+	}
+	lines.push('</context-packs>');
+
+	return lines.join('\n');
+}
+
 /**
  * Build autonomous mode instructions
  */
@@ -146,15 +177,17 @@ function buildAutonomousInstructions(issue: IssueWithDetails): string {
 	lines.push('<instructions>');
 	lines.push('Work on this task autonomously. Your goal is to complete the task as described.');
 	lines.push('');
-	lines.push('**When you have completed the task:**');
-	lines.push(`1. Update the issue status by running: bd update ${issue.id} --status=closed`);
-	lines.push('2. Then respond with: "TASK_COMPLETED: {brief summary of what was done}"');
+	lines.push('**When you stop working, end your response with a completion envelope:**');
+	lines.push('<task-completion>');
+	lines.push('{"status": "completed", "summary": "...", "commit_hash": "...", "files_changed": ["..."], "execution_log": "...", "follow_up_beads": [{"title": "...", "description": "..."}], "questions": []}');
+	lines.push('</task-completion>');
 	lines.push('');
-	lines.push('**If you encounter a blocker that requires human input:**');
-	lines.push('Respond with: "AWAITING_INPUT: {description of what you need}"');
-	lines.push('');
-	lines.push('**If the task cannot be completed:**');
-	lines.push('Respond with: "TASK_BLOCKED: {reason}"');
+	lines.push('- The tags go on their own lines and the JSON must be valid.');
+	lines.push('- `status` is "completed", "awaiting_input" (put what you need in `questions`) or "blocked" (put the reason in `summary`).');
+	lines.push(`- When completed, commit your work and include the \`commit_hash\`. Do not close ${issue.id} yourself: the runner moves it to review with your commit and execution log.`);
+	lines.push(`- End every commit message with a \`Bead: ${issue.id}\` trailer line.`);
+	lines.push('- `execution_log` describes what you changed and how you verified it.');
+	lines.push('- `follow_up_beads` lists work you discovered but did not do; each one becomes a new bead.');
 	lines.push('</instructions>');
 
 	return lines.join('\n');
@@ -186,7 +219,7 @@ function buildGuidedInstructions(issue: IssueWithDetails): string {
  * Build the complete prompt for a task
  */
 export function buildTaskPrompt(params: TaskPromptParams): string {
-	const { issue, mode, agentPrompt, epicContext } = params;
+	const { issue, mode, agentPrompt, epicContext, contextPacks } = params;
 
 	const sections: string[] = [];
 
@@ -208,6 +241,12 @@ export function buildTaskPrompt(params: TaskPromptParams): string {
 		sections.push('');
 	}
 
+	// Add attached context packs
+	if (contextPacks && contextPacks.length > 0) {
+		sections.push(buildContextPacks(contextPacks));
+		sections.push('');
+	}
+
 	// Add mode-specific instructions
 	if (mode === 'autonomous') {
 		sections.push(buildAutonomousInstructions(issue));
@@ -254,24 +293,56 @@ export function buildMessagePrompt(message: string, taskContext?: { id: string;
 }
 
 /**
- * Completion signal patterns for detection
+ * Legacy completion signal patterns, recognized at the start of a line only
+ * so that signals quoted in prose do not count
  */
 export const COMPLETION_SIGNALS = {
-	COMPLETED: /TASK_COMPLETED:\s*(.+)/i,
-	AWAITING_INPUT: /AWAITING_INPUT:\s*(.+)/i,
-	BLOCKED: /TASK_BLOCKED:\s*(.+)/i
+	COMPLETED: /^[ \t]*TASK_COMPLETED:[ \t]*(.+)/im,
+	AWAITING_INPUT: /^[ \t]*AWAITING_INPUT:[ \t]*(.+)/im,
+	BLOCKED: /^[ \t]*TASK_BLOCKED:[ \t]*(.+)/im
 } as const;
 
+export interface CompletionSignal {
+	type: CompletionStatus | null;
+	message?: string;
+	// Structured report, when the agent sent a completion envelope
+	envelope?: CompletionEnvelope;
+	// Why an envelope was rejected (reported as blocked)
+	envelopeErrors?: string[];
+}
+
 /**
- * Detect completion signals in Claude's response
+ * Detect completion signals in an agent's response
+ *
+ * A completion envelope takes precedence; an invalid one is reported as
+ * blocked so the run does not pretend the task succeeded. While an envelope
+ * has been opened but not closed, nothing is detected yet.
  */
-export function detectCompletionSignal(
-	text: string
-): { type: 'completed' | 'awaiting_input' | 'blocked' | null; message?: string } {
+export function detectCompletionSignal(text: string): CompletionSignal {
+	const parsed = parseCompletionEnvelope(text);
+	if (parsed?.envelope) {
+		const { envelope } = parsed;
+		const message =
+			envelope.status === 'awaiting_input' && envelope.questions?.length
+				? envelope.questions.join('\n')
+				: envelope.summary;
+		return { type: envelope.status, message, envelope };
+	}
+	if (parsed) {
+		return {
+			type: 'blocked',
+			message: `Invalid completion envelope: ${parsed.errors.join('; ')}`,
+			envelopeErrors: parsed.errors
+		};
+	}
+	if (hasEnvelopeStart(text)) {
+		return { type: null };
+	}
+
 	for (const [signalType, pattern] of Object.entries(COMPLETION_SIGNALS)) {
 		const match = text.match(pattern);
 		if (match) {
-			const type = signalType.toLowerCase().replace('_', '_') as 'completed' | 'awaiting_input' | 'blocked';
+			const type = signalType.toLowerCase() as CompletionStatus;
 			return { type, message: match[1].trim() };
 		}
 	}
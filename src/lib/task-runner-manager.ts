@@ -2,39 +2,464 @@
  * Task Runner Manager - Orchestrates task execution and epic sequencing
  */
 import {
-	createClaudeSession,
-	sendMessage as claudeSendMessage,
-	cancelResponse as claudeCancel,
-	closeSession as claudeClose,
-	type ClaudeSession,
-	type ClaudeOutputChunk
-} from './claude-cli';
+	resolveExecutionBackend,
+	getAgentBackendId,
+	type ExecutionSession,
+	type ExecutionOutputChunk
+} from './execution-backends';
 import { taskRunnerStore } from './task-runner-store';
 import { registerActiveTask, updateActiveTask, removeActiveTask } from './active-tasks-store';
 import { notifyAwaitingInput, notifyTaskCompleted } from './notification-helper';
 import { getProjectById } from './dashboard-db';
-import { getIssueWithDetails, getChildIssuesSorted, getIssueById, updateIssue, refreshProjectDb, notifyDbChange } from './project-db';
-import { buildTaskPrompt, detectCompletionSignal, buildMessagePrompt } from './task-prompt-builder';
+import {
+	getIssueWithDetails,
+	getChildIssuesSorted,
+	getChildBlockingRelations,
+	getIssueById,
+	getIssueWithLifecycle,
+	updateIssue,
+	refreshProjectDb,
+	notifyDbChange
+} from './project-db';
+import { getCurrentBranch, addWorktree, removeWorktree, mergeBranch } from './git-utils';
+import {
+	createLanes,
+	normalizeConcurrency,
+	getLaneWorktreePath,
+	getReadyLanes,
+	getStrandedLanes,
+	getFreeSlots,
+	isParallelRunFinished
+} from './epic-scheduler';
+import {
+	buildTaskPrompt,
+	detectCompletionSignal,
+	buildMessagePrompt,
+	buildResumePrompt,
+	type CompletionSignal
+} from './task-prompt-builder';
+import {
+	COMPLETED_BEAD_STATUS,
+	getEnvelopeTransitionData,
+	validateEnvelopeTransition,
+	type CompletionEnvelope
+} from './completion-envelope';
+import { getProjectWorkflow } from './bead-workflow';
+import {
+	CLAIMED_STATUS,
+	findCommitsMissingBeadTrailer,
+	getBeadBranchName,
+	getClaimBranchName,
+	runBeadGitWorkflow
+} from './bead-git-workflow';
+import { createBead, addDependency } from './beads-cli';
+import { analyzeDependencies, describeCycle, getBlockingCycles } from './dependency-analysis';
 import { parseFrontmatter } from './agents';
 import { emitActivity } from './agent-activity-store';
-import type { TaskRun, TaskRunMode, Issue, IssueWithDetails } from './types';
+import { checkContextPackStaleness, getContextPacksForBead } from './context-pack-store';
+import type {
+	TaskRun,
+	TaskRunMode,
+	Issue,
+	IssueWithDetails,
+	EpicLane,
+	EpicSequence,
+	AgentFrontmatter
+} from './types';
 import fs from 'fs';
 import path from 'path';
 
-// Store for active Claude sessions by run ID
-const claudeSessions = new Map<string, ClaudeSession>();
+// Store for active execution sessions by run ID
+const runSessions = new Map<string, ExecutionSession>();
+
+// Directory each run's session works in: its bead's worktree, or the project
+const runSessionDirs = new Map<string, string>();
 
 // Polling intervals for status monitoring
 const statusPollers = new Map<string, NodeJS.Timeout>();
 
+// Execution sessions for parallel epic lanes, keyed by laneKey(runId, taskId)
+const laneSessions = new Map<string, ExecutionSession>();
+
+/**
+ * Agent a run executes with: the profile prepended to prompts, and the
+ * frontmatter that selects and configures the execution backend
+ */
+interface RunAgent {
+	prompt?: string;
+	frontmatter?: AgentFrontmatter;
+}
+
+// Agent per run, reused when later beads or lanes get a session
+const runAgents = new Map<string, RunAgent>();
+
+// Text of the response in progress per session (run ID or laneKey), so a
+// completion envelope split across chunks is still recognized
+const responseBuffers = new Map<string, string>();
+
+// Sessions whose current response already produced a completion signal
+const signalledResponses = new Set<string>();
+
+const MAX_RESPONSE_BUFFER = 256 * 1024;
+
+export interface StartTaskRunOptions {
+	// Run ready epic children concurrently in isolated git worktrees
+	parallel?: boolean;
+	// Maximum number of lanes running at once (parallel mode only)
+	concurrency?: number;
+}
+
+/**
+ * Thrown when a run cannot start because of the bead graph, e.g. a dependency cycle
+ */
+export class TaskRunRefusedError extends Error {
+	constructor(
+		message: string,
+		public readonly code: 'DEPENDENCY_CYCLE',
+		public readonly cycles: string[][] = []
+	) {
+		super(message);
+		this.name = 'TaskRunRefusedError';
+	}
+}
+
+function laneKey(runId: string, taskId: string): string {
+	return `${runId}:${taskId}`;
+}
+
+/**
+ * Add a chunk of response text and detect a completion signal in the response
+ * so far. Only the first signal of a response is reported.
+ */
+function detectResponseSignal(key: string, text: string): CompletionSignal | null {
+	if (signalledResponses.has(key)) return null;
+
+	const previous = responseBuffers.get(key);
+	const buffer = (previous ? `${previous}\n${text}` : text).slice(-MAX_RESPONSE_BUFFER);
+	responseBuffers.set(key, buffer);
+
+	const signal = detectCompletionSignal(buffer);
+	if (!signal.type) return null;
+
+	signalledResponses.add(key);
+	return signal;
+}
+
+/**
+ * Forget the response in progress (on 'done' or when the session ends)
+ */
+function resetResponse(key: string): void {
+	responseBuffers.delete(key);
+	signalledResponses.delete(key);
+}
+
+/**
+ * Apply a completion envelope to its bead: move a completed bead to review
+ * with its commit and execution log, and file the follow-up beads it lists
+ */
+function applyCompletionEnvelope(
+	runId: string,
+	projectPath: string,
+	beadId: string,
+	envelope: CompletionEnvelope,
+	laneTaskId?: string
+): void {
+	let changed = false;
+
+	if (envelope.status === 'completed') {
+		const bead = getIssueById(projectPath, beadId);
+		if (bead) {
+			const check = validateEnvelopeTransition(envelope, bead.status, getProjectWorkflow(projectPath));
+			if (check.valid) {
+				const { commit_hash, execution_log } = getEnvelopeTransitionData(envelope);
+				if (updateIssue(projectPath, beadId, { status: COMPLETED_BEAD_STATUS, commit_hash, execution_log })) {
+					changed = true;
+					taskRunnerStore.addEvent(runId, {
+						type: 'status_change',
+						laneTaskId,
+						content: `Moved ${beadId} to ${COMPLETED_BEAD_STATUS} (commit ${commit_hash?.slice(0, 7)})`
+					});
+					recordReviewWorkflow(runId, projectPath, beadId, laneTaskId);
+				}
+			} else {
+				const missing = check.missingFields?.length ? ` Missing: ${check.missingFields.join(', ')}.` : '';
+				taskRunnerStore.addEvent(runId, {
+					type: 'error',
+					laneTaskId,
+					content: `${beadId} was left in ${bead.status}: ${check.error}.${missing}`
+				});
+			}
+		}
+	}
+
+	for (const followUp of envelope.follow_up_beads ?? []) {
+		const created = createBead(projectPath, {
+			title: followUp.title,
+			description: followUp.description,
+			issueType: followUp.type,
+			priority: followUp.priority
+		});
+		if (!created.success || !created.data) {
+			taskRunnerStore.addEvent(runId, {
+				type: 'error',
+				laneTaskId,
+				content: `Could not create follow-up bead "${followUp.title}": ${created.error}`
+			});
+			continue;
+		}
+
+		changed = true;
+		addDependency(projectPath, created.data.id, beadId, 'discovered-from');
+		taskRunnerStore.addEvent(runId, {
+			type: 'status_change',
+			laneTaskId,
+			content: `Created follow-up ${created.data.id}: ${followUp.title}`
+		});
+	}
+
+	if (changed) {
+		notifyDbChange(projectPath);
+		refreshProjectDb(projectPath);
+	}
+}
+
+/**
+ * Claim a run's bead the way the issue route does: an open bead moves to
+ * in_progress on its claim branch, and the git workflow creates that branch.
+ * The main checkout is left alone. Sequential runs and parallel lanes both
+ * claim through here, so a bead gets the same branch either way.
+ *
+ * @returns the bead's branch, if the git workflow created or found one
+ */
+function claimRunBead(
+	runId: string,
+	projectPath: string,
+	issue: Issue,
+	options: { baseBranch?: string; laneTaskId?: string } = {}
+): { branchName?: string; error?: string } {
+	const current = getIssueWithLifecycle(projectPath, issue.id) ?? issue;
+
+	if (current.status === 'open') {
+		const updates: { status: string; branch_name?: string } = { status: CLAIMED_STATUS };
+		if (!current.branch_name) {
+			updates.branch_name = getClaimBranchName(projectPath, current);
+		}
+
+		if (updateIssue(projectPath, issue.id, updates)) {
+			console.log('[TaskRunner] Updated issue status to in_progress:', issue.id);
+			// Notify that we changed the DB and refresh connection so stream picks up change
+			notifyDbChange(projectPath);
+			refreshProjectDb(projectPath);
+		}
+	}
+
+	const result = runBeadGitWorkflow(projectPath, issue.id, CLAIMED_STATUS, { baseBranch: options.baseBranch });
+	if (!result) return {};
+
+	if (result.error) {
+		return { error: `Could not create ${result.branchName}: ${result.error}` };
+	}
+
+	if (result.branchCreated) {
+		taskRunnerStore.addEvent(runId, {
+			type: 'status_change',
+			laneTaskId: options.laneTaskId,
+			content: `Created ${result.branchName} from ${result.baseBranch}`
+		});
+	}
+	return { branchName: result.branchName };
+}
+
+/**
+ * Claim a sequential run's bead and choose the directory its agent works in:
+ * a worktree on the bead branch, as for a parallel lane, so the user's
+ * checkout is never switched. Without a bead branch the agent works in the
+ * project itself.
+ *
+ * @returns null if the bead's branch or worktree could not be created
+ */
+function prepareRunWorkdir(runId: string, projectId: string, projectPath: string, issue: Issue): string | null {
+	const claim = claimRunBead(runId, projectPath, issue);
+	if (claim.error) {
+		taskRunnerStore.addEvent(runId, { type: 'error', content: claim.error });
+		return null;
+	}
+	if (!claim.branchName) return projectPath;
+
+	const worktreePath = getLaneWorktreePath(projectId, issue.id);
+	const worktree = addWorktree(projectPath, worktreePath, claim.branchName, claim.branchName);
+	if (!worktree.success) {
+		taskRunnerStore.addEvent(runId, {
+			type: 'error',
+			content: `Could not create worktree for ${issue.id}: ${worktree.error}`
+		});
+		return null;
+	}
+
+	if (!worktree.reused) {
+		taskRunnerStore.addEvent(runId, {
+			type: 'status_change',
+			content: `Working on ${claim.branchName} in ${worktreePath}`
+		});
+	}
+	return worktreePath;
+}
+
+/**
+ * The run's session in a working directory
+ * An agent cannot change directory, so when the next bead of an epic works
+ * in another worktree the previous session is closed and a new one opened.
+ */
+function getRunSession(run: TaskRun, projectPath: string, workdir: string): ExecutionSession | null {
+	if (runSessionDirs.get(run.id) === workdir) {
+		const current = runSessions.get(run.id);
+		if (current) return current;
+	} else {
+		closeRunSession(run.id, projectPath);
+	}
+
+	let agent = runAgents.get(run.id);
+	if (!agent) {
+		agent = loadRunAgent(projectPath, run.agentFilename);
+		runAgents.set(run.id, agent);
+	}
+
+	const session = openRunSession(run, workdir, agent);
+	if (session) {
+		runSessions.set(run.id, session);
+		runSessionDirs.set(run.id, workdir);
+	}
+	return session;
+}
+
+/**
+ * Close a run's session and remove the worktree its bead worked in
+ * git keeps a worktree that still has uncommitted changes; the bead branch
+ * always stays for review.
+ */
+function closeRunSession(runId: string, projectPath?: string): void {
+	const session = runSessions.get(runId);
+	// Deleted first so the session's own close is not handled as the run's
+	runSessions.delete(runId);
+	session?.close();
+
+	const workdir = runSessionDirs.get(runId);
+	runSessionDirs.delete(runId);
+	if (projectPath && workdir && workdir !== projectPath) {
+		const removed = removeWorktree(projectPath, workdir);
+		if (!removed.success) {
+			console.log('[TaskRunner] Kept worktree:', workdir, removed.error);
+		}
+	}
+}
+
+/**
+ * Report run commits without the bead's trailer, then push the bead's branch
+ * and open its PR if the project asks for it
+ */
+function recordReviewWorkflow(runId: string, projectPath: string, beadId: string, laneTaskId?: string): void {
+	// Agents are asked to add the trailer themselves; their commits are never rewritten
+	const branchName = getIssueWithLifecycle(projectPath, beadId)?.branch_name;
+	const untagged = branchName ? findCommitsMissingBeadTrailer(projectPath, branchName, beadId) : [];
+	if (untagged.length > 0) {
+		taskRunnerStore.addEvent(runId, {
+			type: 'error',
+			laneTaskId,
+			content: `${untagged.length} commit(s) on ${branchName} lack a "Bead: ${beadId}" trailer: ${untagged
+				.map((hash) => hash.slice(0, 7))
+				.join(', ')}`
+		});
+	}
+
+	const result = runBeadGitWorkflow(projectPath, beadId, COMPLETED_BEAD_STATUS);
+	if (!result) return;
+
+	if (result.error) {
+		taskRunnerStore.addEvent(runId, {
+			type: 'error',
+			laneTaskId,
+			content: `Could not submit ${result.branchName} for review: ${result.error}`
+		});
+		return;
+	}
+
+	taskRunnerStore.addEvent(runId, {
+		type: 'status_change',
+		laneTaskId,
+		content: result.prUrl
+			? `${result.prCreated ? 'Opened' : 'Linked'} pull request ${result.prUrl}`
+			: `Pushed ${result.branchName}`
+	});
+}
+
+/**
+ * Load an agent profile from .claude/agents
+ */
+function loadRunAgent(projectPath: string, agentFilename?: string): RunAgent {
+	if (!agentFilename) return {};
+
+	const agentPath = path.join(projectPath, '.claude', 'agents', agentFilename);
+	if (!fs.existsSync(agentPath)) return {};
+
+	try {
+		const prompt = fs.readFileSync(agentPath, 'utf-8');
+		return { prompt, frontmatter: parseFrontmatter(prompt).frontmatter };
+	} catch (err) {
+		console.error('[TaskRunner] Error reading agent file:', err);
+		return {};
+	}
+}
+
+/**
+ * Load the context packs attached to a bead, checked against the current files
+ */
+function loadBeadContextPacks(projectPath: string, beadId: string) {
+	try {
+		return getContextPacksForBead(projectPath, beadId).map((pack) => ({
+			pack,
+			staleness: checkContextPackStaleness(projectPath, pack)
+		}));
+	} catch (err) {
+		console.error('[TaskRunner] Error loading context packs:', err);
+		return [];
+	}
+}
+
+/**
+ * Open the main session of a run on the run's execution backend
+ * Output from a session the run has since replaced or closed is ignored.
+ */
+function openRunSession(
+	run: TaskRun,
+	workdir: string,
+	agent: RunAgent,
+	resumeSessionId?: string
+): ExecutionSession | null {
+	const backend = resolveExecutionBackend(run.backendId);
+	const isCurrent = () => runSessions.get(run.id) === session;
+	const session = backend.createSession({
+		projectPath: workdir,
+		agentPrompt: agent.prompt,
+		agent: agent.frontmatter,
+		resumeSessionId,
+		onData: (chunk) => isCurrent() && handleSessionOutput(run.id, chunk),
+		onError: (error) => isCurrent() && handleSessionError(run.id, error),
+		onClose: (code) => isCurrent() && handleSessionClose(run.id, code)
+	});
+	return session;
+}
+
 /**
  * Start a new task run
+ *
+ * @throws TaskRunRefusedError if an epic's children block each other in a cycle
  */
 export function startTaskRun(
 	projectId: string,
 	issueId: string,
 	mode: TaskRunMode,
-	agentFilename?: string
+	agentFilename?: string,
+	options: StartTaskRunOptions = {}
 ): TaskRun | null {
 	const project = getProjectById(projectId);
 	if (!project) {
@@ -52,8 +477,22 @@ export function startTaskRun(
 	const isEpic = issue.issue_type === 'epic' && issue.children && issue.children.length > 0;
 
 	// Build epic sequence if this is an epic
-	let epicSequence;
+	let epicSequence: EpicSequence | undefined;
 	if (isEpic) {
+		// A cycle means no order of the children can satisfy every blocker
+		const analysis = analyzeDependencies(issue.children, issue.childBlockingRelations ?? []);
+		const cycles = getBlockingCycles(analysis, issue.children);
+		if (cycles.length > 0) {
+			const described = cycles.map(describeCycle).join('; ');
+			console.error(`[TaskRunner] Epic ${issueId} has a dependency cycle: ${described}`);
+			throw new TaskRunRefusedError(
+				`Cannot run epic ${issueId}: its tasks block each other in a cycle (${described}). ` +
+					'Remove one of these dependencies and try again.',
+				'DEPENDENCY_CYCLE',
+				cycles
+			);
+		}
+
 		// Get topologically sorted child tasks
 		const sortedTasks = getChildIssuesSorted(project.path, issueId);
 		const nonClosedTasks = sortedTasks.filter(t => t.status !== 'closed');
@@ -70,8 +509,28 @@ export function startTaskRun(
 			completedTaskIds: [],
 			failedTaskIds: []
 		};
+
+		if (options.parallel) {
+			let baseBranch: string;
+			try {
+				baseBranch = getCurrentBranch(project.path);
+			} catch (err) {
+				console.error('[TaskRunner] Parallel mode requires a git repository:', err);
+				return null;
+			}
+
+			epicSequence.parallel = {
+				concurrency: normalizeConcurrency(options.concurrency),
+				baseBranch,
+				lanes: createLanes(epicSequence.taskIds)
+			};
+		}
 	}
 
+	// Load agent if specified; its frontmatter picks the execution backend
+	const agent = loadRunAgent(project.path, agentFilename);
+	const agentPrompt = agent.prompt;
+
 	// Create the run
 	const run = taskRunnerStore.create({
 		projectId,
@@ -79,44 +538,26 @@ export function startTaskRun(
 		issueTitle: issue.title,
 		issueType: issue.issue_type,
 		mode,
-		epicSequence
+		epicSequence,
+		backendId: getAgentBackendId(agent.frontmatter),
+		agentFilename
 	});
 
-	// Load agent prompt if specified
-	let agentPrompt: string | undefined;
-	if (agentFilename) {
-		const agentPath = path.join(project.path, '.claude', 'agents', agentFilename);
-		if (fs.existsSync(agentPath)) {
-			try {
-				agentPrompt = fs.readFileSync(agentPath, 'utf-8');
-			} catch (err) {
-				console.error('[TaskRunner] Error reading agent file:', err);
-			}
-		}
-	}
+	runAgents.set(run.id, agent);
 
-	// Create Claude session
-	const claudeSession = createClaudeSession({
-		projectPath: project.path,
-		agentPrompt,
-		onData: (chunk) => handleClaudeOutput(run.id, chunk),
-		onError: (error) => handleClaudeError(run.id, error),
-		onClose: (code) => handleClaudeClose(run.id, code)
-	});
-
-	if (!claudeSession) {
-		console.error('[TaskRunner] Failed to create Claude session');
-		taskRunnerStore.delete(run.id);
-		return null;
+	// Parallel epics run one session per lane instead of a shared one
+	if (epicSequence?.parallel) {
+		registerActiveTask(run);
+		taskRunnerStore.updateStatus(run.id, 'running');
+		updateActiveTask(run.id, { status: 'running' });
+		scheduleParallelLanes(run.id, project.path);
+		return run;
 	}
 
-	claudeSessions.set(run.id, claudeSession);
-	taskRunnerStore.setClaudeSession(run.id, claudeSession.id);
-
 	// Register with active tasks store for global tracking
 	registerActiveTask(run);
 
-	// Start execution
+	// Start execution; each bead opens its session in its own worktree
 	if (isEpic) {
 		executeNextEpicTask(run.id, project.path, agentPrompt);
 	} else {
@@ -140,28 +581,24 @@ function executeTask(
 	const run = taskRunnerStore.get(runId);
 	if (!run) return;
 
-	const claudeSession = claudeSessions.get(runId);
-	if (!claudeSession) {
-		console.error('[TaskRunner] No Claude session for run:', runId);
-		taskRunnerStore.updateStatus(runId, 'failed', 'No Claude session');
-		return;
-	}
-
 	// Update status to running
 	taskRunnerStore.updateStatus(runId, 'running');
 
 	// Update active task store
 	updateActiveTask(runId, { status: 'running' });
 
-	// Update the issue status to in_progress in beads database
-	if (issue.status === 'open') {
-		const updated = updateIssue(projectPath, issue.id, { status: 'in_progress' });
-		if (updated) {
-			console.log('[TaskRunner] Updated issue status to in_progress:', issue.id);
-			// Notify that we changed the DB and refresh connection so stream picks up change
-			notifyDbChange(projectPath);
-			refreshProjectDb(projectPath);
-		}
+	// Claim the bead; the agent works on its branch in a worktree
+	const workdir = prepareRunWorkdir(runId, run.projectId, projectPath, issue);
+	if (!workdir) {
+		handleCompletionSignal(runId, 'blocked', `Could not set up the branch for ${issue.id}`);
+		return;
+	}
+
+	const session = getRunSession(run, projectPath, workdir);
+	if (!session) {
+		console.error('[TaskRunner] No execution session for run:', runId);
+		taskRunnerStore.updateStatus(runId, 'failed', 'No execution session');
+		return;
 	}
 
 	// Build the prompt
@@ -169,7 +606,8 @@ function executeTask(
 		issue,
 		mode,
 		agentPrompt,
-		epicContext
+		epicContext,
+		contextPacks: loadBeadContextPacks(projectPath, issue.id)
 	});
 
 	// Log the task start
@@ -178,14 +616,8 @@ function executeTask(
 		content: `Starting ${mode} execution of: ${issue.title}`
 	});
 
-	// Send to Claude
-	claudeSendMessage(
-		claudeSession,
-		prompt,
-		(chunk) => handleClaudeOutput(runId, chunk),
-		(error) => handleClaudeError(runId, error),
-		(code) => handleClaudeClose(runId, code)
-	);
+	// Send to the agent
+	session.send(prompt, { issueId: issue.id, runId });
 
 	// Start status polling for this issue
 	startStatusPolling(runId, projectPath, issue.id);
@@ -249,13 +681,418 @@ function executeNextEpicTask(runId: string, projectPath: string, agentPrompt?: s
 	executeTask(runId, currentTask, projectPath, run.mode, agentPrompt, epicContext);
 }
 
+// ============================================================================
+// Parallel Epic Execution
+// ============================================================================
+
+/**
+ * Start as many ready lanes as the concurrency limit allows
+ * Called on start and whenever a lane finishes; completes the run once every
+ * lane has finished.
+ */
+function scheduleParallelLanes(runId: string, projectPath: string): void {
+	const run = taskRunnerStore.get(runId);
+	const parallel = run?.epicSequence?.parallel;
+	if (!run || !parallel || run.status !== 'running') return;
+
+	const relations = getChildBlockingRelations(projectPath, run.issueId);
+
+	// Lanes can finish synchronously (closed bead, worktree error), which may
+	// free slots or strand dependents - keep going until nothing changes
+	let changed = true;
+	while (changed) {
+		changed = false;
+
+		// Lanes behind a failed or unmerged blocker can never start
+		for (const lane of getStrandedLanes(parallel.lanes, relations)) {
+			taskRunnerStore.updateEpicLane(runId, lane.taskId, {
+				status: 'failed',
+				mergeStatus: 'skipped',
+				completedAt: new Date().toISOString()
+			});
+			taskRunnerStore.addEvent(runId, {
+				type: 'error',
+				laneTaskId: lane.taskId,
+				content: `Skipped ${lane.taskId}: a blocking task failed or could not be merged`
+			});
+			changed = true;
+		}
+
+		const ready = getReadyLanes(parallel.lanes, relations, getFreeSlots(parallel.lanes, parallel.concurrency));
+		for (const lane of ready) {
+			startLane(run, lane, projectPath);
+			if (lane.status !== 'running') changed = true;
+		}
+	}
+
+	if (isParallelRunFinished(parallel.lanes)) {
+		finishParallelRun(runId);
+	}
+}
+
+/**
+ * Create the lane's worktree and start an execution session in it
+ */
+function startLane(run: TaskRun, lane: EpicLane, projectPath: string): void {
+	const parallel = run.epicSequence!.parallel!;
+	const task = getIssueWithDetails(projectPath, lane.taskId);
+
+	if (!task || task.status === 'closed') {
+		// Closed outside the run - nothing to execute or merge
+		taskRunnerStore.updateEpicLane(run.id, lane.taskId, {
+			status: task ? 'completed' : 'failed',
+			mergeStatus: task ? 'merged' : 'skipped',
+			completedAt: new Date().toISOString()
+		});
+		return;
+	}
+
+	// Claimed like a sequential run's bead, but branched from the run's base
+	const claim = claimRunBead(run.id, projectPath, task, { baseBranch: parallel.baseBranch, laneTaskId: task.id });
+	// A lane needs a branch even when the project does not create one on claim
+	const branchName = claim.branchName ?? (task.branch_name || getBeadBranchName(task));
+	const worktreePath = getLaneWorktreePath(run.projectId, task.id);
+	const worktree = claim.error
+		? { success: false, error: claim.error }
+		: addWorktree(projectPath, worktreePath, branchName, parallel.baseBranch);
+
+	if (!worktree.success) {
+		taskRunnerStore.addEvent(run.id, {
+			type: 'error',
+			laneTaskId: task.id,
+			content: `Could not create worktree for ${task.id}: ${worktree.error}`
+		});
+		taskRunnerStore.updateEpicLane(run.id, task.id, {
+			status: 'failed',
+			mergeStatus: 'skipped',
+			completedAt: new Date().toISOString()
+		});
+		return;
+	}
+
+	// Agents are not kept across restarts; reload the run's agent when resuming
+	let agent = runAgents.get(run.id);
+	if (!agent) {
+		agent = loadRunAgent(projectPath, run.agentFilename);
+		runAgents.set(run.id, agent);
+	}
+
+	const session = resolveExecutionBackend(run.backendId).createSession({
+		projectPath: worktreePath,
+		agentPrompt: agent.prompt,
+		agent: agent.frontmatter,
+		resumeSessionId: worktree.reused ? lane.claudeSessionId : undefined,
+		onData: (chunk) => handleLaneOutput(run.id, task.id, chunk),
+		onError: (error) => handleSessionError(run.id, error),
+		onClose: (code) => handleLaneClose(run.id, task.id, code)
+	});
+
+	if (!session) {
+		taskRunnerStore.updateEpicLane(run.id, task.id, {
+			status: 'failed',
+			mergeStatus: 'skipped',
+			completedAt: new Date().toISOString()
+		});
+		return;
+	}
+
+	laneSessions.set(laneKey(run.id, task.id), session);
+	taskRunnerStore.updateEpicLane(run.id, task.id, {
+		status: 'running',
+		branchName,
+		worktreePath,
+		startedAt: new Date().toISOString()
+	});
+
+	const epicIssue = getIssueById(projectPath, run.issueId);
+	const { completedTaskIds, taskIds } = run.epicSequence!;
+	const prompt = buildTaskPrompt({
+		issue: task,
+		mode: run.mode,
+		agentPrompt: agent.prompt,
+		epicContext: {
+			epicId: run.issueId,
+			epicTitle: epicIssue?.title || 'Unknown Epic',
+			completedTasks: completedTaskIds
+				.map(id => getIssueById(projectPath, id))
+				.filter((t): t is Issue => !!t),
+			remainingTasks: parallel.lanes
+				.filter(l => l.status === 'pending')
+				.map(l => getIssueById(projectPath, l.taskId))
+				.filter((t): t is Issue => !!t),
+			currentTaskIndex: taskIds.indexOf(task.id),
+			totalTasks: taskIds.length
+		},
+		contextPacks: loadBeadContextPacks(projectPath, task.id)
+	});
+
+	taskRunnerStore.addEvent(run.id, {
+		type: 'status_change',
+		laneTaskId: task.id,
+		content: `Starting lane ${task.id} on ${branchName}: ${task.title}`
+	});
+
+	session.send(prompt, { issueId: task.id, runId: run.id });
+
+	startStatusPolling(run.id, projectPath, task.id, task.id);
+}
+
 /**
- * Handle output from Claude
+ * Handle output from a lane's execution session
  */
-function handleClaudeOutput(runId: string, chunk: ClaudeOutputChunk): void {
+function handleLaneOutput(runId: string, taskId: string, chunk: ExecutionOutputChunk): void {
 	const run = taskRunnerStore.get(runId);
 	if (!run) return;
 
+	const agentId = laneSessions.get(laneKey(runId, taskId))?.id || 'claude';
+	const task = run.epicSequence?.parallel?.lanes.find(l => l.taskId === taskId);
+	if (!task || task.status !== 'running') return;
+
+	// Keep the backend's own session ID so the lane can be resumed after a restart
+	if (chunk.sessionId && chunk.sessionId !== task.claudeSessionId) {
+		taskRunnerStore.updateEpicLane(runId, taskId, { claudeSessionId: chunk.sessionId });
+	}
+
+	switch (chunk.type) {
+		case 'text':
+			if (chunk.content) {
+				taskRunnerStore.addEvent(runId, { type: 'output', laneTaskId: taskId, content: chunk.content });
+				emitActivity('message', run.projectId, agentId, {
+					issueId: taskId,
+					runId,
+					content: chunk.content.slice(0, 200)
+				});
+
+				const signal = detectResponseSignal(laneKey(runId, taskId), chunk.content);
+				if (signal?.type === 'completed') {
+					finishLane(runId, taskId, true, signal.message, signal.envelope);
+				} else if (signal?.type === 'blocked') {
+					finishLane(runId, taskId, false, signal.message, signal.envelope);
+				} else if (signal?.type === 'awaiting_input') {
+					// Lanes run unattended - there is no chat to answer the question
+					finishLane(runId, taskId, false, `Needs input: ${signal.message || ''}`, signal.envelope);
+				}
+			}
+			break;
+
+		case 'tool_use':
+			taskRunnerStore.addEvent(runId, {
+				type: 'tool_use',
+				laneTaskId: taskId,
+				toolName: chunk.toolName,
+				toolInput: chunk.toolInput
+			});
+			emitActivity('tool_use', run.projectId, agentId, {
+				issueId: taskId,
+				runId,
+				toolName: chunk.toolName,
+				toolInput: chunk.toolInput
+			});
+			break;
+
+		case 'tool_result':
+			taskRunnerStore.addEvent(runId, { type: 'tool_result', laneTaskId: taskId, toolResult: chunk.toolResult });
+			break;
+
+		case 'error':
+			taskRunnerStore.addEvent(runId, { type: 'error', laneTaskId: taskId, content: chunk.content });
+			break;
+
+		case 'done':
+			resetResponse(laneKey(runId, taskId));
+			break;
+
+		case 'auth_expired':
+			taskRunnerStore.addEvent(runId, {
+				type: 'error',
+				laneTaskId: taskId,
+				content: 'Claude authentication expired. Please log in again.'
+			});
+			finishLane(runId, taskId, false, 'Claude authentication expired');
+			break;
+	}
+}
+
+/**
+ * Handle a lane's agent process exiting
+ */
+function handleLaneClose(runId: string, taskId: string, code: number): void {
+	const run = taskRunnerStore.get(runId);
+	const lane = run?.epicSequence?.parallel?.lanes.find(l => l.taskId === taskId);
+
+	// An exit without a completion signal ends the lane
+	if (lane?.status === 'running' && run?.status === 'running') {
+		finishLane(runId, taskId, code === 0, `Session ended with code ${code}`);
+	}
+
+	laneSessions.delete(laneKey(runId, taskId));
+	resetResponse(laneKey(runId, taskId));
+}
+
+/**
+ * Finish a lane, merge its branch back on success and schedule the next lanes
+ */
+function finishLane(
+	runId: string,
+	taskId: string,
+	success: boolean,
+	message?: string,
+	envelope?: CompletionEnvelope
+): void {
+	const run = taskRunnerStore.get(runId);
+	const lane = run?.epicSequence?.parallel?.lanes.find(l => l.taskId === taskId);
+	if (!run || !lane || lane.status !== 'running') return;
+
+	const project = getProjectById(run.projectId);
+	if (!project) return;
+
+	stopStatusPolling(laneKey(runId, taskId));
+
+	const session = laneSessions.get(laneKey(runId, taskId));
+	if (session) {
+		session.close();
+		laneSessions.delete(laneKey(runId, taskId));
+	}
+
+	taskRunnerStore.addEvent(runId, {
+		type: 'completion_signal',
+		laneTaskId: taskId,
+		content: `${success ? 'completed' : 'failed'}: ${message || ''}`
+	});
+
+	if (envelope) {
+		applyCompletionEnvelope(runId, project.path, taskId, envelope, taskId);
+	}
+
+	if (!success) {
+		taskRunnerStore.updateEpicLane(runId, taskId, {
+			status: 'failed',
+			mergeStatus: 'skipped',
+			completedAt: new Date().toISOString()
+		});
+	} else {
+		taskRunnerStore.updateEpicLane(runId, taskId, {
+			status: 'completed',
+			completedAt: new Date().toISOString()
+		});
+		mergeLane(runId, lane, project.path);
+	}
+
+	emitActivity(success ? 'completed' : 'failed', run.projectId, session?.id || 'claude', {
+		issueId: taskId,
+		runId,
+		content: message
+	});
+
+	scheduleParallelLanes(runId, project.path);
+}
+
+/**
+ * Merge a completed lane's branch into the base branch and drop its worktree
+ */
+function mergeLane(runId: string, lane: EpicLane, projectPath: string): void {
+	const run = taskRunnerStore.get(runId);
+	const parallel = run?.epicSequence?.parallel;
+	if (!run || !parallel || !lane.branchName) return;
+
+	let currentBranch = '';
+	try {
+		currentBranch = getCurrentBranch(projectPath);
+	} catch {
+		// Reported below as a merge failure
+	}
+
+	if (currentBranch !== parallel.baseBranch) {
+		taskRunnerStore.updateEpicLane(runId, lane.taskId, {
+			mergeStatus: 'conflict',
+			mergeError: `Main checkout is on '${currentBranch}', expected '${parallel.baseBranch}'`
+		});
+		return;
+	}
+
+	const result = mergeBranch(projectPath, lane.branchName, `Merge ${lane.taskId} (${lane.branchName})`);
+	if (!result.success) {
+		taskRunnerStore.updateEpicLane(runId, lane.taskId, {
+			mergeStatus: 'conflict',
+			mergeError: result.error
+		});
+		taskRunnerStore.addEvent(runId, {
+			type: 'error',
+			laneTaskId: lane.taskId,
+			content: `Merge of ${lane.branchName} failed${result.conflict ? ' (conflict)' : ''}. The worktree was kept for manual resolution.`
+		});
+		return;
+	}
+
+	taskRunnerStore.updateEpicLane(runId, lane.taskId, { mergeStatus: 'merged', mergeError: undefined });
+	taskRunnerStore.addEvent(runId, {
+		type: 'status_change',
+		laneTaskId: lane.taskId,
+		content: `Merged ${lane.branchName} into ${parallel.baseBranch}`
+	});
+
+	if (lane.worktreePath) {
+		const removed = removeWorktree(projectPath, lane.worktreePath);
+		if (!removed.success) {
+			console.error('[TaskRunner] Failed to remove worktree:', lane.worktreePath, removed.error);
+		}
+	}
+}
+
+/**
+ * Complete a parallel run once every lane has finished
+ */
+function finishParallelRun(runId: string): void {
+	const run = taskRunnerStore.get(runId);
+	const parallel = run?.epicSequence?.parallel;
+	if (!run || !parallel || run.status !== 'running') return;
+
+	const failed = parallel.lanes.filter(l => l.status === 'failed' || l.mergeStatus === 'conflict');
+	const success = failed.length === 0;
+
+	taskRunnerStore.updateStatus(
+		runId,
+		success ? 'completed' : 'failed',
+		success ? 'All epic tasks completed' : `${failed.length} task(s) failed or could not be merged`
+	);
+	runAgents.delete(runId);
+
+	removeActiveTask(runId);
+	notifyTaskCompleted({
+		taskRunId: runId,
+		projectId: run.projectId,
+		issueId: run.issueId,
+		issueTitle: run.issueTitle,
+		success
+	});
+}
+
+/**
+ * Close all lane sessions of a run
+ */
+function closeLaneSessions(runId: string): void {
+	for (const [key, session] of laneSessions) {
+		if (!key.startsWith(`${runId}:`)) continue;
+		stopStatusPolling(key);
+		session.cancel();
+		session.close();
+		laneSessions.delete(key);
+		resetResponse(key);
+	}
+}
+
+/**
+ * Handle output from a run's execution session
+ */
+function handleSessionOutput(runId: string, chunk: ExecutionOutputChunk): void {
+	const run = taskRunnerStore.get(runId);
+	if (!run) return;
+
+	// Keep the backend's own session ID so the run can be resumed after a restart
+	if (chunk.sessionId && chunk.sessionId !== run.claudeSessionId) {
+		taskRunnerStore.setClaudeSession(runId, chunk.sessionId);
+	}
+
 	// Get agent info for activity events
 	const agentId = run.claudeSessionId || 'claude';
 
@@ -276,9 +1113,9 @@ function handleClaudeOutput(runId: string, chunk: ClaudeOutputChunk): void {
 				});
 
 				// Check for completion signals
-				const signal = detectCompletionSignal(chunk.content);
-				if (signal.type) {
-					handleCompletionSignal(runId, signal.type, signal.message);
+				const signal = detectResponseSignal(runId, chunk.content);
+				if (signal?.type) {
+					handleCompletionSignal(runId, signal.type, signal.message, signal.envelope);
 				}
 			}
 			break;
@@ -330,30 +1167,37 @@ function handleClaudeOutput(runId: string, chunk: ClaudeOutputChunk): void {
 			});
 			taskRunnerStore.updateStatus(runId, 'failed');
 			// Clean up the Claude session
-			const runForAuth = taskRunnerStore.get(runId);
-			if (runForAuth?.claudeSessionId) {
-				claudeSessions.delete(runForAuth.claudeSessionId);
-			}
+			runSessions.delete(runId);
 			break;
 
 		case 'done':
 			// Response complete - check if we should advance epic or wait
+			resetResponse(runId);
 			handleResponseComplete(runId);
 			break;
 	}
 }
 
 /**
- * Handle completion signals from Claude's response
+ * Handle completion signals from the agent's response
  */
 function handleCompletionSignal(
 	runId: string,
 	signalType: 'completed' | 'awaiting_input' | 'blocked',
-	message?: string
+	message?: string,
+	envelope?: CompletionEnvelope
 ): void {
 	const run = taskRunnerStore.get(runId);
 	if (!run) return;
 
+	if (envelope) {
+		const project = getProjectById(run.projectId);
+		const beadId = run.epicSequence ? run.epicSequence.taskIds[run.epicSequence.currentIndex] : run.issueId;
+		if (project && beadId) {
+			applyCompletionEnvelope(runId, project.path, beadId, envelope);
+		}
+	}
+
 	const agentId = run.claudeSessionId || 'claude';
 
 	taskRunnerStore.addEvent(runId, {
@@ -446,7 +1290,7 @@ function handleCompletionSignal(
 }
 
 /**
- * Handle when Claude's response is complete
+ * Handle when the agent's response is complete
  */
 function handleResponseComplete(runId: string): void {
 	const run = taskRunnerStore.get(runId);
@@ -458,29 +1302,29 @@ function handleResponseComplete(runId: string): void {
 	}
 
 	// In autonomous mode, if we didn't get a completion signal,
-	// the task might still be in progress (Claude may continue)
+	// the task might still be in progress (the agent may continue)
 	// We rely on status polling to detect actual completion
 }
 
 /**
- * Handle Claude errors
+ * Handle execution session errors
  */
-function handleClaudeError(runId: string, error: Error): void {
-	console.error('[TaskRunner] Claude error:', error);
+function handleSessionError(runId: string, error: Error): void {
+	console.error('[TaskRunner] Session error:', error);
 
 	taskRunnerStore.addEvent(runId, {
 		type: 'error',
 		content: error.message
 	});
 
-	// Don't immediately fail - Claude might recover
+	// Don't immediately fail - the agent might recover
 }
 
 /**
- * Handle Claude session close
+ * Handle execution session close
  */
-function handleClaudeClose(runId: string, code: number): void {
-	console.log('[TaskRunner] Claude session closed with code:', code);
+function handleSessionClose(runId: string, code: number): void {
+	console.log('[TaskRunner] Session closed with code:', code);
 
 	const run = taskRunnerStore.get(runId);
 	if (!run) return;
@@ -509,44 +1353,57 @@ function handleClaudeClose(runId: string, code: number): void {
 		});
 	}
 
-	// Clean up
-	claudeSessions.delete(runId);
+	// Clean up; a finished run also removes its bead's worktree
+	const status = taskRunnerStore.get(runId)?.status;
+	if (status === 'running' || status === 'paused') {
+		runSessions.delete(runId);
+	} else {
+		closeRunSession(runId, getProjectById(run.projectId)?.path);
+	}
+	resetResponse(runId);
 }
 
 /**
  * Start polling for issue status changes
+ * Lanes of a parallel epic run are polled separately by passing laneTaskId.
  */
-function startStatusPolling(runId: string, projectPath: string, issueId: string): void {
+function startStatusPolling(runId: string, projectPath: string, issueId: string, laneTaskId?: string): void {
+	const pollerKey = laneTaskId ? laneKey(runId, laneTaskId) : runId;
+
 	// Stop any existing poller
-	stopStatusPolling(runId);
+	stopStatusPolling(pollerKey);
 
 	const initialStatus = getIssueById(projectPath, issueId)?.status;
 
 	const interval = setInterval(() => {
 		const run = taskRunnerStore.get(runId);
 		if (!run || run.status !== 'running') {
-			stopStatusPolling(runId);
+			stopStatusPolling(pollerKey);
 			return;
 		}
 
 		const currentIssue = getIssueById(projectPath, issueId);
 		if (currentIssue && currentIssue.status !== initialStatus && currentIssue.status === 'closed') {
 			// Issue was closed - task complete!
-			handleCompletionSignal(runId, 'completed', 'Issue status changed to closed');
+			if (laneTaskId) {
+				finishLane(runId, laneTaskId, true, 'Issue status changed to closed');
+			} else {
+				handleCompletionSignal(runId, 'completed', 'Issue status changed to closed');
+			}
 		}
 	}, 2000);
 
-	statusPollers.set(runId, interval);
+	statusPollers.set(pollerKey, interval);
 }
 
 /**
- * Stop status polling
+ * Stop status polling (pollerKey is the run ID, or laneKey() for a lane)
  */
-function stopStatusPolling(runId: string): void {
-	const interval = statusPollers.get(runId);
+function stopStatusPolling(pollerKey: string): void {
+	const interval = statusPollers.get(pollerKey);
 	if (interval) {
 		clearInterval(interval);
-		statusPollers.delete(runId);
+		statusPollers.delete(pollerKey);
 	}
 }
 
@@ -557,8 +1414,8 @@ export function sendMessage(runId: string, message: string): boolean {
 	const run = taskRunnerStore.get(runId);
 	if (!run) return false;
 
-	const claudeSession = claudeSessions.get(runId);
-	if (!claudeSession) return false;
+	const session = runSessions.get(runId);
+	if (!session) return false;
 
 	// Clear awaiting input state
 	if (run.awaitingUserInput) {
@@ -581,14 +1438,8 @@ export function sendMessage(runId: string, message: string): boolean {
 		content: `[User] ${message}`
 	});
 
-	// Send to Claude
-	claudeSendMessage(
-		claudeSession,
-		contextualMessage,
-		(chunk) => handleClaudeOutput(runId, chunk),
-		(error) => handleClaudeError(runId, error),
-		(code) => handleClaudeClose(runId, code)
-	);
+	// Send to the agent
+	session.send(contextualMessage, { issueId: run.issueId, runId });
 
 	return true;
 }
@@ -603,12 +1454,15 @@ export function stopRun(runId: string): boolean {
 	// Stop status polling
 	stopStatusPolling(runId);
 
-	// Cancel Claude response
-	const claudeSession = claudeSessions.get(runId);
-	if (claudeSession) {
-		claudeCancel(claudeSession);
-		claudeClose(claudeSession);
-		claudeSessions.delete(runId);
+	// Cancel the agent's response
+	runSessions.get(runId)?.cancel();
+	closeRunSession(runId, getProjectById(run.projectId)?.path);
+	closeLaneSessions(runId);
+	runAgents.delete(runId);
+	resetResponse(runId);
+
+	if (run.interrupted) {
+		taskRunnerStore.setInterrupted(runId, false);
 	}
 
 	// Update status
@@ -622,11 +1476,23 @@ export function stopRun(runId: string): boolean {
 
 /**
  * Resume a paused run
+ *
+ * Runs interrupted by a dashboard restart have no live session; one is
+ * re-attached on the run's backend using the session ID the backend reported
+ * (the Claude CLI's session_id) so the agent continues its own conversation.
  */
 export function resumeRun(runId: string, message?: string): boolean {
 	const run = taskRunnerStore.get(runId);
 	if (!run || run.status !== 'paused') return false;
 
+	if (run.epicSequence?.parallel) {
+		return resumeParallelRun(run);
+	}
+
+	if (run.interrupted || !runSessions.has(runId)) {
+		return resumeInterruptedRun(run, message);
+	}
+
 	// If there's a message, send it
 	if (message) {
 		return sendMessage(runId, message);
@@ -650,6 +1516,151 @@ export function resumeRun(runId: string, message?: string): boolean {
 	return true;
 }
 
+/**
+ * Resume a run whose execution session was lost in a restart
+ */
+function resumeInterruptedRun(run: TaskRun, message?: string): boolean {
+	const project = getProjectById(run.projectId);
+	if (!project) {
+		console.error('[TaskRunner] Project not found for interrupted run:', run.id);
+		return false;
+	}
+
+	// The task the run was working on when it was interrupted
+	const currentTaskId = run.epicSequence
+		? run.epicSequence.taskIds[run.epicSequence.currentIndex]
+		: run.issueId;
+
+	if (!currentTaskId) {
+		// Epic had already advanced past its last task
+		taskRunnerStore.setInterrupted(run.id, false);
+		taskRunnerStore.updateStatus(run.id, 'completed', 'All epic tasks completed');
+		removeActiveTask(run.id);
+		return true;
+	}
+
+	const currentTask = getIssueWithDetails(project.path, currentTaskId);
+	if (!currentTask) {
+		console.error('[TaskRunner] Could not find task for interrupted run:', currentTaskId);
+		return false;
+	}
+
+	// The bead's worktree survives the restart and is reused
+	const workdir = prepareRunWorkdir(run.id, run.projectId, project.path, currentTask);
+	if (!workdir) return false;
+
+	// A resumed conversation already has the agent profile; only backend settings are
+	// needed. Without a reported session ID the agent starts over with its full profile.
+	const agent = loadRunAgent(project.path, run.agentFilename);
+	runAgents.set(run.id, agent);
+	const session = run.claudeSessionId
+		? openRunSession(run, workdir, { frontmatter: agent.frontmatter }, run.claudeSessionId)
+		: openRunSession(run, workdir, agent);
+
+	if (!session) {
+		console.error('[TaskRunner] Failed to re-attach session for run:', run.id);
+		return false;
+	}
+
+	runSessions.set(run.id, session);
+	runSessionDirs.set(run.id, workdir);
+	taskRunnerStore.setInterrupted(run.id, false);
+	taskRunnerStore.setAwaitingInput(run.id, false);
+	taskRunnerStore.updateStatus(run.id, 'running', 'Resumed after restart');
+	updateActiveTask(run.id, { awaitingUserInput: false, status: 'running', interrupted: false });
+
+	const prompt = message
+		? buildMessagePrompt(message, { id: currentTask.id, title: currentTask.title })
+		: buildResumePrompt(currentTask, run.completionReason);
+
+	taskRunnerStore.addEvent(run.id, {
+		type: 'output',
+		content: message ? `[User] ${message}` : `Resuming work on: ${currentTask.title}`
+	});
+
+	session.send(prompt, { issueId: currentTask.id, runId: run.id });
+
+	startStatusPolling(run.id, project.path, currentTask.id);
+
+	return true;
+}
+
+/**
+ * Resume a parallel epic run - lanes that were running restart in their
+ * existing worktrees and continue their previous sessions
+ */
+function resumeParallelRun(run: TaskRun): boolean {
+	const project = getProjectById(run.projectId);
+	const parallel = run.epicSequence?.parallel;
+	if (!project || !parallel) return false;
+
+	for (const lane of parallel.lanes) {
+		if (lane.status === 'running' && !laneSessions.has(laneKey(run.id, lane.taskId))) {
+			taskRunnerStore.updateEpicLane(run.id, lane.taskId, { status: 'pending' });
+		}
+	}
+
+	taskRunnerStore.setInterrupted(run.id, false);
+	taskRunnerStore.updateStatus(run.id, 'running', 'Resumed after restart');
+	updateActiveTask(run.id, { awaitingUserInput: false, status: 'running', interrupted: false });
+
+	scheduleParallelLanes(run.id, project.path);
+	return true;
+}
+
+/**
+ * Abandon a paused run instead of resuming it
+ */
+export function abandonRun(runId: string): boolean {
+	const run = taskRunnerStore.get(runId);
+	if (!run || run.status !== 'paused') return false;
+
+	stopStatusPolling(runId);
+
+	closeRunSession(runId, getProjectById(run.projectId)?.path);
+	closeLaneSessions(runId);
+	runAgents.delete(runId);
+	resetResponse(runId);
+
+	if (run.interrupted) {
+		taskRunnerStore.setInterrupted(runId, false);
+	}
+	taskRunnerStore.updateStatus(runId, 'cancelled', 'Abandoned by user');
+	removeActiveTask(runId);
+
+	return true;
+}
+
+/**
+ * Startup recovery pass
+ *
+ * Loads runs that were still queued, running or paused when the dashboard
+ * stopped. Their agent processes are gone, so each one is shown as paused
+ * and flagged as interrupted until the user resumes or abandons it.
+ *
+ * @returns Number of runs recovered
+ */
+export function recoverInterruptedRuns(): number {
+	const recovered = taskRunnerStore.loadPersisted();
+
+	for (const run of recovered) {
+		if (runSessions.has(run.id)) continue;
+
+		taskRunnerStore.setInterrupted(run.id, true);
+		if (run.status !== 'paused') {
+			taskRunnerStore.updateStatus(run.id, 'paused', 'Interrupted by dashboard restart');
+		}
+
+		registerActiveTask(run);
+	}
+
+	if (recovered.length > 0) {
+		console.log(`[TaskRunner] Recovered ${recovered.length} interrupted run(s)`);
+	}
+
+	return recovered.length;
+}
+
 /**
  * Get active runs for a project
  */
@@ -662,9 +1673,20 @@ export function getActiveRuns(projectId: string): TaskRun[] {
  * Cleanup: close all sessions
  */
 export function cleanup(): void {
-	for (const [runId, session] of claudeSessions) {
+	for (const [runId, session] of runSessions) {
 		stopStatusPolling(runId);
-		claudeClose(session);
+		session.close();
 	}
-	claudeSessions.clear();
+	runSessions.clear();
+	// Worktrees are kept, so recovered runs resume in them
+	runSessionDirs.clear();
+
+	for (const [key, session] of laneSessions) {
+		stopStatusPolling(key);
+		session.close();
+	}
+	laneSessions.clear();
+
+	responseBuffers.clear();
+	signalledResponses.clear();
 }
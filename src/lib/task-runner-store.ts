@@ -1,8 +1,18 @@
 /**
  * Task Runner Store - In-memory state management for task runs
+ *
+ * Every mutation is written through to dashboard.db so run history,
+ * events and epic progress survive a restart (see loadPersistedRuns).
  */
 import { randomUUID } from 'crypto';
-import type { TaskRun, TaskRunEvent, TaskRunStatus, TaskRunMode, EpicSequence } from './types';
+import type { TaskRun, TaskRunEvent, TaskRunStatus, TaskRunMode, EpicSequence, EpicLane } from './types';
+import {
+	saveTaskRun,
+	appendTaskRunEvent,
+	getUnfinishedTaskRuns,
+	getTaskRunHistory,
+	deletePersistedTaskRun
+} from './dashboard-db';
 
 // In-memory store for active runs
 const runs = new Map<string, TaskRun>();
@@ -16,6 +26,31 @@ const runsByIssue = new Map<string, string>();
 // SSE controllers for broadcasting updates
 const sseControllers = new Map<string, Set<ReadableStreamDefaultController>>();
 
+/**
+ * Write the run state through to dashboard.db
+ * Persistence failures are logged but never break the live run
+ */
+function persistRun(run: TaskRun): void {
+	try {
+		saveTaskRun(run);
+	} catch (err) {
+		console.error('[TaskRunnerStore] Failed to persist run:', run.id, err);
+	}
+}
+
+/**
+ * Add a run to the in-memory maps and indexes
+ */
+function indexRun(run: TaskRun): void {
+	runs.set(run.id, run);
+
+	if (!runsByProject.has(run.projectId)) {
+		runsByProject.set(run.projectId, new Set());
+	}
+	runsByProject.get(run.projectId)!.add(run.id);
+	runsByIssue.set(run.issueId, run.id);
+}
+
 /**
  * Create a new task run
  */
@@ -26,8 +61,10 @@ export function createRun(params: {
 	issueType: string;
 	mode: TaskRunMode;
 	epicSequence?: EpicSequence;
+	backendId?: string;
+	agentFilename?: string;
 }): TaskRun {
-	const { projectId, issueId, issueTitle, issueType, mode, epicSequence } = params;
+	const { projectId, issueId, issueTitle, issueType, mode, epicSequence, backendId, agentFilename } = params;
 
 	// Check if there's already a run for this issue
 	const existingRunId = runsByIssue.get(issueId);
@@ -36,8 +73,8 @@ export function createRun(params: {
 		if (existingRun && existingRun.status === 'running') {
 			throw new Error(`A run is already active for issue ${issueId}`);
 		}
-		// Clean up old run
-		deleteRun(existingRunId);
+		// Drop the old run from memory (its history stays persisted)
+		evictRun(existingRunId);
 	}
 
 	const now = new Date();
@@ -50,22 +87,67 @@ export function createRun(params: {
 		mode,
 		status: 'queued',
 		epicSequence,
+		backendId,
+		agentFilename,
 		startedAt: now,
 		lastActivityAt: now,
 		events: [],
 		awaitingUserInput: false
 	};
 
-	runs.set(run.id, run);
+	indexRun(run);
+	persistRun(run);
+
+	return run;
+}
+
+/**
+ * Load unfinished runs from dashboard.db into memory
+ * Called once on startup; runs already in memory are left untouched.
+ *
+ * @returns The runs that were loaded
+ */
+export function loadPersistedRuns(): TaskRun[] {
+	let persisted: TaskRun[];
+	try {
+		persisted = getUnfinishedTaskRuns();
+	} catch (err) {
+		console.error('[TaskRunnerStore] Failed to load persisted runs:', err);
+		return [];
+	}
 
-	// Update indexes
-	if (!runsByProject.has(projectId)) {
-		runsByProject.set(projectId, new Set());
+	const loaded: TaskRun[] = [];
+	for (const run of persisted) {
+		if (runs.has(run.id)) continue;
+		indexRun(run);
+		loaded.push(run);
 	}
-	runsByProject.get(projectId)!.add(run.id);
-	runsByIssue.set(issueId, run.id);
+	return loaded;
+}
 
-	return run;
+/**
+ * Get the persisted run history for a project, including runs no longer in memory
+ * Live runs take precedence over their persisted copy.
+ */
+export function getRunHistory(projectId: string, limit: number = 50): TaskRun[] {
+	let history: TaskRun[] = [];
+	try {
+		history = getTaskRunHistory(projectId, limit);
+	} catch (err) {
+		console.error('[TaskRunnerStore] Failed to load run history:', err);
+	}
+
+	const merged = new Map<string, TaskRun>();
+	for (const run of history) {
+		merged.set(run.id, run);
+	}
+	for (const run of getRunsForProject(projectId)) {
+		merged.set(run.id, run);
+	}
+
+	return Array.from(merged.values())
+		.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+		.slice(0, limit);
 }
 
 /**
@@ -114,6 +196,8 @@ export function updateRunStatus(runId: string, status: TaskRunStatus, reason?: s
 		run.completionReason = reason;
 	}
 
+	persistRun(run);
+
 	// Add status change event
 	addEvent(runId, {
 		type: 'status_change',
@@ -140,6 +224,8 @@ export function setAwaitingInput(runId: string, awaiting: boolean, message?: str
 		run.status = 'paused';
 	}
 
+	persistRun(run);
+
 	broadcastToRun(runId, { type: 'awaiting_input', awaiting, message });
 
 	return run;
@@ -168,6 +254,8 @@ export function updateEpicProgress(
 		run.epicSequence.failedTaskIds.push(failedTaskId);
 	}
 
+	persistRun(run);
+
 	broadcastToRun(runId, {
 		type: 'epic_progress',
 		epicSequence: run.epicSequence
@@ -176,6 +264,44 @@ export function updateEpicProgress(
 	return run;
 }
 
+/**
+ * Update a lane of a parallel epic run
+ * Lanes that reach completed/failed are also recorded in the epic's task lists.
+ */
+export function updateEpicLane(
+	runId: string,
+	taskId: string,
+	updates: Partial<Omit<EpicLane, 'taskId'>>
+): EpicLane | undefined {
+	const run = runs.get(runId);
+	const parallel = run?.epicSequence?.parallel;
+	if (!run || !run.epicSequence || !parallel) return undefined;
+
+	const lane = parallel.lanes.find(l => l.taskId === taskId);
+	if (!lane) return undefined;
+
+	Object.assign(lane, updates);
+	run.lastActivityAt = new Date();
+
+	const { completedTaskIds, failedTaskIds } = run.epicSequence;
+	if (updates.status === 'completed' && !completedTaskIds.includes(taskId)) {
+		completedTaskIds.push(taskId);
+	}
+	if (updates.status === 'failed' && !failedTaskIds.includes(taskId)) {
+		failedTaskIds.push(taskId);
+	}
+	run.epicSequence.currentIndex = completedTaskIds.length + failedTaskIds.length;
+
+	persistRun(run);
+
+	broadcastToRun(runId, {
+		type: 'epic_progress',
+		epicSequence: run.epicSequence
+	});
+
+	return lane;
+}
+
 /**
  * Add an event to a run
  */
@@ -195,6 +321,12 @@ export function addEvent(
 	run.events.push(fullEvent);
 	run.lastActivityAt = new Date();
 
+	try {
+		appendTaskRunEvent(runId, run.events.length - 1, fullEvent);
+	} catch (err) {
+		console.error('[TaskRunnerStore] Failed to persist event:', runId, err);
+	}
+
 	// Broadcast event to SSE clients
 	broadcastToRun(runId, { type: 'event', event: fullEvent });
 
@@ -209,13 +341,41 @@ export function setClaudeSession(runId: string, claudeSessionId: string): TaskRu
 	if (!run) return undefined;
 
 	run.claudeSessionId = claudeSessionId;
+	persistRun(run);
 	return run;
 }
 
 /**
- * Delete a run
+ * Mark whether a run lost its live session in a restart
+ */
+export function setInterrupted(runId: string, interrupted: boolean): TaskRun | undefined {
+	const run = runs.get(runId);
+	if (!run) return undefined;
+
+	run.interrupted = interrupted;
+	persistRun(run);
+
+	broadcastToRun(runId, { type: 'interrupted', interrupted });
+
+	return run;
+}
+
+/**
+ * Delete a run, including its persisted history
  */
 export function deleteRun(runId: string): boolean {
+	try {
+		deletePersistedTaskRun(runId);
+	} catch (err) {
+		console.error('[TaskRunnerStore] Failed to delete persisted run:', runId, err);
+	}
+	return evictRun(runId);
+}
+
+/**
+ * Remove a run from memory only, keeping its persisted history
+ */
+export function evictRun(runId: string): boolean {
 	const run = runs.get(runId);
 	if (!run) return false;
 
@@ -318,7 +478,8 @@ export function getRunCounts(): { total: number; running: number; paused: number
 }
 
 /**
- * Cleanup old completed runs (older than 1 hour)
+ * Evict old completed runs (older than 1 hour) from memory
+ * Their history remains available through getRunHistory.
  */
 export function cleanupOldRuns(): number {
 	const ONE_HOUR = 60 * 60 * 1000;
@@ -330,7 +491,7 @@ export function cleanupOldRuns(): number {
 			run.completedAt &&
 			now - run.completedAt.getTime() > ONE_HOUR
 		) {
-			deleteRun(id);
+			evictRun(id);
 			cleaned++;
 		}
 	}
@@ -344,12 +505,17 @@ export const taskRunnerStore = {
 	get: getRun,
 	getForProject: getRunsForProject,
 	getForIssue: getRunForIssue,
+	getHistory: getRunHistory,
+	loadPersisted: loadPersistedRuns,
 	updateStatus: updateRunStatus,
 	setAwaitingInput,
 	updateEpicProgress,
+	updateEpicLane,
 	addEvent,
 	setClaudeSession,
+	setInterrupted,
 	delete: deleteRun,
+	evict: evictRun,
 	registerSSE: registerSSEController,
 	unregisterSSE: unregisterSSEController,
 	broadcast: broadcastToRun,
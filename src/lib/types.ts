@@ -49,6 +49,7 @@ export interface IssueWithDetails extends Issue {
   parent: Issue | null;
   comments: Comment[];
   events: Event[];
+  labels: string[];
   childBlockingRelations?: BlockingRelation[]; // For graph visualization
 }
 
@@ -69,15 +70,29 @@ export interface ProjectInfo {
   path: string;
 }
 
-export interface StreamMessage {
+export interface StreamSnapshotMessage {
   type: 'init' | 'update' | 'waiting' | 'error';
   project?: ProjectInfo;
   issues: Issue[];
   events?: Event[];
   dataVersion: number;
+  seq?: number; // Change feed position the snapshot reflects
   message?: string;
 }
 
+// Issues added, changed or removed since the previous message in the feed
+export interface StreamDeltaMessage {
+  type: 'delta';
+  seq: number;
+  added: Issue[];
+  changed: Issue[];
+  removed: string[]; // Issue IDs
+  events?: Event[];
+  dataVersion: number;
+}
+
+export type StreamMessage = StreamSnapshotMessage | StreamDeltaMessage;
+
 // Agent types for Claude Code agents
 export interface AgentFrontmatter {
   name: string;
@@ -85,9 +100,24 @@ export interface AgentFrontmatter {
   model?: string; // "opus", "sonnet", "haiku"
   color?: string; // "orange", "blue", "green", etc.
   mcpServers?: AgentMcpConfig; // MCP server configuration for this agent
+  backend?: string; // Task runner execution backend: "claude" (default) or "shell"
+  shell?: ShellAgentConfig; // Settings for the shell backend
   [key: string]: unknown;
 }
 
+// Shell script agent: runs a command per message, with the prompt on stdin
+export interface ShellAgentConfig {
+  command: string; // Run without a shell, e.g. "./scripts/agent.sh --fast"
+  timeoutMs?: number;
+  // Regexes for stdout lines that signal completion; group 1 is the message.
+  // Lines already using TASK_COMPLETED:/TASK_BLOCKED:/AWAITING_INPUT: always work.
+  markers?: {
+    completed?: string;
+    blocked?: string;
+    awaiting_input?: string;
+  };
+}
+
 export interface Agent {
   filename: string; // e.g., "n8n-workflows.md"
   filepath: string; // Full path to file
@@ -186,6 +216,30 @@ export interface TaskRunEvent {
   toolName?: string;
   toolInput?: Record<string, unknown>;
   toolResult?: unknown;
+  // Child task the event came from (parallel epic runs only)
+  laneTaskId?: string;
+}
+
+export type EpicLaneStatus = 'pending' | 'running' | 'completed' | 'failed';
+export type EpicLaneMergeStatus = 'pending' | 'merged' | 'conflict' | 'skipped';
+
+// One child task of a parallel epic run, executed in its own git worktree
+export interface EpicLane {
+  taskId: string;
+  status: EpicLaneStatus;
+  branchName?: string;
+  worktreePath?: string;
+  claudeSessionId?: string;  // Reported by the lane's backend, used to resume
+  mergeStatus: EpicLaneMergeStatus;
+  mergeError?: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface EpicParallelState {
+  concurrency: number;
+  baseBranch: string;
+  lanes: EpicLane[];
 }
 
 export interface EpicSequence {
@@ -194,6 +248,8 @@ export interface EpicSequence {
   taskIds: string[];
   completedTaskIds: string[];
   failedTaskIds: string[];
+  // Present when the epic runs ready children concurrently instead of one at a time
+  parallel?: EpicParallelState;
 }
 
 export interface TaskRun {
@@ -214,10 +270,15 @@ export interface TaskRun {
   lastActivityAt: Date;
   events: TaskRunEvent[];
 
-  // Claude session reference
+  // Session ID reported by the execution backend (the Claude CLI's session_id), used to resume
   claudeSessionId?: string;
+  // Execution backend and agent the run was started with
+  backendId?: string;
+  agentFilename?: string;
 
   // State flags
   awaitingUserInput: boolean;
   completionReason?: string;
+  // Set when the run was recovered after a dashboard restart and has no live session
+  interrupted?: boolean;
 }
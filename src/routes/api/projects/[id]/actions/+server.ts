@@ -1,12 +1,38 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { getProjectById } from '$lib/dashboard-db';
-import { getProfile } from '$lib/profiles';
-import { spawn } from 'child_process';
+import {
+	ActionRunnerError,
+	getAllowedActions,
+	resolveAllowedAction,
+	previewAction,
+	startActionRun
+} from '$lib/action-runner';
+
+function errorStatus(err: ActionRunnerError): number {
+	switch (err.code) {
+		case 'NOT_FOUND':
+			return 404;
+		case 'NOT_ALLOWED':
+			return 403;
+		case 'PARSE_ERROR':
+			return 400;
+		default:
+			return 500;
+	}
+}
 
 /**
  * POST /api/projects/[id]/actions
- * Execute a quick action command in the project directory
+ * Start an allowlisted quick action in the project directory.
+ * Returns the run id; output is streamed from /actions/[runId]/stream.
+ *
+ * Body:
+ * - actionId: Id of a profile, custom or detected-script action
+ * - command: Alternative to actionId; must match an allowlisted action's command
+ * - dryRun: Preview the resolved command without running it
+ * - timeoutMs: Run time limit (default 5 minutes, max 30 minutes)
+ * - beadId, sessionId, chatId: Context recorded in the action report
  */
 export const POST: RequestHandler = async ({ params, request }) => {
 	const project = getProjectById(params.id);
@@ -15,150 +41,100 @@ export const POST: RequestHandler = async ({ params, request }) => {
 		return json({ error: 'Project not found' }, { status: 404 });
 	}
 
-	let body: { actionId?: string; command?: string; profileId?: string };
+	let body: {
+		actionId?: string;
+		command?: string;
+		dryRun?: boolean;
+		timeoutMs?: number;
+		beadId?: string;
+		sessionId?: string;
+		chatId?: string;
+	};
 	try {
 		body = await request.json();
 	} catch {
 		return json({ error: 'Invalid JSON body' }, { status: 400 });
 	}
 
-	const { actionId, command, profileId = 'generic' } = body;
-
-	if (!actionId && !command) {
-		return json({ error: 'Either actionId or command is required' }, { status: 400 });
-	}
-
-	// Get the command to execute
-	let commandToRun: string;
-	let actionLabel: string;
-
-	if (command) {
-		// Direct command provided
-		commandToRun = command;
-		actionLabel = actionId || 'custom';
-	} else if (actionId) {
-		// Look up action from profile
-		const profile = getProfile(profileId);
-		const action = profile.quickActions.find((a) => a.id === actionId);
-
-		if (!action) {
-			return json({ error: `Action '${actionId}' not found in profile '${profileId}'` }, { status: 404 });
-		}
-
-		commandToRun = action.command;
-		actionLabel = action.label;
-	} else {
-		return json({ error: 'No command to execute' }, { status: 400 });
-	}
-
 	try {
-		const result = await executeCommand(commandToRun, project.path);
+		const { actions, profileIds } = await getAllowedActions(params.id, project.path);
+		const action = resolveAllowedAction(actions, body);
+
+		const options = {
+			projectId: params.id,
+			projectPath: project.path,
+			action,
+			profileUsed: profileIds.join(', '),
+			timeoutMs: typeof body.timeoutMs === 'number' ? body.timeoutMs : undefined,
+			beadId: body.beadId,
+			sessionId: body.sessionId,
+			chatId: body.chatId
+		};
+
+		if (body.dryRun) {
+			const preview = previewAction(options);
+			return json({
+				dryRun: true,
+				action: action.label,
+				actionId: action.id,
+				command: preview.resolvedCommand,
+				preview: preview.preview,
+				reportId: preview.reportId
+			});
+		}
 
-		return json({
-			success: result.exitCode === 0,
-			action: actionLabel,
-			command: commandToRun,
-			exitCode: result.exitCode,
-			stdout: result.stdout,
-			stderr: result.stderr,
-			message: result.exitCode === 0 ? 'Command completed successfully' : 'Command failed'
-		});
-	} catch (error) {
-		console.error('Action execution error:', error);
+		const run = startActionRun(options);
 		return json(
 			{
-				success: false,
-				action: actionLabel,
-				command: commandToRun,
-				error: error instanceof Error ? error.message : 'Unknown error',
-				message: 'Failed to execute command'
+				runId: run.id,
+				action: action.label,
+				actionId: action.id,
+				command: run.resolvedCommand,
+				status: run.status,
+				startedAt: run.startedAt.toISOString()
 			},
+			{ status: 202 }
+		);
+	} catch (error) {
+		if (error instanceof ActionRunnerError) {
+			return json({ error: error.message, code: error.code }, { status: errorStatus(error) });
+		}
+		console.error('Action execution error:', error);
+		return json(
+			{ error: error instanceof Error ? error.message : 'Unknown error' },
 			{ status: 500 }
 		);
 	}
 };
 
-interface CommandResult {
-	exitCode: number;
-	stdout: string;
-	stderr: string;
-}
-
-/**
- * Execute a command in the specified directory
- */
-function executeCommand(command: string, cwd: string): Promise<CommandResult> {
-	return new Promise((resolve, reject) => {
-		const chunks: Buffer[] = [];
-		const errorChunks: Buffer[] = [];
-
-		// Split command into parts for spawn
-		const parts = command.split(' ');
-		const cmd = parts[0];
-		const args = parts.slice(1);
-
-		const proc = spawn(cmd, args, {
-			cwd,
-			shell: true,
-			env: {
-				...process.env,
-				// Ensure we can find common tools
-				PATH: `${process.env.PATH}:/usr/local/bin:/opt/homebrew/bin`
-			}
-		});
-
-		proc.stdout.on('data', (data) => {
-			chunks.push(data);
-		});
-
-		proc.stderr.on('data', (data) => {
-			errorChunks.push(data);
-		});
-
-		proc.on('close', (code) => {
-			resolve({
-				exitCode: code ?? 1,
-				stdout: Buffer.concat(chunks).toString('utf-8'),
-				stderr: Buffer.concat(errorChunks).toString('utf-8')
-			});
-		});
-
-		proc.on('error', (err) => {
-			reject(err);
-		});
-
-		// Timeout after 60 seconds
-		setTimeout(() => {
-			proc.kill('SIGTERM');
-			reject(new Error('Command timed out after 60 seconds'));
-		}, 60000);
-	});
-}
-
 /**
  * GET /api/projects/[id]/actions
- * List available actions for the project's detected profile
+ * List the actions this project is allowed to run
  */
-export const GET: RequestHandler = async ({ params, url }) => {
+export const GET: RequestHandler = async ({ params }) => {
 	const project = getProjectById(params.id);
 
 	if (!project) {
 		return json({ error: 'Project not found' }, { status: 404 });
 	}
 
-	const profileId = url.searchParams.get('profileId') || 'generic';
-	const profile = getProfile(profileId);
+	try {
+		const { actions, profileIds } = await getAllowedActions(params.id, project.path);
 
-	return json({
-		profileId: profile.id,
-		profileName: profile.name,
-		actions: profile.quickActions.map((action) => ({
-			id: action.id,
-			label: action.label,
-			icon: action.icon,
-			description: action.description,
-			shortcut: action.shortcut,
-			requiresConfirmation: action.requiresConfirmation
-		}))
-	});
+		return json({
+			profileIds,
+			actions: actions.map((action) => ({
+				id: action.id,
+				label: action.label,
+				icon: action.icon,
+				command: action.command,
+				description: action.description,
+				shortcut: action.shortcut,
+				requiresConfirmation: action.requiresConfirmation
+			}))
+		});
+	} catch (error) {
+		console.error('Error listing actions:', error);
+		return json({ error: 'Failed to list actions' }, { status: 500 });
+	}
 };
@@ -0,0 +1,47 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { cancelActionRun, getActionRun } from '$lib/action-runner';
+
+/**
+ * GET /api/projects/[id]/actions/[runId]
+ * Get the status and captured output of an action run
+ */
+export const GET: RequestHandler = async ({ params }) => {
+	const run = getActionRun(params.runId);
+
+	if (!run || run.projectId !== params.id) {
+		return json({ error: 'Action run not found' }, { status: 404 });
+	}
+
+	return json({
+		runId: run.id,
+		actionId: run.action.id,
+		action: run.action.label,
+		command: run.resolvedCommand,
+		status: run.status,
+		exitCode: run.exitCode,
+		stdout: run.stdout,
+		stderr: run.stderr,
+		startedAt: run.startedAt.toISOString(),
+		completedAt: run.completedAt?.toISOString(),
+		reportId: run.reportId
+	});
+};
+
+/**
+ * DELETE /api/projects/[id]/actions/[runId]
+ * Cancel a running action
+ */
+export const DELETE: RequestHandler = async ({ params }) => {
+	const run = getActionRun(params.runId);
+
+	if (!run || run.projectId !== params.id) {
+		return json({ error: 'Action run not found' }, { status: 404 });
+	}
+
+	if (!cancelActionRun(params.runId)) {
+		return json({ error: `Action is already ${run.status}` }, { status: 409 });
+	}
+
+	return json({ success: true });
+};
@@ -0,0 +1,100 @@
+import { getActionRun, subscribeToActionRun } from '$lib/action-runner';
+import type { RequestHandler } from './$types';
+
+/**
+ * SSE endpoint for a quick action run - replays output captured so far,
+ * then streams new stdout/stderr chunks until the process exits
+ */
+export const GET: RequestHandler = async ({ params }) => {
+	const run = getActionRun(params.runId);
+
+	if (!run || run.projectId !== params.id) {
+		return new Response(JSON.stringify({ error: 'Action run not found' }), {
+			status: 404,
+			headers: { 'Content-Type': 'application/json' }
+		});
+	}
+
+	let cleanup = () => {};
+
+	const stream = new ReadableStream({
+		start(controller) {
+			const encoder = new TextEncoder();
+			let closed = false;
+
+			function send(data: unknown) {
+				if (closed) return;
+				try {
+					controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+				} catch {
+					// Stream may be closed
+				}
+			}
+
+			function close() {
+				if (closed) return;
+				closed = true;
+				cleanup();
+				try {
+					controller.close();
+				} catch {
+					// Already closed
+				}
+			}
+
+			send({
+				type: 'init',
+				status: run.status,
+				command: run.resolvedCommand,
+				stdout: run.stdout,
+				stderr: run.stderr
+			});
+
+			if (run.status !== 'running') {
+				send({
+					type: 'exit',
+					status: run.status,
+					exitCode: run.exitCode ?? 1,
+					durationMs: (run.completedAt?.getTime() ?? Date.now()) - run.startedAt.getTime(),
+					reportId: run.reportId
+				});
+				close();
+				return;
+			}
+
+			const unsubscribe = subscribeToActionRun(run.id, (event) => {
+				send(event);
+				if (event.type === 'exit') {
+					close();
+				}
+			});
+
+			// Keep-alive ping every 30 seconds
+			const pingInterval = setInterval(() => {
+				try {
+					controller.enqueue(encoder.encode(': ping\n\n'));
+				} catch {
+					cleanup();
+				}
+			}, 30000);
+
+			cleanup = () => {
+				unsubscribe();
+				clearInterval(pingInterval);
+			};
+		},
+
+		cancel() {
+			// Client disconnected; the action keeps running
+			cleanup();
+		}
+	});
+
+	return new Response(stream, {
+		headers: {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+			Connection: 'keep-alive'
+		}
+	});
+};
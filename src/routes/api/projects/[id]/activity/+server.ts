@@ -0,0 +1,76 @@
+/**
+ * Activity log API - query persisted agent activity for a project
+ */
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getProjectById } from '$lib/dashboard-db';
+import { queryActivityLog } from '$lib/agent-activity-db';
+import { ACTIVITY_RETENTION_DAYS, type AgentActivityType } from '$lib/agent-activity-types';
+
+function parseDate(value: string | null): Date | undefined | null {
+	if (!value) return undefined;
+	const date = new Date(value);
+	return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * GET /api/projects/[id]/activity
+ * Query the project's activity log, newest first
+ *
+ * Query params:
+ * - issueId, runId, agentId: Exact filters
+ * - types: Comma-separated list of activity types
+ * - since, until: ISO 8601 time range (inclusive)
+ * - q: Full-text search over content, command and file path
+ * - limit: Page size (default: 50, max: 500)
+ * - offset: Number of events to skip
+ */
+export const GET: RequestHandler = async ({ params, url }) => {
+	const project = getProjectById(params.id);
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	const since = parseDate(url.searchParams.get('since'));
+	const until = parseDate(url.searchParams.get('until'));
+	if (since === null || until === null) {
+		return json({ error: 'since and until must be ISO 8601 timestamps' }, { status: 400 });
+	}
+
+	const types = url.searchParams.get('types')?.split(',').filter(Boolean) as
+		| AgentActivityType[]
+		| undefined;
+	const unknownTypes = types?.filter((t) => !(t in ACTIVITY_RETENTION_DAYS)) ?? [];
+	if (unknownTypes.length > 0) {
+		return json({ error: `Unknown activity types: ${unknownTypes.join(', ')}` }, { status: 400 });
+	}
+
+	const limitParam = url.searchParams.get('limit');
+	const offsetParam = url.searchParams.get('offset');
+
+	try {
+		const page = queryActivityLog(project.path, {
+			projectId: params.id,
+			issueId: url.searchParams.get('issueId') || undefined,
+			runId: url.searchParams.get('runId') || undefined,
+			agentId: url.searchParams.get('agentId') || undefined,
+			types,
+			since,
+			until,
+			search: url.searchParams.get('q') || undefined,
+			limit: limitParam ? parseInt(limitParam, 10) || undefined : undefined,
+			offset: offsetParam ? parseInt(offsetParam, 10) || 0 : 0
+		});
+
+		return json({
+			...page,
+			events: page.events.map((event) => ({
+				...event,
+				timestamp: event.timestamp.toISOString()
+			}))
+		});
+	} catch (err) {
+		console.error('Error querying activity log:', err);
+		return json({ error: 'Failed to query activity log' }, { status: 500 });
+	}
+};
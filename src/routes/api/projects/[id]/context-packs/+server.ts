@@ -3,22 +3,23 @@
  *
  * POST /api/projects/[id]/context-packs - Generate a new context pack
  * GET /api/projects/[id]/context-packs - List context packs for project
+ *
+ * Packs are persisted in .claude/context-packs/ of the project.
  */
 
 import { json, error } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { getProjectById } from '$lib/dashboard-db';
+import { packToSummary } from '$lib/context-pack-generator';
 import {
-	createContextPackGenerator,
-	generateQuickContext,
-	packToSummary
-} from '$lib/context-pack-generator';
+	checkContextPackStaleness,
+	generateContextPack,
+	listContextPacks,
+	loadContextPack
+} from '$lib/context-pack-store';
 import type { ContextPackRequest } from '$lib/context-pack-types';
 import { packToMarkdown } from '$lib/context-pack-types';
 
-// In-memory cache for generated packs (could be persisted to disk later)
-const contextPackCache = new Map<string, any>();
-
 /**
  * POST - Generate a new context pack
  */
@@ -47,17 +48,8 @@ export const POST: RequestHandler = async ({ params, request }) => {
 			config: body.config
 		};
 
-		// Generate the pack
-		const generator = await createContextPackGenerator(project.path, projectId);
-		const pack = await generator.generate(packRequest);
-
-		// Cache it
-		contextPackCache.set(pack.id, pack);
-
-		// Also cache by project for listing
-		const projectPacks = contextPackCache.get(`project:${projectId}`) || [];
-		projectPacks.push(packToSummary(pack));
-		contextPackCache.set(`project:${projectId}`, projectPacks);
+		// Generate and persist the pack
+		const pack = await generateContextPack(project.path, projectId, packRequest);
 
 		return json({
 			success: true,
@@ -81,10 +73,16 @@ export const POST: RequestHandler = async ({ params, request }) => {
 
 /**
  * GET - List context packs or get a specific pack
+ *
+ * Query params:
+ * - packId: Return that pack with its staleness
+ * - format: 'markdown' to return the pack as markdown (with packId)
+ * - beadId: Only list packs attached to this bead
  */
 export const GET: RequestHandler = async ({ params, url }) => {
 	const projectId = params.id;
 	const packId = url.searchParams.get('packId');
+	const beadId = url.searchParams.get('beadId');
 	const format = url.searchParams.get('format') || 'json';
 
 	// Get project info
@@ -95,7 +93,7 @@ export const GET: RequestHandler = async ({ params, url }) => {
 
 	// If packId provided, return that specific pack
 	if (packId) {
-		const pack = contextPackCache.get(packId);
+		const pack = loadContextPack(project.path, packId);
 		if (!pack) {
 			throw error(404, 'Context pack not found');
 		}
@@ -106,10 +104,15 @@ export const GET: RequestHandler = async ({ params, url }) => {
 			});
 		}
 
-		return json({ pack });
+		return json({ pack, staleness: checkContextPackStaleness(project.path, pack) });
 	}
 
-	// Otherwise list all packs for project
-	const projectPacks = contextPackCache.get(`project:${projectId}`) || [];
-	return json({ packs: projectPacks });
+	// Otherwise list all packs for project, flagging the stale ones
+	const packs = listContextPacks(project.path)
+		.filter((pack) => !beadId || pack.beadIds?.includes(beadId))
+		.map((pack) => ({
+			...packToSummary(pack),
+			stale: checkContextPackStaleness(project.path, pack).stale
+		}));
+	return json({ packs });
 };
@@ -0,0 +1,50 @@
+/**
+ * Context Pack Bead Attachments API
+ *
+ * POST /api/projects/[id]/context-packs/[packId]/beads - Attach the pack to a bead
+ * DELETE /api/projects/[id]/context-packs/[packId]/beads - Detach the pack from a bead
+ *
+ * Body: { beadId: string }
+ * Attached packs are injected into the task prompt when the bead runs.
+ */
+
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getProjectById } from '$lib/dashboard-db';
+import { attachContextPack, detachContextPack } from '$lib/context-pack-store';
+
+async function readBeadId(request: Request): Promise<string> {
+	const body = await request.json().catch(() => null);
+	if (!body || typeof body.beadId !== 'string' || !body.beadId) {
+		throw error(400, 'beadId is required');
+	}
+	return body.beadId;
+}
+
+export const POST: RequestHandler = async ({ params, request }) => {
+	const project = getProjectById(params.id);
+	if (!project) {
+		throw error(404, 'Project not found');
+	}
+
+	const pack = attachContextPack(project.path, params.packId, await readBeadId(request));
+	if (!pack) {
+		throw error(404, 'Context pack not found');
+	}
+
+	return json({ beadIds: pack.beadIds ?? [] });
+};
+
+export const DELETE: RequestHandler = async ({ params, request }) => {
+	const project = getProjectById(params.id);
+	if (!project) {
+		throw error(404, 'Project not found');
+	}
+
+	const pack = detachContextPack(project.path, params.packId, await readBeadId(request));
+	if (!pack) {
+		throw error(404, 'Context pack not found');
+	}
+
+	return json({ beadIds: pack.beadIds ?? [] });
+};
@@ -0,0 +1,32 @@
+/**
+ * Context Pack Regeneration API
+ *
+ * POST /api/projects/[id]/context-packs/[packId]/regenerate
+ * Regenerate a pack from its original request, keeping its id and bead attachments
+ */
+
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getProjectById } from '$lib/dashboard-db';
+import { checkContextPackStaleness, regenerateContextPack } from '$lib/context-pack-store';
+
+export const POST: RequestHandler = async ({ params }) => {
+	const project = getProjectById(params.id);
+	if (!project) {
+		throw error(404, 'Project not found');
+	}
+
+	let pack;
+	try {
+		pack = await regenerateContextPack(project.path, params.id, params.packId);
+	} catch (err) {
+		console.error('Context pack regeneration error:', err);
+		throw error(500, err instanceof Error ? err.message : 'Regeneration failed');
+	}
+
+	if (!pack) {
+		throw error(404, 'Context pack not found');
+	}
+
+	return json({ pack, staleness: checkContextPackStaleness(project.path, pack) });
+};
@@ -0,0 +1,51 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getProjectById } from '$lib/dashboard-db';
+import {
+	getAllIssues,
+	getAllBlockingRelations,
+	getChildIssues,
+	getChildBlockingRelations,
+	getIssueById
+} from '$lib/project-db';
+import { analyzeDependencies, describeCycle } from '$lib/dependency-analysis';
+
+/**
+ * GET /api/projects/[id]/dependencies
+ * Analyze the blocking graph: cycles, critical path, and per-bead depth and fan-out
+ *
+ * Query params:
+ * - epicId: Limit the analysis to an epic's children (default: whole project)
+ */
+export const GET: RequestHandler = async ({ params, url }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	const epicId = url.searchParams.get('epicId');
+
+	try {
+		if (epicId && !getIssueById(project.path, epicId)) {
+			return json({ error: 'Epic not found' }, { status: 404 });
+		}
+
+		const issues = epicId ? getChildIssues(project.path, epicId) : getAllIssues(project.path);
+		const relations = epicId
+			? getChildBlockingRelations(project.path, epicId)
+			: getAllBlockingRelations(project.path);
+
+		const analysis = analyzeDependencies(issues, relations);
+
+		return json({
+			scope: epicId ? 'epic' : 'project',
+			epicId: epicId ?? undefined,
+			...analysis,
+			cycleDescriptions: analysis.cycles.map(describeCycle)
+		});
+	} catch (e) {
+		console.error('Error analyzing dependencies:', e);
+		return json({ error: 'Failed to analyze dependencies' }, { status: 500 });
+	}
+};
@@ -5,8 +5,10 @@ import {
 	getProjectDevConfig,
 	setProjectDevConfig,
 	clearProjectDevConfig,
-	type DevServerConfig
+	type DevServerConfig,
+	type DevServiceConfig
 } from '$lib/dashboard-db';
+import { validateDevServices } from '$lib/dev-server-manager';
 
 export const GET: RequestHandler = async ({ params }) => {
 	const { id } = params;
@@ -34,18 +36,41 @@ export const POST: RequestHandler = async ({ params, request }) => {
 	try {
 		const body = await request.json();
 
+		// Validate services of a multi-service environment
+		let services: DevServiceConfig[] | undefined;
+		if (body.services !== undefined && body.services !== null) {
+			const validation = validateDevServices(body.services);
+			if (validation.error) {
+				return json({ error: validation.error }, { status: 400 });
+			}
+			services = validation.services?.length ? validation.services : undefined;
+		}
+		if (services && body.previewService && !services.some(s => s.name === body.previewService)) {
+			return json({ error: `Unknown preview service "${body.previewService}"` }, { status: 400 });
+		}
+
+		// Top-level fields default to the preview service's
+		const preview = services
+			? services.find(s => s.name === body.previewService) ?? services.find(s => s.port) ?? services[0]
+			: undefined;
+		const framework = body.framework || preview?.framework;
+		const devCommand = body.devCommand || preview?.command;
+		const defaultPort = body.defaultPort || preview?.port;
+
 		// Validate the config
-		if (!body.framework || !body.devCommand || !body.defaultPort) {
+		if (!framework || !devCommand || !defaultPort) {
 			return json({ error: 'Missing required fields' }, { status: 400 });
 		}
 
 		const config: DevServerConfig = {
-			framework: body.framework,
-			devCommand: body.devCommand,
-			defaultPort: body.defaultPort,
+			framework,
+			devCommand,
+			defaultPort,
 			hotReloadSupported: body.hotReloadSupported ?? true,
 			detectedAt: new Date().toISOString(),
-			previewUrl: body.previewUrl
+			previewUrl: body.previewUrl,
+			services,
+			previewService: services ? body.previewService : undefined
 		};
 
 		setProjectDevConfig(id, config);
@@ -16,20 +16,24 @@ export const POST: RequestHandler = async ({ params, request }) => {
 		return json({ error: 'No dev server configuration. Please detect or configure first.' }, { status: 400 });
 	}
 
-	// Check for override port in request body
+	// Check for override port and a single service in request body
 	let overridePort: number | undefined;
+	let service: string | undefined;
 	try {
 		const body = await request.json().catch(() => ({}));
 		if (body.port && typeof body.port === 'number') {
 			overridePort = body.port;
 		}
+		if (body.service && typeof body.service === 'string') {
+			service = body.service;
+		}
 	} catch {
 		// No body or invalid JSON, that's fine
 	}
 
-	// Check if already running
+	// Check if already running (a single service may be started into a running environment)
 	const currentStatus = getServerStatus(id);
-	if (currentStatus.running) {
+	if (currentStatus.running && !service) {
 		const previewUrl = getPreviewUrl(id, config);
 		return json({
 			success: true,
@@ -39,14 +43,15 @@ export const POST: RequestHandler = async ({ params, request }) => {
 		});
 	}
 
-	const result = await startDevServer(id, project.path, config, { overridePort });
+	const result = await startDevServer(id, project.path, config, { overridePort, service });
 
 	// If there's a port conflict, return it with a specific status
 	if (!result.success && result.portConflict) {
 		return json({
 			success: false,
 			error: result.error,
-			portConflict: result.portConflict
+			portConflict: result.portConflict,
+			service: result.service
 		}, { status: 409 }); // 409 Conflict
 	}
 
@@ -14,9 +14,10 @@ export const GET: RequestHandler = async ({ params, url }) => {
 	const status = getServerStatus(id);
 	const config = getProjectDevConfig(id);
 
-	// Include recent output if requested
+	// Include recent output if requested (of ?service=, or the preview service)
 	const includeOutput = url.searchParams.get('output') === 'true';
-	const outputLines = includeOutput ? getServerOutput(id, 20) : [];
+	const service = url.searchParams.get('service') ?? undefined;
+	const outputLines = includeOutput ? getServerOutput(id, 20, service) : [];
 
 	// Get preview URL if server is running and config exists
 	const previewUrl = status.running && config ? getPreviewUrl(id, config) : null;
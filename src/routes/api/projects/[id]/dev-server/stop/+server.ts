@@ -3,7 +3,7 @@ import type { RequestHandler } from './$types';
 import { getProjectById } from '$lib/dashboard-db';
 import { stopDevServer, getServerStatus } from '$lib/dev-server-manager';
 
-export const POST: RequestHandler = async ({ params }) => {
+export const POST: RequestHandler = async ({ params, request }) => {
 	const { id } = params;
 
 	const project = getProjectById(id);
@@ -11,16 +11,21 @@ export const POST: RequestHandler = async ({ params }) => {
 		return json({ error: 'Project not found' }, { status: 404 });
 	}
 
+	// Optional single service to stop
+	const body = await request.json().catch(() => ({}));
+	const service = typeof body.service === 'string' ? body.service : undefined;
+
 	// Check if running
 	const currentStatus = getServerStatus(id);
-	if (!currentStatus.running) {
+	const target = service ? currentStatus.services.find(s => s.name === service) : currentStatus;
+	if (!target?.running) {
 		return json({
 			success: true,
 			wasRunning: false
 		});
 	}
 
-	const result = await stopDevServer(id);
+	const result = await stopDevServer(id, service);
 
 	if (!result.success) {
 		return json({ error: result.error }, { status: 500 });
@@ -1,9 +1,17 @@
 import type { RequestHandler } from './$types';
 import { getProjectById, getProjectDevConfig } from '$lib/dashboard-db';
-import { getServerStatus, getServerEmitter, getServerOutput, getPreviewUrl } from '$lib/dev-server-manager';
-
-export const GET: RequestHandler = async ({ params }) => {
+import {
+	getServerStatus,
+	getServerEmitter,
+	getEnvironmentEmitter,
+	getServerOutput,
+	getPreviewUrl
+} from '$lib/dev-server-manager';
+
+export const GET: RequestHandler = async ({ params, url }) => {
 	const { id } = params;
+	// Stream one service of a multi-service environment (default: the preview service)
+	const service = url.searchParams.get('service') ?? undefined;
 
 	const project = getProjectById(id);
 	if (!project) {
@@ -16,17 +24,19 @@ export const GET: RequestHandler = async ({ params }) => {
 	const config = getProjectDevConfig(id);
 	const status = getServerStatus(id);
 
-	if (!status.running) {
+	// A named service can be streamed after it exited, to see why
+	if (!status.running && !service) {
 		return new Response(JSON.stringify({ error: 'Server not running' }), {
 			status: 400,
 			headers: { 'Content-Type': 'application/json' }
 		});
 	}
 
-	const emitter = getServerEmitter(id);
+	const emitter = getServerEmitter(id, service);
+	const environmentEmitter = getEnvironmentEmitter(id);
 	if (!emitter) {
-		return new Response(JSON.stringify({ error: 'Server emitter not found' }), {
-			status: 500,
+		return new Response(JSON.stringify({ error: service ? 'Service not found' : 'Server emitter not found' }), {
+			status: service ? 404 : 500,
 			headers: { 'Content-Type': 'application/json' }
 		});
 	}
@@ -63,7 +73,8 @@ export const GET: RequestHandler = async ({ params }) => {
 				status: getServerStatus(id),
 				config,
 				previewUrl: config ? getPreviewUrl(id, config) : null,
-				recentOutput: getServerOutput(id, 50)
+				service: service ?? null,
+				recentOutput: getServerOutput(id, 50, service)
 			});
 
 			// Handle output events
@@ -95,11 +106,17 @@ export const GET: RequestHandler = async ({ params }) => {
 				sendEvent('error', { message: error });
 			};
 
+			// Aggregate status of all services
+			const statusHandler = (status: unknown) => {
+				sendEvent('status', { status });
+			};
+
 			emitter.on('output', outputHandler);
 			emitter.on('ready', readyHandler);
 			emitter.on('preview-url', previewUrlHandler);
 			emitter.on('exit', exitHandler);
 			emitter.on('error', errorHandler);
+			environmentEmitter?.on('status', statusHandler);
 
 			function cleanup() {
 				emitter?.off('output', outputHandler);
@@ -107,6 +124,7 @@ export const GET: RequestHandler = async ({ params }) => {
 				emitter?.off('preview-url', previewUrlHandler);
 				emitter?.off('exit', exitHandler);
 				emitter?.off('error', errorHandler);
+				environmentEmitter?.off('status', statusHandler);
 			}
 
 			// Heartbeat to keep connection alive
@@ -0,0 +1,72 @@
+import { json } from '@sveltejs/kit';
+import {
+	getProjectById,
+	getProjectGitWorkflowSettings,
+	setProjectGitWorkflowSettings
+} from '$lib/dashboard-db';
+import { DEFAULT_BEAD_GIT_SETTINGS, validateBeadGitSettings } from '$lib/bead-git-workflow';
+import type { RequestHandler } from './$types';
+
+/**
+ * GET /api/projects/[id]/git-workflow
+ * Get the project's bead branch, commit and PR automation settings
+ */
+export const GET: RequestHandler = async ({ params }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	const stored = getProjectGitWorkflowSettings(params.id);
+
+	return json({
+		settings: { ...DEFAULT_BEAD_GIT_SETTINGS, ...stored },
+		isCustom: stored !== null
+	});
+};
+
+/**
+ * PUT /api/projects/[id]/git-workflow
+ * Replace the project's git workflow settings
+ */
+export const PUT: RequestHandler = async ({ params, request }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	try {
+		const body = await request.json();
+		const { settings, errors } = validateBeadGitSettings(body);
+
+		if (!settings) {
+			return json({ error: 'Invalid git workflow settings', details: errors }, { status: 400 });
+		}
+
+		const saved = { ...settings, updatedAt: new Date().toISOString() };
+		setProjectGitWorkflowSettings(params.id, saved);
+
+		return json({ settings: saved, isCustom: true });
+	} catch (e) {
+		console.error('Error saving git workflow settings:', e);
+		return json({ error: 'Failed to save git workflow settings' }, { status: 500 });
+	}
+};
+
+/**
+ * DELETE /api/projects/[id]/git-workflow
+ * Reset the project to the default settings
+ */
+export const DELETE: RequestHandler = async ({ params }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	setProjectGitWorkflowSettings(params.id, null);
+
+	return json({ settings: DEFAULT_BEAD_GIT_SETTINGS, isCustom: false });
+};
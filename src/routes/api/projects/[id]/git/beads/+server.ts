@@ -0,0 +1,44 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getProjectById } from '$lib/dashboard-db';
+import { isGitRepo } from '$lib/git-utils';
+import { getBeadCommitIndex, getBeadsForCommit, type BeadCommitLink } from '$lib/bead-commit-index';
+
+const MAX_LOOKUPS = 200;
+
+/**
+ * GET: Beads linked to commits (reverse of /issues/[issueId]/commits)
+ * Pass ?commit=<hash> once per commit; abbreviated hashes are accepted.
+ */
+export const GET: RequestHandler = async ({ params, url }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	if (!isGitRepo(project.path)) {
+		return json({ error: 'Not a git repository' }, { status: 400 });
+	}
+
+	const hashes = url.searchParams.getAll('commit').filter(Boolean);
+	if (hashes.length === 0) {
+		return json({ error: 'At least one commit is required' }, { status: 400 });
+	}
+	if (hashes.length > MAX_LOOKUPS) {
+		return json({ error: `At most ${MAX_LOOKUPS} commits can be looked up at once` }, { status: 400 });
+	}
+
+	try {
+		const index = getBeadCommitIndex(project.path);
+		const commits: Record<string, BeadCommitLink[]> = {};
+		for (const hash of hashes) {
+			commits[hash] = getBeadsForCommit(index, hash);
+		}
+
+		return json({ commits });
+	} catch (error) {
+		console.error('[git/beads] Error:', error);
+		return json({ error: 'Failed to look up beads for commits' }, { status: 500 });
+	}
+};
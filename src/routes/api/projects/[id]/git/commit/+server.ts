@@ -1,7 +1,8 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { getProjectById } from '$lib/dashboard-db';
-import { createCommit, getStatus, isGitRepo, push } from '$lib/git-utils';
+import { createCommit, getCurrentBranch, getStatus, isGitRepo, push } from '$lib/git-utils';
+import { addBeadTrailer, findClaimedBeadForBranch } from '$lib/bead-git-workflow';
 
 export const POST: RequestHandler = async ({ params, request }) => {
 	const project = getProjectById(params.id);
@@ -18,7 +19,7 @@ export const POST: RequestHandler = async ({ params, request }) => {
 
 	try {
 		const body = await request.json();
-		const { message, shouldPush = false } = body;
+		const { message, shouldPush = false, beadId } = body;
 
 		if (!message) {
 			return json({ error: 'Commit message is required' }, { status: 400 });
@@ -30,8 +31,14 @@ export const POST: RequestHandler = async ({ params, request }) => {
 			return json({ error: 'No changes to save' }, { status: 400 });
 		}
 
+		// Tag the commit with the bead it was made for, or the bead claimed on this branch
+		const trailerBeadId =
+			typeof beadId === 'string' && beadId
+				? beadId
+				: findClaimedBeadForBranch(projectPath, getCurrentBranch(projectPath))?.id;
+
 		// Create the commit
-		const commitHash = createCommit(projectPath, message);
+		const commitHash = createCommit(projectPath, trailerBeadId ? addBeadTrailer(message, trailerBeadId) : message);
 
 		// Push if requested
 		let pushResult = null;
@@ -42,6 +49,7 @@ export const POST: RequestHandler = async ({ params, request }) => {
 		return json({
 			success: true,
 			commitHash,
+			beadId: trailerBeadId,
 			pushed: shouldPush ? pushResult?.success : false
 		});
 	} catch (error) {
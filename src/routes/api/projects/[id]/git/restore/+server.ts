@@ -1,7 +1,16 @@
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
 import { getProjectById } from '$lib/dashboard-db';
-import { restoreToCommit, getCommitsToUndo, getStatus, isGitRepo } from '$lib/git-utils';
+import {
+	restoreToCommit,
+	getCommitsToUndo,
+	getStatus,
+	isGitRepo,
+	listRestoreBackups,
+	type RestoreMode
+} from '$lib/git-utils';
+
+const RESTORE_MODES: RestoreMode[] = ['revert', 'branch', 'reset'];
 
 export const POST: RequestHandler = async ({ params, request }) => {
 	const project = getProjectById(params.id);
@@ -18,19 +27,30 @@ export const POST: RequestHandler = async ({ params, request }) => {
 
 	try {
 		const body = await request.json();
-		const { commitHash, saveFirst = false, commitMessage } = body;
+		const { commitHash, saveFirst = false, commitMessage, mode = 'revert', branchName, forcePush = false } = body;
 
 		if (!commitHash) {
 			return json({ error: 'Commit hash is required' }, { status: 400 });
 		}
 
+		if (!RESTORE_MODES.includes(mode)) {
+			return json({ error: `Invalid restore mode: ${mode}` }, { status: 400 });
+		}
+
+		if (forcePush && mode !== 'reset') {
+			return json({ error: 'forcePush is only allowed with mode "reset"' }, { status: 400 });
+		}
+
 		// Get commits that will be undone (for confirmation/logging)
 		const commitsToUndo = getCommitsToUndo(projectPath, commitHash);
 
 		// Perform the restore
 		const result = restoreToCommit(projectPath, commitHash, {
+			mode,
 			saveFirst,
-			commitMessage
+			commitMessage,
+			branchName,
+			forcePush
 		});
 
 		if (!result.success) {
@@ -39,7 +59,13 @@ export const POST: RequestHandler = async ({ params, request }) => {
 
 		return json({
 			success: true,
+			mode: result.mode,
 			savedCommitHash: result.savedCommitHash,
+			restoreCommitHash: result.restoreCommitHash,
+			branchName: result.branchName,
+			backup: result.backup,
+			pushed: result.pushed ?? false,
+			pushSkippedReason: result.pushSkippedReason,
 			commitsUndone: commitsToUndo.length
 		});
 	} catch (error) {
@@ -75,7 +101,8 @@ export const GET: RequestHandler = async ({ params, url }) => {
 		return json({
 			commitsToUndo,
 			hasUnsavedChanges: status.hasChanges,
-			unsavedChangesSummary: status.summary
+			unsavedChangesSummary: status.summary,
+			recentBackups: listRestoreBackups(projectPath)
 		});
 	} catch (error) {
 		console.error('[git/restore] Error:', error);
@@ -0,0 +1,59 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getProjectById } from '$lib/dashboard-db';
+import { isGitRepo, listRestoreBackups, undoRestore } from '$lib/git-utils';
+
+// GET recent restore backups ("recently restored — undo" list)
+export const GET: RequestHandler = async ({ params, url }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	if (!isGitRepo(project.path)) {
+		return json({ error: 'Not a git repository' }, { status: 400 });
+	}
+
+	try {
+		const limit = parseInt(url.searchParams.get('limit') || '10', 10);
+		return json({ backups: listRestoreBackups(project.path, limit) });
+	} catch (error) {
+		console.error('[git/restore/backups] Error:', error);
+		return json({ error: 'Failed to list restore backups' }, { status: 500 });
+	}
+};
+
+// POST { backupId } to undo a restore
+export const POST: RequestHandler = async ({ params, request }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	if (!isGitRepo(project.path)) {
+		return json({ error: 'Not a git repository' }, { status: 400 });
+	}
+
+	try {
+		const { backupId } = await request.json();
+
+		if (!backupId) {
+			return json({ error: 'Backup ID is required' }, { status: 400 });
+		}
+
+		const result = undoRestore(project.path, backupId);
+
+		if (!result.success) {
+			const status =
+				result.error === 'Backup not found' ? 404 : result.error?.startsWith('You have unsaved changes') ? 409 : 500;
+			return json({ error: result.error }, { status });
+		}
+
+		return json({ success: true, backup: result.backup });
+	} catch (error) {
+		console.error('[git/restore/backups] Error:', error);
+		return json({ error: 'Failed to undo restore' }, { status: 500 });
+	}
+};
@@ -0,0 +1,96 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+import { getProjectById } from '$lib/dashboard-db';
+import { isGitRepo } from '$lib/git-utils';
+import { resolveIntentCommitForBead } from '$lib/intent/history';
+import { buildIntentContext, buildIntentContextForBead } from '$lib/intent/injection';
+import type { IntentAsOfResponse, IntentErrorResponse } from '$lib/intent/types';
+
+/**
+ * GET /api/projects/[id]/intent/as-of
+ *
+ * Build the intent context as it was at a past commit, answering
+ * "what did the intent say when this bead was executed?".
+ *
+ * Query params (one of commit or beadId is required):
+ * - commit: Commit hash to read PROJECT_INTENT.md at
+ * - beadId: Bead to resolve the commit from (its recorded commit, or the
+ *   last commit before it was closed). Its links at that commit are highlighted.
+ * - maxTokens: Optional. Token budget for the context (default: 2000)
+ */
+export const GET: RequestHandler = async ({ params, url }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json(
+			{ error: 'intent_not_found', message: 'Project not found' } as IntentErrorResponse,
+			{ status: 404 }
+		);
+	}
+
+	const commitParam = url.searchParams.get('commit');
+	const beadId = url.searchParams.get('beadId');
+
+	if (!commitParam && !beadId) {
+		return json(
+			{ error: 'invalid_intent', message: 'commit or beadId required' } as IntentErrorResponse,
+			{ status: 400 }
+		);
+	}
+
+	if (commitParam && !/^[0-9a-f]{7,40}$/i.test(commitParam)) {
+		return json(
+			{ error: 'invalid_intent', message: 'commit must be a commit hash' } as IntentErrorResponse,
+			{ status: 400 }
+		);
+	}
+
+	if (!isGitRepo(project.path)) {
+		return json(
+			{ error: 'intent_not_found', message: 'Project is not a git repository' } as IntentErrorResponse,
+			{ status: 404 }
+		);
+	}
+
+	try {
+		const resolved = commitParam
+			? { commit: commitParam, resolvedFrom: 'commit' as const }
+			: resolveIntentCommitForBead(project.path, beadId!);
+
+		if (!resolved) {
+			return json(
+				{
+					error: 'intent_not_found',
+					message: `No commit found for bead ${beadId}`
+				} as IntentErrorResponse,
+				{ status: 404 }
+			);
+		}
+
+		const maxTokens = parseInt(url.searchParams.get('maxTokens') || '2000', 10);
+		const options = { maxTokens, asOfCommit: resolved.commit };
+		const injection = beadId
+			? await buildIntentContextForBead(project.path, params.id, beadId, options)
+			: await buildIntentContext(project.path, params.id, options);
+
+		if (!injection) {
+			return json(
+				{
+					error: 'intent_not_found',
+					message: `PROJECT_INTENT.md did not exist at ${resolved.commit}`
+				} as IntentErrorResponse,
+				{ status: 404 }
+			);
+		}
+
+		const response: IntentAsOfResponse = { ...resolved, injection };
+		return json(response);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : 'Unknown error';
+		return json(
+			{ error: 'parse_error', message } as IntentErrorResponse,
+			{ status: 500 }
+		);
+	}
+};
@@ -0,0 +1,42 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+import { getProjectById } from '$lib/dashboard-db';
+import { buildIntentDriftReport } from '$lib/intent/drift';
+import type { IntentErrorResponse } from '$lib/intent/types';
+
+/**
+ * GET /api/projects/[id]/intent/drift
+ *
+ * Report where bead work and PROJECT_INTENT.md have drifted apart:
+ * unlinked beads, unused anchors, links to removed anchors, and closed beads
+ * that touched areas governed by constraints or anti-goals anchors.
+ */
+export const GET: RequestHandler = async ({ params }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json(
+			{ error: 'intent_not_found', message: 'Project not found' } as IntentErrorResponse,
+			{ status: 404 }
+		);
+	}
+
+	try {
+		const report = await buildIntentDriftReport(project.path, params.id);
+		if (!report) {
+			return json(
+				{ error: 'intent_not_found', message: 'PROJECT_INTENT.md not found' } as IntentErrorResponse,
+				{ status: 404 }
+			);
+		}
+
+		return json(report);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : 'Unknown error';
+		return json(
+			{ error: 'parse_error', message } as IntentErrorResponse,
+			{ status: 500 }
+		);
+	}
+};
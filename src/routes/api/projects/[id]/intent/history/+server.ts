@@ -0,0 +1,43 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+import { getProjectById } from '$lib/dashboard-db';
+import { isGitRepo } from '$lib/git-utils';
+import { listIntentVersions } from '$lib/intent/history';
+import type { IntentErrorResponse, IntentHistoryResponse } from '$lib/intent/types';
+
+/**
+ * GET /api/projects/[id]/intent/history
+ *
+ * List the commits that changed PROJECT_INTENT.md, newest first, with the
+ * number of anchors each one added, removed and changed.
+ *
+ * Query params:
+ * - limit: Optional. Maximum number of versions (default: 20)
+ */
+export const GET: RequestHandler = async ({ params, url }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json(
+			{ error: 'intent_not_found', message: 'Project not found' } as IntentErrorResponse,
+			{ status: 404 }
+		);
+	}
+
+	if (!isGitRepo(project.path)) {
+		return json({ versions: [] } as IntentHistoryResponse);
+	}
+
+	try {
+		const limit = Math.min(Math.max(parseInt(url.searchParams.get('limit') || '20', 10) || 20, 1), 100);
+		const response: IntentHistoryResponse = { versions: listIntentVersions(project.path, limit) };
+		return json(response);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : 'Unknown error';
+		return json(
+			{ error: 'parse_error', message } as IntentErrorResponse,
+			{ status: 500 }
+		);
+	}
+};
@@ -0,0 +1,52 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+
+import { getProjectById } from '$lib/dashboard-db';
+import { isGitRepo } from '$lib/git-utils';
+import { getIntentVersionDiff } from '$lib/intent/history';
+import type { IntentErrorResponse } from '$lib/intent/types';
+
+/**
+ * GET /api/projects/[id]/intent/history/[commit]
+ *
+ * Anchor-level diff of one version of PROJECT_INTENT.md against the version
+ * before it, with the beads linked to each changed anchor at that commit.
+ */
+export const GET: RequestHandler = async ({ params }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json(
+			{ error: 'intent_not_found', message: 'Project not found' } as IntentErrorResponse,
+			{ status: 404 }
+		);
+	}
+
+	if (!/^[0-9a-f]{7,40}$/i.test(params.commit)) {
+		return json(
+			{ error: 'invalid_intent', message: 'commit must be a commit hash' } as IntentErrorResponse,
+			{ status: 400 }
+		);
+	}
+
+	try {
+		const diff = isGitRepo(project.path) ? getIntentVersionDiff(project.path, params.commit) : null;
+		if (!diff) {
+			return json(
+				{
+					error: 'intent_not_found',
+					message: `Commit ${params.commit} did not change PROJECT_INTENT.md`
+				} as IntentErrorResponse,
+				{ status: 404 }
+			);
+		}
+
+		return json(diff);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : 'Unknown error';
+		return json(
+			{ error: 'parse_error', message } as IntentErrorResponse,
+			{ status: 500 }
+		);
+	}
+};
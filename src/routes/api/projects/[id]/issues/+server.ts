@@ -0,0 +1,74 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getProjectById } from '$lib/dashboard-db';
+import { getIssueWithDetails, notifyDbChange, refreshProjectDb } from '$lib/project-db';
+import { bdErrorStatus, createBead, type CreateBeadInput } from '$lib/beads-cli';
+
+const ISSUE_TYPES = ['task', 'bug', 'feature', 'epic', 'chore'];
+
+/**
+ * POST /api/projects/[id]/issues
+ * Create a bead via `bd create`
+ *
+ * Body:
+ * - title: Required
+ * - description, issueType, priority (0-4), assignee, labels
+ * - parentId: Epic to create the bead under
+ */
+export const POST: RequestHandler = async ({ params, request }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	let body: Partial<CreateBeadInput>;
+	try {
+		body = await request.json();
+	} catch {
+		return json({ error: 'Invalid JSON body' }, { status: 400 });
+	}
+
+	if (typeof body.title !== 'string' || !body.title.trim()) {
+		return json({ error: 'Title is required' }, { status: 400 });
+	}
+
+	if (body.issueType !== undefined && !ISSUE_TYPES.includes(body.issueType)) {
+		return json({ error: `Issue type must be one of: ${ISSUE_TYPES.join(', ')}` }, { status: 400 });
+	}
+
+	if (
+		body.priority !== undefined &&
+		(!Number.isInteger(body.priority) || body.priority < 0 || body.priority > 4)
+	) {
+		return json({ error: 'Priority must be an integer from 0 to 4' }, { status: 400 });
+	}
+
+	try {
+		const result = createBead(project.path, {
+			title: body.title.trim(),
+			description: body.description,
+			issueType: body.issueType,
+			priority: body.priority,
+			assignee: body.assignee,
+			labels: Array.isArray(body.labels) ? body.labels : undefined,
+			parentId: body.parentId
+		});
+
+		if (!result.success || !result.data) {
+			return json(
+				{ error: result.error || 'Failed to create bead', code: result.errorCode },
+				{ status: bdErrorStatus(result.errorCode) }
+			);
+		}
+
+		notifyDbChange(project.path);
+		refreshProjectDb(project.path);
+
+		const issue = getIssueWithDetails(project.path, result.data.id);
+		return json(issue ?? { id: result.data.id }, { status: 201 });
+	} catch (e) {
+		console.error('Error creating issue:', e);
+		return json({ error: 'Failed to create issue' }, { status: 500 });
+	}
+};
@@ -3,6 +3,7 @@ import { getProjectById } from '$lib/dashboard-db';
 import {
 	getIssueWithDetails,
 	getIssueById,
+	getIssueWithLifecycle,
 	updateIssue,
 	getAllDescendantIssues,
 	deleteIssueWithDescendants,
@@ -10,7 +11,9 @@ import {
 	refreshProjectDb
 } from '$lib/project-db';
 import { validateTransition, type BeadStatus, type TransitionData } from '$lib/bead-lifecycle';
-import { closeBead } from '$lib/beads-cli';
+import { getProjectWorkflow } from '$lib/bead-workflow';
+import { bdErrorStatus, closeBead, editBead } from '$lib/beads-cli';
+import { CLAIMED_STATUS, getClaimBranchName, runBeadGitWorkflow } from '$lib/bead-git-workflow';
 import type { RequestHandler } from './$types';
 
 export const GET: RequestHandler = async ({ params }) => {
@@ -34,7 +37,10 @@ export const GET: RequestHandler = async ({ params }) => {
 	}
 };
 
-// Update issue title, description, status, and lifecycle fields
+// Update issue title, description, priority, status, and lifecycle fields.
+// Title, description and priority are written through the bd CLI.
+// Everything is validated before the first write; if a later write fails,
+// the content edit is undone and the response lists the fields still applied.
 export const PATCH: RequestHandler = async ({ params, request }) => {
 	const project = getProjectById(params.id);
 
@@ -47,9 +53,9 @@ export const PATCH: RequestHandler = async ({ params, request }) => {
 		const {
 			title,
 			description,
+			priority,
 			status,
 			assignee,
-			branch_name,
 			agent_id,
 			commit_hash,
 			execution_log,
@@ -57,13 +63,19 @@ export const PATCH: RequestHandler = async ({ params, request }) => {
 			pr_status,
 			ci_status
 		} = body;
+		let { branch_name } = body;
 
 		// Check issue exists
-		const issue = getIssueById(project.path, params.issueId);
+		const issue = getIssueWithLifecycle(project.path, params.issueId);
 		if (!issue) {
 			return json({ error: 'Issue not found' }, { status: 404 });
 		}
 
+		// Claiming without a branch gets the bead's own, which the git workflow creates
+		if (status === CLAIMED_STATUS && status !== issue.status && !branch_name) {
+			branch_name = getClaimBranchName(project.path, issue);
+		}
+
 		// If status is being changed, validate the transition
 		if (status !== undefined && status !== issue.status) {
 			const transitionData: TransitionData = {
@@ -77,7 +89,8 @@ export const PATCH: RequestHandler = async ({ params, request }) => {
 			const validation = validateTransition(
 				issue.status as BeadStatus,
 				status as BeadStatus,
-				transitionData
+				transitionData,
+				getProjectWorkflow(project.path)
 			);
 
 			if (!validation.valid) {
@@ -92,9 +105,10 @@ export const PATCH: RequestHandler = async ({ params, request }) => {
 		}
 
 		// Validate at least one field is provided
+		const hasContentUpdates =
+			title !== undefined || description !== undefined || priority !== undefined;
 		const hasUpdates =
-			title !== undefined ||
-			description !== undefined ||
+			hasContentUpdates ||
 			status !== undefined ||
 			assignee !== undefined ||
 			branch_name !== undefined ||
@@ -109,31 +123,72 @@ export const PATCH: RequestHandler = async ({ params, request }) => {
 			return json({ error: 'No fields to update' }, { status: 400 });
 		}
 
-		// Special handling for closing beads - use bd close CLI
-		if (status === 'closed' && issue.status !== 'closed') {
-			const closeResult = closeBead(project.path, params.issueId);
+		if (title !== undefined && (typeof title !== 'string' || !title.trim())) {
+			return json({ error: 'Title cannot be empty' }, { status: 400 });
+		}
 
-			if (!closeResult.success) {
+		if (
+			priority !== undefined &&
+			(!Number.isInteger(priority) || priority < 0 || priority > 4)
+		) {
+			return json({ error: 'Priority must be an integer from 0 to 4' }, { status: 400 });
+		}
+
+		if (description !== undefined && typeof description !== 'string') {
+			return json({ error: 'Description must be a string' }, { status: 400 });
+		}
+
+		const closing = status === 'closed' && issue.status !== 'closed';
+		const editedFields = Object.entries({ title, description, priority })
+			.filter(([, value]) => value !== undefined)
+			.map(([field]) => field);
+
+		// A later write failed: undo the content edit and report what is still written
+		const failAfterWrites = (error: string, httpStatus: number, code?: string, closed = false) => {
+			const reverted =
+				editedFields.length > 0 &&
+				editBead(project.path, params.issueId, {
+					title: title !== undefined ? issue.title : undefined,
+					description: description !== undefined ? (issue.description ?? '') : undefined,
+					priority: priority !== undefined ? issue.priority : undefined
+				}).success;
+			const applied = [...(reverted ? [] : editedFields), ...(closed ? ['status'] : [])];
+
+			if (editedFields.length > 0 || closed) {
+				notifyDbChange(project.path);
+				refreshProjectDb(project.path);
+			}
+			return json({ error, code, applied }, { status: httpStatus });
+		};
+
+		// Content edits go through bd update
+		if (hasContentUpdates) {
+			const editResult = editBead(project.path, params.issueId, { title, description, priority });
+
+			if (!editResult.success) {
 				return json(
-					{ error: closeResult.error || 'Failed to close bead via bd CLI' },
-					{ status: 500 }
+					{ error: editResult.error || 'Failed to edit bead via bd CLI', code: editResult.errorCode },
+					{ status: bdErrorStatus(editResult.errorCode) }
 				);
 			}
+		}
 
-			// Notify that we changed the DB and refresh connection
-			notifyDbChange(project.path);
-			refreshProjectDb(project.path);
+		// Special handling for closing beads - use bd close CLI
+		if (closing) {
+			const closeResult = closeBead(project.path, params.issueId);
 
-			// Return updated issue
-			const updatedIssue = getIssueWithDetails(project.path, params.issueId);
-			return json(updatedIssue);
+			if (!closeResult.success) {
+				return failAfterWrites(
+					closeResult.error || 'Failed to close bead via bd CLI',
+					bdErrorStatus(closeResult.errorCode),
+					closeResult.errorCode
+				);
+			}
 		}
 
-		// For other updates, use direct DB update
-		const success = updateIssue(project.path, params.issueId, {
-			title,
-			description,
-			status,
+		// For status and lifecycle updates, use direct DB update
+		const lifecycleUpdates = {
+			status: closing ? undefined : status,
 			assignee,
 			branch_name,
 			agent_id,
@@ -142,19 +197,26 @@ export const PATCH: RequestHandler = async ({ params, request }) => {
 			pr_url,
 			pr_status,
 			ci_status
-		});
+		};
+		const hasLifecycleUpdates = Object.values(lifecycleUpdates).some((v) => v !== undefined);
 
-		if (!success) {
-			return json({ error: 'Failed to update issue' }, { status: 500 });
+		if (hasLifecycleUpdates && !updateIssue(project.path, params.issueId, lifecycleUpdates)) {
+			return failAfterWrites('Failed to update issue', 500, undefined, closing);
 		}
 
 		// Notify that we changed the DB and refresh connection so stream picks up change
 		notifyDbChange(project.path);
 		refreshProjectDb(project.path);
 
+		// Branch on claim, push and PR on review
+		const gitWorkflow =
+			status !== undefined && status !== issue.status
+				? runBeadGitWorkflow(project.path, params.issueId, status)
+				: null;
+
 		// Return updated issue
 		const updatedIssue = getIssueWithDetails(project.path, params.issueId);
-		return json(updatedIssue);
+		return json(gitWorkflow ? { ...updatedIssue, gitWorkflow } : updatedIssue);
 	} catch (e) {
 		console.error('Error updating issue:', e);
 		return json({ error: 'Failed to update issue' }, { status: 500 });
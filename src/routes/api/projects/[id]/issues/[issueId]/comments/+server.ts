@@ -0,0 +1,51 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getProjectById } from '$lib/dashboard-db';
+import { getIssueWithDetails, notifyDbChange, refreshProjectDb } from '$lib/project-db';
+import { addComment, bdErrorStatus } from '$lib/beads-cli';
+
+/**
+ * POST /api/projects/[id]/issues/[issueId]/comments
+ * Add a comment via `bd comments add`
+ *
+ * Body:
+ * - text: Comment text
+ * - author: Optional author (defaults to bd's actor)
+ */
+export const POST: RequestHandler = async ({ params, request }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	let body: { text?: string; author?: string };
+	try {
+		body = await request.json();
+	} catch {
+		return json({ error: 'Invalid JSON body' }, { status: 400 });
+	}
+
+	if (typeof body.text !== 'string' || !body.text.trim()) {
+		return json({ error: 'Comment text is required' }, { status: 400 });
+	}
+
+	try {
+		const result = addComment(project.path, params.issueId, body.text.trim(), body.author);
+
+		if (!result.success) {
+			return json(
+				{ error: result.error || 'Failed to add comment', code: result.errorCode },
+				{ status: bdErrorStatus(result.errorCode) }
+			);
+		}
+
+		notifyDbChange(project.path);
+		refreshProjectDb(project.path);
+
+		return json(getIssueWithDetails(project.path, params.issueId), { status: 201 });
+	} catch (e) {
+		console.error('Error adding comment:', e);
+		return json({ error: 'Failed to add comment' }, { status: 500 });
+	}
+};
@@ -0,0 +1,71 @@
+import { json } from '@sveltejs/kit';
+import { getProjectById } from '$lib/dashboard-db';
+import { getIssueById } from '$lib/project-db';
+import { getDiff, isGitRepo, type GitDiffFile } from '$lib/git-utils';
+import { getBeadCommitIndex, getCommitsForBead } from '$lib/bead-commit-index';
+import type { RequestHandler } from './$types';
+
+// Diff stats are read per commit, so only the newest ones get them
+const MAX_COMMITS_WITH_STATS = 50;
+
+/**
+ * GET: Commits linked to an issue by trailer, message, branch or commit_hash,
+ * newest first, with each commit's diff stats
+ */
+export const GET: RequestHandler = async ({ params }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	try {
+		const issue = getIssueById(project.path, params.issueId);
+
+		if (!issue) {
+			return json({ error: 'Issue not found' }, { status: 404 });
+		}
+
+		if (!isGitRepo(project.path)) {
+			return json({ commits: [], total: 0, message: 'Not a git repository' });
+		}
+
+		const index = getBeadCommitIndex(project.path);
+		const commits = getCommitsForBead(index, params.issueId).map((commit, i) => {
+			if (i >= MAX_COMMITS_WITH_STATS) {
+				return { ...commit, stats: null };
+			}
+
+			try {
+				const diff = getDiff(project.path, commit.hash, { commitOnly: true });
+				const files = diff.files.map(({ path, status, additions, deletions }): Omit<GitDiffFile, 'diff'> => ({
+					path,
+					status,
+					additions,
+					deletions
+				}));
+				return {
+					...commit,
+					stats: {
+						filesChanged: files.length,
+						additions: files.reduce((sum, f) => sum + f.additions, 0),
+						deletions: files.reduce((sum, f) => sum + f.deletions, 0),
+						files
+					}
+				};
+			} catch {
+				return { ...commit, stats: null };
+			}
+		});
+
+		return json({
+			commits,
+			total: commits.length,
+			scanned: index.scanned,
+			truncated: index.truncated
+		});
+	} catch (e) {
+		console.error('Error fetching issue commits:', e);
+		return json({ error: 'Failed to fetch issue commits' }, { status: 500 });
+	}
+};
@@ -0,0 +1,102 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getProjectById } from '$lib/dashboard-db';
+import { getIssueWithDetails, notifyDbChange, refreshProjectDb } from '$lib/project-db';
+import {
+	addDependency,
+	bdErrorStatus,
+	removeDependency,
+	BEAD_DEPENDENCY_TYPES,
+	type BeadDependencyType
+} from '$lib/beads-cli';
+
+/**
+ * POST /api/projects/[id]/issues/[issueId]/dependencies
+ * Make this issue depend on another via `bd dep add`
+ *
+ * Body:
+ * - dependsOnId: The issue this one depends on (the blocker or parent epic)
+ * - type: blocks (default), parent-child, related or discovered-from
+ */
+export const POST: RequestHandler = async ({ params, request }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	let body: { dependsOnId?: string; type?: BeadDependencyType };
+	try {
+		body = await request.json();
+	} catch {
+		return json({ error: 'Invalid JSON body' }, { status: 400 });
+	}
+
+	const dependsOnId = body.dependsOnId?.trim();
+	if (!dependsOnId) {
+		return json({ error: 'dependsOnId is required' }, { status: 400 });
+	}
+
+	const type = body.type ?? 'blocks';
+	if (!BEAD_DEPENDENCY_TYPES.includes(type)) {
+		return json(
+			{ error: `Dependency type must be one of: ${BEAD_DEPENDENCY_TYPES.join(', ')}` },
+			{ status: 400 }
+		);
+	}
+
+	try {
+		const result = addDependency(project.path, params.issueId, dependsOnId, type);
+
+		if (!result.success) {
+			return json(
+				{ error: result.error || 'Failed to add dependency', code: result.errorCode },
+				{ status: bdErrorStatus(result.errorCode) }
+			);
+		}
+
+		notifyDbChange(project.path);
+		refreshProjectDb(project.path);
+
+		return json(getIssueWithDetails(project.path, params.issueId), { status: 201 });
+	} catch (e) {
+		console.error('Error adding dependency:', e);
+		return json({ error: 'Failed to add dependency' }, { status: 500 });
+	}
+};
+
+/**
+ * DELETE /api/projects/[id]/issues/[issueId]/dependencies?dependsOnId=...
+ * Remove a dependency via `bd dep remove`
+ */
+export const DELETE: RequestHandler = async ({ params, url }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	const dependsOnId = url.searchParams.get('dependsOnId');
+	if (!dependsOnId) {
+		return json({ error: 'dependsOnId is required' }, { status: 400 });
+	}
+
+	try {
+		const result = removeDependency(project.path, params.issueId, dependsOnId);
+
+		if (!result.success) {
+			return json(
+				{ error: result.error || 'Failed to remove dependency', code: result.errorCode },
+				{ status: bdErrorStatus(result.errorCode) }
+			);
+		}
+
+		notifyDbChange(project.path);
+		refreshProjectDb(project.path);
+
+		return json(getIssueWithDetails(project.path, params.issueId));
+	} catch (e) {
+		console.error('Error removing dependency:', e);
+		return json({ error: 'Failed to remove dependency' }, { status: 500 });
+	}
+};
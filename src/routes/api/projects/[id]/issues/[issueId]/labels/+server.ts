@@ -0,0 +1,89 @@
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getProjectById } from '$lib/dashboard-db';
+import { getIssueWithDetails, notifyDbChange, refreshProjectDb } from '$lib/project-db';
+import { addLabel, bdErrorStatus, removeLabel } from '$lib/beads-cli';
+
+const LABEL_PATTERN = /^[\w.:/-]+$/;
+
+/**
+ * POST /api/projects/[id]/issues/[issueId]/labels
+ * Add a label via `bd label add`
+ *
+ * Body:
+ * - label: Label name (letters, digits and . _ : / -)
+ */
+export const POST: RequestHandler = async ({ params, request }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	let body: { label?: string };
+	try {
+		body = await request.json();
+	} catch {
+		return json({ error: 'Invalid JSON body' }, { status: 400 });
+	}
+
+	const label = body.label?.trim();
+	if (!label || !LABEL_PATTERN.test(label)) {
+		return json({ error: 'A label of letters, digits and . _ : / - is required' }, { status: 400 });
+	}
+
+	try {
+		const result = addLabel(project.path, params.issueId, label);
+
+		if (!result.success) {
+			return json(
+				{ error: result.error || 'Failed to add label', code: result.errorCode },
+				{ status: bdErrorStatus(result.errorCode) }
+			);
+		}
+
+		notifyDbChange(project.path);
+		refreshProjectDb(project.path);
+
+		return json(getIssueWithDetails(project.path, params.issueId), { status: 201 });
+	} catch (e) {
+		console.error('Error adding label:', e);
+		return json({ error: 'Failed to add label' }, { status: 500 });
+	}
+};
+
+/**
+ * DELETE /api/projects/[id]/issues/[issueId]/labels?label=...
+ * Remove a label via `bd label remove`
+ */
+export const DELETE: RequestHandler = async ({ params, url }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	const label = url.searchParams.get('label');
+	if (!label) {
+		return json({ error: 'label is required' }, { status: 400 });
+	}
+
+	try {
+		const result = removeLabel(project.path, params.issueId, label);
+
+		if (!result.success) {
+			return json(
+				{ error: result.error || 'Failed to remove label', code: result.errorCode },
+				{ status: bdErrorStatus(result.errorCode) }
+			);
+		}
+
+		notifyDbChange(project.path);
+		refreshProjectDb(project.path);
+
+		return json(getIssueWithDetails(project.path, params.issueId));
+	} catch (e) {
+		console.error('Error removing label:', e);
+		return json({ error: 'Failed to remove label' }, { status: 500 });
+	}
+};
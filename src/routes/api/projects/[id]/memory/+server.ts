@@ -11,15 +11,15 @@ import {
 	createMemoryEntry,
 	listMemoryEntries,
 	memoryDbExists,
-	initMemoryDb
+	initMemoryDb,
+	MemoryDatabaseError
 } from '$lib/memory/db';
+import { getMemoryKindNames } from '$lib/memory/kinds';
 import type {
-	MemoryKind,
 	MemoryListResponse,
 	MemoryCreateResponse,
 	MemoryApiError
 } from '$lib/memory/types';
-import { MEMORY_KINDS } from '$lib/memory/types';
 
 /**
  * GET /api/projects/[id]/memory
@@ -61,10 +61,9 @@ export const GET: RequestHandler = async ({ params, url }) => {
 		const beadId = url.searchParams.get('beadId') || undefined;
 		const epicId = url.searchParams.get('epicId') || undefined;
 		const kindsParam = url.searchParams.get('kinds');
+		const knownKinds = getMemoryKindNames(projectPath);
 		const kinds = kindsParam
-			? (kindsParam
-					.split(',')
-					.filter((k) => MEMORY_KINDS.includes(k as MemoryKind)) as MemoryKind[])
+			? kindsParam.split(',').filter((k) => knownKinds.includes(k))
 			: undefined;
 		const limitParam = url.searchParams.get('limit');
 		const limit = limitParam ? Math.min(parseInt(limitParam, 10), 100) : 50;
@@ -109,7 +108,8 @@ export const GET: RequestHandler = async ({ params, url }) => {
  * - projectPath: Required. Path to the project root
  *
  * Body:
- * - kind: Required. One of: decision, checkpoint, constraint, next_step, action_report, ci_note
+ * - kind: Required. A built-in kind (decision, checkpoint, constraint, next_step,
+ *   action_report, ci_note) or one defined in .beads/memory-kinds.json
  * - title: Required. Brief title for the entry
  * - content: Required. Primary content (markdown supported)
  * - beadId: Optional. Bead ID for bead-scoped entries
@@ -117,9 +117,10 @@ export const GET: RequestHandler = async ({ params, url }) => {
  * - sessionId: Optional. Dashboard session ID
  * - chatId: Optional. Claude chat ID
  * - agentName: Optional. Name of the creating agent
- * - data: Optional. JSON metadata
+ * - data: Optional. JSON metadata (required when the kind defines a dataSchema)
  * - intentAnchors: Optional. Links to intent anchor paths
  * - expiresAt: Optional. ISO 8601 expiration timestamp
+ * - supersedes: Optional. ID of an earlier decision this decision replaces
  */
 export const POST: RequestHandler = async ({ params, request, url }) => {
 	const projectId = params.id;
@@ -136,12 +137,13 @@ export const POST: RequestHandler = async ({ params, request, url }) => {
 		const body = await request.json();
 
 		// Validate required fields
-		if (!body.kind || !MEMORY_KINDS.includes(body.kind)) {
+		const validKinds = getMemoryKindNames(projectPath);
+		if (!body.kind || !validKinds.includes(body.kind)) {
 			return json(
 				{
 					error: 'INVALID_ENTRY',
 					message: 'Invalid or missing kind',
-					details: { validKinds: [...MEMORY_KINDS] }
+					details: { validKinds }
 				} as MemoryApiError,
 				{ status: 400 }
 			);
@@ -178,7 +180,8 @@ export const POST: RequestHandler = async ({ params, request, url }) => {
 			content: body.content.trim(),
 			data: body.data,
 			intentAnchors: body.intentAnchors,
-			expiresAt: body.expiresAt
+			expiresAt: body.expiresAt,
+			supersedes: typeof body.supersedes === 'string' ? body.supersedes : undefined
 		});
 
 		const response: MemoryCreateResponse = {
@@ -188,6 +191,16 @@ export const POST: RequestHandler = async ({ params, request, url }) => {
 
 		return json(response, { status: 201 });
 	} catch (err) {
+		// Invalid entries (e.g. a rejected supersedes link) are client errors
+		if (
+			err instanceof MemoryDatabaseError &&
+			(err.code === 'INVALID_ENTRY' || err.code === 'ENTRY_NOT_FOUND')
+		) {
+			return json(
+				{ error: err.code, message: err.message } as MemoryApiError,
+				{ status: err.code === 'ENTRY_NOT_FOUND' ? 404 : 400 }
+			);
+		}
 		const message = err instanceof Error ? err.message : 'Unknown error';
 		return json(
 			{ error: 'CREATE_FAILED', message } as MemoryApiError,
@@ -0,0 +1,65 @@
+/**
+ * Memory Feedback Endpoint
+ *
+ * POST /api/projects/[id]/memory/[memId]/feedback
+ * Mark a memory shown in a brief as useful or not useful. Each vote moves the
+ * entry's relevance_score up or down and is logged in memory_feedback.
+ *
+ * Query params:
+ * - projectPath: Required. Path to the project root
+ *
+ * Body:
+ * - useful: Required. true if the memory helped, false if it didn't
+ * - beadId: Optional. Bead whose brief showed the memory
+ * - sessionId: Optional. Session that received the brief
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { MemoryDatabaseError, memoryDbExists, recordMemoryFeedback } from '$lib/memory/db';
+import type { MemoryApiError } from '$lib/memory/types';
+
+export const POST: RequestHandler = async ({ params, request, url }) => {
+	const projectPath = url.searchParams.get('projectPath');
+
+	if (!projectPath) {
+		return json(
+			{ error: 'MISSING_PATH', message: 'projectPath query parameter is required' } as MemoryApiError,
+			{ status: 400 }
+		);
+	}
+
+	if (!memoryDbExists(projectPath)) {
+		return json(
+			{ error: 'ENTRY_NOT_FOUND', message: 'Memory entry not found' } as MemoryApiError,
+			{ status: 404 }
+		);
+	}
+
+	const body = await request.json().catch(() => ({}));
+	if (typeof body.useful !== 'boolean') {
+		return json(
+			{ error: 'INVALID_ENTRY', message: 'useful must be true or false' } as MemoryApiError,
+			{ status: 400 }
+		);
+	}
+
+	try {
+		const result = recordMemoryFeedback(projectPath, {
+			projectId: params.id,
+			entryId: params.memId,
+			useful: body.useful,
+			beadId: typeof body.beadId === 'string' ? body.beadId : undefined,
+			sessionId: typeof body.sessionId === 'string' ? body.sessionId : undefined,
+			actor: 'user'
+		});
+
+		return json(result);
+	} catch (err) {
+		if (err instanceof MemoryDatabaseError && err.code === 'ENTRY_NOT_FOUND') {
+			return json({ error: err.code, message: err.message } as MemoryApiError, { status: 404 });
+		}
+		const message = err instanceof Error ? err.message : 'Unknown error';
+		return json({ error: 'QUERY_FAILED', message } as MemoryApiError, { status: 500 });
+	}
+};
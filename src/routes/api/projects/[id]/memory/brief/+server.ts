@@ -0,0 +1,74 @@
+/**
+ * Memory Brief Preview Endpoint
+ *
+ * GET /api/projects/[id]/memory/brief
+ * Dry run of brief injection: shows exactly what a session for the bead would
+ * be given, with the reason and score breakdown for every candidate memory.
+ *
+ * Query params:
+ * - projectPath: Required. Path to the project root
+ * - beadId: Required. Bead the session would work on
+ * - epicId: Optional. Override epic ID lookup
+ * - maxTokens: Optional. Token budget for brief (default: 2000)
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { buildBeadMemoryBrief } from '$lib/memory/retrieval';
+import { getMemoryFeedbackSummary, memoryDbExists } from '$lib/memory/db';
+import { loadMemoryRankingConfig } from '$lib/memory/ranking';
+import { getEpicIdForBead } from '$lib/session-persistence';
+import type { MemoryApiError, MemoryBriefPreview } from '$lib/memory/types';
+
+// GET /api/projects/[id]/memory/brief
+export const GET: RequestHandler = async ({ params, url }) => {
+	const projectId = params.id;
+	const projectPath = url.searchParams.get('projectPath');
+	const beadId = url.searchParams.get('beadId');
+
+	if (!projectPath) {
+		return json(
+			{ error: 'MISSING_PATH', message: 'projectPath required' } as MemoryApiError,
+			{ status: 400 }
+		);
+	}
+
+	if (!beadId) {
+		return json(
+			{ error: 'INVALID_ENTRY', message: 'beadId required for a brief preview' } as MemoryApiError,
+			{ status: 400 }
+		);
+	}
+
+	try {
+		const epicId = url.searchParams.get('epicId') || getEpicIdForBead(projectPath, beadId);
+		const maxTokens = parseInt(url.searchParams.get('maxTokens') || '2000', 10);
+		const ranking = loadMemoryRankingConfig(projectPath);
+
+		if (!memoryDbExists(projectPath)) {
+			return json({
+				beadId,
+				epicId,
+				maxTokens,
+				brief: { text: '', tokenEstimate: 0, includedCount: 0, truncatedCount: 0, entries: [] },
+				ranking,
+				feedback: {}
+			} as MemoryBriefPreview);
+		}
+
+		const brief = buildBeadMemoryBrief(projectPath, { projectId, beadId, epicId, maxTokens });
+		const response: MemoryBriefPreview = {
+			beadId,
+			epicId,
+			maxTokens,
+			brief,
+			ranking,
+			feedback: getMemoryFeedbackSummary(projectPath, (brief.entries ?? []).map((e) => e.id))
+		};
+
+		return json(response);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : 'Unknown error';
+		return json({ error: 'QUERY_FAILED', message } as MemoryApiError, { status: 500 });
+	}
+};
@@ -0,0 +1,116 @@
+/**
+ * Memory Consolidation Endpoints
+ *
+ * GET /api/projects/[id]/memory/consolidate - Preview merges and roll-ups
+ * POST /api/projects/[id]/memory/consolidate - Apply them
+ *
+ * Checkpoints are rolled up for beads that are closed in the project's
+ * beads database. Every applied step is written to the audit trail.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { memoryDbExists, listConsolidationLog } from '$lib/memory/db';
+import { planConsolidation, applyConsolidation } from '$lib/memory/consolidation';
+import { getIssuesByStatus } from '$lib/project-db';
+import type {
+	ConsolidationPreviewResponse,
+	ConsolidationResult,
+	MemoryApiError
+} from '$lib/memory/types';
+
+/**
+ * IDs of closed beads (none if the project has no beads database)
+ */
+function getClosedBeadIds(projectPath: string): string[] {
+	try {
+		return getIssuesByStatus(projectPath, 'closed').map((issue) => issue.id);
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * GET /api/projects/[id]/memory/consolidate
+ * Preview the consolidation plan with recent audit history
+ *
+ * Query params:
+ * - projectPath: Required. Path to the project root
+ */
+export const GET: RequestHandler = async ({ params, url }) => {
+	const projectId = params.id;
+	const projectPath = url.searchParams.get('projectPath');
+
+	if (!projectPath) {
+		return json(
+			{ error: 'MISSING_PATH', message: 'projectPath query parameter is required' } as MemoryApiError,
+			{ status: 400 }
+		);
+	}
+
+	try {
+		const plan = planConsolidation(projectPath, {
+			projectId,
+			closedBeadIds: getClosedBeadIds(projectPath)
+		});
+
+		const response: ConsolidationPreviewResponse = {
+			plan,
+			history: memoryDbExists(projectPath) ? listConsolidationLog(projectPath, projectId, 20) : []
+		};
+
+		return json(response);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : 'Unknown error';
+		return json({ error: 'QUERY_FAILED', message } as MemoryApiError, { status: 500 });
+	}
+};
+
+/**
+ * POST /api/projects/[id]/memory/consolidate
+ * Apply the consolidation plan
+ *
+ * Query params:
+ * - projectPath: Required. Path to the project root
+ *
+ * Body:
+ * - actionIds: Optional. IDs of previewed actions to apply (default: all)
+ */
+export const POST: RequestHandler = async ({ params, request, url }) => {
+	const projectId = params.id;
+	const projectPath = url.searchParams.get('projectPath');
+
+	if (!projectPath) {
+		return json(
+			{ error: 'MISSING_PATH', message: 'projectPath query parameter is required' } as MemoryApiError,
+			{ status: 400 }
+		);
+	}
+
+	try {
+		const body = await request.json().catch(() => ({}));
+		const actionIds = body.actionIds;
+
+		if (
+			actionIds !== undefined &&
+			(!Array.isArray(actionIds) || !actionIds.every((id: unknown) => typeof id === 'string'))
+		) {
+			return json(
+				{ error: 'INVALID_ENTRY', message: 'actionIds must be an array of strings' } as MemoryApiError,
+				{ status: 400 }
+			);
+		}
+
+		const result: ConsolidationResult = applyConsolidation(projectPath, {
+			projectId,
+			closedBeadIds: getClosedBeadIds(projectPath),
+			actionIds,
+			actor: 'user'
+		});
+
+		return json(result);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : 'Unknown error';
+		return json({ error: 'QUERY_FAILED', message } as MemoryApiError, { status: 500 });
+	}
+};
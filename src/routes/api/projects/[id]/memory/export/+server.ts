@@ -0,0 +1,88 @@
+/**
+ * Memory Export Endpoint
+ *
+ * GET /api/projects/[id]/memory/export
+ * Download memory entries as JSONL or Markdown.
+ *
+ * Query params:
+ * - projectPath: Required. Path to the project root
+ * - format: Optional. jsonl (default) or markdown
+ * - beadId: Optional. Limit to a bead
+ * - epicId: Optional. Limit to an epic
+ * - kinds: Optional. Comma-separated list of kinds
+ * - since: Optional. Entries created at or after this ISO date
+ * - until: Optional. Entries created at or before this ISO date
+ * - includeDeleted: Optional. Include soft-deleted entries (default: false)
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { exportMemories } from '$lib/memory/portability';
+import { MemoryDatabaseError } from '$lib/memory/db';
+import { getMemoryKindNames } from '$lib/memory/kinds';
+import type { MemoryExportFormat, MemoryApiError } from '$lib/memory/types';
+import { MEMORY_EXPORT_FORMATS } from '$lib/memory/types';
+
+const CONTENT_TYPES: Record<MemoryExportFormat, string> = {
+	jsonl: 'application/x-ndjson; charset=utf-8',
+	markdown: 'text/markdown; charset=utf-8'
+};
+
+const EXTENSIONS: Record<MemoryExportFormat, string> = {
+	jsonl: 'jsonl',
+	markdown: 'md'
+};
+
+// GET /api/projects/[id]/memory/export
+export const GET: RequestHandler = async ({ params, url }) => {
+	const projectId = params.id;
+	const projectPath = url.searchParams.get('projectPath');
+
+	if (!projectPath) {
+		return json(
+			{ error: 'MISSING_PATH', message: 'projectPath required' } as MemoryApiError,
+			{ status: 400 }
+		);
+	}
+
+	const format = (url.searchParams.get('format') || 'jsonl') as MemoryExportFormat;
+	if (!MEMORY_EXPORT_FORMATS.includes(format)) {
+		return json(
+			{
+				error: 'INVALID_ENTRY',
+				message: `Invalid format: ${format}. Must be one of: ${MEMORY_EXPORT_FORMATS.join(', ')}`
+			} as MemoryApiError,
+			{ status: 400 }
+		);
+	}
+
+	const kindsParam = url.searchParams.get('kinds');
+	const knownKinds = getMemoryKindNames(projectPath);
+	const kinds = kindsParam ? kindsParam.split(',').filter((k) => knownKinds.includes(k)) : undefined;
+
+	try {
+		const body = exportMemories(projectPath, {
+			projectId,
+			format,
+			beadId: url.searchParams.get('beadId') || undefined,
+			epicId: url.searchParams.get('epicId') || undefined,
+			kinds,
+			since: url.searchParams.get('since') || undefined,
+			until: url.searchParams.get('until') || undefined,
+			includeDeleted: url.searchParams.get('includeDeleted') === 'true'
+		});
+
+		return new Response(body, {
+			headers: {
+				'Content-Type': CONTENT_TYPES[format],
+				'Content-Disposition': `attachment; filename="memory-${projectId}.${EXTENSIONS[format]}"`
+			}
+		});
+	} catch (err) {
+		if (err instanceof MemoryDatabaseError && err.code === 'INVALID_ENTRY') {
+			return json({ error: err.code, message: err.message } as MemoryApiError, { status: 400 });
+		}
+		const message = err instanceof Error ? err.message : 'Unknown error';
+		return json({ error: 'QUERY_FAILED', message } as MemoryApiError, { status: 500 });
+	}
+};
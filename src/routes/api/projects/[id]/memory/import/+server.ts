@@ -0,0 +1,96 @@
+/**
+ * Memory Import Endpoint
+ *
+ * POST /api/projects/[id]/memory/import
+ * Merge exported JSONL or Markdown into the project's memory, keyed on entry ID.
+ *
+ * Query params:
+ * - projectPath: Required. Path to the project root
+ * - source: Optional. "snapshot" imports .beads/memory-constraints.json
+ *   instead of the request body
+ * - format: Optional. jsonl or markdown (detected when omitted)
+ * - onConflict: Optional. keep-local (default) or take-incoming
+ * - dryRun: Optional. Report what would change without writing
+ *
+ * Body: the exported text
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { importConstraintsSnapshot, importMemories } from '$lib/memory/portability';
+import { MemoryDatabaseError } from '$lib/memory/db';
+import type {
+	MemoryConflictStrategy,
+	MemoryExportFormat,
+	MemoryImportOptions,
+	MemoryImportResult,
+	MemoryApiError
+} from '$lib/memory/types';
+import { MEMORY_EXPORT_FORMATS } from '$lib/memory/types';
+
+const CONFLICT_STRATEGIES: readonly MemoryConflictStrategy[] = ['keep-local', 'take-incoming'];
+
+// POST /api/projects/[id]/memory/import
+export const POST: RequestHandler = async ({ params, request, url }) => {
+	const projectId = params.id;
+	const projectPath = url.searchParams.get('projectPath');
+
+	if (!projectPath) {
+		return json(
+			{ error: 'MISSING_PATH', message: 'projectPath required' } as MemoryApiError,
+			{ status: 400 }
+		);
+	}
+
+	const format = (url.searchParams.get('format') || undefined) as MemoryExportFormat | undefined;
+	if (format && !MEMORY_EXPORT_FORMATS.includes(format)) {
+		return json(
+			{
+				error: 'INVALID_ENTRY',
+				message: `Invalid format: ${format}. Must be one of: ${MEMORY_EXPORT_FORMATS.join(', ')}`
+			} as MemoryApiError,
+			{ status: 400 }
+		);
+	}
+
+	const onConflict = (url.searchParams.get('onConflict') || 'keep-local') as MemoryConflictStrategy;
+	if (!CONFLICT_STRATEGIES.includes(onConflict)) {
+		return json(
+			{
+				error: 'INVALID_ENTRY',
+				message: `Invalid onConflict: ${onConflict}. Must be one of: ${CONFLICT_STRATEGIES.join(', ')}`
+			} as MemoryApiError,
+			{ status: 400 }
+		);
+	}
+
+	const options: MemoryImportOptions = {
+		format,
+		onConflict,
+		dryRun: url.searchParams.get('dryRun') === 'true'
+	};
+
+	try {
+		let result: MemoryImportResult;
+		if (url.searchParams.get('source') === 'snapshot') {
+			result = importConstraintsSnapshot(projectPath, projectId, options);
+		} else {
+			const text = await request.text();
+			if (!text.trim()) {
+				return json(
+					{ error: 'INVALID_ENTRY', message: 'Request body is empty' } as MemoryApiError,
+					{ status: 400 }
+				);
+			}
+			result = importMemories(projectPath, projectId, text, options);
+		}
+
+		return json(result);
+	} catch (err) {
+		if (err instanceof MemoryDatabaseError && err.code === 'ENTRY_NOT_FOUND') {
+			return json({ error: err.code, message: err.message } as MemoryApiError, { status: 404 });
+		}
+		const message = err instanceof Error ? err.message : 'Unknown error';
+		return json({ error: 'QUERY_FAILED', message } as MemoryApiError, { status: 500 });
+	}
+};
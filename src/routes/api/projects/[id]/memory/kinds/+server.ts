@@ -0,0 +1,86 @@
+/**
+ * Memory Kinds Endpoints
+ *
+ * GET /api/projects/[id]/memory/kinds - Built-in and project-defined kinds
+ * PUT /api/projects/[id]/memory/kinds - Replace the project-defined kinds
+ *
+ * Project kinds are stored in .beads/memory-kinds.json (git-tracked).
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	getMemoryKindRegistry,
+	saveMemoryKindsFile,
+	validateMemoryKindConfigs
+} from '$lib/memory/kinds';
+import type { MemoryApiError, MemoryKindConfig } from '$lib/memory/types';
+
+/**
+ * GET /api/projects/[id]/memory/kinds
+ *
+ * Query params:
+ * - projectPath: Required. Path to the project root
+ */
+export const GET: RequestHandler = async ({ url }) => {
+	const projectPath = url.searchParams.get('projectPath');
+
+	if (!projectPath) {
+		return json(
+			{ error: 'MISSING_PATH', message: 'projectPath query parameter is required' } as MemoryApiError,
+			{ status: 400 }
+		);
+	}
+
+	return json({ kinds: Object.values(getMemoryKindRegistry(projectPath)) });
+};
+
+/**
+ * PUT /api/projects/[id]/memory/kinds
+ *
+ * Query params:
+ * - projectPath: Required. Path to the project root
+ *
+ * Body:
+ * - kinds: Required. Project-defined kinds (name, label, description,
+ *   dataSchema, retentionDays, rankingBoost, briefTemplate)
+ */
+export const PUT: RequestHandler = async ({ request, url }) => {
+	const projectPath = url.searchParams.get('projectPath');
+
+	if (!projectPath) {
+		return json(
+			{ error: 'MISSING_PATH', message: 'projectPath query parameter is required' } as MemoryApiError,
+			{ status: 400 }
+		);
+	}
+
+	try {
+		const body = await request.json().catch(() => ({}));
+		if (!Array.isArray(body.kinds)) {
+			return json(
+				{ error: 'INVALID_ENTRY', message: 'kinds must be an array' } as MemoryApiError,
+				{ status: 400 }
+			);
+		}
+
+		const kinds = body.kinds as MemoryKindConfig[];
+		const problems = validateMemoryKindConfigs(kinds);
+		if (problems.length > 0) {
+			return json(
+				{
+					error: 'INVALID_ENTRY',
+					message: 'Invalid memory kind definitions',
+					details: { problems }
+				} as MemoryApiError,
+				{ status: 400 }
+			);
+		}
+
+		saveMemoryKindsFile(projectPath, kinds);
+		return json({ kinds: Object.values(getMemoryKindRegistry(projectPath)) });
+	} catch (err) {
+		const message = err instanceof Error ? err.message : 'Unknown error';
+		return json({ error: 'QUERY_FAILED', message } as MemoryApiError, { status: 500 });
+	}
+};
@@ -0,0 +1,86 @@
+/**
+ * Memory Ranking Settings Endpoints
+ *
+ * GET /api/projects/[id]/memory/ranking - Ranking settings in effect
+ * PUT /api/projects/[id]/memory/ranking - Replace the project's overrides
+ *
+ * Overrides are stored in .beads/memory-ranking.json (git-tracked).
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import {
+	loadMemoryRankingConfig,
+	saveMemoryRankingConfig,
+	validateMemoryRankingConfig
+} from '$lib/memory/ranking';
+import type { MemoryApiError } from '$lib/memory/types';
+import { DEFAULT_RANKING_CONFIG } from '$lib/memory/types';
+
+/**
+ * GET /api/projects/[id]/memory/ranking
+ *
+ * Query params:
+ * - projectPath: Required. Path to the project root
+ */
+export const GET: RequestHandler = async ({ url }) => {
+	const projectPath = url.searchParams.get('projectPath');
+
+	if (!projectPath) {
+		return json(
+			{ error: 'MISSING_PATH', message: 'projectPath query parameter is required' } as MemoryApiError,
+			{ status: 400 }
+		);
+	}
+
+	return json({ ranking: loadMemoryRankingConfig(projectPath), defaults: DEFAULT_RANKING_CONFIG });
+};
+
+/**
+ * PUT /api/projects/[id]/memory/ranking
+ *
+ * Query params:
+ * - projectPath: Required. Path to the project root
+ *
+ * Body (all optional; send {} to restore the defaults):
+ * - weights: baseRelevance, recency, scopeProximity and/or kindBoost (0-1, scaled to sum to 1)
+ * - recencyDecayDays: Days for the recency factor to fall to 0 (1-3650)
+ * - textMatchWeight: Share of a search score that comes from the text match (0-1)
+ */
+export const PUT: RequestHandler = async ({ request, url }) => {
+	const projectPath = url.searchParams.get('projectPath');
+
+	if (!projectPath) {
+		return json(
+			{ error: 'MISSING_PATH', message: 'projectPath query parameter is required' } as MemoryApiError,
+			{ status: 400 }
+		);
+	}
+
+	try {
+		const body = await request.json().catch(() => ({}));
+		const overrides = {
+			weights: body.weights,
+			recencyDecayDays: body.recencyDecayDays,
+			textMatchWeight: body.textMatchWeight
+		};
+
+		const problems = validateMemoryRankingConfig(overrides);
+		if (problems.length > 0) {
+			return json(
+				{
+					error: 'INVALID_ENTRY',
+					message: 'Invalid ranking settings',
+					details: { problems }
+				} as MemoryApiError,
+				{ status: 400 }
+			);
+		}
+
+		const ranking = saveMemoryRankingConfig(projectPath, overrides);
+		return json({ ranking, defaults: DEFAULT_RANKING_CONFIG });
+	} catch (err) {
+		const message = err instanceof Error ? err.message : 'Unknown error';
+		return json({ error: 'QUERY_FAILED', message } as MemoryApiError, { status: 500 });
+	}
+};
@@ -13,7 +13,7 @@
 
 import { json } from '@sveltejs/kit';
 import type { RequestHandler } from './$types';
-import { getScopedMemories, buildMemoryBrief, rankMemories } from '$lib/memory/retrieval';
+import { getScopedMemories, buildBeadMemoryBrief } from '$lib/memory/retrieval';
 import { memoryDbExists } from '$lib/memory/db';
 import type { ScopedMemoryResponse, MemoryApiError } from '$lib/memory/types';
 
@@ -59,15 +59,8 @@ export const GET: RequestHandler = async ({ params, url }) => {
 			epicId
 		});
 
-		// Build ranked memories for brief
-		const allMemories = [
-			...scoped.beadMemories,
-			...scoped.epicMemories,
-			...scoped.activeConstraints
-		];
-
-		const ranked = rankMemories(allMemories, { beadId, epicId });
-		const brief = buildMemoryBrief(ranked, { maxTokens });
+		// Same brief a session for the bead is given
+		const brief = buildBeadMemoryBrief(projectPath, { projectId, beadId, epicId, maxTokens });
 
 		const response: ScopedMemoryResponse = {
 			beadMemories: scoped.beadMemories,
@@ -0,0 +1,96 @@
+/**
+ * Memory Search Endpoint
+ *
+ * GET /api/projects/[id]/memory/search
+ * Full-text or semantic search over memory titles and content.
+ *
+ * Query params:
+ * - projectPath: Required. Path to the project root
+ * - q: Required. Search text ("phrases", OR, -excluded, prefix*)
+ * - mode: Optional. fulltext (default) or semantic
+ * - beadId: Optional. Limit to a bead (also boosts its entries)
+ * - epicId: Optional. Limit to an epic
+ * - kinds: Optional. Comma-separated list of kinds
+ * - limit: Optional. Max results (default: 50, max: 100)
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { searchMemories, rankSearchHits } from '$lib/memory/retrieval';
+import { memoryDbExists } from '$lib/memory/db';
+import { getKindRankingBoosts, getMemoryKindNames } from '$lib/memory/kinds';
+import { loadMemoryRankingConfig } from '$lib/memory/ranking';
+import type {
+	MemorySearchMode,
+	MemorySearchResponse,
+	MemoryApiError
+} from '$lib/memory/types';
+import { MEMORY_SEARCH_MODES, DEFAULT_MEMORY_LIMIT, MAX_MEMORY_LIMIT } from '$lib/memory/types';
+
+// GET /api/projects/[id]/memory/search
+export const GET: RequestHandler = async ({ params, url }) => {
+	const projectId = params.id;
+	const projectPath = url.searchParams.get('projectPath');
+	const query = url.searchParams.get('q')?.trim() ?? '';
+
+	if (!projectPath) {
+		return json(
+			{ error: 'MISSING_PATH', message: 'projectPath required' } as MemoryApiError,
+			{ status: 400 }
+		);
+	}
+
+	const mode = (url.searchParams.get('mode') || 'fulltext') as MemorySearchMode;
+	if (!MEMORY_SEARCH_MODES.includes(mode)) {
+		return json(
+			{
+				error: 'INVALID_ENTRY',
+				message: `Invalid mode: ${mode}. Must be one of: ${MEMORY_SEARCH_MODES.join(', ')}`
+			} as MemoryApiError,
+			{ status: 400 }
+		);
+	}
+
+	const kindsParam = url.searchParams.get('kinds');
+	const knownKinds = getMemoryKindNames(projectPath);
+	const kinds = kindsParam ? kindsParam.split(',').filter((k) => knownKinds.includes(k)) : undefined;
+
+	if (!query || !memoryDbExists(projectPath)) {
+		return json({ query, mode, results: [] } as MemorySearchResponse);
+	}
+
+	try {
+		const beadId = url.searchParams.get('beadId') || undefined;
+		const epicId = url.searchParams.get('epicId') || undefined;
+		const limit = Math.min(
+			parseInt(url.searchParams.get('limit') || String(DEFAULT_MEMORY_LIMIT), 10) || DEFAULT_MEMORY_LIMIT,
+			MAX_MEMORY_LIMIT
+		);
+
+		const hits = searchMemories(projectPath, {
+			projectId,
+			query,
+			mode,
+			beadId,
+			epicId,
+			kinds,
+			limit
+		});
+
+		const response: MemorySearchResponse = {
+			query,
+			mode,
+			results: rankSearchHits(hits, {
+				beadId,
+				epicId,
+				kindBoosts: getKindRankingBoosts(projectPath),
+				ranking: loadMemoryRankingConfig(projectPath)
+			})
+		};
+
+		return json(response);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : 'Unknown error';
+		return json({ error: 'QUERY_FAILED', message } as MemoryApiError, { status: 500 });
+	}
+};
@@ -0,0 +1,74 @@
+/**
+ * Constraints Snapshot Endpoints
+ *
+ * GET /api/projects/[id]/memory/snapshot - Snapshot status and contents
+ * PUT /api/projects/[id]/memory/snapshot - Enable (or regenerate) the snapshot
+ * DELETE /api/projects/[id]/memory/snapshot - Disable it by removing the file
+ *
+ * The snapshot (.beads/memory-constraints.json) mirrors the project's active
+ * constraints so they can be git-tracked. Once enabled it is rewritten
+ * whenever a constraint is added or removed.
+ */
+
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { syncConstraintsSnapshot } from '$lib/memory/db';
+import {
+	disableConstraintsSnapshot,
+	getConstraintsSnapshotPath,
+	readConstraintsSnapshot
+} from '$lib/memory/snapshot';
+import type { MemoryApiError } from '$lib/memory/types';
+
+function missingPath() {
+	return json(
+		{ error: 'MISSING_PATH', message: 'projectPath query parameter is required' } as MemoryApiError,
+		{ status: 400 }
+	);
+}
+
+// GET /api/projects/[id]/memory/snapshot
+export const GET: RequestHandler = async ({ url }) => {
+	const projectPath = url.searchParams.get('projectPath');
+	if (!projectPath) {
+		return missingPath();
+	}
+
+	const snapshot = readConstraintsSnapshot(projectPath);
+	return json({
+		enabled: snapshot !== null,
+		path: getConstraintsSnapshotPath(projectPath),
+		snapshot
+	});
+};
+
+// PUT /api/projects/[id]/memory/snapshot
+export const PUT: RequestHandler = async ({ params, url }) => {
+	const projectPath = url.searchParams.get('projectPath');
+	if (!projectPath) {
+		return missingPath();
+	}
+
+	try {
+		const written = syncConstraintsSnapshot(projectPath, params.id, true);
+		return json({
+			enabled: true,
+			written,
+			path: getConstraintsSnapshotPath(projectPath),
+			snapshot: readConstraintsSnapshot(projectPath)
+		});
+	} catch (err) {
+		const message = err instanceof Error ? err.message : 'Unknown error';
+		return json({ error: 'QUERY_FAILED', message } as MemoryApiError, { status: 500 });
+	}
+};
+
+// DELETE /api/projects/[id]/memory/snapshot
+export const DELETE: RequestHandler = async ({ url }) => {
+	const projectPath = url.searchParams.get('projectPath');
+	if (!projectPath) {
+		return missingPath();
+	}
+
+	return json({ enabled: false, removed: disableConstraintsSnapshot(projectPath) });
+};
@@ -74,10 +74,15 @@ export const GET: RequestHandler = async ({ params }) => {
 			});
 
 			// Poll for task run status changes
-			let lastRunsHash = JSON.stringify(initialRuns.map((r) => ({ id: r.id, status: r.status })));
+			// Epic progress is part of the hash so per-lane and merge-back changes are streamed too
+			let lastRunsHash = JSON.stringify(
+				initialRuns.map((r) => ({ id: r.id, status: r.status, epic: r.epicSequence }))
+			);
 			const pollInterval = setInterval(() => {
 				const currentRuns = taskRunnerStore.getForProject(projectId);
-				const currentHash = JSON.stringify(currentRuns.map((r) => ({ id: r.id, status: r.status })));
+				const currentHash = JSON.stringify(
+					currentRuns.map((r) => ({ id: r.id, status: r.status, epic: r.epicSequence }))
+				);
 
 				if (currentHash !== lastRunsHash) {
 					lastRunsHash = currentHash;
@@ -0,0 +1,71 @@
+/**
+ * Session export API - download session transcripts
+ */
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getProjectById } from '$lib/dashboard-db';
+import { exportSessions } from '$lib/session-export';
+import { parseSessionSearchParams } from '$lib/session-search';
+import type { SessionExportFormat } from '$lib/session-context-types';
+import { SESSION_EXPORT_FORMATS } from '$lib/session-context-types';
+
+const CONTENT_TYPES: Record<SessionExportFormat, string> = {
+	markdown: 'text/markdown; charset=utf-8',
+	json: 'application/json; charset=utf-8'
+};
+
+const EXTENSIONS: Record<SessionExportFormat, string> = {
+	markdown: 'md',
+	json: 'json'
+};
+
+/**
+ * GET /api/projects/[id]/sessions/export
+ * Download sessions as a Markdown or JSON transcript
+ *
+ * Query params:
+ * - session: A session ID to export; repeat for several. Without it, every
+ *   session matching the search filters (see /sessions/search) is exported
+ * - format: markdown (default) or json
+ * - redact: true to replace secrets with [REDACTED]
+ */
+export const GET: RequestHandler = async ({ params, url }) => {
+	const project = getProjectById(params.id);
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	const format = (url.searchParams.get('format') || 'markdown') as SessionExportFormat;
+	if (!SESSION_EXPORT_FORMATS.includes(format)) {
+		return json(
+			{ error: `Invalid format: ${format}. Must be one of: ${SESSION_EXPORT_FORMATS.join(', ')}` },
+			{ status: 400 }
+		);
+	}
+
+	const sessionIds = url.searchParams.getAll('session').filter(Boolean);
+	const { filters, errors } = parseSessionSearchParams(url.searchParams);
+	if (errors.length > 0) {
+		return json({ error: 'Invalid search filters', details: errors }, { status: 400 });
+	}
+
+	try {
+		const body = await exportSessions(project.path, {
+			format,
+			sessionIds,
+			filters,
+			redact: url.searchParams.get('redact') === 'true'
+		});
+
+		const name = sessionIds.length === 1 ? `session-${sessionIds[0]}` : `sessions-${params.id}`;
+		return new Response(body, {
+			headers: {
+				'Content-Type': CONTENT_TYPES[format],
+				'Content-Disposition': `attachment; filename="${name}.${EXTENSIONS[format]}"`
+			}
+		});
+	} catch (err) {
+		console.error('Error exporting sessions:', err);
+		return json({ error: 'Failed to export sessions' }, { status: 500 });
+	}
+};
@@ -0,0 +1,39 @@
+/**
+ * Session search API - find persisted chat sessions by content and metadata
+ */
+import { json } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getProjectById } from '$lib/dashboard-db';
+import { parseSessionSearchParams, searchSessions } from '$lib/session-search';
+
+/**
+ * GET /api/projects/[id]/sessions/search
+ * Search messages and tool calls of the project's sessions
+ *
+ * Query params:
+ * - q: Words and "quoted phrases" that must all appear in a session
+ * - beadId, agent, tag: Exact matches (agent and tag ignore case)
+ * - status: Comma-separated session statuses
+ * - from, to: ISO dates; sessions active within the range
+ * - minCost, maxCost: Total session cost in USD
+ * - limit: Maximum results (default 50)
+ */
+export const GET: RequestHandler = async ({ params, url }) => {
+	const project = getProjectById(params.id);
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	const { filters, errors } = parseSessionSearchParams(url.searchParams);
+	if (errors.length > 0) {
+		return json({ error: 'Invalid search filters', details: errors }, { status: 400 });
+	}
+
+	try {
+		const result = await searchSessions(project.path, filters);
+		return json(result);
+	} catch (err) {
+		console.error('Error searching sessions:', err);
+		return json({ error: 'Failed to search sessions' }, { status: 500 });
+	}
+};
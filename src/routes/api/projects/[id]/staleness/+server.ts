@@ -0,0 +1,89 @@
+import { json } from '@sveltejs/kit';
+import {
+	getProjectById,
+	getProjectStalenessSettings,
+	setProjectStalenessSettings
+} from '$lib/dashboard-db';
+import {
+	DEFAULT_STALENESS_SETTINGS,
+	getThresholds,
+	validateStalenessSettings
+} from '$lib/stale-detection';
+import type { RequestHandler } from './$types';
+
+/**
+ * GET /api/projects/[id]/staleness
+ * Get the project's staleness settings plus the effective per-status thresholds
+ */
+export const GET: RequestHandler = async ({ params }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	const stored = getProjectStalenessSettings(params.id);
+	const settings = stored ?? DEFAULT_STALENESS_SETTINGS;
+
+	return json({
+		settings,
+		isCustom: stored !== null,
+		effectiveThresholds: getThresholds(settings),
+		defaultThresholds: getThresholds()
+	});
+};
+
+/**
+ * PUT /api/projects/[id]/staleness
+ * Replace the project's staleness settings
+ */
+export const PUT: RequestHandler = async ({ params, request }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	try {
+		const body = await request.json();
+		const { settings, errors } = validateStalenessSettings(body);
+
+		if (!settings) {
+			return json({ error: 'Invalid staleness settings', details: errors }, { status: 400 });
+		}
+
+		const saved = { ...settings, updatedAt: new Date().toISOString() };
+		setProjectStalenessSettings(params.id, saved);
+
+		return json({
+			settings: saved,
+			isCustom: true,
+			effectiveThresholds: getThresholds(saved),
+			defaultThresholds: getThresholds()
+		});
+	} catch (e) {
+		console.error('Error saving staleness settings:', e);
+		return json({ error: 'Failed to save staleness settings' }, { status: 500 });
+	}
+};
+
+/**
+ * DELETE /api/projects/[id]/staleness
+ * Reset the project to the default thresholds
+ */
+export const DELETE: RequestHandler = async ({ params }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	setProjectStalenessSettings(params.id, null);
+
+	return json({
+		settings: DEFAULT_STALENESS_SETTINGS,
+		isCustom: false,
+		effectiveThresholds: getThresholds(),
+		defaultThresholds: getThresholds()
+	});
+};
@@ -0,0 +1,40 @@
+import { json } from '@sveltejs/kit';
+import { getProjectById } from '$lib/dashboard-db';
+import { getIssueById } from '$lib/project-db';
+import { remediateStaleBead } from '$lib/stale-sweeper';
+import type { RequestHandler } from './$types';
+
+/**
+ * POST /api/projects/[id]/staleness/remediate
+ * Apply a one-click remediation to a stale bead
+ * Body: { issueId: string, action: 'return_to_ready' }
+ */
+export const POST: RequestHandler = async ({ params, request }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	try {
+		const { issueId, action } = await request.json();
+
+		if (!issueId || !action) {
+			return json({ error: 'issueId and action are required' }, { status: 400 });
+		}
+
+		if (!getIssueById(project.path, issueId)) {
+			return json({ error: 'Issue not found' }, { status: 404 });
+		}
+
+		const result = remediateStaleBead(params.id, issueId, action);
+		if (!result.success) {
+			return json({ error: result.error }, { status: 409 });
+		}
+
+		return json({ success: true, issue: getIssueById(project.path, issueId) });
+	} catch (e) {
+		console.error('Error remediating stale bead:', e);
+		return json({ error: 'Failed to remediate stale bead' }, { status: 500 });
+	}
+};
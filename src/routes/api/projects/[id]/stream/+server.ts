@@ -1,5 +1,6 @@
 import { getProjectById, updateProjectLastAccessed } from '$lib/dashboard-db';
-import { getAllIssues, getDataVersion, getRecentEvents, refreshProjectDb } from '$lib/project-db';
+import { formatFeedEventId, subscribeToProjectFeed, type FeedSubscription, type IssueDelta } from '$lib/project-change-feed';
+import type { StreamDeltaMessage, StreamSnapshotMessage } from '$lib/types';
 import type { RequestHandler } from './$types';
 import fs from 'fs';
 import path from 'path';
@@ -15,7 +16,27 @@ function sleep(ms: number): Promise<void> {
 	return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-export const GET: RequestHandler = async ({ params }) => {
+function toDeltaMessage(delta: IssueDelta): StreamDeltaMessage {
+	return {
+		type: 'delta',
+		seq: delta.seq,
+		added: delta.added,
+		changed: delta.changed,
+		removed: delta.removed,
+		events: delta.events,
+		dataVersion: delta.dataVersion
+	};
+}
+
+/**
+ * Project issue stream
+ *
+ * Sends a full snapshot on connect, then deltas from the project's shared
+ * change feed. Every feed message carries an SSE id; a client reconnecting with
+ * Last-Event-ID (or ?lastEventId= when it opens a new EventSource) receives
+ * only the deltas it missed, or a fresh snapshot if they are no longer kept.
+ */
+export const GET: RequestHandler = async ({ params, request, url }) => {
 	console.log(`[Stream] Request for project: ${params.id}`);
 	const project = getProjectById(params.id);
 
@@ -32,9 +53,9 @@ export const GET: RequestHandler = async ({ params }) => {
 	updateProjectLastAccessed(params.id);
 
 	const projectPath = project.path;
-	let lastDataVersion = 0;
-	let lastEventTime = new Date().toISOString();
-	let intervalId: ReturnType<typeof setInterval> | null = null;
+	const lastEventId = request.headers.get('last-event-id') ?? url.searchParams.get('lastEventId');
+	let subscription: FeedSubscription | null = null;
+	let closed = false;
 	let dbReady = false;
 
 	const stream = new ReadableStream({
@@ -64,64 +85,59 @@ export const GET: RequestHandler = async ({ params }) => {
 				return;
 			}
 
-			// Now get initial data
+			// The client may have gone away while we waited
+			if (closed) return;
+
+			const send = (id: string, message: StreamSnapshotMessage | StreamDeltaMessage) => {
+				try {
+					controller.enqueue(encoder.encode(`id: ${id}\ndata: ${JSON.stringify(message)}\n\n`));
+				} catch {
+					// Stream already closed; cancel() unsubscribes
+				}
+			};
+
 			try {
-				lastDataVersion = getDataVersion(projectPath);
-				const initialData = {
-					type: 'init',
-					project: {
-						id: project.id,
-						name: project.name,
-						path: project.path
+				subscription = subscribeToProjectFeed(
+					projectPath,
+					(delta) => {
+						if (subscription) {
+							send(formatFeedEventId(subscription.epoch, delta.seq), toDeltaMessage(delta));
+						}
 					},
-					issues: getAllIssues(projectPath),
-					dataVersion: lastDataVersion
-				};
-				console.log(`[Stream] Sending init with ${initialData.issues.length} issues`);
-				controller.enqueue(encoder.encode(`data: ${JSON.stringify(initialData)}\n\n`));
+					lastEventId
+				);
 			} catch (error) {
-				console.error('[Stream] Error sending initial data:', error);
+				console.error('[Stream] Error subscribing to change feed:', error);
 				controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: 'error', message: 'Failed to read database' })}\n\n`));
 				controller.close();
 				return;
 			}
 
-			// Poll for changes every second
-			intervalId = setInterval(() => {
-				try {
-					const currentVersion = getDataVersion(projectPath);
-
-					if (currentVersion !== lastDataVersion) {
-						lastDataVersion = currentVersion;
-
-						// Refresh the database connection to get latest data
-						// This is needed because SQLite WAL mode can cache old snapshots
-						refreshProjectDb(projectPath);
-
-						// Get new events since last check
-						const newEvents = getRecentEvents(projectPath, lastEventTime, 50);
-						if (newEvents.length > 0) {
-							lastEventTime = newEvents[0].created_at;
-						}
-
-						// Send full update
-						const update = {
-							type: 'update',
-							issues: getAllIssues(projectPath),
-							events: newEvents,
-							dataVersion: currentVersion
-						};
-						controller.enqueue(encoder.encode(`data: ${JSON.stringify(update)}\n\n`));
-					}
-				} catch (error) {
-					console.error('Stream poll error:', error);
+			const { epoch, resume } = subscription;
+			if (resume.kind === 'replay') {
+				console.log(`[Stream] Resuming from ${lastEventId} with ${resume.deltas.length} deltas`);
+				for (const delta of resume.deltas) {
+					send(formatFeedEventId(epoch, delta.seq), toDeltaMessage(delta));
 				}
-			}, 1000);
+			} else {
+				console.log(`[Stream] Sending init with ${resume.issues.length} issues`);
+				send(formatFeedEventId(epoch, resume.seq), {
+					type: 'init',
+					project: {
+						id: project.id,
+						name: project.name,
+						path: project.path
+					},
+					issues: resume.issues,
+					dataVersion: resume.dataVersion,
+					seq: resume.seq
+				});
+			}
 		},
 		cancel() {
-			if (intervalId) {
-				clearInterval(intervalId);
-			}
+			closed = true;
+			subscription?.unsubscribe();
+			subscription = null;
 		}
 	});
 
@@ -0,0 +1,41 @@
+/**
+ * Symbol Index API
+ *
+ * GET /api/projects/[id]/symbol-index
+ * Get symbol index statistics
+ *
+ * POST /api/projects/[id]/symbol-index
+ * Incrementally update the index and keep it updated on file changes
+ */
+
+import { json, error } from '@sveltejs/kit';
+import type { RequestHandler } from './$types';
+import { getProjectById } from '$lib/dashboard-db';
+import { getSymbolIndexStatus, updateSymbolIndex, watchSymbolIndex } from '$lib/symbol-index/indexer';
+
+export const GET: RequestHandler = async ({ params }) => {
+	const project = getProjectById(params.id);
+	if (!project) {
+		throw error(404, 'Project not found');
+	}
+
+	return json(getSymbolIndexStatus(project.path));
+};
+
+export const POST: RequestHandler = async ({ params }) => {
+	const project = getProjectById(params.id);
+	if (!project) {
+		throw error(404, 'Project not found');
+	}
+
+	let result;
+	try {
+		result = updateSymbolIndex(project.path);
+	} catch (err) {
+		console.error('Symbol index update error:', err);
+		throw error(500, err instanceof Error ? err.message : 'Symbol index update failed');
+	}
+	watchSymbolIndex(project.path);
+
+	return json({ result, status: getSymbolIndexStatus(project.path) });
+};
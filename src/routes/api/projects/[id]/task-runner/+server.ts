@@ -1,20 +1,25 @@
 import { json } from '@sveltejs/kit';
 import { getProjectById } from '$lib/dashboard-db';
-import { startTaskRun, getActiveRuns } from '$lib/task-runner-manager';
+import { startTaskRun, getActiveRuns, TaskRunRefusedError } from '$lib/task-runner-manager';
 import { taskRunnerStore } from '$lib/task-runner-store';
 import type { RequestHandler } from './$types';
 
 /**
  * GET - List all task runs for a project
+ * Query params:
+ *   - history=true: Include persisted runs from previous dashboard sessions
  */
-export const GET: RequestHandler = async ({ params }) => {
+export const GET: RequestHandler = async ({ params, url }) => {
 	const project = getProjectById(params.id);
 
 	if (!project) {
 		return json({ error: 'Project not found' }, { status: 404 });
 	}
 
-	const runs = taskRunnerStore.getForProject(params.id);
+	const includeHistory = url.searchParams.get('history') === 'true';
+	const runs = includeHistory
+		? taskRunnerStore.getHistory(params.id)
+		: taskRunnerStore.getForProject(params.id);
 
 	return json({
 		runs: runs.map(run => ({
@@ -30,9 +35,12 @@ export const GET: RequestHandler = async ({ params }) => {
 				totalTasks: run.epicSequence.totalTasks,
 				currentIndex: run.epicSequence.currentIndex,
 				completedCount: run.epicSequence.completedTaskIds.length,
-				failedCount: run.epicSequence.failedTaskIds.length
+				failedCount: run.epicSequence.failedTaskIds.length,
+				parallel: run.epicSequence.parallel
 			} : undefined,
 			awaitingUserInput: run.awaitingUserInput,
+			interrupted: run.interrupted ?? false,
+			completionReason: run.completionReason,
 			eventCount: run.events.length
 		}))
 	});
@@ -40,7 +48,13 @@ export const GET: RequestHandler = async ({ params }) => {
 
 /**
  * POST - Start a new task run
- * Body: { issueId: string, mode: 'autonomous' | 'guided', agentFilename?: string }
+ * Body: {
+ *   issueId: string,
+ *   mode: 'autonomous' | 'guided',
+ *   agentFilename?: string,
+ *   parallel?: boolean,     // Epics only: run ready children concurrently in git worktrees
+ *   concurrency?: number    // Max lanes running at once in parallel mode
+ * }
  */
 export const POST: RequestHandler = async ({ params, request }) => {
 	const project = getProjectById(params.id);
@@ -50,10 +64,12 @@ export const POST: RequestHandler = async ({ params, request }) => {
 	}
 
 	const body = await request.json().catch(() => ({}));
-	const { issueId, mode = 'autonomous', agentFilename } = body as {
+	const { issueId, mode = 'autonomous', agentFilename, parallel = false, concurrency } = body as {
 		issueId?: string;
 		mode?: 'autonomous' | 'guided';
 		agentFilename?: string;
+		parallel?: boolean;
+		concurrency?: number;
 	};
 
 	if (!issueId) {
@@ -64,6 +80,14 @@ export const POST: RequestHandler = async ({ params, request }) => {
 		return json({ error: 'mode must be "autonomous" or "guided"' }, { status: 400 });
 	}
 
+	if (parallel && mode !== 'autonomous') {
+		return json({ error: 'Parallel execution is only available in autonomous mode' }, { status: 400 });
+	}
+
+	if (concurrency !== undefined && (typeof concurrency !== 'number' || concurrency < 1)) {
+		return json({ error: 'concurrency must be a positive number' }, { status: 400 });
+	}
+
 	// Check if there's already an active run for this issue
 	const existingRun = taskRunnerStore.getForIssue(issueId);
 	if (existingRun && (existingRun.status === 'running' || existingRun.status === 'paused')) {
@@ -74,7 +98,15 @@ export const POST: RequestHandler = async ({ params, request }) => {
 	}
 
 	// Start the run
-	const run = startTaskRun(params.id, issueId, mode, agentFilename);
+	let run;
+	try {
+		run = startTaskRun(params.id, issueId, mode, agentFilename, { parallel, concurrency });
+	} catch (err) {
+		if (err instanceof TaskRunRefusedError) {
+			return json({ error: err.message, code: err.code, cycles: err.cycles }, { status: 409 });
+		}
+		throw err;
+	}
 
 	if (!run) {
 		return json({ error: 'Failed to start task run' }, { status: 500 });
@@ -90,7 +122,8 @@ export const POST: RequestHandler = async ({ params, request }) => {
 		isEpic: !!run.epicSequence,
 		epicSequence: run.epicSequence ? {
 			totalTasks: run.epicSequence.totalTasks,
-			taskIds: run.epicSequence.taskIds
+			taskIds: run.epicSequence.taskIds,
+			parallel: run.epicSequence.parallel
 		} : undefined
 	});
 };
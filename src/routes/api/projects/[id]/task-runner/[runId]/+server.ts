@@ -1,10 +1,11 @@
 import { json } from '@sveltejs/kit';
-import { getProjectById } from '$lib/dashboard-db';
+import { getProjectById, getPersistedTaskRun } from '$lib/dashboard-db';
 import { taskRunnerStore } from '$lib/task-runner-store';
 import type { RequestHandler } from './$types';
 
 /**
  * GET - Get details of a specific task run
+ * Falls back to the persisted run history for runs no longer in memory
  */
 export const GET: RequestHandler = async ({ params }) => {
 	const project = getProjectById(params.id);
@@ -13,7 +14,7 @@ export const GET: RequestHandler = async ({ params }) => {
 		return json({ error: 'Project not found' }, { status: 404 });
 	}
 
-	const run = taskRunnerStore.get(params.runId);
+	const run = taskRunnerStore.get(params.runId) ?? getPersistedTaskRun(params.runId);
 
 	if (!run) {
 		return json({ error: 'Run not found' }, { status: 404 });
@@ -37,6 +38,7 @@ export const GET: RequestHandler = async ({ params }) => {
 		epicSequence: run.epicSequence,
 		awaitingUserInput: run.awaitingUserInput,
 		completionReason: run.completionReason,
+		interrupted: run.interrupted ?? false,
 		events: run.events
 	});
 };
@@ -0,0 +1,41 @@
+import { json } from '@sveltejs/kit';
+import { getProjectById } from '$lib/dashboard-db';
+import { taskRunnerStore } from '$lib/task-runner-store';
+import { abandonRun } from '$lib/task-runner-manager';
+import type { RequestHandler } from './$types';
+
+/**
+ * POST - Abandon a paused or interrupted task run
+ */
+export const POST: RequestHandler = async ({ params }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	const run = taskRunnerStore.get(params.runId);
+
+	if (!run) {
+		return json({ error: 'Run not found' }, { status: 404 });
+	}
+
+	if (run.projectId !== params.id) {
+		return json({ error: 'Run does not belong to this project' }, { status: 403 });
+	}
+
+	if (run.status !== 'paused') {
+		return json({ error: 'Only paused runs can be abandoned', status: run.status }, { status: 400 });
+	}
+
+	const success = abandonRun(params.runId);
+
+	if (!success) {
+		return json({ error: 'Failed to abandon run' }, { status: 500 });
+	}
+
+	return json({
+		success: true,
+		status: 'cancelled'
+	});
+};
@@ -0,0 +1,45 @@
+import { json } from '@sveltejs/kit';
+import { getProjectById } from '$lib/dashboard-db';
+import { taskRunnerStore } from '$lib/task-runner-store';
+import { resumeRun } from '$lib/task-runner-manager';
+import type { RequestHandler } from './$types';
+
+/**
+ * POST - Resume a paused or interrupted task run
+ * Body: { message?: string }
+ */
+export const POST: RequestHandler = async ({ params, request }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	const run = taskRunnerStore.get(params.runId);
+
+	if (!run) {
+		return json({ error: 'Run not found' }, { status: 404 });
+	}
+
+	if (run.projectId !== params.id) {
+		return json({ error: 'Run does not belong to this project' }, { status: 403 });
+	}
+
+	if (run.status !== 'paused') {
+		return json({ error: 'Only paused runs can be resumed', status: run.status }, { status: 400 });
+	}
+
+	const body = await request.json().catch(() => ({}));
+	const { message } = body as { message?: string };
+
+	const success = resumeRun(params.runId, message?.trim() || undefined);
+
+	if (!success) {
+		return json({ error: 'Failed to resume run' }, { status: 500 });
+	}
+
+	return json({
+		success: true,
+		status: 'running'
+	});
+};
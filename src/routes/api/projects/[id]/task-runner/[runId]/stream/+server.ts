@@ -63,7 +63,8 @@ export const GET: RequestHandler = async ({ params, url }) => {
 					status: run.status,
 					startedAt: run.startedAt,
 					epicSequence: run.epicSequence,
-					awaitingUserInput: run.awaitingUserInput
+					awaitingUserInput: run.awaitingUserInput,
+					interrupted: run.interrupted ?? false
 				}
 			})}\n\n`));
 
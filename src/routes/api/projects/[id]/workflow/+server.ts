@@ -0,0 +1,23 @@
+import { json } from '@sveltejs/kit';
+import { getProjectById } from '$lib/dashboard-db';
+import { loadProjectWorkflow } from '$lib/bead-workflow';
+import type { RequestHandler } from './$types';
+
+/**
+ * GET /api/projects/[id]/workflow
+ * Get the effective bead workflow (statuses, transitions, requirements, columns)
+ */
+export const GET: RequestHandler = async ({ params }) => {
+	const project = getProjectById(params.id);
+
+	if (!project) {
+		return json({ error: 'Project not found' }, { status: 404 });
+	}
+
+	try {
+		return json(loadProjectWorkflow(project.path));
+	} catch (e) {
+		console.error('Error loading workflow:', e);
+		return json({ error: 'Failed to load workflow' }, { status: 500 });
+	}
+};
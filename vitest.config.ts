@@ -4,6 +4,7 @@ export default defineConfig({
 	test: {
 		include: ['src/**/*.{test,spec}.ts'],
 		environment: 'node',
+		setupFiles: ['src/lib/__tests__/setup.ts'],
 		globals: true
 	}
 });